@@ -1,5 +1,5 @@
 // cloudflare/d1/schema.ts
-import { sqliteTable, text, integer, primaryKey, unique, index } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, primaryKey, unique, index, type AnySQLiteColumn } from 'drizzle-orm/sqlite-core';
 import { sql } from 'drizzle-orm';
 import { relations } from 'drizzle-orm';
 
@@ -77,6 +77,8 @@ export const entities = sqliteTable('entities', {
   parentId: text('parent_id').references((): any => entities.id, { onDelete: 'set null' }),
   isActive: integer('is_active', { mode: 'boolean' }).notNull().default(true),
   allowsSubEntities: integer('allows_sub_entities', { mode: 'boolean' }).notNull().default(false),
+  functionalCurrency: text('functional_currency').notNull().default('USD'), // ISO 4217; ledger amounts are kept in it
+  ownershipPercentage: integer('ownership_percentage').notNull().default(100), // Share of this entity held by its parent
   createdAt: integer('created_at').notNull().default(sql`(unixepoch())`),
   updatedAt: integer('updated_at').notNull().default(sql`(unixepoch())`),
 }, (table) => ({
@@ -145,6 +147,9 @@ export const journals = sqliteTable('journals', {
   entityId: text('entity_id').notNull().references(() => entities.id, { onDelete: 'cascade' }),
   name: text('name').notNull(),
   description: text('description'),
+  // Entries in adjusting journals form the adjustments column of the trial
+  // balance worksheet; closing journals hold year-end closing entries
+  type: text('type', { enum: ['general', 'adjusting', 'closing'] }).notNull().default('general'),
   createdAt: integer('created_at').notNull().default(sql`(unixepoch())`),
   updatedAt: integer('updated_at').notNull().default(sql`(unixepoch())`),
 });
@@ -160,22 +165,318 @@ export const transactions = sqliteTable('transactions', {
   status: text('status', { enum: ['pending', 'posted', 'voided'] }).notNull().default('pending'),
   isReconciled: integer('is_reconciled', { mode: 'boolean' }).notNull().default(false),
   documentUrl: text('document_url'),
+  // Posted transactions are never edited: a correction posts a reversal and a replacement, both linked to the original
+  reversalOfTransactionId: text('reversal_of_transaction_id').references((): AnySQLiteColumn => transactions.id, { onDelete: 'restrict' }),
+  correctionOfTransactionId: text('correction_of_transaction_id').references((): AnySQLiteColumn => transactions.id, { onDelete: 'restrict' }),
+  // Set on the counterparty's mirror of an intercompany entry; both sides are posted and voided together
+  intercompanyOfTransactionId: text('intercompany_of_transaction_id').references((): AnySQLiteColumn => transactions.id, { onDelete: 'restrict' }),
   createdAt: integer('created_at').notNull().default(sql`(unixepoch())`),
   updatedAt: integer('updated_at').notNull().default(sql`(unixepoch())`),
 }, (table) => ({
   entityDateIdx: index('idx_transactions_entity_id_date').on(table.entityId, table.date),
+  reversalOfIdx: index('idx_transactions_reversal_of').on(table.reversalOfTransactionId),
+  correctionOfIdx: index('idx_transactions_correction_of').on(table.correctionOfTransactionId),
+  intercompanyOfIdx: index('idx_transactions_intercompany_of').on(table.intercompanyOfTransactionId),
 }));
 
 export const transactionLines = sqliteTable('transaction_lines', {
   id: text('id').primaryKey(),
   transactionId: text('transaction_id').notNull().references(() => transactions.id, { onDelete: 'cascade' }),
   entityAccountId: text('entity_account_id').notNull().references(() => entityAccounts.id, { onDelete: 'restrict' }),
-  amount: integer('amount').notNull(), // Amount in cents
+  amount: integer('amount').notNull(), // Amount in cents, in the entity's functional currency
   isDebit: integer('is_debit', { mode: 'boolean' }).notNull(),
   memo: text('memo'),
+  currencyCode: text('currency_code').notNull().default('USD'), // Transaction currency of the line
+  // Set only when currency_code differs from the functional currency
+  foreignAmount: integer('foreign_amount'), // Cents, in currency_code
+  exchangeRate: text('exchange_rate'), // Functional units per unit of currency_code, as a decimal string
+  // Reporting dimensions, all optional
+  propertyId: text('property_id'),
+  unitId: text('unit_id'), // Only set together with property_id
+  className: text('class_name'), // Department/class
+  tags: text('tags'), // JSON array of strings
   createdAt: integer('created_at').notNull().default(sql`(unixepoch())`),
 }, (table) => ({
   transactionIdx: index('idx_transaction_lines_transaction_id').on(table.transactionId),
+  accountCurrencyIdx: index('idx_transaction_lines_account_currency').on(table.entityAccountId, table.currencyCode),
+  propertyUnitIdx: index('idx_transaction_lines_property_unit').on(table.propertyId, table.unitId),
+  classIdx: index('idx_transaction_lines_class').on(table.className),
+}));
+
+// Daily exchange rates: 1 unit of base_currency = rate units of quote_currency
+export const exchangeRates = sqliteTable('exchange_rates', {
+  id: text('id').primaryKey(),
+  baseCurrency: text('base_currency').notNull(),
+  quoteCurrency: text('quote_currency').notNull(),
+  rate: text('rate').notNull(), // Decimal string
+  rateDate: integer('rate_date').notNull(), // Unix seconds, midnight UTC
+  source: text('source').notNull().default('manual'),
+  createdAt: integer('created_at').notNull().default(sql`(unixepoch())`),
+}, (table) => ({
+  pairDateUnique: unique('idx_exchange_rates_pair_date').on(table.baseCurrency, table.quoteCurrency, table.rateDate),
+}));
+
+export const fiscalPeriods = sqliteTable('fiscal_periods', {
+  id: text('id').primaryKey(),
+  entityId: text('entity_id').notNull().references(() => entities.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  startDate: integer('start_date').notNull(),
+  endDate: integer('end_date').notNull(),
+  status: text('status', { enum: ['open', 'soft_closed', 'hard_closed'] }).notNull().default('open'),
+  closedBy: text('closed_by').references(() => users.id, { onDelete: 'set null' }),
+  closedAt: integer('closed_at'),
+  createdAt: integer('created_at').notNull().default(sql`(unixepoch())`),
+  updatedAt: integer('updated_at').notNull().default(sql`(unixepoch())`),
+}, (table) => ({
+  entityStartUnique: unique('idx_fiscal_periods_entity_start').on(table.entityId, table.startDate),
+  entityDatesIdx: index('idx_fiscal_periods_entity_dates').on(table.entityId, table.startDate, table.endDate),
+}));
+
+export const yearEndCloses = sqliteTable('year_end_closes', {
+  id: text('id').primaryKey(),
+  entityId: text('entity_id').notNull().references(() => entities.id, { onDelete: 'cascade' }),
+  fiscalYear: integer('fiscal_year').notNull(),
+  startDate: integer('start_date').notNull(),
+  endDate: integer('end_date').notNull(),
+  retainedEarningsAccountId: text('retained_earnings_account_id').notNull().references(() => entityAccounts.id, { onDelete: 'restrict' }),
+  closingTransactionId: text('closing_transaction_id').notNull().references(() => transactions.id, { onDelete: 'restrict' }),
+  reversalTransactionId: text('reversal_transaction_id').references(() => transactions.id, { onDelete: 'set null' }),
+  netIncome: integer('net_income').notNull(), // Amount in cents
+  status: text('status', { enum: ['closed', 'reopened'] }).notNull().default('closed'),
+  closedBy: text('closed_by').notNull().references(() => users.id),
+  closedAt: integer('closed_at').notNull().default(sql`(unixepoch())`),
+  reopenedBy: text('reopened_by').references(() => users.id),
+  reopenedAt: integer('reopened_at'),
+}, (table) => ({
+  entityYearIdx: index('idx_year_end_closes_entity_year').on(table.entityId, table.fiscalYear),
+}));
+
+export const recurringSchedules = sqliteTable('recurring_schedules', {
+  id: text('id').primaryKey(),
+  entityId: text('entity_id').notNull().references(() => entities.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  templateId: text('template_id'), // Entry in the transaction-templates content collection
+  journalId: text('journal_id').references(() => journals.id, { onDelete: 'set null' }),
+  name: text('name').notNull(),
+  description: text('description').notNull(),
+  frequency: text('frequency', { enum: ['monthly', 'quarterly', 'annual', 'custom'] }).notNull(),
+  cronExpression: text('cron_expression'),
+  startDate: integer('start_date').notNull(),
+  endDate: integer('end_date'),
+  nextRunDate: integer('next_run_date'), // Null once the schedule has ended
+  lastRunDate: integer('last_run_date'),
+  occurrenceCount: integer('occurrence_count').notNull().default(0),
+  postAutomatically: integer('post_automatically', { mode: 'boolean' }).notNull().default(false),
+  lines: text('lines').notNull(), // JSON array of recurring lines with optional amount schedules
+  status: text('status', { enum: ['active', 'paused', 'completed'] }).notNull().default('active'),
+  createdAt: integer('created_at').notNull().default(sql`(unixepoch())`),
+  updatedAt: integer('updated_at').notNull().default(sql`(unixepoch())`),
+}, (table) => ({
+  statusNextRunIdx: index('idx_recurring_schedules_status_next_run').on(table.status, table.nextRunDate),
+  entityIdx: index('idx_recurring_schedules_entity').on(table.entityId),
+}));
+
+// One row per generated occurrence; the unique index stops a schedule from
+// generating the same date twice.
+export const recurringScheduleRuns = sqliteTable('recurring_schedule_runs', {
+  id: text('id').primaryKey(),
+  scheduleId: text('schedule_id').notNull().references(() => recurringSchedules.id, { onDelete: 'cascade' }),
+  occurrenceDate: integer('occurrence_date').notNull(),
+  transactionId: text('transaction_id').notNull().references(() => transactions.id, { onDelete: 'restrict' }),
+  createdAt: integer('created_at').notNull().default(sql`(unixepoch())`),
+}, (table) => ({
+  scheduleOccurrenceUnique: unique('idx_recurring_schedule_runs_occurrence').on(table.scheduleId, table.occurrenceDate),
+}));
+
+// One budget per entity, fiscal year and version, covering the twelve months
+// from start_date
+export const budgets = sqliteTable('budgets', {
+  id: text('id').primaryKey(),
+  entityId: text('entity_id').notNull().references(() => entities.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  fiscalYear: integer('fiscal_year').notNull(),
+  version: text('version', { enum: ['original', 'revised', 'forecast'] }).notNull().default('original'),
+  startDate: integer('start_date').notNull(), // Unix seconds, first day of the first month
+  basedOnBudgetId: text('based_on_budget_id').references((): any => budgets.id, { onDelete: 'set null' }),
+  createdBy: text('created_by').notNull().references(() => users.id),
+  createdAt: integer('created_at').notNull().default(sql`(unixepoch())`),
+  updatedAt: integer('updated_at').notNull().default(sql`(unixepoch())`),
+}, (table) => ({
+  entityYearVersionUnique: unique('idx_budgets_entity_year_version').on(table.entityId, table.fiscalYear, table.version),
+}));
+
+export const budgetLines = sqliteTable('budget_lines', {
+  id: text('id').primaryKey(),
+  budgetId: text('budget_id').notNull().references(() => budgets.id, { onDelete: 'cascade' }),
+  entityAccountId: text('entity_account_id').notNull().references(() => entityAccounts.id, { onDelete: 'cascade' }),
+  month: text('month').notNull(), // YYYY-MM
+  amount: integer('amount').notNull(), // Cents, on the account's normal-balance side
+}, (table) => ({
+  budgetAccountMonthUnique: unique('idx_budget_lines_budget_account_month').on(table.budgetId, table.entityAccountId, table.month),
+}));
+
+// Saved custom report configurations. A report is private to its creator
+// unless shared, when everyone with access to the entity can run it.
+export const customReports = sqliteTable('custom_reports', {
+  id: text('id').primaryKey(),
+  entityId: text('entity_id').notNull().references(() => entities.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  description: text('description'),
+  configuration: text('configuration').notNull(), // JSON CustomReportConfiguration
+  isShared: integer('is_shared', { mode: 'boolean' }).notNull().default(false),
+  createdBy: text('created_by').notNull().references(() => users.id),
+  createdAt: integer('created_at').notNull().default(sql`(unixepoch())`),
+  updatedAt: integer('updated_at').notNull().default(sql`(unixepoch())`),
+}, (table) => ({
+  entityIdx: index('idx_custom_reports_entity').on(table.entityId),
+}));
+
+// How cash moved against an account is classified on the direct-method cash
+// flow statement. Accounts without a row get a default from their type.
+export const cashFlowClassifications = sqliteTable('cash_flow_classifications', {
+  id: text('id').primaryKey(),
+  entityId: text('entity_id').notNull().references(() => entities.id, { onDelete: 'cascade' }),
+  entityAccountId: text('entity_account_id').notNull().references(() => entityAccounts.id, { onDelete: 'cascade' }),
+  category: text('category', { enum: ['operating', 'investing', 'financing'] }).notNull(),
+  classification: text('classification').notNull(), // CashFlowClassification['classification']
+  createdAt: integer('created_at').notNull().default(sql`(unixepoch())`),
+  updatedAt: integer('updated_at').notNull().default(sql`(unixepoch())`),
+}, (table) => ({
+  entityAccountUnique: unique('idx_cash_flow_classifications_entity_account').on(table.entityAccountId),
+  entityIdx: index('idx_cash_flow_classifications_entity').on(table.entityId),
+}));
+
+// Partners, members or shareholders of an entity and their share of it, used to
+// allocate income and capital on the equity roll-forward. An owner's capital and
+// distributions may be kept in equity accounts of their own.
+export const entityOwners = sqliteTable('entity_owners', {
+  id: text('id').primaryKey(),
+  entityId: text('entity_id').notNull().references(() => entities.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  ownerType: text('owner_type', { enum: ['partner', 'member', 'shareholder'] }).notNull(),
+  ownershipBasisPoints: integer('ownership_basis_points').notNull(), // 10000 = 100%
+  capitalAccountId: text('capital_account_id').references(() => entityAccounts.id, { onDelete: 'set null' }),
+  distributionAccountId: text('distribution_account_id').references(() => entityAccounts.id, { onDelete: 'set null' }),
+  createdAt: integer('created_at').notNull().default(sql`(unixepoch())`),
+  updatedAt: integer('updated_at').notNull().default(sql`(unixepoch())`),
+}, (table) => ({
+  entityIdx: index('idx_entity_owners_entity').on(table.entityId),
+}));
+
+// Finalized reports. The report itself is stored in R2 and never changed;
+// each finalization of the same report and parameters gets the next version.
+export const reportSnapshots = sqliteTable('report_snapshots', {
+  id: text('id').primaryKey(),
+  entityId: text('entity_id').notNull().references(() => entities.id),
+  reportType: text('report_type', { enum: ['balance-sheet', 'income-statement', 'cash-flow', 'custom'] }).notNull(),
+  title: text('title').notNull(),
+  version: integer('version').notNull(),
+  parameters: text('parameters').notNull(), // Canonical JSON of the report options
+  parametersHash: text('parameters_hash').notNull(),
+  entityIds: text('entity_ids').notNull(), // JSON array of the entities the report read
+  generatorVersion: text('generator_version').notNull(),
+  ledgerVersion: text('ledger_version').notNull(), // As in the report cache key
+  ledgerHash: text('ledger_hash').notNull(), // Hash of the ledger audit chain heads
+  contentHash: text('content_hash').notNull(), // SHA-256 of the stored report
+  storageKey: text('storage_key').notNull(),
+  sizeBytes: integer('size_bytes').notNull(),
+  finalizedBy: text('finalized_by').notNull().references(() => users.id),
+  finalizedAt: integer('finalized_at').notNull().default(sql`(unixepoch())`),
+}, (table) => ({
+  versionUnique: unique('idx_report_snapshots_version').on(table.entityId, table.reportType, table.parametersHash, table.version),
+  entityIdx: index('idx_report_snapshots_entity').on(table.entityId, table.finalizedAt),
+}));
+
+// Append-only, hash-chained record of every ledger change. transaction_id has no
+// foreign key so events outlive deleted drafts.
+export const ledgerAuditEvents = sqliteTable('ledger_audit_events', {
+  id: text('id').primaryKey(),
+  entityId: text('entity_id').notNull().references(() => entities.id),
+  sequence: integer('sequence').notNull(),
+  eventType: text('event_type', { enum: ['create', 'update', 'post', 'void', 'reverse', 'delete'] }).notNull(),
+  transactionId: text('transaction_id').notNull(),
+  // No foreign key: user_id is hashed, so deleting a user must not rewrite it
+  userId: text('user_id'),
+  snapshot: text('snapshot'), // Canonical JSON of the transaction after the change
+  previousHash: text('previous_hash').notNull(),
+  hash: text('hash').notNull(),
+  createdAt: integer('created_at').notNull().default(sql`(unixepoch())`),
+  // Set on an entity's first event: hash of the transaction IDs that predate the chain
+  baselineHash: text('baseline_hash'),
+}, (table) => ({
+  entitySequenceUnique: unique('idx_ledger_audit_events_entity_sequence').on(table.entityId, table.sequence),
+  transactionIdx: index('idx_ledger_audit_events_transaction').on(table.transactionId),
+}));
+
+// Bank-file imports. The uploaded file is kept in R2 (DOCUMENTS_BUCKET) so a
+// session can be resumed at any stage; its rows are staged in
+// import_session_rows until they are committed as draft transactions.
+export const importSessions = sqliteTable('import_sessions', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  entityId: text('entity_id').notNull().references(() => entities.id, { onDelete: 'cascade' }),
+  name: text('name'),
+  fileType: text('file_type').notNull(),
+  originalFileName: text('original_file_name').notNull(),
+  fileSizeBytes: integer('file_size_bytes').notNull(),
+  storageKey: text('storage_key').notNull(),
+  targetEntityType: text('target_entity_type').notNull().default('transactions'),
+  bankAccountId: text('bank_account_id').references(() => entityAccounts.id, { onDelete: 'set null' }),
+  counterAccountId: text('counter_account_id').references(() => entityAccounts.id, { onDelete: 'set null' }),
+  status: text('status').notNull(),
+  currentProcessingStage: text('current_processing_stage').notNull(),
+  totalRowsDetected: integer('total_rows_detected'),
+  processedRowsCount: integer('processed_rows_count'),
+  successfullyImportedRowsCount: integer('successfully_imported_rows_count'),
+  failedRowsCount: integer('failed_rows_count'),
+  skippedRowsCount: integer('skipped_rows_count'),
+  columnMappingConfig: text('column_mapping_config'), // JSON ImportColumnMappingConfig
+  appliedValidationRules: text('applied_validation_rules'), // JSON AppliedValidationRule[]
+  importProcessingOptions: text('import_processing_options'), // JSON ImportProcessingOptions
+  errorSummaryReport: text('error_summary_report'), // JSON ImportErrorReportSummary
+  metadata: text('metadata'), // JSON, e.g. CSV headers or the statement's balances
+  templateId: text('template_id'),
+  isRollbackPossible: integer('is_rollback_possible', { mode: 'boolean' }).notNull().default(false),
+  rollbackDeadline: integer('rollback_deadline'),
+  createdAt: integer('created_at').notNull().default(sql`(unixepoch())`),
+  startedAt: integer('started_at'),
+  completedAt: integer('completed_at'),
+  updatedAt: integer('updated_at').notNull().default(sql`(unixepoch())`),
+}, (table) => ({
+  entityIdx: index('idx_import_sessions_entity').on(table.entityId, table.createdAt),
+}));
+
+export const importSessionRows = sqliteTable('import_session_rows', {
+  id: text('id').primaryKey(),
+  sessionId: text('session_id').notNull().references(() => importSessions.id, { onDelete: 'cascade' }),
+  sourceRowNumber: integer('source_row_number').notNull(),
+  rawRowData: text('raw_row_data').notNull(), // JSON
+  mappedData: text('mapped_data'), // JSON, keyed by target field path
+  validationResults: text('validation_results'), // JSON RowValidationOutcome[]
+  determinedImportAction: text('determined_import_action', { enum: ['create_new', 'update_existing', 'skip_row'] }),
+  processingStatus: text('processing_status').notNull(),
+  errorMessages: text('error_messages'), // JSON string[]
+  warningMessages: text('warning_messages'), // JSON string[]
+  importedRecordId: text('imported_record_id').references(() => transactions.id, { onDelete: 'set null' }),
+}, (table) => ({
+  sessionRowUnique: unique('idx_import_session_rows_row').on(table.sessionId, table.sourceRowNumber),
+  importedRecordIdx: index('idx_import_session_rows_imported_record').on(table.importedRecordId),
+}));
+
+// One entry per committed import, kept after the import is rolled back.
+export const importHistory = sqliteTable('import_history', {
+  importSessionId: text('import_session_id').primaryKey().references(() => importSessions.id, { onDelete: 'cascade' }),
+  entityId: text('entity_id').notNull().references(() => entities.id, { onDelete: 'cascade' }),
+  importedItemsCount: integer('imported_items_count').notNull(),
+  targetEntityType: text('target_entity_type').notNull(),
+  importedByUserId: text('imported_by_user_id').notNull().references(() => users.id),
+  importedAt: integer('imported_at').notNull(),
+  canBeUndone: integer('can_be_undone', { mode: 'boolean' }).notNull().default(false),
+  undoPossibleUntil: integer('undo_possible_until'),
+  sourceFileName: text('source_file_name'),
+  rolledBackAt: integer('rolled_back_at'),
+}, (table) => ({
+  entityIdx: index('idx_import_history_entity').on(table.entityId, table.importedAt),
 }));
 
 // ============================================
@@ -208,6 +509,14 @@ export const entitiesRelations = relations(entities, ({ one, many }) => ({
   journals: many(journals),
   transactions: many(transactions),
   entityAccess: many(entityAccess),
+  fiscalPeriods: many(fiscalPeriods),
+  yearEndCloses: many(yearEndCloses),
+  budgets: many(budgets),
+  customReports: many(customReports),
+  cashFlowClassifications: many(cashFlowClassifications),
+  owners: many(entityOwners),
+  reportSnapshots: many(reportSnapshots),
+  importSessions: many(importSessions),
 }));
 
 export const entityAccessRelations = relations(entityAccess, ({ one }) => ({
@@ -239,6 +548,8 @@ export const transactionsRelations = relations(transactions, ({ one, many }) =>
   user: one(users, { fields: [transactions.userId], references: [users.id] }),
   entity: one(entities, { fields: [transactions.entityId], references: [entities.id] }),
   journal: one(journals, { fields: [transactions.journalId], references: [journals.id] }),
+  reversalOf: one(transactions, { fields: [transactions.reversalOfTransactionId], references: [transactions.id], relationName: 'reversal' }),
+  correctionOf: one(transactions, { fields: [transactions.correctionOfTransactionId], references: [transactions.id], relationName: 'correction' }),
   lines: many(transactionLines),
 }));
 
@@ -246,3 +557,81 @@ export const transactionLinesRelations = relations(transactionLines, ({ one }) =
   transaction: one(transactions, { fields: [transactionLines.transactionId], references: [transactions.id] }),
   entityAccount: one(entityAccounts, { fields: [transactionLines.entityAccountId], references: [entityAccounts.id] }),
 }));
+
+export const fiscalPeriodsRelations = relations(fiscalPeriods, ({ one }) => ({
+  entity: one(entities, { fields: [fiscalPeriods.entityId], references: [entities.id] }),
+  closedByUser: one(users, { fields: [fiscalPeriods.closedBy], references: [users.id] }),
+}));
+
+export const yearEndClosesRelations = relations(yearEndCloses, ({ one }) => ({
+  entity: one(entities, { fields: [yearEndCloses.entityId], references: [entities.id] }),
+  retainedEarningsAccount: one(entityAccounts, { fields: [yearEndCloses.retainedEarningsAccountId], references: [entityAccounts.id] }),
+  closingTransaction: one(transactions, { fields: [yearEndCloses.closingTransactionId], references: [transactions.id] }),
+}));
+
+export const recurringSchedulesRelations = relations(recurringSchedules, ({ one, many }) => ({
+  entity: one(entities, { fields: [recurringSchedules.entityId], references: [entities.id] }),
+  user: one(users, { fields: [recurringSchedules.userId], references: [users.id] }),
+  journal: one(journals, { fields: [recurringSchedules.journalId], references: [journals.id] }),
+  runs: many(recurringScheduleRuns),
+}));
+
+export const recurringScheduleRunsRelations = relations(recurringScheduleRuns, ({ one }) => ({
+  schedule: one(recurringSchedules, { fields: [recurringScheduleRuns.scheduleId], references: [recurringSchedules.id] }),
+  transaction: one(transactions, { fields: [recurringScheduleRuns.transactionId], references: [transactions.id] }),
+}));
+
+export const budgetsRelations = relations(budgets, ({ one, many }) => ({
+  entity: one(entities, { fields: [budgets.entityId], references: [entities.id] }),
+  basedOn: one(budgets, { fields: [budgets.basedOnBudgetId], references: [budgets.id] }),
+  lines: many(budgetLines),
+}));
+
+export const budgetLinesRelations = relations(budgetLines, ({ one }) => ({
+  budget: one(budgets, { fields: [budgetLines.budgetId], references: [budgets.id] }),
+  entityAccount: one(entityAccounts, { fields: [budgetLines.entityAccountId], references: [entityAccounts.id] }),
+}));
+
+export const customReportsRelations = relations(customReports, ({ one }) => ({
+  entity: one(entities, { fields: [customReports.entityId], references: [entities.id] }),
+  createdByUser: one(users, { fields: [customReports.createdBy], references: [users.id] }),
+}));
+
+export const cashFlowClassificationsRelations = relations(cashFlowClassifications, ({ one }) => ({
+  entity: one(entities, { fields: [cashFlowClassifications.entityId], references: [entities.id] }),
+  entityAccount: one(entityAccounts, { fields: [cashFlowClassifications.entityAccountId], references: [entityAccounts.id] }),
+}));
+
+export const entityOwnersRelations = relations(entityOwners, ({ one }) => ({
+  entity: one(entities, { fields: [entityOwners.entityId], references: [entities.id] }),
+  capitalAccount: one(entityAccounts, { fields: [entityOwners.capitalAccountId], references: [entityAccounts.id] }),
+  distributionAccount: one(entityAccounts, { fields: [entityOwners.distributionAccountId], references: [entityAccounts.id] }),
+}));
+
+export const reportSnapshotsRelations = relations(reportSnapshots, ({ one }) => ({
+  entity: one(entities, { fields: [reportSnapshots.entityId], references: [entities.id] }),
+  finalizedByUser: one(users, { fields: [reportSnapshots.finalizedBy], references: [users.id] }),
+}));
+
+export const ledgerAuditEventsRelations = relations(ledgerAuditEvents, ({ one }) => ({
+  entity: one(entities, { fields: [ledgerAuditEvents.entityId], references: [entities.id] }),
+  user: one(users, { fields: [ledgerAuditEvents.userId], references: [users.id] }),
+}));
+
+export const importSessionsRelations = relations(importSessions, ({ one, many }) => ({
+  entity: one(entities, { fields: [importSessions.entityId], references: [entities.id] }),
+  user: one(users, { fields: [importSessions.userId], references: [users.id] }),
+  bankAccount: one(entityAccounts, { fields: [importSessions.bankAccountId], references: [entityAccounts.id] }),
+  rows: many(importSessionRows),
+  history: one(importHistory),
+}));
+
+export const importSessionRowsRelations = relations(importSessionRows, ({ one }) => ({
+  session: one(importSessions, { fields: [importSessionRows.sessionId], references: [importSessions.id] }),
+  importedTransaction: one(transactions, { fields: [importSessionRows.importedRecordId], references: [transactions.id] }),
+}));
+
+export const importHistoryRelations = relations(importHistory, ({ one }) => ({
+  session: one(importSessions, { fields: [importHistory.importSessionId], references: [importSessions.id] }),
+  importedByUser: one(users, { fields: [importHistory.importedByUserId], references: [users.id] }),
+}));
@@ -0,0 +1,13 @@
+// cloudflare/workers/scheduled.ts
+/**
+ * Scheduled Worker
+ * Pages Functions do not receive cron triggers, so the application's cron
+ * jobs run in this Worker. It uses the same D1 and KV bindings as the Pages
+ * project; the jobs are registered in src/lib/cloudflare/scheduled-jobs.ts
+ * and their cron triggers set in wrangler.scheduled.toml.
+ */
+import { handleScheduledEvent } from '../../src/lib/cloudflare/scheduled-jobs';
+
+export default {
+  scheduled: handleScheduledEvent,
+};
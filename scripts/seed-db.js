@@ -74,15 +74,18 @@ VALUES ('${userId}', 'demo@properaccount.com', 'Demo User', '${hashedPassword}',
       { id: nanoid(), code: '1000', name: 'Cash & Bank', type: 'asset', subtype: 'Current Asset' },
       { id: nanoid(), code: '1100', name: 'Accounts Receivable', type: 'asset', subtype: 'Current Asset' },
       { id: nanoid(), code: '1200', name: 'Rental Property Deposits Held', type: 'asset', subtype: 'Current Asset' },
+      { id: nanoid(), code: '1400', name: 'Due From Related Entities', type: 'asset', subtype: 'Current Asset' },
       { id: nanoid(), code: '1500', name: 'Buildings at Cost', type: 'asset', subtype: 'Fixed Asset' },
       { id: nanoid(), code: '1510', name: 'Accumulated Depreciation - Buildings', type: 'asset', subtype: 'Contra Asset (Fixed)' },
       { id: nanoid(), code: '2000', name: 'Accounts Payable', type: 'liability', subtype: 'Current Liability' },
+      { id: nanoid(), code: '2050', name: 'Due To Related Entities', type: 'liability', subtype: 'Current Liability' },
       { id: nanoid(), code: '2100', name: 'Tenant Security Deposits Liability', type: 'liability', subtype: 'Current Liability' },
       { id: nanoid(), code: '2500', name: 'Mortgage Payable', type: 'liability', subtype: 'Long-term Liability' },
       { id: nanoid(), code: '3000', name: "Owner's Capital Contributions", type: 'equity', subtype: 'Owners Equity' },
       { id: nanoid(), code: '3100', name: 'Retained Earnings', type: 'equity', subtype: 'Owners Equity' },
       { id: nanoid(), code: '4000', name: 'Rental Income', type: 'income', subtype: 'Operating Income' },
       { id: nanoid(), code: '4100', name: 'Late Fee Income', type: 'income', subtype: 'Other Income' },
+      { id: nanoid(), code: '4520', name: 'Foreign Exchange Gain (Loss)', type: 'income', subtype: 'Other Income' },
       { id: nanoid(), code: '5000', name: 'Property Management Fees', type: 'expense', subtype: 'Operating Expense' },
       { id: nanoid(), code: '5100', name: 'Repairs & Maintenance', type: 'expense', subtype: 'Operating Expense' },
       { id: nanoid(), code: '5200', name: 'Property Taxes', type: 'expense', subtype: 'Operating Expense' },
@@ -133,6 +136,22 @@ INSERT INTO journals (id, user_id, entity_id, name, description, created_at, upd
     await executeSql(journalSql);
     console.log('✅ Created sample journal');
 
+    // --- 6. Load Exchange Rates ---
+    // (Schema: id, base_currency, quote_currency, rate, rate_date, source, created_at)
+    const ratesCsv = await fs.readFile(path.join(__dirname, '../cloudflare/d1/seed/exchange-rates.csv'), 'utf8');
+    const rateRows = ratesCsv
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line && !line.startsWith('#'))
+      .slice(1) // header: date,base_currency,quote_currency,rate
+      .map(line => line.split(',').map(cell => cell.trim()));
+    let ratesSql = 'INSERT OR REPLACE INTO exchange_rates (id, base_currency, quote_currency, rate, rate_date, source, created_at) VALUES\n';
+    ratesSql += rateRows.map(([date, base, quote, rate]) =>
+      `('${nanoid()}', '${base}', '${quote}', '${rate}', ${Math.floor(Date.parse(`${date}T00:00:00Z`) / 1000)}, 'seed', ${now})`
+    ).join(',\n') + ';';
+    await executeSql(ratesSql);
+    console.log(`✅ Loaded ${rateRows.length} exchange rates`);
+
     // --- Add more seed data as needed (transactions, etc.) ---
 
     console.log('\n🎉 Database seeding completed successfully for development!');
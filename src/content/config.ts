@@ -27,7 +27,7 @@ const coaTemplates = defineCollection({
   }),
 });
 
-// Transaction templates
+// Transaction templates (also the starting point for recurring schedules)
 const transactionTemplates = defineCollection({
   type: 'data',
   schema: z.object({
@@ -38,7 +38,12 @@ const transactionTemplates = defineCollection({
       accountCode: z.string(),
       description: z.string(),
       isDebit: z.boolean(),
+      amount: z.string().regex(/^\d+(\.\d{1,2})?$/).optional(), // Default amount; omitted when it varies
     })),
+    recurrence: z.object({
+      frequency: z.enum(['monthly', 'quarterly', 'annual', 'custom']),
+      cronExpression: z.string().optional(),
+    }).optional(),
   }),
 });
 
@@ -5,14 +5,341 @@
  * This module provides interface functions between the accounting core system
  * and the reporting modules. It abstracts the lower-level accounting classes
  * and provides simpler functions for common operations needed by reports.
+ *
+ * All figures are derived from posted transactions in D1. Amounts are stored
+ * as integer cents on `transaction_lines` and are returned here in currency
+ * units, signed so that a positive number is a balance on the account's
+ * normal side (contra accounts such as accumulated depreciation come back
+ * negative and therefore net correctly when summed).
  */
 
 import { Account } from "./account";
 import { Ledger } from "./ledger";
-import { Transaction } from "./transaction";
-import { newMojoDecimal } from "./financial";
+import { createDbClient, type Database } from "@db/db";
 import type { D1Database } from "@cloudflare/workers-types";
-import type { AccountBalance } from "../../../types/report";
+import type { AccountSystemType } from "../../../types/accounting";
+import { AppError, ValidationError } from "../../../utils/errors";
+import { getFiscalYearRange } from "../../../utils/date";
+import type { IntercompanyActivity } from "./consolidation";
+import type { TrialBalanceActivity } from "./trial-balance";
+import {
+  dimensionConditions,
+  type Dimension,
+  type DimensionFilter,
+} from "./dimensions";
+
+/**
+ * Account shape returned to the report generators. `type` is the report
+ * category (e.g. BANK, FIXED_ASSET, INTEREST_EXPENSE) used to place the
+ * account on a statement; `systemType` is the chart-of-accounts type.
+ */
+export interface ReportAccount {
+  id: string;
+  code: string;
+  name: string;
+  type: string;
+  systemType: AccountSystemType;
+  subtype: string | null;
+  normalBalance: "debit" | "credit";
+  parentAccountId: string | null;
+  isActive: boolean;
+  displayOrder: number;
+  entityAccountId: string;
+}
+
+/**
+ * Balance of a single account as of a date, in currency units
+ */
+export interface AccountBalance {
+  accountId: string;
+  accountName: string;
+  accountType: string;
+  accountCode: string;
+  balance: number;
+  asOfDate: string;
+}
+
+interface AccountActivityRow {
+  id: string;
+  code: string;
+  name: string;
+  type: AccountSystemType;
+  subtype: string | null;
+  parent_id: string | null;
+  is_active: number;
+  entity_account_id: string;
+  debit_total: number | null;
+  credit_total: number | null;
+  transaction_count: number | null;
+}
+
+/**
+ * Report categories by chart-of-accounts subtype. Subtypes are the values
+ * defined in src/types/accounting.d.ts.
+ */
+const SUBTYPE_REPORT_CATEGORIES: Record<
+  AccountSystemType,
+  Record<string, string>
+> = {
+  asset: {
+    cash: "BANK",
+    operating_account: "BANK",
+    security_deposit_account: "BANK",
+    reserve_account: "BANK",
+    accounts_receivable: "ACCOUNTS_RECEIVABLE",
+    prepaid_expenses: "PREPAID_EXPENSE",
+    other_current: "OTHER_CURRENT_ASSET",
+    property_land: "FIXED_ASSET",
+    property_building: "FIXED_ASSET",
+    property_improvements: "FIXED_ASSET",
+    accumulated_depreciation: "FIXED_ASSET",
+    other_fixed: "FIXED_ASSET",
+  },
+  liability: {
+    accounts_payable: "ACCOUNTS_PAYABLE",
+    security_deposits_held: "OTHER_CURRENT_LIABILITY",
+    prepaid_rent: "UNEARNED_REVENUE",
+    accrued_expenses: "ACCRUED_LIABILITY",
+    mortgage_current: "CURRENT_LIABILITY",
+    other_current: "OTHER_CURRENT_LIABILITY",
+    mortgage_long_term: "LOAN",
+    notes_payable: "NOTE_PAYABLE",
+    other_long_term: "LONG_TERM_LIABILITY",
+  },
+  equity: {
+    retained_earnings: "RETAINED_EARNINGS",
+  },
+  income: {},
+  expense: {
+    depreciation: "DEPRECIATION",
+    mortgage_interest: "INTEREST_EXPENSE",
+  },
+};
+
+/**
+ * Fallback report categories by account code range, following the layout of
+ * the default chart of accounts. Used when an account has no subtype.
+ */
+const CODE_RANGE_REPORT_CATEGORIES: Array<{
+  type: AccountSystemType;
+  from: number;
+  to: number;
+  category: string;
+}> = [
+  { type: "asset", from: 1010, to: 1099, category: "BANK" },
+  { type: "asset", from: 1100, to: 1199, category: "ACCOUNTS_RECEIVABLE" },
+  { type: "asset", from: 1200, to: 1299, category: "PREPAID_EXPENSE" },
+  { type: "asset", from: 1300, to: 1399, category: "BANK" },
+  { type: "asset", from: 1500, to: 1999, category: "FIXED_ASSET" },
+  { type: "liability", from: 2010, to: 2099, category: "ACCOUNTS_PAYABLE" },
+  { type: "liability", from: 2200, to: 2299, category: "UNEARNED_REVENUE" },
+  { type: "liability", from: 2300, to: 2499, category: "ACCRUED_LIABILITY" },
+  { type: "liability", from: 2510, to: 2519, category: "LOAN" },
+  { type: "liability", from: 2500, to: 2999, category: "LONG_TERM_LIABILITY" },
+  { type: "equity", from: 3030, to: 3039, category: "RETAINED_EARNINGS" },
+  { type: "income", from: 4500, to: 4999, category: "OTHER_INCOME" },
+  { type: "expense", from: 5800, to: 5899, category: "INTEREST_EXPENSE" },
+  { type: "expense", from: 5930, to: 5939, category: "AMORTIZATION" },
+  { type: "expense", from: 5900, to: 5999, category: "DEPRECIATION" },
+];
+
+const DEFAULT_REPORT_CATEGORIES: Record<AccountSystemType, string> = {
+  asset: "OTHER_CURRENT_ASSET",
+  liability: "OTHER_CURRENT_LIABILITY",
+  equity: "EQUITY",
+  income: "INCOME",
+  expense: "EXPENSE",
+};
+
+/**
+ * Aliases that let callers ask for a whole chart-of-accounts type using the
+ * upper-case vocabulary of the report generators.
+ */
+const SYSTEM_TYPE_ALIASES: Record<string, AccountSystemType> = {
+  ASSET: "asset",
+  LIABILITY: "liability",
+  EQUITY: "equity",
+  INCOME: "income",
+  REVENUE: "income",
+  EXPENSE: "expense",
+};
+
+/**
+ * Resolve the report category for a chart-of-accounts entry.
+ */
+export function getReportAccountType(account: {
+  type: AccountSystemType;
+  subtype?: string | null;
+  code: string;
+}): string {
+  const subtype = account.subtype?.trim().toLowerCase();
+  if (subtype) {
+    const bySubtype = SUBTYPE_REPORT_CATEGORIES[account.type]?.[subtype];
+    if (bySubtype) return bySubtype;
+  }
+
+  const code = parseInt(account.code, 10);
+  if (!Number.isNaN(code)) {
+    const range = CODE_RANGE_REPORT_CATEGORIES.find(
+      (r) => r.type === account.type && code >= r.from && code <= r.to
+    );
+    if (range) return range.category;
+  }
+
+  return DEFAULT_REPORT_CATEGORIES[account.type] ?? account.type.toUpperCase();
+}
+
+function getNormalBalance(type: AccountSystemType): "debit" | "credit" {
+  return type === "asset" || type === "expense" ? "debit" : "credit";
+}
+
+function matchesRequestedTypes(
+  account: ReportAccount,
+  types: string[]
+): boolean {
+  if (types.length === 0) return true;
+  return types.some(
+    (t) =>
+      t === account.type || SYSTEM_TYPE_ALIASES[t] === account.systemType
+  );
+}
+
+/**
+ * Convert a YYYY-MM-DD (or ISO) date into unix seconds at the start or end of
+ * that UTC day, matching how `transactions.date` is stored.
+ */
+function toUnixDayBoundary(date: string, boundary: "start" | "end"): number {
+  const day = date.slice(0, 10);
+  const time = boundary === "start" ? "T00:00:00.000Z" : "T23:59:59.999Z";
+  const ms = Date.parse(`${day}${time}`);
+  if (Number.isNaN(ms)) {
+    throw new ValidationError(`Invalid date: ${date}`);
+  }
+  return Math.floor(ms / 1000);
+}
+
+function centsToAmount(cents: number): number {
+  return Math.round(cents) / 100;
+}
+
+/**
+ * Signed net of a debit/credit pair, positive on the normal-balance side.
+ */
+function signedNet(
+  normalBalance: "debit" | "credit",
+  debitCents: number,
+  creditCents: number
+): number {
+  return centsToAmount(
+    normalBalance === "debit"
+      ? debitCents - creditCents
+      : creditCents - debitCents
+  );
+}
+
+/**
+ * Load every account linked to the entity together with its posted activity
+ * between the two unix timestamps (inclusive), counting only lines that match
+ * the dimension filter. Period activity leaves out year-end closing entries
+ * (and their reversals), which only move earnings into retained earnings.
+ */
+async function queryAccountActivity(
+  db: Database,
+  entityId: string,
+  fromUnix: number,
+  toUnix: number,
+  dimensions?: DimensionFilter,
+  excludeClosingEntries: boolean = false
+): Promise<AccountActivityRow[]> {
+  const params: unknown[] = [entityId, fromUnix, toUnix];
+  const lineConditions = [
+    ...dimensionConditions(dimensions, "tl", params),
+    ...(excludeClosingEntries ? ["j.type IS NOT 'closing'"] : []),
+  ]
+    .map((condition) => `AND ${condition}`)
+    .join(" ");
+  try {
+    return await db.query<AccountActivityRow>(
+      `SELECT coa.id, coa.code, COALESCE(ea.custom_name, coa.name) AS name,
+              coa.type, coa.subtype, coa.parent_id, ea.is_active,
+              ea.id AS entity_account_id,
+              activity.debit_total, activity.credit_total, activity.transaction_count
+       FROM entity_accounts ea
+       JOIN chart_of_accounts coa ON coa.id = ea.account_id
+       LEFT JOIN (
+         SELECT tl.entity_account_id,
+                SUM(CASE WHEN tl.is_debit = 1 THEN tl.amount ELSE 0 END) AS debit_total,
+                SUM(CASE WHEN tl.is_debit = 0 THEN tl.amount ELSE 0 END) AS credit_total,
+                COUNT(DISTINCT tl.transaction_id) AS transaction_count
+         FROM transaction_lines tl
+         JOIN transactions t ON t.id = tl.transaction_id
+         LEFT JOIN journals j ON j.id = t.journal_id
+         WHERE t.entity_id = ?1 AND t.status = 'posted'
+           AND t.date >= ?2 AND t.date <= ?3 ${lineConditions}
+         GROUP BY tl.entity_account_id
+       ) activity ON activity.entity_account_id = ea.id
+       WHERE ea.entity_id = ?1
+       ORDER BY coa.code`,
+      params
+    );
+  } catch (error) {
+    console.error(`Error loading account activity for entity ${entityId}:`, error);
+    throw new AppError(
+      "Failed to load account activity",
+      500,
+      true,
+      "DatabaseError",
+      "DATABASE_ERROR"
+    );
+  }
+}
+
+function toReportAccount(row: AccountActivityRow, index: number): ReportAccount {
+  return {
+    id: row.id,
+    code: row.code,
+    name: row.name,
+    type: getReportAccountType(row),
+    systemType: row.type,
+    subtype: row.subtype,
+    normalBalance: getNormalBalance(row.type),
+    parentAccountId: row.parent_id,
+    isActive: Boolean(row.is_active),
+    displayOrder: index,
+    entityAccountId: row.entity_account_id,
+  };
+}
+
+/**
+ * Closing balances as of a date for accounts matching the requested types,
+ * keyed by account ID. Accounts that have never had a posting are omitted.
+ */
+async function loadBalances(
+  db: Database,
+  entityId: string,
+  asOfUnix: number,
+  types: string[],
+  dimensions?: DimensionFilter
+): Promise<Map<string, { account: ReportAccount; balance: number }>> {
+  const rows = await queryAccountActivity(db, entityId, 0, asOfUnix, dimensions);
+  const balances = new Map<string, { account: ReportAccount; balance: number }>();
+
+  rows.forEach((row, index) => {
+    const account = toReportAccount(row, index);
+    if (!row.transaction_count) return;
+    if (!matchesRequestedTypes(account, types)) return;
+    balances.set(account.id, {
+      account,
+      balance: signedNet(
+        account.normalBalance,
+        row.debit_total ?? 0,
+        row.credit_total ?? 0
+      ),
+    });
+  });
+
+  return balances;
+}
 
 /**
  * Get account balances for specified account types as of a date
@@ -21,36 +348,109 @@ export async function getAccountBalances({
   entityId,
   asOfDate,
   accountTypes,
+  dimensions,
   db,
 }: {
   entityId: string;
   asOfDate: string;
   accountTypes: string[];
+  dimensions?: DimensionFilter | undefined;
   db: D1Database;
 }): Promise<AccountBalance[]> {
-  // In a real implementation, you would:
-  // 1. Query D1 database for accounts of specified types
-  // 2. Query transactions up to asOfDate
-  // 3. Calculate balance for each account
-
-  // Simulate database query for accounts
-  const accounts = await getAccountsByType({
+  const balances = await loadBalances(
+    createDbClient(db),
     entityId,
-    types: accountTypes,
-    db,
-  });
+    toUnixDayBoundary(asOfDate, "end"),
+    accountTypes,
+    dimensions
+  );
 
-  // For each account, return balance information
-  return accounts.map((account) => ({
+  return Array.from(balances.values()).map(({ account, balance }) => ({
     accountId: account.id,
     accountName: account.name,
     accountType: account.type,
     accountCode: account.code,
-    balance: parseFloat(account.balance), // Convert string balance to number
+    balance,
     asOfDate: asOfDate,
   }));
 }
 
+/**
+ * Latest change (unix seconds) to the accounts of the entities: a rename,
+ * (de)activation or chart-of-accounts edit. Reports show account names and
+ * flags, so cached reports are keyed on this as well as the ledger version.
+ */
+export async function getAccountsUpdatedAt({
+  entityIds,
+  db,
+}: {
+  entityIds: string[];
+  db: D1Database;
+}): Promise<number> {
+  if (entityIds.length === 0) return 0;
+  try {
+    const row = await createDbClient(db).queryOne<{ updated_at: number | null }>(
+      `SELECT MAX(MAX(ea.updated_at, coa.updated_at)) AS updated_at
+       FROM entity_accounts ea
+       JOIN chart_of_accounts coa ON coa.id = ea.account_id
+       WHERE ea.entity_id IN (${entityIds.map((_, i) => `?${i + 1}`).join(", ")})`,
+      entityIds
+    );
+    return row?.updated_at ?? 0;
+  } catch (error) {
+    console.error("Error loading account update times:", error);
+    throw new AppError(
+      "Failed to load accounts",
+      500,
+      true,
+      "DatabaseError",
+      "DATABASE_ERROR"
+    );
+  }
+}
+
+/**
+ * Parent and ownership percentage of each of the entities. Consolidated
+ * reports split equity and earnings by them, so cached consolidated
+ * reports are keyed on them as well.
+ */
+export async function getEntityOwnership({
+  entityIds,
+  db,
+}: {
+  entityIds: string[];
+  db: D1Database;
+}): Promise<Map<string, { parentId: string | null; ownershipPercentage: number }>> {
+  if (entityIds.length === 0) return new Map();
+  try {
+    const rows = await createDbClient(db).query<{
+      id: string;
+      parent_id: string | null;
+      ownership_percentage: number | null;
+    }>(
+      `SELECT id, parent_id, ownership_percentage
+       FROM entities
+       WHERE id IN (${entityIds.map((_, i) => `?${i + 1}`).join(", ")})`,
+      entityIds
+    );
+    return new Map(
+      rows.map((row) => [
+        row.id,
+        { parentId: row.parent_id, ownershipPercentage: row.ownership_percentage ?? 100 },
+      ])
+    );
+  } catch (error) {
+    console.error("Error loading entity ownership:", error);
+    throw new AppError(
+      "Failed to load entities",
+      500,
+      true,
+      "DatabaseError",
+      "DATABASE_ERROR"
+    );
+  }
+}
+
 /**
  * Get accounts by type from the database
  */
@@ -62,118 +462,116 @@ export async function getAccountsByType({
   entityId: string;
   types: string[];
   db: D1Database;
-}): Promise<Account[]> {
-  // In a real implementation, you would query D1 database for matching accounts
-
-  // For now, create a simulated response based on types
-  // This would use db.prepare().bind().all() in real implementation
-
-  // Simulate a database query with a promise
-  return new Promise((resolve) => {
-    // Simulate fetching accounts from database
-    const accounts: Account[] = [];
-
-    // Create some sample accounts for each requested type
-    types.forEach((type, index) => {
-      // Create accounts of the requested type
-      const typeAccounts = [
-        new Account({
-          id: `${type.toLowerCase()}_1_${entityId}`,
-          code: `${type.substring(0, 3)}001`,
-          name: `${type} Account 1`,
-          type: type as any, // Cast as any since we can't validate all possible types here
-          isActive: true,
-          normalBalance: ["ASSET", "EXPENSE"].includes(type)
-            ? "debit"
-            : "credit",
-        }),
-        new Account({
-          id: `${type.toLowerCase()}_2_${entityId}`,
-          code: `${type.substring(0, 3)}002`,
-          name: `${type} Account 2`,
-          type: type as any,
-          isActive: true,
-          normalBalance: ["ASSET", "EXPENSE"].includes(type)
-            ? "debit"
-            : "credit",
-        }),
-      ];
-
-      // Add sample balances
-      typeAccounts[0].setBalance(10000 + index * 1000);
-      typeAccounts[1].setBalance(5000 + index * 500);
-
-      accounts.push(...typeAccounts);
-    });
+}): Promise<ReportAccount[]> {
+  const client = createDbClient(db);
+  let rows: AccountActivityRow[];
+  try {
+    rows = await client.query<AccountActivityRow>(
+      `SELECT coa.id, coa.code, COALESCE(ea.custom_name, coa.name) AS name,
+              coa.type, coa.subtype, coa.parent_id, ea.is_active,
+              ea.id AS entity_account_id,
+              NULL AS debit_total, NULL AS credit_total, NULL AS transaction_count
+       FROM entity_accounts ea
+       JOIN chart_of_accounts coa ON coa.id = ea.account_id
+       WHERE ea.entity_id = ?1
+       ORDER BY coa.code`,
+      [entityId]
+    );
+  } catch (error) {
+    console.error(`Error fetching accounts for entity ${entityId}:`, error);
+    throw new AppError(
+      "Failed to fetch accounts",
+      500,
+      true,
+      "DatabaseError",
+      "DATABASE_ERROR"
+    );
+  }
 
-    resolve(accounts);
-  });
+  return rows
+    .map(toReportAccount)
+    .filter((account) => matchesRequestedTypes(account, types));
 }
 
 /**
- * Get transaction totals aggregated by account for a time period
+ * Get transaction totals aggregated by account for a time period. `total` is
+ * the net on the account's normal-balance side; the debits and credits that
+ * make it up are returned alongside. Year-end closing entries are not counted,
+ * so a closed year still reports its income and expenses.
  */
 export async function getTransactionTotals({
   entityId,
   startDate,
   endDate,
   accountTypes,
+  dimensions,
   db,
 }: {
   entityId: string;
   startDate: string;
   endDate: string;
   accountTypes: string[];
+  dimensions?: DimensionFilter | undefined;
   db: D1Database;
 }): Promise<
   Array<{
     accountId: string;
     count: number;
     total: number;
+    debitTotal: number;
+    creditTotal: number;
     type: string;
+    systemType: AccountSystemType;
   }>
 > {
-  // In a real implementation, you would:
-  // 1. Query D1 database for transactions in the date range for relevant accounts
-  // 2. Aggregate transaction totals by account
-
-  // Simulate database query
-  // This would be a complex query with GROUP BY in real implementation
-  const accounts = await getAccountsByType({
+  const rows = await queryAccountActivity(
+    createDbClient(db),
     entityId,
-    types: accountTypes,
-    db,
-  });
-
-  // Simulate transaction totals
-  return accounts.map((account) => {
-    // Generate simulated transaction data
-    const transactionCount = Math.floor(Math.random() * 20) + 5;
-    const totalAmount = parseFloat(account.balance) * 0.8 * Math.random();
+    toUnixDayBoundary(startDate, "start"),
+    toUnixDayBoundary(endDate, "end"),
+    dimensions,
+    true
+  );
 
-    return {
+  return rows
+    .map((row, index) => ({ row, account: toReportAccount(row, index) }))
+    .filter(
+      ({ row, account }) =>
+        (row.transaction_count ?? 0) > 0 &&
+        matchesRequestedTypes(account, accountTypes)
+    )
+    .map(({ row, account }) => ({
       accountId: account.id,
-      count: transactionCount,
-      total: totalAmount,
+      count: row.transaction_count ?? 0,
+      total: signedNet(
+        account.normalBalance,
+        row.debit_total ?? 0,
+        row.credit_total ?? 0
+      ),
+      debitTotal: centsToAmount(row.debit_total ?? 0),
+      creditTotal: centsToAmount(row.credit_total ?? 0),
       type: account.type,
-    };
-  });
+      systemType: account.systemType,
+    }));
 }
 
 /**
- * Get changes in account balances between two dates
+ * Get changes in account balances between two dates. The starting balance is
+ * the balance before any activity on `startDate`.
  */
 export async function getChangeInAccountBalances({
   entityId,
   startDate,
   endDate,
   accountTypes,
+  dimensions,
   db,
 }: {
   entityId: string;
   startDate: string;
   endDate: string;
   accountTypes: string[];
+  dimensions?: DimensionFilter | undefined;
   db: D1Database;
 }): Promise<
   Array<{
@@ -183,33 +581,780 @@ export async function getChangeInAccountBalances({
     netChange: number;
   }>
 > {
-  // In real implementation, would:
-  // 1. Get balances as of startDate
-  // 2. Get balances as of endDate
-  // 3. Calculate changes
+  const client = createDbClient(db);
+  const opening = await loadBalances(
+    client,
+    entityId,
+    toUnixDayBoundary(startDate, "start") - 1,
+    accountTypes,
+    dimensions
+  );
+  const closing = await loadBalances(
+    client,
+    entityId,
+    toUnixDayBoundary(endDate, "end"),
+    accountTypes,
+    dimensions
+  );
 
-  const accounts = await getAccountsByType({
+  return Array.from(closing.values()).map(({ account, balance }) => {
+    const startingBalance = opening.get(account.id)?.balance ?? 0;
+    return {
+      accountId: account.id,
+      startingBalance,
+      endingBalance: balance,
+      netChange: centsToAmount(Math.round((balance - startingBalance) * 100)),
+    };
+  });
+}
+
+/**
+ * Cash moved against each non-cash account between two dates, traced from
+ * the posted transactions that have a line on a cash account: the other
+ * lines of such a transaction are its counter accounts, and a credit to
+ * one (rent earned, a loan drawn) is cash received, a debit cash paid.
+ * Transfers between cash accounts have no counter lines. The dimension
+ * filter applies to the counter lines. Each account comes with the entity's
+ * saved cash flow classification, if any.
+ */
+export async function getCashCounterpartActivity({
+  entityId,
+  startDate,
+  endDate,
+  cashAccountTypes,
+  dimensions,
+  db,
+}: {
+  entityId: string;
+  startDate: string;
+  endDate: string;
+  /** Report categories of the cash accounts, e.g. BANK */
+  cashAccountTypes: string[];
+  dimensions?: DimensionFilter | undefined;
+  db: D1Database;
+}): Promise<
+  Array<{
+    account: ReportAccount;
+    inflow: number;
+    outflow: number;
+    classification: string | null;
+  }>
+> {
+  const accounts = await getAccountsByType({ entityId, types: [], db });
+  const cashAccountIds = accounts
+    .filter((account) => cashAccountTypes.includes(account.type))
+    .map((account) => account.entityAccountId);
+  if (cashAccountIds.length === 0) return [];
+
+  const params: unknown[] = [
     entityId,
-    types: accountTypes,
-    db,
+    toUnixDayBoundary(startDate, "start"),
+    toUnixDayBoundary(endDate, "end"),
+  ];
+  const cashPlaceholders = cashAccountIds.map((id) => {
+    params.push(id);
+    return `?${params.length}`;
   });
+  const lineConditions = dimensionConditions(dimensions, "tl", params)
+    .map((condition) => `AND ${condition}`)
+    .join(" ");
 
-  // Simulate balance changes
-  return accounts.map((account) => {
-    const currentBalance = parseFloat(account.balance);
-    // Create a simulated starting balance between 70-90% of current balance
-    const startingBalanceFactor = 0.7 + Math.random() * 0.2;
-    const startingBalance = currentBalance * startingBalanceFactor;
+  let rows: Array<{
+    entity_account_id: string;
+    inflow: number;
+    outflow: number;
+    classification: string | null;
+  }>;
+  try {
+    rows = await createDbClient(db).query(
+      `SELECT tl.entity_account_id,
+              SUM(CASE WHEN tl.is_debit = 0 THEN tl.amount ELSE 0 END) AS inflow,
+              SUM(CASE WHEN tl.is_debit = 1 THEN tl.amount ELSE 0 END) AS outflow,
+              cfc.classification
+       FROM transaction_lines tl
+       JOIN transactions t ON t.id = tl.transaction_id
+       LEFT JOIN cash_flow_classifications cfc ON cfc.entity_account_id = tl.entity_account_id
+       WHERE t.entity_id = ?1 AND t.status = 'posted'
+         AND t.date >= ?2 AND t.date <= ?3
+         AND tl.entity_account_id NOT IN (${cashPlaceholders.join(", ")})
+         AND EXISTS (
+           SELECT 1 FROM transaction_lines cash
+           WHERE cash.transaction_id = t.id
+             AND cash.entity_account_id IN (${cashPlaceholders.join(", ")})
+         ) ${lineConditions}
+       GROUP BY tl.entity_account_id`,
+      params
+    );
+  } catch (error) {
+    console.error(`Error tracing cash activity for entity ${entityId}:`, error);
+    throw new AppError(
+      "Failed to load cash activity",
+      500,
+      true,
+      "DatabaseError",
+      "DATABASE_ERROR"
+    );
+  }
 
+  const byEntityAccount = new Map(
+    accounts.map((account) => [account.entityAccountId, account])
+  );
+  return rows.flatMap((row) => {
+    const account = byEntityAccount.get(row.entity_account_id);
+    if (!account) return [];
+    return [
+      {
+        account,
+        inflow: centsToAmount(row.inflow),
+        outflow: centsToAmount(row.outflow),
+        classification: row.classification,
+      },
+    ];
+  });
+}
+
+/**
+ * Net income that has not been closed into retained earnings as of a date,
+ * split between the fiscal year containing that date and earlier years.
+ * Years that have been closed contribute nothing, because their closing
+ * entries zero out the income and expense accounts.
+ */
+export async function getUnclosedEarnings({
+  entityId,
+  asOfDate,
+  fiscalYearStartMonth = 0,
+  dimensions,
+  db,
+}: {
+  entityId: string;
+  asOfDate: string;
+  fiscalYearStartMonth?: number;
+  dimensions?: DimensionFilter | undefined;
+  db: D1Database;
+}): Promise<{
+  priorYears: number;
+  currentYear: number;
+  fiscalYearStart: string;
+}> {
+  const year = parseInt(asOfDate.slice(0, 4), 10);
+  const month = parseInt(asOfDate.slice(5, 7), 10) - 1;
+  const startMonth = ((fiscalYearStartMonth % 12) + 12) % 12;
+  const fiscalYear = month < startMonth ? year - 1 : year;
+  const { startDate: fiscalYearStart } = getFiscalYearRange(
+    fiscalYear,
+    startMonth
+  );
+
+  const client = createDbClient(db);
+  const types = ["INCOME", "EXPENSE"];
+  const netEarnings = (
+    balances: Map<string, { account: ReportAccount; balance: number }>
+  ): number =>
+    Array.from(balances.values()).reduce(
+      (sum, { account, balance }) =>
+        account.systemType === "income" ? sum + balance : sum - balance,
+      0
+    );
+
+  const priorYears = netEarnings(
+    await loadBalances(
+      client,
+      entityId,
+      toUnixDayBoundary(fiscalYearStart, "start") - 1,
+      types,
+      dimensions
+    )
+  );
+  const throughAsOf = netEarnings(
+    await loadBalances(
+      client,
+      entityId,
+      toUnixDayBoundary(asOfDate, "end"),
+      types,
+      dimensions
+    )
+  );
+
+  return {
+    priorYears: centsToAmount(Math.round(priorYears * 100)),
+    currentYear: centsToAmount(Math.round((throughAsOf - priorYears) * 100)),
+    fiscalYearStart,
+  };
+}
+
+/**
+ * Activity behind a statement of changes in equity: each equity account's
+ * balance before `startDate` and its debits and credits in the period, and
+ * from the income and expense accounts, the earnings not yet closed before
+ * the period and the period's net income. Closing journals only move net
+ * income into retained earnings, so their entries are left out of the
+ * period; they are part of the opening figures.
+ */
+export async function getEquityActivity({
+  entityId,
+  startDate,
+  endDate,
+  db,
+}: {
+  entityId: string;
+  startDate: string;
+  endDate: string;
+  db: D1Database;
+}): Promise<{
+  accounts: Array<{
+    account: ReportAccount;
+    /** Credit balance before the period */
+    openingBalance: number;
+    debitTotal: number;
+    creditTotal: number;
+  }>;
+  openingEarnings: number;
+  netIncome: number;
+}> {
+  let rows: Array<
+    AccountActivityRow & {
+      opening_debit: number | null;
+      opening_credit: number | null;
+      period_debit: number | null;
+      period_credit: number | null;
+    }
+  >;
+  try {
+    rows = await createDbClient(db).query(
+      `SELECT coa.id, coa.code, COALESCE(ea.custom_name, coa.name) AS name,
+              coa.type, coa.subtype, coa.parent_id, ea.is_active,
+              ea.id AS entity_account_id,
+              NULL AS debit_total, NULL AS credit_total, activity.transaction_count,
+              activity.opening_debit, activity.opening_credit,
+              activity.period_debit, activity.period_credit
+       FROM entity_accounts ea
+       JOIN chart_of_accounts coa ON coa.id = ea.account_id
+       LEFT JOIN (
+         SELECT tl.entity_account_id,
+                SUM(CASE WHEN t.date < ?2 AND tl.is_debit = 1 THEN tl.amount ELSE 0 END) AS opening_debit,
+                SUM(CASE WHEN t.date < ?2 AND tl.is_debit = 0 THEN tl.amount ELSE 0 END) AS opening_credit,
+                SUM(CASE WHEN t.date >= ?2 AND j.type IS NOT 'closing' AND tl.is_debit = 1 THEN tl.amount ELSE 0 END) AS period_debit,
+                SUM(CASE WHEN t.date >= ?2 AND j.type IS NOT 'closing' AND tl.is_debit = 0 THEN tl.amount ELSE 0 END) AS period_credit,
+                COUNT(DISTINCT tl.transaction_id) AS transaction_count
+         FROM transaction_lines tl
+         JOIN transactions t ON t.id = tl.transaction_id
+         LEFT JOIN journals j ON j.id = t.journal_id
+         WHERE t.entity_id = ?1 AND t.status = 'posted' AND t.date <= ?3
+         GROUP BY tl.entity_account_id
+       ) activity ON activity.entity_account_id = ea.id
+       WHERE ea.entity_id = ?1 AND coa.type IN ('equity', 'income', 'expense')
+       ORDER BY coa.code`,
+      [entityId, toUnixDayBoundary(startDate, "start"), toUnixDayBoundary(endDate, "end")]
+    );
+  } catch (error) {
+    console.error(`Error loading equity activity for entity ${entityId}:`, error);
+    throw new AppError(
+      "Failed to load equity activity",
+      500,
+      true,
+      "DatabaseError",
+      "DATABASE_ERROR"
+    );
+  }
+
+  const accounts = [];
+  let openingEarnings = 0;
+  let netIncome = 0;
+  for (const [index, row] of rows.entries()) {
+    if (!row.transaction_count) continue;
+    const openingCredit = (row.opening_credit ?? 0) - (row.opening_debit ?? 0);
+    const periodCredit = (row.period_credit ?? 0) - (row.period_debit ?? 0);
+    if (row.type === "equity") {
+      accounts.push({
+        account: toReportAccount(row, index),
+        openingBalance: centsToAmount(openingCredit),
+        debitTotal: centsToAmount(row.period_debit ?? 0),
+        creditTotal: centsToAmount(row.period_credit ?? 0),
+      });
+    } else {
+      // Income is credited and expense debited, so the net credit is earnings
+      openingEarnings += openingCredit;
+      netIncome += periodCredit;
+    }
+  }
+
+  return {
+    accounts,
+    openingEarnings: centsToAmount(openingEarnings),
+    netIncome: centsToAmount(netIncome),
+  };
+}
+
+/**
+ * Values of a dimension found on the entity's posted lines up to `endDate`
+ * (and from `startDate`, when given), sorted. Null stands for lines without
+ * the dimension and comes last when there are any.
+ */
+export async function getDimensionValues({
+  entityId,
+  dimension,
+  startDate,
+  endDate,
+  db,
+}: {
+  entityId: string;
+  dimension: Dimension;
+  startDate?: string | undefined;
+  endDate: string;
+  db: D1Database;
+}): Promise<Array<string | null>> {
+  const value = {
+    property: "tl.property_id",
+    unit: "tl.unit_id",
+    class: "tl.class_name",
+    tag: "tag.value",
+  }[dimension];
+  const tagJoin =
+    dimension === "tag" ? "LEFT JOIN json_each(tl.tags) tag" : "";
+
+  let rows: Array<{ value: string | null }>;
+  try {
+    rows = await createDbClient(db).query<{ value: string | null }>(
+      `SELECT DISTINCT ${value} AS value
+       FROM transaction_lines tl
+       JOIN transactions t ON t.id = tl.transaction_id
+       ${tagJoin}
+       WHERE t.entity_id = ?1 AND t.status = 'posted'
+         AND t.date >= ?2 AND t.date <= ?3`,
+      [
+        entityId,
+        startDate ? toUnixDayBoundary(startDate, "start") : 0,
+        toUnixDayBoundary(endDate, "end"),
+      ]
+    );
+  } catch (error) {
+    console.error(`Error loading ${dimension} values for entity ${entityId}:`, error);
+    throw new AppError(
+      "Failed to load dimension values",
+      500,
+      true,
+      "DatabaseError",
+      "DATABASE_ERROR"
+    );
+  }
+
+  const values = rows
+    .map((row) => row.value)
+    .filter((v): v is string => v !== null)
+    .sort((a, b) => a.localeCompare(b));
+  return rows.some((row) => row.value === null) ? [...values, null] : values;
+}
+
+/**
+ * Posted intercompany activity of the given entities between two dates
+ * (inclusive; from the first entry when `startDate` is omitted), summed per
+ * entry side and account. Each row names the entity on the other side.
+ */
+export async function getIntercompanyActivity({
+  entityIds,
+  startDate,
+  endDate,
+  db,
+}: {
+  entityIds: string[];
+  startDate?: string;
+  endDate: string;
+  db: D1Database;
+}): Promise<IntercompanyActivity[]> {
+  if (entityIds.length === 0) return [];
+  const entityPlaceholders = entityIds.map((_, index) => `?${index + 3}`).join(", ");
+
+  let rows: Array<{
+    pair_id: string;
+    entity_id: string;
+    counterparty_entity_id: string;
+    code: string;
+    type: AccountSystemType;
+    debit_total: number;
+    credit_total: number;
+  }>;
+  try {
+    rows = await createDbClient(db).query(
+      `SELECT COALESCE(t.intercompany_of_transaction_id, t.id) AS pair_id,
+              t.entity_id, cp.entity_id AS counterparty_entity_id,
+              coa.code, coa.type,
+              SUM(CASE WHEN tl.is_debit = 1 THEN tl.amount ELSE 0 END) AS debit_total,
+              SUM(CASE WHEN tl.is_debit = 0 THEN tl.amount ELSE 0 END) AS credit_total
+       FROM transactions t
+       JOIN transactions cp
+         ON cp.id = t.intercompany_of_transaction_id OR cp.intercompany_of_transaction_id = t.id
+       JOIN transaction_lines tl ON tl.transaction_id = t.id
+       JOIN entity_accounts ea ON ea.id = tl.entity_account_id
+       JOIN chart_of_accounts coa ON coa.id = ea.account_id
+       WHERE t.status = 'posted' AND t.date >= ?1 AND t.date <= ?2
+         AND t.entity_id IN (${entityPlaceholders})
+       GROUP BY pair_id, t.entity_id, cp.entity_id, coa.code, coa.type`,
+      [
+        startDate ? toUnixDayBoundary(startDate, "start") : 0,
+        toUnixDayBoundary(endDate, "end"),
+        ...entityIds,
+      ]
+    );
+  } catch (error) {
+    console.error("Error loading intercompany activity:", error);
+    throw new AppError(
+      "Failed to load intercompany activity",
+      500,
+      true,
+      "DatabaseError",
+      "DATABASE_ERROR"
+    );
+  }
+
+  return rows.map((row) => ({
+    pairId: row.pair_id,
+    entityId: row.entity_id,
+    counterpartyEntityId: row.counterparty_entity_id,
+    accountCode: row.code,
+    systemType: row.type,
+    amount: signedNet(getNormalBalance(row.type), row.debit_total, row.credit_total),
+  }));
+}
+
+/**
+ * Posted activity of every account linked to the entity up to `asOfDate`,
+ * split between entries in adjusting journals and everything else. Entries
+ * in closing journals are left out unless `includeClosingEntries` is set.
+ */
+export async function getTrialBalanceActivity({
+  entityId,
+  asOfDate,
+  includeClosingEntries = false,
+  db,
+}: {
+  entityId: string;
+  asOfDate: string;
+  includeClosingEntries?: boolean;
+  db: D1Database;
+}): Promise<Array<{ account: ReportAccount; activity: TrialBalanceActivity }>> {
+  let rows: Array<
+    AccountActivityRow & {
+      unadjusted_debit: number | null;
+      unadjusted_credit: number | null;
+      adjusting_debit: number | null;
+      adjusting_credit: number | null;
+    }
+  >;
+  try {
+    rows = await createDbClient(db).query(
+      `SELECT coa.id, coa.code, COALESCE(ea.custom_name, coa.name) AS name,
+              coa.type, coa.subtype, coa.parent_id, ea.is_active,
+              ea.id AS entity_account_id,
+              NULL AS debit_total, NULL AS credit_total, NULL AS transaction_count,
+              activity.unadjusted_debit, activity.unadjusted_credit,
+              activity.adjusting_debit, activity.adjusting_credit
+       FROM entity_accounts ea
+       JOIN chart_of_accounts coa ON coa.id = ea.account_id
+       LEFT JOIN (
+         SELECT tl.entity_account_id,
+                SUM(CASE WHEN j.type IS NOT 'adjusting' AND tl.is_debit = 1 THEN tl.amount ELSE 0 END) AS unadjusted_debit,
+                SUM(CASE WHEN j.type IS NOT 'adjusting' AND tl.is_debit = 0 THEN tl.amount ELSE 0 END) AS unadjusted_credit,
+                SUM(CASE WHEN j.type = 'adjusting' AND tl.is_debit = 1 THEN tl.amount ELSE 0 END) AS adjusting_debit,
+                SUM(CASE WHEN j.type = 'adjusting' AND tl.is_debit = 0 THEN tl.amount ELSE 0 END) AS adjusting_credit
+         FROM transaction_lines tl
+         JOIN transactions t ON t.id = tl.transaction_id
+         LEFT JOIN journals j ON j.id = t.journal_id
+         WHERE t.entity_id = ?1 AND t.status = 'posted' AND t.date <= ?2
+           AND (?3 = 1 OR j.type IS NOT 'closing')
+         GROUP BY tl.entity_account_id
+       ) activity ON activity.entity_account_id = ea.id
+       WHERE ea.entity_id = ?1
+       ORDER BY coa.code`,
+      [entityId, toUnixDayBoundary(asOfDate, "end"), includeClosingEntries ? 1 : 0]
+    );
+  } catch (error) {
+    console.error(`Error loading trial balance activity for entity ${entityId}:`, error);
+    throw new AppError(
+      "Failed to load trial balance activity",
+      500,
+      true,
+      "DatabaseError",
+      "DATABASE_ERROR"
+    );
+  }
+
+  return rows.map((row, index) => ({
+    account: toReportAccount(row, index),
+    activity: {
+      accountId: row.id,
+      systemType: row.type,
+      unadjustedNetDebit: centsToAmount((row.unadjusted_debit ?? 0) - (row.unadjusted_credit ?? 0)),
+      adjustingDebit: centsToAmount(row.adjusting_debit ?? 0),
+      adjustingCredit: centsToAmount(row.adjusting_credit ?? 0),
+    },
+  }));
+}
+
+/**
+ * Posted transactions of the entity up to `asOfDate` whose debits and
+ * credits differ, with the difference (debits minus credits). These are what
+ * put a trial balance out of balance.
+ */
+export async function getUnbalancedTransactions({
+  entityId,
+  asOfDate,
+  db,
+}: {
+  entityId: string;
+  asOfDate: string;
+  db: D1Database;
+}): Promise<Array<{ transactionId: string; date: string; description: string; difference: number }>> {
+  let rows: Array<{ id: string; date: number; description: string; net_debit: number }>;
+  try {
+    rows = await createDbClient(db).query(
+      `SELECT t.id, t.date, t.description,
+              SUM(CASE WHEN tl.is_debit = 1 THEN tl.amount ELSE -tl.amount END) AS net_debit
+       FROM transactions t
+       JOIN transaction_lines tl ON tl.transaction_id = t.id
+       WHERE t.entity_id = ?1 AND t.status = 'posted' AND t.date <= ?2
+       GROUP BY t.id, t.date, t.description
+       HAVING net_debit <> 0
+       ORDER BY t.date`,
+      [entityId, toUnixDayBoundary(asOfDate, "end")]
+    );
+  } catch (error) {
+    console.error(`Error checking transaction balances for entity ${entityId}:`, error);
+    throw new AppError(
+      "Failed to check transaction balances",
+      500,
+      true,
+      "DatabaseError",
+      "DATABASE_ERROR"
+    );
+  }
+
+  return rows.map((row) => ({
+    transactionId: row.id,
+    date: new Date(row.date * 1000).toISOString().slice(0, 10),
+    description: row.description,
+    difference: centsToAmount(row.net_debit),
+  }));
+}
+
+/**
+ * Every account linked to the entity with its balance before `startDate` and
+ * its posted debits, credits and line count from `startDate` to `endDate`,
+ * counting only lines that match the dimension filter. Without a start date
+ * the period reaches back to the first posting. Amounts are currency units;
+ * the opening balance is positive on the normal-balance side.
+ */
+export async function getGeneralLedgerActivity({
+  entityId,
+  startDate,
+  endDate,
+  dimensions,
+  db,
+}: {
+  entityId: string;
+  startDate?: string | undefined;
+  endDate: string;
+  dimensions?: DimensionFilter | undefined;
+  db: D1Database;
+}): Promise<
+  Array<{
+    account: ReportAccount;
+    openingBalance: number;
+    periodDebits: number;
+    periodCredits: number;
+    lineCount: number;
+  }>
+> {
+  const params: unknown[] = [
+    entityId,
+    startDate ? toUnixDayBoundary(startDate, "start") : 0,
+    toUnixDayBoundary(endDate, "end"),
+  ];
+  const lineConditions = dimensionConditions(dimensions, "tl", params)
+    .map((condition) => `AND ${condition}`)
+    .join(" ");
+
+  let rows: Array<
+    AccountActivityRow & {
+      opening_debit: number | null;
+      opening_credit: number | null;
+      line_count: number | null;
+    }
+  >;
+  try {
+    rows = await createDbClient(db).query(
+      `SELECT coa.id, coa.code, COALESCE(ea.custom_name, coa.name) AS name,
+              coa.type, coa.subtype, coa.parent_id, ea.is_active,
+              ea.id AS entity_account_id,
+              activity.debit_total, activity.credit_total, NULL AS transaction_count,
+              activity.opening_debit, activity.opening_credit, activity.line_count
+       FROM entity_accounts ea
+       JOIN chart_of_accounts coa ON coa.id = ea.account_id
+       LEFT JOIN (
+         SELECT tl.entity_account_id,
+                SUM(CASE WHEN t.date < ?2 AND tl.is_debit = 1 THEN tl.amount ELSE 0 END) AS opening_debit,
+                SUM(CASE WHEN t.date < ?2 AND tl.is_debit = 0 THEN tl.amount ELSE 0 END) AS opening_credit,
+                SUM(CASE WHEN t.date >= ?2 AND tl.is_debit = 1 THEN tl.amount ELSE 0 END) AS debit_total,
+                SUM(CASE WHEN t.date >= ?2 AND tl.is_debit = 0 THEN tl.amount ELSE 0 END) AS credit_total,
+                SUM(CASE WHEN t.date >= ?2 THEN 1 ELSE 0 END) AS line_count
+         FROM transaction_lines tl
+         JOIN transactions t ON t.id = tl.transaction_id
+         WHERE t.entity_id = ?1 AND t.status = 'posted' AND t.date <= ?3 ${lineConditions}
+         GROUP BY tl.entity_account_id
+       ) activity ON activity.entity_account_id = ea.id
+       WHERE ea.entity_id = ?1
+       ORDER BY coa.code`,
+      params
+    );
+  } catch (error) {
+    console.error(`Error loading general ledger activity for entity ${entityId}:`, error);
+    throw new AppError(
+      "Failed to load general ledger activity",
+      500,
+      true,
+      "DatabaseError",
+      "DATABASE_ERROR"
+    );
+  }
+
+  return rows.map((row, index) => {
+    const account = toReportAccount(row, index);
     return {
-      accountId: account.id,
-      startingBalance,
-      endingBalance: currentBalance,
-      netChange: currentBalance - startingBalance,
+      account,
+      openingBalance: signedNet(
+        account.normalBalance,
+        row.opening_debit ?? 0,
+        row.opening_credit ?? 0
+      ),
+      periodDebits: centsToAmount(row.debit_total ?? 0),
+      periodCredits: centsToAmount(row.credit_total ?? 0),
+      lineCount: row.line_count ?? 0,
     };
   });
 }
 
+/**
+ * One page of the posted lines of each of the given entity accounts between
+ * the two dates, in posting order. `runningNetDebit` is the sum of debits
+ * minus credits of the account's lines in the period up to and including
+ * the line, so running balances stay right on every page. Counter-accounts
+ * are the accounts on the other side of the line's transaction.
+ */
+export async function getGeneralLedgerLines({
+  entityId,
+  entityAccountIds,
+  startDate,
+  endDate,
+  dimensions,
+  offset,
+  limit,
+  db,
+}: {
+  entityId: string;
+  entityAccountIds: string[];
+  startDate?: string | undefined;
+  endDate: string;
+  dimensions?: DimensionFilter | undefined;
+  offset: number;
+  limit: number;
+  db: D1Database;
+}): Promise<
+  Array<{
+    lineId: string;
+    entityAccountId: string;
+    transactionId: string;
+    date: string;
+    description: string;
+    reference: string | null;
+    memo: string | null;
+    debit: number;
+    credit: number;
+    runningNetDebit: number;
+    counterAccounts: string | null;
+  }>
+> {
+  if (entityAccountIds.length === 0) return [];
+
+  const params: unknown[] = [
+    entityId,
+    startDate ? toUnixDayBoundary(startDate, "start") : 0,
+    toUnixDayBoundary(endDate, "end"),
+    offset,
+    offset + limit,
+  ];
+  const accountPlaceholders = entityAccountIds.map((id) => {
+    params.push(id);
+    return `?${params.length}`;
+  });
+  const lineConditions = dimensionConditions(dimensions, "tl", params)
+    .map((condition) => `AND ${condition}`)
+    .join(" ");
+
+  let rows: Array<{
+    line_id: string;
+    entity_account_id: string;
+    transaction_id: string;
+    date: number;
+    description: string;
+    reference: string | null;
+    memo: string | null;
+    amount: number;
+    is_debit: number;
+    running_net_debit: number;
+    counter_accounts: string | null;
+  }>;
+  try {
+    rows = await createDbClient(db).query(
+      `SELECT page.*,
+              (SELECT GROUP_CONCAT(DISTINCT COALESCE(ea.custom_name, coa.name))
+               FROM transaction_lines other
+               JOIN entity_accounts ea ON ea.id = other.entity_account_id
+               JOIN chart_of_accounts coa ON coa.id = ea.account_id
+               WHERE other.transaction_id = page.transaction_id
+                 AND other.is_debit <> page.is_debit) AS counter_accounts
+       FROM (
+         SELECT tl.id AS line_id, tl.entity_account_id, t.id AS transaction_id,
+                t.date, t.description, t.reference, tl.memo, tl.amount, tl.is_debit,
+                SUM(CASE WHEN tl.is_debit = 1 THEN tl.amount ELSE -tl.amount END)
+                  OVER (PARTITION BY tl.entity_account_id ORDER BY t.date, t.id, tl.id
+                        ROWS UNBOUNDED PRECEDING) AS running_net_debit,
+                ROW_NUMBER()
+                  OVER (PARTITION BY tl.entity_account_id ORDER BY t.date, t.id, tl.id) AS line_number
+         FROM transaction_lines tl
+         JOIN transactions t ON t.id = tl.transaction_id
+         WHERE t.entity_id = ?1 AND t.status = 'posted'
+           AND t.date >= ?2 AND t.date <= ?3
+           AND tl.entity_account_id IN (${accountPlaceholders.join(", ")}) ${lineConditions}
+       ) page
+       WHERE page.line_number > ?4 AND page.line_number <= ?5
+       ORDER BY page.entity_account_id, page.line_number`,
+      params
+    );
+  } catch (error) {
+    console.error(`Error loading general ledger lines for entity ${entityId}:`, error);
+    throw new AppError(
+      "Failed to load general ledger lines",
+      500,
+      true,
+      "DatabaseError",
+      "DATABASE_ERROR"
+    );
+  }
+
+  return rows.map((row) => ({
+    lineId: row.line_id,
+    entityAccountId: row.entity_account_id,
+    transactionId: row.transaction_id,
+    date: new Date(row.date * 1000).toISOString().slice(0, 10),
+    description: row.description,
+    reference: row.reference,
+    memo: row.memo,
+    debit: row.is_debit ? centsToAmount(row.amount) : 0,
+    credit: row.is_debit ? 0 : centsToAmount(row.amount),
+    runningNetDebit: centsToAmount(row.running_net_debit),
+    counterAccounts: row.counter_accounts,
+  }));
+}
+
 /**
  * Retrieve account by ID from the database
  */
@@ -218,42 +1363,35 @@ export async function getAccountById(
   accountId: string,
   db: D1Database
 ): Promise<Account | null> {
-  // In real implementation, would query D1 database
-
-  // For simulation, return a mock account if ID pattern matches expected
-  if (accountId.includes(entityId)) {
-    // Extract account type and number from accountId format
-    const parts = accountId.split("_");
-    if (parts.length >= 2) {
-      const type = parts[0].toUpperCase();
-      const num = parts[1];
-
-      return new Account({
-        id: accountId,
-        code: `${type.substring(0, 3)}${num.padStart(3, "0")}`,
-        name: `${type} Account ${num}`,
-        type: type as any,
-        isActive: true,
-        normalBalance: ["ASSET", "EXPENSE"].includes(type) ? "debit" : "credit",
-      });
-    }
-  }
+  const accounts = await getAccountsByType({ entityId, types: [], db });
+  const account = accounts.find((a) => a.id === accountId);
+  return account ? toCoreAccount(account) : null;
+}
 
-  return null;
+function toCoreAccount(account: ReportAccount): Account {
+  return new Account({
+    id: account.id,
+    code: account.code,
+    name: account.name,
+    type: account.systemType,
+    subtype: account.subtype,
+    isActive: account.isActive,
+    parentAccountId: account.parentAccountId,
+    normalBalance: account.normalBalance,
+  });
 }
 
 /**
  * Get ledger instance for an entity
  */
 export function getLedgerForEntity(entityId: string): Ledger {
-  // In real implementation, would initialize a ledger from database
-  // or retrieve from cache
   return new Ledger(entityId);
 }
 
 /**
  * Initialize a report-ready accounting environment
- * This could be used to set up the initial state for report generation
+ * The ledger is populated with the entity's accounts and their current
+ * posted balances.
  */
 export async function initializeReportingEnvironment(
   entityId: string,
@@ -264,11 +1402,18 @@ export async function initializeReportingEnvironment(
 }> {
   const ledger = getLedgerForEntity(entityId);
 
-  // Get all accounts for the entity
-  const accounts = await getAccountsByType({
+  const reportAccounts = await getAccountsByType({ entityId, types: [], db });
+  const balances = await loadBalances(
+    createDbClient(db),
     entityId,
-    types: ["ASSET", "LIABILITY", "EQUITY", "INCOME", "EXPENSE", "REVENUE"],
-    db,
+    Math.floor(Date.now() / 1000),
+    []
+  );
+
+  const accounts = reportAccounts.map((reportAccount) => {
+    const account = toCoreAccount(reportAccount);
+    account.setBalance(balances.get(reportAccount.id)?.balance ?? 0);
+    return account;
   });
 
   // Add accounts to ledger
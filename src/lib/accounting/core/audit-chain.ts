@@ -0,0 +1,285 @@
+// src/lib/accounting/core/audit-chain.ts
+/**
+ * Tamper-evident audit chain for ledger changes.
+ *
+ * Every change to a transaction is recorded as an event holding a snapshot of
+ * the transaction after the change. Each event's SHA-256 hash covers its own
+ * content and the hash of the entity's previous event, so altering, removing
+ * or reordering any historical event breaks every hash that follows it.
+ *
+ * Transactions already in the ledger when an entity's chain starts have no
+ * creation event. The first event commits to a hash of their IDs (the
+ * baseline), so they cannot be added to or removed from later.
+ */
+
+import type { LineDimensions } from "./dimensions";
+
+export type LedgerAuditEventType =
+  | "create"
+  | "update"
+  | "post"
+  | "void"
+  | "reverse"
+  | "delete";
+
+/** Hash used as the "previous hash" of an entity's first event */
+export const GENESIS_HASH = "0".repeat(64);
+
+export interface LedgerSnapshotLine {
+  id: string;
+  entityAccountId: string;
+  amount: number; // Cents, functional currency
+  isDebit: boolean;
+  memo: string | null;
+  /** Present only on lines entered in a foreign currency */
+  currency?: {
+    code: string;
+    foreignAmount: number; // Cents
+    exchangeRate: string;
+  };
+  /** Present only on lines tagged with reporting dimensions */
+  dimensions?: LineDimensions;
+}
+
+/**
+ * State of a transaction as stored in the ledger. Values mirror the stored
+ * columns (unix seconds, cents) so a snapshot rebuilt from the database
+ * hashes the same as the one recorded when the change was made.
+ */
+export interface LedgerSnapshot {
+  id: string;
+  entityId: string;
+  journalId: string | null;
+  date: number;
+  description: string;
+  reference: string | null;
+  status: string;
+  reversalOfTransactionId: string | null;
+  correctionOfTransactionId: string | null;
+  /** Present only on the counterparty's mirror of an intercompany entry */
+  intercompanyOfTransactionId?: string;
+  lines: LedgerSnapshotLine[];
+}
+
+export interface LedgerAuditEvent {
+  id: string;
+  entityId: string;
+  sequence: number;
+  eventType: LedgerAuditEventType;
+  transactionId: string;
+  userId: string | null;
+  /** Transaction after the change; null once a draft has been deleted */
+  snapshot: LedgerSnapshot | null;
+  previousHash: string;
+  hash: string;
+  createdAt: number;
+  /** First event only: hash of the IDs of the transactions that predate the chain */
+  baselineHash?: string;
+}
+
+export type LedgerAuditEventContent = Omit<LedgerAuditEvent, "hash">;
+
+export type AuditChainBreakReason =
+  | "SEQUENCE_GAP"
+  | "PREVIOUS_HASH_MISMATCH"
+  | "HASH_MISMATCH"
+  | "LEDGER_MISMATCH"
+  | "MISSING_AUDIT_TRAIL"
+  | "BASELINE_MISMATCH";
+
+export interface AuditChainBreak {
+  reason: AuditChainBreakReason;
+  sequence?: number;
+  eventId?: string;
+  transactionId?: string;
+  message: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  eventCount: number;
+  lastHash: string;
+  breaks: AuditChainBreak[];
+}
+
+/**
+ * JSON with object keys sorted at every level, so equal values always
+ * serialize (and therefore hash) identically.
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value ?? null);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+}
+
+/**
+ * Put a snapshot in canonical form: lines in a stable order.
+ */
+export function normalizeSnapshot(snapshot: LedgerSnapshot): LedgerSnapshot {
+  return {
+    ...snapshot,
+    lines: [...snapshot.lines].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)),
+  };
+}
+
+export async function sha256Hex(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(input)
+  );
+  return [...new Uint8Array(digest)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function computeAuditHash(
+  event: LedgerAuditEventContent
+): Promise<string> {
+  return sha256Hex(
+    canonicalJson({
+      ...event,
+      snapshot: event.snapshot ? normalizeSnapshot(event.snapshot) : null,
+    })
+  );
+}
+
+/**
+ * Hash of the transactions in the ledger when an entity's chain starts,
+ * independent of their order.
+ */
+export async function computeBaselineHash(transactionIds: string[]): Promise<string> {
+  return sha256Hex(canonicalJson([...transactionIds].sort()));
+}
+
+/** Events that record a new transaction rather than a change to one */
+const CREATING_EVENT_TYPES: ReadonlySet<LedgerAuditEventType> = new Set(["create", "reverse"]);
+
+/**
+ * Append events to a chain whose last event has the given sequence and hash.
+ */
+export async function chainAuditEvents(
+  previous: { sequence: number; hash: string } | null,
+  events: Array<Omit<LedgerAuditEventContent, "sequence" | "previousHash">>
+): Promise<LedgerAuditEvent[]> {
+  let sequence = previous?.sequence ?? 0;
+  let previousHash = previous?.hash ?? GENESIS_HASH;
+  const chained: LedgerAuditEvent[] = [];
+
+  for (const event of events) {
+    sequence += 1;
+    const content: LedgerAuditEventContent = {
+      ...event,
+      snapshot: event.snapshot ? normalizeSnapshot(event.snapshot) : null,
+      sequence,
+      previousHash,
+    };
+    const hash = await computeAuditHash(content);
+    chained.push({ ...content, hash });
+    previousHash = hash;
+  }
+  return chained;
+}
+
+/**
+ * Replay an entity's events in sequence order and report every point where
+ * the chain does not hold. When the current ledger state is supplied, the
+ * latest snapshot of each transaction is also compared against it, and the
+ * transactions without events must be part of the baseline.
+ */
+export async function verifyAuditChain(
+  events: LedgerAuditEvent[],
+  currentLedger?: Map<string, LedgerSnapshot>
+): Promise<AuditChainVerification> {
+  const breaks: AuditChainBreak[] = [];
+  const ordered = [...events].sort((a, b) => a.sequence - b.sequence);
+  const latestByTransaction = new Map<string, LedgerAuditEvent>();
+  const predatingChain = new Set<string>();
+
+  let expectedSequence = 1;
+  let previousHash = GENESIS_HASH;
+
+  for (const event of ordered) {
+    if (event.sequence !== expectedSequence) {
+      breaks.push({
+        reason: "SEQUENCE_GAP",
+        sequence: event.sequence,
+        eventId: event.id,
+        message: `Expected event #${expectedSequence} but found #${event.sequence}.`,
+      });
+    }
+    if (event.previousHash !== previousHash) {
+      breaks.push({
+        reason: "PREVIOUS_HASH_MISMATCH",
+        sequence: event.sequence,
+        eventId: event.id,
+        message: `Event #${event.sequence} does not link to the hash of the event before it.`,
+      });
+    }
+    const { hash, ...content } = event;
+    if ((await computeAuditHash(content)) !== hash) {
+      breaks.push({
+        reason: "HASH_MISMATCH",
+        sequence: event.sequence,
+        eventId: event.id,
+        transactionId: event.transactionId,
+        message: `Event #${event.sequence} has been altered since it was recorded.`,
+      });
+    }
+
+    if (!latestByTransaction.has(event.transactionId) && !CREATING_EVENT_TYPES.has(event.eventType)) {
+      predatingChain.add(event.transactionId);
+    }
+    latestByTransaction.set(event.transactionId, event);
+    expectedSequence = event.sequence + 1;
+    previousHash = hash;
+  }
+
+  if (currentLedger) {
+    for (const [transactionId, event] of latestByTransaction) {
+      const current = currentLedger.get(transactionId);
+      const expected = event.snapshot ? canonicalJson(normalizeSnapshot(event.snapshot)) : null;
+      const actual = current ? canonicalJson(normalizeSnapshot(current)) : null;
+      if (expected !== actual) {
+        breaks.push({
+          reason: "LEDGER_MISMATCH",
+          sequence: event.sequence,
+          eventId: event.id,
+          transactionId,
+          message: `Transaction ${transactionId} no longer matches its last audited state.`,
+        });
+      }
+    }
+    // Transactions without events are accepted only if, together with the
+    // audited ones that predate the chain, they hash to the recorded baseline
+    const unaudited = [...currentLedger.keys()].filter((id) => !latestByTransaction.has(id));
+    const baseline = await computeBaselineHash([...predatingChain, ...unaudited]);
+    const recorded = ordered[0]?.baselineHash ?? (await computeBaselineHash([]));
+    if (baseline !== recorded) {
+      breaks.push({
+        reason: "BASELINE_MISMATCH",
+        message: "The transactions that predate the audit trail differ from those recorded when it started.",
+      });
+      for (const transactionId of unaudited) {
+        breaks.push({
+          reason: "MISSING_AUDIT_TRAIL",
+          transactionId,
+          message: `Transaction ${transactionId} has no audit events.`,
+        });
+      }
+    }
+  }
+
+  return {
+    valid: breaks.length === 0,
+    eventCount: ordered.length,
+    lastHash: previousHash,
+    breaks,
+  };
+}
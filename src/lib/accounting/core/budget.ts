@@ -0,0 +1,156 @@
+// src/lib/accounting/core/budget.ts
+/**
+ * Budgets.
+ *
+ * A budget sets an amount per income or expense account for each of the
+ * twelve months of a fiscal year. Amounts are cents on the account's
+ * normal-balance side, so budgeted income and budgeted expense are both
+ * positive. An entity keeps one budget per fiscal year and version: the
+ * original budget, a revision of it and a forecast.
+ */
+
+import { ValidationError } from "../../../utils/errors";
+import type { AccountSystemType } from "../../../types/accounting";
+
+export const BUDGET_VERSIONS = ["original", "revised", "forecast"] as const;
+export type BudgetVersion = (typeof BUDGET_VERSIONS)[number];
+
+export interface BudgetAmount {
+  /** entity_accounts.id */
+  accountId: string;
+  /** YYYY-MM */
+  month: string;
+  /** Cents */
+  amount: number;
+}
+
+export interface BudgetVariance {
+  budget: number;
+  actual: number;
+  /** Actual minus budget */
+  variance: number;
+  /** Variance as a percentage of the budget; null when nothing was budgeted */
+  variancePercent: number | null;
+  /** More income or less expense than budgeted */
+  favorable: boolean;
+}
+
+const MONTHS_PER_BUDGET = 12;
+
+function parseMonth(month: string): { year: number; monthIndex: number } {
+  const match = /^(\d{4})-(\d{2})$/.exec(month);
+  const monthIndex = match ? Number(match[2]) - 1 : -1;
+  if (!match || monthIndex < 0 || monthIndex > 11) {
+    throw new ValidationError(`Invalid month "${month}". Expected YYYY-MM.`);
+  }
+  return { year: Number(match[1]), monthIndex };
+}
+
+/** The month `count` months after `month` (or before, when negative) */
+export function addMonths(month: string, count: number): string {
+  const { year, monthIndex } = parseMonth(month);
+  const date = new Date(Date.UTC(year, monthIndex + count, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * The twelve months of a budget starting on `startDate`, which must be the
+ * first day of a month.
+ */
+export function getBudgetMonths(startDate: string): string[] {
+  if (!/^\d{4}-\d{2}-01$/.test(startDate)) {
+    throw new ValidationError(
+      `A budget must start on the first day of a month, not "${startDate}".`
+    );
+  }
+  const first = startDate.slice(0, 7);
+  parseMonth(first);
+  return Array.from({ length: MONTHS_PER_BUDGET }, (_, i) => addMonths(first, i));
+}
+
+/**
+ * Budget amounts seeded from the prior year's actuals: each month's actual
+ * moves forward a year and grows by `growthPercent` (negative to shrink).
+ * Actuals outside the year before the budget are ignored.
+ */
+export function seedFromActuals(
+  actuals: BudgetAmount[],
+  startDate: string,
+  growthPercent: number
+): BudgetAmount[] {
+  if (!Number.isFinite(growthPercent) || growthPercent <= -100) {
+    throw new ValidationError("Growth must be a percentage greater than -100.");
+  }
+  const months = new Set(getBudgetMonths(startDate));
+  const factor = 1 + growthPercent / 100;
+
+  const seeded = new Map<string, BudgetAmount>();
+  for (const actual of actuals) {
+    const month = addMonths(actual.month, MONTHS_PER_BUDGET);
+    if (!months.has(month)) continue;
+    const key = `${actual.accountId}:${month}`;
+    const amount = (seeded.get(key)?.amount ?? 0) + Math.round(actual.amount * factor);
+    seeded.set(key, { accountId: actual.accountId, month, amount });
+  }
+  return [...seeded.values()].filter((line) => line.amount !== 0);
+}
+
+function daysInMonth(month: string): number {
+  const { year, monthIndex } = parseMonth(month);
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+function toDay(date: string): number {
+  const ms = Date.parse(`${date}T00:00:00.000Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(ms)) {
+    throw new ValidationError(`Invalid date "${date}". Expected YYYY-MM-DD.`);
+  }
+  return ms / 86_400_000;
+}
+
+/**
+ * Budgeted cents per account for the days from `startDate` to `endDate`
+ * (inclusive). Months only partly inside the range count pro rata by day.
+ */
+export function getBudgetForRange(
+  amounts: BudgetAmount[],
+  startDate: string,
+  endDate: string
+): Map<string, number> {
+  const from = toDay(startDate);
+  const to = toDay(endDate);
+  if (to < from) {
+    throw new ValidationError("The end date must not be before the start date.");
+  }
+
+  const totals = new Map<string, number>();
+  for (const { accountId, month, amount } of amounts) {
+    const monthStart = toDay(`${month}-01`);
+    const days = daysInMonth(month);
+    const overlap = Math.min(to, monthStart + days - 1) - Math.max(from, monthStart) + 1;
+    if (overlap <= 0) continue;
+    const share = overlap === days ? amount : Math.round((amount * overlap) / days);
+    totals.set(accountId, (totals.get(accountId) ?? 0) + share);
+  }
+  return totals;
+}
+
+/**
+ * Compare an actual amount with the budget. Both are on the account's
+ * normal-balance side, in the same unit.
+ */
+export function calculateVariance(
+  budget: number,
+  actual: number,
+  systemType: AccountSystemType
+): BudgetVariance {
+  const variance = Math.round((actual - budget) * 100) / 100;
+  return {
+    budget,
+    actual,
+    variance,
+    variancePercent:
+      budget !== 0 ? Math.round((variance / Math.abs(budget)) * 10_000) / 100 : null,
+    favorable: systemType === "expense" ? variance <= 0 : variance >= 0,
+  };
+}
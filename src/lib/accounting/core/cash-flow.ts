@@ -0,0 +1,193 @@
+// src/lib/accounting/core/cash-flow.ts
+/**
+ * Cash Flow Classification
+ *
+ * The direct-method cash flow statement is traced from the cash accounts:
+ * every posted transaction that moves cash is attributed to the accounts on
+ * its other lines (rent received is a credit to rental income, a mortgage
+ * payment debits the loan and interest expense). Each of those counter
+ * accounts is mapped to a real estate cash flow classification, which in
+ * turn places it in operating, investing or financing activities.
+ *
+ * An entity may save a classification for any non-cash account; accounts
+ * without one fall back to a default from their account type, which can
+ * depend on the direction of the cash (a loan brings proceeds in and
+ * repayments out).
+ */
+
+import type {
+  AccountSystemType,
+  CashFlowClassification,
+} from "../../../types/accounting";
+import { ValidationError } from "../../../utils/errors";
+
+export type CashFlowCategory = CashFlowClassification["category"];
+export type CashFlowClassificationType = CashFlowClassification["classification"];
+
+/**
+ * Category and statement label of every classification, in statement order.
+ */
+export const CASH_FLOW_CLASSIFICATIONS: Record<
+  CashFlowClassificationType,
+  { category: CashFlowCategory; label: string }
+> = {
+  rental_receipts: { category: "operating", label: "Rents received from tenants" },
+  other_operating_income: { category: "operating", label: "Other operating receipts" },
+  operating_expenses_paid: { category: "operating", label: "Operating expenses paid" },
+  interest_paid_operating: { category: "operating", label: "Interest paid" },
+  taxes_paid_operating: { category: "operating", label: "Taxes paid" },
+  property_acquisition_disposition: {
+    category: "investing",
+    label: "Property acquisitions and dispositions",
+  },
+  capital_expenditures: { category: "investing", label: "Capital expenditures" },
+  other_investing: { category: "investing", label: "Other investing activities" },
+  proceeds_from_debt: { category: "financing", label: "Proceeds from borrowings" },
+  repayment_of_debt_principal: { category: "financing", label: "Repayment of debt principal" },
+  interest_paid_financing: { category: "financing", label: "Interest paid" },
+  distributions_dividends_paid: { category: "financing", label: "Distributions paid" },
+  equity_contributions_received: { category: "financing", label: "Equity contributions received" },
+  other_financing: { category: "financing", label: "Other financing activities" },
+};
+
+/** Report categories of the accounts that hold cash */
+export const CASH_ACCOUNT_TYPES = ["BANK", "CASH"];
+
+export type CashDirection = "inflow" | "outflow";
+
+/** The parts of a report account a default classification is based on */
+export interface ClassifiableAccount {
+  /** Report category, e.g. FIXED_ASSET or INTEREST_EXPENSE */
+  type: string;
+  systemType: AccountSystemType;
+  subtype: string | null;
+}
+
+/** Cash moved against one counter account over a period */
+export interface CashMovement<A extends ClassifiableAccount = ClassifiableAccount> {
+  account: A;
+  /** Cash received against the account (its credits), in currency units */
+  inflow: number;
+  /** Cash paid against the account (its debits), in currency units */
+  outflow: number;
+  /** The entity's saved classification for the account, if any */
+  classification: CashFlowClassificationType | null;
+}
+
+/** Net cash of one account within one classification; negative is cash out */
+export interface ClassifiedCashFlow<A extends ClassifiableAccount = ClassifiableAccount> {
+  account: A;
+  classification: CashFlowClassificationType;
+  category: CashFlowCategory;
+  amount: number;
+}
+
+const DEBT_ACCOUNT_TYPES = [
+  "LOAN",
+  "NOTE_PAYABLE",
+  "LONG_TERM_LIABILITY",
+  "CURRENT_LIABILITY",
+];
+const PROPERTY_SUBTYPES = ["property_land", "property_building"];
+const RENTAL_RECEIPT_TYPES = ["ACCOUNTS_RECEIVABLE", "UNEARNED_REVENUE"];
+
+export function isCashFlowClassification(
+  value: string
+): value is CashFlowClassificationType {
+  return Object.prototype.hasOwnProperty.call(CASH_FLOW_CLASSIFICATIONS, value);
+}
+
+/**
+ * Check that a classification belongs to the category it is saved under.
+ */
+export function assertClassificationCategory(
+  classification: CashFlowClassificationType,
+  category: CashFlowCategory
+): void {
+  const expected = CASH_FLOW_CLASSIFICATIONS[classification].category;
+  if (expected !== category) {
+    throw new ValidationError(
+      `Classification "${classification}" is a ${expected} activity, not ${category}.`
+    );
+  }
+}
+
+/**
+ * Classification of cash moved against an account the entity has not
+ * classified.
+ */
+export function getDefaultCashFlowClassification(
+  account: ClassifiableAccount,
+  direction: CashDirection
+): CashFlowClassificationType {
+  const subtype = account.subtype?.trim().toLowerCase() ?? "";
+  switch (account.systemType) {
+    case "income":
+      return account.type === "OTHER_INCOME" || subtype === "other_income"
+        ? "other_operating_income"
+        : "rental_receipts";
+    case "expense":
+      if (account.type === "INTEREST_EXPENSE") return "interest_paid_operating";
+      if (subtype === "property_tax") return "taxes_paid_operating";
+      return "operating_expenses_paid";
+    case "equity":
+      return direction === "inflow"
+        ? "equity_contributions_received"
+        : "distributions_dividends_paid";
+    case "liability":
+      if (DEBT_ACCOUNT_TYPES.includes(account.type)) {
+        return direction === "inflow" ? "proceeds_from_debt" : "repayment_of_debt_principal";
+      }
+      if (account.type === "UNEARNED_REVENUE") return "rental_receipts";
+      return direction === "inflow" ? "other_operating_income" : "operating_expenses_paid";
+    case "asset":
+      if (account.type === "FIXED_ASSET") {
+        // Sale proceeds, and purchases of land and buildings, are
+        // dispositions and acquisitions; other fixed asset spending is capex
+        return direction === "inflow" || PROPERTY_SUBTYPES.includes(subtype)
+          ? "property_acquisition_disposition"
+          : "capital_expenditures";
+      }
+      if (RENTAL_RECEIPT_TYPES.includes(account.type)) return "rental_receipts";
+      if (account.type === "PREPAID_EXPENSE") return "operating_expenses_paid";
+      return direction === "inflow" ? "other_operating_income" : "operating_expenses_paid";
+  }
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Classify the cash moved against each counter account. An account with a
+ * saved classification nets its inflows and outflows there; otherwise each
+ * direction gets its default, so a loan drawn and repaid in the same period
+ * shows both the proceeds and the repayment.
+ */
+export function classifyCashMovements<A extends ClassifiableAccount>(
+  movements: CashMovement<A>[]
+): ClassifiedCashFlow<A>[] {
+  const flows: ClassifiedCashFlow<A>[] = [];
+  const add = (account: A, classification: CashFlowClassificationType, amount: number) => {
+    if (amount === 0) return;
+    const existing = flows.find(
+      (flow) => flow.account === account && flow.classification === classification
+    );
+    if (existing) {
+      existing.amount = roundCents(existing.amount + amount);
+      return;
+    }
+    flows.push({
+      account,
+      classification,
+      category: CASH_FLOW_CLASSIFICATIONS[classification].category,
+      amount: roundCents(amount),
+    });
+  };
+
+  for (const { account, inflow, outflow, classification } of movements) {
+    add(account, classification ?? getDefaultCashFlowClassification(account, "inflow"), inflow);
+    add(account, classification ?? getDefaultCashFlowClassification(account, "outflow"), -outflow);
+  }
+  return flows.filter((flow) => flow.amount !== 0);
+}
@@ -15,6 +15,37 @@ export interface ChartOfAccountsItemDefinition {
   description?: string | null;
 }
 
+/**
+ * Common real estate account codes for quick reference or template generation.
+ * Using `as const` makes the values and keys strongly typed.
+ */
+export const REAL_ESTATE_ACCOUNT_CODES = {
+  // Assets
+  OPERATING_CASH: "1010",
+  SECURITY_DEPOSITS_HELD_ASSET: "1020", // Clarified asset context
+  TENANT_RECEIVABLES: "1200",
+  LAND: "1510",
+  BUILDING: "1520",
+  IMPROVEMENTS: "1530",
+  ACCUMULATED_DEPRECIATION: "1590",
+  // Liabilities
+  SECURITY_DEPOSITS_LIABILITY: "2100",
+  PREPAID_RENT_LIABILITY: "2200", // Clarified liability context
+  MORTGAGE_PAYABLE: "2510",
+  // Income
+  RENTAL_INCOME: "4100",
+  LATE_FEES_INCOME: "4200", // Clarified income context
+  OTHER_INCOME: "4900",
+  // Expenses
+  REPAIRS_MAINTENANCE_EXPENSE: "5100", // Clarified expense context
+  PROPERTY_MANAGEMENT_EXPENSE: "5200",
+  UTILITIES_EXPENSE: "5300",
+  INSURANCE_EXPENSE: "5400",
+  PROPERTY_TAX_EXPENSE: "5500",
+  MORTGAGE_INTEREST_EXPENSE: "5600",
+  DEPRECIATION_EXPENSE: "5700",
+} as const;
+
 export const defaultChartOfAccounts: ChartOfAccountsItemDefinition[] = [
   // == ASSETS (1000-1999) ==
   {
@@ -97,6 +128,15 @@ export const defaultChartOfAccounts: ChartOfAccountsItemDefinition[] = [
       "Cash held in a separate bank account for tenant security deposits. A corresponding liability exists.",
   },
 
+  {
+    code: "1400",
+    name: "Due From Related Entities",
+    type: "asset" as AccountTypeFromSchema,
+    parentCode: "1000",
+    normalBalance: "debit",
+    description: "Amounts owed to this entity by other entities in the group.",
+  },
+
   {
     code: "1500",
     name: "Fixed Assets",
@@ -142,6 +182,14 @@ export const defaultChartOfAccounts: ChartOfAccountsItemDefinition[] = [
     description: "Contra-asset account.",
   },
 
+  {
+    code: "1600",
+    name: "Investments in Subsidiaries",
+    type: "asset" as AccountTypeFromSchema,
+    normalBalance: "debit",
+    description: "Cost of this entity's holdings in other entities in the group.",
+  },
+
   // == LIABILITIES (2000-2999) ==
   {
     code: "2000",
@@ -159,6 +207,14 @@ export const defaultChartOfAccounts: ChartOfAccountsItemDefinition[] = [
     normalBalance: "credit",
     description: "Amounts owed to suppliers and vendors.",
   },
+  {
+    code: "2050",
+    name: "Due To Related Entities",
+    type: "liability" as AccountTypeFromSchema,
+    parentCode: "2000",
+    normalBalance: "credit",
+    description: "Amounts this entity owes to other entities in the group.",
+  },
   {
     code: "2100",
     name: "Tenant Security Deposits (Liability)",
@@ -225,6 +281,7 @@ export const defaultChartOfAccounts: ChartOfAccountsItemDefinition[] = [
     name: "Owner's Capital / Common Stock",
     type: "equity" as AccountTypeFromSchema,
     parentCode: "3000",
+    subtype: "owner_capital",
     normalBalance: "credit",
   },
   {
@@ -232,6 +289,7 @@ export const defaultChartOfAccounts: ChartOfAccountsItemDefinition[] = [
     name: "Owner's Draws / Dividends",
     type: "equity" as AccountTypeFromSchema,
     parentCode: "3000",
+    subtype: "distributions",
     normalBalance: "debit",
     description: "Withdrawals by the owner or dividends paid (contra-equity).",
   },
@@ -240,6 +298,7 @@ export const defaultChartOfAccounts: ChartOfAccountsItemDefinition[] = [
     name: "Retained Earnings",
     type: "equity" as AccountTypeFromSchema,
     parentCode: "3000",
+    subtype: "retained_earnings",
     normalBalance: "credit",
   }, // System Account
 
@@ -256,6 +315,7 @@ export const defaultChartOfAccounts: ChartOfAccountsItemDefinition[] = [
     name: "Rental Income",
     type: "income" as AccountTypeFromSchema,
     parentCode: "4000",
+    subtype: "rental_income",
     normalBalance: "credit",
   },
   {
@@ -263,6 +323,7 @@ export const defaultChartOfAccounts: ChartOfAccountsItemDefinition[] = [
     name: "Late Fee Income",
     type: "income" as AccountTypeFromSchema,
     parentCode: "4000",
+    subtype: "late_fees",
     normalBalance: "credit",
   },
   {
@@ -270,9 +331,19 @@ export const defaultChartOfAccounts: ChartOfAccountsItemDefinition[] = [
     name: "Other Property Income",
     type: "income" as AccountTypeFromSchema,
     parentCode: "4000",
+    subtype: "other_income",
     normalBalance: "credit",
     description: "e.g., laundry, parking fees.",
   },
+  {
+    code: "4040",
+    name: "Vacancy and Concessions",
+    type: "income" as AccountTypeFromSchema,
+    parentCode: "4000",
+    subtype: "vacancy_loss",
+    normalBalance: "debit",
+    description: "Contra-revenue account for vacancy loss and rent concessions.",
+  },
 
   {
     code: "4500",
@@ -288,6 +359,14 @@ export const defaultChartOfAccounts: ChartOfAccountsItemDefinition[] = [
     parentCode: "4500",
     normalBalance: "credit",
   },
+  {
+    code: "4520",
+    name: "Foreign Exchange Gain (Loss)",
+    type: "income" as AccountTypeFromSchema,
+    parentCode: "4500",
+    normalBalance: "credit",
+    description: "Realized and unrealized gains and losses on foreign currency balances.",
+  },
 
   // == EXPENSES (5000-5999) ==
   {
@@ -0,0 +1,267 @@
+// src/lib/accounting/core/consolidation.ts
+/**
+ * Consolidation.
+ *
+ * A parent entity is reported together with all of its descendants. Member
+ * balances are combined by account code, balances that only exist because of
+ * intercompany entries inside the group are eliminated, and the part of a
+ * partly owned member that belongs to outside owners is carried as minority
+ * (non-controlling) interest instead of group equity. A holder's investment
+ * in its subsidiaries is eliminated against the capital it acquired. Amounts
+ * are currency units, as returned by the accounting API.
+ */
+
+import { NotFoundError, ValidationError } from "../../../utils/errors";
+import type { AccountSystemType } from "../../../types/accounting";
+import {
+  defaultChartOfAccounts,
+  findAccountByCodeInList,
+} from "./chart-of-accounts";
+import { DUE_FROM_ACCOUNT_CODE, DUE_TO_ACCOUNT_CODE } from "./intercompany";
+
+/** Code of the investments-in-subsidiaries account in `defaultChartOfAccounts` */
+export const INVESTMENT_ACCOUNT_CODE =
+  findAccountByCodeInList(defaultChartOfAccounts, "1600")?.code ?? "1600";
+
+/** Code of the owner's capital account in `defaultChartOfAccounts` */
+export const CAPITAL_ACCOUNT_CODE =
+  findAccountByCodeInList(defaultChartOfAccounts, "3010")?.code ?? "3010";
+
+/** Entity hierarchy node, as built by `EntityService.getEntityHierarchy` */
+export interface ConsolidationNode {
+  id: string;
+  name: string;
+  /** Percentage held by the parent node; defaults to 100 */
+  ownershipPercentage?: number | null;
+  /** Functional currency; every member must share it */
+  defaultCurrency?: string | null;
+  children?: ConsolidationNode[] | null;
+}
+
+export interface ConsolidationMember {
+  entityId: string;
+  name: string;
+  /** Member holding this one; null for the root of the group */
+  parentEntityId: string | null;
+  /** Fraction of the member owned by the group, through every level above it */
+  groupShare: number;
+}
+
+/**
+ * Intercompany activity of one side of an entry, summed by account
+ */
+export interface IntercompanyActivity {
+  /** ID of the originating transaction, shared by both sides */
+  pairId: string;
+  entityId: string;
+  counterpartyEntityId: string;
+  accountCode: string;
+  systemType: AccountSystemType;
+  /** Positive on the account's normal-balance side */
+  amount: number;
+}
+
+export interface Elimination {
+  entityId: string;
+  accountCode: string;
+  /** Amount to remove from the member's balance on the account */
+  amount: number;
+}
+
+/**
+ * A holder's investment in one subsidiary, set off against the subsidiary's
+ * capital the holder acquired
+ */
+export interface InvestmentElimination {
+  holderEntityId: string;
+  subsidiaryEntityId: string;
+  /** Amount to remove from the holder's investment and the subsidiary's capital */
+  amount: number;
+  /** Part of `amount` taken from group equity; the rest from minority interest */
+  groupAmount: number;
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/**
+ * `rootEntityId` and all of its descendants, with the share of each that the
+ * root ultimately owns. Throws when the root is not in the hierarchy or the
+ * members keep their books in different currencies.
+ */
+export function getConsolidationMembers(
+  hierarchy: ConsolidationNode[],
+  rootEntityId: string
+): ConsolidationMember[] {
+  const find = (nodes: ConsolidationNode[]): ConsolidationNode | undefined => {
+    for (const node of nodes) {
+      if (node.id === rootEntityId) return node;
+      const found = find(node.children ?? []);
+      if (found) return found;
+    }
+    return undefined;
+  };
+  const root = find(hierarchy);
+  if (!root) {
+    throw new NotFoundError("Entity not found.", "ENTITY_NOT_FOUND");
+  }
+
+  const members: ConsolidationMember[] = [];
+  const visit = (node: ConsolidationNode, groupShare: number, parentEntityId: string | null): void => {
+    if ((node.defaultCurrency ?? null) !== (root.defaultCurrency ?? null)) {
+      throw new ValidationError(
+        `${node.name} keeps its books in ${node.defaultCurrency}, not ${root.defaultCurrency}; only entities sharing a functional currency can be consolidated.`
+      );
+    }
+    members.push({ entityId: node.id, name: node.name, parentEntityId, groupShare });
+    for (const child of node.children ?? []) {
+      visit(child, (groupShare * (child.ownershipPercentage ?? 100)) / 100, node.id);
+    }
+  };
+  visit(root, 1, null);
+  return members;
+}
+
+/**
+ * Split an amount between the group and minority owners. The two parts add
+ * back up to the amount to the cent.
+ */
+export function splitByOwnership(
+  amount: number,
+  groupShare: number
+): { group: number; minority: number } {
+  const cents = toCents(amount);
+  const groupCents = Math.round(cents * groupShare);
+  return { group: groupCents / 100, minority: (cents - groupCents) / 100 };
+}
+
+/**
+ * Sum amounts by account code, to the cent.
+ */
+export function combineByAccountCode(
+  amounts: Array<{ accountCode: string; amount: number }>
+): Map<string, number> {
+  const cents = new Map<string, number>();
+  for (const { accountCode, amount } of amounts) {
+    cents.set(accountCode, (cents.get(accountCode) ?? 0) + toCents(amount));
+  }
+  return new Map([...cents].map(([code, total]) => [code, total / 100]));
+}
+
+/**
+ * Spread `cents` over the lines in proportion to their amounts, leaving any
+ * rounding difference on the last line.
+ */
+function allocate(lines: IntercompanyActivity[], cents: number): Elimination[] {
+  const total = lines.reduce((sum, line) => sum + toCents(line.amount), 0);
+  let remaining = cents;
+  return lines.map((line, index) => {
+    const share =
+      index === lines.length - 1
+        ? remaining
+        : Math.round((cents * toCents(line.amount)) / total);
+    remaining -= share;
+    return { entityId: line.entityId, accountCode: line.accountCode, amount: share / 100 };
+  });
+}
+
+/**
+ * Amounts to remove from each member when consolidating `groupEntityIds`.
+ * Only entries with both sides inside the group are eliminated:
+ *
+ * - due-from and due-to lines in full; both sides of an entry book the same
+ *   amount, so the eliminations cancel across the group
+ * - income on one side against expense on the other, up to the smaller of
+ *   the two, spread pro rata over the lines
+ */
+export function getIntercompanyEliminations(
+  activity: IntercompanyActivity[],
+  groupEntityIds: string[]
+): Elimination[] {
+  const group = new Set(groupEntityIds);
+  const eliminations: Elimination[] = [];
+  const profitByPair = new Map<string, IntercompanyActivity[]>();
+
+  for (const line of activity) {
+    if (!group.has(line.entityId) || !group.has(line.counterpartyEntityId)) continue;
+    if (line.accountCode === DUE_FROM_ACCOUNT_CODE || line.accountCode === DUE_TO_ACCOUNT_CODE) {
+      eliminations.push({ entityId: line.entityId, accountCode: line.accountCode, amount: line.amount });
+    } else if (line.systemType === "income" || line.systemType === "expense") {
+      profitByPair.set(line.pairId, [...(profitByPair.get(line.pairId) ?? []), line]);
+    }
+  }
+
+  for (const lines of profitByPair.values()) {
+    // Income earned by one side from expense booked by the other
+    const earners = new Set(
+      lines.filter((line) => line.systemType === "income").map((line) => line.entityId)
+    );
+    for (const entityId of earners) {
+      const income = lines.filter(
+        (line) => line.entityId === entityId && line.systemType === "income"
+      );
+      const expense = lines.filter(
+        (line) => line.entityId !== entityId && line.systemType === "expense"
+      );
+      const matched = Math.min(
+        income.reduce((sum, line) => sum + toCents(line.amount), 0),
+        expense.reduce((sum, line) => sum + toCents(line.amount), 0)
+      );
+      if (matched <= 0) continue;
+      eliminations.push(...allocate(income, matched), ...allocate(expense, matched));
+    }
+  }
+
+  return eliminations.filter((elimination) => elimination.amount !== 0);
+}
+
+/**
+ * Investment eliminations for the group. Each holder's investment account is
+ * set off against its share of its subsidiaries' capital, up to the smaller
+ * of the two and spread pro rata over the subsidiaries; any difference stays
+ * on the books. The capital removed is split between group and minority by
+ * the holder's own group share, since outside owners of the holder own part
+ * of what it acquired.
+ */
+export function getInvestmentEliminations(
+  members: ConsolidationMember[],
+  balances: Array<{ entityId: string; investment: number; capital: number }>
+): InvestmentElimination[] {
+  const byEntity = new Map(balances.map((balance) => [balance.entityId, balance]));
+  const eliminations: InvestmentElimination[] = [];
+
+  for (const holder of members) {
+    const investmentCents = toCents(byEntity.get(holder.entityId)?.investment ?? 0);
+    if (investmentCents <= 0 || holder.groupShare <= 0) continue;
+
+    const acquired = members
+      .filter((member) => member.parentEntityId === holder.entityId)
+      .map((subsidiary) => ({
+        subsidiary,
+        cents: Math.round(
+          (toCents(byEntity.get(subsidiary.entityId)?.capital ?? 0) * subsidiary.groupShare) /
+            holder.groupShare
+        ),
+      }))
+      .filter(({ cents }) => cents > 0);
+    const acquiredCents = acquired.reduce((sum, { cents }) => sum + cents, 0);
+    const matched = Math.min(investmentCents, acquiredCents);
+    if (matched <= 0) continue;
+
+    let remaining = matched;
+    acquired.forEach(({ subsidiary, cents }, index) => {
+      const share =
+        index === acquired.length - 1 ? remaining : Math.round((matched * cents) / acquiredCents);
+      remaining -= share;
+      eliminations.push({
+        holderEntityId: holder.entityId,
+        subsidiaryEntityId: subsidiary.entityId,
+        amount: share / 100,
+        groupAmount: Math.round(share * holder.groupShare) / 100,
+      });
+    });
+  }
+
+  return eliminations.filter((elimination) => elimination.amount !== 0);
+}
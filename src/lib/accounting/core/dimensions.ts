@@ -0,0 +1,194 @@
+// src/lib/accounting/core/dimensions.ts
+/**
+ * Line dimensions.
+ *
+ * Transaction lines can be tagged with the property and unit they relate to,
+ * a department/class label and free-form tags, so one entity's books can be
+ * reported per building (or per unit, class or tag) without splitting each
+ * building into an entity of its own.
+ */
+
+import { ValidationError } from "../../../utils/errors";
+
+/** Dimensions recorded on a transaction line */
+export interface LineDimensions {
+  propertyId?: string;
+  unitId?: string;
+  className?: string;
+  tags?: string[];
+}
+
+/** Dimensions a report can be grouped by */
+export const DIMENSIONS = ["property", "unit", "class", "tag"] as const;
+export type Dimension = (typeof DIMENSIONS)[number];
+
+/**
+ * Restricts a report to matching lines. A value of null selects lines
+ * without that dimension; `tags` selects lines carrying every listed tag,
+ * or (when null) lines without tags.
+ */
+export interface DimensionFilter {
+  propertyId?: string | null;
+  unitId?: string | null;
+  className?: string | null;
+  tags?: string[] | null;
+}
+
+const MAX_TAGS = 10;
+const MAX_LENGTH = 100;
+
+function cleanValue(value: string | null | undefined, label: string): string | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+  if (trimmed.length > MAX_LENGTH) {
+    throw new ValidationError(`${label} must be at most ${MAX_LENGTH} characters.`);
+  }
+  return trimmed;
+}
+
+/**
+ * Trim and validate line dimensions as entered. Blank values are dropped and
+ * tags are de-duplicated; a unit can only be given together with its
+ * property.
+ */
+export function normalizeDimensions(input: {
+  propertyId?: string | null;
+  unitId?: string | null;
+  className?: string | null;
+  tags?: string[] | null;
+}): LineDimensions {
+  const propertyId = cleanValue(input.propertyId, "Property ID");
+  const unitId = cleanValue(input.unitId, "Unit ID");
+  const className = cleanValue(input.className, "Class");
+  const tags = [
+    ...new Set(
+      (input.tags ?? [])
+        .map((tag) => cleanValue(tag, "Tag"))
+        .filter((tag): tag is string => tag !== undefined)
+    ),
+  ];
+
+  if (unitId && !propertyId) {
+    throw new ValidationError("A line tagged with a unit must also be tagged with its property.");
+  }
+  if (tags.length > MAX_TAGS) {
+    throw new ValidationError(`A line can carry at most ${MAX_TAGS} tags.`);
+  }
+
+  return {
+    ...(propertyId ? { propertyId } : {}),
+    ...(unitId ? { unitId } : {}),
+    ...(className ? { className } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+  };
+}
+
+/** Whether any dimension is recorded or filtered on */
+export function hasDimensions(dimensions: LineDimensions | DimensionFilter | undefined): boolean {
+  return (
+    dimensions !== undefined &&
+    (dimensions.propertyId !== undefined ||
+      dimensions.unitId !== undefined ||
+      dimensions.className !== undefined ||
+      dimensions.tags !== undefined)
+  );
+}
+
+/**
+ * Filter selecting one value of a dimension (null: lines without it),
+ * combined with an existing filter.
+ */
+export function filterForDimensionValue(
+  dimension: Dimension,
+  value: string | null,
+  base: DimensionFilter = {}
+): DimensionFilter {
+  switch (dimension) {
+    case "property":
+      return { ...base, propertyId: value };
+    case "unit":
+      return { ...base, unitId: value };
+    case "class":
+      return { ...base, className: value };
+    case "tag":
+      return { ...base, tags: value === null ? null : [...new Set([...(base.tags ?? []), value])] };
+  }
+}
+
+/** Whether a line's dimensions satisfy a filter */
+export function matchesDimensionFilter(dimensions: LineDimensions, filter: DimensionFilter): boolean {
+  const matches = (value: string | undefined, wanted: string | null | undefined): boolean =>
+    wanted === undefined || (wanted === null ? value === undefined : value === wanted);
+
+  const tags = dimensions.tags ?? [];
+  return (
+    matches(dimensions.propertyId, filter.propertyId) &&
+    matches(dimensions.unitId, filter.unitId) &&
+    matches(dimensions.className, filter.className) &&
+    (filter.tags === undefined ||
+      (filter.tags === null ? tags.length === 0 : filter.tags.every((tag) => tags.includes(tag))))
+  );
+}
+
+/** Dimension columns of a stored transaction line */
+export interface DimensionColumns {
+  property_id: string | null;
+  unit_id: string | null;
+  class_name: string | null;
+  /** JSON array of strings */
+  tags: string | null;
+}
+
+export function fromDimensionColumns(row: DimensionColumns): LineDimensions {
+  const tags: unknown = row.tags ? JSON.parse(row.tags) : [];
+  return {
+    ...(row.property_id ? { propertyId: row.property_id } : {}),
+    ...(row.unit_id ? { unitId: row.unit_id } : {}),
+    ...(row.class_name ? { className: row.class_name } : {}),
+    ...(Array.isArray(tags) && tags.length > 0 ? { tags: tags.map(String) } : {}),
+  };
+}
+
+export function toDimensionColumns(dimensions: LineDimensions | undefined): DimensionColumns {
+  return {
+    property_id: dimensions?.propertyId ?? null,
+    unit_id: dimensions?.unitId ?? null,
+    class_name: dimensions?.className ?? null,
+    tags: dimensions?.tags?.length ? JSON.stringify(dimensions.tags) : null,
+  };
+}
+
+/**
+ * SQL conditions restricting `transaction_lines` rows (aliased `alias`) to a
+ * filter. Values are appended to `params` and referenced by position.
+ */
+export function dimensionConditions(
+  filter: DimensionFilter | undefined,
+  alias: string,
+  params: unknown[]
+): string[] {
+  const conditions: string[] = [];
+  const column = (name: string, value: string | null | undefined): void => {
+    if (value === undefined) return;
+    if (value === null) {
+      conditions.push(`${alias}.${name} IS NULL`);
+      return;
+    }
+    params.push(value);
+    conditions.push(`${alias}.${name} = ?${params.length}`);
+  };
+
+  column("property_id", filter?.propertyId);
+  column("unit_id", filter?.unitId);
+  column("class_name", filter?.className);
+  if (filter?.tags === null) {
+    conditions.push(`${alias}.tags IS NULL`);
+  }
+  for (const tag of filter?.tags ?? []) {
+    params.push(tag);
+    conditions.push(
+      `EXISTS (SELECT 1 FROM json_each(${alias}.tags) WHERE json_each.value = ?${params.length})`
+    );
+  }
+  return conditions;
+}
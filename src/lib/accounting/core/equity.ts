@@ -0,0 +1,205 @@
+// src/lib/accounting/core/equity.ts
+/**
+ * Equity Roll-Forward
+ *
+ * Moves capital from the start of a period to its end: opening capital,
+ * plus contributions and net income, less distributions, plus any other
+ * movement, gives closing capital. Each equity account's movements are
+ * read according to its subtype (a capital account's credits are
+ * contributions and its debits distributions, a draws account holds
+ * distributions, and so on).
+ *
+ * Partners and members are each given their share: what is posted to
+ * accounts kept for them alone is theirs, and everything pooled (net
+ * income, retained earnings, shared capital accounts) is split by
+ * ownership percentage.
+ */
+
+import type { EntityOwner } from "../../../types/entity";
+import type {
+  EquityRollForwardAccount,
+  EquityRollForwardAmounts,
+} from "../../../types/report";
+
+export type EquityComponent = EquityRollForwardAccount["component"];
+
+/** The parts of a report account its component is based on */
+export interface EquityAccount {
+  /** Report category, e.g. EQUITY or RETAINED_EARNINGS */
+  type: string;
+  subtype: string | null;
+}
+
+/** An equity account's balance before the period and its movements in it */
+export interface EquityAccountActivity<A extends EquityAccount = EquityAccount> {
+  account: A;
+  /** Credit balance before the period */
+  openingBalance: number;
+  debitTotal: number;
+  creditTotal: number;
+}
+
+export type EquityOwnerShare = Pick<
+  EntityOwner,
+  "id" | "ownershipPercentage" | "capitalAccountId" | "distributionAccountId"
+>;
+
+const AMOUNT_FIELDS = [
+  "openingCapital",
+  "contributions",
+  "netIncome",
+  "distributions",
+  "otherChanges",
+] as const;
+
+const SUBTYPE_COMPONENTS: Record<string, EquityComponent> = {
+  owner_capital: "capital",
+  contributions: "contributions",
+  distributions: "distributions",
+  retained_earnings: "retained_earnings",
+  other_equity: "other",
+};
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * How an equity account's movements are presented. Accounts without a
+ * known subtype are treated as capital accounts.
+ */
+export function getEquityComponent(account: EquityAccount): EquityComponent {
+  const subtype = account.subtype?.trim().toLowerCase() ?? "";
+  const bySubtype = SUBTYPE_COMPONENTS[subtype];
+  if (bySubtype) return bySubtype;
+  return account.type === "RETAINED_EARNINGS" ? "retained_earnings" : "capital";
+}
+
+/** Closing capital of a roll-forward's movements */
+export function withClosingCapital(
+  amounts: Omit<EquityRollForwardAmounts, "closingCapital">
+): EquityRollForwardAmounts {
+  return {
+    ...amounts,
+    closingCapital: roundCents(
+      amounts.openingCapital +
+        amounts.contributions +
+        amounts.netIncome -
+        amounts.distributions +
+        amounts.otherChanges
+    ),
+  };
+}
+
+/**
+ * Roll one equity account forward over the period.
+ */
+export function rollForwardEquityAccount(
+  activity: EquityAccountActivity
+): EquityRollForwardAmounts {
+  const { openingBalance, debitTotal, creditTotal } = activity;
+  const amounts = {
+    openingCapital: roundCents(openingBalance),
+    contributions: 0,
+    netIncome: 0,
+    distributions: 0,
+    otherChanges: 0,
+  };
+  switch (getEquityComponent(activity.account)) {
+    case "capital":
+      amounts.contributions = roundCents(creditTotal);
+      amounts.distributions = roundCents(debitTotal);
+      break;
+    case "contributions":
+      amounts.contributions = roundCents(creditTotal - debitTotal);
+      break;
+    case "distributions":
+      amounts.distributions = roundCents(debitTotal - creditTotal);
+      break;
+    default:
+      amounts.otherChanges = roundCents(creditTotal - debitTotal);
+  }
+  return withClosingCapital(amounts);
+}
+
+/**
+ * Sum roll-forwards, adding earnings that are in no equity account: those
+ * not yet closed into retained earnings before the period, and the
+ * period's net income.
+ */
+export function sumEquityRollForwards(
+  rollForwards: EquityRollForwardAmounts[],
+  earnings: { openingEarnings: number; netIncome: number } = {
+    openingEarnings: 0,
+    netIncome: 0,
+  }
+): EquityRollForwardAmounts {
+  const sum = (field: (typeof AMOUNT_FIELDS)[number]) =>
+    roundCents(rollForwards.reduce((total, amounts) => total + amounts[field], 0));
+  return withClosingCapital({
+    openingCapital: roundCents(sum("openingCapital") + earnings.openingEarnings),
+    contributions: sum("contributions"),
+    netIncome: roundCents(sum("netIncome") + earnings.netIncome),
+    distributions: sum("distributions"),
+    otherChanges: sum("otherChanges"),
+  });
+}
+
+/**
+ * Each owner's capital account. Movements of an owner's own capital and
+ * distribution accounts are theirs; the rest of the total is split by
+ * ownership percentage. Rounding differences go to the largest owner, so
+ * the owners add up to the total exactly.
+ *
+ * @param accounts Roll-forward of each equity account, by entity account ID
+ * @param total Roll-forward of all equity, including earnings
+ */
+export function allocateEquityToOwners<O extends EquityOwnerShare>(
+  owners: O[],
+  accounts: Array<{ entityAccountId: string; amounts: EquityRollForwardAmounts }>,
+  total: EquityRollForwardAmounts
+): Array<{ owner: O; amounts: EquityRollForwardAmounts }> {
+  if (owners.length === 0) return [];
+
+  const ownAccounts = (owner: O) =>
+    accounts
+      .filter(
+        ({ entityAccountId }) =>
+          entityAccountId === owner.capitalAccountId ||
+          entityAccountId === owner.distributionAccountId
+      )
+      .map(({ amounts }) => amounts);
+  const direct = owners.map((owner) => sumEquityRollForwards(ownAccounts(owner)));
+  const pooled = sumEquityRollForwards([
+    total,
+    ...direct.map((amounts) => {
+      const negated = { ...amounts };
+      for (const field of AMOUNT_FIELDS) negated[field] = -amounts[field];
+      return negated;
+    }),
+  ]);
+
+  const largest = owners.reduce(
+    (best, owner, index) =>
+      owner.ownershipPercentage > owners[best]!.ownershipPercentage ? index : best,
+    0
+  );
+  const shares = owners.map((owner, index) => {
+    const amounts = { ...direct[index]! };
+    for (const field of AMOUNT_FIELDS) {
+      amounts[field] = roundCents(
+        amounts[field] + (pooled[field] * owner.ownershipPercentage) / 100
+      );
+    }
+    return amounts;
+  });
+  for (const field of AMOUNT_FIELDS) {
+    const allocated = shares.reduce((sum, amounts) => sum + amounts[field], 0);
+    shares[largest]![field] = roundCents(shares[largest]![field] + total[field] - allocated);
+  }
+
+  return owners.map((owner, index) => ({
+    owner,
+    amounts: withClosingCapital(shares[index]!),
+  }));
+}
@@ -0,0 +1,86 @@
+// src/lib/accounting/core/fiscal-period.ts
+/**
+ * Fiscal period locking rules.
+ *
+ * A period is `open` for normal activity, `soft_closed` once the books for it
+ * have been reviewed (only users allowed to post adjustments may still touch
+ * it), or `hard_closed` once it has been filed (nothing may change).
+ */
+
+export type FiscalPeriodStatus = "open" | "soft_closed" | "hard_closed";
+
+export interface FiscalPeriodLock {
+  id: string;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  status: FiscalPeriodStatus;
+}
+
+/**
+ * Everything needed to decide whether a date may receive ledger changes.
+ */
+export interface PeriodLockContext {
+  periods: FiscalPeriodLock[];
+  /** Whether the acting user may post adjustments into soft-closed periods */
+  canOverrideSoftClose?: boolean;
+}
+
+export interface PeriodLockResult {
+  allowed: boolean;
+  period?: FiscalPeriodLock | undefined;
+  code?: "PERIOD_SOFT_CLOSED" | "PERIOD_HARD_CLOSED";
+  message?: string;
+}
+
+/**
+ * Find the period that contains the given date. Period boundaries are
+ * inclusive and compared on whole UTC days.
+ */
+export function findPeriodForDate(
+  periods: FiscalPeriodLock[],
+  date: Date
+): FiscalPeriodLock | undefined {
+  const day = toUtcDay(date);
+  return periods.find(
+    (p) => toUtcDay(p.startDate) <= day && day <= toUtcDay(p.endDate)
+  );
+}
+
+/**
+ * Check whether ledger activity dated on `date` is permitted.
+ * Dates that fall outside every defined period are treated as open.
+ */
+export function checkPeriodLock(
+  context: PeriodLockContext,
+  date: Date
+): PeriodLockResult {
+  const period = findPeriodForDate(context.periods, date);
+  if (!period || period.status === "open") {
+    return { allowed: true, period };
+  }
+
+  if (period.status === "hard_closed") {
+    return {
+      allowed: false,
+      period,
+      code: "PERIOD_HARD_CLOSED",
+      message: `Fiscal period "${period.name}" is closed. No changes can be made to transactions dated within it.`,
+    };
+  }
+
+  if (context.canOverrideSoftClose) {
+    return { allowed: true, period };
+  }
+
+  return {
+    allowed: false,
+    period,
+    code: "PERIOD_SOFT_CLOSED",
+    message: `Fiscal period "${period.name}" is soft-closed. Only users permitted to post adjustments can change transactions dated within it.`,
+  };
+}
+
+function toUtcDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
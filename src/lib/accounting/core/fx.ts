@@ -0,0 +1,258 @@
+// src/lib/accounting/core/fx.ts
+/**
+ * Foreign currency support.
+ *
+ * The ledger keeps every line in the entity's functional currency. A line
+ * entered in another (transaction) currency also keeps its original amount
+ * and the rate it was converted at, so foreign balances can be revalued at
+ * period end. Amounts here are decimal strings or integer cents; rates are
+ * decimal strings giving functional units per unit of foreign currency.
+ */
+
+import { ValidationError } from "../../../utils/errors";
+import {
+  defaultChartOfAccounts,
+  findAccountByCodeInList,
+} from "./chart-of-accounts";
+
+/** Code of the FX gain/loss account in `defaultChartOfAccounts` */
+export const FX_GAIN_LOSS_ACCOUNT_CODE =
+  findAccountByCodeInList(defaultChartOfAccounts, "4520")?.code ?? "4520";
+
+/**
+ * Balance-sheet groups carried at historical rates (prepaids, fixed assets,
+ * unearned revenue). They and their children are never revalued.
+ */
+const NON_MONETARY_PARENT_CODES = new Set(["1200", "1500", "2200"]);
+
+/** 1 unit of baseCurrency = rate units of quoteCurrency */
+export interface ExchangeRate {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: string;
+  /** YYYY-MM-DD */
+  rateDate: string;
+}
+
+/** A line as entered: amount in its own currency */
+export interface CurrencyLineInput {
+  amount: string;
+  isDebit: boolean;
+  currencyCode: string;
+}
+
+export type ConvertedLine<T extends CurrencyLineInput> = T & {
+  /** Amount in the functional currency */
+  amount: string;
+  /** Original amount, set only for foreign-currency lines */
+  foreignAmount: string | null;
+  /** Rate used, set only for foreign-currency lines */
+  exchangeRate: string | null;
+};
+
+/** Posted balance of one account in one foreign currency (debit positive) */
+export interface ForeignCurrencyBalance {
+  entityAccountId: string;
+  currencyCode: string;
+  /** Cents in currencyCode */
+  foreignBalance: number;
+  /** Cents in the functional currency, as currently booked */
+  bookedBalance: number;
+}
+
+export interface RevaluationAdjustment extends ForeignCurrencyBalance {
+  closingRate: string;
+  /** Cents in the functional currency at the closing rate */
+  revaluedBalance: number;
+  /** revaluedBalance - bookedBalance; positive is a debit to the account */
+  adjustment: number;
+}
+
+export function normalizeCurrencyCode(code: string): string {
+  const normalized = code.trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(normalized)) {
+    throw new ValidationError(`Invalid currency code "${code}". Expected a 3-letter ISO 4217 code.`);
+  }
+  return normalized;
+}
+
+export function toCents(amount: string | number): number {
+  return roundHalfAwayFromZero(parseFloat(String(amount)) * 100);
+}
+
+export function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+function roundHalfAwayFromZero(value: number): number {
+  return Math.sign(value) * Math.round(Math.abs(value));
+}
+
+function formatRate(rate: number): string {
+  return String(Number(rate.toPrecision(10)));
+}
+
+function parseRate(rate: string): number {
+  const value = Number(rate);
+  if (!/^\d+(\.\d+)?$/.test(rate.trim()) || !(value > 0)) {
+    throw new ValidationError(`Invalid exchange rate "${rate}". Expected a positive decimal.`);
+  }
+  return value;
+}
+
+/**
+ * Parse rates from CSV with a `date,base_currency,quote_currency,rate` header.
+ * Blank lines and lines starting with `#` are ignored.
+ */
+export function parseExchangeRatesCsv(csv: string): ExchangeRate[] {
+  const rows = csv
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== "" && !line.startsWith("#"));
+
+  const header = rows.shift()?.split(",").map((h) => h.trim().toLowerCase());
+  const columns = ["date", "base_currency", "quote_currency", "rate"];
+  if (!header || columns.some((column) => !header.includes(column))) {
+    throw new ValidationError(`Exchange rate CSV must have the columns: ${columns.join(", ")}.`);
+  }
+  const index = Object.fromEntries(columns.map((c) => [c, header.indexOf(c)]));
+
+  return rows.map((row, i) => {
+    const cells = row.split(",").map((cell) => cell.trim());
+    const rateDate = cells[index.date!] ?? "";
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(rateDate)) {
+      throw new ValidationError(`Exchange rate CSV row ${i + 2}: invalid date "${rateDate}".`);
+    }
+    const rate = cells[index.rate!] ?? "";
+    parseRate(rate);
+    return {
+      baseCurrency: normalizeCurrencyCode(cells[index.base_currency!] ?? ""),
+      quoteCurrency: normalizeCurrencyCode(cells[index.quote_currency!] ?? ""),
+      rate,
+      rateDate,
+    };
+  });
+}
+
+/**
+ * Rate to convert `from` into `to` on a date: the latest rate quoted on or
+ * before it, in either direction. Returns null when no such rate exists.
+ */
+export function findExchangeRate(
+  rates: ExchangeRate[],
+  from: string,
+  to: string,
+  date: string
+): ExchangeRate | null {
+  if (from === to) {
+    return { baseCurrency: from, quoteCurrency: to, rate: "1", rateDate: date };
+  }
+
+  let best: ExchangeRate | null = null;
+  for (const rate of rates) {
+    if (rate.rateDate > date) continue;
+    const direct = rate.baseCurrency === from && rate.quoteCurrency === to;
+    const inverse = rate.baseCurrency === to && rate.quoteCurrency === from;
+    if (!direct && !inverse) continue;
+    // On the same day a directly quoted rate wins over an inverted one
+    if (best && (rate.rateDate < best.rateDate || (rate.rateDate === best.rateDate && !direct))) {
+      continue;
+    }
+    best = direct
+      ? rate
+      : { baseCurrency: from, quoteCurrency: to, rate: formatRate(1 / parseRate(rate.rate)), rateDate: rate.rateDate };
+  }
+  return best;
+}
+
+/**
+ * Convert lines into the functional currency. `rates` maps each foreign
+ * currency on the lines to its rate into the functional currency.
+ *
+ * When every currency on the entry balances on its own, any difference left
+ * after converting is rounding; it is absorbed by the largest converted line
+ * so the entry still balances. Mixed-currency entries must balance in the
+ * functional currency as entered.
+ */
+export function convertToFunctional<T extends CurrencyLineInput>(
+  lines: T[],
+  functionalCurrency: string,
+  rates: Map<string, string>
+): ConvertedLine<T>[] {
+  const converted = lines.map((line) => {
+    const currencyCode = normalizeCurrencyCode(line.currencyCode);
+    if (currencyCode === functionalCurrency) {
+      return { ...line, currencyCode, foreignAmount: null, exchangeRate: null, cents: toCents(line.amount) };
+    }
+    const rate = rates.get(currencyCode);
+    if (!rate) {
+      throw new ValidationError(`No ${currencyCode} to ${functionalCurrency} exchange rate was provided.`);
+    }
+    return {
+      ...line,
+      currencyCode,
+      foreignAmount: fromCents(toCents(line.amount)),
+      exchangeRate: rate,
+      cents: roundHalfAwayFromZero(toCents(line.amount) * parseRate(rate)),
+    };
+  });
+
+  const sourceNet = new Map<string, number>();
+  for (const line of lines) {
+    const code = normalizeCurrencyCode(line.currencyCode);
+    const signed = line.isDebit ? toCents(line.amount) : -toCents(line.amount);
+    sourceNet.set(code, (sourceNet.get(code) ?? 0) + signed);
+  }
+  const foreignLines = converted.filter((line) => line.exchangeRate !== null);
+  const difference = converted.reduce((sum, line) => sum + (line.isDebit ? line.cents : -line.cents), 0);
+
+  if (
+    difference !== 0 &&
+    foreignLines.length > 0 &&
+    Math.abs(difference) <= foreignLines.length &&
+    [...sourceNet.values()].every((net) => net === 0)
+  ) {
+    const largest = foreignLines.reduce((a, b) => (b.cents > a.cents ? b : a));
+    largest.cents += largest.isDebit ? -difference : difference;
+  }
+
+  return converted.map(({ cents, ...line }) => ({ ...line, amount: fromCents(cents) }) as ConvertedLine<T>);
+}
+
+/**
+ * Whether an account's foreign balances are revalued at period end: assets
+ * and liabilities other than the non-monetary groups.
+ */
+export function isMonetaryAccount(account: { code: string; systemType: string }): boolean {
+  if (account.systemType !== "asset" && account.systemType !== "liability") {
+    return false;
+  }
+  const definition = findAccountByCodeInList(defaultChartOfAccounts, account.code);
+  return !(
+    NON_MONETARY_PARENT_CODES.has(account.code) ||
+    (definition?.parentCode && NON_MONETARY_PARENT_CODES.has(definition.parentCode))
+  );
+}
+
+/**
+ * Restate foreign balances at closing rates. Only balances whose functional
+ * amount changes are returned.
+ */
+export function computeRevaluation(
+  balances: ForeignCurrencyBalance[],
+  closingRates: Map<string, string>
+): RevaluationAdjustment[] {
+  const adjustments: RevaluationAdjustment[] = [];
+  for (const balance of balances) {
+    const closingRate = closingRates.get(balance.currencyCode);
+    if (!closingRate) {
+      throw new ValidationError(`No closing exchange rate for ${balance.currencyCode}.`);
+    }
+    const revaluedBalance = roundHalfAwayFromZero(balance.foreignBalance * parseRate(closingRate));
+    const adjustment = revaluedBalance - balance.bookedBalance;
+    if (adjustment !== 0) {
+      adjustments.push({ ...balance, closingRate, revaluedBalance, adjustment });
+    }
+  }
+  return adjustments;
+}
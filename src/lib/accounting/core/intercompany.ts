@@ -0,0 +1,128 @@
+// src/lib/accounting/core/intercompany.ts
+/**
+ * Intercompany entries.
+ *
+ * One entry may book lines to two entities in the same hierarchy, e.g. the
+ * holding company paying an expense of one of its property companies. Each
+ * entity's books only ever see its own lines plus one balancing line against
+ * the other entity: a receivable (due from) on the side that is owed, a
+ * payable (due to) on the side that owes. Amounts are decimal strings in the
+ * functional currency, which both entities must share.
+ */
+
+import { ValidationError } from "../../../utils/errors";
+import {
+  defaultChartOfAccounts,
+  findAccountByCodeInList,
+} from "./chart-of-accounts";
+import { fromCents, toCents } from "./fx";
+
+/** Code of the intercompany receivable account in `defaultChartOfAccounts` */
+export const DUE_FROM_ACCOUNT_CODE =
+  findAccountByCodeInList(defaultChartOfAccounts, "1400")?.code ?? "1400";
+
+/** Code of the intercompany payable account in `defaultChartOfAccounts` */
+export const DUE_TO_ACCOUNT_CODE =
+  findAccountByCodeInList(defaultChartOfAccounts, "2050")?.code ?? "2050";
+
+/** One entity's due-from (asset) and due-to (liability) entity accounts */
+export interface IntercompanyAccounts {
+  dueFromAccountId: string;
+  dueToAccountId: string;
+}
+
+export interface IntercompanyLine {
+  id: string;
+  accountId: string;
+  amount: string | number;
+  isDebit: boolean;
+  description?: string;
+  metadata?: Record<string, any>;
+  /** Entity the account belongs to; omitted for the transaction's own entity */
+  entityId?: string;
+}
+
+/**
+ * Entities other than `transactionEntityId` that the lines are booked to.
+ */
+export function getIntercompanyEntityIds(
+  transactionEntityId: string,
+  lines: Array<Pick<IntercompanyLine, "entityId">>
+): string[] {
+  const entityIds = new Set<string>();
+  for (const line of lines) {
+    if (line.entityId && line.entityId !== transactionEntityId) {
+      entityIds.add(line.entityId);
+    }
+  }
+  return [...entityIds];
+}
+
+/**
+ * The other party to an intercompany entry, seen from `entityId`.
+ * Throws when the entry spans more than two entities or does not involve
+ * `entityId` at all.
+ */
+export function getCounterpartyEntityId(
+  transactionEntityId: string,
+  lines: Array<Pick<IntercompanyLine, "entityId">>,
+  entityId: string
+): string {
+  const others = getIntercompanyEntityIds(transactionEntityId, lines);
+  if (others.length !== 1) {
+    throw new ValidationError(
+      others.length === 0
+        ? "Transaction is not an intercompany entry."
+        : "An intercompany entry can only span two entities."
+    );
+  }
+  const counterpartyId = others[0]!;
+  if (entityId === transactionEntityId) return counterpartyId;
+  if (entityId === counterpartyId) return transactionEntityId;
+  throw new ValidationError(`Entity ${entityId} is not a party to this intercompany entry.`);
+}
+
+/**
+ * Lines of an intercompany entry as booked by one entity: its own lines plus
+ * a due-to or due-from line that balances them against the counterparty.
+ * The balancing line's metadata names the counterparty entity; its memo uses
+ * `counterpartyName` when given.
+ */
+export function buildIntercompanySideLines<T extends IntercompanyLine>(
+  transactionEntityId: string,
+  lines: T[],
+  entityId: string,
+  accounts: IntercompanyAccounts,
+  counterpartyName?: string
+): Array<Omit<T, "entityId"> | IntercompanyLine> {
+  const counterpartyId = getCounterpartyEntityId(transactionEntityId, lines, entityId);
+
+  const own = lines
+    .filter((line) => (line.entityId ?? transactionEntityId) === entityId)
+    .map(({ entityId: _entityId, ...line }) => line);
+  if (own.length === 0) {
+    throw new ValidationError(`Intercompany entry has no lines for entity ${entityId}.`);
+  }
+
+  // Debits less credits on this side; the counterparty carries the opposite
+  const net = own.reduce(
+    (sum, line) => sum + (line.isDebit ? toCents(line.amount) : -toCents(line.amount)),
+    0
+  );
+  if (net === 0) {
+    return own;
+  }
+
+  const owed = net < 0;
+  return [
+    ...own,
+    {
+      id: crypto.randomUUID(),
+      accountId: owed ? accounts.dueFromAccountId : accounts.dueToAccountId,
+      amount: fromCents(Math.abs(net)),
+      isDebit: owed,
+      description: `${owed ? "Due from" : "Due to"} ${counterpartyName ?? counterpartyId}`,
+      metadata: { intercompanyEntityId: counterpartyId },
+    },
+  ];
+}
@@ -42,7 +42,11 @@ export class Journal {
   }
 
   addTransaction(transaction: Transaction): boolean {
-    if (transaction.entity_id !== this.entityId) {
+    // Intercompany entries belong in the journals of both parties
+    const touchesEntity =
+      transaction.entity_id === this.entityId ||
+      (transaction.lines ?? []).some((line: TransactionLine) => line.entity_id === this.entityId);
+    if (!touchesEntity) {
       console.warn(
         `Journal [${this.name}/${this.id}]: Transaction [${transaction.id}] entity [${transaction.entity_id}] does not match journal entity [${this.entityId}]. Not added.`
       );
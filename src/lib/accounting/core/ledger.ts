@@ -5,6 +5,7 @@ import type { AccountSystemType as AccountD1SchemaType } from "@db/schema";
 import { Journal } from "./journal";
 // FIXED: Import Transaction class and TransactionLine interface from the local transaction.ts
 import { Transaction, type TransactionLine } from "./transaction";
+import type { IntercompanyAccounts } from "./intercompany";
 import { type MojoDecimal, newMojoDecimal } from "./financial";
 // The utility 'areTransactionLinesBalanced' is encapsulated within Transaction.isBalanced()
 // so it's not directly needed here if we use the method from the Transaction class.
@@ -15,6 +16,8 @@ export class Ledger {
   private journals: Map<string, Journal> = new Map();
   // Now stores instances of the Transaction CLASS
   private recordedTransactions: Transaction[] = [];
+  // Due-from / due-to accounts used to book this entity's side of intercompany entries
+  private intercompanyAccounts?: IntercompanyAccounts;
 
   constructor(entityId: string) {
     if (!entityId || entityId.trim() === "") {
@@ -53,6 +56,10 @@ export class Ledger {
     return this.getAllAccounts().filter((account) => account.type === type);
   }
 
+  public setIntercompanyAccounts(accounts: IntercompanyAccounts): void {
+    this.intercompanyAccounts = accounts;
+  }
+
   public addJournal(journal: Journal): void {
     if (!journal || !journal.id) {
       throw new Error("Invalid journal provided to addJournal.");
@@ -79,6 +86,21 @@ export class Ledger {
     if (!transaction || !transaction.id) {
       throw new Error("Invalid transaction provided to recordTransaction.");
     }
+    // An intercompany entry involving this entity is recorded as this
+    // entity's side of it: its own lines plus the due-to/due-from line.
+    if (
+      transaction.isIntercompany() &&
+      (transaction.entityId === this.entityId ||
+        transaction.getIntercompanyEntityIds().includes(this.entityId))
+    ) {
+      if (!this.intercompanyAccounts) {
+        console.warn(
+          `Ledger (Entity: ${this.entityId}): Transaction [${transaction.id}] is intercompany but no due-to/due-from accounts are set. Rejected.`
+        );
+        return false;
+      }
+      transaction = transaction.createIntercompanySide(this.entityId, this.intercompanyAccounts);
+    }
     // The Transaction class constructor uses/sets entityId (camelCase)
     if (transaction.entityId !== this.entityId) {
       console.warn(
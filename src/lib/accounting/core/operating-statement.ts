@@ -0,0 +1,197 @@
+// src/lib/accounting/core/operating-statement.ts
+/**
+ * Property Operating Statement
+ *
+ * Places each account on the operating statement lenders and investors
+ * read: Gross Potential Rent, less vacancy and credit loss, gives Effective
+ * Gross Income; with other income and less operating expenses, Net
+ * Operating Income; less debt service (interest and principal), cash flow
+ * after debt service.
+ *
+ * An account's line follows from its subtype, then from the common real
+ * estate account codes, then from its report category. Depreciation and
+ * amortization are left out (they are not cash and sit below NOI), as is
+ * non-operating income such as interest earned on reserves.
+ */
+
+import type { AccountSystemType } from "../../../types/accounting";
+import type { OperatingStatementTotals } from "../../../types/report";
+import { REAL_ESTATE_ACCOUNT_CODES } from "./chart-of-accounts";
+
+export type OperatingStatementLine =
+  | "gross_potential_rent"
+  | "vacancy_credit_loss"
+  | "other_income"
+  | "operating_expenses"
+  | "debt_service_interest"
+  | "debt_service_principal"
+  | "capital_expenditures";
+
+/** The parts of a report account its line is based on */
+export interface OperatingStatementAccount {
+  code: string;
+  /** Report category, e.g. INTEREST_EXPENSE or LOAN */
+  type: string;
+  systemType: AccountSystemType;
+  subtype: string | null;
+}
+
+/** Posted activity of an account over the statement's period */
+export interface OperatingAccountActivity<
+  A extends OperatingStatementAccount = OperatingStatementAccount,
+> {
+  account: A;
+  /** Net on the account's normal-balance side */
+  total: number;
+  debitTotal: number;
+  creditTotal: number;
+}
+
+export interface OperatingStatementAmount<
+  A extends OperatingStatementAccount = OperatingStatementAccount,
+> {
+  account: A;
+  line: OperatingStatementLine;
+  /** Positive; the line says whether it adds or subtracts */
+  amount: number;
+}
+
+const CONTRA_RENT_SUBTYPES = ["vacancy_loss", "concessions", "bad_debt"];
+const RENT_SUBTYPES = ["rental_income"];
+const OTHER_INCOME_SUBTYPES = [
+  "late_fees",
+  "application_fees",
+  "parking_income",
+  "laundry_income",
+  "utility_reimbursement",
+  "other_income",
+];
+const DEBT_ACCOUNT_TYPES = ["LOAN", "NOTE_PAYABLE", "CURRENT_LIABILITY", "LONG_TERM_LIABILITY"];
+const DEBT_SUBTYPES = ["mortgage_current", "mortgage_long_term", "notes_payable"];
+const CAPITAL_IMPROVEMENT_SUBTYPES = ["property_improvements", "other_fixed"];
+const NON_CASH_EXPENSE_TYPES = ["DEPRECIATION", "AMORTIZATION"];
+
+/**
+ * Line of the operating statement an account belongs on, or null when it
+ * is not on the statement.
+ */
+export function getOperatingStatementLine(
+  account: OperatingStatementAccount
+): OperatingStatementLine | null {
+  const subtype = account.subtype?.trim().toLowerCase() ?? "";
+  const codes = REAL_ESTATE_ACCOUNT_CODES;
+
+  switch (account.systemType) {
+    case "income":
+      if (CONTRA_RENT_SUBTYPES.includes(subtype)) return "vacancy_credit_loss";
+      if (RENT_SUBTYPES.includes(subtype) || account.code === codes.RENTAL_INCOME) {
+        return "gross_potential_rent";
+      }
+      if (
+        OTHER_INCOME_SUBTYPES.includes(subtype) ||
+        account.code === codes.LATE_FEES_INCOME ||
+        account.code === codes.OTHER_INCOME
+      ) {
+        return "other_income";
+      }
+      // Non-operating income, e.g. interest earned on reserves
+      return account.type === "OTHER_INCOME" ? null : "other_income";
+    case "expense":
+      if (subtype === "mortgage_interest" || account.code === codes.MORTGAGE_INTEREST_EXPENSE) {
+        return "debt_service_interest";
+      }
+      if (subtype === "depreciation" || account.code === codes.DEPRECIATION_EXPENSE) {
+        return null;
+      }
+      if (account.type === "INTEREST_EXPENSE") return "debt_service_interest";
+      if (NON_CASH_EXPENSE_TYPES.includes(account.type)) return null;
+      return "operating_expenses";
+    case "liability":
+      return DEBT_SUBTYPES.includes(subtype) ||
+        account.code === codes.MORTGAGE_PAYABLE ||
+        DEBT_ACCOUNT_TYPES.includes(account.type)
+        ? "debt_service_principal"
+        : null;
+    case "asset":
+      return CAPITAL_IMPROVEMENT_SUBTYPES.includes(subtype) || account.code === codes.IMPROVEMENTS
+        ? "capital_expenditures"
+        : null;
+    default:
+      return null;
+  }
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Amount each account contributes to its line. Income and expense lines
+ * take the account's net for the period; a rent account that ends up
+ * debited on balance (rent refunded, say) reduces Gross Potential Rent.
+ * Principal is what was paid down (the loan's debits, not net of new
+ * borrowing) and capital expenditures what was spent (the asset's debits).
+ */
+export function getOperatingStatementAmounts<A extends OperatingStatementAccount>(
+  activity: OperatingAccountActivity<A>[]
+): OperatingStatementAmount<A>[] {
+  const amounts: OperatingStatementAmount<A>[] = [];
+  for (const { account, total, debitTotal } of activity) {
+    const line = getOperatingStatementLine(account);
+    if (!line) continue;
+
+    let amount: number;
+    if (line === "vacancy_credit_loss") {
+      amount = -total; // Contra-revenue, debited
+    } else if (line === "debt_service_principal" || line === "capital_expenditures") {
+      amount = debitTotal;
+    } else {
+      amount = total;
+    }
+    if (amount !== 0) {
+      amounts.push({ account, line, amount: roundCents(amount) });
+    }
+  }
+  return amounts;
+}
+
+/**
+ * Totals of an operating statement.
+ */
+export function getOperatingStatementTotals(
+  amounts: OperatingStatementAmount[]
+): OperatingStatementTotals {
+  const sum = (line: OperatingStatementLine) =>
+    roundCents(
+      amounts
+        .filter((item) => item.line === line)
+        .reduce((total, item) => total + item.amount, 0)
+    );
+
+  const grossPotentialRent = sum("gross_potential_rent");
+  const vacancyAndCreditLoss = sum("vacancy_credit_loss");
+  const effectiveGrossIncome = roundCents(grossPotentialRent - vacancyAndCreditLoss);
+  const otherIncome = sum("other_income");
+  const totalRevenue = roundCents(effectiveGrossIncome + otherIncome);
+  const operatingExpenses = sum("operating_expenses");
+  const netOperatingIncome = roundCents(totalRevenue - operatingExpenses);
+  const debtServiceInterest = sum("debt_service_interest");
+  const debtServicePrincipal = sum("debt_service_principal");
+  const debtService = roundCents(debtServiceInterest + debtServicePrincipal);
+
+  return {
+    grossPotentialRent,
+    vacancyAndCreditLoss,
+    effectiveGrossIncome,
+    otherIncome,
+    totalRevenue,
+    operatingExpenses,
+    netOperatingIncome,
+    debtServiceInterest,
+    debtServicePrincipal,
+    debtService,
+    cashFlowAfterDebtService: roundCents(netOperatingIncome - debtService),
+    capitalExpenditures: sum("capital_expenditures"),
+    debtServiceCoverageRatio: debtService !== 0 ? netOperatingIncome / debtService : null,
+  };
+}
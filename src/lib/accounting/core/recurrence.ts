@@ -0,0 +1,240 @@
+// src/lib/accounting/core/recurrence.ts
+/**
+ * Recurrence rules for scheduled transactions.
+ *
+ * Occurrences are whole days (YYYY-MM-DD, UTC). Monthly, quarterly and annual
+ * schedules repeat on the start date's day of month, clamped to the last day
+ * of shorter months. Custom schedules use a standard five-field cron
+ * expression, of which only the day-of-month, month and day-of-week fields
+ * affect which days match.
+ */
+
+import { ValidationError } from "../../../utils/errors";
+
+export type RecurrenceFrequency = "monthly" | "quarterly" | "annual" | "custom";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  /** First occurrence (YYYY-MM-DD) */
+  startDate: string;
+  /** Last day an occurrence may fall on (YYYY-MM-DD), inclusive */
+  endDate?: string | null;
+  /** Required when frequency is "custom" */
+  cronExpression?: string | null;
+}
+
+export interface ScheduledAmount {
+  /** First occurrence date (YYYY-MM-DD) the amount applies to */
+  effectiveDate: string;
+  amount: string;
+}
+
+export interface RecurringLineAmount {
+  /** Amount used until the first scheduled change takes effect */
+  amount: string;
+  amountSchedule?: ScheduledAmount[];
+}
+
+const MONTH_STEP: Record<Exclude<RecurrenceFrequency, "custom">, number> = {
+  monthly: 1,
+  quarterly: 3,
+  annual: 12,
+};
+
+/** Custom schedules are searched this many days ahead before giving up */
+const MAX_CRON_SEARCH_DAYS = 366 * 5;
+
+interface CronDateFields {
+  daysOfMonth: Set<number> | null;
+  months: Set<number> | null;
+  daysOfWeek: Set<number> | null;
+}
+
+function parseDay(date: string): Date {
+  const parsed = new Date(`${date}T00:00:00.000Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(parsed.getTime())) {
+    throw new ValidationError(`Invalid date "${date}". Expected YYYY-MM-DD.`);
+  }
+  return parsed;
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * The nth (0-based) occurrence of a calendar-based rule.
+ */
+function nthCalendarOccurrence(start: Date, monthStep: number, n: number): Date {
+  const monthIndex = start.getUTCMonth() + n * monthStep;
+  const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+  const month = ((monthIndex % 12) + 12) % 12;
+  const day = Math.min(start.getUTCDate(), daysInMonth(year, month));
+  return new Date(Date.UTC(year, month, day));
+}
+
+function parseCronField(
+  field: string,
+  min: number,
+  max: number,
+  name: string
+): Set<number> | null {
+  if (field === "*") return null;
+
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = /^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new ValidationError(`Invalid cron ${name} field "${field}".`);
+    }
+    const [, from, to, step] = match;
+    const rangeStart = from === "*" ? min : Number(from);
+    const rangeEnd = to !== undefined ? Number(to) : from === "*" || step ? max : rangeStart;
+    const increment = step ? Number(step) : 1;
+    if (rangeStart < min || rangeEnd > max || rangeStart > rangeEnd || increment < 1) {
+      throw new ValidationError(`Cron ${name} field "${field}" is out of range (${min}-${max}).`);
+    }
+    for (let value = rangeStart; value <= rangeEnd; value += increment) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression (minute hour day-of-month month
+ * day-of-week) into the fields that decide which days match.
+ */
+export function parseCronExpression(expression: string): CronDateFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new ValidationError(
+      `Cron expression "${expression}" must have five fields: minute hour day-of-month month day-of-week.`
+    );
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [string, string, string, string, string];
+  // Validated for correctness even though occurrences are whole days
+  parseCronField(minute, 0, 59, "minute");
+  parseCronField(hour, 0, 23, "hour");
+
+  const daysOfWeek = parseCronField(dayOfWeek, 0, 7, "day-of-week");
+  if (daysOfWeek?.delete(7)) daysOfWeek.add(0); // 7 is also Sunday
+
+  return {
+    daysOfMonth: parseCronField(dayOfMonth, 1, 31, "day-of-month"),
+    months: parseCronField(month, 1, 12, "month"),
+    daysOfWeek,
+  };
+}
+
+function matchesCronDay(fields: CronDateFields, date: Date): boolean {
+  if (fields.months && !fields.months.has(date.getUTCMonth() + 1)) return false;
+
+  const domMatch = !fields.daysOfMonth || fields.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = !fields.daysOfWeek || fields.daysOfWeek.has(date.getUTCDay());
+  // As in cron, when both day fields are restricted either one may match
+  if (fields.daysOfMonth && fields.daysOfWeek) return domMatch || dowMatch;
+  return domMatch && dowMatch;
+}
+
+/**
+ * Check a rule for errors before it is saved.
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule): void {
+  const start = parseDay(rule.startDate);
+  if (rule.endDate && parseDay(rule.endDate) < start) {
+    throw new ValidationError("End date must be on or after the start date.");
+  }
+  if (rule.frequency === "custom") {
+    if (!rule.cronExpression) {
+      throw new ValidationError("A cron expression is required for custom schedules.");
+    }
+    parseCronExpression(rule.cronExpression);
+  }
+}
+
+/**
+ * First occurrence strictly after `after` (or the first occurrence of the
+ * rule when `after` is null). Returns null once the rule has ended.
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  after: string | null
+): string | null {
+  const start = parseDay(rule.startDate);
+  const end = rule.endDate ? parseDay(rule.endDate) : null;
+  const afterDate = after ? parseDay(after) : null;
+
+  let next: Date | null = null;
+
+  if (rule.frequency === "custom") {
+    const fields = parseCronExpression(rule.cronExpression ?? "");
+    const cursor = new Date(start);
+    if (afterDate && afterDate >= cursor) {
+      cursor.setTime(afterDate.getTime());
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+    for (let i = 0; i < MAX_CRON_SEARCH_DAYS; i++) {
+      if (end && cursor > end) break;
+      if (matchesCronDay(fields, cursor)) {
+        next = cursor;
+        break;
+      }
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+  } else {
+    const step = MONTH_STEP[rule.frequency];
+    let n = 0;
+    if (afterDate && afterDate >= start) {
+      const monthsElapsed =
+        (afterDate.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+        (afterDate.getUTCMonth() - start.getUTCMonth());
+      n = Math.max(0, Math.floor(monthsElapsed / step));
+      while (nthCalendarOccurrence(start, step, n) <= afterDate) n++;
+    }
+    next = nthCalendarOccurrence(start, step, n);
+  }
+
+  if (!next || (end && next > end)) return null;
+  return formatDay(next);
+}
+
+/**
+ * Occurrences that are due on or before `asOf`, starting after the last
+ * generated occurrence. At most `limit` dates are returned so a long
+ * backlog is caught up over several runs.
+ */
+export function getDueOccurrences(
+  rule: RecurrenceRule,
+  lastOccurrence: string | null,
+  asOf: string,
+  limit = 24
+): string[] {
+  const due: string[] = [];
+  let next = getNextOccurrence(rule, lastOccurrence);
+  while (next && next <= asOf && due.length < limit) {
+    due.push(next);
+    next = getNextOccurrence(rule, next);
+  }
+  return due;
+}
+
+/**
+ * Amount of a recurring line for one occurrence: the latest scheduled change
+ * in effect on that date, or the base amount.
+ */
+export function resolveLineAmount(line: RecurringLineAmount, occurrence: string): string {
+  let amount = line.amount;
+  let effective = "";
+  for (const change of line.amountSchedule ?? []) {
+    if (change.effectiveDate <= occurrence && change.effectiveDate >= effective) {
+      amount = change.amount;
+      effective = change.effectiveDate;
+    }
+  }
+  return amount;
+}
@@ -7,6 +7,13 @@
 // FIXED: Import RoundingMode from financial.ts
 import { MojoDecimal, newMojoDecimal, RoundingMode } from "./financial";
 import { isTransactionBalanced } from "../utils";
+import { checkPeriodLock, type PeriodLockContext } from "./fiscal-period";
+import {
+  buildIntercompanySideLines,
+  getIntercompanyEntityIds,
+  type IntercompanyAccounts,
+} from "./intercompany";
+import type { LineDimensions } from "./dimensions";
 
 export class TransactionError extends Error {
   // ... (no changes to TransactionError) ...
@@ -29,6 +36,10 @@ export interface TransactionLine {
   isDebit: boolean;
   description?: string;
   metadata?: Record<string, any>;
+  /** Intercompany: entity the account belongs to, when not the transaction's entity */
+  entityId?: string;
+  /** Property, unit, class and tags the line is reported under */
+  dimensions?: LineDimensions;
 }
 
 export interface TransactionData {
@@ -211,6 +222,18 @@ export class Transaction {
     return this.lines.length < initialLength;
   }
 
+  /**
+   * Other entities this transaction books lines to. Empty for an ordinary
+   * single-entity transaction.
+   */
+  getIntercompanyEntityIds(): string[] {
+    return getIntercompanyEntityIds(this.entityId, this.lines);
+  }
+
+  isIntercompany(): boolean {
+    return this.getIntercompanyEntityIds().length > 0;
+  }
+
   getTotalAmount(): string {
     try {
       let totalDebits: MojoDecimal = newMojoDecimal(0);
@@ -231,7 +254,23 @@ export class Transaction {
     }
   }
 
-  post(): boolean {
+  /**
+   * Reject the operation if this transaction's date falls inside a closed
+   * fiscal period. No-op when no lock context is supplied.
+   */
+  assertPeriodOpen(periodLock?: PeriodLockContext, date: Date = this.date): void {
+    if (!periodLock) return;
+    const result = checkPeriodLock(periodLock, date);
+    if (!result.allowed) {
+      throw new TransactionError(
+        result.message ?? "Transaction date falls within a closed fiscal period.",
+        result.code ?? "PERIOD_CLOSED",
+        this.id
+      );
+    }
+  }
+
+  post(periodLock?: PeriodLockContext): boolean {
     if (this.status !== "draft") {
       throw new TransactionError(
         `Cannot post transaction. Current status: ${this.status}. Expected 'draft'.`,
@@ -239,6 +278,7 @@ export class Transaction {
         this.id
       );
     }
+    this.assertPeriodOpen(periodLock);
     if (this.lines.length < 2) {
       console.warn(
         `Transaction ${this.id} must have at least two lines to be posted.`
@@ -253,7 +293,7 @@ export class Transaction {
     return true;
   }
 
-  void(): boolean {
+  void(periodLock?: PeriodLockContext): boolean {
     if (this.status !== "posted") {
       throw new TransactionError(
         `Cannot void transaction. Current status: ${this.status}. Expected 'posted'.`,
@@ -261,6 +301,7 @@ export class Transaction {
         this.id
       );
     }
+    this.assertPeriodOpen(periodLock);
     this.status = "void";
     return true;
   }
@@ -268,7 +309,8 @@ export class Transaction {
   createReversal(
     newTransactionId: string,
     reversalDate: Date = new Date(),
-    reversalDescription: string = `Reversal of transaction ${this.id}`
+    reversalDescription: string = `Reversal of transaction ${this.id}`,
+    periodLock?: PeriodLockContext
   ): Transaction {
     if (this.status !== "posted") {
       throw new TransactionError(
@@ -277,6 +319,8 @@ export class Transaction {
         this.id
       );
     }
+    // The reversal itself lands on reversalDate, which must be writable.
+    this.assertPeriodOpen(periodLock, reversalDate);
 
     const reversedLines: TransactionLine[] = this.lines.map((line) => ({
       id: crypto.randomUUID(),
@@ -289,6 +333,8 @@ export class Transaction {
         ...line.metadata,
         reversalOfLineId: line.id,
       },
+      ...(line.entityId ? { entityId: line.entityId } : {}),
+      ...(line.dimensions ? { dimensions: line.dimensions } : {}),
     }));
 
     return new Transaction({
@@ -307,4 +353,40 @@ export class Transaction {
       },
     });
   }
+
+  /**
+   * The part of an intercompany transaction that one party books: its own
+   * lines, balanced by a due-to or due-from line against the other party.
+   * The side for the transaction's own entity keeps this transaction's ID;
+   * the counterparty's side (the mirror) records which transaction it mirrors.
+   */
+  createIntercompanySide(
+    entityId: string,
+    accounts: IntercompanyAccounts,
+    newTransactionId: string = this.id,
+    counterpartyName?: string
+  ): Transaction {
+    let lines: TransactionLine[];
+    try {
+      lines = buildIntercompanySideLines(this.entityId, this.lines, entityId, accounts, counterpartyName);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new TransactionError(message, "INVALID_INTERCOMPANY", this.id);
+    }
+
+    const isMirror = entityId !== this.entityId;
+    return new Transaction({
+      id: newTransactionId,
+      date: this.date,
+      description: this.description,
+      entityId,
+      lines,
+      status: this.status,
+      ...(this.reference ? { reference: this.reference } : {}),
+      metadata: {
+        ...this.metadata,
+        ...(isMirror ? { intercompanyOfTransactionId: this.id } : {}),
+      },
+    });
+  }
 }
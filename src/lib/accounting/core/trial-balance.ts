@@ -0,0 +1,104 @@
+// src/lib/accounting/core/trial-balance.ts
+/**
+ * Trial balance worksheet.
+ *
+ * Lays account balances out the way `Ledger.generateTrialBalance` does, with
+ * each balance in the debit or credit column depending on its sign, but in
+ * three column pairs: the unadjusted balance, the entries of adjusting
+ * journals, and the adjusted balance. Amounts are currency units, as
+ * returned by the accounting API.
+ */
+
+import type { AccountSystemType } from "../../../types/accounting";
+
+/** Posted activity of one account up to the trial balance date */
+export interface TrialBalanceActivity {
+  accountId: string;
+  systemType: AccountSystemType;
+  /** Debits minus credits outside adjusting journals */
+  unadjustedNetDebit: number;
+  /** Debits and credits in adjusting journals */
+  adjustingDebit: number;
+  adjustingCredit: number;
+}
+
+export interface TrialBalanceColumns {
+  debit: number;
+  credit: number;
+}
+
+export interface TrialBalanceWorksheetRow {
+  accountId: string;
+  unadjusted: TrialBalanceColumns;
+  adjustments: TrialBalanceColumns;
+  adjusted: TrialBalanceColumns;
+  /** The adjusted balance is on the opposite side of the account's normal balance */
+  abnormalBalance: boolean;
+}
+
+export interface TrialBalanceWorksheet {
+  rows: TrialBalanceWorksheetRow[];
+  totals: {
+    unadjusted: TrialBalanceColumns;
+    adjustments: TrialBalanceColumns;
+    adjusted: TrialBalanceColumns;
+  };
+}
+
+/** A net debit balance in the debit column, a net credit one in the credit column */
+export function toColumns(netDebit: number): TrialBalanceColumns {
+  return netDebit >= 0 ? { debit: netDebit, credit: 0 } : { debit: 0, credit: -netDebit };
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function addColumns(a: TrialBalanceColumns, b: TrialBalanceColumns): TrialBalanceColumns {
+  return { debit: roundCents(a.debit + b.debit), credit: roundCents(a.credit + b.credit) };
+}
+
+/** Debits minus credits; zero when the columns balance */
+export function getDifference(columns: TrialBalanceColumns): number {
+  return roundCents(columns.debit - columns.credit);
+}
+
+/**
+ * Build the worksheet. Accounts without any activity are left out unless
+ * `includeZeroBalances` is set.
+ */
+export function buildTrialBalanceWorksheet(
+  activity: TrialBalanceActivity[],
+  includeZeroBalances = false
+): TrialBalanceWorksheet {
+  const zero: TrialBalanceColumns = { debit: 0, credit: 0 };
+  const totals = { unadjusted: zero, adjustments: zero, adjusted: zero };
+  const rows: TrialBalanceWorksheetRow[] = [];
+
+  for (const account of activity) {
+    const unadjusted = toColumns(account.unadjustedNetDebit);
+    const adjustments = { debit: account.adjustingDebit, credit: account.adjustingCredit };
+    const adjustedNetDebit = roundCents(
+      account.unadjustedNetDebit + account.adjustingDebit - account.adjustingCredit
+    );
+    const adjusted = toColumns(adjustedNetDebit);
+
+    const hasActivity =
+      account.unadjustedNetDebit !== 0 || adjustments.debit !== 0 || adjustments.credit !== 0;
+    if (!hasActivity && !includeZeroBalances) continue;
+
+    const debitNormal = account.systemType === "asset" || account.systemType === "expense";
+    rows.push({
+      accountId: account.accountId,
+      unadjusted,
+      adjustments,
+      adjusted,
+      abnormalBalance: debitNormal ? adjustedNetDebit < 0 : adjustedNetDebit > 0,
+    });
+    totals.unadjusted = addColumns(totals.unadjusted, unadjusted);
+    totals.adjustments = addColumns(totals.adjustments, adjustments);
+    totals.adjusted = addColumns(totals.adjusted, adjusted);
+  }
+
+  return { rows, totals };
+}
@@ -0,0 +1,108 @@
+// src/lib/accounting/core/year-end-close.ts
+/**
+ * Year-end closing entries.
+ *
+ * Builds the transaction that zeroes every income and expense account in a
+ * ledger into a retained-earnings equity account at the end of a fiscal year.
+ */
+
+import { Ledger } from "./ledger";
+import { Transaction, TransactionError, type TransactionLine } from "./transaction";
+import { type MojoDecimal, newMojoDecimal } from "./financial";
+import {
+  defaultChartOfAccounts,
+  findAccountByCodeInList,
+} from "./chart-of-accounts";
+
+/** Code of the retained-earnings account in `defaultChartOfAccounts` */
+export const RETAINED_EARNINGS_ACCOUNT_CODE =
+  findAccountByCodeInList(defaultChartOfAccounts, "3030")?.code ?? "3030";
+
+export interface ClosingTransactionOptions {
+  transactionId: string;
+  fiscalYear: number;
+  /** Last day of the fiscal year; the closing entry is dated on it */
+  closeDate: Date;
+  /** Ledger account that receives the year's net income */
+  retainedEarningsAccountId: string;
+  description?: string;
+}
+
+/**
+ * Build a balanced, draft closing transaction from the current balances of
+ * the ledger's income and expense accounts. The ledger must hold those
+ * balances for the fiscal year being closed.
+ */
+export function buildClosingTransaction(
+  ledger: Ledger,
+  options: ClosingTransactionOptions
+): Transaction {
+  const retainedEarnings = ledger.getAccount(options.retainedEarningsAccountId);
+  if (!retainedEarnings || retainedEarnings.type !== "equity") {
+    throw new TransactionError(
+      `Retained earnings account [${options.retainedEarningsAccountId}] must be an equity account in the ledger.`,
+      "INVALID_CLOSING_ACCOUNT",
+      options.transactionId
+    );
+  }
+
+  const lines: TransactionLine[] = [];
+  let netIncome: MojoDecimal = newMojoDecimal(0);
+
+  for (const account of [
+    ...ledger.getAccountsByType("income"),
+    ...ledger.getAccountsByType("expense"),
+  ]) {
+    const balance = account.balanceMojoDecimal;
+    if (balance.isZero()) continue;
+
+    // Post the opposite of the account's normal side to bring it to zero.
+    // A negative balance (e.g. refunds exceeding income) flips the side.
+    const isDebit = account.isCreditNormal()
+      ? balance.isPositive()
+      : !balance.isPositive();
+    lines.push({
+      id: crypto.randomUUID(),
+      accountId: account.id,
+      amount: balance.abs().toString(),
+      isDebit,
+      description: `Close ${account.code} ${account.name}`,
+    });
+
+    netIncome =
+      account.type === "income" ? netIncome.plus(balance) : netIncome.minus(balance);
+  }
+
+  if (lines.length === 0) {
+    throw new TransactionError(
+      `No income or expense balances to close for fiscal year ${options.fiscalYear}.`,
+      "NOTHING_TO_CLOSE",
+      options.transactionId
+    );
+  }
+
+  if (!netIncome.isZero()) {
+    lines.push({
+      id: crypto.randomUUID(),
+      accountId: retainedEarnings.id,
+      amount: netIncome.abs().toString(),
+      // Profit is credited to retained earnings, a loss is debited
+      isDebit: !netIncome.isPositive(),
+      description: `Net income for fiscal year ${options.fiscalYear}`,
+    });
+  }
+
+  return new Transaction({
+    id: options.transactionId,
+    date: options.closeDate,
+    description:
+      options.description ?? `Year-end close for fiscal year ${options.fiscalYear}`,
+    entityId: ledger.getEntityId(),
+    lines,
+    reference: `YEAR-END-CLOSE-${options.fiscalYear}`,
+    metadata: {
+      isClosingEntry: true,
+      fiscalYear: options.fiscalYear,
+    },
+  });
+}
@@ -158,17 +158,33 @@ export async function setEntityConfig<T = Record<string, unknown>>(
   await putKV(kvConfig, `entity:${entityId}:config`, config);
 }
 
+/**
+ * Cached reports are keyed on the ledger version they were generated at, so a
+ * posting, void or reversal makes every earlier entry unreachable instead of
+ * leaving it to be served until it expires.
+ */
+function reportCacheKey(
+  entityId: string,
+  reportType: string,
+  reportKey: string,
+  ledgerVersion: string
+): string {
+  return `entity:${entityId}:report:${reportType}:${reportKey}:v${ledgerVersion}`;
+}
+
 export async function cacheReport<T = unknown>(
   kvReportCache: KVNamespace,
   entityId: string,
   reportType: string,
-  period: string,
-  data: T
+  reportKey: string,
+  ledgerVersion: string,
+  data: T,
+  expirationTtl: number = 86400
 ): Promise<void> {
-  const key = `entity:${entityId}:report:${reportType}:${period}`;
+  const key = reportCacheKey(entityId, reportType, reportKey, ledgerVersion);
   await putKV(kvReportCache, key, data, {
-    metadata: { generatedAt: new Date().toISOString() },
-    expirationTtl: 86400,
+    metadata: { generatedAt: new Date().toISOString(), ledgerVersion },
+    expirationTtl,
   });
 }
 
@@ -176,9 +192,10 @@ export async function getCachedReport<T = unknown>(
   kvReportCache: KVNamespace,
   entityId: string,
   reportType: string,
-  period: string
+  reportKey: string,
+  ledgerVersion: string
 ): Promise<T | null> {
-  const key = `entity:${entityId}:report:${reportType}:${period}`;
+  const key = reportCacheKey(entityId, reportType, reportKey, ledgerVersion);
   return await getKV<T>(kvReportCache, key);
 }
 
@@ -0,0 +1,58 @@
+// src/lib/cloudflare/scheduled-jobs.ts
+/**
+ * Scheduled Jobs
+ * Registers the application's cron jobs with a CronRegistry. The scheduled
+ * Worker (cloudflare/workers/scheduled.ts) forwards each event to
+ * `handleScheduledEvent()`; the cron triggers are listed under
+ * `[triggers]` in wrangler.toml and must match the schedules below.
+ */
+import type { ExecutionContext, ScheduledEvent } from '@cloudflare/workers-types';
+import type { CloudflareEnv } from '../../env';
+import { CronRegistry, CronPresets } from './cron';
+import { initMojoFinancialEngine } from '../accounting/core/financial';
+import { createRecurringScheduleService } from '../services/recurring-schedule-service';
+
+export const RECURRING_TRANSACTIONS_JOB_ID = 'recurring-transactions';
+
+/**
+ * Generate the transactions of every recurring schedule that is due.
+ */
+export async function runRecurringTransactionsJob(
+  event: ScheduledEvent,
+  env: CloudflareEnv
+): Promise<void> {
+  await initMojoFinancialEngine();
+  const result = await createRecurringScheduleService(env.DATABASE)
+    .runDueSchedules(new Date(event.scheduledTime));
+
+  console.log(
+    `Recurring transactions: ${result.transactionsCreated} created from ${result.schedulesProcessed} schedule(s), ${result.errors.length} failed`
+  );
+  if (result.errors.length > 0 && result.schedulesProcessed === 0) {
+    // Nothing succeeded; let the registry retry the run
+    throw new Error(`All ${result.errors.length} due recurring schedule(s) failed`);
+  }
+}
+
+export function createCronRegistry(env: CloudflareEnv): CronRegistry {
+  return new CronRegistry({ stateKVNamespace: env.CONFIG_KV })
+    .register({
+      id: RECURRING_TRANSACTIONS_JOB_ID,
+      schedule: CronPresets.EVERY_DAY_MIDNIGHT,
+      description: 'Generate draft or posted entries from recurring transaction schedules',
+      retries: { maxAttempts: 3, backoffMs: 30_000, strategy: 'exponential' },
+      handler: (event, jobEnv) => runRecurringTransactionsJob(event, jobEnv),
+    });
+}
+
+/**
+ * `scheduled` handler: run the jobs registered for the event's cron
+ * expression, keeping the Worker alive until they finish.
+ */
+export async function handleScheduledEvent(
+  event: ScheduledEvent,
+  env: CloudflareEnv,
+  ctx: ExecutionContext
+): Promise<void> {
+  ctx.waitUntil(createCronRegistry(env).handleScheduled(event, env, ctx));
+}
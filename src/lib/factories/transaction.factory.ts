@@ -11,7 +11,7 @@ import type {
   WorkOrderDto,
   LoanScheduleEntry
 } from '@/types';
-import { REAL_ESTATE_ACCOUNT_CODES } from '@/types/accounting';
+import { REAL_ESTATE_ACCOUNT_CODES } from '@/lib/accounting/core/chart-of-accounts';
 
 // Helper to create a basic transaction line
 function createLine(
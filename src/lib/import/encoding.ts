@@ -0,0 +1,43 @@
+// src/lib/import/encoding.ts
+/**
+ * Text encodings of imported files. Bank exports are UTF-8 or one of the
+ * Western single-byte code pages.
+ */
+
+import type { ImportColumnMappingConfig } from "../../types/import";
+
+export type TextEncoding = NonNullable<ImportColumnMappingConfig["file_encoding"]>;
+
+// windows-1252 differs from ISO-8859-1 only in 0x80-0x9F
+const WINDOWS_1252_HIGH = [
+  0x20ac, 0x81, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021,
+  0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0x8d, 0x017d, 0x8f,
+  0x90, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014,
+  0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0x9d, 0x017e, 0x0178,
+];
+
+/**
+ * Decode an uploaded file. UTF-8 byte order marks are dropped; the
+ * single-byte encodings are decoded here rather than relying on the
+ * runtime's TextDecoder supporting them.
+ */
+export function decodeText(
+  bytes: ArrayBuffer | Uint8Array,
+  encoding: TextEncoding = "utf-8"
+): string {
+  const data = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  if (encoding === "utf-8") {
+    return new TextDecoder("utf-8").decode(data);
+  }
+
+  const chunks: string[] = [];
+  for (let start = 0; start < data.length; start += 8192) {
+    const codes = Array.from(data.subarray(start, start + 8192), (byte) =>
+      encoding === "windows-1252" && byte >= 0x80 && byte < 0xa0
+        ? WINDOWS_1252_HIGH[byte - 0x80]!
+        : byte
+    );
+    chunks.push(String.fromCharCode(...codes));
+  }
+  return chunks.join("");
+}
@@ -0,0 +1,444 @@
+// src/lib/import/import-rows.ts
+/**
+ * Staged Import Rows
+ *
+ * What an import session does with rows between parsing and the ledger.
+ * Every parser's output is staged as ImportedRowData whose mapped data
+ * uses the CSV import's target field paths (`transaction_date`,
+ * `transaction_amount`, `target_account`, ...), so statements, QIF files
+ * and mapped CSV files are checked, reviewed and booked the same way.
+ *
+ * Each row becomes one draft entry: the amount against the session's bank
+ * account, positive for money into it, and the other side against the
+ * row's target account (a chart of accounts code), its splits' accounts,
+ * or the session's counter account when the row names none.
+ */
+
+import type {
+  AppliedValidationRule,
+  ImportedRowData,
+  ImportErrorReportSummary,
+  ImportProcessingOptions,
+  ImportRowErrorDetail,
+  RowValidationOutcome,
+} from "../../types/import";
+import type { BankStatement } from "../../types/reconciliation";
+import { ValidationError } from "../../utils/errors";
+import type { TransactionData, TransactionLine } from "../accounting/core/transaction";
+import type { QifAccountSection } from "./parser.qif";
+
+/** Mapped data of a staged transaction row */
+export interface ImportTransactionFields {
+  /** YYYY-MM-DD */
+  transaction_date?: string | null;
+  /** Positive for money into the bank account */
+  transaction_amount?: number | null;
+  transaction_description?: string | null;
+  transaction_reference?: string | null;
+  payee_or_payer?: string | null;
+  category_or_memo?: string | null;
+  /** Chart of accounts code of the other side */
+  target_account?: string | number | null;
+  class_name?: string | null;
+  /** The bank's own id for the transaction (OFX FITID), for duplicate checks */
+  bank_reference?: string | null;
+  splits?: ImportTransactionSplit[] | null;
+}
+
+export interface ImportTransactionSplit {
+  target_account: string | null;
+  /** Same sign convention as the transaction amount */
+  amount: number;
+  memo: string | null;
+  class_name: string | null;
+}
+
+export interface ImportRowCheckContext {
+  /** The entity's active accounts, by chart of accounts code */
+  accountIdsByCode: ReadonlyMap<string, string>;
+  /** Account for rows that name none */
+  counterAccountId: string | null;
+  /** Bank references already imported into the session's bank account */
+  importedReferences: ReadonlySet<string>;
+  duplicateStrategy: ImportProcessingOptions["duplicate_handling_strategy"];
+}
+
+export interface ImportPostingAccounts {
+  bankAccountId: string;
+  counterAccountId: string | null;
+  accountIdsByCode: ReadonlyMap<string, string>;
+}
+
+export interface ImportRowTally {
+  total: number;
+  /** Rows that will be imported on commit */
+  ready: number;
+  failed: number;
+  skipped: number;
+}
+
+const DEFAULT_DESCRIPTION = "Imported transaction";
+const SAMPLE_ERROR_ROWS = 5;
+const MOST_COMMON_ERRORS = 10;
+const SAMPLE_DETAILED_ERRORS = 25;
+
+/**
+ * Outcomes produced by validateImportRow itself, as opposed to the column
+ * mapping's own checks. They are worked out afresh on every validation.
+ */
+const ROW_CHECK_RULES = new Set<AppliedValidationRule["rule_type"]>([
+  "required_field",
+  "foreign_key_exists",
+  "unique_value_in_column",
+  "custom_business_rule",
+]);
+const ROW_CHECK_PATHS = new Set(["transaction_date", "transaction_amount", "target_account", "bank_reference"]);
+
+function isRowCheck(outcome: RowValidationOutcome): boolean {
+  return (
+    ROW_CHECK_RULES.has(outcome.applied_rule_type) &&
+    (ROW_CHECK_PATHS.has(outcome.target_field_path) || outcome.target_field_path.startsWith("splits"))
+  );
+}
+
+function unixToDate(seconds: number): string {
+  return new Date(seconds * 1000).toISOString().slice(0, 10);
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function fieldsOf(row: ImportedRowData): ImportTransactionFields {
+  return (row.mapped_data ?? {}) as ImportTransactionFields;
+}
+
+function accountCode(value: string | number | null | undefined): string | null {
+  const code = value === null || value === undefined ? "" : String(value).trim();
+  return code === "" ? null : code;
+}
+
+/**
+ * Rows for the transactions of a parsed bank or card statement (OFX, QFX or
+ * PDF), numbered in statement order.
+ */
+export function stageStatementRows(statement: BankStatement): ImportedRowData[] {
+  return statement.transactions.map((transaction, index) => ({
+    source_row_number: index + 1,
+    raw_row_data: {
+      date: unixToDate(transaction.transaction_date),
+      description: transaction.description_original,
+      amount: transaction.amount,
+      balance: transaction.running_balance_after_txn ?? null,
+      type: transaction.transaction_type_by_bank ?? null,
+      check_number: transaction.check_number_if_any ?? null,
+      bank_reference: transaction.bank_reference_code ?? null,
+    },
+    mapped_data: {
+      transaction_date: unixToDate(transaction.transaction_date),
+      transaction_amount: transaction.amount,
+      transaction_description: transaction.description_original,
+      transaction_reference: transaction.check_number_if_any ?? null,
+      payee_or_payer: transaction.merchant_name_or_payee ?? null,
+      bank_reference: transaction.bank_reference_code ?? null,
+    } satisfies ImportTransactionFields,
+    processing_status: "pending_validation",
+  }));
+}
+
+/**
+ * Rows for one account section of a QIF file, numbered by the line each
+ * transaction starts on. Categories without a chart of accounts code are
+ * left to the session's counter account, with a warning.
+ */
+export function stageQifRows(section: QifAccountSection): ImportedRowData[] {
+  return section.transactions.map((transaction) => {
+    const warnings: string[] = [];
+    const unmapped = (name: string | null, code: string | null) => {
+      if (name && !code) warnings.push(`"${name}" has no account code; the default account is used.`);
+    };
+    if (transaction.splits.length === 0) {
+      unmapped(transaction.transferAccount ?? transaction.category, transaction.accountCode);
+    }
+    for (const split of transaction.splits) {
+      unmapped(split.transferAccount ?? split.category, split.accountCode);
+    }
+
+    return {
+      source_row_number: transaction.lineNumber,
+      raw_row_data: {
+        account: section.accountName,
+        date: transaction.date,
+        amount: transaction.amount,
+        payee: transaction.payee,
+        memo: transaction.memo,
+        number: transaction.checkNumber ?? transaction.reference,
+        category: transaction.transferAccount ? `[${transaction.transferAccount}]` : transaction.category,
+        splits: transaction.splits.length,
+      },
+      mapped_data: {
+        transaction_date: transaction.date,
+        transaction_amount: transaction.amount,
+        transaction_description: transaction.payee ?? transaction.memo,
+        transaction_reference: transaction.checkNumber ?? transaction.reference,
+        payee_or_payer: transaction.payee,
+        category_or_memo: transaction.memo,
+        target_account: transaction.accountCode,
+        class_name: transaction.className,
+        splits: transaction.splits.length
+          ? transaction.splits.map((split) => ({
+              target_account: split.accountCode,
+              amount: split.amount,
+              memo: split.memo,
+              class_name: split.className,
+            }))
+          : null,
+      } satisfies ImportTransactionFields,
+      processing_status: "pending_validation",
+      warning_messages: warnings,
+    };
+  });
+}
+
+/**
+ * Check that a row can be booked: it has a date and a non-zero amount, its
+ * accounts exist, its splits add up, and it was not imported before. Rows
+ * set to be skipped are not checked. Checks from the column mapping are
+ * kept; this function's own are replaced, so a row can be validated again
+ * after it is edited.
+ */
+export function validateImportRow(row: ImportedRowData, context: ImportRowCheckContext): ImportedRowData {
+  if (row.determined_import_action === "skip_row") {
+    return { ...row, processing_status: "skipped_by_rule" };
+  }
+
+  const fields = fieldsOf(row);
+  const outcomes = (row.validation_results ?? []).filter((outcome) => !isRowCheck(outcome));
+  const failedPaths = new Set(
+    outcomes
+      .filter((outcome) => outcome.severity_level === "error_halts_import")
+      .map((outcome) => outcome.target_field_path)
+  );
+  const check = (
+    path: string,
+    rule: AppliedValidationRule["rule_type"],
+    message: string,
+    value: unknown,
+    severity: AppliedValidationRule["severity_level"] = "error_halts_import"
+  ) => {
+    outcomes.push({
+      target_field_path: path,
+      applied_rule_type: rule,
+      passed_validation: false,
+      message,
+      severity_level: severity,
+      validated_value: value,
+    });
+  };
+
+  let action: ImportedRowData["determined_import_action"] = "create_new";
+  const reference = fields.bank_reference ?? null;
+  if (reference !== null && context.importedReferences.has(reference)) {
+    const message = `bank_reference "${reference}" was imported before`;
+    switch (context.duplicateStrategy) {
+      case "fail_on_duplicate":
+        check("bank_reference", "unique_value_in_column", message, reference);
+        break;
+      case "skip_duplicates":
+      case "update_existing":
+        // Imported entries are never changed by a later import
+        check("bank_reference", "unique_value_in_column", `${message}; the row is skipped`, reference, "warning_allows_import");
+        action = "skip_row";
+        break;
+      case "create_new_with_suffix":
+        check("bank_reference", "unique_value_in_column", `${message}; it is imported again`, reference, "warning_allows_import");
+        break;
+    }
+  }
+
+  // A row imported before is skipped whatever else is wrong with it
+  if (action !== "skip_row") {
+    if (!fields.transaction_date && !failedPaths.has("transaction_date")) {
+      check("transaction_date", "required_field", "transaction_date is required", null);
+    }
+    const amount = fields.transaction_amount ?? null;
+    if (amount === null) {
+      if (!failedPaths.has("transaction_amount")) {
+        check("transaction_amount", "required_field", "transaction_amount is required", null);
+      }
+    } else if (round2(amount) === 0) {
+      check("transaction_amount", "custom_business_rule", "transaction_amount is zero", amount);
+    }
+
+    const checkAccount = (path: string, value: string | number | null | undefined) => {
+      const code = accountCode(value);
+      if (code !== null && !context.accountIdsByCode.has(code)) {
+        check(path, "foreign_key_exists", `${path}: the entity has no active account with code "${code}"`, code);
+      } else if (code === null && !context.counterAccountId) {
+        check(path, "required_field", `${path} is required when no default account is chosen`, null);
+      }
+    };
+    const splits = fields.splits ?? [];
+    if (splits.length === 0) {
+      checkAccount("target_account", fields.target_account);
+    } else {
+      splits.forEach((split, index) => checkAccount(`splits.${index}.target_account`, split.target_account));
+      const total = round2(splits.reduce((sum, split) => sum + split.amount, 0));
+      if (amount !== null && total !== round2(amount)) {
+        check(
+          "splits",
+          "custom_business_rule",
+          `splits add up to ${total.toFixed(2)}, not the transaction amount of ${round2(amount).toFixed(2)}`,
+          total
+        );
+      }
+    }
+  }
+
+  const errors = outcomes
+    .filter((outcome) => outcome.severity_level === "error_halts_import")
+    .map((outcome) => outcome.message ?? "");
+  // Warnings given when the row was staged stay; those of checks are redone
+  const previousChecks = new Set((row.validation_results ?? []).map((outcome) => outcome.message));
+  const warnings = [
+    ...new Set([
+      ...(row.warning_messages ?? []).filter((message) => !previousChecks.has(message)),
+      ...outcomes
+        .filter((outcome) => outcome.severity_level === "warning_allows_import")
+        .map((outcome) => outcome.message ?? ""),
+    ]),
+  ];
+
+  const { determined_import_action: _previous, ...rest } = row;
+  return {
+    ...rest,
+    validation_results: outcomes,
+    ...(errors.length === 0 || action === "skip_row" ? { determined_import_action: action } : {}),
+    processing_status:
+      action === "skip_row"
+        ? "skipped_by_rule"
+        : errors.length > 0
+          ? "validated_with_errors"
+          : warnings.length > 0
+            ? "validated_with_warnings"
+            : "validated_ok",
+    error_messages: errors,
+    warning_messages: warnings,
+  };
+}
+
+/**
+ * The draft entry for a validated row.
+ *
+ * @throws ValidationError if the row cannot be booked as it stands
+ */
+export function buildImportEntry(
+  row: ImportedRowData,
+  entityId: string,
+  accounts: ImportPostingAccounts
+): TransactionData {
+  const fields = fieldsOf(row);
+  const amount = fields.transaction_amount ?? null;
+  if (!fields.transaction_date || amount === null || round2(amount) === 0) {
+    throw new ValidationError(`Row ${row.source_row_number} has no date or amount to import.`);
+  }
+
+  const accountFor = (value: string | number | null | undefined): string => {
+    const code = accountCode(value);
+    const accountId = code !== null ? accounts.accountIdsByCode.get(code) : accounts.counterAccountId;
+    if (!accountId) {
+      throw new ValidationError(`Row ${row.source_row_number} has no account for the other side of the entry.`);
+    }
+    return accountId;
+  };
+  const line = (
+    accountId: string,
+    value: number,
+    isDebit: boolean,
+    memo: string | null | undefined,
+    className?: string | null
+  ): TransactionLine => ({
+    id: crypto.randomUUID(),
+    accountId,
+    amount: Math.abs(value).toFixed(2),
+    isDebit,
+    ...(memo ? { description: memo } : {}),
+    ...(className ? { dimensions: { className } } : {}),
+  });
+
+  // Money in debits the bank account and credits the other side
+  const splits = fields.splits?.length
+    ? fields.splits
+    : [{ target_account: accountCode(fields.target_account), amount, memo: fields.category_or_memo ?? null, class_name: fields.class_name ?? null }];
+  return {
+    id: crypto.randomUUID(),
+    date: new Date(`${fields.transaction_date}T00:00:00.000Z`),
+    description: fields.transaction_description || fields.payee_or_payer || DEFAULT_DESCRIPTION,
+    entityId,
+    status: "draft",
+    ...(fields.transaction_reference || fields.bank_reference
+      ? { reference: String(fields.transaction_reference || fields.bank_reference) }
+      : {}),
+    lines: [
+      line(accounts.bankAccountId, amount, amount > 0, fields.payee_or_payer),
+      ...splits.map((split) =>
+        line(accountFor(split.target_account), split.amount, split.amount < 0, split.memo, split.class_name)
+      ),
+    ],
+  };
+}
+
+export function tallyImportRows(rows: ImportedRowData[]): ImportRowTally {
+  const tally: ImportRowTally = { total: rows.length, ready: 0, failed: 0, skipped: 0 };
+  for (const row of rows) {
+    if (row.determined_import_action === "skip_row") tally.skipped++;
+    else if (row.processing_status === "validated_with_errors" || row.processing_status === "import_failed") tally.failed++;
+    else if (row.determined_import_action === "create_new") tally.ready++;
+  }
+  return tally;
+}
+
+/**
+ * The errors that stop rows from being imported, grouped by kind and by
+ * message. Null when there are none.
+ */
+export function summarizeImportErrors(rows: ImportedRowData[]): ImportErrorReportSummary | null {
+  const details: ImportRowErrorDetail[] = [];
+  for (const row of rows) {
+    if (row.determined_import_action === "skip_row") continue;
+    for (const outcome of row.validation_results ?? []) {
+      if (outcome.severity_level !== "error_halts_import") continue;
+      details.push({
+        source_row_number: row.source_row_number,
+        problem_column_header: outcome.target_field_path,
+        error_type_code: outcome.applied_rule_type.toUpperCase(),
+        full_error_message: outcome.message ?? outcome.target_field_path,
+        original_cell_value: outcome.validated_value ?? null,
+      });
+    }
+  }
+  if (details.length === 0) return null;
+
+  const byType: Record<string, number> = {};
+  const byMessage = new Map<string, number[]>();
+  for (const detail of details) {
+    byType[detail.error_type_code] = (byType[detail.error_type_code] ?? 0) + 1;
+    const rowNumbers = byMessage.get(detail.full_error_message) ?? [];
+    rowNumbers.push(detail.source_row_number);
+    byMessage.set(detail.full_error_message, rowNumbers);
+  }
+
+  return {
+    total_errors_found: details.length,
+    errors_by_type_count: byType,
+    most_common_errors: [...byMessage]
+      .sort(([, a], [, b]) => b.length - a.length)
+      .slice(0, MOST_COMMON_ERRORS)
+      .map(([message, rowNumbers]) => ({
+        error_message_template: message,
+        occurrence_count: rowNumbers.length,
+        sample_affected_row_numbers: rowNumbers.slice(0, SAMPLE_ERROR_ROWS),
+      })),
+    sample_detailed_errors: details.slice(0, SAMPLE_DETAILED_ERRORS),
+  };
+}
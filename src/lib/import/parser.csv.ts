@@ -0,0 +1,652 @@
+// src/lib/import/parser.csv.ts
+/**
+ * CSV Bank-File Import
+ *
+ * Reads a bank's CSV export into rows ready for review and import. What
+ * each bank does differently is described by an ImportColumnMappingConfig
+ * rather than code: which columns hold the date, the amount (or separate
+ * debit and credit columns), the description and so on, how each column
+ * is cleaned and parsed, which rows to skip, the file's encoding and
+ * delimiter, and where its header and data start.
+ *
+ * Mapped values are keyed by target field path: the mapping's key without
+ * its `_column` suffix (`transaction_date`, `transaction_amount`, ...), or
+ * `custom_fields.<name>` for custom field mappings. Value transformation
+ * rules, default values and validation rules refer to fields by the same
+ * path. Dates are mapped to YYYY-MM-DD and amounts to numbers, positive for
+ * money into the account.
+ */
+
+import Papa from "papaparse";
+import type {
+  AppliedValidationRule,
+  DataCleaningTransform,
+  ImportColumnMappingConfig,
+  ImportedRowData,
+  ImportProcessingOptions,
+  RowSkipCondition,
+  RowValidationOutcome,
+  SourceColumnDefinition,
+} from "../../types/import";
+import { ValidationError } from "../../utils/errors";
+import { decodeText } from "./encoding";
+
+/** How a file writes numbers */
+export interface NumberFormat {
+  decimalSeparator: "." | ",";
+  thousandsSeparator: "," | "." | " " | "";
+}
+
+export interface CsvImportOptions {
+  mapping: ImportColumnMappingConfig;
+  /** Number separators and the date format of columns without their own */
+  processingOptions?: ImportProcessingOptions | null | undefined;
+  validationRules?: AppliedValidationRule[] | null | undefined;
+}
+
+/** A CSV file split into cells */
+export interface CsvTable {
+  /** Column headers; columns without one are named by number ("1", "2", ...) */
+  headers: string[];
+  /** Non-blank data rows, with their 1-indexed row number in the file */
+  records: Array<{ rowNumber: number; cells: string[] }>;
+  delimiter: string;
+}
+
+export interface CsvImportResult {
+  headers: string[];
+  delimiter: string;
+  rows: ImportedRowData[];
+}
+
+/** A mapped column and where its value goes */
+interface FieldPlan {
+  path: string;
+  column: number;
+  definition: SourceColumnDefinition;
+  /** Debit and credit columns make up transaction_amount between them */
+  side?: "debit" | "credit";
+}
+
+const AMOUNT_PATH = "transaction_amount";
+const ISO_DATE_FORMAT = "YYYY-MM-DD";
+const STANDARD_NUMBER_FORMAT: NumberFormat = { decimalSeparator: ".", thousandsSeparator: "" };
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/** A value in a row that cannot be mapped; the row is reported, not the file */
+class FieldValueError extends Error {}
+
+/**
+ * Split a CSV file into its header and data rows. The delimiter is
+ * detected unless the mapping gives one. A negative header_row_index reads
+ * a file without a header row.
+ */
+export function readCsv(
+  text: string,
+  mapping: Pick<ImportColumnMappingConfig, "header_row_index" | "data_start_row_index" | "delimiter_character"> = {}
+): CsvTable {
+  const parsed = Papa.parse<string[]>(text.replace(/^\uFEFF/, ""), {
+    delimiter: mapping.delimiter_character ?? "",
+    skipEmptyLines: false,
+  });
+  const quoteError = parsed.errors.find((error) => error.type === "Quotes");
+  if (quoteError) {
+    throw new ValidationError(
+      `CSV row ${(quoteError.row ?? 0) + 1}: ${quoteError.message}.`
+    );
+  }
+
+  const headerIndex = mapping.header_row_index ?? 0;
+  const dataStart = mapping.data_start_row_index ?? headerIndex + 1;
+  const headerCells = headerIndex >= 0 ? parsed.data[headerIndex] : [];
+  if (!headerCells) {
+    throw new ValidationError(`The file has no row ${headerIndex + 1} to read column headers from.`);
+  }
+
+  const records = parsed.data
+    .slice(dataStart)
+    .map((cells, i) => ({ rowNumber: dataStart + i + 1, cells }))
+    .filter(({ cells }) => cells.some((cell) => cell.trim() !== ""));
+  const width = records.reduce((max, { cells }) => Math.max(max, cells.length), headerCells.length);
+
+  return {
+    headers: Array.from({ length: width }, (_, i) => headerCells[i]?.trim() || String(i + 1)),
+    records,
+    delimiter: parsed.meta.delimiter,
+  };
+}
+
+/**
+ * Parse an amount as a bank writes it: currency symbols, thousands
+ * separators, a decimal comma, and negatives as "-12.50", "12.50-" or
+ * "(12.50)". Returns null for an empty cell.
+ */
+export function parseAmount(input: string, format: NumberFormat): number | null {
+  let text = input.trim().replace(/−/g, "-");
+  if (text === "") return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith("-")) {
+    negative = !negative;
+    text = text.slice(0, -1);
+  }
+
+  text = text.replace(/[\s '’]/g, "").replace(/[^\d.,+-]/g, "");
+  if (format.thousandsSeparator && format.thousandsSeparator !== " ") {
+    text = text.split(format.thousandsSeparator).join("");
+  }
+  if (format.decimalSeparator === ",") {
+    text = text.replace(",", ".");
+  }
+  if (!/^[+-]?(\d+(\.\d*)?|\.\d+)$/.test(text)) {
+    throw new FieldValueError(`"${input.trim()}" is not an amount`);
+  }
+  const value = Number(text);
+  return negative ? -value : value;
+}
+
+function twoDigitYear(year: number): number {
+  return year < 70 ? 2000 + year : 1900 + year;
+}
+
+/**
+ * Parse a date written in the given format, e.g. "MM/DD/YYYY",
+ * "DD.MM.YY", "YYYYMMDD" or "DD-MMM-YYYY" (month names). Days and months
+ * may drop their leading zero unless the format has no separators. A time
+ * after the date is ignored. Returns YYYY-MM-DD, or null if the text is
+ * not a valid date in that format.
+ */
+export function parseDateString(input: string, format?: string | null): string | null {
+  const pattern = !format || format.toUpperCase() === "ISO8601" ? ISO_DATE_FORMAT : format;
+  const compact = !/[^YMD]/i.test(pattern);
+  const tokens: string[] = [];
+  let source = "";
+  for (let i = 0; i < pattern.length; ) {
+    const token = /^(YYYY|YY|MMMM|MMM|MM|M|DD|D)/.exec(pattern.slice(i).toUpperCase())?.[0];
+    if (token) {
+      tokens.push(token);
+      source +=
+        token === "YYYY" ? "(\\d{4})"
+        : token === "YY" ? "(\\d{2})"
+        : token === "MMMM" ? "([A-Za-z]{3,})"
+        : token === "MMM" ? "([A-Za-z]{3})"
+        : compact && token.length === 2 ? "(\\d{2})"
+        : "(\\d{1,2})";
+      i += token.length;
+    } else {
+      source += pattern[i]!.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      i++;
+    }
+  }
+
+  const match = new RegExp(`^${source}(?:[ T].*)?$`, "i").exec(input.trim());
+  if (!match) return null;
+
+  let year = NaN;
+  let month = NaN;
+  let day = NaN;
+  tokens.forEach((token, index) => {
+    const part = match[index + 1]!;
+    if (token === "YYYY") year = Number(part);
+    else if (token === "YY") year = twoDigitYear(Number(part));
+    else if (token.startsWith("MMM")) month = MONTH_NAMES.indexOf(part.slice(0, 3).toLowerCase()) + 1;
+    else if (token.startsWith("M")) month = Number(part);
+    else day = Number(part);
+  });
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    !(month >= 1 && month <= 12) ||
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+const regexCache = new Map<string, RegExp>();
+
+function compileRegex(pattern: unknown, flags = ""): RegExp {
+  const key = `${flags}/${String(pattern)}`;
+  let regex = regexCache.get(key);
+  if (!regex) {
+    try {
+      regex = new RegExp(String(pattern ?? ""), flags);
+    } catch {
+      throw new ValidationError(`Invalid regular expression in the import mapping: ${String(pattern)}`);
+    }
+    regexCache.set(key, regex);
+  }
+  return regex;
+}
+
+/** Index of a column given by header (case-insensitive) or 0-based index */
+function resolveColumn(column: string | number, headers: string[]): number | null {
+  if (typeof column === "number") {
+    return column >= 0 && column < headers.length ? column : null;
+  }
+  const wanted = column.trim().toLowerCase();
+  const index = headers.findIndex((header) => header.toLowerCase() === wanted);
+  return index >= 0 ? index : null;
+}
+
+function getPath(data: Record<string, unknown>, path: string): unknown {
+  const [head, rest] = path.split(/\.(.*)/s);
+  const value = data[head!];
+  return rest ? (value as Record<string, unknown> | undefined)?.[rest] : value;
+}
+
+function setPath(data: Record<string, unknown>, path: string, value: unknown): void {
+  const [head, rest] = path.split(/\.(.*)/s);
+  if (!rest) {
+    data[head!] = value;
+    return;
+  }
+  const nested = (data[head!] ?? {}) as Record<string, unknown>;
+  nested[rest] = value;
+  data[head!] = nested;
+}
+
+/**
+ * Where each mapped column is in the file. Columns the file doesn't have
+ * are a mapping problem, reported once rather than on every row.
+ */
+function planFields(mapping: ImportColumnMappingConfig, headers: string[]): FieldPlan[] {
+  const definitions: Array<Omit<FieldPlan, "column">> = [];
+  for (const [key, definition] of Object.entries(mapping)) {
+    if (!key.endsWith("_column") || !definition) continue;
+    const side =
+      key === "debit_amount_column" ? "debit" : key === "credit_amount_column" ? "credit" : null;
+    definitions.push({
+      path: side ? AMOUNT_PATH : key.replace(/_column$/, ""),
+      definition: definition as SourceColumnDefinition,
+      ...(side ? { side } : {}),
+    });
+  }
+  for (const [name, definition] of Object.entries(mapping.custom_field_mappings ?? {})) {
+    definitions.push({ path: `custom_fields.${name}`, definition });
+  }
+
+  const missing: string[] = [];
+  const fields = definitions.flatMap((field) => {
+    const column = resolveColumn(field.definition.source_column_header_or_index, headers);
+    if (column === null) {
+      missing.push(String(field.definition.source_column_header_or_index));
+      return [];
+    }
+    return [{ ...field, column }];
+  });
+  if (missing.length > 0) {
+    throw new ValidationError(
+      `The file has no column ${missing.map((c) => `"${c}"`).join(", ")} (its columns are ${headers.map((h) => `"${h}"`).join(", ")}).`
+    );
+  }
+  return fields;
+}
+
+function compileSkipCondition(
+  condition: RowSkipCondition,
+  headers: string[]
+): (cells: string[]) => boolean {
+  const column = resolveColumn(condition.source_column_header_or_index, headers);
+  if (column === null) {
+    throw new ValidationError(
+      `The file has no column "${condition.source_column_header_or_index}" to skip rows by.`
+    );
+  }
+  const caseSensitive = condition.is_case_sensitive ?? false;
+  const normalize = (value: string) => (caseSensitive ? value : value.toLowerCase());
+  const comparison = normalize(String(condition.comparison_value ?? "").trim());
+  const regex =
+    condition.condition_operator === "matches_regex"
+      ? compileRegex(condition.comparison_value, caseSensitive ? "" : "i")
+      : null;
+
+  return (cells) => {
+    const value = (cells[column] ?? "").trim();
+    switch (condition.condition_operator) {
+      case "is_empty":
+        return value === "";
+      case "is_not_empty":
+        return value !== "";
+      case "equals_value":
+        return normalize(value) === comparison;
+      case "not_equals_value":
+        return normalize(value) !== comparison;
+      case "contains_text":
+        return normalize(value).includes(comparison);
+      case "does_not_contain_text":
+        return !normalize(value).includes(comparison);
+      case "matches_regex":
+        return regex!.test(value);
+    }
+  };
+}
+
+/** The formats a value is read in, as changed by its transforms */
+interface ValueFormats {
+  number: NumberFormat;
+  date: string | null | undefined;
+}
+
+function applyTransform(value: string, transform: DataCleaningTransform, formats: ValueFormats): string {
+  const config = transform.config ?? {};
+  switch (transform.type) {
+    case "to_uppercase":
+      return value.toUpperCase();
+    case "to_lowercase":
+      return value.toLowerCase();
+    case "trim_whitespace":
+      return value.trim().replace(/\s+/g, " ");
+    case "replace_text": {
+      const find = String(config.find ?? "");
+      if (find === "") return value;
+      const flags = config.case_sensitive === false ? "gi" : "g";
+      return value.replace(
+        compileRegex(find.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), flags),
+        () => String(config.replace_with ?? "")
+      );
+    }
+    case "regex_extract_replace": {
+      const regex = compileRegex(config.pattern, String(config.flags ?? ""));
+      if (config.replacement !== undefined && config.replacement !== null) {
+        return value.replace(regex, String(config.replacement));
+      }
+      // Without a replacement, keep the first group (or the whole match)
+      const match = value.match(regex);
+      return match ? (match[1] ?? match[0]) : "";
+    }
+    case "parse_date_from_string": {
+      if (value.trim() === "") return "";
+      const format = config.format ?? formats.date;
+      const date = parseDateString(value, format);
+      if (date === null) {
+        throw new FieldValueError(`"${value.trim()}" is not a date in the format ${format ?? ISO_DATE_FORMAT}`);
+      }
+      formats.date = ISO_DATE_FORMAT;
+      return date;
+    }
+    case "parse_number_from_string": {
+      const amount = parseAmount(value, {
+        decimalSeparator: config.decimal_separator ?? formats.number.decimalSeparator,
+        thousandsSeparator: config.thousands_separator ?? formats.number.thousandsSeparator,
+      });
+      formats.number = STANDARD_NUMBER_FORMAT;
+      return amount === null ? "" : String(amount);
+    }
+    case "split_column": {
+      const parts = value.split(String(config.separator ?? " "));
+      return parts[Number(config.part_index ?? 0)] ?? "";
+    }
+    case "custom_script":
+      throw new FieldValueError("custom script transforms are not supported; use a regex transform instead");
+  }
+}
+
+const TRUE_VALUES = new Set(["true", "yes", "y", "1", "x"]);
+const FALSE_VALUES = new Set(["false", "no", "n", "0"]);
+
+/**
+ * Clean, transform and convert one cell to its mapped value.
+ */
+function mapValue(
+  raw: string,
+  field: FieldPlan,
+  mapping: ImportColumnMappingConfig,
+  formats: ValueFormats
+): unknown {
+  const { definition } = field;
+  let value = raw;
+  for (const transform of definition.data_cleaning_transforms ?? []) {
+    value = applyTransform(value, transform, formats);
+  }
+
+  const rule = (mapping.value_transformation_rules?.[field.path] ?? []).find((candidate) =>
+    candidate.source_input_values.some((input) =>
+      candidate.match_is_case_sensitive
+        ? input.trim() === value.trim()
+        : input.trim().toLowerCase() === value.trim().toLowerCase()
+    )
+  );
+  if (rule) {
+    if (typeof rule.mapped_target_value !== "string") return rule.mapped_target_value;
+    value = rule.mapped_target_value;
+  }
+
+  const text = value.trim();
+  if (text === "") return null;
+  const dataType = field.side ? "currency_decimal" : definition.expected_data_type;
+  switch (dataType) {
+    case "string":
+      return text;
+    case "number":
+      return parseAmount(text, formats.number);
+    case "currency_decimal": {
+      const amount = parseAmount(text, formats.number);
+      return amount === null ? null : Math.round(amount * 100) / 100;
+    }
+    case "date": {
+      const date = parseDateString(text, formats.date);
+      if (date === null) {
+        throw new FieldValueError(`"${text}" is not a date in the format ${formats.date ?? ISO_DATE_FORMAT}`);
+      }
+      return date;
+    }
+    case "boolean": {
+      if (TRUE_VALUES.has(text.toLowerCase())) return true;
+      if (FALSE_VALUES.has(text.toLowerCase())) return false;
+      throw new FieldValueError(`"${text}" is not yes or no`);
+    }
+  }
+}
+
+function failure(
+  path: string,
+  ruleType: RowValidationOutcome["applied_rule_type"],
+  message: string,
+  severity: RowValidationOutcome["severity_level"],
+  value: unknown
+): RowValidationOutcome {
+  return {
+    target_field_path: path,
+    applied_rule_type: ruleType,
+    passed_validation: false,
+    message,
+    severity_level: severity,
+    validated_value: value,
+  };
+}
+
+/**
+ * Check a mapped value against a validation rule; returns why it fails,
+ * or null. Rules that need the database (foreign_key_exists,
+ * custom_business_rule) are checked when the rows are imported.
+ */
+function checkRule(rule: AppliedValidationRule, value: unknown, seen: Set<string>): string | null {
+  const params = rule.config_params ?? {};
+  if (rule.rule_type === "required_field") {
+    return value === null || value === undefined || value === "" ? "is required" : null;
+  }
+  if (value === null || value === undefined) return null;
+
+  switch (rule.rule_type) {
+    case "data_type_check": {
+      const expected = String(params.type ?? "string");
+      const ok =
+        expected === "date"
+          ? typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)
+          : typeof value === expected;
+      return ok ? null : `must be a ${expected}`;
+    }
+    case "value_range": {
+      const { min, max } = params;
+      if (min !== undefined && min !== null && (value as number) < min) return `must be at least ${min}`;
+      if (max !== undefined && max !== null && (value as number) > max) return `must be at most ${max}`;
+      return null;
+    }
+    case "max_length":
+      return String(value).length > Number(params.max ?? Infinity)
+        ? `must be at most ${params.max} characters`
+        : null;
+    case "pattern_match":
+      return compileRegex(params.pattern, String(params.flags ?? "")).test(String(value))
+        ? null
+        : "does not match the expected pattern";
+    case "unique_value_in_column": {
+      const key = String(value);
+      if (seen.has(key)) return `"${key}" appears on more than one row`;
+      seen.add(key);
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Read a CSV bank file into import rows according to a column mapping.
+ * Rows that match a skip condition are kept as skipped; every other row
+ * carries its mapped data and the checks it failed.
+ *
+ * @param input The file's text, or its bytes in mapping.file_encoding
+ * @throws ValidationError when the file or the mapping cannot be used at all
+ */
+export function parseCsvImport(
+  input: string | ArrayBuffer | Uint8Array,
+  options: CsvImportOptions
+): CsvImportResult {
+  const { mapping, processingOptions } = options;
+  const validationRules = options.validationRules ?? [];
+  const text = typeof input === "string" ? input : decodeText(input, mapping.file_encoding);
+  const table = readCsv(text, mapping);
+
+  const decimalSeparator = processingOptions?.decimal_separator_character ?? ".";
+  const numberFormat: NumberFormat = {
+    decimalSeparator,
+    thousandsSeparator:
+      processingOptions?.thousands_separator_character ?? (decimalSeparator === "," ? "." : ","),
+  };
+  const fields = planFields(mapping, table.headers);
+  const skipConditions = (mapping.row_skip_conditions ?? []).map((condition) =>
+    compileSkipCondition(condition, table.headers)
+  );
+  const uniqueValues = validationRules.map(() => new Set<string>());
+
+  const rows = table.records.map(({ rowNumber, cells }): ImportedRowData => {
+    const raw_row_data = Object.fromEntries(
+      table.headers.map((header, i) => [header, cells[i] ?? ""])
+    );
+    if (skipConditions.some((matches) => matches(cells))) {
+      return {
+        source_row_number: rowNumber,
+        raw_row_data,
+        determined_import_action: "skip_row",
+        processing_status: "skipped_by_rule",
+      };
+    }
+
+    const mapped: Record<string, unknown> = {};
+    const outcomes: RowValidationOutcome[] = [];
+    const failedPaths = new Set<string>();
+    let debit: number | null = null;
+    let credit: number | null = null;
+
+    for (const field of fields) {
+      const raw = cells[field.column] ?? "";
+      let value: unknown = null;
+      try {
+        value = mapValue(raw, field, mapping, {
+          number: numberFormat,
+          date: field.definition.date_format_if_string ?? processingOptions?.date_format_interpretation,
+        });
+      } catch (error) {
+        if (!(error instanceof FieldValueError)) throw error;
+        failedPaths.add(field.path);
+        outcomes.push(
+          failure(field.path, "data_type_check", `${field.path}: ${error.message}`, "error_halts_import", raw)
+        );
+      }
+
+      if (field.side === "debit") debit = value as number | null;
+      else if (field.side === "credit") credit = value as number | null;
+      else setPath(mapped, field.path, value);
+    }
+
+    // Split debit/credit columns: money out is negative, whatever the sign
+    // the bank wrote it with
+    if (fields.some((field) => field.side) && (getPath(mapped, AMOUNT_PATH) ?? null) === null) {
+      setPath(
+        mapped,
+        AMOUNT_PATH,
+        debit === null && credit === null
+          ? null
+          : Math.round((Math.abs(credit ?? 0) - Math.abs(debit ?? 0)) * 100) / 100
+      );
+    }
+
+    for (const [path, value] of Object.entries(mapping.default_field_values ?? {})) {
+      if ((getPath(mapped, path) ?? null) === null) setPath(mapped, path, value);
+    }
+
+    for (const field of fields) {
+      if (
+        field.definition.is_required_for_import &&
+        !failedPaths.has(field.path) &&
+        (getPath(mapped, field.path) ?? null) === null
+      ) {
+        failedPaths.add(field.path);
+        outcomes.push(
+          failure(field.path, "required_field", `${field.path} is required`, "error_halts_import", null)
+        );
+      }
+    }
+
+    validationRules.forEach((rule, index) => {
+      if (failedPaths.has(rule.target_field_path)) return;
+      const value = getPath(mapped, rule.target_field_path);
+      const problem = checkRule(rule, value, uniqueValues[index]!);
+      if (problem) {
+        outcomes.push(
+          failure(
+            rule.target_field_path,
+            rule.rule_type,
+            rule.custom_error_message ?? `${rule.target_field_path} ${problem}`,
+            rule.severity_level,
+            value
+          )
+        );
+      }
+    });
+
+    const errors = outcomes
+      .filter((outcome) => outcome.severity_level === "error_halts_import")
+      .map((outcome) => outcome.message ?? "");
+    const warnings = outcomes
+      .filter((outcome) => outcome.severity_level === "warning_allows_import")
+      .map((outcome) => outcome.message ?? "");
+
+    return {
+      source_row_number: rowNumber,
+      raw_row_data,
+      mapped_data: mapped,
+      validation_results: outcomes,
+      ...(errors.length === 0 ? { determined_import_action: "create_new" as const } : {}),
+      processing_status:
+        errors.length > 0
+          ? "validated_with_errors"
+          : warnings.length > 0
+            ? "validated_with_warnings"
+            : "validated_ok",
+      error_messages: errors,
+      warning_messages: warnings,
+    };
+  });
+
+  return { headers: table.headers, delimiter: table.delimiter, rows };
+}
@@ -0,0 +1,402 @@
+// src/lib/import/parser.ofx.ts
+/**
+ * OFX / QFX Statement Import
+ *
+ * Reads bank and credit card statement downloads in Open Financial Exchange
+ * format into bank statements: version 1.x, which is SGML with the closing
+ * tags of elements left out, and version 2.x, which is XML. QFX is OFX with
+ * a few Intuit elements added and is read the same way.
+ *
+ * Each transaction's FITID, the bank's unique id for it within the account,
+ * is kept as its bank reference code so a download that overlaps an earlier
+ * one can be imported without duplicating transactions. The statement's
+ * ending balance is its LEDGERBAL; OFX does not carry an opening balance,
+ * so it is the ending balance less the transactions in the statement.
+ */
+
+import type { BankStatement, BankTransaction } from "../../types/reconciliation";
+import { ValidationError } from "../../utils/errors";
+import { decodeText, type TextEncoding } from "./encoding";
+
+export interface OfxImportOptions {
+  /** ID of the cash account the statements are for, when already known */
+  accountId?: string | undefined;
+  userId: string;
+  /** Used when the file does not name the financial institution */
+  bankName?: string | undefined;
+}
+
+/** An OFX aggregate or element */
+interface OfxNode {
+  name: string;
+  /** Text of an element; null for aggregates */
+  value: string | null;
+  children: OfxNode[];
+}
+
+type BankTransactionType = NonNullable<BankTransaction["transaction_type_by_bank"]>;
+
+const TRANSACTION_TYPES: Record<string, BankTransactionType> = {
+  CREDIT: "credit",
+  DEBIT: "debit",
+  INT: "interest",
+  DIV: "interest",
+  FEE: "fee",
+  SRVCHG: "fee",
+  DEP: "direct_deposit",
+  DIRECTDEP: "direct_deposit",
+  ATM: "atm",
+  POS: "pos",
+  XFER: "transfer",
+  CHECK: "debit",
+  PAYMENT: "debit",
+  CASH: "atm",
+  DIRECTDEBIT: "debit",
+  REPEATPMT: "debit",
+  HOLD: "other",
+  OTHER: "other",
+};
+
+/**
+ * Elements (as opposed to aggregates) that appear in statement downloads.
+ * An element left empty in version 1.x has neither text nor a closing tag,
+ * so it is recognised by name to keep it from taking in what follows.
+ */
+const OFX_ELEMENTS = new Set([
+  "CODE", "SEVERITY", "MESSAGE", "DTSERVER", "LANGUAGE", "ORG", "FID", "TRNUID",
+  "INTU.BID", "INTU.USERID", "CURDEF", "BANKID", "BRANCHID", "ACCTID", "ACCTTYPE",
+  "DTSTART", "DTEND", "TRNTYPE", "DTPOSTED", "DTUSER", "DTAVAIL", "TRNAMT", "FITID",
+  "CORRECTFITID", "CORRECTACTION", "SRVRTID", "CHECKNUM", "REFNUM", "SIC", "PAYEEID",
+  "NAME", "MEMO", "CURSYM", "CURRATE", "BALAMT", "DTASOF",
+]);
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith("#")) {
+      const code = entity[1] === "x" || entity[1] === "X"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Work out the encoding from the file's header: the SGML header's CHARSET
+ * and ENCODING, or the XML declaration. Version 2.x files default to UTF-8.
+ */
+function detectEncoding(bytes: Uint8Array): TextEncoding {
+  const header = decodeText(bytes.subarray(0, 1024), "iso-8859-1").toUpperCase();
+  if (/ENCODING\s*[:=]\s*"?UTF-?8/.test(header)) {
+    return "utf-8";
+  }
+  if (/CHARSET\s*:\s*1252/.test(header)) {
+    return "windows-1252";
+  }
+  if (/CHARSET\s*:\s*(ISO-?8859-?1|8859-1)/.test(header)) {
+    return "iso-8859-1";
+  }
+  return header.includes("<?XML") || header.includes("OFXHEADER=") ? "utf-8" : "windows-1252";
+}
+
+/**
+ * Parse the body of an OFX file into a tree. In version 1.x an element's
+ * closing tag is optional, so an element ends at its text, or at the next
+ * tag when it is empty; aggregates are always closed. Closing tags that
+ * match nothing open are ignored.
+ */
+function parseOfxTree(text: string): OfxNode {
+  const start = text.search(/<OFX>/i);
+  if (start < 0) {
+    throw new ValidationError("The file is not an OFX or QFX file: it has no <OFX> element.");
+  }
+
+  const root: OfxNode = { name: "#root", value: null, children: [] };
+  const stack: OfxNode[] = [root];
+  const tokens = /<(\/?)([A-Za-z0-9_.]+)[^>]*?(\/?)>|([^<]+)/g;
+  const body = text.slice(start);
+
+  for (const [, closing, name, selfClosing, content] of body.matchAll(tokens)) {
+    const top = stack[stack.length - 1]!;
+    if (content !== undefined) {
+      const value = content.trim();
+      if (value && top !== root && top.value === null && top.children.length === 0) {
+        top.value = decodeEntities(value);
+        stack.pop();
+      }
+    } else if (closing) {
+      const tagName = name!.toUpperCase();
+      let index = stack.length - 1;
+      while (index > 0 && stack[index]!.name !== tagName) {
+        index--;
+      }
+      if (index > 0) {
+        stack.length = index;
+      }
+    } else {
+      // An empty element still open ends where the next one starts
+      if (OFX_ELEMENTS.has(top.name) && top.value === null && top.children.length === 0) {
+        stack.pop();
+      }
+      const node: OfxNode = { name: name!.toUpperCase(), value: null, children: [] };
+      stack[stack.length - 1]!.children.push(node);
+      if (!selfClosing) {
+        stack.push(node);
+      }
+    }
+  }
+
+  return root;
+}
+
+function child(node: OfxNode | undefined, name: string): OfxNode | undefined {
+  return node?.children.find((c) => c.name === name);
+}
+
+function childValue(node: OfxNode | undefined, ...path: string[]): string | null {
+  let current = node;
+  for (const name of path) {
+    current = child(current, name);
+  }
+  return current?.value ?? null;
+}
+
+function findAll(node: OfxNode, name: string, found: OfxNode[] = []): OfxNode[] {
+  for (const c of node.children) {
+    if (c.name === name) {
+      found.push(c);
+    } else {
+      findAll(c, name, found);
+    }
+  }
+  return found;
+}
+
+/**
+ * Parse an OFX date-time (YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]]) as the date
+ * it falls on for the bank. Returns a Unix timestamp (seconds) at midnight
+ * UTC of that date, or null if it is not a date.
+ */
+export function parseOfxDate(value: string | null): number | null {
+  const match = value?.trim().match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day] = match.map(Number) as [number, number, number, number];
+  const time = Date.UTC(year, month - 1, day);
+  const date = new Date(time);
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return time / 1000;
+}
+
+/** Parse an OFX amount; some banks write a decimal comma */
+export function parseOfxAmount(value: string | null): number | null {
+  if (value === null) {
+    return null;
+  }
+  const normalized = value.trim().replace(/^\+/, "").replace(",", ".");
+  if (!/^-?(\d+\.?\d*|\.\d+)$/.test(normalized)) {
+    return null;
+  }
+  return Math.round(Number(normalized) * 100) / 100;
+}
+
+function maskAccountNumber(accountNumber: string | null): string | null {
+  if (!accountNumber) {
+    return null;
+  }
+  return accountNumber.length > 4 ? `****${accountNumber.slice(-4)}` : accountNumber;
+}
+
+function toBankTransaction(
+  node: OfxNode,
+  statementId: string,
+  errors: string[]
+): BankTransaction | null {
+  const fitId = childValue(node, "FITID");
+  const label = fitId ? `Transaction ${fitId}` : "A transaction without a FITID";
+  const postedDate = parseOfxDate(childValue(node, "DTPOSTED"));
+  const amount = parseOfxAmount(childValue(node, "TRNAMT"));
+
+  if (postedDate === null) {
+    errors.push(`${label} was skipped: it has no valid posted date.`);
+    return null;
+  }
+  if (amount === null) {
+    errors.push(`${label} was skipped: it has no valid amount.`);
+    return null;
+  }
+
+  const name = childValue(node, "NAME") ?? childValue(node, "PAYEE", "NAME");
+  const memo = childValue(node, "MEMO");
+  const type = childValue(node, "TRNTYPE")?.toUpperCase() ?? null;
+  const checkNumber = childValue(node, "CHECKNUM");
+  const referenceNumber = childValue(node, "REFNUM");
+  const currency = childValue(node, "CURRENCY", "CURSYM");
+
+  return {
+    id: crypto.randomUUID(),
+    bank_statement_id: statementId,
+    transaction_date: parseOfxDate(childValue(node, "DTUSER")) ?? postedDate,
+    posted_date: postedDate,
+    description_original: [name, memo].filter(Boolean).join(" ") || type || "",
+    amount,
+    bank_reference_code: fitId,
+    check_number_if_any: checkNumber,
+    transaction_type_by_bank: (type && TRANSACTION_TYPES[type]) || "other",
+    bank_provided_category: childValue(node, "SIC"),
+    merchant_name_or_payee: name,
+    is_matched_in_reconciliation: false,
+    custom_metadata: {
+      ofx_transaction_type: type,
+      ...(memo ? { memo } : {}),
+      ...(referenceNumber ? { reference_number: referenceNumber } : {}),
+      ...(currency ? { currency } : {}),
+    },
+  };
+}
+
+/**
+ * Parse an OFX or QFX file into one bank statement per bank or credit card
+ * statement in it. Transactions that cannot be read are left out and
+ * described in the statement's parsing error messages, as are repeated
+ * FITIDs, of which only the first transaction is kept.
+ *
+ * @throws ValidationError if the file is not OFX or has no statements
+ */
+export function parseOfxFile(
+  input: string | ArrayBuffer | Uint8Array,
+  options: OfxImportOptions
+): BankStatement[] {
+  let text: string;
+  if (typeof input === "string") {
+    text = input;
+  } else {
+    const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+    text = decodeText(bytes, detectEncoding(bytes));
+  }
+
+  const root = parseOfxTree(text.replace(/^\uFEFF/, ""));
+  const ofx = child(root, "OFX");
+  const signOn = child(child(ofx, "SIGNONMSGSRSV1"), "SONRS");
+  const bankName = childValue(signOn, "FI", "ORG") ?? options.bankName ?? "";
+  const sourceFileType = /<INTU\.BID>/i.test(text) ? "qfx" : "ofx";
+
+  const signOnCode = childValue(signOn, "STATUS", "CODE");
+  if (signOnCode !== null && signOnCode !== "0") {
+    const message = childValue(signOn, "STATUS", "MESSAGE");
+    throw new ValidationError(
+      `The bank reported an error in the file (code ${signOnCode})${message ? `: ${message}` : ""}.`
+    );
+  }
+
+  const responses = [
+    ...findAll(root, "STMTRS").map((node) => ({ node, account: child(node, "BANKACCTFROM") })),
+    ...findAll(root, "CCSTMTRS").map((node) => ({ node, account: child(node, "CCACCTFROM") })),
+  ];
+  if (responses.length === 0) {
+    throw new ValidationError("The file contains no bank or credit card statements.");
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+
+  return responses.map(({ node, account }) => {
+    const statementId = crypto.randomUUID();
+    const errors: string[] = [];
+    const transactionList = child(node, "BANKTRANLIST");
+    const accountNumber = childValue(account, "ACCTID");
+
+    const seenFitIds = new Set<string>();
+    const transactions: BankTransaction[] = [];
+    for (const transactionNode of transactionList?.children.filter((c) => c.name === "STMTTRN") ?? []) {
+      const transaction = toBankTransaction(transactionNode, statementId, errors);
+      if (!transaction) {
+        continue;
+      }
+      const fitId = transaction.bank_reference_code;
+      if (fitId) {
+        if (seenFitIds.has(fitId)) {
+          errors.push(`Transaction ${fitId} appears more than once; only the first was kept.`);
+          continue;
+        }
+        seenFitIds.add(fitId);
+      } else {
+        errors.push(`A transaction of ${transaction.amount} has no FITID and cannot be checked for duplicates.`);
+      }
+      transactions.push(transaction);
+    }
+    transactions.sort((a, b) => a.transaction_date - b.transaction_date);
+
+    const postedDates = transactions.map((t) => t.posted_date ?? t.transaction_date);
+    const periodStart =
+      parseOfxDate(childValue(transactionList, "DTSTART")) ??
+      (postedDates.length ? Math.min(...postedDates) : null);
+    const periodEnd =
+      parseOfxDate(childValue(transactionList, "DTEND")) ??
+      (postedDates.length ? Math.max(...postedDates) : null);
+
+    const ledgerBalance = child(node, "LEDGERBAL");
+    const closingBalance = parseOfxAmount(childValue(ledgerBalance, "BALAMT"));
+    if (closingBalance === null) {
+      errors.push("The statement has no ledger balance (LEDGERBAL); its balances could not be read.");
+    }
+    const statementDate = parseOfxDate(childValue(ledgerBalance, "DTASOF")) ?? periodEnd ?? now;
+    const total = transactions.reduce((sum, t) => sum + t.amount, 0);
+
+    return {
+      id: statementId,
+      account_id: options.accountId ?? "",
+      statement_date: statementDate,
+      statement_period_start_date: periodStart ?? statementDate,
+      statement_period_end_date: periodEnd ?? statementDate,
+      opening_balance_from_statement:
+        closingBalance === null ? 0 : Math.round((closingBalance - total) * 100) / 100,
+      closing_balance_from_statement: closingBalance ?? 0,
+      bank_name: bankName,
+      account_number_masked: maskAccountNumber(accountNumber),
+      transactions,
+      imported_at: now,
+      imported_by_user_id: options.userId,
+      source_file_type: sourceFileType,
+      is_fully_processed_for_reconciliation: false,
+      processed_at_timestamp: now,
+      parsing_error_messages: errors.length ? errors : null,
+    };
+  });
+}
+
+/**
+ * Split parsed transactions into those not imported before and those
+ * whose FITID is among the already imported ones. FITIDs are unique only
+ * within an account, so pass the references of the same account.
+ *
+ * @param importedReferences Bank reference codes of the account's imported transactions
+ */
+export function excludeImportedTransactions(
+  transactions: BankTransaction[],
+  importedReferences: Iterable<string>
+): { newTransactions: BankTransaction[]; duplicates: BankTransaction[] } {
+  const imported = new Set(importedReferences);
+  const newTransactions: BankTransaction[] = [];
+  const duplicates: BankTransaction[] = [];
+  for (const transaction of transactions) {
+    if (transaction.bank_reference_code && imported.has(transaction.bank_reference_code)) {
+      duplicates.push(transaction);
+    } else {
+      newTransactions.push(transaction);
+    }
+  }
+  return { newTransactions, duplicates };
+}
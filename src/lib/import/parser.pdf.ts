@@ -0,0 +1,462 @@
+// src/lib/import/parser.pdf.ts
+/**
+ * PDF Bank Statement Import
+ *
+ * Reads the transaction table of a statement PDF that has a text layer,
+ * as banks' own statement generators produce. Scanned statements have
+ * none and are rejected; they need OCR first.
+ *
+ * The table is found by its header row: a date column, a description
+ * column, and either an amount column or withdrawal and deposit columns,
+ * optionally with a running balance. The columns are laid out from where
+ * the header's labels sit, so each amount is read from the column it is
+ * aligned under rather than from its order on the line. A new header row,
+ * as on each page, lays the columns out again. A line with no date or
+ * amounts just below a transaction continues its description.
+ *
+ * The opening and closing balances are read from the statement's summary
+ * or its balance brought/carried forward rows. A statement whose
+ * transactions do not take the opening balance to the closing one, or
+ * whose running balance does not follow from its transactions, is still
+ * returned, with the differences in its parsing error messages.
+ */
+
+import type { BankStatement, BankTransaction } from "../../types/reconciliation";
+import { ValidationError } from "../../utils/errors";
+import { parseAmount, parseDateString, type NumberFormat } from "./parser.csv";
+import { extractPdfText, groupPdfTextLines, type PdfTextCell, type PdfTextLine } from "./pdf-text";
+
+export interface PdfStatementOptions {
+  /** ID of the cash account the statement is for, when already known */
+  accountId?: string | undefined;
+  userId: string;
+  bankName?: string | undefined;
+  /**
+   * Formats of the statement's dates, as for CSV imports ("MM/DD/YYYY",
+   * "DD MMM", ...). Formats without a year take the statement's. Defaults
+   * to the common US formats.
+   */
+  dateFormats?: string[] | undefined;
+  /** Defaults to "1,234.56" */
+  numberFormat?: NumberFormat | undefined;
+  /** Year of dates written without one, when the statement period is not found */
+  statementYear?: number | undefined;
+}
+
+type ColumnRole = "date" | "description" | "check" | "debit" | "credit" | "amount" | "balance";
+
+interface Column {
+  role: ColumnRole;
+  x: number;
+  xEnd: number;
+}
+
+const AMOUNT_ROLES: ColumnRole[] = ["debit", "credit", "amount", "balance"];
+
+/** Header labels, checked in this order so "Transaction date" is a date */
+const HEADER_LABELS: Array<[ColumnRole, RegExp]> = [
+  ["balance", /\bbalance\b/i],
+  ["date", /\bdate\b|^posted$/i],
+  ["check", /^(check|cheque|chk)\s*(no\.?|#|number)?$|^ref(erence)?\s*(no\.?|#)?$/i],
+  ["debit", /debit|withdrawal|payments? out|money out|paid out|charges|checks paid|amount out/i],
+  ["credit", /credit|deposit|money in|paid in|receipts|amount in/i],
+  ["amount", /\bamount\b/i],
+  ["description", /description|details|transaction|particulars|memo|payee|narrative/i],
+];
+
+const DEFAULT_DATE_FORMATS = [
+  "MM/DD/YYYY",
+  "MM/DD/YY",
+  "MM/DD",
+  "MM-DD-YYYY",
+  "MM-DD",
+  "YYYY-MM-DD",
+  "MMM D, YYYY",
+  "MMMM D, YYYY",
+  "MMM D",
+  "D MMM YYYY",
+  "D MMM",
+];
+
+const OPENING_BALANCE = /\b(opening|beginning|starting|previous|prior)\s+balance\b|\bbalance\s+(brought\s+forward|b\/f)\b/i;
+const CLOSING_BALANCE = /\b(closing|ending|new|final)\s+balance\b|\bbalance\s+(carried\s+forward|c\/f)\b/i;
+const MONEY = /\(?[-−]?[$€£]?\s?\d[\d,.]*[.,]\d{2}\)?(?:\s?(?:CR|DR)\b|-)?/gi;
+const TOTAL_ROW = /^(sub)?totals?\b/i;
+
+const US_NUMBERS: NumberFormat = { decimalSeparator: ".", thousandsSeparator: "," };
+
+interface StatementContext {
+  formats: string[];
+  numberFormat: NumberFormat;
+  /** Last day of the statement period, for dates without a year */
+  periodEnd: string | null;
+  fallbackYear: number;
+}
+
+/** An amount cell, with "CR"/"DR" marking credits and debits */
+function parseMoney(text: string, context: StatementContext): number | null {
+  const marker = /\s?(CR|DR)$/i.exec(text.trim());
+  let amount: number | null;
+  try {
+    amount = parseAmount(marker ? text.trim().slice(0, marker.index) : text, context.numberFormat);
+  } catch {
+    return null;
+  }
+  if (amount === null) return null;
+  if (marker) amount = marker[1]!.toUpperCase() === "DR" ? -Math.abs(amount) : Math.abs(amount);
+  return Math.round(amount * 100) / 100;
+}
+
+function isMoney(text: string): boolean {
+  MONEY.lastIndex = 0;
+  const match = MONEY.exec(text.trim());
+  return match !== null && match[0].length === text.trim().length;
+}
+
+/** The last amount written on a line of text */
+function lastMoney(text: string, context: StatementContext): number | null {
+  const matches = [...text.matchAll(MONEY)];
+  const last = matches[matches.length - 1];
+  return last ? parseMoney(last[0], context) : null;
+}
+
+function parseStatementDate(text: string, context: StatementContext): string | null {
+  const value = text.trim().replace(/\.$/, "");
+  for (const format of context.formats) {
+    if (/Y/i.test(format)) {
+      // parseDateString allows text after the date; here it must be all of it
+      const words = format.trim().split(/\s+/).length;
+      const date = value.split(/\s+/).length === words ? parseDateString(value, format) : null;
+      if (date) return date;
+      continue;
+    }
+
+    const year = Number(context.periodEnd?.slice(0, 4) ?? context.fallbackYear);
+    const date = parseDateString(`${value} ${year}`, `${format} YYYY`);
+    if (date && !/\d{4}/.test(value)) {
+      // December items on a statement ending in January are last year's
+      return context.periodEnd && date > context.periodEnd
+        ? parseDateString(`${value} ${year - 1}`, `${format} YYYY`)
+        : date;
+    }
+  }
+  return null;
+}
+
+/** A date at the start of some text, and the text after it */
+function leadingDate(text: string, context: StatementContext): { date: string; rest: string } | null {
+  const words = text.trim().split(/\s+/);
+  for (let count = Math.min(3, words.length); count > 0; count--) {
+    const date = parseStatementDate(words.slice(0, count).join(" "), context);
+    if (date) return { date, rest: words.slice(count).join(" ") };
+  }
+  return null;
+}
+
+function lineText(line: PdfTextLine): string {
+  return line.cells.map((cell) => cell.text).join(" ");
+}
+
+/** Lay out the columns of a header row, or null if the line is not one */
+function headerColumns(line: PdfTextLine): Column[] | null {
+  const columns: Column[] = [];
+  for (const cell of line.cells) {
+    const role = HEADER_LABELS.find(([, label]) => label.test(cell.text))?.[0];
+    if (role && !columns.some((column) => column.role === role)) {
+      columns.push({ role, x: cell.x, xEnd: cell.xEnd });
+    }
+  }
+  const roles = new Set(columns.map((column) => column.role));
+  const hasAmounts = roles.has("amount") || roles.has("debit") || roles.has("credit");
+  return roles.has("date") && roles.has("description") && hasAmounts ? columns : null;
+}
+
+/**
+ * The column a cell belongs to. Amounts are usually right-aligned under
+ * their label and text left-aligned, so amounts go to the column with the
+ * nearest edge and text to the column it starts in.
+ */
+function columnOf(cell: PdfTextCell, columns: Column[], money: boolean): Column | undefined {
+  const candidates = columns.filter((column) => AMOUNT_ROLES.includes(column.role) === money);
+  let best: Column | undefined;
+  let bestDistance = Infinity;
+  for (const column of candidates) {
+    const distance = money
+      ? Math.min(Math.abs(cell.xEnd - column.xEnd), Math.abs(cell.x - column.x), Math.abs((cell.x + cell.xEnd) / 2 - (column.x + column.xEnd) / 2))
+      : cell.x >= column.x - 2
+        ? cell.x - column.x
+        : column.x - cell.x + 1000;
+    if (distance < bestDistance) {
+      best = column;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+interface DraftTransaction {
+  page: number;
+  y: number;
+  fontSize: number;
+  date: string;
+  description: string[];
+  checkNumber: string | null;
+  amount: number;
+  balance: number | null;
+}
+
+function findPeriod(lines: PdfTextLine[], context: StatementContext): { start: string | null; end: string | null } {
+  const yearFormats = context.formats.filter((format) => /Y/i.test(format));
+  const dated = { ...context, formats: yearFormats.length ? yearFormats : DEFAULT_DATE_FORMATS.filter((f) => /Y/.test(f)) };
+  for (const line of lines) {
+    const text = lineText(line);
+    const match = /(?:period|from|for)\s*:?\s*(.+?)\s+(?:to|through|thru|-|–)\s+(.+)$/i.exec(text);
+    if (!match) continue;
+    const start = leadingDate(match[1]!, dated);
+    const end = leadingDate(match[2]!, dated);
+    if (start && end) return { start: start.date, end: end.date };
+  }
+  for (const line of lines) {
+    const match = /(?:statement|closing)\s+date\s*:?\s*(.+)$/i.exec(lineText(line));
+    const end = match ? leadingDate(match[1]!, dated) : null;
+    if (end) return { start: null, end: end.date };
+  }
+  return { start: null, end: null };
+}
+
+function toUnixSeconds(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`) / 1000;
+}
+
+function formatMoney(value: number): string {
+  return value.toFixed(2);
+}
+
+/**
+ * Read a statement from the lines of its pages' text.
+ *
+ * @throws ValidationError if no transaction table is found
+ */
+export function parsePdfStatementLines(lines: PdfTextLine[], options: PdfStatementOptions): BankStatement {
+  const context: StatementContext = {
+    formats: options.dateFormats?.length ? options.dateFormats : DEFAULT_DATE_FORMATS,
+    numberFormat: options.numberFormat ?? US_NUMBERS,
+    periodEnd: null,
+    fallbackYear: options.statementYear ?? new Date().getUTCFullYear(),
+  };
+  const period = findPeriod(lines, context);
+  context.periodEnd = period.end;
+
+  const errors: string[] = [];
+  const drafts: DraftTransaction[] = [];
+  let columns: Column[] | null = null;
+  let openingBalance: number | null = null;
+  let closingBalance: number | null = null;
+  let accountNumber: string | null = null;
+  let lastDate: string | null = null;
+  // A description can only continue onto the lines right below it
+  let continuing = false;
+
+  for (const line of lines) {
+    const text = lineText(line);
+    accountNumber ??= /\baccount\s*(?:number|no\.?|#)?\s*:?\s*([*xX\d][\d\s*xX-]{3,}\d)/i.exec(text)?.[1]?.replace(/\D/g, "") || null;
+
+    const header = headerColumns(line);
+    if (header) {
+      columns = header;
+      continuing = false;
+      continue;
+    }
+
+    const isOpening = OPENING_BALANCE.test(text);
+    const isClosing = CLOSING_BALANCE.test(text);
+    if (isOpening || isClosing) {
+      const amount = lastMoney(text, context);
+      if (amount !== null) {
+        if (isOpening) openingBalance ??= amount;
+        else closingBalance ??= amount;
+      }
+      continuing = false;
+      continue;
+    }
+    if (!columns) continue;
+
+    const fields: Partial<Record<ColumnRole, string[]>> = {};
+    let date: string | null = null;
+    for (const [index, cell] of line.cells.entries()) {
+      if (index === 0 && !isMoney(cell.text)) {
+        const leading = leadingDate(cell.text, context);
+        if (leading) {
+          date = leading.date;
+          if (leading.rest) (fields.description ??= []).push(leading.rest);
+          continue;
+        }
+      }
+      const column = columnOf(cell, columns, isMoney(cell.text));
+      if (column) (fields[column.role] ??= []).push(cell.text);
+    }
+
+    const money = (role: ColumnRole) => {
+      const value = fields[role]?.[0];
+      return value === undefined ? null : parseMoney(value, context);
+    };
+    const debit = money("debit");
+    const credit = money("credit");
+    const signed = money("amount");
+    const balance = money("balance");
+    const description = [...(fields.description ?? []), ...(date ? [] : fields.date ?? [])].join(" ");
+
+    const previous = drafts[drafts.length - 1];
+    if (debit === null && credit === null && signed === null) {
+      // Continuation of the description above, if right below it
+      const lineGap = previous ? previous.y - line.y : Infinity;
+      if (
+        continuing && previous && !date && description && previous.page === line.page &&
+        lineGap > 0 && lineGap <= previous.fontSize * 2
+      ) {
+        previous.description.push(description);
+        previous.y = line.y;
+      } else {
+        continuing = false;
+      }
+      continue;
+    }
+    if (TOTAL_ROW.test(description)) {
+      continuing = false;
+      continue;
+    }
+
+    date ??= lastDate;
+    if (!date) {
+      errors.push(`Page ${line.page}: "${text}" has an amount but no date and was left out.`);
+      continuing = false;
+      continue;
+    }
+    lastDate = date;
+
+    const amount = signed ?? (credit !== null ? Math.abs(credit) : 0) - (debit !== null ? Math.abs(debit) : 0);
+    drafts.push({
+      page: line.page,
+      y: line.y,
+      fontSize: line.fontSize,
+      date,
+      description: description ? [description] : [],
+      checkNumber: fields.check?.[0] ?? null,
+      amount: Math.round(amount * 100) / 100,
+      balance,
+    });
+    continuing = true;
+  }
+
+  if (!columns) {
+    throw new ValidationError(
+      "No transaction table was found in the statement: no row has date, description and amount column headings."
+    );
+  }
+
+  // Running balance: each follows from the one before and the transaction
+  let runningBalance = openingBalance;
+  for (const draft of drafts) {
+    if (runningBalance === null && draft.balance !== null) {
+      openingBalance ??= Math.round((draft.balance - draft.amount) * 100) / 100;
+      runningBalance = openingBalance;
+    }
+    if (draft.balance === null || runningBalance === null) {
+      if (runningBalance !== null) runningBalance = Math.round((runningBalance + draft.amount) * 100) / 100;
+      continue;
+    }
+    const expected = Math.round((runningBalance + draft.amount) * 100) / 100;
+    if (Math.abs(expected - draft.balance) >= 0.005) {
+      errors.push(
+        `Page ${draft.page}: the balance of ${formatMoney(draft.balance)} after "${draft.description.join(" ")}" on ${draft.date} ` +
+          `does not follow from the balance of ${formatMoney(runningBalance)} before it and the amount of ${formatMoney(draft.amount)}.`
+      );
+    }
+    runningBalance = draft.balance;
+  }
+  const lastBalance = [...drafts].reverse().find((draft) => draft.balance !== null)?.balance ?? null;
+  closingBalance ??= lastBalance;
+
+  const total = Math.round(drafts.reduce((sum, draft) => sum + draft.amount, 0) * 100) / 100;
+  if (openingBalance === null) {
+    errors.push("The statement's opening balance was not found.");
+  }
+  if (closingBalance === null) {
+    errors.push("The statement's closing balance was not found.");
+  }
+  if (openingBalance !== null && closingBalance !== null) {
+    const difference = Math.round((closingBalance - openingBalance - total) * 100) / 100;
+    if (difference !== 0) {
+      errors.push(
+        `The transactions total ${formatMoney(total)}, but the balance moves from ${formatMoney(openingBalance)} to ` +
+          `${formatMoney(closingBalance)}: ${formatMoney(difference)} is unaccounted for.`
+      );
+    }
+  }
+
+  const statementId = crypto.randomUUID();
+  const now = Math.floor(Date.now() / 1000);
+  const dates = drafts.map((draft) => draft.date).sort();
+  const start = period.start ?? dates[0] ?? null;
+  const end = period.end ?? dates[dates.length - 1] ?? null;
+
+  const transactions: BankTransaction[] = drafts.map((draft) => ({
+    id: crypto.randomUUID(),
+    bank_statement_id: statementId,
+    transaction_date: toUnixSeconds(draft.date),
+    description_original: draft.description.join(" "),
+    amount: draft.amount,
+    running_balance_after_txn: draft.balance,
+    check_number_if_any: draft.checkNumber,
+    transaction_type_by_bank: draft.amount < 0 ? "debit" : "credit",
+    is_matched_in_reconciliation: false,
+    custom_metadata: { page: draft.page },
+  }));
+
+  return {
+    id: statementId,
+    account_id: options.accountId ?? "",
+    statement_date: end ? toUnixSeconds(end) : now,
+    statement_period_start_date: start ? toUnixSeconds(start) : now,
+    statement_period_end_date: end ? toUnixSeconds(end) : now,
+    opening_balance_from_statement: openingBalance ?? 0,
+    closing_balance_from_statement: closingBalance ?? 0,
+    bank_name: options.bankName ?? "",
+    account_number_masked: accountNumber
+      ? accountNumber.length > 4 ? `****${accountNumber.slice(-4)}` : accountNumber
+      : null,
+    transactions,
+    imported_at: now,
+    imported_by_user_id: options.userId,
+    source_file_type: "pdf",
+    is_fully_processed_for_reconciliation: false,
+    processed_at_timestamp: now,
+    parsing_error_messages: errors.length ? errors : null,
+  };
+}
+
+/**
+ * Read a statement PDF.
+ *
+ * @throws ValidationError if the PDF has no text layer or no transaction table
+ */
+export async function parsePdfStatement(
+  input: ArrayBuffer | Uint8Array,
+  options: PdfStatementOptions
+): Promise<BankStatement> {
+  const { pageCount, items, errors } = await extractPdfText(input);
+  if (pageCount === 0) {
+    throw new ValidationError("The file is not a PDF or has no pages.");
+  }
+  if (items.length === 0) {
+    throw new ValidationError(
+      "The PDF has no text layer, as with a scanned statement. Download the statement from the bank's website instead."
+    );
+  }
+
+  const statement = parsePdfStatementLines(groupPdfTextLines(items), options);
+  if (errors.length) {
+    statement.parsing_error_messages = [...errors, ...(statement.parsing_error_messages ?? [])];
+  }
+  return statement;
+}
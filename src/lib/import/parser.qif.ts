@@ -0,0 +1,492 @@
+// src/lib/import/parser.qif.ts
+/**
+ * QIF Import
+ *
+ * Reads Quicken Interchange Format exports from Quicken and Microsoft Money:
+ * bank, cash, credit card and other asset and liability account sections,
+ * with split transactions, and the category list. Investment sections,
+ * classes and memorized transactions are skipped.
+ *
+ * QIF dates carry no format. Quicken writes month first ("1/15/98") unless
+ * set to a day-first locale, and marks years from 2000 on with an
+ * apostrophe ("1/15'04", "1/15' 4"). The day/month order is given by the
+ * caller or worked out from the dates in the file; when no date settles it,
+ * month first is assumed and the result says so.
+ *
+ * QIF categories ("Utilities:Water", with an optional "/Class") and
+ * transfers ("[Savings]") are mapped to chart of accounts codes through the
+ * caller's maps. A subcategory without a mapping of its own takes its
+ * parent's.
+ */
+
+import { ValidationError } from "../../utils/errors";
+import { decodeText, type TextEncoding } from "./encoding";
+import { parseAmount, type NumberFormat } from "./parser.csv";
+
+export type QifDateOrder = "MDY" | "DMY";
+
+export type QifAccountType =
+  | "bank"
+  | "cash"
+  | "credit_card"
+  | "other_asset"
+  | "other_liability";
+
+export interface QifImportOptions {
+  /** Day/month order of the file's dates; "auto" works it out from the dates */
+  dateOrder?: QifDateOrder | "auto" | undefined;
+  /** Two-digit years without an apostrophe below this are 20YY, others 19YY */
+  twoDigitYearPivot?: number | undefined;
+  /** Defaults to "1,234.56" */
+  numberFormat?: NumberFormat | undefined;
+  /** Encoding of a file given as bytes; Quicken writes windows-1252 */
+  encoding?: TextEncoding | undefined;
+  /** Chart of accounts code by QIF category name ("Utilities:Water") */
+  categoryAccountCodes?: Record<string, string> | undefined;
+  /** Chart of accounts code by the name of a QIF account transferred to */
+  transferAccountCodes?: Record<string, string> | undefined;
+}
+
+/** One line of a split transaction */
+export interface QifSplit {
+  category: string | null;
+  /** Account transferred to or from, for a split written "[Account]" */
+  transferAccount: string | null;
+  className: string | null;
+  accountCode: string | null;
+  memo: string | null;
+  amount: number;
+}
+
+export interface QifTransaction {
+  /** Line of the file the transaction starts on */
+  lineNumber: number;
+  /** YYYY-MM-DD */
+  date: string;
+  /** Positive for money into the account */
+  amount: number;
+  payee: string | null;
+  memo: string | null;
+  address: string[];
+  checkNumber: string | null;
+  /** Text of the N line when it is not a check number ("DEP", "ATM", ...) */
+  reference: string | null;
+  clearedStatus: "cleared" | "reconciled" | null;
+  category: string | null;
+  transferAccount: string | null;
+  className: string | null;
+  /** Code the category or transfer maps to; null for split transactions */
+  accountCode: string | null;
+  splits: QifSplit[];
+}
+
+export interface QifAccountSection {
+  /** From the preceding !Account block, if any */
+  accountName: string | null;
+  accountType: QifAccountType;
+  transactions: QifTransaction[];
+}
+
+export interface QifCategory {
+  name: string;
+  description: string | null;
+  kind: "income" | "expense";
+  accountCode: string | null;
+}
+
+export interface QifImportResult {
+  accounts: QifAccountSection[];
+  categories: QifCategory[];
+  dateOrder: QifDateOrder;
+  /** True when no date in the file settled the day/month order */
+  dateOrderAmbiguous: boolean;
+  /** Categories and transfer accounts used without a chart of accounts code */
+  unmappedCategories: string[];
+  /** Records that were left out or do not add up, by line */
+  errors: string[];
+  /** Headers of sections that were not read, e.g. "Type:Invst" */
+  skippedSections: string[];
+}
+
+const ACCOUNT_SECTION_TYPES: Record<string, QifAccountType> = {
+  bank: "bank",
+  cash: "cash",
+  ccard: "credit_card",
+  "oth a": "other_asset",
+  "oth l": "other_liability",
+};
+
+const US_NUMBERS: NumberFormat = { decimalSeparator: ".", thousandsSeparator: "," };
+
+interface QifField {
+  code: string;
+  value: string;
+  lineNumber: number;
+}
+
+/** A split while its lines are read; undefined until its E or $ line */
+interface SplitDraft extends Omit<QifSplit, "memo" | "amount"> {
+  memo: string | null | undefined;
+  amount: number | null | undefined;
+}
+
+interface RawRecord {
+  lineNumber: number;
+  fields: QifField[];
+}
+
+const QIF_DATE = /^(\d{1,4})\s*[/.-]\s*(\d{1,2})\s*(['/.-])\s*(\d{1,4})$/;
+
+/**
+ * Parse a QIF date in the given day/month order. Dates written year first
+ * ("2004-01-15") are read as such whatever the order. Returns YYYY-MM-DD,
+ * or null if the text is not a valid date.
+ */
+export function parseQifDate(
+  input: string,
+  order: QifDateOrder,
+  twoDigitYearPivot = 70
+): string | null {
+  const match = input.trim().match(QIF_DATE);
+  if (!match) {
+    return null;
+  }
+  const [, first, second, separator, last] = match as unknown as [string, string, string, string, string];
+
+  let year: number;
+  let month: number;
+  let day: number;
+  if (first.length === 4) {
+    [year, month, day] = [Number(first), Number(second), Number(last)];
+  } else {
+    if (first.length > 2) {
+      return null;
+    }
+    [month, day] = order === "MDY"
+      ? [Number(first), Number(second)]
+      : [Number(second), Number(first)];
+    year = Number(last);
+    if (separator === "'") {
+      year += last.length <= 2 ? 2000 : 0;
+    } else if (last.length <= 2) {
+      year += year < twoDigitYearPivot ? 2000 : 1900;
+    } else if (last.length !== 4) {
+      return null;
+    }
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Work out the day/month order from a file's dates: a first number above
+ * 12 means day first, a second number above 12 month first.
+ *
+ * @throws ValidationError if the dates contradict each other
+ */
+export function detectQifDateOrder(dates: string[]): { order: QifDateOrder; ambiguous: boolean } {
+  let dayFirst = false;
+  let monthFirst = false;
+  for (const date of dates) {
+    const match = date.trim().match(QIF_DATE);
+    if (!match || match[1]!.length === 4) {
+      continue;
+    }
+    dayFirst ||= Number(match[1]) > 12;
+    monthFirst ||= Number(match[2]) > 12;
+  }
+  if (dayFirst && monthFirst) {
+    throw new ValidationError(
+      "The file's dates are written both month first and day first; its date format cannot be determined."
+    );
+  }
+  return { order: dayFirst ? "DMY" : "MDY", ambiguous: !dayFirst && !monthFirst };
+}
+
+/** Split an L or S value into its category or transfer account and class */
+function parseCategory(value: string): {
+  category: string | null;
+  transferAccount: string | null;
+  className: string | null;
+} {
+  const transfer = value.match(/^\[(.*)\](?:\/(.*))?$/);
+  if (transfer) {
+    return {
+      category: null,
+      transferAccount: transfer[1]!.trim() || null,
+      className: transfer[2]?.trim() || null,
+    };
+  }
+  const slash = value.indexOf("/");
+  const category = (slash < 0 ? value : value.slice(0, slash)).trim();
+  return {
+    category: category || null,
+    transferAccount: null,
+    className: slash < 0 ? null : value.slice(slash + 1).trim() || null,
+  };
+}
+
+function lookupCode(codes: Record<string, string> | undefined, name: string): string | null {
+  if (!codes) {
+    return null;
+  }
+  const key = name.toLowerCase();
+  for (const [candidate, code] of Object.entries(codes)) {
+    if (candidate.toLowerCase() === key) {
+      return code;
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse a QIF file into its account sections and category list.
+ *
+ * @throws ValidationError if the file is not QIF or has no account sections
+ */
+export function parseQifFile(
+  input: string | ArrayBuffer | Uint8Array,
+  options: QifImportOptions = {}
+): QifImportResult {
+  const text = typeof input === "string" ? input : decodeText(input, options.encoding ?? "windows-1252");
+  const lines = text.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+
+  const firstLine = lines.find((line) => line.trim() !== "");
+  if (!firstLine?.trim().startsWith("!")) {
+    throw new ValidationError("The file is not a QIF file: it does not start with a !Type or !Account header.");
+  }
+
+  const errors: string[] = [];
+  const skippedSections: string[] = [];
+  const unmapped = new Set<string>();
+  const categories: QifCategory[] = [];
+  const sections: Array<{ accountName: string | null; accountType: QifAccountType; records: RawRecord[] }> = [];
+
+  let mode: "account" | "transactions" | "categories" | "skip" | null = null;
+  let accountName: string | null = null;
+  let record: RawRecord | null = null;
+
+  const finishRecord = () => {
+    if (!record) {
+      return;
+    }
+    const fields = record.fields;
+    const value = (code: string) => fields.find((f) => f.code === code)?.value || null;
+    if (mode === "account") {
+      accountName = value("N");
+    } else if (mode === "categories") {
+      const name = value("N");
+      if (name) {
+        categories.push({
+          name,
+          description: value("D"),
+          kind: fields.some((f) => f.code === "I") ? "income" : "expense",
+          accountCode: resolveCategoryCode(name),
+        });
+      }
+    } else if (mode === "transactions") {
+      sections[sections.length - 1]!.records.push(record);
+    }
+    record = null;
+  };
+
+  const resolveCategoryCode = (category: string): string | null => {
+    const parts = category.split(":");
+    for (let length = parts.length; length > 0; length--) {
+      const code = lookupCode(options.categoryAccountCodes, parts.slice(0, length).join(":"));
+      if (code) {
+        return code;
+      }
+    }
+    return null;
+  };
+
+  for (const [index, rawLine] of lines.entries()) {
+    const line = rawLine.trimEnd();
+    const lineNumber = index + 1;
+    if (line.trim() === "") {
+      continue;
+    }
+
+    if (line.startsWith("!")) {
+      finishRecord();
+      const header = line.slice(1).trim();
+      const lower = header.toLowerCase();
+      if (lower === "account") {
+        mode = "account";
+      } else if (lower.startsWith("type:")) {
+        const type = lower.slice(5).trim();
+        const accountType = ACCOUNT_SECTION_TYPES[type];
+        if (accountType) {
+          mode = "transactions";
+          sections.push({ accountName, accountType, records: [] });
+        } else if (type === "cat") {
+          mode = "categories";
+        } else {
+          mode = "skip";
+          if (!skippedSections.includes(header)) skippedSections.push(header);
+        }
+      } else if (lower.startsWith("option:") || lower.startsWith("clear:")) {
+        // AutoSwitch only changes how Quicken reads the !Account blocks
+      } else {
+        mode = "skip";
+        if (!skippedSections.includes(header)) skippedSections.push(header);
+      }
+      continue;
+    }
+
+    if (line.startsWith("^")) {
+      finishRecord();
+      continue;
+    }
+
+    record ??= { lineNumber, fields: [] };
+    record.fields.push({ code: line[0]!.toUpperCase(), value: line.slice(1).trim(), lineNumber });
+  }
+  if (record) {
+    errors.push(`Line ${record.lineNumber}: the last record does not end with "^".`);
+    finishRecord();
+  }
+
+  if (sections.length === 0) {
+    throw new ValidationError(
+      "The file has no bank, cash, credit card or other asset or liability account transactions."
+    );
+  }
+
+  const rawDates = sections.flatMap((section) =>
+    section.records.flatMap((r) => r.fields.filter((f) => f.code === "D").map((f) => f.value))
+  );
+  const detected = !options.dateOrder || options.dateOrder === "auto"
+    ? detectQifDateOrder(rawDates)
+    : { order: options.dateOrder, ambiguous: false };
+  const numberFormat = options.numberFormat ?? US_NUMBERS;
+
+  const readAmount = (field: QifField | undefined): number | null => {
+    if (!field) {
+      return null;
+    }
+    try {
+      const amount = parseAmount(field.value, numberFormat);
+      return amount === null ? null : Math.round(amount * 100) / 100;
+    } catch {
+      return null;
+    }
+  };
+
+  const mapCategory = (value: string) => {
+    const parsed = parseCategory(value);
+    let accountCode: string | null = null;
+    if (parsed.transferAccount) {
+      accountCode = lookupCode(options.transferAccountCodes, parsed.transferAccount);
+      if (!accountCode) unmapped.add(`[${parsed.transferAccount}]`);
+    } else if (parsed.category) {
+      accountCode = resolveCategoryCode(parsed.category);
+      if (!accountCode) unmapped.add(parsed.category);
+    }
+    return { ...parsed, accountCode };
+  };
+
+  const toTransaction = ({ lineNumber, fields }: RawRecord): QifTransaction | null => {
+    const field = (code: string) => fields.find((f) => f.code === code);
+    const dateField = field("D");
+    const date = dateField
+      ? parseQifDate(dateField.value, detected.order, options.twoDigitYearPivot)
+      : null;
+    if (!date) {
+      errors.push(`Line ${lineNumber}: the transaction was skipped: "${dateField?.value ?? ""}" is not a valid date.`);
+      return null;
+    }
+    const amountField = field("T") ?? field("U");
+    const amount = readAmount(amountField);
+    if (amount === null) {
+      errors.push(`Line ${lineNumber}: the transaction was skipped: "${amountField?.value ?? ""}" is not a valid amount.`);
+      return null;
+    }
+
+    // A split starts at its S line; exporters that leave S out start the
+    // next split with a second E or $ line
+    const drafts: SplitDraft[] = [];
+    for (const f of fields) {
+      if (f.code !== "S" && f.code !== "E" && f.code !== "$") {
+        continue;
+      }
+      let split = drafts[drafts.length - 1];
+      if (
+        !split ||
+        f.code === "S" ||
+        (f.code === "E" && split.memo !== undefined) ||
+        (f.code === "$" && split.amount !== undefined)
+      ) {
+        split = { category: null, transferAccount: null, className: null, accountCode: null, memo: undefined, amount: undefined };
+        drafts.push(split);
+      }
+      if (f.code === "S") {
+        Object.assign(split, mapCategory(f.value));
+      } else if (f.code === "E") {
+        split.memo = f.value || null;
+      } else {
+        split.amount = readAmount(f);
+      }
+    }
+
+    const splits: QifSplit[] = [];
+    for (const { memo, amount: splitAmount, ...split } of drafts) {
+      if (splitAmount === undefined || splitAmount === null) {
+        errors.push(`Line ${lineNumber}: a split of the transaction has no valid amount and was left out.`);
+      } else {
+        splits.push({ ...split, memo: memo ?? null, amount: splitAmount });
+      }
+    }
+
+    if (splits.length > 0) {
+      const total = Math.round(splits.reduce((sum, s) => sum + s.amount, 0) * 100);
+      if (total !== Math.round(amount * 100)) {
+        errors.push(
+          `Line ${lineNumber}: the splits of the transaction add up to ${(total / 100).toFixed(2)}, not its amount of ${amount.toFixed(2)}.`
+        );
+      }
+    }
+
+    const categoryValue = field("L")?.value ?? "";
+    const category = splits.length === 0 && categoryValue
+      ? mapCategory(categoryValue)
+      : { ...parseCategory(categoryValue), accountCode: null };
+    const number = field("N")?.value || null;
+    const cleared = field("C")?.value.toUpperCase() ?? "";
+
+    return {
+      lineNumber,
+      date,
+      amount,
+      payee: field("P")?.value || null,
+      memo: field("M")?.value || null,
+      address: fields.filter((f) => f.code === "A" && f.value).map((f) => f.value),
+      checkNumber: number && /^\d+$/.test(number) ? number : null,
+      reference: number && !/^\d+$/.test(number) ? number : null,
+      clearedStatus: cleared === "*" || cleared === "C" ? "cleared" : cleared === "X" || cleared === "R" ? "reconciled" : null,
+      ...category,
+      splits,
+    };
+  };
+
+  return {
+    accounts: sections.map((section) => ({
+      accountName: section.accountName,
+      accountType: section.accountType,
+      transactions: section.records
+        .map(toTransaction)
+        .filter((t): t is QifTransaction => t !== null),
+    })),
+    categories,
+    dateOrder: detected.order,
+    dateOrderAmbiguous: detected.ambiguous,
+    unmappedCategories: [...unmapped].sort(),
+    errors,
+    skippedSections,
+  };
+}
@@ -0,0 +1,705 @@
+// src/lib/import/pdf-text.ts
+/**
+ * PDF Text Layer
+ *
+ * Extracts the text of a PDF's pages with its position, enough to lay out
+ * the tables of a bank statement. It reads what statement generators
+ * produce: Flate-compressed content streams, object streams, form
+ * XObjects, simple fonts in the standard encodings and fonts with a
+ * ToUnicode map. Scanned statements have no text layer and yield no text.
+ *
+ * Positions are in PDF user space: points from the bottom left of the page.
+ */
+
+import { decodeText } from "./encoding";
+
+/** A run of text drawn by one text-showing operator */
+export interface PdfTextItem {
+  /** 1-indexed */
+  page: number;
+  x: number;
+  /** Baseline; larger is higher on the page */
+  y: number;
+  width: number;
+  fontSize: number;
+  text: string;
+}
+
+/** Runs of text on one baseline that are close enough to read as one */
+export interface PdfTextCell {
+  x: number;
+  xEnd: number;
+  text: string;
+}
+
+export interface PdfTextLine {
+  page: number;
+  y: number;
+  fontSize: number;
+  /** Left to right */
+  cells: PdfTextCell[];
+}
+
+class PdfName {
+  constructor(readonly name: string) {}
+}
+
+class PdfRef {
+  constructor(readonly num: number) {}
+}
+
+/** A string's bytes, one char per byte */
+class PdfString {
+  constructor(readonly bytes: string) {}
+}
+
+class PdfOperator {
+  constructor(readonly op: string) {}
+}
+
+type PdfValue = null | boolean | number | PdfName | PdfRef | PdfString | PdfValue[] | Map<string, PdfValue>;
+
+interface PdfObject {
+  value: PdfValue;
+  /** Raw stream bytes, one char per byte */
+  stream?: string;
+}
+
+const WHITESPACE = /[\0\t\n\f\r ]/;
+const DELIMITER = /[\0\t\n\f\r ()<>[\]{}/%]/;
+
+/** Reads PDF objects and content stream tokens */
+class PdfLexer {
+  constructor(
+    readonly src: string,
+    public pos = 0
+  ) {}
+
+  skipWhitespace(): void {
+    while (this.pos < this.src.length) {
+      const char = this.src[this.pos]!;
+      if (WHITESPACE.test(char)) {
+        this.pos++;
+      } else if (char === "%") {
+        while (this.pos < this.src.length && this.src[this.pos] !== "\n" && this.src[this.pos] !== "\r") {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  /** The next value or operator; undefined at the end */
+  next(): PdfValue | PdfOperator | undefined {
+    this.skipWhitespace();
+    const src = this.src;
+    if (this.pos >= src.length) {
+      return undefined;
+    }
+    const char = src[this.pos]!;
+
+    if (char === "<" && src[this.pos + 1] === "<") {
+      this.pos += 2;
+      const dict = new Map<string, PdfValue>();
+      for (;;) {
+        this.skipWhitespace();
+        if (src.startsWith(">>", this.pos) || this.pos >= src.length) {
+          this.pos += 2;
+          return dict;
+        }
+        const key = this.next();
+        const value = this.next();
+        if (key instanceof PdfName && !(value instanceof PdfOperator)) {
+          dict.set(key.name, value ?? null);
+        }
+      }
+    }
+    if (char === "<") {
+      const end = src.indexOf(">", this.pos);
+      const hex = src.slice(this.pos + 1, end < 0 ? src.length : end).replace(/[^0-9a-fA-F]/g, "");
+      this.pos = end < 0 ? src.length : end + 1;
+      let bytes = "";
+      for (let i = 0; i < hex.length; i += 2) {
+        bytes += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, "0"), 16));
+      }
+      return new PdfString(bytes);
+    }
+    if (char === "(") {
+      return new PdfString(this.readLiteralString());
+    }
+    if (char === "[") {
+      this.pos++;
+      const items: PdfValue[] = [];
+      for (;;) {
+        this.skipWhitespace();
+        if (src[this.pos] === "]" || this.pos >= src.length) {
+          this.pos++;
+          return items;
+        }
+        const item = this.next();
+        if (item !== undefined && !(item instanceof PdfOperator)) {
+          items.push(item);
+        }
+      }
+    }
+    if (char === "/") {
+      this.pos++;
+      const start = this.pos;
+      while (this.pos < src.length && !DELIMITER.test(src[this.pos]!)) this.pos++;
+      return new PdfName(
+        src.slice(start, this.pos).replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) =>
+          String.fromCharCode(parseInt(hex, 16))
+        )
+      );
+    }
+    if (char === ")" || char === ">" || char === "]" || char === "{" || char === "}") {
+      this.pos++;
+      return this.next();
+    }
+
+    const start = this.pos;
+    while (this.pos < src.length && !DELIMITER.test(src[this.pos]!)) this.pos++;
+    const word = src.slice(start, this.pos);
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      const number = Number(word);
+      // An indirect reference is "num gen R"
+      const reference = /^\s+\d+\s+R(?=[\0\t\n\f\r ()<>[\]{}/%]|$)/.exec(src.slice(this.pos, this.pos + 32));
+      if (reference && Number.isInteger(number)) {
+        this.pos += reference[0].length;
+        return new PdfRef(number);
+      }
+      return number;
+    }
+    if (word === "true" || word === "false") return word === "true";
+    if (word === "null") return null;
+    return new PdfOperator(word);
+  }
+
+  private readLiteralString(): string {
+    const src = this.src;
+    let depth = 0;
+    let out = "";
+    this.pos++;
+    while (this.pos < src.length) {
+      const char = src[this.pos++]!;
+      if (char === "\\") {
+        const escaped = src[this.pos++] ?? "";
+        const simple: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+        if (simple[escaped]) {
+          out += simple[escaped];
+        } else if (/[0-7]/.test(escaped)) {
+          let octal = escaped;
+          while (octal.length < 3 && /[0-7]/.test(src[this.pos] ?? "")) octal += src[this.pos++];
+          out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        } else if (escaped === "\r") {
+          if (src[this.pos] === "\n") this.pos++;
+        } else if (escaped !== "\n") {
+          out += escaped;
+        }
+      } else if (char === "(") {
+        depth++;
+        out += char;
+      } else if (char === ")") {
+        if (depth === 0) break;
+        depth--;
+        out += char;
+      } else {
+        out += char;
+      }
+    }
+    return out;
+  }
+}
+
+function toBytes(data: string): Uint8Array {
+  return Uint8Array.from(data, (char) => char.charCodeAt(0));
+}
+
+async function inflate(data: string): Promise<string> {
+  const stream = new Blob([toBytes(data)]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return decodeText(await new Response(stream).arrayBuffer(), "iso-8859-1");
+}
+
+function dictName(dict: PdfValue | undefined, key: string): string | null {
+  const value = dict instanceof Map ? dict.get(key) : undefined;
+  return value instanceof PdfName ? value.name : null;
+}
+
+/** Windows-1252 for the simple font encodings, with the glyph names statement fonts remap */
+const GLYPH_NAMES: Record<string, string> = {
+  space: " ", exclam: "!", quotedbl: '"', numbersign: "#", dollar: "$", percent: "%",
+  ampersand: "&", quotesingle: "'", quoteright: "’", quoteleft: "‘", parenleft: "(",
+  parenright: ")", asterisk: "*", plus: "+", comma: ",", hyphen: "-", minus: "-",
+  period: ".", slash: "/", zero: "0", one: "1", two: "2", three: "3", four: "4",
+  five: "5", six: "6", seven: "7", eight: "8", nine: "9", colon: ":", semicolon: ";",
+  less: "<", equal: "=", greater: ">", question: "?", at: "@", bracketleft: "[",
+  backslash: "\\", bracketright: "]", underscore: "_", bar: "|", sterling: "£",
+  Euro: "€", endash: "–", emdash: "—", bullet: "•", nbspace: " ",
+};
+
+function glyphToChar(name: string): string {
+  if (name.length === 1) return name;
+  const unicode = /^uni([0-9A-Fa-f]{4})$/.exec(name);
+  if (unicode) return String.fromCharCode(parseInt(unicode[1]!, 16));
+  return GLYPH_NAMES[name] ?? "";
+}
+
+/** Code to text from a ToUnicode CMap's bfchar and bfrange sections */
+function parseToUnicode(cmap: string): Map<number, string> {
+  const map = new Map<number, string>();
+  const utf16 = (hex: string) => {
+    let text = "";
+    for (let i = 0; i + 4 <= hex.length; i += 4) text += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+    return hex.length === 2 ? String.fromCharCode(parseInt(hex, 16)) : text;
+  };
+
+  for (const [, body] of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, code, text] of body!.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(parseInt(code!, 16), utf16(text!));
+    }
+  }
+  for (const [, body] of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const [, low, high, target] of body!.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+      const start = parseInt(low!, 16);
+      const end = Math.min(parseInt(high!, 16), start + 0xffff);
+      if (target!.startsWith("[")) {
+        [...target!.matchAll(/<([0-9a-fA-F]*)>/g)].forEach(([, hex], i) => {
+          if (start + i <= end) map.set(start + i, utf16(hex!));
+        });
+      } else {
+        const hex = target!.slice(1, -1);
+        const base = parseInt(hex.slice(-4) || "0", 16);
+        const prefix = utf16(hex.slice(0, -4));
+        for (let code = start; code <= end; code++) {
+          map.set(code, prefix + String.fromCharCode(base + code - start));
+        }
+      }
+    }
+  }
+  return map;
+}
+
+interface PdfFont {
+  twoByte: boolean;
+  decode(code: number): string;
+  /** Advance of a glyph in thousandths of the font size */
+  width(code: number): number;
+}
+
+/** Reads a PDF's objects and the text of its pages */
+class PdfDocument {
+  private objects = new Map<number, PdfObject>();
+  private decoded = new Map<PdfObject, Promise<string>>();
+  private fonts = new Map<PdfValue, Promise<PdfFont>>();
+  readonly errors: string[] = [];
+
+  constructor(private readonly src: string) {}
+
+  async load(): Promise<void> {
+    const header = /(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = header.exec(this.src))) {
+      const lexer = new PdfLexer(this.src, header.lastIndex);
+      const value = lexer.next();
+      const object: PdfObject = { value: value instanceof PdfOperator || value === undefined ? null : value };
+      lexer.skipWhitespace();
+      if (this.src.startsWith("stream", lexer.pos)) {
+        let start = lexer.pos + 6;
+        if (this.src[start] === "\r") start++;
+        if (this.src[start] === "\n") start++;
+        const length = value instanceof Map ? value.get("Length") : undefined;
+        let end = typeof length === "number" && /^\s*endstream/.test(this.src.slice(start + length, start + length + 20))
+          ? start + length
+          : this.src.indexOf("endstream", start);
+        if (end < 0) end = this.src.length;
+        object.stream = this.src.slice(start, end).replace(/\r?\n$/, "");
+        header.lastIndex = end;
+      }
+      this.objects.set(Number(match[1]), object);
+    }
+
+    // Objects packed into object streams (PDF 1.5+)
+    for (const object of [...this.objects.values()]) {
+      if (dictName(object.value, "Type") !== "ObjStm") continue;
+      const data = await this.streamData(object);
+      const dict = object.value as Map<string, PdfValue>;
+      const count = Number(dict.get("N") ?? 0);
+      const first = Number(dict.get("First") ?? 0);
+      const offsets = data.slice(0, first).trim().split(/\s+/).map(Number);
+      for (let i = 0; i < count; i++) {
+        const num = offsets[i * 2];
+        const offset = offsets[i * 2 + 1];
+        if (num === undefined || offset === undefined || this.objects.has(num)) continue;
+        const value = new PdfLexer(data, first + offset).next();
+        this.objects.set(num, { value: value instanceof PdfOperator || value === undefined ? null : value });
+      }
+    }
+  }
+
+  resolve(value: PdfValue | undefined): PdfValue {
+    for (let depth = 0; value instanceof PdfRef && depth < 8; depth++) {
+      value = this.objects.get(value.num)?.value ?? null;
+    }
+    return value ?? null;
+  }
+
+  private get(dict: PdfValue, key: string): PdfValue {
+    return dict instanceof Map ? this.resolve(dict.get(key)) : null;
+  }
+
+  private streamData(object: PdfObject | undefined): Promise<string> {
+    if (!object?.stream) return Promise.resolve("");
+    let data = this.decoded.get(object);
+    if (!data) {
+      const filters = this.get(object.value, "Filter");
+      const names = (Array.isArray(filters) ? filters : [filters])
+        .filter((f): f is PdfName => f instanceof PdfName)
+        .map((f) => f.name);
+      data = names.reduce<Promise<string>>(async (result, filter) => {
+        if (filter === "FlateDecode" || filter === "Fl") return inflate(await result);
+        throw new Error(`Unsupported stream filter ${filter}`);
+      }, Promise.resolve(object.stream));
+      this.decoded.set(object, data);
+    }
+    return data;
+  }
+
+  private objectOf(ref: PdfValue | undefined): PdfObject | undefined {
+    return ref instanceof PdfRef ? this.objects.get(ref.num) : undefined;
+  }
+
+  /** Page dictionaries in order, from the page tree */
+  pages(): Map<string, PdfValue>[] {
+    const pages: Map<string, PdfValue>[] = [];
+    const visit = (node: PdfValue, depth: number) => {
+      if (!(node instanceof Map) || depth > 32) return;
+      if (dictName(node, "Type") === "Page") {
+        pages.push(node);
+        return;
+      }
+      const kids = this.get(node, "Kids");
+      if (Array.isArray(kids)) kids.forEach((kid) => visit(this.resolve(kid), depth + 1));
+    };
+
+    const catalog = [...this.objects.values()].find((o) => dictName(o.value, "Type") === "Catalog");
+    visit(this.get(catalog?.value ?? null, "Pages"), 0);
+    if (pages.length === 0) {
+      for (const object of this.objects.values()) {
+        if (dictName(object.value, "Type") === "Page") pages.push(object.value as Map<string, PdfValue>);
+      }
+    }
+    return pages;
+  }
+
+  /** A page attribute, inherited from the page tree */
+  private inherited(page: Map<string, PdfValue>, key: string): PdfValue {
+    let node: PdfValue = page;
+    for (let depth = 0; node instanceof Map && depth < 32; depth++) {
+      const value = this.get(node, key);
+      if (value !== null) return value;
+      node = this.get(node, "Parent");
+    }
+    return null;
+  }
+
+  private font(ref: PdfValue): Promise<PdfFont> {
+    let font = this.fonts.get(ref);
+    if (!font) {
+      font = this.loadFont(this.resolve(ref));
+      this.fonts.set(ref, font);
+    }
+    return font;
+  }
+
+  private async loadFont(dict: PdfValue): Promise<PdfFont> {
+    const toUnicodeObject = this.objectOf(dict instanceof Map ? dict.get("ToUnicode") : undefined);
+    const toUnicode = toUnicodeObject ? parseToUnicode(await this.streamData(toUnicodeObject)) : null;
+    const twoByte = dictName(dict, "Subtype") === "Type0";
+
+    const widths = new Map<number, number>();
+    let defaultWidth = 500;
+    if (twoByte) {
+      const descendants = this.get(dict, "DescendantFonts");
+      const descendant = this.resolve(Array.isArray(descendants) ? descendants[0] : null);
+      defaultWidth = Number(this.get(descendant, "DW") ?? 1000);
+      const w = this.get(descendant, "W");
+      if (Array.isArray(w)) {
+        for (let i = 0; i < w.length; ) {
+          const first = this.resolve(w[i]);
+          const next = this.resolve(w[i + 1]);
+          if (typeof first !== "number") break;
+          if (Array.isArray(next)) {
+            next.forEach((width, j) => widths.set(first + j, Number(this.resolve(width))));
+            i += 2;
+          } else {
+            const width = Number(this.resolve(w[i + 2]));
+            for (let code = first; code <= Number(next) && code - first < 0xffff; code++) widths.set(code, width);
+            i += 3;
+          }
+        }
+      }
+    } else {
+      const firstChar = Number(this.get(dict, "FirstChar") ?? 0);
+      const list = this.get(dict, "Widths");
+      if (Array.isArray(list)) list.forEach((width, i) => widths.set(firstChar + i, Number(this.resolve(width))));
+      if (/Courier/i.test(dictName(dict, "BaseFont") ?? "")) defaultWidth = 600;
+    }
+
+    const differences = new Map<number, string>();
+    const encoding = this.get(dict, "Encoding");
+    const diffList = this.get(encoding, "Differences");
+    if (Array.isArray(diffList)) {
+      let code = 0;
+      for (const entry of diffList) {
+        if (typeof entry === "number") code = entry;
+        else if (entry instanceof PdfName) differences.set(code++, glyphToChar(entry.name));
+      }
+    }
+
+    return {
+      twoByte,
+      decode: (code) =>
+        toUnicode?.get(code) ??
+        differences.get(code) ??
+        (twoByte ? "" : decodeText(Uint8Array.of(code), "windows-1252")),
+      width: (code) => widths.get(code) || defaultWidth,
+    };
+  }
+
+  /** The text of a page's content stream and the form XObjects it draws */
+  async pageText(page: Map<string, PdfValue>, pageNumber: number): Promise<PdfTextItem[]> {
+    const items: PdfTextItem[] = [];
+    const contents = page.get("Contents");
+    const refs = Array.isArray(this.resolve(contents)) ? (this.resolve(contents) as PdfValue[]) : [contents ?? null];
+    const parts: string[] = [];
+    for (const ref of refs) {
+      try {
+        parts.push(await this.streamData(this.objectOf(ref)));
+      } catch (error) {
+        this.errors.push(`Page ${pageNumber}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    await this.runContent(parts.join("\n"), this.inherited(page, "Resources"), [1, 0, 0, 1, 0, 0], pageNumber, items, 0);
+    return items;
+  }
+
+  private async runContent(
+    content: string,
+    resources: PdfValue,
+    initialCtm: Matrix,
+    pageNumber: number,
+    items: PdfTextItem[],
+    depth: number
+  ): Promise<void> {
+    const fontDict = this.get(resources, "Font");
+    const lexer = new PdfLexer(content);
+    const operands: PdfValue[] = [];
+    const stack: TextState[] = [];
+    let state: TextState = {
+      ctm: initialCtm, font: null, fontSize: 0, leading: 0, charSpacing: 0, wordSpacing: 0, scale: 1, rise: 0,
+    };
+    let tm: Matrix = IDENTITY;
+    let tlm: Matrix = IDENTITY;
+
+    const nextLine = (tx: number, ty: number) => {
+      tlm = multiply([1, 0, 0, 1, tx, ty], tlm);
+      tm = tlm;
+    };
+    const show = (bytes: string) => {
+      const font = state.font;
+      if (!font) return;
+      let text = "";
+      let advance = 0;
+      const step = font.twoByte ? 2 : 1;
+      for (let i = 0; i + step <= bytes.length; i += step) {
+        const code = step === 2 ? (bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1) : bytes.charCodeAt(i);
+        text += font.decode(code);
+        advance +=
+          ((font.width(code) / 1000) * state.fontSize + state.charSpacing + (step === 1 && code === 32 ? state.wordSpacing : 0)) *
+          state.scale;
+      }
+      const position = multiply(multiply([state.fontSize * state.scale, 0, 0, state.fontSize, 0, state.rise], tm), state.ctm);
+      const space = multiply(tm, state.ctm);
+      if (text.trim()) {
+        items.push({
+          page: pageNumber,
+          x: position[4],
+          y: position[5],
+          width: advance * Math.hypot(space[0], space[1]),
+          fontSize: Math.abs(state.fontSize * Math.hypot(space[2], space[3])),
+          text,
+        });
+      }
+      tm = multiply([1, 0, 0, 1, advance, 0], tm);
+    };
+    const numberAt = (i: number) => Number(operands[i] ?? 0);
+
+    for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+      if (!(token instanceof PdfOperator)) {
+        operands.push(token);
+        continue;
+      }
+      switch (token.op) {
+        case "q": stack.push({ ...state }); break;
+        case "Q": state = stack.pop() ?? state; break;
+        case "cm": state.ctm = multiply([0, 1, 2, 3, 4, 5].map(numberAt) as Matrix, state.ctm); break;
+        case "BT": tm = tlm = IDENTITY; break;
+        case "Tf": {
+          const name = operands[0];
+          const ref = name instanceof PdfName && fontDict instanceof Map ? fontDict.get(name.name) : undefined;
+          state.font = ref === undefined ? null : await this.font(ref);
+          state.fontSize = numberAt(1);
+          break;
+        }
+        case "Td": nextLine(numberAt(0), numberAt(1)); break;
+        case "TD": state.leading = -numberAt(1); nextLine(numberAt(0), numberAt(1)); break;
+        case "Tm": tm = tlm = [0, 1, 2, 3, 4, 5].map(numberAt) as Matrix; break;
+        case "T*": nextLine(0, -state.leading); break;
+        case "TL": state.leading = numberAt(0); break;
+        case "Tc": state.charSpacing = numberAt(0); break;
+        case "Tw": state.wordSpacing = numberAt(0); break;
+        case "Tz": state.scale = numberAt(0) / 100; break;
+        case "Ts": state.rise = numberAt(0); break;
+        case "Tj":
+          if (operands[0] instanceof PdfString) show(operands[0].bytes);
+          break;
+        case "'":
+          nextLine(0, -state.leading);
+          if (operands[0] instanceof PdfString) show(operands[0].bytes);
+          break;
+        case '"':
+          state.wordSpacing = numberAt(0);
+          state.charSpacing = numberAt(1);
+          nextLine(0, -state.leading);
+          if (operands[2] instanceof PdfString) show(operands[2].bytes);
+          break;
+        case "TJ":
+          for (const part of Array.isArray(operands[0]) ? operands[0] : []) {
+            if (part instanceof PdfString) show(part.bytes);
+            else if (typeof part === "number") tm = multiply([1, 0, 0, 1, (-part / 1000) * state.fontSize * state.scale, 0], tm);
+          }
+          break;
+        case "BI": {
+          // Inline image data is binary; skip to its end
+          const end = /\sEI(?=[\s]|$)/.exec(content.slice(lexer.pos));
+          lexer.pos = end ? lexer.pos + end.index + end[0].length : content.length;
+          break;
+        }
+        case "Do": {
+          const name = operands[0];
+          const xobjects = this.get(resources, "XObject");
+          const ref = name instanceof PdfName && xobjects instanceof Map ? xobjects.get(name.name) : undefined;
+          const object = this.objectOf(ref);
+          if (object && dictName(object.value, "Subtype") === "Form" && depth < 8) {
+            const matrix = this.get(object.value, "Matrix");
+            const formCtm = Array.isArray(matrix) && matrix.length === 6
+              ? multiply(matrix.map((v) => Number(this.resolve(v))) as Matrix, state.ctm)
+              : state.ctm;
+            try {
+              await this.runContent(
+                await this.streamData(object),
+                this.get(object.value, "Resources") ?? resources,
+                formCtm,
+                pageNumber,
+                items,
+                depth + 1
+              );
+            } catch (error) {
+              this.errors.push(`Page ${pageNumber}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+          }
+          break;
+        }
+      }
+      operands.length = 0;
+    }
+  }
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+interface TextState {
+  ctm: Matrix;
+  font: PdfFont | null;
+  fontSize: number;
+  leading: number;
+  charSpacing: number;
+  wordSpacing: number;
+  scale: number;
+  rise: number;
+}
+
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5],
+  ];
+}
+
+/**
+ * Extract the positioned text of every page of a PDF. Pages that cannot be
+ * read are described in `errors` rather than failing the whole file.
+ */
+export async function extractPdfText(
+  input: ArrayBuffer | Uint8Array
+): Promise<{ pageCount: number; items: PdfTextItem[]; errors: string[] }> {
+  const document = new PdfDocument(decodeText(input, "iso-8859-1"));
+  await document.load();
+  const pages = document.pages();
+  const items: PdfTextItem[] = [];
+  for (const [index, page] of pages.entries()) {
+    try {
+      items.push(...(await document.pageText(page, index + 1)));
+    } catch (error) {
+      document.errors.push(`Page ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return { pageCount: pages.length, items, errors: document.errors };
+}
+
+/**
+ * Group text into lines, top to bottom, and each line's runs into cells:
+ * runs closer than about a character apart are joined, with a space where
+ * there is a gap between words. Columns of a table end up as separate cells.
+ */
+export function groupPdfTextLines(items: PdfTextItem[]): PdfTextLine[] {
+  const sorted = [...items].sort((a, b) => a.page - b.page || b.y - a.y || a.x - b.x);
+  const lines: Array<PdfTextLine & { items: PdfTextItem[] }> = [];
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && line.page === item.page && Math.abs(line.y - item.y) <= Math.max(line.fontSize, item.fontSize) * 0.35) {
+      line.items.push(item);
+      line.fontSize = Math.max(line.fontSize, item.fontSize);
+    } else {
+      lines.push({ page: item.page, y: item.y, fontSize: item.fontSize, cells: [], items: [item] });
+    }
+  }
+
+  return lines.map(({ items: lineItems, ...line }) => {
+    const cells: PdfTextCell[] = [];
+    for (const item of lineItems.sort((a, b) => a.x - b.x)) {
+      const cell = cells[cells.length - 1];
+      const gap = cell ? item.x - cell.xEnd : Infinity;
+      if (cell && gap < line.fontSize * 0.8) {
+        const separator = gap > line.fontSize * 0.15 && !cell.text.endsWith(" ") && !item.text.startsWith(" ") ? " " : "";
+        cell.text += separator + item.text;
+        cell.xEnd = Math.max(cell.xEnd, item.x + item.width);
+      } else {
+        cells.push({ x: item.x, xEnd: item.x + item.width, text: item.text });
+      }
+    }
+    return {
+      ...line,
+      cells: cells
+        .map((cell) => ({ ...cell, text: cell.text.replace(/\s+/g, " ").trim() }))
+        .filter((cell) => cell.text !== ""),
+    };
+  });
+}
@@ -10,6 +10,7 @@
 import type {
   BalanceSheetReport,
   ReportLineItem,
+  ReportPeriodColumn,
   ReportTimeFrame,
   AccountBalance,
 } from "../../types/report";
@@ -17,7 +18,24 @@ import type {
 import {
   getAccountBalances,
   getAccountsByType,
+  getUnclosedEarnings,
 } from "../accounting/core/accounting-api";
+import {
+  getConsolidatedBalances,
+  getConsolidationGroup,
+} from "./consolidation";
+import { assertDimensionsSupported, generateSegments } from "./dimensions";
+import { addGeneralLedgerDrillDowns } from "./general-ledger";
+import {
+  addPeriodColumns,
+  assertPeriodsWithin,
+  generatePeriodReports,
+} from "./periods";
+import {
+  hasDimensions,
+  type Dimension,
+  type DimensionFilter,
+} from "../accounting/core/dimensions";
 import { formatCurrency } from "../../utils/format";
 import type { D1Database } from "@cloudflare/workers-types";
 
@@ -46,6 +64,8 @@ const ASSET_ACCOUNT_TYPES = [
   "BANK",
   "ACCOUNTS_RECEIVABLE",
   "INVENTORY",
+  "PREPAID_EXPENSE",
+  "OTHER_CURRENT_ASSET",
 ];
 const LIABILITY_ACCOUNT_TYPES = [
   "LIABILITY",
@@ -54,6 +74,11 @@ const LIABILITY_ACCOUNT_TYPES = [
   "OTHER_LIABILITY",
   "ACCOUNTS_PAYABLE",
   "CREDIT_CARD",
+  "UNEARNED_REVENUE",
+  "ACCRUED_LIABILITY",
+  "OTHER_CURRENT_LIABILITY",
+  "LOAN",
+  "NOTE_PAYABLE",
 ];
 const EQUITY_ACCOUNT_TYPES = [
   "EQUITY",
@@ -71,11 +96,16 @@ const CURRENT_ASSET_TYPES = [
   "BANK",
   "ACCOUNTS_RECEIVABLE",
   "INVENTORY",
+  "PREPAID_EXPENSE",
+  "OTHER_CURRENT_ASSET",
 ];
 const CURRENT_LIABILITY_TYPES = [
   "CURRENT_LIABILITY",
   "ACCOUNTS_PAYABLE",
   "CREDIT_CARD",
+  "UNEARNED_REVENUE",
+  "ACCRUED_LIABILITY",
+  "OTHER_CURRENT_LIABILITY",
 ];
 
 /**
@@ -98,6 +128,18 @@ export interface BalanceSheetOptions {
   chartOfAccountsId?: string;
   /** Currency code */
   currencyCode?: string;
+  /** Month the entity's fiscal year starts (0-11, default: 0 = January) */
+  fiscalYearStartMonth?: number;
+  /** Whether to consolidate the entity with all of its descendants */
+  consolidate?: boolean;
+  /** Only include lines tagged with these dimensions */
+  dimensions?: DimensionFilter | undefined;
+  /** Add a segment per value of this dimension */
+  groupBy?: Dimension | undefined;
+  /** Side-by-side balance sheets as of each column's end date, none after asOfDate */
+  periods?: ReportPeriodColumn[] | undefined;
+  /** Whether to add the change from one period column to the next */
+  includePeriodVariance?: boolean | undefined;
   /** Database connection */
   db: D1Database;
   /** User ID generating the report */
@@ -121,50 +163,117 @@ export async function generateBalanceSheet(
     includeComparison = false,
     includeAccountDetails = true,
     currencyCode = "USD", // currencyCode is now used
+    fiscalYearStartMonth = 0,
+    consolidate = false,
+    dimensions,
+    groupBy,
+    periods,
+    includePeriodVariance = false,
     db,
     userId,
   } = options;
+  assertDimensionsSupported({ consolidate, dimensions, groupBy });
+  if (periods) {
+    assertPeriodsWithin(periods, { endDate: asOfDate });
+  }
 
-  // 1. Fetch all relevant account balances
-  const accountBalances: AccountBalance[] = await getAccountBalances({
-    entityId,
-    asOfDate,
-    accountTypes: [
-      ...ASSET_ACCOUNT_TYPES,
-      ...LIABILITY_ACCOUNT_TYPES,
-      ...EQUITY_ACCOUNT_TYPES,
-    ],
-    db,
-  });
+  const accountTypes = [
+    ...ASSET_ACCOUNT_TYPES,
+    ...LIABILITY_ACCOUNT_TYPES,
+    ...EQUITY_ACCOUNT_TYPES,
+  ];
 
-  // 2. If comparison is requested, fetch previous period balances
+  let accountBalances: AccountBalance[];
   let previousBalances: AccountBalance[] = [];
-  if (includeComparison && previousDate) {
-    previousBalances = await getAccountBalances({
+  let accounts: Account[];
+  let earnings: { priorYears: number; currentYear: number };
+  let previousEarnings: { priorYears: number; currentYear: number } | undefined;
+  let minorityInterest: { amount: number; previousAmount: number } | undefined;
+  let consolidatedEntityIds: string[] | undefined;
+
+  if (consolidate) {
+    // 1-4. Roll the entity up with all of its descendants. Balances come
+    // back combined by account code with intercompany balances eliminated
+    // and the minority owners' share of equity split out.
+    const members = await getConsolidationGroup({ entityId, userId, db });
+    const current = await getConsolidatedBalances({
+      members,
+      asOfDate,
+      accountTypes,
+      fiscalYearStartMonth,
+      db,
+    });
+    const previous =
+      includeComparison && previousDate
+        ? await getConsolidatedBalances({
+            members,
+            asOfDate: previousDate,
+            accountTypes,
+            fiscalYearStartMonth,
+            db,
+          })
+        : undefined;
+
+    accountBalances = current.accountBalances;
+    previousBalances = previous?.accountBalances ?? [];
+    accounts = current.accounts;
+    earnings = current.earnings;
+    previousEarnings = previous?.earnings;
+    minorityInterest = {
+      amount: current.minorityInterest,
+      previousAmount: previous?.minorityInterest ?? 0,
+    };
+    consolidatedEntityIds = members.map((member) => member.entityId);
+  } else {
+    // 1. Fetch all relevant account balances
+    accountBalances = await getAccountBalances({
       entityId,
-      asOfDate: previousDate,
-      accountTypes: [
-        ...ASSET_ACCOUNT_TYPES,
-        ...LIABILITY_ACCOUNT_TYPES,
-        ...EQUITY_ACCOUNT_TYPES,
-      ],
+      asOfDate,
+      accountTypes,
+      dimensions,
       db,
     });
-  }
 
-  // 3. Fetch account information for categorization
-  // Ensure getAccountsByType returns Promise<Account[]>
-  const accounts: Account[] = await getAccountsByType({
-    entityId,
-    types: [
-      ...ASSET_ACCOUNT_TYPES,
-      ...LIABILITY_ACCOUNT_TYPES,
-      ...EQUITY_ACCOUNT_TYPES,
-    ],
-    db,
-  });
+    // 2. If comparison is requested, fetch previous period balances
+    if (includeComparison && previousDate) {
+      previousBalances = await getAccountBalances({
+        entityId,
+        asOfDate: previousDate,
+        accountTypes,
+        dimensions,
+        db,
+      });
+    }
 
-  // 4. Create an account lookup map for easier access
+    // 3. Fetch account information for categorization
+    accounts = await getAccountsByType({
+      entityId,
+      types: accountTypes,
+      db,
+    });
+
+    // 4. Earnings not yet closed into retained earnings are shown as
+    // separate calculated lines in the equity section.
+    earnings = await getUnclosedEarnings({
+      entityId,
+      asOfDate,
+      fiscalYearStartMonth,
+      dimensions,
+      db,
+    });
+    previousEarnings =
+      includeComparison && previousDate
+        ? await getUnclosedEarnings({
+            entityId,
+            asOfDate: previousDate,
+            fiscalYearStartMonth,
+            dimensions,
+            db,
+          })
+        : undefined;
+  }
+
+  // Create an account lookup map for easier access
   const accountMap = new Map<string, Account>(); // Typed the Map
   accounts.forEach((account: Account) => {
     // Explicitly type 'account'
@@ -192,14 +301,17 @@ export async function generateBalanceSheet(
     accountBalances,
     previousBalances,
     accountMap,
-    includeComparison
+    includeComparison,
+    earnings,
+    previousEarnings,
+    minorityInterest
   );
 
   // 8. Generate the report
   const report: BalanceSheetReport = {
     id: crypto.randomUUID(),
     type: "balance-sheet",
-    title: `Balance Sheet - ${new Date(asOfDate).toLocaleDateString()}`,
+    title: `${consolidate ? "Consolidated " : ""}Balance Sheet - ${new Date(asOfDate).toLocaleDateString()}`,
     timeFrame: timeFrame,
     entityId: entityId,
     generatedAt: new Date().toISOString(),
@@ -222,13 +334,85 @@ export async function generateBalanceSheet(
     },
     currencyCode: currencyCode, // Added currencyCode to the report object
     accountBalances: includeAccountDetails ? accountBalances : [],
+    ...(consolidatedEntityIds ? { consolidatedEntityIds } : {}),
+    ...(dimensions && hasDimensions(dimensions) ? { dimensions } : {}),
   };
 
-  // Verify the balance sheet equation: Assets = Liabilities + Equity
+  // Link account lines to their postings in the general ledger. Consolidated
+  // lines span several entities' ledgers, so they have no single one to open.
+  if (!consolidate) {
+    const drillDown = {
+      entityId,
+      endDate: asOfDate.slice(0, 10),
+      ...(dimensions && hasDimensions(dimensions) ? { dimensions } : {}),
+    };
+    for (const items of [
+      assets.current,
+      assets.longTerm,
+      liabilities.current,
+      liabilities.longTerm,
+      equity.items,
+    ]) {
+      addGeneralLedgerDrillDowns(items, drillDown);
+    }
+  }
+
+  if (periods) {
+    const periodReports = await generatePeriodReports(periods, (period) =>
+      generateBalanceSheet({
+        ...options,
+        asOfDate: period.endDate,
+        includeComparison: false,
+        groupBy: undefined,
+        periods: undefined,
+      })
+    );
+    const lineKey = (item: ReportLineItem) => item.accountId || item.code || "";
+    const sections: Array<(r: BalanceSheetReport) => ReportLineItem[]> = [
+      (r) => r.assets.current,
+      (r) => r.assets.longTerm,
+      (r) => r.liabilities.current,
+      (r) => r.liabilities.longTerm,
+      (r) => r.equity.items,
+    ];
+    for (const section of sections) {
+      addPeriodColumns(
+        section(report),
+        periodReports.map(section),
+        lineKey,
+        includePeriodVariance
+      );
+    }
+    report.periodColumns = periods;
+    report.periodTotals = {
+      totalAssets: periodReports.map((r) => r.assets.total),
+      totalLiabilities: periodReports.map((r) => r.liabilities.total),
+      totalEquity: periodReports.map((r) => r.equity.total),
+    };
+  }
+
+  if (groupBy) {
+    report.segments = await generateSegments({
+      entityId,
+      dimension: groupBy,
+      dimensions,
+      endDate: asOfDate,
+      db,
+      generate: (segmentDimensions) =>
+        generateBalanceSheet({
+          ...options,
+          dimensions: segmentDimensions,
+          groupBy: undefined,
+        }),
+    });
+  }
+
+  // Verify the balance sheet equation: Assets = Liabilities + Equity. Only
+  // the full ledger has to balance; a slice of it by dimension need not.
   const totalLiabilitiesAndEquity = liabilities.total + equity.total;
   const isBalanced = Math.abs(assets.total - totalLiabilitiesAndEquity) < 0.01; // Allow for small rounding errors
 
-  if (!isBalanced) {
+  if (!isBalanced && !hasDimensions(dimensions)) {
     console.warn(
       `Balance sheet equation doesn't balance. Assets: ${assets.total}, Liabilities + Equity: ${totalLiabilitiesAndEquity}, Difference: ${assets.total - totalLiabilitiesAndEquity}`
     );
@@ -312,10 +496,10 @@ function processAssetSection(
 
   // Sort both arrays by account code or order
   currentAssets.sort(
-    (a, b) => (a.order ?? 0) - (b.order ?? 0) || a.code.localeCompare(b.code)
+    (a, b) => (a.order ?? 0) - (b.order ?? 0) || (a.code ?? "").localeCompare(b.code ?? "")
   );
   longTermAssets.sort(
-    (a, b) => (a.order ?? 0) - (b.order ?? 0) || a.code.localeCompare(b.code)
+    (a, b) => (a.order ?? 0) - (b.order ?? 0) || (a.code ?? "").localeCompare(b.code ?? "")
   );
 
   // Add subtotals for current assets
@@ -432,10 +616,10 @@ function processLiabilitySection(
   });
 
   currentLiabilities.sort(
-    (a, b) => (a.order ?? 0) - (b.order ?? 0) || a.code.localeCompare(b.code)
+    (a, b) => (a.order ?? 0) - (b.order ?? 0) || (a.code ?? "").localeCompare(b.code ?? "")
   );
   longTermLiabilities.sort(
-    (a, b) => (a.order ?? 0) - (b.order ?? 0) || a.code.localeCompare(b.code)
+    (a, b) => (a.order ?? 0) - (b.order ?? 0) || (a.code ?? "").localeCompare(b.code ?? "")
   );
 
   const currentLiabilitiesTotal = currentLiabilities.reduce(
@@ -484,7 +668,10 @@ function processEquitySection(
   accountBalances: AccountBalance[],
   previousBalances: AccountBalance[],
   accountMap: Map<string, Account>, // Use the Account type
-  includeComparison: boolean
+  includeComparison: boolean,
+  earnings: { priorYears: number; currentYear: number },
+  previousEarnings?: { priorYears: number; currentYear: number },
+  minorityInterest?: { amount: number; previousAmount: number }
 ): { items: ReportLineItem[]; total: number } {
   const equityBalances = accountBalances.filter((balance) => {
     const account = accountMap.get(balance.accountId);
@@ -540,9 +727,67 @@ function processEquitySection(
   });
 
   equityItems.sort(
-    (a, b) => (a.order ?? 0) - (b.order ?? 0) || a.code.localeCompare(b.code)
+    (a, b) => (a.order ?? 0) - (b.order ?? 0) || (a.code ?? "").localeCompare(b.code ?? "")
   );
 
+  // Closed years already sit in retained earnings; only earnings from years
+  // that have not been closed are added here.
+  const earningsLines = [
+    {
+      code: "PRIOR_YEARS_EARNINGS",
+      name: "Prior Years' Earnings (Unclosed)",
+      amount: earnings.priorYears,
+      previousAmount: previousEarnings?.priorYears ?? 0,
+      order: 900,
+    },
+    {
+      code: "CURRENT_YEAR_EARNINGS",
+      name: "Current Year Earnings",
+      amount: earnings.currentYear,
+      previousAmount: previousEarnings?.currentYear ?? 0,
+      order: 901,
+    },
+  ];
+  earningsLines.forEach(({ previousAmount, ...line }) => {
+    if (line.code === "PRIOR_YEARS_EARNINGS" && line.amount === 0 && previousAmount === 0) {
+      return;
+    }
+    const lineItem: ReportLineItem = { ...line, isCalculated: true };
+    if (includeComparison) {
+      lineItem.previousAmount = previousAmount;
+      lineItem.percentChange =
+        previousAmount !== 0
+          ? ((line.amount - previousAmount) / Math.abs(previousAmount)) * 100
+          : line.amount !== 0
+            ? 100
+            : 0;
+    }
+    equityItems.push(lineItem);
+  });
+
+  // On consolidated reports, the part of partly owned members' equity that
+  // belongs to outside owners
+  if (minorityInterest) {
+    const { amount, previousAmount } = minorityInterest;
+    const lineItem: ReportLineItem = {
+      code: "MINORITY_INTEREST",
+      name: "Minority Interest",
+      amount,
+      isCalculated: true,
+      order: 950,
+    };
+    if (includeComparison) {
+      lineItem.previousAmount = previousAmount;
+      lineItem.percentChange =
+        previousAmount !== 0
+          ? ((amount - previousAmount) / Math.abs(previousAmount)) * 100
+          : amount !== 0
+            ? 100
+            : 0;
+    }
+    equityItems.push(lineItem);
+  }
+
   const totalEquity = equityItems.reduce(
     (sum, equity) => sum + equity.amount,
     0
@@ -597,6 +842,11 @@ export function formatBalanceSheet(
       if (item.percentChange !== undefined) {
         item.formattedPercentChange = `${item.percentChange.toFixed(2)}%`;
       }
+      if (item.periodAmounts) {
+        item.formattedPeriodAmounts = item.periodAmounts.map((amount) =>
+          formatCurrency(amount, resolvedCurrencyCode)
+        );
+      }
     });
   };
 
@@ -611,6 +861,13 @@ export function formatBalanceSheet(
   // Format equity amounts
   formatLineItems(formattedReport.equity.items);
 
+  if (formattedReport.segments) {
+    formattedReport.segments = formattedReport.segments.map((segment) => ({
+      ...segment,
+      report: formatBalanceSheet(segment.report, resolvedCurrencyCode),
+    }));
+  }
+
   return formattedReport;
 }
 
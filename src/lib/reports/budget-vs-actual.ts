@@ -0,0 +1,259 @@
+// src/lib/reports/budget-vs-actual.ts
+/**
+ * Budget vs. Actual Report Generator
+ *
+ * Compares the income and expense posted in a period with a budget of the
+ * entity, account by account. Budgets are monthly; a period that covers part
+ * of a month is compared with that month's budget pro rata by day.
+ */
+
+import type {
+  BudgetVarianceLineItem,
+  BudgetVarianceTotals,
+  BudgetVsActualReport,
+  BudgetVsActualSection,
+  ReportTimeFrame,
+} from "../../types/report";
+import type { AnomalyDetectionResult } from "../../types/intelligence";
+import type { AccountSystemType } from "../../types/accounting";
+import {
+  getAccountsByType,
+  getTransactionTotals,
+} from "../accounting/core/accounting-api";
+import {
+  calculateVariance,
+  getBudgetForRange,
+} from "../accounting/core/budget";
+import { createBudgetService } from "../services/budget-service";
+import { NotFoundError } from "../../utils/errors";
+import { formatCurrency } from "../../utils/format";
+import type { D1Database } from "@cloudflare/workers-types";
+
+/**
+ * Options for generating a budget vs. actual report
+ */
+export interface BudgetVsActualOptions {
+  /** Entity ID to generate the report for */
+  entityId: string;
+  /** Budget to compare against */
+  budgetId: string;
+  /** Time frame for the report */
+  timeFrame: ReportTimeFrame;
+  /** Start date of the period (ISO format) */
+  startDate: string;
+  /** End date of the period (ISO format) */
+  endDate: string;
+  /** Currency code */
+  currencyCode?: string;
+  /** Database connection */
+  db: D1Database;
+  /** User ID generating the report */
+  userId: string;
+}
+
+/**
+ * Generate a budget vs. actual report
+ *
+ * @param options Report generation options
+ * @returns Budget vs. actual report
+ */
+export async function generateBudgetVsActual(
+  options: BudgetVsActualOptions
+): Promise<BudgetVsActualReport> {
+  const {
+    entityId,
+    budgetId,
+    timeFrame,
+    startDate,
+    endDate,
+    currencyCode = "USD",
+    db,
+    userId,
+  } = options;
+
+  // 1. Load the budget and its amounts for the period
+  const budgetService = createBudgetService(db);
+  const budget = await budgetService.getBudgetById(budgetId);
+  if (!budget || budget.entity_id !== entityId) {
+    throw new NotFoundError("Budget not found.", "BUDGET_NOT_FOUND");
+  }
+  const budgeted = getBudgetForRange(
+    await budgetService.getBudgetAmounts(budgetId),
+    startDate.slice(0, 10),
+    endDate.slice(0, 10)
+  );
+
+  // 2. Fetch the actual totals and the accounts they belong to
+  const accountTypes = ["INCOME", "EXPENSE"];
+  const transactionTotals = await getTransactionTotals({
+    entityId,
+    startDate,
+    endDate,
+    accountTypes,
+    db,
+  });
+  const accounts = await getAccountsByType({ entityId, types: accountTypes, db });
+  const actuals = new Map(transactionTotals.map((t) => [t.accountId, t.total]));
+
+  // 3. Compare account by account. Budgets are kept per entity account,
+  // actuals per chart-of-accounts entry.
+  const revenueItems: BudgetVarianceLineItem[] = [];
+  const expenseItems: BudgetVarianceLineItem[] = [];
+  for (const account of accounts) {
+    const budgetAmount = (budgeted.get(account.entityAccountId) ?? 0) / 100;
+    const actualAmount = actuals.get(account.id) ?? 0;
+    if (budgetAmount === 0 && actualAmount === 0) continue;
+
+    const variance = calculateVariance(budgetAmount, actualAmount, account.systemType);
+    const item: BudgetVarianceLineItem = {
+      accountId: account.id,
+      accountCode: account.code,
+      lineItemName: account.name,
+      budgetAmount,
+      actualAmount,
+      varianceAmount: variance.variance,
+      variancePercentage: variance.variancePercent,
+      isFavorable: variance.favorable,
+      displayOrder: account.displayOrder,
+    };
+    (account.systemType === "income" ? revenueItems : expenseItems).push(item);
+  }
+
+  const revenue = buildSection(revenueItems, "income");
+  const expenses = buildSection(expenseItems, "expense");
+
+  // 4. Generate the report
+  return {
+    id: crypto.randomUUID(),
+    type: "budget-vs-actual",
+    title: `Budget vs. Actual (${budget.name}) - ${new Date(startDate).toLocaleDateString()} to ${new Date(endDate).toLocaleDateString()}`,
+    timeFrame,
+    entityId,
+    generatedAt: Math.floor(Date.now() / 1000),
+    generatedByUserId: userId,
+    isFinalized: false,
+    currencyCode,
+    budgetId: budget.id,
+    budgetName: budget.name,
+    budgetVersion: budget.version,
+    revenue,
+    expenses,
+    netIncome: toTotals(
+      revenue.totals.budgetAmount - expenses.totals.budgetAmount,
+      revenue.totals.actualAmount - expenses.totals.actualAmount,
+      "income"
+    ),
+  };
+}
+
+function toTotals(
+  budgetAmount: number,
+  actualAmount: number,
+  systemType: AccountSystemType
+): BudgetVarianceTotals {
+  const variance = calculateVariance(
+    Math.round(budgetAmount * 100) / 100,
+    Math.round(actualAmount * 100) / 100,
+    systemType
+  );
+  return {
+    budgetAmount: variance.budget,
+    actualAmount: variance.actual,
+    varianceAmount: variance.variance,
+    variancePercentage: variance.variancePercent,
+    isFavorable: variance.favorable,
+  };
+}
+
+function buildSection(
+  items: BudgetVarianceLineItem[],
+  systemType: AccountSystemType
+): BudgetVsActualSection {
+  return {
+    items,
+    totals: toTotals(
+      items.reduce((sum, item) => sum + item.budgetAmount, 0),
+      items.reduce((sum, item) => sum + item.actualAmount, 0),
+      systemType
+    ),
+  };
+}
+
+/**
+ * Flag the accounts of a budget vs. actual report whose actuals are worse
+ * than budgeted by more than `thresholdPercent` of the budget. Accounts with
+ * no budget are flagged when they carry any unfavorable amount.
+ */
+export function getBudgetVarianceAlerts(
+  report: BudgetVsActualReport,
+  thresholdPercent = 10
+): AnomalyDetectionResult[] {
+  const detectedAt = Math.floor(Date.now() / 1000);
+  return [...report.revenue.items, ...report.expenses.items]
+    .filter(
+      (item) =>
+        !item.isFavorable &&
+        (item.variancePercentage === null ||
+          Math.abs(item.variancePercentage) > thresholdPercent)
+    )
+    .map((item) => {
+      const percent = item.variancePercentage;
+      return {
+        id: crypto.randomUUID(),
+        entity_id: report.entityId,
+        type: "budget_variance_alert",
+        severity_level:
+          percent === null || Math.abs(percent) > thresholdPercent * 3
+            ? "high"
+            : Math.abs(percent) > thresholdPercent * 2
+              ? "medium"
+              : "low",
+        detection_confidence: 1,
+        affected_transaction_ids: [],
+        monetary_value_involved: item.varianceAmount,
+        anomaly_description:
+          percent === null
+            ? `${item.lineItemName} has ${item.actualAmount} of activity but no budget.`
+            : `${item.lineItemName} is ${Math.abs(percent)}% ${item.varianceAmount > 0 ? "over" : "under"} budget.`,
+        anomaly_details_data: {
+          expected_value_range: { min_val: item.budgetAmount, max_val: item.budgetAmount },
+          actual_observed_value: item.actualAmount,
+          deviation_percentage_from_norm: percent,
+          pattern_description_text: `${report.budgetName} (${report.budgetVersion}), ${report.timeFrame.startDate} to ${report.timeFrame.endDate}`,
+        },
+        detected_at: detectedAt,
+        resolution_status: "new",
+      };
+    });
+}
+
+/**
+ * Format a budget vs. actual report for display
+ *
+ * @param report Budget vs. actual report to format
+ * @param currencyCode Currency code to use for formatting
+ * @returns Formatted budget vs. actual report
+ */
+export function formatBudgetVsActual(
+  report: BudgetVsActualReport,
+  currencyCode = "USD"
+): BudgetVsActualReport {
+  // Create a deep copy to avoid modifying the original
+  const formattedReport = JSON.parse(
+    JSON.stringify(report)
+  ) as BudgetVsActualReport;
+
+  const format = (amounts: BudgetVarianceLineItem | BudgetVarianceTotals) => {
+    amounts.formattedBudgetAmount = formatCurrency(amounts.budgetAmount, currencyCode);
+    amounts.formattedActualAmount = formatCurrency(amounts.actualAmount, currencyCode);
+    amounts.formattedVarianceAmount = formatCurrency(amounts.varianceAmount, currencyCode);
+  };
+
+  for (const section of [formattedReport.revenue, formattedReport.expenses]) {
+    section.items.forEach(format);
+    format(section.totals);
+  }
+  format(formattedReport.netIncome);
+
+  return formattedReport;
+}
@@ -0,0 +1,712 @@
+// src/lib/reports/builder.ts
+/**
+ * Custom Report Builder
+ *
+ * Runs a `CustomReportConfiguration` against the ledger: one row per selected
+ * account, one value per configured column. A configuration is compiled
+ * first, which checks it and splits its filters between the ones the ledger
+ * query applies (line dimensions and transaction dates) and the ones applied
+ * to the finished rows (account fields and column values).
+ *
+ * Columns read account fields (`metadata_field`), balances at the start or
+ * end of the period (`account_balance`), activity in the period
+ * (`account_activity`), fixed text (`static_text`) or arithmetic over other
+ * columns (`calculated_formula`, e.g. `{actual} - {budget}`). Amounts are
+ * currency units on the account's normal-balance side.
+ */
+
+import type {
+  CustomGeneratedReport,
+  CustomReportColumnDefinition,
+  CustomReportConfiguration,
+  ReportTimeFrame,
+} from "../../types/report";
+import {
+  getGeneralLedgerActivity,
+  type ReportAccount,
+} from "../accounting/core/accounting-api";
+import {
+  hasDimensions,
+  type DimensionFilter,
+} from "../accounting/core/dimensions";
+import { ValidationError } from "../../utils/errors";
+import type { D1Database } from "@cloudflare/workers-types";
+
+/** Posted activity of one account, as loaded for the report period */
+export type CustomReportAccountActivity = Awaited<
+  ReturnType<typeof getGeneralLedgerActivity>
+>[number];
+
+export type CustomReportValue = string | number | boolean | null;
+export type CustomReportRow = Record<string, CustomReportValue>;
+
+/** Account fields columns, filters, grouping and sorting can refer to */
+const ACCOUNT_FIELDS: Record<string, (account: ReportAccount) => CustomReportValue> = {
+  "account.id": (account) => account.id,
+  "account.code": (account) => account.code,
+  "account.name": (account) => account.name,
+  "account.type": (account) => account.systemType,
+  "account.category": (account) => account.type,
+  "account.subtype": (account) => account.subtype,
+  "account.parentId": (account) => account.parentAccountId,
+  "account.isActive": (account) => account.isActive,
+};
+
+const BALANCE_SOURCES = ["closing", "opening"] as const;
+const ACTIVITY_SOURCES = ["net", "debits", "credits", "lines"] as const;
+const LINE_FIELDS = ["line.propertyId", "line.unitId", "line.className", "line.tags"] as const;
+
+/** Row keys that are not column IDs; column IDs cannot start with "_" */
+const ROW_TYPE_KEY = "_rowType";
+const ACCOUNT_ID_KEY = "_accountId";
+const GROUP_KEY = "_group";
+
+/** Key of a column's value in the comparison period */
+export function comparisonKey(columnId: string): string {
+  return `${columnId}:comparison`;
+}
+
+// ----------------
+// Formulas
+// ----------------
+
+type FormulaNode =
+  | { kind: "number"; value: number }
+  | { kind: "column"; id: string }
+  | { kind: "negate"; operand: FormulaNode }
+  | { kind: "binary"; operator: "+" | "-" | "*" | "/"; left: FormulaNode; right: FormulaNode };
+
+type FormulaToken =
+  | { type: "number"; value: number }
+  | { type: "column"; id: string }
+  | { type: "symbol"; value: string };
+
+const FORMULA_TOKEN = /\s*(?:(\d+(?:\.\d+)?)|\{\s*([^}]+?)\s*\}|([A-Za-z]\w*)|([-+*/()]))/y;
+
+function tokenizeFormula(expression: string): FormulaToken[] {
+  const tokens: FormulaToken[] = [];
+  let index = 0;
+  while (expression.slice(index).trim() !== "") {
+    FORMULA_TOKEN.lastIndex = index;
+    const match = FORMULA_TOKEN.exec(expression);
+    if (!match) {
+      throw new ValidationError(
+        `Unexpected "${expression.slice(index).trim().charAt(0)}" in formula "${expression}".`
+      );
+    }
+    if (match[1] !== undefined) tokens.push({ type: "number", value: Number(match[1]) });
+    else if (match[2] !== undefined) tokens.push({ type: "column", id: match[2] });
+    else if (match[3] !== undefined) tokens.push({ type: "column", id: match[3] });
+    else tokens.push({ type: "symbol", value: match[4] ?? "" });
+    index = FORMULA_TOKEN.lastIndex;
+  }
+  return tokens;
+}
+
+/**
+ * Parse a formula of numbers, column references (`{id}` or a bare ID),
+ * + - * / and parentheses.
+ */
+export function parseFormula(expression: string): FormulaNode {
+  const tokens = tokenizeFormula(expression);
+  let position = 0;
+  const fail = (): never => {
+    throw new ValidationError(`Formula "${expression}" is not a valid expression.`);
+  };
+  const isSymbol = (value: string) => {
+    const token = tokens[position];
+    return token?.type === "symbol" && token.value === value;
+  };
+
+  const parseFactor = (): FormulaNode => {
+    const token = tokens[position++];
+    if (!token) return fail();
+    if (token.type === "number") return { kind: "number", value: token.value };
+    if (token.type === "column") return { kind: "column", id: token.id };
+    if (token.value === "-") return { kind: "negate", operand: parseFactor() };
+    if (token.value === "(") {
+      const inner = parseSum();
+      if (!isSymbol(")")) fail();
+      position++;
+      return inner;
+    }
+    return fail();
+  };
+  const parseProduct = (): FormulaNode => {
+    let node = parseFactor();
+    while (isSymbol("*") || isSymbol("/")) {
+      const operator = (tokens[position++] as { value: "*" | "/" }).value;
+      node = { kind: "binary", operator, left: node, right: parseFactor() };
+    }
+    return node;
+  };
+  const parseSum = (): FormulaNode => {
+    let node = parseProduct();
+    while (isSymbol("+") || isSymbol("-")) {
+      const operator = (tokens[position++] as { value: "+" | "-" }).value;
+      node = { kind: "binary", operator, left: node, right: parseProduct() };
+    }
+    return node;
+  };
+
+  const formula = parseSum();
+  if (position !== tokens.length) fail();
+  return formula;
+}
+
+function formulaReferences(node: FormulaNode): string[] {
+  switch (node.kind) {
+    case "number":
+      return [];
+    case "column":
+      return [node.id];
+    case "negate":
+      return formulaReferences(node.operand);
+    case "binary":
+      return [...formulaReferences(node.left), ...formulaReferences(node.right)];
+  }
+}
+
+/**
+ * Evaluate a formula. A reference to a missing or non-numeric value, or a
+ * division by zero, makes the result null.
+ */
+export function evaluateFormula(
+  node: FormulaNode,
+  valueOf: (columnId: string) => CustomReportValue | undefined
+): number | null {
+  switch (node.kind) {
+    case "number":
+      return node.value;
+    case "column": {
+      const value = valueOf(node.id);
+      return typeof value === "number" ? value : null;
+    }
+    case "negate": {
+      const value = evaluateFormula(node.operand, valueOf);
+      return value === null ? null : -value;
+    }
+    case "binary": {
+      const left = evaluateFormula(node.left, valueOf);
+      const right = evaluateFormula(node.right, valueOf);
+      if (left === null || right === null) return null;
+      if (node.operator === "/" && right === 0) return null;
+      const result =
+        node.operator === "+" ? left + right
+        : node.operator === "-" ? left - right
+        : node.operator === "*" ? left * right
+        : left / right;
+      return Math.round(result * 10_000) / 10_000;
+    }
+  }
+}
+
+// ----------------
+// Compilation
+// ----------------
+
+interface CompiledColumn {
+  definition: CustomReportColumnDefinition;
+  /** Holds an amount (a balance, activity or formula result) */
+  numeric: boolean;
+  /** Summed into group subtotals and column totals */
+  summable: boolean;
+  formula?: FormulaNode;
+}
+
+type RowPredicate = (row: CustomReportRow, account: ReportAccount) => boolean;
+
+export interface CompiledCustomReport {
+  columns: CompiledColumn[];
+  /** Formula columns, each after the formula columns it refers to */
+  formulaOrder: CompiledColumn[];
+  /** Line dimensions the ledger query filters on */
+  dimensions: DimensionFilter;
+  /** Narrows the report period, from a transaction.date filter */
+  dateRange: { startDate?: string; endDate?: string };
+  selectAccount: (account: ReportAccount) => boolean;
+  rowFilters: RowPredicate[];
+  grouping: { field: string; showSubtotals: boolean } | null;
+  sorting: { field: string; direction: "asc" | "desc" };
+  comparisonPeriod: ReportTimeFrame | null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function compareValues(a: CustomReportValue, b: unknown): number {
+  if (typeof a === "number" && (typeof b === "number" || (typeof b === "string" && b.trim() !== "" && !Number.isNaN(Number(b))))) {
+    return a - Number(b);
+  }
+  return String(a ?? "").localeCompare(String(b ?? ""), undefined, { numeric: true });
+}
+
+function matchesOperator(
+  value: CustomReportValue,
+  operator: string,
+  filterValue: unknown
+): boolean {
+  switch (operator) {
+    case "equals":
+      return value === null || filterValue === null
+        ? value === filterValue
+        : compareValues(value, filterValue) === 0;
+    case "contains":
+      return String(value ?? "").toLowerCase().includes(String(filterValue ?? "").toLowerCase());
+    case "greater_than":
+      return value !== null && compareValues(value, filterValue) > 0;
+    case "less_than":
+      return value !== null && compareValues(value, filterValue) < 0;
+    case "in_list":
+      return (filterValue as unknown[]).some((item) => matchesOperator(value, "equals", item));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check a configuration and compile it. Throws a ValidationError naming the
+ * first problem found.
+ */
+export function compileCustomReport(config: CustomReportConfiguration): CompiledCustomReport {
+  if (!config.reportName?.trim()) {
+    throw new ValidationError("A custom report needs a name.");
+  }
+  if (!config.reportColumns?.length) {
+    throw new ValidationError("A custom report needs at least one column.");
+  }
+
+  // 1. Columns
+  const columns = new Map<string, CompiledColumn>();
+  for (const definition of config.reportColumns) {
+    if (!/^[A-Za-z]\w*$/.test(definition.id)) {
+      throw new ValidationError(
+        `Column ID "${definition.id}" must start with a letter and contain only letters, digits and underscores.`
+      );
+    }
+    if (columns.has(definition.id)) {
+      throw new ValidationError(`Column ID "${definition.id}" is used more than once.`);
+    }
+    const source = definition.valueSourceField;
+    let numeric = false;
+    let formula: FormulaNode | undefined;
+    switch (definition.valueSourceType) {
+      case "metadata_field":
+        if (!source || !ACCOUNT_FIELDS[source]) {
+          throw new ValidationError(
+            `Column "${definition.id}" must read one of ${Object.keys(ACCOUNT_FIELDS).join(", ")}.`
+          );
+        }
+        break;
+      case "account_balance":
+        if (source && !(BALANCE_SOURCES as readonly string[]).includes(source)) {
+          throw new ValidationError(`Column "${definition.id}" must read the closing or opening balance.`);
+        }
+        numeric = true;
+        break;
+      case "account_activity":
+        if (source && !(ACTIVITY_SOURCES as readonly string[]).includes(source)) {
+          throw new ValidationError(
+            `Column "${definition.id}" must read one of ${ACTIVITY_SOURCES.join(", ")}.`
+          );
+        }
+        numeric = true;
+        break;
+      case "calculated_formula":
+        if (!definition.formulaExpression?.trim()) {
+          throw new ValidationError(`Column "${definition.id}" needs a formula.`);
+        }
+        formula = parseFormula(definition.formulaExpression);
+        numeric = true;
+        break;
+      case "static_text":
+        break;
+      default:
+        throw new ValidationError(
+          `Column "${definition.id}" has an unknown value source "${definition.valueSourceType}".`
+        );
+    }
+    columns.set(definition.id, {
+      definition,
+      numeric,
+      summable:
+        numeric &&
+        (definition.isSummable ?? definition.valueSourceType !== "calculated_formula"),
+      ...(formula ? { formula } : {}),
+    });
+  }
+
+  // 2. Formulas may only refer to amounts, and not (indirectly) to themselves
+  const formulaOrder: CompiledColumn[] = [];
+  const visiting = new Set<string>();
+  const visit = (column: CompiledColumn) => {
+    if (!column.formula || formulaOrder.includes(column)) return;
+    if (visiting.has(column.definition.id)) {
+      throw new ValidationError(`Formula column "${column.definition.id}" refers to itself.`);
+    }
+    visiting.add(column.definition.id);
+    for (const id of formulaReferences(column.formula)) {
+      const referenced = columns.get(id);
+      if (!referenced?.numeric) {
+        throw new ValidationError(
+          `Formula of column "${column.definition.id}" refers to "${id}", which is not an amount column.`
+        );
+      }
+      visit(referenced);
+    }
+    visiting.delete(column.definition.id);
+    formulaOrder.push(column);
+  };
+  columns.forEach(visit);
+
+  const isField = (field: string) => Boolean(ACCOUNT_FIELDS[field]) || columns.has(field);
+
+  // 3. Account selection
+  const criteria = config.accountSelectionCriteria ?? {};
+  const includeIds = criteria.includeAccountIds?.length ? new Set(criteria.includeAccountIds) : null;
+  const includeTypes = criteria.includeAccountTypes?.length ? new Set(criteria.includeAccountTypes) : null;
+  const excludeIds = new Set(criteria.excludeAccountIds ?? []);
+  const selectAccount = (account: ReportAccount) =>
+    (!includeIds || includeIds.has(account.id)) &&
+    (!includeTypes || includeTypes.has(account.systemType)) &&
+    !excludeIds.has(account.id);
+
+  // 4. Filters. Accounts carry no tags of their own, so account tags select
+  // the transaction lines carrying every listed tag.
+  const dimensions: DimensionFilter = criteria.accountTags?.length
+    ? { tags: [...criteria.accountTags] }
+    : {};
+  const dateRange: { startDate?: string; endDate?: string } = {};
+  const rowFilters: RowPredicate[] = [];
+
+  for (const filter of config.reportFilters ?? []) {
+    const { filterField: field, filterOperator: operator, filterValue: value } = filter;
+
+    if (field === "transaction.date") {
+      if (
+        operator !== "between_dates" ||
+        !DATE_PATTERN.test(String(value)) ||
+        !DATE_PATTERN.test(String(filter.filterValue2))
+      ) {
+        throw new ValidationError(
+          "The transaction.date filter takes between_dates with two YYYY-MM-DD dates."
+        );
+      }
+      dateRange.startDate = String(value);
+      dateRange.endDate = String(filter.filterValue2);
+      continue;
+    }
+
+    if ((LINE_FIELDS as readonly string[]).includes(field)) {
+      if (field === "line.tags") {
+        const tags = operator === "in_list" ? value : operator === "equals" ? [value] : null;
+        if (!Array.isArray(tags) || tags.some((tag) => typeof tag !== "string")) {
+          throw new ValidationError("The line.tags filter takes equals with a tag or in_list with tags.");
+        }
+        dimensions.tags = [...(dimensions.tags ?? []), ...tags];
+        continue;
+      }
+      if (operator !== "equals" || (value !== null && typeof value !== "string")) {
+        throw new ValidationError(`The ${field} filter takes equals with a value or null.`);
+      }
+      const key = field.slice("line.".length) as "propertyId" | "unitId" | "className";
+      dimensions[key] = value;
+      continue;
+    }
+
+    if (!isField(field)) {
+      throw new ValidationError(`Filter field "${field}" is not an account field or column.`);
+    }
+    if (operator === "between_dates") {
+      throw new ValidationError("between_dates only applies to the transaction.date filter.");
+    }
+    if (operator === "in_list" && !Array.isArray(value)) {
+      throw new ValidationError(`The in_list filter on "${field}" takes a list of values.`);
+    }
+    const read = ACCOUNT_FIELDS[field];
+    rowFilters.push((row, account) =>
+      matchesOperator(read ? read(account) : (row[field] ?? null), operator, value)
+    );
+  }
+
+  // 5. Grouping, sorting and comparison
+  const grouping = config.rowGroupingOptions ?? null;
+  if (grouping && !isField(grouping.groupByField)) {
+    throw new ValidationError(`Cannot group by "${grouping.groupByField}".`);
+  }
+  const sorting = config.sortingOptions ?? { sortByField: "account.code", sortDirection: "asc" as const };
+  if (!isField(sorting.sortByField)) {
+    throw new ValidationError(`Cannot sort by "${sorting.sortByField}".`);
+  }
+  const comparisonPeriod = config.showComparisonColumn ? config.comparisonPeriod ?? null : null;
+  if (config.showComparisonColumn && !comparisonPeriod) {
+    throw new ValidationError("A comparison column needs a comparison period.");
+  }
+
+  return {
+    columns: [...columns.values()],
+    formulaOrder,
+    dimensions,
+    dateRange,
+    selectAccount,
+    rowFilters,
+    grouping: grouping
+      ? { field: grouping.groupByField, showSubtotals: grouping.showGroupSubtotals ?? false }
+      : null,
+    sorting: { field: sorting.sortByField, direction: sorting.sortDirection },
+    comparisonPeriod,
+  };
+}
+
+// ----------------
+// Rows
+// ----------------
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function readAmount(column: CompiledColumn, activity: CustomReportAccountActivity | undefined): number {
+  if (!activity) return 0;
+  const { account, openingBalance, periodDebits, periodCredits, lineCount } = activity;
+  const net = roundCents(
+    (account.normalBalance === "debit" ? 1 : -1) * (periodDebits - periodCredits)
+  );
+  switch (column.definition.valueSourceField) {
+    case "opening":
+      return openingBalance;
+    case "debits":
+      return periodDebits;
+    case "credits":
+      return periodCredits;
+    case "lines":
+      return lineCount;
+    case "net":
+      return net;
+    default:
+      return column.definition.valueSourceType === "account_balance"
+        ? roundCents(openingBalance + net)
+        : net;
+  }
+}
+
+/** Recompute formula columns that are not summed, over summed values */
+function applyFormulas(
+  compiled: CompiledCustomReport,
+  row: CustomReportRow,
+  onlyUnsummed: boolean,
+  withComparison: boolean
+): void {
+  for (const column of compiled.formulaOrder) {
+    if (onlyUnsummed && column.summable) continue;
+    const id = column.definition.id;
+    row[id] = evaluateFormula(column.formula!, (ref) => row[ref]);
+    if (withComparison) {
+      row[comparisonKey(id)] = evaluateFormula(column.formula!, (ref) => row[comparisonKey(ref)]);
+    }
+  }
+}
+
+function sumRows(
+  compiled: CompiledCustomReport,
+  rows: CustomReportRow[],
+  withComparison: boolean
+): CustomReportRow {
+  const totals: CustomReportRow = {};
+  for (const column of compiled.columns.filter((c) => c.summable)) {
+    const keys = withComparison
+      ? [column.definition.id, comparisonKey(column.definition.id)]
+      : [column.definition.id];
+    for (const key of keys) {
+      totals[key] = roundCents(
+        rows.reduce((sum, row) => sum + (typeof row[key] === "number" ? (row[key] as number) : 0), 0)
+      );
+    }
+  }
+  applyFormulas(compiled, totals, true, withComparison);
+  return totals;
+}
+
+/**
+ * Lay out the rows of a compiled report from each account's activity in the
+ * report period and, when comparing, the comparison period. Accounts whose
+ * amounts are all zero are left out, unless the report has no amount
+ * columns at all (a chart-of-accounts listing, say).
+ */
+export function buildCustomReportRows(
+  compiled: CompiledCustomReport,
+  activity: CustomReportAccountActivity[],
+  comparisonActivity?: CustomReportAccountActivity[]
+): { rows: CustomReportRow[]; columnTotals: Record<string, number>; accountsEvaluated: number } {
+  const withComparison = comparisonActivity !== undefined;
+  const comparisonByAccount = new Map(
+    (comparisonActivity ?? []).map((a) => [a.account.id, a])
+  );
+  const hasAmounts = compiled.columns.some((c) => c.numeric);
+
+  // 1. One row per selected account
+  const accountRows: Array<{ row: CustomReportRow; account: ReportAccount }> = [];
+  const selected = activity.filter((a) => compiled.selectAccount(a.account));
+  for (const current of selected) {
+    const { account } = current;
+    const previous = comparisonByAccount.get(account.id);
+    const row: CustomReportRow = { [ROW_TYPE_KEY]: "account", [ACCOUNT_ID_KEY]: account.id };
+
+    for (const column of compiled.columns) {
+      const { id, valueSourceType, valueSourceField } = column.definition;
+      if (valueSourceType === "metadata_field") {
+        row[id] = ACCOUNT_FIELDS[valueSourceField!]!(account);
+      } else if (valueSourceType === "static_text") {
+        row[id] = valueSourceField ?? "";
+      } else if (!column.formula) {
+        row[id] = readAmount(column, current);
+        if (withComparison) row[comparisonKey(id)] = readAmount(column, previous);
+      }
+    }
+    applyFormulas(compiled, row, false, withComparison);
+
+    const amounts = compiled.columns
+      .filter((c) => c.numeric)
+      .flatMap((c) =>
+        withComparison ? [row[c.definition.id], row[comparisonKey(c.definition.id)]] : [row[c.definition.id]]
+      );
+    if (hasAmounts && amounts.every((value) => !value)) continue;
+    if (!compiled.rowFilters.every((matches) => matches(row, account))) continue;
+    accountRows.push({ row, account });
+  }
+
+  // 2. Sort, then group
+  const valueOf = (entry: { row: CustomReportRow; account: ReportAccount }, field: string) =>
+    ACCOUNT_FIELDS[field] ? ACCOUNT_FIELDS[field]!(entry.account) : (entry.row[field] ?? null);
+  const direction = compiled.sorting.direction === "desc" ? -1 : 1;
+  accountRows.sort((a, b) => {
+    const left = valueOf(a, compiled.sorting.field);
+    const right = valueOf(b, compiled.sorting.field);
+    if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1;
+    return direction * compareValues(left, right);
+  });
+
+  const rows: CustomReportRow[] = [];
+  if (compiled.grouping) {
+    const { field, showSubtotals } = compiled.grouping;
+    const groups = new Map<string, CustomReportRow[]>();
+    for (const entry of accountRows) {
+      const group = String(valueOf(entry, field) ?? "");
+      entry.row[GROUP_KEY] = group;
+      groups.set(group, [...(groups.get(group) ?? []), entry.row]);
+    }
+    const names = [...groups.keys()].sort((a, b) =>
+      a === "" ? 1 : b === "" ? -1 : a.localeCompare(b, undefined, { numeric: true })
+    );
+    for (const name of names) {
+      const groupRows = groups.get(name)!;
+      rows.push(...groupRows);
+      if (showSubtotals) {
+        rows.push({
+          [ROW_TYPE_KEY]: "group_subtotal",
+          [GROUP_KEY]: name,
+          ...sumRows(compiled, groupRows, withComparison),
+        });
+      }
+    }
+  } else {
+    rows.push(...accountRows.map((entry) => entry.row));
+  }
+
+  // 3. Column totals
+  const columnTotals: Record<string, number> = {};
+  const totals = sumRows(compiled, accountRows.map((entry) => entry.row), withComparison);
+  for (const [key, value] of Object.entries(totals)) {
+    if (typeof value === "number") columnTotals[key] = value;
+  }
+
+  return { rows, columnTotals, accountsEvaluated: selected.length };
+}
+
+// ----------------
+// Generation
+// ----------------
+
+/**
+ * Options for generating a custom report
+ */
+export interface CustomReportOptions {
+  /** Entity ID to generate the report for */
+  entityId: string;
+  /** Report configuration */
+  configuration: CustomReportConfiguration;
+  /** Time frame for the report */
+  timeFrame: ReportTimeFrame;
+  /** Currency code */
+  currencyCode?: string | undefined;
+  /** Database connection */
+  db: D1Database;
+  /** User ID generating the report */
+  userId: string;
+}
+
+/**
+ * Run a custom report configuration
+ *
+ * @param options Report generation options
+ * @returns Custom report
+ */
+export async function runCustomReport(
+  options: CustomReportOptions
+): Promise<CustomGeneratedReport> {
+  const { entityId, configuration, timeFrame, currencyCode = "USD", db, userId } = options;
+  const started = Date.now();
+
+  // 1. Compile the configuration
+  const compiled = compileCustomReport(configuration);
+  const startDate = [timeFrame.startDate, compiled.dateRange.startDate]
+    .filter((date): date is string => Boolean(date))
+    .sort()
+    .pop();
+  const endDate = [timeFrame.endDate, compiled.dateRange.endDate]
+    .filter((date): date is string => Boolean(date))
+    .sort()[0]!;
+  if (startDate && startDate > endDate) {
+    throw new ValidationError("The report's date filter does not overlap its period.");
+  }
+  const dimensions = hasDimensions(compiled.dimensions) ? compiled.dimensions : undefined;
+
+  // 2. Load the activity of the period and the comparison period
+  const activity = await getGeneralLedgerActivity({ entityId, startDate, endDate, dimensions, db });
+  const comparisonActivity = compiled.comparisonPeriod
+    ? await getGeneralLedgerActivity({
+        entityId,
+        startDate: compiled.comparisonPeriod.startDate,
+        endDate: compiled.comparisonPeriod.endDate,
+        dimensions,
+        db,
+      })
+    : undefined;
+
+  // 3. Lay out the rows
+  const { rows, columnTotals, accountsEvaluated } = buildCustomReportRows(
+    compiled,
+    activity,
+    comparisonActivity
+  );
+
+  return {
+    id: crypto.randomUUID(),
+    type: "custom_generated",
+    title: configuration.reportName,
+    timeFrame,
+    entityId,
+    generatedAt: Math.floor(Date.now() / 1000),
+    generatedByUserId: userId,
+    isFinalized: false,
+    currencyCode,
+    ...(dimensions ? { dimensions } : {}),
+    sourceConfig: configuration,
+    reportDataRows: rows,
+    columnTotals,
+    generationMetadata: {
+      rowCountGenerated: rows.length,
+      accountsEvaluatedCount: accountsEvaluated,
+      executionTimeMs: Date.now() - started,
+    },
+  };
+}
@@ -4,10 +4,17 @@
  *
  * This module generates cash flow statements based on account balances and transactions
  * for a specified entity and time period, using either the direct or indirect method.
+ *
+ * The direct method traces every transaction that moves cash to the accounts
+ * on its other lines and groups the cash by their classification (see
+ * src/lib/accounting/core/cash-flow.ts), so its net change in cash is the
+ * actual change in the cash accounts. It is reconciled to the indirect method,
+ * which also supplies the reconciliation of net income to operating cash.
  */
 
 // Update to type-only imports
 import type {
+  CashFlowReconciliation,
   CashFlowReport,
   ReportLineItem,
   ReportTimeFrame,
@@ -18,7 +25,23 @@ import {
   getTransactionTotals,
   getChangeInAccountBalances,
   getAccountsByType,
+  getCashCounterpartActivity,
+  type ReportAccount,
 } from "../accounting/core/accounting-api";
+import {
+  CASH_ACCOUNT_TYPES,
+  CASH_FLOW_CLASSIFICATIONS,
+  classifyCashMovements,
+  isCashFlowClassification,
+  type CashFlowCategory,
+  type ClassifiedCashFlow,
+} from "../accounting/core/cash-flow";
+import { generateSegments } from "./dimensions";
+import {
+  hasDimensions,
+  type Dimension,
+  type DimensionFilter,
+} from "../accounting/core/dimensions";
 import { formatCurrency } from "../../utils/format";
 import type { D1Database } from "@cloudflare/workers-types";
 
@@ -30,7 +53,6 @@ export type CashFlowMethod = "DIRECT" | "INDIRECT";
 /**
  * Account type categories for the cash flow statement
  */
-const CASH_ACCOUNT_TYPES = ["BANK", "CASH"];
 const OPERATING_ASSET_TYPES = [
   "ACCOUNTS_RECEIVABLE",
   "INVENTORY",
@@ -72,6 +94,8 @@ interface OperatingActivitiesSection {
   netIncome: number;
   adjustments: ReportLineItem[];
   changesInWorkingCapital: ReportLineItem[];
+  /** Direct method: cash received and paid, by classification */
+  items?: ReportLineItem[];
   netCash: number;
   formattedNetIncome?: string;
   formattedNetCash?: string;
@@ -117,6 +141,10 @@ export interface CashFlowOptions {
   chartOfAccountsId?: string;
   /** Currency code */
   currencyCode?: string;
+  /** Only include lines tagged with these dimensions */
+  dimensions?: DimensionFilter | undefined;
+  /** Add a segment per value of this dimension */
+  groupBy?: Dimension | undefined;
   /** Database connection */
   db: D1Database;
   /** User ID generating the report */
@@ -144,15 +172,19 @@ export async function generateCashFlow(
     includeTransactionDetails = false,
     netIncome,
     currencyCode = "USD",
+    dimensions,
+    groupBy,
     db,
     userId,
   } = options;
 
-  // 1. Get starting and ending cash balances
+  // 1. Get starting and ending cash balances. Beginning cash is the balance
+  // at the close of the day before the period starts.
   const startingBalances = await getAccountBalances({
     entityId,
-    asOfDate: startDate,
+    asOfDate: getPreviousDay(startDate),
     accountTypes: CASH_ACCOUNT_TYPES,
+    dimensions,
     db,
   });
 
@@ -160,6 +192,7 @@ export async function generateCashFlow(
     entityId,
     asOfDate: endDate,
     accountTypes: CASH_ACCOUNT_TYPES,
+    dimensions,
     db,
   });
 
@@ -204,6 +237,7 @@ export async function generateCashFlow(
       startDate,
       endDate,
       accountTypes: allAccountTypes,
+      dimensions,
       db,
     });
   }
@@ -214,6 +248,7 @@ export async function generateCashFlow(
     startDate,
     endDate,
     accountTypes: allAccountTypes,
+    dimensions,
     db,
   });
 
@@ -227,56 +262,101 @@ export async function generateCashFlow(
       startDate,
       endDate,
       accountTypes: ["REVENUE", "INCOME", "EXPENSE", "COST_OF_GOODS_SOLD"],
+      dimensions,
       db,
     });
 
     const revenues = incomeTotals
-      .filter((t: any) =>
-        ["REVENUE", "INCOME"].includes(accountMap.get(t.accountId)?.type)
-      )
-      .reduce((sum: number, t: any) => sum + t.total, 0);
+      .filter((t) => t.systemType === "income")
+      .reduce((sum: number, t) => sum + t.total, 0);
 
     const expenses = incomeTotals
-      .filter((t: any) =>
-        ["EXPENSE", "COST_OF_GOODS_SOLD"].includes(
-          accountMap.get(t.accountId)?.type
-        )
-      )
-      .reduce((sum: number, t: any) => sum + t.total, 0);
+      .filter((t) => t.systemType === "expense")
+      .reduce((sum: number, t) => sum + t.total, 0);
 
     calculatedNetIncome = revenues - expenses;
   }
 
-  // 7. Generate the cash flow statement based on the method
-  let operatingActivities: OperatingActivitiesSection;
-  if (method === "INDIRECT") {
-    operatingActivities = processOperatingActivitiesIndirect(
-      calculatedNetIncome,
-      accountChanges,
-      accountMap,
-      transactionTotals
-    );
-  } else {
-    operatingActivities = processOperatingActivitiesDirect(
-      transactionTotals,
-      accountMap
-    );
-  }
-
-  // 8. Process investing activities
-  const investingActivities = processInvestingActivities(
+  // 7. Generate the cash flow statement by the indirect method, which the
+  // direct method is reconciled to
+  const indirectOperating = processOperatingActivitiesIndirect(
+    calculatedNetIncome,
+    accountChanges,
+    accountMap,
+    transactionTotals
+  );
+  const indirectInvesting = processInvestingActivities(
     accountChanges,
     transactionTotals,
     accountMap
   );
-
-  // 9. Process financing activities
-  const financingActivities = processFinancingActivities(
+  const indirectFinancing = processFinancingActivities(
     accountChanges,
     transactionTotals,
     accountMap
   );
 
+  // 8. For the direct method, trace the cash to the counter accounts of
+  // every transaction that moved it, and group it by classification
+  let operatingActivities: OperatingActivitiesSection = indirectOperating;
+  let investingActivities: InvestingActivitiesSection = indirectInvesting;
+  let financingActivities: FinancingActivitiesSection = indirectFinancing;
+  let reconciliation: CashFlowReconciliation | undefined;
+  if (method === "DIRECT") {
+    const movements = await getCashCounterpartActivity({
+      entityId,
+      startDate,
+      endDate,
+      cashAccountTypes: CASH_ACCOUNT_TYPES,
+      dimensions,
+      db,
+    });
+    const flows = classifyCashMovements(
+      movements.map((movement) => ({
+        ...movement,
+        classification:
+          movement.classification && isCashFlowClassification(movement.classification)
+            ? movement.classification
+            : null,
+      }))
+    );
+
+    operatingActivities = processOperatingActivitiesDirect(
+      flows,
+      calculatedNetIncome
+    );
+    investingActivities = processDirectSection(
+      flows,
+      "investing",
+      "NET_CASH_INVESTING",
+      "Net Cash from Investing Activities"
+    );
+    financingActivities = processDirectSection(
+      flows,
+      "financing",
+      "NET_CASH_FINANCING",
+      "Net Cash from Financing Activities"
+    );
+
+    // 9. Reconcile to the indirect method
+    const differences = {
+      operating: roundCents(operatingActivities.netCash - indirectOperating.netCash),
+      investing: roundCents(investingActivities.netCash - indirectInvesting.netCash),
+      financing: roundCents(financingActivities.netCash - indirectFinancing.netCash),
+    };
+    reconciliation = {
+      netIncome: calculatedNetIncome,
+      adjustments: indirectOperating.adjustments,
+      changesInWorkingCapital: indirectOperating.changesInWorkingCapital,
+      netCashFromOperationsIndirect: indirectOperating.netCash,
+      netCashFromOperationsDirect: operatingActivities.netCash,
+      differences,
+      isReconciled: Object.values(differences).every(
+        (difference) => Math.abs(difference) < 0.01
+      ),
+    };
+  }
+
   // 10. Calculate net increase/decrease in cash
   const netIncrease =
     operatingActivities.netCash +
@@ -305,17 +385,42 @@ export async function generateCashFlow(
   };
 
   // Add metadata about the method used
-  (report as any).method = method;
+  report.method = method;
+  if (reconciliation) {
+    report.reconciliation = reconciliation;
+  }
+
+  if (dimensions && hasDimensions(dimensions)) {
+    report.dimensions = dimensions;
+  }
+
+  if (groupBy) {
+    report.segments = await generateSegments({
+      entityId,
+      dimension: groupBy,
+      dimensions,
+      startDate,
+      endDate,
+      db,
+      generate: (segmentDimensions) =>
+        generateCashFlow({
+          ...options,
+          dimensions: segmentDimensions,
+          groupBy: undefined,
+        }),
+    });
+  }
 
-  // 12. Validate that the cash flow statement reconciles
+  // 12. Validate that the cash flow statement reconciles. Only the full
+  // ledger has to; a slice of it by dimension need not.
   const calculatedEndingCash = beginningCash + netIncrease;
   const isReconciled = Math.abs(calculatedEndingCash - endingCash) < 0.01; // Allow for small rounding errors
 
-  if (!isReconciled) {
+  if (!isReconciled && !hasDimensions(dimensions)) {
     console.warn(
       `Cash flow statement doesn't reconcile. Beginning Cash: ${beginningCash}, Net Increase: ${netIncrease}, Calculated Ending: ${calculatedEndingCash}, Actual Ending: ${endingCash}, Difference: ${calculatedEndingCash - endingCash}`
     );
-    (report as any).reconcileDifference = calculatedEndingCash - endingCash;
+    report.reconcileDifference = calculatedEndingCash - endingCash;
   }
 
   return report;
@@ -408,9 +513,9 @@ function processOperatingActivitiesIndirect(
   });
 
   // Sort both arrays by account code or order
-  adjustments.sort((a, b) => a.order - b.order || a.code.localeCompare(b.code));
+  adjustments.sort((a, b) => a.order - b.order || (a.code ?? "").localeCompare(b.code ?? ""));
   changesInWorkingCapital.sort(
-    (a, b) => a.order - b.order || a.code.localeCompare(b.code)
+    (a, b) => a.order - b.order || (a.code ?? "").localeCompare(b.code ?? "")
   );
 
   // Calculate net cash from operating activities
@@ -427,103 +532,111 @@ function processOperatingActivitiesIndirect(
 
 /**
  * Process operating activities section using the direct method
- * (showing actual cash inflows and outflows from operations)
+ * (showing the cash actually received and paid, by classification)
  */
 function processOperatingActivitiesDirect(
-  transactionTotals: any[],
-  accountMap: Map<string, any>
+  flows: ClassifiedCashFlow<ReportAccount>[],
+  netIncome: number
 ): OperatingActivitiesSection {
-  // Initialize cash receipts and payments
-  const cashReceipts: ReportLineItem[] = [];
-  const cashPayments: ReportLineItem[] = [];
-
-  // Filter for cash transactions in revenue and expense accounts
-  const operatingTransactions = transactionTotals.filter((total) => {
-    const account = accountMap.get(total.accountId);
-    return (
-      account &&
-      [
-        "REVENUE",
-        "INCOME",
-        "EXPENSE",
-        "COST_OF_GOODS_SOLD",
-        "ACCOUNTS_RECEIVABLE",
-        "ACCOUNTS_PAYABLE",
-        "UNEARNED_REVENUE",
-      ].includes(account.type)
-    );
+  const { items, netCash } = buildClassificationItems(flows, "operating");
+
+  items.push({
+    code: "NET_CASH_OPERATING",
+    name: "Net Cash from Operating Activities",
+    amount: netCash,
+    isCalculated: true,
+    order: 999,
+    styleClass: "total",
   });
 
-  let totalReceipts = 0;
-  let totalPayments = 0;
+  return {
+    netIncome, // Shown in the reconciliation to the indirect method
+    adjustments: [],
+    changesInWorkingCapital: [],
+    items,
+    netCash,
+  };
+}
 
-  // Process transactions by category
-  operatingTransactions.forEach((transaction) => {
-    const account = accountMap.get(transaction.accountId);
+/**
+ * Process the investing or financing section using the direct method
+ */
+function processDirectSection(
+  flows: ClassifiedCashFlow<ReportAccount>[],
+  category: Exclude<CashFlowCategory, "operating">,
+  totalCode: string,
+  totalName: string
+): InvestingActivitiesSection | FinancingActivitiesSection {
+  const { items, netCash } = buildClassificationItems(flows, category);
+
+  items.push({
+    code: totalCode,
+    name: totalName,
+    amount: netCash,
+    isCalculated: true,
+    order: 999,
+    styleClass: "total",
+  });
 
-    if (["REVENUE", "INCOME", "UNEARNED_REVENUE"].includes(account.type)) {
-      // Cash receipts - positive impact on cash flow
-      cashReceipts.push({
-        code: account.code || "",
-        name: `Cash receipts from ${account.name}`,
-        amount: transaction.total,
-        order: account.displayOrder || 0,
-      });
+  return { items, netCash };
+}
 
-      totalReceipts += transaction.total;
-    } else if (["EXPENSE", "COST_OF_GOODS_SOLD"].includes(account.type)) {
-      // Cash payments - negative impact on cash flow
-      cashPayments.push({
-        code: account.code || "",
-        name: `Cash payments for ${account.name}`,
-        amount: -transaction.total, // Negate expenses to show as negative cash flow
-        order: account.displayOrder || 0,
+/**
+ * One line per classification of the category, in statement order, with
+ * the accounts behind it as children
+ */
+function buildClassificationItems(
+  flows: ClassifiedCashFlow<ReportAccount>[],
+  category: CashFlowCategory
+): { items: ReportLineItem[]; netCash: number } {
+  const items: ReportLineItem[] = [];
+  let netCash = 0;
+
+  Object.entries(CASH_FLOW_CLASSIFICATIONS).forEach(
+    ([classification, definition], index) => {
+      if (definition.category !== category) return;
+      const classified = flows.filter(
+        (flow) => flow.classification === classification
+      );
+      if (classified.length === 0) return;
+
+      const amount = roundCents(
+        classified.reduce((sum, flow) => sum + flow.amount, 0)
+      );
+      const children: ReportLineItem[] = classified
+        .map((flow) => ({
+          code: flow.account.code,
+          name: flow.account.name,
+          amount: flow.amount,
+          order: flow.account.displayOrder,
+        }))
+        .sort((a, b) => a.order - b.order || (a.code ?? "").localeCompare(b.code ?? ""));
+
+      items.push({
+        code: classification,
+        name: definition.label,
+        amount,
+        order: index,
+        children,
       });
-
-      totalPayments -= transaction.total;
+      netCash += amount;
     }
-    // Special handling for AR/AP transactions would be more complex in a real implementation
-  });
-
-  // Sort both arrays by account code or order
-  cashReceipts.sort(
-    (a, b) => a.order - b.order || a.code.localeCompare(b.code)
-  );
-  cashPayments.sort(
-    (a, b) => a.order - b.order || a.code.localeCompare(b.code)
   );
 
-  // Combine receipts and payments into single list
-  const allItems = [
-    ...cashReceipts,
-    {
-      code: "TOTAL_RECEIPTS",
-      name: "Total Cash Receipts",
-      amount: totalReceipts,
-      isCalculated: true,
-      order: 100,
-      styleClass: "subtotal",
-    },
-    ...cashPayments,
-    {
-      code: "TOTAL_PAYMENTS",
-      name: "Total Cash Payments",
-      amount: totalPayments,
-      isCalculated: true,
-      order: 200,
-      styleClass: "subtotal",
-    },
-  ];
+  return { items, netCash: roundCents(netCash) };
+}
 
-  // Calculate net cash from operating activities
-  const netCashFromOperations = totalReceipts + totalPayments;
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
 
-  return {
-    netIncome: netCashFromOperations, // For direct method, there's no net income starting point
-    adjustments: [], // No adjustments in direct method
-    changesInWorkingCapital: allItems, // We use this array to store all direct method items
-    netCash: netCashFromOperations,
-  };
+/**
+ * Return the YYYY-MM-DD date one day before the given date (UTC)
+ */
+function getPreviousDay(date: string): string {
+  const d = new Date(`${date.slice(0, 10)}T00:00:00.000Z`);
+  d.setUTCDate(d.getUTCDate() - 1);
+  return d.toISOString().slice(0, 10);
 }
 
 /**
@@ -570,7 +683,7 @@ function processInvestingActivities(
 
   // Sort investing items by account code or order
   investingItems.sort(
-    (a, b) => a.order - b.order || a.code.localeCompare(b.code)
+    (a, b) => a.order - b.order || (a.code ?? "").localeCompare(b.code ?? "")
   );
 
   // Add total line
@@ -689,7 +802,7 @@ function processFinancingActivities(
 
   // Sort financing items by account code or order
   financingItems.sort(
-    (a, b) => a.order - b.order || a.code.localeCompare(b.code)
+    (a, b) => a.order - b.order || (a.code ?? "").localeCompare(b.code ?? "")
   );
 
   // Add total line
@@ -750,6 +863,10 @@ export function formatCashFlow(
     }
   );
 
+  (
+    formattedReport.operatingActivities as OperatingActivitiesSection
+  ).items?.forEach((item) => formatLineItem(item, currencyCode));
+
   (
     formattedReport.operatingActivities as OperatingActivitiesSection
   ).formattedNetCash = formatCurrency(
@@ -758,9 +875,9 @@ export function formatCashFlow(
   );
 
   // Format investing activities
-  formattedReport.investingActivities.items.forEach((item) => {
-    item.formattedAmount = formatCurrency(item.amount, currencyCode);
-  });
+  formattedReport.investingActivities.items.forEach((item) =>
+    formatLineItem(item, currencyCode)
+  );
 
   (
     formattedReport.investingActivities as InvestingActivitiesSection
@@ -770,9 +887,9 @@ export function formatCashFlow(
   );
 
   // Format financing activities
-  formattedReport.financingActivities.items.forEach((item) => {
-    item.formattedAmount = formatCurrency(item.amount, currencyCode);
-  });
+  formattedReport.financingActivities.items.forEach((item) =>
+    formatLineItem(item, currencyCode)
+  );
 
   (
     formattedReport.financingActivities as FinancingActivitiesSection
@@ -797,9 +914,46 @@ export function formatCashFlow(
     currencyCode
   );
 
+  const { reconciliation } = formattedReport;
+  if (reconciliation) {
+    reconciliation.formattedNetIncome = formatCurrency(
+      reconciliation.netIncome,
+      currencyCode
+    );
+    reconciliation.adjustments.forEach((item) =>
+      formatLineItem(item, currencyCode)
+    );
+    reconciliation.changesInWorkingCapital.forEach((item) =>
+      formatLineItem(item, currencyCode)
+    );
+    reconciliation.formattedNetCashFromOperationsIndirect = formatCurrency(
+      reconciliation.netCashFromOperationsIndirect,
+      currencyCode
+    );
+    reconciliation.formattedNetCashFromOperationsDirect = formatCurrency(
+      reconciliation.netCashFromOperationsDirect,
+      currencyCode
+    );
+  }
+
+  if (formattedReport.segments) {
+    formattedReport.segments = formattedReport.segments.map((segment) => ({
+      ...segment,
+      report: formatCashFlow(segment.report, currencyCode),
+    }));
+  }
+
   return formattedReport;
 }
 
+/**
+ * Format a line item and the accounts under it
+ */
+function formatLineItem(item: ReportLineItem, currencyCode: string): void {
+  item.formattedAmount = formatCurrency(item.amount, currencyCode);
+  item.children?.forEach((child) => formatLineItem(child, currencyCode));
+}
+
 /**
  * Calculate free cash flow from operating and investing activities
  *
@@ -0,0 +1,312 @@
+// src/lib/reports/consolidation.ts
+/**
+ * Consolidated Report Data
+ *
+ * Loads the figures of a parent entity and all of its descendants and
+ * combines them by account code into the shapes the single-entity report
+ * generators already work with. Combined accounts take the parent's account
+ * (or the first member's, for codes the parent does not use).
+ */
+
+import type { D1Database } from "@cloudflare/workers-types";
+import {
+  getAccountBalances,
+  getAccountsByType,
+  getIntercompanyActivity,
+  getTransactionTotals,
+  getUnclosedEarnings,
+  type AccountBalance,
+  type ReportAccount,
+} from "../accounting/core/accounting-api";
+import {
+  CAPITAL_ACCOUNT_CODE,
+  INVESTMENT_ACCOUNT_CODE,
+  combineByAccountCode,
+  getConsolidationMembers,
+  getIntercompanyEliminations,
+  getInvestmentEliminations,
+  splitByOwnership,
+  type ConsolidationMember,
+  type Elimination,
+} from "../accounting/core/consolidation";
+import type { AccountSystemType } from "../../types/accounting";
+import { createEntityService } from "../services/entity-service";
+
+export interface ConsolidatedBalances {
+  accounts: ReportAccount[];
+  accountBalances: AccountBalance[];
+  /** Group share of earnings not yet closed into retained earnings */
+  earnings: { priorYears: number; currentYear: number };
+  /** Minority owners' share of member equity and unclosed earnings */
+  minorityInterest: number;
+}
+
+export interface ConsolidatedTotals {
+  accounts: ReportAccount[];
+  transactionTotals: Array<{
+    accountId: string;
+    count: number;
+    total: number;
+    type: string;
+    systemType: AccountSystemType;
+  }>;
+  /** Minority owners' share of net income */
+  minorityInterest: number;
+}
+
+/**
+ * The entity and its descendants in the user's entity hierarchy
+ */
+export async function getConsolidationGroup({
+  entityId,
+  userId,
+  db,
+}: {
+  entityId: string;
+  userId: string;
+  db: D1Database;
+}): Promise<ConsolidationMember[]> {
+  const hierarchy = await createEntityService(db).getEntityHierarchy(userId);
+  return getConsolidationMembers(hierarchy, entityId);
+}
+
+function sumAmounts(amounts: number[]): number {
+  return amounts.reduce((sum, amount) => sum + Math.round(amount * 100), 0) / 100;
+}
+
+/**
+ * Eliminations keyed by entity and account code
+ */
+function indexEliminations(eliminations: Elimination[]): Map<string, number> {
+  const index = new Map<string, number>();
+  for (const { entityId, accountCode, amount } of eliminations) {
+    const key = `${entityId}:${accountCode}`;
+    index.set(key, Math.round(((index.get(key) ?? 0) + amount) * 100) / 100);
+  }
+  return index;
+}
+
+/**
+ * Add a member's accounts to the combined accounts, keeping the first
+ * account seen for each code. Returns the member's accounts by ID.
+ */
+function mergeAccounts(
+  combined: Map<string, ReportAccount>,
+  memberAccounts: ReportAccount[]
+): Map<string, ReportAccount> {
+  for (const account of memberAccounts) {
+    if (!combined.has(account.code)) combined.set(account.code, account);
+  }
+  return new Map(memberAccounts.map((account) => [account.id, account]));
+}
+
+/**
+ * Member's balance on the account with `code`, or 0
+ */
+function balanceOnCode(
+  balances: AccountBalance[],
+  memberAccounts: Map<string, ReportAccount>,
+  code: string
+): number {
+  const balance = balances.find((b) => memberAccounts.get(b.accountId)?.code === code);
+  return balance?.balance ?? 0;
+}
+
+/**
+ * Consolidated closing balances as of a date. Assets and liabilities are
+ * combined in full; equity and unclosed earnings are split between the group
+ * and minority owners by each member's group share. Holders' investments are
+ * eliminated against the subsidiary capital they acquired.
+ */
+export async function getConsolidatedBalances({
+  members,
+  asOfDate,
+  accountTypes,
+  fiscalYearStartMonth = 0,
+  db,
+}: {
+  members: ConsolidationMember[];
+  asOfDate: string;
+  accountTypes: string[];
+  fiscalYearStartMonth?: number;
+  db: D1Database;
+}): Promise<ConsolidatedBalances> {
+  const entityIds = members.map((member) => member.entityId);
+  const eliminations = indexEliminations(
+    getIntercompanyEliminations(
+      await getIntercompanyActivity({ entityIds, endDate: asOfDate, db }),
+      entityIds
+    )
+  );
+
+  const accounts = new Map<string, ReportAccount>();
+  const amounts: Array<{ accountCode: string; amount: number }> = [];
+  const priorYears: number[] = [];
+  const currentYear: number[] = [];
+  const minority: number[] = [];
+
+  const loaded: Array<{
+    member: ConsolidationMember;
+    memberAccounts: Map<string, ReportAccount>;
+    balances: AccountBalance[];
+  }> = [];
+  for (const member of members) {
+    const { entityId } = member;
+    const memberAccounts = mergeAccounts(
+      accounts,
+      await getAccountsByType({ entityId, types: accountTypes, db })
+    );
+    const balances = await getAccountBalances({ entityId, asOfDate, accountTypes, db });
+    loaded.push({ member, memberAccounts, balances });
+  }
+
+  const investmentEliminations = getInvestmentEliminations(
+    members,
+    loaded.map(({ member, memberAccounts, balances }) => ({
+      entityId: member.entityId,
+      investment: balanceOnCode(balances, memberAccounts, INVESTMENT_ACCOUNT_CODE),
+      capital: balanceOnCode(balances, memberAccounts, CAPITAL_ACCOUNT_CODE),
+    }))
+  );
+  for (const elimination of investmentEliminations) {
+    const key = `${elimination.holderEntityId}:${INVESTMENT_ACCOUNT_CODE}`;
+    eliminations.set(
+      key,
+      Math.round(((eliminations.get(key) ?? 0) + elimination.amount) * 100) / 100
+    );
+  }
+
+  for (const { member, memberAccounts, balances } of loaded) {
+    const { entityId, groupShare } = member;
+    const acquired = investmentEliminations.filter(
+      (elimination) => elimination.subsidiaryEntityId === entityId
+    );
+
+    for (const balance of balances) {
+      const account = memberAccounts.get(balance.accountId);
+      if (!account) continue;
+      const amount = balance.balance - (eliminations.get(`${entityId}:${account.code}`) ?? 0);
+      if (account.systemType === "equity") {
+        const split = splitByOwnership(amount, groupShare);
+        if (account.code === CAPITAL_ACCOUNT_CODE) {
+          // Capital the holders acquired leaves with their investment
+          for (const elimination of acquired) {
+            split.group -= elimination.groupAmount;
+            split.minority -= elimination.amount - elimination.groupAmount;
+          }
+        }
+        amounts.push({ accountCode: account.code, amount: split.group });
+        minority.push(split.minority);
+      } else {
+        amounts.push({ accountCode: account.code, amount });
+      }
+    }
+
+    const earnings = await getUnclosedEarnings({ entityId, asOfDate, fiscalYearStartMonth, db });
+    const prior = splitByOwnership(earnings.priorYears, groupShare);
+    const current = splitByOwnership(earnings.currentYear, groupShare);
+    priorYears.push(prior.group);
+    currentYear.push(current.group);
+    minority.push(prior.minority, current.minority);
+  }
+
+  const eliminatedCodes = new Set([...eliminations.keys()].map((key) => key.split(":")[1]));
+  if (investmentEliminations.length > 0) eliminatedCodes.add(CAPITAL_ACCOUNT_CODE);
+  const accountBalances: AccountBalance[] = [];
+  for (const [code, balance] of combineByAccountCode(amounts)) {
+    const account = accounts.get(code);
+    if (!account || (balance === 0 && eliminatedCodes.has(code))) continue;
+    accountBalances.push({
+      accountId: account.id,
+      accountName: account.name,
+      accountType: account.type,
+      accountCode: code,
+      balance,
+      asOfDate,
+    });
+  }
+
+  return {
+    accounts: [...accounts.values()],
+    accountBalances,
+    earnings: {
+      priorYears: sumAmounts(priorYears),
+      currentYear: sumAmounts(currentYear),
+    },
+    minorityInterest: sumAmounts(minority),
+  };
+}
+
+/**
+ * Consolidated activity per account for a period, after eliminating
+ * intercompany income against the matching expense. The minority share of
+ * net income is taken from each member's own results.
+ */
+export async function getConsolidatedTransactionTotals({
+  members,
+  startDate,
+  endDate,
+  accountTypes,
+  db,
+}: {
+  members: ConsolidationMember[];
+  startDate: string;
+  endDate: string;
+  accountTypes: string[];
+  db: D1Database;
+}): Promise<ConsolidatedTotals> {
+  const entityIds = members.map((member) => member.entityId);
+  const eliminations = indexEliminations(
+    getIntercompanyEliminations(
+      await getIntercompanyActivity({ entityIds, startDate, endDate, db }),
+      entityIds
+    )
+  );
+
+  const accounts = new Map<string, ReportAccount>();
+  const amounts: Array<{ accountCode: string; amount: number }> = [];
+  const counts = new Map<string, number>();
+  const minority: number[] = [];
+
+  for (const member of members) {
+    const { entityId, groupShare } = member;
+    const memberAccounts = mergeAccounts(
+      accounts,
+      await getAccountsByType({ entityId, types: accountTypes, db })
+    );
+    const totals = await getTransactionTotals({ entityId, startDate, endDate, accountTypes, db });
+
+    let netIncome = 0;
+    for (const total of totals) {
+      const account = memberAccounts.get(total.accountId);
+      if (!account) continue;
+      amounts.push({
+        accountCode: account.code,
+        amount: total.total - (eliminations.get(`${entityId}:${account.code}`) ?? 0),
+      });
+      counts.set(account.code, (counts.get(account.code) ?? 0) + total.count);
+      if (total.systemType === "income") netIncome += total.total;
+      if (total.systemType === "expense") netIncome -= total.total;
+    }
+    minority.push(splitByOwnership(netIncome, groupShare).minority);
+  }
+
+  const transactionTotals: ConsolidatedTotals["transactionTotals"] = [];
+  for (const [code, total] of combineByAccountCode(amounts)) {
+    const account = accounts.get(code);
+    if (!account) continue;
+    transactionTotals.push({
+      accountId: account.id,
+      count: counts.get(code) ?? 0,
+      total,
+      type: account.type,
+      systemType: account.systemType,
+    });
+  }
+
+  return {
+    accounts: [...accounts.values()],
+    transactionTotals,
+    minorityInterest: sumAmounts(minority),
+  };
+}
@@ -0,0 +1,71 @@
+// src/lib/reports/dimensions.ts
+/**
+ * Dimensional Reports
+ *
+ * Runs a report generator once for every value of a line dimension found in
+ * the ledger (one income statement per property, say) and once more for the
+ * lines without a value. Lines carrying several tags count towards each of
+ * them, so tag segments need not add up to the whole.
+ */
+
+import type { D1Database } from "@cloudflare/workers-types";
+import type { ReportSegment } from "../../types/report";
+import { getDimensionValues } from "../accounting/core/accounting-api";
+import {
+  filterForDimensionValue,
+  hasDimensions,
+  type Dimension,
+  type DimensionFilter,
+} from "../accounting/core/dimensions";
+import { ValidationError } from "../../utils/errors";
+
+/**
+ * Dimensions belong to one entity's lines, so they cannot be combined with a
+ * consolidated report.
+ */
+export function assertDimensionsSupported(options: {
+  consolidate?: boolean | undefined;
+  dimensions?: DimensionFilter | undefined;
+  groupBy?: Dimension | undefined;
+}): void {
+  if (options.consolidate && (hasDimensions(options.dimensions) || options.groupBy)) {
+    throw new ValidationError(
+      "Consolidated reports cannot be filtered or grouped by dimension."
+    );
+  }
+}
+
+/**
+ * Generate one report per value of `dimension`, each further restricted by
+ * `dimensions`.
+ */
+export async function generateSegments<R>({
+  entityId,
+  dimension,
+  dimensions,
+  startDate,
+  endDate,
+  db,
+  generate,
+}: {
+  entityId: string;
+  dimension: Dimension;
+  dimensions?: DimensionFilter | undefined;
+  /** Period the values are looked up in; balance sheets start at the beginning */
+  startDate?: string | undefined;
+  endDate: string;
+  db: D1Database;
+  generate: (dimensions: DimensionFilter) => Promise<R>;
+}): Promise<ReportSegment<R>[]> {
+  const values = await getDimensionValues({ entityId, dimension, startDate, endDate, db });
+
+  const segments: ReportSegment<R>[] = [];
+  for (const value of values) {
+    segments.push({
+      dimension,
+      value,
+      report: await generate(filterForDimensionValue(dimension, value, dimensions)),
+    });
+  }
+  return segments;
+}
@@ -0,0 +1,232 @@
+// src/lib/reports/equity-roll-forward.ts
+/**
+ * Statement of Changes in Equity Report Generator
+ *
+ * Rolls the entity's equity accounts forward over a period, from opening to
+ * closing capital, with the period's net income taken from its income and
+ * expense accounts. When partners or members are configured on the entity,
+ * each gets a capital account of their own (for the year-end package and
+ * K-1 preparation).
+ */
+
+import type {
+  EquityRollForwardAccount,
+  EquityRollForwardAmounts,
+  EquityRollForwardReport,
+  ReportLineItem,
+  ReportTimeFrame,
+} from "../../types/report";
+import type { EntityOwner } from "../../types/entity";
+import { getEquityActivity } from "../accounting/core/accounting-api";
+import {
+  allocateEquityToOwners,
+  getEquityComponent,
+  rollForwardEquityAccount,
+  sumEquityRollForwards,
+} from "../accounting/core/equity";
+import { createEntityOwnerService } from "../services/entity-owner-service";
+import { addGeneralLedgerDrillDowns } from "./general-ledger";
+import { formatCurrency } from "../../utils/format";
+import type { D1Database } from "@cloudflare/workers-types";
+
+/**
+ * Options for generating a statement of changes in equity
+ */
+export interface EquityRollForwardOptions {
+  /** Entity ID to generate the report for */
+  entityId: string;
+  /** Time frame for the report */
+  timeFrame: ReportTimeFrame;
+  /** Start date of the period (ISO format) */
+  startDate: string;
+  /** End date of the period (ISO format) */
+  endDate: string;
+  /** The entity's owners; loaded when not given */
+  owners?: EntityOwner[] | undefined;
+  /** Currency code */
+  currencyCode?: string;
+  /** Database connection */
+  db: D1Database;
+  /** User ID generating the report */
+  userId: string;
+}
+
+const UNCLOSED_EARNINGS_NAME = "Earnings not yet closed to retained earnings";
+
+/**
+ * Generate a statement of changes in equity
+ *
+ * @param options Report generation options
+ * @returns Equity roll-forward report
+ */
+export async function generateEquityRollForward(
+  options: EquityRollForwardOptions
+): Promise<EquityRollForwardReport> {
+  const {
+    entityId,
+    timeFrame,
+    startDate,
+    endDate,
+    currencyCode = "USD",
+    db,
+    userId,
+  } = options;
+
+  // 1. Equity activity, net income and the entity's owners
+  const activity = await getEquityActivity({ entityId, startDate, endDate, db });
+  const owners = options.owners ?? (await createEntityOwnerService(db).getOwners(entityId));
+
+  // 2. Roll each equity account forward, then the whole of equity
+  const accounts = activity.accounts.map(({ account, ...rest }) => ({
+    account,
+    amounts: rollForwardEquityAccount({ account, ...rest }),
+  }));
+  const total = sumEquityRollForwards(
+    accounts.map(({ amounts }) => amounts),
+    activity
+  );
+
+  // 3. Each owner's share
+  const ownerAccounts = allocateEquityToOwners(
+    owners,
+    accounts.map(({ account, amounts }) => ({
+      entityAccountId: account.entityAccountId,
+      amounts,
+    })),
+    total
+  );
+
+  // 4. Statement lines
+  const accountRows: EquityRollForwardAccount[] = accounts.map(({ account, amounts }) => ({
+    accountId: account.id,
+    accountCode: account.code,
+    accountName: account.name,
+    component: getEquityComponent(account),
+    ...amounts,
+  }));
+  const items = buildLineItems(accountRows, total, activity.openingEarnings);
+
+  // Opening balances include every posting before the period
+  const [opening, ...movements] = items;
+  const dayBeforeStart = new Date(new Date(startDate.slice(0, 10)).getTime() - 86400000)
+    .toISOString()
+    .slice(0, 10);
+  addGeneralLedgerDrillDowns([opening!], { entityId, endDate: dayBeforeStart });
+  addGeneralLedgerDrillDowns(movements, {
+    entityId,
+    startDate: startDate.slice(0, 10),
+    endDate: endDate.slice(0, 10),
+  });
+
+  // 5. Generate the report
+  return {
+    id: crypto.randomUUID(),
+    type: "equity-roll-forward",
+    title: `Statement of Changes in Equity - ${new Date(startDate).toLocaleDateString()} to ${new Date(endDate).toLocaleDateString()}`,
+    timeFrame,
+    entityId,
+    generatedAt: Math.floor(Date.now() / 1000),
+    generatedByUserId: userId,
+    isFinalized: false,
+    currencyCode,
+    items,
+    accounts: accountRows,
+    total,
+    owners: ownerAccounts.map(({ owner, amounts }) => ({
+      ownerId: owner.id,
+      ownerName: owner.name,
+      ownerType: owner.ownerType,
+      ownershipPercentage: owner.ownershipPercentage,
+      ...amounts,
+    })),
+  };
+}
+
+/**
+ * Lay out the statement, opening capital first. Amounts are positive except
+ * net income (negative for a loss) and other changes; distributions are
+ * subtracted.
+ */
+function buildLineItems(
+  accounts: EquityRollForwardAccount[],
+  total: EquityRollForwardAmounts,
+  openingEarnings: number
+): ReportLineItem[] {
+  let displayOrder = 0;
+  const accountLine = (
+    lineItemName: string,
+    field: keyof Omit<EquityRollForwardAmounts, "closingCapital">
+  ): ReportLineItem => ({
+    lineItemName,
+    amount: total[field],
+    displayOrder: ++displayOrder,
+    children: accounts
+      .filter((account) => account[field] !== 0)
+      .map((account) => ({
+        accountId: account.accountId,
+        accountCode: account.accountCode,
+        lineItemName: account.accountName,
+        amount: account[field],
+        displayOrder: ++displayOrder,
+        indentLevel: 1,
+      })),
+  });
+
+  // Built top to bottom, so displayOrder follows the statement
+  const opening: ReportLineItem = {
+    ...accountLine("Opening Capital", "openingCapital"),
+    customStyleClass: "subtotal",
+  };
+  if (openingEarnings !== 0) {
+    opening.children!.push({
+      lineItemName: UNCLOSED_EARNINGS_NAME,
+      amount: openingEarnings,
+      displayOrder: ++displayOrder,
+      indentLevel: 1,
+    });
+  }
+  const contributions = accountLine("Contributions", "contributions");
+  const netIncome: ReportLineItem = {
+    lineItemName: "Net Income (Loss)",
+    amount: total.netIncome,
+    displayOrder: ++displayOrder,
+  };
+  const distributions = accountLine("Less: Distributions", "distributions");
+  const otherChanges = accountLine("Other Changes", "otherChanges");
+  const closing: ReportLineItem = {
+    lineItemName: "Closing Capital",
+    amount: total.closingCapital,
+    isCalculatedTotal: true,
+    customStyleClass: "total",
+    displayOrder: ++displayOrder,
+  };
+
+  return [opening, contributions, netIncome, distributions, otherChanges, closing];
+}
+
+/**
+ * Format a statement of changes in equity for display
+ *
+ * @param report Equity roll-forward report to format
+ * @param currencyCode Currency code to use for formatting
+ * @returns Formatted equity roll-forward report
+ */
+export function formatEquityRollForward(
+  report: EquityRollForwardReport,
+  currencyCode = "USD"
+): EquityRollForwardReport {
+  // Create a deep copy to avoid modifying the original
+  const formattedReport = JSON.parse(
+    JSON.stringify(report)
+  ) as EquityRollForwardReport;
+
+  const format = (items: ReportLineItem[]) => {
+    for (const item of items) {
+      item.formattedAmount = formatCurrency(item.amount, currencyCode);
+      if (item.children) format(item.children);
+    }
+  };
+  format(formattedReport.items);
+
+  return formattedReport;
+}
@@ -0,0 +1,235 @@
+// src/lib/reports/general-ledger.ts
+/**
+ * General Ledger Report Generator
+ *
+ * Lists every posted line of each account in a period with the account's
+ * opening balance, a running balance after each line, and the accounts on
+ * the other side of the transaction. Accounts with many lines are paginated;
+ * running balances are computed over the whole period, so every page carries
+ * the right balance.
+ *
+ * Balance sheet and income statement line items link here through their
+ * `drillDown` filters (see `addGeneralLedgerDrillDowns`).
+ */
+
+import type {
+  GeneralLedgerAccountDetail,
+  GeneralLedgerReport,
+  ReportDrillDown,
+  ReportLineItem,
+  ReportTimeFrame,
+} from "../../types/report";
+import {
+  getGeneralLedgerActivity,
+  getGeneralLedgerLines,
+} from "../accounting/core/accounting-api";
+import {
+  hasDimensions,
+  type DimensionFilter,
+} from "../accounting/core/dimensions";
+import { ValidationError } from "../../utils/errors";
+import type { D1Database } from "@cloudflare/workers-types";
+
+export const DEFAULT_LEDGER_PAGE_SIZE = 200;
+export const MAX_LEDGER_PAGE_SIZE = 1000;
+
+/**
+ * Options for generating a general ledger report
+ */
+export interface GeneralLedgerOptions {
+  /** Entity ID to generate the report for */
+  entityId: string;
+  /** Time frame for the report */
+  timeFrame: ReportTimeFrame;
+  /** Start date of the period (ISO format); omit to start at the first posting */
+  startDate?: string | undefined;
+  /** End date of the period (ISO format) */
+  endDate: string;
+  /** Only list these accounts (chart-of-accounts IDs) */
+  accountIds?: string[] | undefined;
+  /** Include accounts without a balance or activity */
+  includeZeroBalances?: boolean | undefined;
+  /** Include inactive accounts */
+  includeInactiveAccounts?: boolean | undefined;
+  /** Only include transaction lines tagged with these dimensions */
+  dimensions?: DimensionFilter | undefined;
+  /** Page of each account's lines (1-based) */
+  page?: number | undefined;
+  /** Lines per account and page */
+  pageSize?: number | undefined;
+  /** Currency code */
+  currencyCode?: string | undefined;
+  /** Database connection */
+  db: D1Database;
+  /** User ID generating the report */
+  userId: string;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Generate a general ledger report
+ *
+ * @param options Report generation options
+ * @returns General ledger report
+ */
+export async function generateGeneralLedger(
+  options: GeneralLedgerOptions
+): Promise<GeneralLedgerReport> {
+  const {
+    entityId,
+    timeFrame,
+    startDate,
+    endDate,
+    accountIds,
+    includeZeroBalances = false,
+    includeInactiveAccounts = false,
+    dimensions,
+    page = 1,
+    pageSize = DEFAULT_LEDGER_PAGE_SIZE,
+    currencyCode = "USD",
+    db,
+    userId,
+  } = options;
+
+  if (!Number.isInteger(page) || page < 1) {
+    throw new ValidationError("Page must be a positive whole number.");
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_LEDGER_PAGE_SIZE) {
+    throw new ValidationError(
+      `Page size must be a whole number from 1 to ${MAX_LEDGER_PAGE_SIZE}.`
+    );
+  }
+  if (startDate && startDate.slice(0, 10) > endDate.slice(0, 10)) {
+    throw new ValidationError("The end date must not be before the start date.");
+  }
+
+  // 1. Fetch the opening balance and period activity of every account
+  const activity = (
+    await getGeneralLedgerActivity({ entityId, startDate, endDate, dimensions, db })
+  ).filter(
+    ({ account, openingBalance, lineCount }) =>
+      (!accountIds || accountIds.includes(account.id)) &&
+      (includeInactiveAccounts || account.isActive) &&
+      (includeZeroBalances || openingBalance !== 0 || lineCount > 0)
+  );
+
+  // 2. Fetch the requested page of lines of the accounts that have any
+  const lines = await getGeneralLedgerLines({
+    entityId,
+    entityAccountIds: activity
+      .filter((a) => a.lineCount > (page - 1) * pageSize)
+      .map((a) => a.account.entityAccountId),
+    startDate,
+    endDate,
+    dimensions,
+    offset: (page - 1) * pageSize,
+    limit: pageSize,
+    db,
+  });
+  const linesByAccount = new Map<string, typeof lines>();
+  for (const line of lines) {
+    const accountLines = linesByAccount.get(line.entityAccountId) ?? [];
+    accountLines.push(line);
+    linesByAccount.set(line.entityAccountId, accountLines);
+  }
+
+  // 3. Lay out each account, running balances on the normal-balance side
+  const accountsDetail: GeneralLedgerAccountDetail[] = activity.map(
+    ({ account, openingBalance, periodDebits, periodCredits, lineCount }) => {
+      const sign = account.normalBalance === "debit" ? 1 : -1;
+      return {
+        accountInfo: {
+          id: account.id,
+          code: account.code,
+          name: account.name,
+          type: account.systemType,
+        },
+        openingPeriodBalance: openingBalance,
+        transactionsInPeriod: (linesByAccount.get(account.entityAccountId) ?? []).map(
+          (line) => ({
+            lineId: line.lineId,
+            transactionId: line.transactionId,
+            transactionDate: line.date,
+            descriptionText: line.description,
+            referenceIdentifier: line.reference,
+            debitAmount: line.debit || null,
+            creditAmount: line.credit || null,
+            runningBalanceAfterTransaction: roundCents(
+              openingBalance + sign * line.runningNetDebit
+            ),
+            relatedCounterpartyOrEntity: line.counterAccounts,
+            memo: line.memo,
+          })
+        ),
+        closingPeriodBalance: roundCents(
+          openingBalance + sign * (periodDebits - periodCredits)
+        ),
+        totalDebitsInPeriod: periodDebits,
+        totalCreditsInPeriod: periodCredits,
+        pagination: {
+          page,
+          pageSize,
+          totalLines: lineCount,
+          totalPages: Math.max(1, Math.ceil(lineCount / pageSize)),
+        },
+      };
+    }
+  );
+
+  // 4. Generate the report
+  return {
+    id: crypto.randomUUID(),
+    type: "general-ledger",
+    title: startDate
+      ? `General Ledger - ${new Date(startDate).toLocaleDateString()} to ${new Date(endDate).toLocaleDateString()}`
+      : `General Ledger through ${new Date(endDate).toLocaleDateString()}`,
+    timeFrame,
+    entityId,
+    generatedAt: Math.floor(Date.now() / 1000),
+    generatedByUserId: userId,
+    isFinalized: false,
+    currencyCode,
+    accountsDetail,
+    filterIncludeZeroBalanceAccounts: includeZeroBalances,
+    filterIncludeInactiveCoaAccounts: includeInactiveAccounts,
+    ...(dimensions && hasDimensions(dimensions) ? { dimensions } : {}),
+  };
+}
+
+/**
+ * Link the account line items of a report to the general ledger, filtered
+ * to the item's account and the report's period and dimensions. Calculated
+ * totals and items without an account are left alone.
+ */
+export function addGeneralLedgerDrillDowns(
+  items: ReportLineItem[],
+  filters: Omit<ReportDrillDown, "reportType" | "accountId">
+): void {
+  for (const item of items) {
+    if (item.accountId && !item.isCalculatedTotal && !item.isHeaderLine) {
+      item.drillDown = { reportType: "general-ledger", ...filters, accountId: item.accountId };
+    }
+    if (item.children) {
+      addGeneralLedgerDrillDowns(item.children, filters);
+    }
+  }
+}
+
+/**
+ * URL of the general ledger API filtered as a line item's drill-down
+ * describes. Dimension filters that select lines without the dimension
+ * (null) have no query parameter and are left out.
+ */
+export function getGeneralLedgerUrl(drillDown: ReportDrillDown): string {
+  const { entityId, accountId, startDate, endDate, dimensions } = drillDown;
+  const params = new URLSearchParams({ entityId, accountId, endDate });
+  if (startDate) params.set("startDate", startDate);
+  if (dimensions?.propertyId) params.set("propertyId", dimensions.propertyId);
+  if (dimensions?.unitId) params.set("unitId", dimensions.unitId);
+  if (dimensions?.className) params.set("className", dimensions.className);
+  for (const tag of dimensions?.tags ?? []) params.append("tag", tag);
+  return `/api/reports/general-ledger?${params}`;
+}
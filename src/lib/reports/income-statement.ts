@@ -9,14 +9,34 @@
 // Use type-only imports
 import type {
   IncomeStatementReport,
+  IncomeStatementSection,
   ReportLineItem,
+  ReportPeriodColumn,
+  ReportSegment,
   ReportTimeFrame,
   TransactionSummary,
 } from "../../types/report";
 import {
   getTransactionTotals,
   getAccountsByType,
+  type ReportAccount,
 } from "../accounting/core/accounting-api";
+import {
+  getConsolidatedTransactionTotals,
+  getConsolidationGroup,
+} from "./consolidation";
+import { assertDimensionsSupported, generateSegments } from "./dimensions";
+import { addGeneralLedgerDrillDowns } from "./general-ledger";
+import {
+  addPeriodColumns,
+  assertPeriodsWithin,
+  generatePeriodReports,
+} from "./periods";
+import {
+  hasDimensions,
+  type Dimension,
+  type DimensionFilter,
+} from "../accounting/core/dimensions";
 import { formatCurrency, formatPercent } from "../../utils/format";
 import type { D1Database } from "@cloudflare/workers-types";
 
@@ -32,6 +52,8 @@ interface ExtendedReportLineItem extends ReportLineItem {
  * Extended IncomeStatementReport interface with additional properties
  */
 interface ExtendedIncomeStatementReport extends IncomeStatementReport {
+  /** Every expense line, with the section totals the generator adds */
+  expenses: IncomeStatementSection;
   grossProfit?: number;
   operatingIncome?: number;
   incomeBeforeTax?: number;
@@ -45,6 +67,11 @@ interface ExtendedIncomeStatementReport extends IncomeStatementReport {
   formattedGrossProfit?: string;
   formattedOperatingIncome?: string;
   formattedIncomeBeforeTax?: string;
+  minorityInterest?: number;
+  netIncomeAttributableToParent?: number;
+  formattedMinorityInterest?: string;
+  formattedNetIncomeAttributableToParent?: string;
+  segments?: ReportSegment<ExtendedIncomeStatementReport>[];
 }
 
 /**
@@ -93,6 +120,16 @@ export interface IncomeStatementOptions {
   chartOfAccountsId?: string;
   /** Currency code */
   currencyCode?: string;
+  /** Whether to consolidate the entity with all of its descendants */
+  consolidate?: boolean;
+  /** Only include lines tagged with these dimensions */
+  dimensions?: DimensionFilter | undefined;
+  /** Add a segment per value of this dimension */
+  groupBy?: Dimension | undefined;
+  /** Side-by-side period columns within startDate..endDate; the report's own amounts are their total */
+  periods?: ReportPeriodColumn[] | undefined;
+  /** Whether to add the change from one period column to the next */
+  includePeriodVariance?: boolean | undefined;
   /** Database connection */
   db: D1Database;
   /** User ID generating the report */
@@ -120,41 +157,89 @@ export async function generateIncomeStatement(
     includeTransactionDetails = false,
     includeOperatingSubtotals = true,
     currencyCode = "USD",
+    consolidate = false,
+    dimensions,
+    groupBy,
+    periods,
+    includePeriodVariance = false,
     db,
     userId,
   } = options;
+  assertDimensionsSupported({ consolidate, dimensions, groupBy });
+  if (periods) {
+    assertPeriodsWithin(periods, { startDate, endDate });
+  }
 
-  // 1. Fetch transaction totals for all relevant account types
-  const transactionTotals = await getTransactionTotals({
-    entityId,
-    startDate,
-    endDate,
-    accountTypes: [...REVENUE_ACCOUNT_TYPES, ...EXPENSE_ACCOUNT_TYPES],
-    db,
-  });
+  const accountTypes = [...REVENUE_ACCOUNT_TYPES, ...EXPENSE_ACCOUNT_TYPES];
 
-  // 2. If comparison is requested, fetch previous period data
+  let transactionTotals: TransactionSummary[];
   let previousTotals: TransactionSummary[] = [];
-  if (includeComparison && previousStartDate && previousEndDate) {
-    previousTotals = await getTransactionTotals({
+  let accounts: ReportAccount[];
+  let minorityInterest: number | undefined;
+  let consolidatedEntityIds: string[] | undefined;
+
+  if (consolidate) {
+    // 1-3. Roll the entity up with all of its descendants. Totals come back
+    // combined by account code with intercompany income and expense
+    // eliminated.
+    const members = await getConsolidationGroup({ entityId, userId, db });
+    const current = await getConsolidatedTransactionTotals({
+      members,
+      startDate,
+      endDate,
+      accountTypes,
+      db,
+    });
+    if (includeComparison && previousStartDate && previousEndDate) {
+      previousTotals = (
+        await getConsolidatedTransactionTotals({
+          members,
+          startDate: previousStartDate,
+          endDate: previousEndDate,
+          accountTypes,
+          db,
+        })
+      ).transactionTotals;
+    }
+
+    transactionTotals = current.transactionTotals;
+    accounts = current.accounts;
+    minorityInterest = current.minorityInterest;
+    consolidatedEntityIds = members.map((member) => member.entityId);
+  } else {
+    // 1. Fetch transaction totals for all relevant account types
+    transactionTotals = await getTransactionTotals({
       entityId,
-      startDate: previousStartDate,
-      endDate: previousEndDate,
-      accountTypes: [...REVENUE_ACCOUNT_TYPES, ...EXPENSE_ACCOUNT_TYPES],
+      startDate,
+      endDate,
+      accountTypes,
+      dimensions,
       db,
     });
-  }
 
-  // 3. Fetch account information for categorization
-  const accounts = await getAccountsByType({
-    entityId,
-    types: [...REVENUE_ACCOUNT_TYPES, ...EXPENSE_ACCOUNT_TYPES],
-    db,
-  });
+    // 2. If comparison is requested, fetch previous period data
+    if (includeComparison && previousStartDate && previousEndDate) {
+      previousTotals = await getTransactionTotals({
+        entityId,
+        startDate: previousStartDate,
+        endDate: previousEndDate,
+        accountTypes,
+        dimensions,
+        db,
+      });
+    }
+
+    // 3. Fetch account information for categorization
+    accounts = await getAccountsByType({
+      entityId,
+      types: accountTypes,
+      db,
+    });
+  }
 
   // 4. Create an account lookup map for easier access
-  const accountMap = new Map<string, any>();
-  accounts.forEach((account: any) => {
+  const accountMap = new Map<string, ReportAccount>();
+  accounts.forEach((account) => {
     accountMap.set(account.id, account);
   });
 
@@ -197,11 +282,11 @@ export async function generateIncomeStatement(
   if (includeComparison && previousTotals.length > 0) {
     const previousRevenueTotals = previousTotals.filter(
       (t: TransactionSummary) =>
-        REVENUE_ACCOUNT_TYPES.includes(accountMap.get(t.accountId)?.type)
+        REVENUE_ACCOUNT_TYPES.includes(accountMap.get(t.accountId)?.type ?? "")
     );
     const previousExpenseTotals = previousTotals.filter(
       (t: TransactionSummary) =>
-        EXPENSE_ACCOUNT_TYPES.includes(accountMap.get(t.accountId)?.type)
+        EXPENSE_ACCOUNT_TYPES.includes(accountMap.get(t.accountId)?.type ?? "")
     );
 
     const prevRevenue = previousRevenueTotals.reduce(
@@ -226,7 +311,7 @@ export async function generateIncomeStatement(
   const report: ExtendedIncomeStatementReport = {
     id: crypto.randomUUID(),
     type: "income-statement",
-    title: `Income Statement - ${new Date(startDate).toLocaleDateString()} to ${new Date(endDate).toLocaleDateString()}`,
+    title: `${consolidate ? "Consolidated " : ""}Income Statement - ${new Date(startDate).toLocaleDateString()} to ${new Date(endDate).toLocaleDateString()}`,
     timeFrame: timeFrame,
     entityId: entityId,
     generatedAt: new Date().toISOString(),
@@ -251,8 +336,79 @@ export async function generateIncomeStatement(
           type: accountMap.get(t.accountId)?.type || "UNKNOWN",
         }))
       : undefined,
+    ...(consolidatedEntityIds ? { consolidatedEntityIds } : {}),
+    ...(dimensions && hasDimensions(dimensions) ? { dimensions } : {}),
   };
 
+  // Link account lines to their postings in the general ledger. Consolidated
+  // lines span several entities' ledgers, so they have no single one to open.
+  if (!consolidate) {
+    const drillDown = {
+      entityId,
+      startDate: startDate.slice(0, 10),
+      endDate: endDate.slice(0, 10),
+      ...(dimensions && hasDimensions(dimensions) ? { dimensions } : {}),
+    };
+    addGeneralLedgerDrillDowns(revenueItems, drillDown);
+    addGeneralLedgerDrillDowns(expenseSections.items, drillDown);
+  }
+
+  if (periods) {
+    const periodReports = await generatePeriodReports(periods, (period) =>
+      generateIncomeStatement({
+        ...options,
+        startDate: period.startDate ?? startDate,
+        endDate: period.endDate,
+        includeComparison: false,
+        groupBy: undefined,
+        periods: undefined,
+      })
+    );
+    const lineKey = (item: ExtendedReportLineItem) => item.accountId || item.code || "";
+    addPeriodColumns(
+      revenueItems,
+      periodReports.map((r) => r.revenue.items),
+      lineKey,
+      includePeriodVariance
+    );
+    addPeriodColumns(
+      expenseSections.items,
+      periodReports.map((r) => r.expenses.items),
+      lineKey,
+      includePeriodVariance
+    );
+    report.periodColumns = periods;
+    report.periodTotals = {
+      totalRevenue: periodReports.map((r) => r.revenue.total),
+      totalExpenses: periodReports.map((r) => r.expenses.total),
+      netIncome: periodReports.map((r) => r.netIncome),
+    };
+  }
+
+  if (groupBy) {
+    report.segments = await generateSegments({
+      entityId,
+      dimension: groupBy,
+      dimensions,
+      startDate,
+      endDate,
+      db,
+      generate: (segmentDimensions) =>
+        generateIncomeStatement({
+          ...options,
+          dimensions: segmentDimensions,
+          groupBy: undefined,
+        }),
+    });
+  }
+
+  // Split consolidated net income between the group and minority owners
+  if (minorityInterest !== undefined) {
+    report.minorityInterest = minorityInterest;
+    report.netIncomeAttributableToParent =
+      Math.round((netIncome - minorityInterest) * 100) / 100;
+  }
+
   // Add metadata for net income comparison
   if (includeComparison && previousNetIncome !== null) {
     report.netIncomePreviousPeriod = previousNetIncome;
@@ -279,13 +435,13 @@ export async function generateIncomeStatement(
 function processRevenueSection(
   transactionTotals: TransactionSummary[],
   previousTotals: TransactionSummary[],
-  accountMap: Map<string, any>,
+  accountMap: Map<string, ReportAccount>,
   includeComparison: boolean,
   showPercentOfRevenue: boolean
 ): { items: ExtendedReportLineItem[]; total: number } {
   // Filter to only revenue accounts
   const revenueTotals = transactionTotals.filter((total) =>
-    REVENUE_ACCOUNT_TYPES.includes(accountMap.get(total.accountId)?.type)
+    REVENUE_ACCOUNT_TYPES.includes(accountMap.get(total.accountId)?.type ?? "")
   );
 
   // Create a map for previous period totals
@@ -293,7 +449,7 @@ function processRevenueSection(
   if (includeComparison) {
     previousTotals
       .filter((total) =>
-        REVENUE_ACCOUNT_TYPES.includes(accountMap.get(total.accountId)?.type)
+        REVENUE_ACCOUNT_TYPES.includes(accountMap.get(total.accountId)?.type ?? "")
       )
       .forEach((total) => {
         previousTotalMap.set(total.accountId, total.total);
@@ -335,7 +491,7 @@ function processRevenueSection(
 
   // Sort revenue items by account code or order
   revenueItems.sort(
-    (a, b) => a.order - b.order || a.code.localeCompare(b.code)
+    (a, b) => a.order - b.order || (a.code ?? "").localeCompare(b.code ?? "")
   );
 
   // Calculate percent of revenue for each item
@@ -368,7 +524,7 @@ function processRevenueSection(
 function processExpenseSection(
   transactionTotals: TransactionSummary[],
   previousTotals: TransactionSummary[],
-  accountMap: Map<string, any>,
+  accountMap: Map<string, ReportAccount>,
   includeComparison: boolean,
   showPercentOfRevenue: boolean,
   totalRevenue: number,
@@ -382,7 +538,7 @@ function processExpenseSection(
 } {
   // Filter to only expense accounts
   const expenseTotals = transactionTotals.filter((total) =>
-    EXPENSE_ACCOUNT_TYPES.includes(accountMap.get(total.accountId)?.type)
+    EXPENSE_ACCOUNT_TYPES.includes(accountMap.get(total.accountId)?.type ?? "")
   );
 
   // Create a map for previous period totals
@@ -390,7 +546,7 @@ function processExpenseSection(
   if (includeComparison) {
     previousTotals
       .filter((total) =>
-        EXPENSE_ACCOUNT_TYPES.includes(accountMap.get(total.accountId)?.type)
+        EXPENSE_ACCOUNT_TYPES.includes(accountMap.get(total.accountId)?.type ?? "")
       )
       .forEach((total) => {
         previousTotalMap.set(total.accountId, total.total);
@@ -469,21 +625,21 @@ function processExpenseSection(
 
   // Sort expense items by account code or order
   expenseItems.sort(
-    (a, b) => a.order - b.order || a.code.localeCompare(b.code)
+    (a, b) => a.order - b.order || (a.code ?? "").localeCompare(b.code ?? "")
   );
 
   // If operating subtotals are included, build a structured expense section
   if (includeOperatingSubtotals) {
     // Sort the categorized lists
-    cogsItems.sort((a, b) => a.order - b.order || a.code.localeCompare(b.code));
+    cogsItems.sort((a, b) => a.order - b.order || (a.code ?? "").localeCompare(b.code ?? ""));
     operatingExpenseItems.sort(
-      (a, b) => a.order - b.order || a.code.localeCompare(b.code)
+      (a, b) => a.order - b.order || (a.code ?? "").localeCompare(b.code ?? "")
     );
     nonOperatingExpenseItems.sort(
-      (a, b) => a.order - b.order || a.code.localeCompare(b.code)
+      (a, b) => a.order - b.order || (a.code ?? "").localeCompare(b.code ?? "")
     );
     taxExpenseItems.sort(
-      (a, b) => a.order - b.order || a.code.localeCompare(b.code)
+      (a, b) => a.order - b.order || (a.code ?? "").localeCompare(b.code ?? "")
     );
 
     // Calculate key metrics
@@ -703,6 +859,11 @@ export function formatIncomeStatement(
         item.percentOfRevenue / 100
       );
     }
+    if (item.periodAmounts) {
+      item.formattedPeriodAmounts = item.periodAmounts.map((amount) =>
+        formatCurrency(amount, currencyCode)
+      );
+    }
   });
 
   // Format expense amounts
@@ -722,6 +883,11 @@ export function formatIncomeStatement(
         item.percentOfRevenue / 100
       );
     }
+    if (item.periodAmounts) {
+      item.formattedPeriodAmounts = item.periodAmounts.map((amount) =>
+        formatCurrency(amount, currencyCode)
+      );
+    }
   });
 
   // Format the net income
@@ -769,6 +935,27 @@ export function formatIncomeStatement(
     );
   }
 
+  if (formattedReport.minorityInterest !== undefined) {
+    formattedReport.formattedMinorityInterest = formatCurrency(
+      formattedReport.minorityInterest,
+      currencyCode
+    );
+  }
+
+  if (formattedReport.netIncomeAttributableToParent !== undefined) {
+    formattedReport.formattedNetIncomeAttributableToParent = formatCurrency(
+      formattedReport.netIncomeAttributableToParent,
+      currencyCode
+    );
+  }
+
+  if (formattedReport.segments) {
+    formattedReport.segments = formattedReport.segments.map((segment) => ({
+      ...segment,
+      report: formatIncomeStatement(segment.report, currencyCode),
+    }));
+  }
+
   return formattedReport;
 }
 
@@ -0,0 +1,314 @@
+// src/lib/reports/operating-statement.ts
+/**
+ * Property Operating Statement Report Generator
+ *
+ * Net Operating Income by property: Gross Potential Rent less vacancy and
+ * credit loss, other income, operating expenses, then debt service and the
+ * cash flow left after it. Properties are the `propertyId` dimension of the
+ * transaction lines; each one found in the period gets its own statement,
+ * and lines without a property (entity-level overhead) get one more.
+ */
+
+import type {
+  OperatingStatement,
+  OperatingStatementTotals,
+  PropertyOperatingStatement,
+  PropertyOperatingStatementReport,
+  ReportLineItem,
+  ReportSegment,
+  ReportTimeFrame,
+} from "../../types/report";
+import type { PropertyOperatingMetrics } from "../../types/calculations";
+import type { PropertyDto } from "../../types/api";
+import {
+  getAccountsByType,
+  getTransactionTotals,
+  type ReportAccount,
+} from "../accounting/core/accounting-api";
+import {
+  getOperatingStatementAmounts,
+  getOperatingStatementTotals,
+  type OperatingStatementAmount,
+  type OperatingStatementLine,
+} from "../accounting/core/operating-statement";
+import { hasDimensions, type DimensionFilter } from "../accounting/core/dimensions";
+import { addGeneralLedgerDrillDowns } from "./general-ledger";
+import { generateSegments } from "./dimensions";
+import { formatCurrency } from "../../utils/format";
+import type { D1Database } from "@cloudflare/workers-types";
+
+/**
+ * Options for generating a property operating statement
+ */
+export interface OperatingStatementOptions {
+  /** Entity ID to generate the report for */
+  entityId: string;
+  /** Time frame for the report */
+  timeFrame: ReportTimeFrame;
+  /** Start date of the period (ISO format) */
+  startDate: string;
+  /** End date of the period (ISO format) */
+  endDate: string;
+  /** Only report this property */
+  propertyId?: string | undefined;
+  /** Property records, for names, unit counts and the financial summary */
+  properties?: PropertyDto[] | undefined;
+  /** Currency code */
+  currencyCode?: string;
+  /** Database connection */
+  db: D1Database;
+  /** User ID generating the report */
+  userId: string;
+}
+
+const UNASSIGNED_PROPERTY_NAME = "Not assigned to a property";
+
+/**
+ * Generate a property operating statement
+ *
+ * @param options Report generation options
+ * @returns Property operating statement report
+ */
+export async function generatePropertyOperatingStatement(
+  options: OperatingStatementOptions
+): Promise<PropertyOperatingStatementReport> {
+  const {
+    entityId,
+    timeFrame,
+    startDate,
+    endDate,
+    propertyId,
+    properties = [],
+    currencyCode = "USD",
+    db,
+    userId,
+  } = options;
+
+  // 1. Accounts by chart-of-accounts ID, which the totals are keyed on
+  const accounts = new Map(
+    (await getAccountsByType({ entityId, types: [], db })).map((account) => [account.id, account])
+  );
+
+  const buildStatement = async (dimensions: DimensionFilter): Promise<OperatingStatement> => {
+    const transactionTotals = await getTransactionTotals({
+      entityId,
+      startDate,
+      endDate,
+      accountTypes: [],
+      dimensions,
+      db,
+    });
+    const amounts = getOperatingStatementAmounts(
+      transactionTotals.flatMap((t) => {
+        const account = accounts.get(t.accountId);
+        return account
+          ? [{ account, total: t.total, debitTotal: t.debitTotal, creditTotal: t.creditTotal }]
+          : [];
+      })
+    );
+    const totals = getOperatingStatementTotals(amounts);
+    const items = buildLineItems(amounts, totals);
+    addGeneralLedgerDrillDowns(items, {
+      entityId,
+      startDate: startDate.slice(0, 10),
+      endDate: endDate.slice(0, 10),
+      ...(hasDimensions(dimensions) ? { dimensions } : {}),
+    });
+    return { items, totals };
+  };
+
+  // 2. The statement of all the report's lines
+  const total = await buildStatement(propertyId ? { propertyId } : {});
+
+  // 3. One statement per property; a single property's is the total
+  const segments: ReportSegment<OperatingStatement>[] = propertyId
+    ? [{ dimension: "property", value: propertyId, report: total }]
+    : await generateSegments({
+        entityId,
+        dimension: "property",
+        startDate,
+        endDate,
+        db,
+        generate: buildStatement,
+      });
+  const period = {
+    start: Math.floor(new Date(startDate).getTime() / 1000),
+    end: Math.floor(new Date(endDate).getTime() / 1000),
+  };
+  const propertyStatements = segments.map((segment): PropertyOperatingStatement => {
+    const property = properties.find((p) => p.id === segment.value);
+    const statement: PropertyOperatingStatement = {
+      ...segment.report,
+      propertyId: segment.value,
+      propertyName: property?.name ?? segment.value ?? UNASSIGNED_PROPERTY_NAME,
+    };
+    if (segment.value !== null) {
+      statement.metrics = getPropertyMetrics(segment.value, period, segment.report.totals, property);
+    }
+    if (property && statement.metrics) {
+      statement.summary = {
+        property,
+        keyFinancialRatios: {
+          noi: statement.totals.netOperatingIncome,
+          cashFlow: statement.totals.cashFlowAfterDebtService,
+          operatingExpenseRatio: statement.metrics.operatingExpenseRatio,
+        },
+      };
+    }
+    return statement;
+  });
+
+  // 4. Generate the report
+  const propertyName = propertyId
+    ? (properties.find((p) => p.id === propertyId)?.name ?? propertyId)
+    : null;
+  return {
+    id: crypto.randomUUID(),
+    type: "property-operating-statement",
+    title: `Property Operating Statement${propertyName ? ` (${propertyName})` : ""} - ${new Date(startDate).toLocaleDateString()} to ${new Date(endDate).toLocaleDateString()}`,
+    timeFrame,
+    entityId,
+    generatedAt: Math.floor(Date.now() / 1000),
+    generatedByUserId: userId,
+    isFinalized: false,
+    currencyCode,
+    total,
+    properties: propertyStatements,
+  };
+}
+
+/**
+ * Operating metrics of one property. Per-unit figures need the property's
+ * unit count, so they are only given when its record was supplied.
+ */
+function getPropertyMetrics(
+  propertyId: string,
+  period: PropertyOperatingMetrics["period"],
+  totals: OperatingStatementTotals,
+  property: PropertyDto | undefined
+): PropertyOperatingMetrics {
+  const metrics: PropertyOperatingMetrics = {
+    propertyId,
+    period,
+    grossPotentialRent: totals.grossPotentialRent,
+    vacancyAndCreditLoss: totals.vacancyAndCreditLoss,
+    effectiveGrossIncome: totals.effectiveGrossIncome,
+    otherIncome: totals.otherIncome,
+    totalRevenue: totals.totalRevenue,
+    operatingExpenses: totals.operatingExpenses,
+    capitalExpenditures: totals.capitalExpenditures,
+    totalExpenses: totals.operatingExpenses,
+    netOperatingIncome: totals.netOperatingIncome,
+    operatingExpenseRatio:
+      totals.effectiveGrossIncome !== 0
+        ? totals.operatingExpenses / totals.effectiveGrossIncome
+        : 0,
+  };
+  if (totals.grossPotentialRent > 0) {
+    metrics.breakEvenRatio =
+      (totals.operatingExpenses + totals.debtService) / totals.grossPotentialRent;
+  }
+  if (property && property.totalUnits > 0) {
+    const perUnit = (amount: number) => Math.round((amount / property.totalUnits) * 100) / 100;
+    metrics.unitCount = property.totalUnits;
+    metrics.averageIncomePerUnit = perUnit(totals.totalRevenue);
+    metrics.averageExpensePerUnit = perUnit(totals.operatingExpenses);
+    metrics.averageNoiPerUnit = perUnit(totals.netOperatingIncome);
+  }
+  return metrics;
+}
+
+/**
+ * Lay out the statement. Amounts are positive, and a line named "Less:"
+ * is subtracted from the subtotal above it.
+ */
+function buildLineItems(
+  amounts: OperatingStatementAmount<ReportAccount>[],
+  totals: OperatingStatementTotals
+): ReportLineItem[] {
+  let displayOrder = 0;
+  const accountLine = (
+    lineItemName: string,
+    line: OperatingStatementLine,
+    amount: number
+  ): ReportLineItem => ({
+    lineItemName,
+    amount,
+    displayOrder: ++displayOrder,
+    children: amounts
+      .filter((item) => item.line === line)
+      .sort((a, b) => a.account.code.localeCompare(b.account.code))
+      .map((item) => ({
+        accountId: item.account.id,
+        accountCode: item.account.code,
+        lineItemName: item.account.name,
+        amount: item.amount,
+        displayOrder: ++displayOrder,
+        indentLevel: 1,
+      })),
+  });
+  const calculatedLine = (
+    lineItemName: string,
+    amount: number,
+    customStyleClass = "subtotal"
+  ): ReportLineItem => ({
+    lineItemName,
+    amount,
+    isCalculatedTotal: true,
+    customStyleClass,
+    displayOrder: ++displayOrder,
+  });
+
+  // Built top to bottom, so displayOrder follows the statement
+  return [
+    accountLine("Gross Potential Rent", "gross_potential_rent", totals.grossPotentialRent),
+    accountLine("Less: Vacancy and Credit Loss", "vacancy_credit_loss", totals.vacancyAndCreditLoss),
+    calculatedLine("Effective Gross Income", totals.effectiveGrossIncome),
+    accountLine("Other Income", "other_income", totals.otherIncome),
+    calculatedLine("Total Revenue", totals.totalRevenue),
+    accountLine("Less: Operating Expenses", "operating_expenses", totals.operatingExpenses),
+    calculatedLine("Net Operating Income", totals.netOperatingIncome, "total-highlight"),
+    {
+      lineItemName: "Less: Debt Service",
+      amount: totals.debtService,
+      displayOrder: ++displayOrder,
+      children: [
+        accountLine("Interest", "debt_service_interest", totals.debtServiceInterest),
+        accountLine("Principal", "debt_service_principal", totals.debtServicePrincipal),
+      ],
+    },
+    calculatedLine("Cash Flow After Debt Service", totals.cashFlowAfterDebtService, "total"),
+    accountLine("Capital Expenditures", "capital_expenditures", totals.capitalExpenditures),
+  ];
+}
+
+/**
+ * Format a property operating statement for display
+ *
+ * @param report Property operating statement to format
+ * @param currencyCode Currency code to use for formatting
+ * @returns Formatted property operating statement
+ */
+export function formatPropertyOperatingStatement(
+  report: PropertyOperatingStatementReport,
+  currencyCode = "USD"
+): PropertyOperatingStatementReport {
+  // Create a deep copy to avoid modifying the original
+  const formattedReport = JSON.parse(
+    JSON.stringify(report)
+  ) as PropertyOperatingStatementReport;
+
+  const format = (items: ReportLineItem[]) => {
+    for (const item of items) {
+      item.formattedAmount = formatCurrency(item.amount, currencyCode);
+      if (item.children) format(item.children);
+    }
+  };
+
+  format(formattedReport.total.items);
+  for (const statement of formattedReport.properties) {
+    format(statement.items);
+  }
+
+  return formattedReport;
+}
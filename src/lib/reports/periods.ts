@@ -0,0 +1,190 @@
+// src/lib/reports/periods.ts
+/**
+ * Multi-Period Reports
+ *
+ * Lays a statement out in side-by-side period columns (twelve months of a
+ * trailing-twelve-month P&L, say, or four quarter-end balance sheets). The
+ * statement itself is generated once for the whole range, which gives the
+ * total (or, for a balance sheet, latest) column and every line; it is then
+ * generated once per period and each line picks up its period amounts.
+ */
+
+import type {
+  ReportLineItem,
+  ReportPeriodColumn,
+  ReportPeriodVariance,
+} from "../../types/report";
+import { ValidationError } from "../../utils/errors";
+
+export const MAX_PERIOD_COLUMNS = 24;
+
+export type PeriodInterval = "month" | "quarter" | "year";
+
+const MONTHS_PER_INTERVAL: Record<PeriodInterval, number> = {
+  month: 1,
+  quarter: 3,
+  year: 12,
+};
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function periodLabel(start: Date, interval: PeriodInterval): string {
+  const year = start.getUTCFullYear();
+  switch (interval) {
+    case "month":
+      return start.toLocaleDateString("en-US", {
+        month: "short",
+        year: "numeric",
+        timeZone: "UTC",
+      });
+    case "quarter":
+      return `Q${Math.floor(start.getUTCMonth() / 3) + 1} ${year}`;
+    case "year":
+      return String(year);
+  }
+}
+
+/**
+ * Split a date range into calendar months, quarters or years. The first and
+ * last columns are cut to the range, so a range starting mid-month starts
+ * with a partial month.
+ */
+export function buildReportPeriods({
+  startDate,
+  endDate,
+  interval,
+}: {
+  startDate: string;
+  endDate: string;
+  interval: PeriodInterval;
+}): ReportPeriodColumn[] {
+  const rangeStart = startDate.slice(0, 10);
+  const rangeEnd = endDate.slice(0, 10);
+  if (rangeStart > rangeEnd) {
+    throw new ValidationError("The end date must not be before the start date.");
+  }
+
+  const months = MONTHS_PER_INTERVAL[interval];
+  const first = new Date(`${rangeStart}T00:00:00Z`);
+  // Calendar quarters and years start in January, April, July and October
+  let cursor = new Date(
+    Date.UTC(first.getUTCFullYear(), first.getUTCMonth() - (first.getUTCMonth() % months), 1)
+  );
+
+  const periods: ReportPeriodColumn[] = [];
+  while (toIsoDate(cursor) <= rangeEnd) {
+    const next = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + months, 1));
+    const lastDay = toIsoDate(new Date(next.getTime() - 24 * 60 * 60 * 1000));
+    const periodStart = toIsoDate(cursor);
+    periods.push({
+      label: periodLabel(cursor, interval),
+      startDate: periodStart < rangeStart ? rangeStart : periodStart,
+      endDate: lastDay > rangeEnd ? rangeEnd : lastDay,
+    });
+    if (periods.length > MAX_PERIOD_COLUMNS) {
+      throw new ValidationError(
+        `A report can have at most ${MAX_PERIOD_COLUMNS} period columns.`
+      );
+    }
+    cursor = next;
+  }
+  return periods;
+}
+
+/**
+ * Period columns have to fall inside the report's range: the range's own
+ * report supplies the lines, and an account only active outside it would
+ * have no line to show. Income statement columns need a start date; balance
+ * sheet columns (no `startDate` of the range) only an as-of date.
+ */
+export function assertPeriodsWithin(
+  periods: ReportPeriodColumn[],
+  range: { startDate?: string | undefined; endDate: string }
+): void {
+  if (periods.length === 0 || periods.length > MAX_PERIOD_COLUMNS) {
+    throw new ValidationError(
+      `A report needs from 1 to ${MAX_PERIOD_COLUMNS} period columns.`
+    );
+  }
+  const rangeStart = range.startDate?.slice(0, 10);
+  const rangeEnd = range.endDate.slice(0, 10);
+  for (const period of periods) {
+    const periodEnd = period.endDate.slice(0, 10);
+    const periodStart = period.startDate?.slice(0, 10);
+    if (periodEnd > rangeEnd) {
+      throw new ValidationError(
+        `Period "${period.label}" ends after the report's end date.`
+      );
+    }
+    if (rangeStart === undefined) continue;
+    if (!periodStart) {
+      throw new ValidationError(`Period "${period.label}" needs a start date.`);
+    }
+    if (periodStart < rangeStart || periodStart > periodEnd) {
+      throw new ValidationError(
+        `Period "${period.label}" must start within the report's period and before it ends.`
+      );
+    }
+  }
+}
+
+/**
+ * Generate the report once per period column.
+ */
+export async function generatePeriodReports<R>(
+  periods: ReportPeriodColumn[],
+  generate: (period: ReportPeriodColumn) => Promise<R>
+): Promise<R[]> {
+  const reports: R[] = [];
+  for (const period of periods) {
+    reports.push(await generate(period));
+  }
+  return reports;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Change of each period from the one before it.
+ */
+export function getPeriodVariances(
+  amounts: number[]
+): (ReportPeriodVariance | null)[] {
+  return amounts.map((amount, index) => {
+    if (index === 0) return null;
+    const previous = amounts[index - 1] ?? 0;
+    return {
+      amount: roundCents(amount - previous),
+      changePercentage:
+        previous !== 0 ? (amount - previous) / Math.abs(previous) : null,
+    };
+  });
+}
+
+/**
+ * Copy the amounts of each period report's lines onto the matching lines of
+ * the full-range report. Lines a period has no activity or balance for get
+ * zero; `key` identifies a line across reports (its account, or the code of
+ * a calculated line).
+ */
+export function addPeriodColumns<T extends ReportLineItem>(
+  items: T[],
+  periodItems: T[][],
+  key: (item: T) => string,
+  includeVariance: boolean
+): void {
+  const periodAmounts = periodItems.map(
+    (lines) => new Map(lines.map((line) => [key(line), line.amount]))
+  );
+  for (const item of items) {
+    const itemKey = key(item);
+    item.periodAmounts = periodAmounts.map((amounts) => amounts.get(itemKey) ?? 0);
+    if (includeVariance) {
+      item.periodVariances = getPeriodVariances(item.periodAmounts);
+    }
+  }
+}
@@ -9,12 +9,21 @@
 
 import type {
   BalanceSheetReport,
+  BudgetVsActualReport,
   CashFlowReport,
   IncomeStatementReport,
+  ReportPeriodColumn,
   ReportTimeFrame,
+  CustomGeneratedReport,
+  CustomReportConfiguration,
   DashboardReport,
+  EquityRollForwardReport,
+  GeneralLedgerReport,
+  PropertyOperatingStatementReport,
+  TrialBalanceReport,
 } from "../../types/report";
-import type { D1Database } from "@cloudflare/workers-types";
+import type { PropertyDto } from "../../types/api";
+import type { D1Database, KVNamespace } from "@cloudflare/workers-types";
 import { formatCurrency } from "../../utils/format";
 import {
   generateBalanceSheet,
@@ -25,6 +34,29 @@ import {
   formatIncomeStatement,
 } from "./income-statement";
 import { generateCashFlow, formatCashFlow } from "./cash-flow";
+import {
+  generateBudgetVsActual,
+  formatBudgetVsActual,
+} from "./budget-vs-actual";
+import {
+  generateEquityRollForward,
+  formatEquityRollForward,
+} from "./equity-roll-forward";
+import {
+  generatePropertyOperatingStatement,
+  formatPropertyOperatingStatement,
+} from "./operating-statement";
+import { generateTrialBalance } from "./trial-balance";
+import { generateGeneralLedger } from "./general-ledger";
+import { buildReportPeriods, type PeriodInterval } from "./periods";
+import { runCustomReport } from "./builder";
+import { getConsolidationGroup } from "./consolidation";
+import { getOrGenerateReport, getReportUsage } from "./report-cache";
+import { ValidationError } from "../../utils/errors";
+import { normalizeCurrencyCode } from "../accounting/core/fx";
+import { createExchangeRateService } from "../services/exchange-rate-service";
+import { createEntityOwnerService } from "../services/entity-owner-service";
+import type { Dimension, DimensionFilter } from "../accounting/core/dimensions";
 
 /**
  * Report options for all report types
@@ -36,12 +68,91 @@ export interface ReportOptions {
   timeFrame: ReportTimeFrame;
   /** Database connection */
   db: D1Database;
-  /** Currency code */
+  /** Currency code; defaults to (and must match) the entity's functional currency */
   currencyCode?: string;
   /** User ID */
   userId: string;
   /** Include comparison with previous period */
   includeComparison?: boolean;
+  /** Only include transaction lines tagged with these dimensions */
+  dimensions?: DimensionFilter;
+  /** Break the report down by the values of a dimension */
+  groupBy?: Dimension;
+  /** Serve and store the report in this cache (REPORT_CACHE_KV) */
+  reportCache?: KVNamespace | undefined;
+}
+
+/**
+ * Ledger amounts are kept in the entity's functional currency, so reports are
+ * presented in it. A different requested currency is rejected rather than
+ * labelling functional amounts with the wrong currency.
+ */
+async function resolveReportCurrency(options: ReportOptions): Promise<string> {
+  const functionalCurrency = await createExchangeRateService(options.db)
+    .getFunctionalCurrency(options.entityId);
+  if (
+    options.currencyCode &&
+    normalizeCurrencyCode(options.currencyCode) !== functionalCurrency
+  ) {
+    throw new ValidationError(
+      `Reports for this entity are presented in its functional currency (${functionalCurrency}), not ${options.currencyCode}.`
+    );
+  }
+  return functionalCurrency;
+}
+
+/**
+ * Reports served from the report cache. Budget vs. actual is left out: its
+ * budget lines change without a ledger posting.
+ */
+export type CachedReportType =
+  | "balance-sheet"
+  | "income-statement"
+  | "trial-balance"
+  | "general-ledger"
+  | "custom"
+  | "cash-flow"
+  | "property-operating-statement"
+  | "equity-roll-forward";
+
+/**
+ * Serve the report from `options.reportCache` when one is given, keyed on
+ * every option except the connections and the requesting user, and on the
+ * version of the books it reads.
+ */
+async function withReportCache<T>(
+  reportType: CachedReportType,
+  options: ReportOptions & { consolidate?: boolean | undefined },
+  generate: () => Promise<T>
+): Promise<T> {
+  const { db, reportCache, userId, ...params } = options;
+  if (!reportCache) {
+    return generate();
+  }
+  return getOrGenerateReport({
+    kv: reportCache,
+    db,
+    entityId: options.entityId,
+    entityIds: await getReportEntityIds(options),
+    reportType,
+    params,
+    generate,
+  });
+}
+
+/** Entities a report reads: a consolidated one reads the user's whole group */
+export async function getReportEntityIds(
+  options: ReportOptions & { consolidate?: boolean | undefined }
+): Promise<string[]> {
+  if (!options.consolidate) {
+    return [options.entityId];
+  }
+  const members = await getConsolidationGroup({
+    entityId: options.entityId,
+    userId: options.userId,
+    db: options.db,
+  });
+  return members.map((member) => member.entityId);
 }
 
 /**
@@ -52,23 +163,45 @@ export async function generateBalanceSheetReport(
     asOfDate: string;
     previousDate?: string;
     includeAccountDetails?: boolean;
+    consolidate?: boolean;
+    /** Balance sheet columns; see also periodInterval */
+    periods?: ReportPeriodColumn[] | undefined;
+    /** One column per month, quarter or year end from timeFrame.startDate to asOfDate */
+    periodInterval?: PeriodInterval | undefined;
+    includePeriodVariance?: boolean | undefined;
   }
 ): Promise<BalanceSheetReport> {
   try {
-    const report = await generateBalanceSheet({
-      entityId: options.entityId,
-      timeFrame: options.timeFrame,
-      asOfDate: options.asOfDate,
-      previousDate: options.previousDate,
-      includeComparison: options.includeComparison ?? false,
-      includeAccountDetails: options.includeAccountDetails ?? true,
-      currencyCode: options.currencyCode ?? "USD",
-      db: options.db,
-      userId: options.userId,
-    });
+    return await withReportCache("balance-sheet", options, async () => {
+      const currencyCode = await resolveReportCurrency(options);
+      const report = await generateBalanceSheet({
+        entityId: options.entityId,
+        timeFrame: options.timeFrame,
+        asOfDate: options.asOfDate,
+        previousDate: options.previousDate,
+        includeComparison: options.includeComparison ?? false,
+        includeAccountDetails: options.includeAccountDetails ?? true,
+        consolidate: options.consolidate ?? false,
+        dimensions: options.dimensions,
+        groupBy: options.groupBy,
+        periods:
+          options.periods ??
+          (options.periodInterval
+            ? buildReportPeriods({
+                startDate: options.timeFrame.startDate,
+                endDate: options.asOfDate,
+                interval: options.periodInterval,
+              })
+            : undefined),
+        includePeriodVariance: options.includePeriodVariance,
+        currencyCode,
+        db: options.db,
+        userId: options.userId,
+      });
 
-    // Format the report for display
-    return formatBalanceSheet(report, options.currencyCode);
+      // Format the report for display
+      return formatBalanceSheet(report, currencyCode);
+    });
   } catch (error) {
     console.error("Error generating balance sheet:", error);
     throw new Error(
@@ -89,31 +222,260 @@ export async function generateIncomeStatementReport(
     showPercentOfRevenue?: boolean;
     includeTransactionDetails?: boolean;
     includeOperatingSubtotals?: boolean;
+    consolidate?: boolean;
+    /** Period columns within startDate..endDate; see also periodInterval */
+    periods?: ReportPeriodColumn[] | undefined;
+    /** One column per month, quarter or year from startDate to endDate */
+    periodInterval?: PeriodInterval | undefined;
+    includePeriodVariance?: boolean | undefined;
   }
 ): Promise<IncomeStatementReport> {
   try {
-    const report = await generateIncomeStatement({
+    return await withReportCache("income-statement", options, async () => {
+      const currencyCode = await resolveReportCurrency(options);
+      const report = await generateIncomeStatement({
+        entityId: options.entityId,
+        timeFrame: options.timeFrame,
+        startDate: options.startDate,
+        endDate: options.endDate,
+        previousStartDate: options.previousStartDate,
+        previousEndDate: options.previousEndDate,
+        includeComparison: options.includeComparison ?? false,
+        showPercentOfRevenue: options.showPercentOfRevenue ?? true,
+        includeTransactionDetails: options.includeTransactionDetails ?? false,
+        includeOperatingSubtotals: options.includeOperatingSubtotals ?? true,
+        consolidate: options.consolidate ?? false,
+        dimensions: options.dimensions,
+        groupBy: options.groupBy,
+        periods:
+          options.periods ??
+          (options.periodInterval
+            ? buildReportPeriods({
+                startDate: options.startDate,
+                endDate: options.endDate,
+                interval: options.periodInterval,
+              })
+            : undefined),
+        includePeriodVariance: options.includePeriodVariance,
+        currencyCode,
+        db: options.db,
+        userId: options.userId,
+      });
+
+      // Format the report for display
+      return formatIncomeStatement(report, currencyCode);
+    });
+  } catch (error) {
+    console.error("Error generating income statement:", error);
+    throw new Error(
+      `Failed to generate income statement: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Generate a budget vs. actual report
+ */
+export async function generateBudgetVsActualReport(
+  options: ReportOptions & {
+    budgetId: string;
+    startDate: string;
+    endDate: string;
+  }
+): Promise<BudgetVsActualReport> {
+  try {
+    const currencyCode = await resolveReportCurrency(options);
+    const report = await generateBudgetVsActual({
       entityId: options.entityId,
+      budgetId: options.budgetId,
       timeFrame: options.timeFrame,
       startDate: options.startDate,
       endDate: options.endDate,
-      previousStartDate: options.previousStartDate,
-      previousEndDate: options.previousEndDate,
-      includeComparison: options.includeComparison ?? false,
-      showPercentOfRevenue: options.showPercentOfRevenue ?? true,
-      includeTransactionDetails: options.includeTransactionDetails ?? false,
-      includeOperatingSubtotals: options.includeOperatingSubtotals ?? true,
-      currencyCode: options.currencyCode ?? "USD",
+      currencyCode,
       db: options.db,
       userId: options.userId,
     });
 
     // Format the report for display
-    return formatIncomeStatement(report, options.currencyCode);
+    return formatBudgetVsActual(report, currencyCode);
   } catch (error) {
-    console.error("Error generating income statement:", error);
+    console.error("Error generating budget vs. actual report:", error);
     throw new Error(
-      `Failed to generate income statement: ${(error as Error).message}`
+      `Failed to generate budget vs. actual report: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Generate a property operating statement (NOI) report
+ */
+export async function generatePropertyOperatingStatementReport(
+  options: ReportOptions & {
+    startDate: string;
+    endDate: string;
+    propertyId?: string | undefined;
+    properties?: PropertyDto[] | undefined;
+  }
+): Promise<PropertyOperatingStatementReport> {
+  try {
+    return await withReportCache("property-operating-statement", options, async () => {
+      const currencyCode = await resolveReportCurrency(options);
+      const report = await generatePropertyOperatingStatement({
+        entityId: options.entityId,
+        timeFrame: options.timeFrame,
+        startDate: options.startDate,
+        endDate: options.endDate,
+        propertyId: options.propertyId,
+        properties: options.properties,
+        currencyCode,
+        db: options.db,
+        userId: options.userId,
+      });
+
+      // Format the report for display
+      return formatPropertyOperatingStatement(report, currencyCode);
+    });
+  } catch (error) {
+    console.error("Error generating property operating statement:", error);
+    throw new Error(
+      `Failed to generate property operating statement: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Generate a statement of changes in equity, with a capital account per
+ * partner or member when the entity has owners configured
+ */
+export async function generateEquityRollForwardReport(
+  options: ReportOptions & {
+    startDate: string;
+    endDate: string;
+  }
+): Promise<EquityRollForwardReport> {
+  try {
+    // Part of the cache key, so a change of ownership is never served stale
+    const owners = await createEntityOwnerService(options.db).getOwners(options.entityId);
+    const cacheOptions = { ...options, owners };
+    return await withReportCache("equity-roll-forward", cacheOptions, async () => {
+      const currencyCode = await resolveReportCurrency(options);
+      const report = await generateEquityRollForward({
+        entityId: options.entityId,
+        timeFrame: options.timeFrame,
+        startDate: options.startDate,
+        endDate: options.endDate,
+        owners,
+        currencyCode,
+        db: options.db,
+        userId: options.userId,
+      });
+
+      // Format the report for display
+      return formatEquityRollForward(report, currencyCode);
+    });
+  } catch (error) {
+    console.error("Error generating statement of changes in equity:", error);
+    throw new Error(
+      `Failed to generate statement of changes in equity: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Generate a trial balance worksheet report
+ */
+export async function generateTrialBalanceReport(
+  options: ReportOptions & {
+    asOfDate: string;
+    includeZeroBalances?: boolean;
+    includeClosingEntries?: boolean;
+  }
+): Promise<TrialBalanceReport> {
+  try {
+    return await withReportCache("trial-balance", options, async () => {
+      const currencyCode = await resolveReportCurrency(options);
+      return await generateTrialBalance({
+        entityId: options.entityId,
+        timeFrame: options.timeFrame,
+        asOfDate: options.asOfDate,
+        includeZeroBalances: options.includeZeroBalances ?? false,
+        includeClosingEntries: options.includeClosingEntries ?? false,
+        currencyCode,
+        db: options.db,
+        userId: options.userId,
+      });
+    });
+  } catch (error) {
+    console.error("Error generating trial balance report:", error);
+    throw new Error(
+      `Failed to generate trial balance report: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Generate a general ledger detail report
+ */
+export async function generateGeneralLedgerReport(
+  options: ReportOptions & {
+    startDate?: string | undefined;
+    endDate: string;
+    accountIds?: string[] | undefined;
+    includeZeroBalances?: boolean | undefined;
+    includeInactiveAccounts?: boolean | undefined;
+    page?: number | undefined;
+    pageSize?: number | undefined;
+  }
+): Promise<GeneralLedgerReport> {
+  try {
+    return await withReportCache("general-ledger", options, async () => {
+      const currencyCode = await resolveReportCurrency(options);
+      return await generateGeneralLedger({
+        entityId: options.entityId,
+        timeFrame: options.timeFrame,
+        startDate: options.startDate,
+        endDate: options.endDate,
+        accountIds: options.accountIds,
+        includeZeroBalances: options.includeZeroBalances ?? false,
+        includeInactiveAccounts: options.includeInactiveAccounts ?? false,
+        dimensions: options.dimensions,
+        page: options.page,
+        pageSize: options.pageSize,
+        currencyCode,
+        db: options.db,
+        userId: options.userId,
+      });
+    });
+  } catch (error) {
+    console.error("Error generating general ledger report:", error);
+    throw new Error(
+      `Failed to generate general ledger report: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Generate a report from a custom report configuration
+ */
+export async function generateCustomReport(
+  options: ReportOptions & { configuration: CustomReportConfiguration }
+): Promise<CustomGeneratedReport> {
+  try {
+    return await withReportCache("custom", options, async () => {
+      const currencyCode = await resolveReportCurrency(options);
+      return await runCustomReport({
+        entityId: options.entityId,
+        configuration: options.configuration,
+        timeFrame: options.timeFrame,
+        currencyCode,
+        db: options.db,
+        userId: options.userId,
+      });
+    });
+  } catch (error) {
+    console.error("Error generating custom report:", error);
+    throw new Error(
+      `Failed to generate custom report: ${(error as Error).message}`
     );
   }
 }
@@ -133,24 +495,29 @@ export async function generateCashFlowReport(
   }
 ): Promise<CashFlowReport> {
   try {
-    const report = await generateCashFlow({
-      entityId: options.entityId,
-      timeFrame: options.timeFrame,
-      startDate: options.startDate,
-      endDate: options.endDate,
-      previousStartDate: options.previousStartDate,
-      previousEndDate: options.previousEndDate,
-      method: options.method ?? "INDIRECT",
-      includeComparison: options.includeComparison ?? false,
-      includeTransactionDetails: options.includeTransactionDetails ?? false,
-      netIncome: options.netIncome,
-      currencyCode: options.currencyCode ?? "USD",
-      db: options.db,
-      userId: options.userId,
-    });
+    return await withReportCache("cash-flow", options, async () => {
+      const currencyCode = await resolveReportCurrency(options);
+      const report = await generateCashFlow({
+        entityId: options.entityId,
+        timeFrame: options.timeFrame,
+        startDate: options.startDate,
+        endDate: options.endDate,
+        previousStartDate: options.previousStartDate,
+        previousEndDate: options.previousEndDate,
+        method: options.method ?? "INDIRECT",
+        includeComparison: options.includeComparison ?? false,
+        includeTransactionDetails: options.includeTransactionDetails ?? false,
+        netIncome: options.netIncome,
+        dimensions: options.dimensions,
+        groupBy: options.groupBy,
+        currencyCode,
+        db: options.db,
+        userId: options.userId,
+      });
 
-    // Format the report for display
-    return formatCashFlow(report, options.currencyCode);
+      // Format the report for display
+      return formatCashFlow(report, currencyCode);
+    });
   } catch (error) {
     console.error("Error generating cash flow statement:", error);
     throw new Error(
@@ -315,12 +682,103 @@ function generateDateSeries(
   return dates;
 }
 
+type CachedReportGenerator = (
+  options: ReportOptions & Record<string, unknown>
+) => Promise<unknown>;
+
+/**
+ * A report wrapper that takes options recorded for its report type. The
+ * options come back from the usage log or a stored request, so their
+ * report-specific fields are only known by the type they were recorded for.
+ */
+function cachedGenerator<T extends ReportOptions>(
+  generate: (options: T) => Promise<unknown>
+): CachedReportGenerator {
+  return (options) => generate(options as T);
+}
+
+/**
+ * Generators of the report types that are served through the report cache
+ */
+const CACHED_REPORT_GENERATORS: Record<CachedReportType, CachedReportGenerator> = {
+  "balance-sheet": cachedGenerator(generateBalanceSheetReport),
+  "income-statement": cachedGenerator(generateIncomeStatementReport),
+  "trial-balance": cachedGenerator(generateTrialBalanceReport),
+  "general-ledger": cachedGenerator(generateGeneralLedgerReport),
+  custom: cachedGenerator(generateCustomReport),
+  "cash-flow": cachedGenerator(generateCashFlowReport),
+  "property-operating-statement": cachedGenerator(generatePropertyOperatingStatementReport),
+  "equity-roll-forward": cachedGenerator(generateEquityRollForwardReport),
+};
+
+/**
+ * Generate a report of the given type from its options, as the report's own
+ * wrapper (e.g. `generateBalanceSheetReport`) would.
+ */
+export function generateReportOfType(
+  reportType: CachedReportType,
+  options: ReportOptions & Record<string, unknown>
+): Promise<unknown> {
+  return CACHED_REPORT_GENERATORS[reportType](options);
+}
+
+/**
+ * Regenerate an entity's most-requested reports into the report cache, so
+ * they are instant again after a large import moved the ledger version.
+ * Meant to run in the background (`waitUntil`); a report that fails is
+ * logged and skipped.
+ *
+ * @returns The number of reports warmed
+ */
+export async function warmReportCache(options: {
+  entityId: string;
+  db: D1Database;
+  reportCache: KVNamespace;
+  userId: string;
+  limit?: number;
+}): Promise<number> {
+  const { entityId, db, reportCache, userId, limit = 5 } = options;
+  const usage = await getReportUsage(reportCache, entityId);
+
+  let warmed = 0;
+  for (const entry of usage.slice(0, limit)) {
+    const generate =
+      CACHED_REPORT_GENERATORS[entry.reportType as CachedReportType];
+    if (!generate) continue;
+    const reportOptions = { ...entry.params, entityId, db, userId } as ReportOptions &
+      Record<string, unknown>;
+    try {
+      await getOrGenerateReport({
+        kv: reportCache,
+        db,
+        entityId,
+        entityIds: await getReportEntityIds(reportOptions),
+        reportType: entry.reportType,
+        params: entry.params,
+        recordUsage: false,
+        generate: () => generate(reportOptions),
+      });
+      warmed++;
+    } catch (error) {
+      console.error(`Error warming ${entry.reportType} report for entity ${entityId}:`, error);
+    }
+  }
+  return warmed;
+}
+
 /**
  * Export a unified API for report generation
  */
 export const ReportAPI = {
   generateBalanceSheet: generateBalanceSheetReport,
   generateIncomeStatement: generateIncomeStatementReport,
+  generateBudgetVsActual: generateBudgetVsActualReport,
+  generatePropertyOperatingStatement: generatePropertyOperatingStatementReport,
+  generateEquityRollForward: generateEquityRollForwardReport,
+  generateTrialBalance: generateTrialBalanceReport,
+  generateGeneralLedger: generateGeneralLedgerReport,
+  generateCustom: generateCustomReport,
   generateCashFlow: generateCashFlowReport,
   generateDashboard: generateDashboardReport,
+  warmCache: warmReportCache,
 };
@@ -0,0 +1,170 @@
+// src/lib/reports/report-cache.ts
+/**
+ * Report Cache
+ *
+ * Generated reports are kept in memory and in the REPORT_CACHE_KV namespace
+ * under a key made of their parameters and the version of the ledger they
+ * were generated from. Looking one up costs a version read against D1. Any
+ * post, void or reversal bumps the version, as does a change to the
+ * entity's accounts, so a report is never served once the books have moved
+ * on; superseded entries are left to expire.
+ *
+ * Each entity's most-requested reports are tracked so they can be rebuilt
+ * in the background after a large import (see `warmReportCache` in
+ * report-api).
+ */
+
+import type { D1Database, KVNamespace } from "@cloudflare/workers-types";
+import {
+  cacheReport,
+  getCachedReport,
+  getKV,
+  putKV,
+} from "../cloudflare/kv";
+import { reportCache } from "../../utils/cache";
+import { canonicalJson, sha256Hex } from "../accounting/core/audit-chain";
+import {
+  getAccountsUpdatedAt,
+  getEntityOwnership,
+} from "../accounting/core/accounting-api";
+import { createLedgerAuditService } from "../services/ledger-audit-service";
+
+export const REPORT_CACHE_TTL_SECONDS = 86400;
+export const MEMORY_CACHE_TTL_SECONDS = 300;
+/** Imports of at least this many transactions warm the cache afterwards */
+export const LARGE_IMPORT_THRESHOLD = 100;
+const MAX_TRACKED_REPORTS = 20;
+
+/** How often a report has been requested, and how to generate it again */
+export interface ReportUsage {
+  reportType: string;
+  reportKey: string;
+  /** Report options without the connections and the requesting user */
+  params: Record<string, unknown>;
+  hits: number;
+  lastUsedAt: number;
+}
+
+function usageKey(entityId: string): string {
+  return `entity:${entityId}:report-usage`;
+}
+
+/**
+ * Version of the books a report over these entities reads: their ledger
+ * versions and the last change to their accounts, and for a consolidated
+ * report each member's parent and ownership percentage.
+ */
+export async function getReportCacheVersion(
+  db: D1Database,
+  entityIds: string[]
+): Promise<string> {
+  const [versions, accountsUpdatedAt] = await Promise.all([
+    createLedgerAuditService(db).getLedgerVersions(entityIds),
+    getAccountsUpdatedAt({ entityIds, db }),
+  ]);
+  if (entityIds.length === 1) {
+    return `${versions.get(entityIds[0]!) ?? 0}.${accountsUpdatedAt}`;
+  }
+  // Consolidated reports: one version for the whole group, short enough
+  // for a KV key
+  const ownership = await getEntityOwnership({ entityIds, db });
+  const group = [...versions.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([entityId, version]) => [entityId, version, ownership.get(entityId) ?? null]);
+  return `${(await sha256Hex(canonicalJson(group))).slice(0, 16)}.${accountsUpdatedAt}`;
+}
+
+/** Key of a report's parameters, independent of their order */
+export async function getReportKey(params: Record<string, unknown>): Promise<string> {
+  return (await sha256Hex(canonicalJson(params))).slice(0, 32);
+}
+
+export async function getReportUsage(
+  kv: KVNamespace,
+  entityId: string
+): Promise<ReportUsage[]> {
+  return (await getKV<ReportUsage[]>(kv, usageKey(entityId))) ?? [];
+}
+
+/**
+ * Count a request for a report. KV has no atomic update, so concurrent
+ * requests may lose a hit; the counts only rank reports for warming.
+ */
+async function recordReportUsage(
+  kv: KVNamespace,
+  entityId: string,
+  usage: Pick<ReportUsage, "reportType" | "reportKey" | "params">
+): Promise<void> {
+  try {
+    const entries = await getReportUsage(kv, entityId);
+    const existing = entries.find(
+      (entry) => entry.reportType === usage.reportType && entry.reportKey === usage.reportKey
+    );
+    const now = Math.floor(Date.now() / 1000);
+    if (existing) {
+      existing.hits += 1;
+      existing.lastUsedAt = now;
+    } else {
+      entries.push({ ...usage, hits: 1, lastUsedAt: now });
+    }
+    entries.sort((a, b) => b.hits - a.hits || b.lastUsedAt - a.lastUsedAt);
+    await putKV(kv, usageKey(entityId), entries.slice(0, MAX_TRACKED_REPORTS));
+  } catch (error) {
+    console.error(`Error recording report usage for entity ${entityId}:`, error);
+  }
+}
+
+/**
+ * Return the cached report for the current version of the books, or
+ * generate and cache it. A failure to write the cache does not fail the
+ * report.
+ */
+export async function getOrGenerateReport<T>({
+  kv,
+  db,
+  entityId,
+  entityIds = [entityId],
+  reportType,
+  params,
+  recordUsage = true,
+  generate,
+}: {
+  kv: KVNamespace;
+  db: D1Database;
+  entityId: string;
+  /** Entities the report reads; more than one for consolidated reports */
+  entityIds?: string[] | undefined;
+  reportType: string;
+  params: Record<string, unknown>;
+  /** Count the request towards the entity's most-used reports */
+  recordUsage?: boolean;
+  generate: () => Promise<T>;
+}): Promise<T> {
+  const [reportKey, version] = await Promise.all([
+    getReportKey(params),
+    getReportCacheVersion(db, entityIds),
+  ]);
+  if (recordUsage) {
+    await recordReportUsage(kv, entityId, { reportType, reportKey, params });
+  }
+
+  const memoryKey = `${entityId}:${reportType}:${reportKey}:v${version}`;
+  const cached =
+    (reportCache.get(memoryKey) as T | null) ??
+    (await getCachedReport<T>(kv, entityId, reportType, reportKey, version));
+  if (cached !== null) {
+    reportCache.set(memoryKey, cached, MEMORY_CACHE_TTL_SECONDS);
+    return cached;
+  }
+
+  // The version was read before generating, so a posting made meanwhile
+  // can only make the stored report newer than its key, never older.
+  const report = await generate();
+  reportCache.set(memoryKey, report, MEMORY_CACHE_TTL_SECONDS);
+  try {
+    await cacheReport(kv, entityId, reportType, reportKey, version, report, REPORT_CACHE_TTL_SECONDS);
+  } catch (error) {
+    console.error(`Error caching ${reportType} report for entity ${entityId}:`, error);
+  }
+  return report;
+}
@@ -0,0 +1,87 @@
+// src/lib/reports/report-diff.ts
+/**
+ * Report Differences
+ *
+ * Compares two generations of the same report amount by amount, e.g. a
+ * finalized snapshot and the report regenerated from the books now. Only
+ * numbers are compared; what is expected to differ between generations
+ * (IDs, timestamps, display fields) is ignored.
+ */
+
+import type { ReportSnapshotDifference } from "../../types/report";
+
+/** Fields that differ between two generations of the same report */
+const IGNORED_FIELDS = new Set([
+  "id",
+  "title",
+  "generatedAt",
+  "generatedByUserId",
+  "isFinalized",
+  "reportVersion",
+  "notes",
+  "drillDown",
+  "displayOrder",
+  "executionTimeMs",
+]);
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/** How a row of a report is told apart from its siblings */
+function rowLabel(row: unknown): string | null {
+  if (!row || typeof row !== "object") return null;
+  const fields = row as Record<string, unknown>;
+  const parts = [
+    fields.accountCode ?? fields.code,
+    fields.lineItemName ?? fields.accountName ?? fields.ownerName ?? fields.name ?? fields.label,
+  ].filter((part): part is string => typeof part === "string" && part !== "");
+  if (parts.length > 0) return parts.join(" ");
+  // Segments of a dimension
+  return typeof fields.value === "string" ? fields.value : null;
+}
+
+/**
+ * Every amount in a report by its path. Rows are identified by their
+ * account and name rather than their position, so a new account shows as
+ * one added row instead of shifting everything after it.
+ */
+function flattenAmounts(value: unknown, path: string, amounts: Map<string, number>): void {
+  if (typeof value === "number") {
+    amounts.set(path, value);
+  } else if (Array.isArray(value)) {
+    const seen = new Map<string, number>();
+    value.forEach((row, index) => {
+      const label = rowLabel(row) ?? String(index);
+      const count = (seen.get(label) ?? 0) + 1;
+      seen.set(label, count);
+      flattenAmounts(row, `${path}/${count > 1 ? `${label}#${count}` : label}`, amounts);
+    });
+  } else if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      if (IGNORED_FIELDS.has(key) || key.startsWith("formatted")) continue;
+      flattenAmounts(child, path ? `${path}/${key}` : key, amounts);
+    }
+  }
+}
+
+/**
+ * Amounts that differ between a finalized report and the same report
+ * generated now, in the order they appear in the snapshot.
+ */
+export function diffReports(snapshotReport: unknown, currentReport: unknown): ReportSnapshotDifference[] {
+  const before = new Map<string, number>();
+  const after = new Map<string, number>();
+  flattenAmounts(snapshotReport, "", before);
+  flattenAmounts(currentReport, "", after);
+
+  const differences: ReportSnapshotDifference[] = [];
+  for (const path of new Set([...before.keys(), ...after.keys()])) {
+    const snapshotValue = before.get(path) ?? null;
+    const currentValue = after.get(path) ?? null;
+    const difference = roundCents((currentValue ?? 0) - (snapshotValue ?? 0));
+    if (difference === 0) continue;
+    differences.push({ path, snapshotValue, currentValue, difference });
+  }
+  return differences;
+}
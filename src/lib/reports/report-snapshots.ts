@@ -0,0 +1,162 @@
+// src/lib/reports/report-snapshots.ts
+/**
+ * Finalized Report Snapshots
+ *
+ * Finalizing a balance sheet, income statement, cash flow statement or
+ * custom report stores it, exactly as generated, with what it was
+ * generated from: its parameters, the version of the report generators and
+ * the state of the books (the ledger version used by the report cache and
+ * a hash of the heads of the ledger audit chains). A snapshot is never
+ * changed; finalizing again adds a version.
+ *
+ * A snapshot can later be compared with the report regenerated from the
+ * same parameters over the same entities. When neither the books nor the
+ * generators have changed the two are the same by construction; otherwise
+ * every amount that moved is listed.
+ */
+
+import type { D1Database, KVNamespace, R2Bucket } from "@cloudflare/workers-types";
+import type {
+  ReportSnapshot,
+  ReportSnapshotComparison,
+  ReportSnapshotType,
+} from "../../types/report";
+import { ConflictError } from "../../utils/errors";
+import { canonicalJson, sha256Hex } from "../accounting/core/audit-chain";
+import { createLedgerAuditService } from "../services/ledger-audit-service";
+import { createReportSnapshotService } from "../services/report-snapshot-service";
+import { getReportCacheVersion } from "./report-cache";
+import { diffReports } from "./report-diff";
+import {
+  generateReportOfType,
+  getReportEntityIds,
+  type ReportOptions,
+} from "./report-api";
+
+/**
+ * Version of the report generators. Bump it when a change makes them
+ * produce different figures from the same books, so comparisons with
+ * older snapshots put the difference down to the generators.
+ */
+export const REPORT_GENERATOR_VERSION = "1";
+
+/** State of the books a report over some entities reads */
+export interface LedgerState {
+  /** As in the report cache key: ledger versions and the last account change */
+  ledgerVersion: string;
+  /** Hash of the head of each entity's ledger audit chain */
+  ledgerHash: string;
+}
+
+/**
+ * Read the state of the books. The hash commits to every ledger write of
+ * the entities, as each chain head does to the events before it.
+ */
+export async function getLedgerState(
+  db: D1Database,
+  entityIds: string[]
+): Promise<LedgerState> {
+  const [ledgerVersion, heads] = await Promise.all([
+    getReportCacheVersion(db, entityIds),
+    createLedgerAuditService(db).getLedgerHeads(entityIds),
+  ]);
+  const chains = [...heads.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([entityId, head]) => ({ entityId, ...head }));
+  return { ledgerVersion, ledgerHash: await sha256Hex(canonicalJson(chains)) };
+}
+
+function toReportOptions(
+  parameters: Record<string, unknown>,
+  db: D1Database,
+  userId: string
+): ReportOptions & Record<string, unknown> {
+  return { ...parameters, db, userId } as ReportOptions & Record<string, unknown>;
+}
+
+/**
+ * Generate a report from the books as they are and store it as a snapshot.
+ * The report is generated afresh rather than taken from the report cache,
+ * and the books are read before and after: if they moved while it was
+ * generated, nothing is stored.
+ *
+ * @param parameters Report options, without the connections and the user
+ */
+export async function finalizeReport(options: {
+  reportType: ReportSnapshotType;
+  parameters: Record<string, unknown> & { entityId: string };
+  db: D1Database;
+  bucket: R2Bucket;
+  userId: string;
+}): Promise<ReportSnapshot> {
+  const { reportType, parameters, db, bucket, userId } = options;
+  const reportOptions = toReportOptions(parameters, db, userId);
+  const entityIds = await getReportEntityIds(reportOptions);
+
+  const state = await getLedgerState(db, entityIds);
+  const report = await generateReportOfType(reportType, reportOptions);
+  const stateAfter = await getLedgerState(db, entityIds);
+  if (
+    stateAfter.ledgerVersion !== state.ledgerVersion ||
+    stateAfter.ledgerHash !== state.ledgerHash
+  ) {
+    throw new ConflictError(
+      "The books changed while the report was being finalized. Try again.",
+      "LEDGER_CHANGED"
+    );
+  }
+
+  const title = (report as { title?: string }).title ?? reportType;
+  return createReportSnapshotService(db, bucket).createSnapshot({
+    entityId: parameters.entityId,
+    reportType,
+    title,
+    parameters,
+    entityIds,
+    generatorVersion: REPORT_GENERATOR_VERSION,
+    ...state,
+    report: { ...(report as object), isFinalized: true },
+    userId,
+  });
+}
+
+/**
+ * Compare a snapshot with its report regenerated from the books as they
+ * are now. The books are read over the entities the snapshot read, and a
+ * consolidated report is regenerated for the group of the user who
+ * finalized it rather than the one looking at it; a group that has gained
+ * or lost members since counts as changed books.
+ *
+ * @param report The report as stored with the snapshot
+ */
+export async function compareWithSnapshot(options: {
+  snapshot: ReportSnapshot;
+  report: unknown;
+  db: D1Database;
+  reportCache?: KVNamespace | undefined;
+}): Promise<ReportSnapshotComparison> {
+  const { snapshot, report, db, reportCache } = options;
+  const reportOptions = toReportOptions(snapshot.parameters, db, snapshot.finalizedByUserId);
+  const state = await getLedgerState(db, snapshot.entityIds);
+  const entityIds = await getReportEntityIds(reportOptions);
+
+  const booksChanged =
+    state.ledgerVersion !== snapshot.ledgerVersion ||
+    state.ledgerHash !== snapshot.ledgerHash ||
+    canonicalJson([...entityIds].sort()) !== canonicalJson([...snapshot.entityIds].sort());
+  const generatorChanged = snapshot.generatorVersion !== REPORT_GENERATOR_VERSION;
+  if (!booksChanged && !generatorChanged) {
+    return { snapshot, booksChanged, generatorChanged, differences: [] };
+  }
+
+  const current = await generateReportOfType(snapshot.reportType, {
+    ...reportOptions,
+    reportCache,
+  });
+  return {
+    snapshot,
+    booksChanged,
+    generatorChanged,
+    differences: diffReports(report, current),
+  };
+}
@@ -0,0 +1,150 @@
+// src/lib/reports/trial-balance.ts
+/**
+ * Trial Balance Report Generator
+ *
+ * Produces the classic trial balance worksheet as of a date: the unadjusted
+ * balance of every account, the entries of adjusting journals, and the
+ * adjusted balance. Closing entries are left out by default so the worksheet
+ * reflects the books before the year-end close. When a column pair does not
+ * balance, the report lists the posted transactions that are out of balance.
+ */
+
+import type {
+  ReportTimeFrame,
+  TrialBalanceColumn,
+  TrialBalanceReport,
+  TrialBalanceReportEntry,
+} from "../../types/report";
+import {
+  getTrialBalanceActivity,
+  getUnbalancedTransactions,
+} from "../accounting/core/accounting-api";
+import {
+  buildTrialBalanceWorksheet,
+  getDifference,
+  type TrialBalanceColumns,
+} from "../accounting/core/trial-balance";
+import type { D1Database } from "@cloudflare/workers-types";
+
+/**
+ * Options for generating a trial balance report
+ */
+export interface TrialBalanceOptions {
+  /** Entity ID to generate the report for */
+  entityId: string;
+  /** Time frame for the report */
+  timeFrame: ReportTimeFrame;
+  /** Date of the trial balance (ISO format) */
+  asOfDate: string;
+  /** Include accounts without any activity */
+  includeZeroBalances?: boolean;
+  /** Include the entries of closing journals */
+  includeClosingEntries?: boolean;
+  /** Currency code */
+  currencyCode?: string;
+  /** Database connection */
+  db: D1Database;
+  /** User ID generating the report */
+  userId: string;
+}
+
+function toColumn(columns: TrialBalanceColumns): TrialBalanceColumn {
+  return { debitAmount: columns.debit, creditAmount: columns.credit };
+}
+
+/**
+ * Generate a trial balance report
+ *
+ * @param options Report generation options
+ * @returns Trial balance report
+ */
+export async function generateTrialBalance(
+  options: TrialBalanceOptions
+): Promise<TrialBalanceReport> {
+  const {
+    entityId,
+    timeFrame,
+    asOfDate,
+    includeZeroBalances = false,
+    includeClosingEntries = false,
+    currencyCode = "USD",
+    db,
+    userId,
+  } = options;
+
+  // 1. Fetch the posted activity of every account up to the date
+  const activity = await getTrialBalanceActivity({
+    entityId,
+    asOfDate,
+    includeClosingEntries,
+    db,
+  });
+  const accounts = new Map(activity.map((a) => [a.account.id, a.account]));
+
+  // 2. Lay it out as a worksheet
+  const worksheet = buildTrialBalanceWorksheet(
+    activity.map((a) => a.activity),
+    includeZeroBalances
+  );
+
+  const entries: TrialBalanceReportEntry[] = [];
+  for (const row of worksheet.rows) {
+    const account = accounts.get(row.accountId);
+    if (!account) continue;
+    entries.push({
+      accountId: account.id,
+      accountCode: account.code,
+      accountName: account.name,
+      accountType: account.systemType,
+      debitBalanceAmount: row.adjusted.debit,
+      creditBalanceAmount: row.adjusted.credit,
+      netBalanceAmount: getDifference(row.adjusted),
+      parentAccountId: account.parentAccountId,
+      displayOrder: account.displayOrder,
+      unadjustedBalance: toColumn(row.unadjusted),
+      adjustments: toColumn(row.adjustments),
+      hasAbnormalBalance: row.abnormalBalance,
+    });
+  }
+
+  // 3. Diagnose any difference. Every posted transaction should balance on
+  // its own, so a difference in any column points at the ones that do not.
+  const unadjustedDifference = getDifference(worksheet.totals.unadjusted);
+  const adjustmentsDifference = getDifference(worksheet.totals.adjustments);
+  const adjustedDifference = getDifference(worksheet.totals.adjusted);
+  const isReportBalanced =
+    unadjustedDifference === 0 && adjustmentsDifference === 0 && adjustedDifference === 0;
+  const unbalancedTransactions = isReportBalanced
+    ? []
+    : await getUnbalancedTransactions({ entityId, asOfDate, db });
+
+  // 4. Generate the report
+  return {
+    id: crypto.randomUUID(),
+    type: "trial-balance",
+    title: `Trial Balance as of ${new Date(asOfDate).toLocaleDateString()}`,
+    timeFrame,
+    entityId,
+    generatedAt: Math.floor(Date.now() / 1000),
+    generatedByUserId: userId,
+    isFinalized: false,
+    currencyCode,
+    asOfDate: asOfDate.slice(0, 10),
+    accounts: entries,
+    totalDebitBalances: worksheet.totals.adjusted.debit,
+    totalCreditBalances: worksheet.totals.adjusted.credit,
+    isReportBalanced,
+    ...(adjustedDifference !== 0 ? { differenceAmountIfUnbalanced: adjustedDifference } : {}),
+    unadjustedTotals: toColumn(worksheet.totals.unadjusted),
+    adjustmentTotals: toColumn(worksheet.totals.adjustments),
+    diagnostics: {
+      unadjustedDifference,
+      adjustmentsDifference,
+      adjustedDifference,
+      unbalancedTransactions,
+      abnormalBalanceAccountIds: worksheet.rows
+        .filter((row) => row.abnormalBalance)
+        .map((row) => row.accountId),
+    },
+  };
+}
@@ -0,0 +1,362 @@
+// src/lib/services/budget-service.ts
+import type { D1Database } from "@cloudflare/workers-types";
+import { createDbClient, type Database } from "@db/db";
+import {
+  AppError,
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+} from "../../utils/errors";
+import {
+  addMonths,
+  getBudgetMonths,
+  seedFromActuals,
+  type BudgetAmount,
+  type BudgetVersion,
+} from "../accounting/core/budget";
+
+export interface DbBudget {
+  id: string;
+  entity_id: string;
+  name: string;
+  fiscal_year: number;
+  version: BudgetVersion;
+  start_date: number; // Unix seconds, first day of the first month
+  based_on_budget_id: string | null;
+  created_by: string;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface DbBudgetLine {
+  id: string;
+  budget_id: string;
+  entity_account_id: string;
+  month: string; // YYYY-MM
+  amount: number; // Cents
+}
+
+/** Budgeted amount of an account for one month */
+export interface BudgetLine {
+  accountId: string; // entity_accounts.id
+  month: string; // YYYY-MM
+  amount: string; // Decimal, on the account's normal-balance side
+}
+
+export interface AppBudget extends DbBudget {
+  lines: BudgetLine[];
+}
+
+export interface BudgetInput {
+  entityId: string;
+  name: string;
+  fiscalYear: number;
+  version: BudgetVersion;
+  startDate: string; // YYYY-MM-01
+  /** Copy the lines of another budget of the same year, e.g. to revise it */
+  basedOnBudgetId?: string | null | undefined;
+  /** Seed the lines from the prior year's actuals */
+  seedFromPriorYear?: { growthPercent: number } | null | undefined;
+  lines?: BudgetLine[] | undefined;
+}
+
+export interface BudgetUpdate {
+  name?: string | undefined;
+  /** Lines to add or change; months and accounts not listed keep their amounts */
+  lines?: BudgetLine[] | undefined;
+}
+
+export class BudgetService {
+  private db: Database;
+  private readonly TABLE_NAME = "budgets";
+  private readonly LINES_TABLE_NAME = "budget_lines";
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+  }
+
+  private toUnixDay(dateStr: string): number {
+    return Math.floor(Date.parse(`${dateStr}T00:00:00.000Z`) / 1000);
+  }
+
+  private fromUnixDay(unix: number): string {
+    return new Date(unix * 1000).toISOString().slice(0, 10);
+  }
+
+  private toCents(amount: string): number {
+    return Math.round(parseFloat(amount) * 100);
+  }
+
+  private databaseError(method: string, message: string, error: unknown): AppError {
+    if (error instanceof AppError) return error;
+    console.error(`BudgetService.${method} error:`, error);
+    return new AppError(message, 500, true, "DatabaseError", "DATABASE_ERROR");
+  }
+
+  async getBudgets(entityId: string): Promise<DbBudget[]> {
+    try {
+      return await this.db.query<DbBudget>(
+        `SELECT * FROM ${this.TABLE_NAME} WHERE entity_id = ?1 ORDER BY fiscal_year DESC, version`,
+        [entityId]
+      );
+    } catch (error: unknown) {
+      throw this.databaseError("getBudgets", "Failed to retrieve budgets.", error);
+    }
+  }
+
+  async getBudgetById(id: string): Promise<AppBudget | null> {
+    try {
+      const budget = await this.db.queryOne<DbBudget>(
+        `SELECT * FROM ${this.TABLE_NAME} WHERE id = ?1`,
+        [id]
+      );
+      if (!budget) return null;
+      const lines = await this.getBudgetAmounts(id);
+      return {
+        ...budget,
+        lines: lines.map((line) => ({
+          accountId: line.accountId,
+          month: line.month,
+          amount: (line.amount / 100).toFixed(2),
+        })),
+      };
+    } catch (error: unknown) {
+      throw this.databaseError("getBudgetById", "Failed to retrieve budget.", error);
+    }
+  }
+
+  /**
+   * Budgeted cents of every account and month, for reporting.
+   */
+  async getBudgetAmounts(budgetId: string): Promise<BudgetAmount[]> {
+    try {
+      const rows = await this.db.query<DbBudgetLine>(
+        `SELECT * FROM ${this.LINES_TABLE_NAME} WHERE budget_id = ?1 ORDER BY entity_account_id, month`,
+        [budgetId]
+      );
+      return rows.map((row) => ({
+        accountId: row.entity_account_id,
+        month: row.month,
+        amount: row.amount,
+      }));
+    } catch (error: unknown) {
+      throw this.databaseError("getBudgetAmounts", "Failed to retrieve budget lines.", error);
+    }
+  }
+
+  async createBudget(input: BudgetInput, userId: string): Promise<AppBudget> {
+    const months = getBudgetMonths(input.startDate);
+
+    const existing = await this.db.queryOne<{ id: string }>(
+      `SELECT id FROM ${this.TABLE_NAME} WHERE entity_id = ?1 AND fiscal_year = ?2 AND version = ?3`,
+      [input.entityId, input.fiscalYear, input.version]
+    );
+    if (existing) {
+      throw new ConflictError(
+        `The entity already has a ${input.version} budget for fiscal year ${input.fiscalYear}.`,
+        "BUDGET_VERSION_EXISTS"
+      );
+    }
+
+    let amounts: BudgetAmount[];
+    if (input.basedOnBudgetId) {
+      const source = await this.getBudgetById(input.basedOnBudgetId);
+      if (!source || source.entity_id !== input.entityId) {
+        throw new NotFoundError("Budget to copy not found.", "BUDGET_NOT_FOUND");
+      }
+      if (this.fromUnixDay(source.start_date) !== input.startDate) {
+        throw new ValidationError("A budget can only be copied to a budget covering the same months.");
+      }
+      amounts = await this.getBudgetAmounts(source.id);
+    } else if (input.seedFromPriorYear) {
+      amounts = seedFromActuals(
+        await this.getMonthlyActuals(input.entityId, addMonths(months[0]!, -12), months[0]!),
+        input.startDate,
+        input.seedFromPriorYear.growthPercent
+      );
+    } else {
+      amounts = this.toAmounts(input.lines ?? []);
+    }
+    await this.validateAmounts(input.entityId, months, amounts);
+
+    const now = Math.floor(Date.now() / 1000);
+    const budget: DbBudget = {
+      id: crypto.randomUUID(),
+      entity_id: input.entityId,
+      name: input.name,
+      fiscal_year: input.fiscalYear,
+      version: input.version,
+      start_date: this.toUnixDay(input.startDate),
+      based_on_budget_id: input.basedOnBudgetId ?? null,
+      created_by: userId,
+      created_at: now,
+      updated_at: now,
+    };
+
+    const d1 = this.db.d1Instance;
+    try {
+      const results = await this.db.batch([
+        d1.prepare(
+          `INSERT INTO ${this.TABLE_NAME} (id, entity_id, name, fiscal_year, version, start_date, based_on_budget_id,
+             created_by, created_at, updated_at)
+           VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10)`
+        ).bind(
+          budget.id, budget.entity_id, budget.name, budget.fiscal_year, budget.version, budget.start_date,
+          budget.based_on_budget_id, budget.created_by, budget.created_at, budget.updated_at
+        ),
+        ...this.upsertStatements(budget.id, amounts),
+      ]);
+      if (!results.every((r) => r.success)) {
+        throw new AppError("Failed to create budget.", 500, true, "DatabaseError", "DATABASE_ERROR");
+      }
+    } catch (error: unknown) {
+      throw this.databaseError("createBudget", "Failed to create budget.", error);
+    }
+
+    return (await this.getBudgetById(budget.id))!;
+  }
+
+  async updateBudget(id: string, updates: BudgetUpdate): Promise<AppBudget> {
+    const budget = await this.getBudgetById(id);
+    if (!budget) {
+      throw new NotFoundError("Budget not found.", "BUDGET_NOT_FOUND");
+    }
+    const amounts = this.toAmounts(updates.lines ?? []);
+    await this.validateAmounts(
+      budget.entity_id,
+      getBudgetMonths(this.fromUnixDay(budget.start_date)),
+      amounts
+    );
+
+    const d1 = this.db.d1Instance;
+    try {
+      const results = await this.db.batch([
+        d1.prepare(`UPDATE ${this.TABLE_NAME} SET name = ?2, updated_at = ?3 WHERE id = ?1`)
+          .bind(id, updates.name ?? budget.name, Math.floor(Date.now() / 1000)),
+        ...this.upsertStatements(id, amounts),
+      ]);
+      if (!results.every((r) => r.success)) {
+        throw new AppError("Failed to update budget.", 500, true, "DatabaseError", "DATABASE_ERROR");
+      }
+    } catch (error: unknown) {
+      throw this.databaseError("updateBudget", "Failed to update budget.", error);
+    }
+
+    return (await this.getBudgetById(id))!;
+  }
+
+  async deleteBudget(id: string): Promise<boolean> {
+    const d1 = this.db.d1Instance;
+    try {
+      const results = await this.db.batch([
+        d1.prepare(`DELETE FROM ${this.LINES_TABLE_NAME} WHERE budget_id = ?1`).bind(id),
+        d1.prepare(`UPDATE ${this.TABLE_NAME} SET based_on_budget_id = NULL WHERE based_on_budget_id = ?1`).bind(id),
+        d1.prepare(`DELETE FROM ${this.TABLE_NAME} WHERE id = ?1`).bind(id),
+      ]);
+      return results.every((r) => r.success);
+    } catch (error: unknown) {
+      throw this.databaseError("deleteBudget", "Failed to delete budget.", error);
+    }
+  }
+
+  private toAmounts(lines: BudgetLine[]): BudgetAmount[] {
+    return lines.map((line) => ({
+      accountId: line.accountId,
+      month: line.month,
+      amount: this.toCents(line.amount),
+    }));
+  }
+
+  private upsertStatements(budgetId: string, amounts: BudgetAmount[]) {
+    const d1 = this.db.d1Instance;
+    return amounts.map((line) =>
+      d1.prepare(
+        `INSERT INTO ${this.LINES_TABLE_NAME} (id, budget_id, entity_account_id, month, amount)
+         VALUES (?1, ?2, ?3, ?4, ?5)
+         ON CONFLICT (budget_id, entity_account_id, month) DO UPDATE SET amount = excluded.amount`
+      ).bind(crypto.randomUUID(), budgetId, line.accountId, line.month, line.amount)
+    );
+  }
+
+  /**
+   * Check that every line falls in the budget's months and is for one of the
+   * entity's income or expense accounts.
+   */
+  private async validateAmounts(
+    entityId: string,
+    months: string[],
+    amounts: BudgetAmount[]
+  ): Promise<void> {
+    const outside = amounts.filter((line) => !months.includes(line.month));
+    if (outside.length > 0) {
+      throw new ValidationError(
+        `Budget lines must fall between ${months[0]} and ${months[months.length - 1]}; got ${outside[0]!.month}.`
+      );
+    }
+
+    const accountIds = [...new Set(amounts.map((line) => line.accountId))];
+    if (accountIds.length === 0) return;
+    let accounts: Array<{ id: string }>;
+    try {
+      accounts = await this.db.query<{ id: string }>(
+        `SELECT ea.id FROM entity_accounts ea
+         JOIN chart_of_accounts coa ON coa.id = ea.account_id
+         WHERE ea.entity_id = ?1 AND coa.type IN ('income', 'expense')`,
+        [entityId]
+      );
+    } catch (error: unknown) {
+      throw this.databaseError("validateAmounts", "Failed to validate budget accounts.", error);
+    }
+    const valid = new Set(accounts.map((account) => account.id));
+    const invalid = accountIds.filter((id) => !valid.has(id));
+    if (invalid.length > 0) {
+      throw new ValidationError(
+        `Budgets can only be set for the entity's income and expense accounts: ${invalid.join(", ")}.`
+      );
+    }
+  }
+
+  /**
+   * Posted activity of the entity's income and expense accounts per month,
+   * from the start of `fromMonth` up to (not including) `toMonth`.
+   */
+  private async getMonthlyActuals(
+    entityId: string,
+    fromMonth: string,
+    toMonth: string
+  ): Promise<BudgetAmount[]> {
+    try {
+      const rows = await this.db.query<{
+        account_id: string;
+        month: string;
+        system_type: string;
+        net_debit: number;
+      }>(
+        `SELECT tl.entity_account_id AS account_id,
+                strftime('%Y-%m', t.date, 'unixepoch') AS month,
+                coa.type AS system_type,
+                SUM(CASE WHEN tl.is_debit = 1 THEN tl.amount ELSE -tl.amount END) AS net_debit
+         FROM transaction_lines tl
+         JOIN transactions t ON t.id = tl.transaction_id
+         JOIN entity_accounts ea ON ea.id = tl.entity_account_id
+         JOIN chart_of_accounts coa ON coa.id = ea.account_id
+         WHERE t.entity_id = ?1 AND t.status = 'posted'
+           AND t.date >= ?2 AND t.date < ?3
+           AND coa.type IN ('income', 'expense')
+         GROUP BY tl.entity_account_id, month`,
+        [entityId, this.toUnixDay(`${fromMonth}-01`), this.toUnixDay(`${toMonth}-01`)]
+      );
+      return rows.map((row) => ({
+        accountId: row.account_id,
+        month: row.month,
+        amount: row.system_type === "expense" ? row.net_debit : -row.net_debit,
+      }));
+    } catch (error: unknown) {
+      throw this.databaseError("getMonthlyActuals", "Failed to load prior-year actuals.", error);
+    }
+  }
+}
+
+export function createBudgetService(d1: D1Database): BudgetService {
+  return new BudgetService(d1);
+}
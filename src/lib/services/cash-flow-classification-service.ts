@@ -0,0 +1,192 @@
+// src/lib/services/cash-flow-classification-service.ts
+import type { D1Database } from "@cloudflare/workers-types";
+import { createDbClient, type Database } from "@db/db";
+import { AppError, ValidationError, NotFoundError } from "../../utils/errors";
+import type { AccountSystemType, CashFlowClassification } from "../../types/accounting";
+import { getReportAccountType } from "../accounting/core/accounting-api";
+import {
+  CASH_ACCOUNT_TYPES,
+  assertClassificationCategory,
+} from "../accounting/core/cash-flow";
+
+export interface DbCashFlowClassification {
+  id: string;
+  entity_id: string;
+  entity_account_id: string;
+  category: CashFlowClassification["category"];
+  classification: CashFlowClassification["classification"];
+  created_at: number;
+  updated_at: number;
+}
+
+/** A saved classification; `accountId` is the entity_accounts.id */
+export interface AppCashFlowClassification extends CashFlowClassification {
+  accountCode: string;
+  accountName: string;
+  updatedAt: number;
+}
+
+export class CashFlowClassificationService {
+  private db: Database;
+  private readonly TABLE_NAME = "cash_flow_classifications";
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+  }
+
+  private databaseError(method: string, message: string, error: unknown): AppError {
+    if (error instanceof AppError) return error;
+    console.error(`CashFlowClassificationService.${method} error:`, error);
+    return new AppError(message, 500, true, "DatabaseError", "DATABASE_ERROR");
+  }
+
+  async getClassifications(entityId: string): Promise<AppCashFlowClassification[]> {
+    try {
+      const rows = await this.db.query<
+        DbCashFlowClassification & { account_code: string; account_name: string }
+      >(
+        `SELECT cfc.*, coa.code AS account_code, COALESCE(ea.custom_name, coa.name) AS account_name
+         FROM ${this.TABLE_NAME} cfc
+         JOIN entity_accounts ea ON ea.id = cfc.entity_account_id
+         JOIN chart_of_accounts coa ON coa.id = ea.account_id
+         WHERE cfc.entity_id = ?1
+         ORDER BY coa.code`,
+        [entityId]
+      );
+      return rows.map((row) => ({
+        accountId: row.entity_account_id,
+        category: row.category,
+        classification: row.classification,
+        accountCode: row.account_code,
+        accountName: row.account_name,
+        updatedAt: row.updated_at,
+      }));
+    } catch (error: unknown) {
+      throw this.databaseError("getClassifications", "Failed to retrieve cash flow classifications.", error);
+    }
+  }
+
+  /**
+   * Save the classification of each listed account, replacing any it had.
+   * Accounts not listed keep theirs.
+   */
+  async setClassifications(
+    entityId: string,
+    classifications: CashFlowClassification[]
+  ): Promise<AppCashFlowClassification[]> {
+    await this.validateClassifications(entityId, classifications);
+    if (classifications.length === 0) return this.getClassifications(entityId);
+
+    const d1 = this.db.d1Instance;
+    const now = Math.floor(Date.now() / 1000);
+    try {
+      const results = await this.db.batch(
+        classifications.flatMap((item) => [
+          d1.prepare(
+            `INSERT INTO ${this.TABLE_NAME} (id, entity_id, entity_account_id, category, classification, created_at, updated_at)
+             VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?6)
+             ON CONFLICT (entity_account_id) DO UPDATE SET
+               category = excluded.category,
+               classification = excluded.classification,
+               updated_at = excluded.updated_at`
+          ).bind(crypto.randomUUID(), entityId, item.accountId, item.category, item.classification, now),
+          this.touchAccount(item.accountId, now),
+        ])
+      );
+      if (!results.every((r) => r.success)) {
+        throw new AppError("Failed to save cash flow classifications.", 500, true, "DatabaseError", "DATABASE_ERROR");
+      }
+    } catch (error: unknown) {
+      throw this.databaseError("setClassifications", "Failed to save cash flow classifications.", error);
+    }
+
+    return this.getClassifications(entityId);
+  }
+
+  /**
+   * Remove an account's classification, returning it to its default.
+   */
+  async deleteClassification(entityId: string, accountId: string): Promise<void> {
+    const existing = await this.db.queryOne<{ id: string }>(
+      `SELECT id FROM ${this.TABLE_NAME} WHERE entity_id = ?1 AND entity_account_id = ?2`,
+      [entityId, accountId]
+    );
+    if (!existing) {
+      throw new NotFoundError("The account has no cash flow classification.", "CASH_FLOW_CLASSIFICATION_NOT_FOUND");
+    }
+
+    const d1 = this.db.d1Instance;
+    try {
+      const results = await this.db.batch([
+        d1.prepare(`DELETE FROM ${this.TABLE_NAME} WHERE id = ?1`).bind(existing.id),
+        this.touchAccount(accountId, Math.floor(Date.now() / 1000)),
+      ]);
+      if (!results.every((r) => r.success)) {
+        throw new AppError("Failed to delete cash flow classification.", 500, true, "DatabaseError", "DATABASE_ERROR");
+      }
+    } catch (error: unknown) {
+      throw this.databaseError("deleteClassification", "Failed to delete cash flow classification.", error);
+    }
+  }
+
+  /**
+   * Cached reports are keyed on when the entity's accounts last changed
+   * (see src/lib/reports/report-cache.ts); a new classification changes the
+   * direct-method statement, so it counts as a change to the account.
+   */
+  private touchAccount(accountId: string, now: number) {
+    return this.db.d1Instance
+      .prepare(`UPDATE entity_accounts SET updated_at = ?2 WHERE id = ?1`)
+      .bind(accountId, now);
+  }
+
+  /**
+   * Check that every classification is for one of the entity's non-cash
+   * accounts, listed once, and belongs to the category it is saved under.
+   * Cash accounts are what the statement traces, so they have none.
+   */
+  private async validateClassifications(
+    entityId: string,
+    classifications: CashFlowClassification[]
+  ): Promise<void> {
+    const accountIds = classifications.map((item) => item.accountId);
+    const duplicate = accountIds.find((id, index) => accountIds.indexOf(id) !== index);
+    if (duplicate) {
+      throw new ValidationError(`Account ${duplicate} is classified more than once.`);
+    }
+    for (const item of classifications) {
+      assertClassificationCategory(item.classification, item.category);
+    }
+    if (accountIds.length === 0) return;
+
+    let accounts: Array<{ id: string; code: string; type: AccountSystemType; subtype: string | null }>;
+    try {
+      accounts = await this.db.query(
+        `SELECT ea.id, coa.code, coa.type, coa.subtype
+         FROM entity_accounts ea
+         JOIN chart_of_accounts coa ON coa.id = ea.account_id
+         WHERE ea.entity_id = ?1`,
+        [entityId]
+      );
+    } catch (error: unknown) {
+      throw this.databaseError("validateClassifications", "Failed to validate cash flow accounts.", error);
+    }
+    const byId = new Map(accounts.map((account) => [account.id, account]));
+    const missing = accountIds.filter((id) => !byId.has(id));
+    if (missing.length > 0) {
+      throw new ValidationError(`Accounts not found for this entity: ${missing.join(", ")}.`);
+    }
+    const cash = accountIds.filter((id) =>
+      CASH_ACCOUNT_TYPES.includes(getReportAccountType(byId.get(id)!))
+    );
+    if (cash.length > 0) {
+      throw new ValidationError(
+        `Cash accounts cannot be classified; the statement traces the accounts cash moves against: ${cash.join(", ")}.`
+      );
+    }
+  }
+}
+
+export function createCashFlowClassificationService(d1: D1Database): CashFlowClassificationService {
+  return new CashFlowClassificationService(d1);
+}
@@ -0,0 +1,215 @@
+// src/lib/services/custom-report-service.ts
+import type { D1Database } from "@cloudflare/workers-types";
+import { createDbClient, type Database } from "@db/db";
+import {
+  AppError,
+  ForbiddenError,
+  NotFoundError,
+} from "../../utils/errors";
+import type { CustomReportConfiguration } from "../../types/report";
+import { compileCustomReport } from "../reports/builder";
+
+export interface DbCustomReport {
+  id: string;
+  entity_id: string;
+  name: string;
+  description: string | null;
+  configuration: string; // JSON CustomReportConfiguration
+  is_shared: number;
+  created_by: string;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface AppCustomReport {
+  id: string;
+  entityId: string;
+  name: string;
+  description: string | null;
+  configuration: CustomReportConfiguration;
+  isShared: boolean;
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CustomReportUpdate {
+  configuration?: CustomReportConfiguration | undefined;
+  isShared?: boolean | undefined;
+}
+
+export class CustomReportService {
+  private db: Database;
+  private readonly TABLE_NAME = "custom_reports";
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+  }
+
+  private toAppReport(row: DbCustomReport): AppCustomReport {
+    return {
+      id: row.id,
+      entityId: row.entity_id,
+      name: row.name,
+      description: row.description,
+      configuration: JSON.parse(row.configuration) as CustomReportConfiguration,
+      isShared: Boolean(row.is_shared),
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private databaseError(method: string, message: string, error: unknown): AppError {
+    if (error instanceof AppError) return error;
+    console.error(`CustomReportService.${method} error:`, error);
+    return new AppError(message, 500, true, "DatabaseError", "DATABASE_ERROR");
+  }
+
+  /**
+   * The reports of an entity the user can see: their own and the shared ones.
+   */
+  async getReports(entityId: string, userId: string): Promise<AppCustomReport[]> {
+    try {
+      const rows = await this.db.query<DbCustomReport>(
+        `SELECT * FROM ${this.TABLE_NAME}
+         WHERE entity_id = ?1 AND (created_by = ?2 OR is_shared = 1)
+         ORDER BY name`,
+        [entityId, userId]
+      );
+      return rows.map((row) => this.toAppReport(row));
+    } catch (error: unknown) {
+      throw this.databaseError("getReports", "Failed to retrieve custom reports.", error);
+    }
+  }
+
+  /**
+   * A report the user can see, or null. Reports of other users are only
+   * visible once shared.
+   */
+  async getReportById(id: string, userId: string): Promise<AppCustomReport | null> {
+    try {
+      const row = await this.db.queryOne<DbCustomReport>(
+        `SELECT * FROM ${this.TABLE_NAME} WHERE id = ?1 AND (created_by = ?2 OR is_shared = 1)`,
+        [id, userId]
+      );
+      return row ? this.toAppReport(row) : null;
+    } catch (error: unknown) {
+      throw this.databaseError("getReportById", "Failed to retrieve custom report.", error);
+    }
+  }
+
+  async createReport(
+    entityId: string,
+    configuration: CustomReportConfiguration,
+    isShared: boolean,
+    userId: string
+  ): Promise<AppCustomReport> {
+    compileCustomReport(configuration);
+
+    const now = Math.floor(Date.now() / 1000);
+    const report: AppCustomReport = {
+      id: crypto.randomUUID(),
+      entityId,
+      name: configuration.reportName.trim(),
+      description: configuration.descriptionText ?? null,
+      configuration,
+      isShared,
+      createdBy: userId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    try {
+      await this.db.execute(
+        `INSERT INTO ${this.TABLE_NAME} (id, entity_id, name, description, configuration, is_shared, created_by, created_at, updated_at)
+         VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?8)`,
+        [
+          report.id,
+          entityId,
+          report.name,
+          report.description,
+          JSON.stringify(configuration),
+          isShared ? 1 : 0,
+          userId,
+          now,
+        ]
+      );
+    } catch (error: unknown) {
+      throw this.databaseError("createReport", "Failed to save custom report.", error);
+    }
+    return report;
+  }
+
+  /**
+   * Change a report's configuration or sharing. Only its creator can.
+   */
+  async updateReport(
+    id: string,
+    updates: CustomReportUpdate,
+    userId: string
+  ): Promise<AppCustomReport> {
+    const existing = await this.getOwnReport(id, userId);
+    if (updates.configuration) {
+      compileCustomReport(updates.configuration);
+    }
+
+    const configuration = updates.configuration ?? existing.configuration;
+    const updated: AppCustomReport = {
+      ...existing,
+      name: configuration.reportName.trim(),
+      description: configuration.descriptionText ?? null,
+      configuration,
+      isShared: updates.isShared ?? existing.isShared,
+      updatedAt: Math.floor(Date.now() / 1000),
+    };
+    try {
+      await this.db.execute(
+        `UPDATE ${this.TABLE_NAME}
+         SET name = ?2, description = ?3, configuration = ?4, is_shared = ?5, updated_at = ?6
+         WHERE id = ?1`,
+        [
+          id,
+          updated.name,
+          updated.description,
+          JSON.stringify(configuration),
+          updated.isShared ? 1 : 0,
+          updated.updatedAt,
+        ]
+      );
+    } catch (error: unknown) {
+      throw this.databaseError("updateReport", "Failed to update custom report.", error);
+    }
+    return updated;
+  }
+
+  /**
+   * Delete a report. Only its creator can.
+   */
+  async deleteReport(id: string, userId: string): Promise<boolean> {
+    await this.getOwnReport(id, userId);
+    try {
+      const result = await this.db.execute(
+        `DELETE FROM ${this.TABLE_NAME} WHERE id = ?1`,
+        [id]
+      );
+      return result.success;
+    } catch (error: unknown) {
+      throw this.databaseError("deleteReport", "Failed to delete custom report.", error);
+    }
+  }
+
+  private async getOwnReport(id: string, userId: string): Promise<AppCustomReport> {
+    const report = await this.getReportById(id, userId);
+    if (!report) {
+      throw new NotFoundError("Custom report not found.", "CUSTOM_REPORT_NOT_FOUND");
+    }
+    if (report.createdBy !== userId) {
+      throw new ForbiddenError("Only the creator of a shared report can change it.");
+    }
+    return report;
+  }
+}
+
+export function createCustomReportService(d1: D1Database): CustomReportService {
+  return new CustomReportService(d1);
+}
@@ -0,0 +1,153 @@
+// src/lib/services/entity-owner-service.ts
+import type { D1Database } from "@cloudflare/workers-types";
+import { createDbClient, type Database } from "@db/db";
+import { AppError, ValidationError } from "../../utils/errors";
+import type { EntityOwner } from "../../types/entity";
+import type { EntityOwnerInput } from "../validation/schemas/entity";
+
+export interface DbEntityOwner {
+  id: string;
+  entity_id: string;
+  name: string;
+  owner_type: EntityOwner["ownerType"];
+  ownership_basis_points: number;
+  capital_account_id: string | null;
+  distribution_account_id: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export class EntityOwnerService {
+  private db: Database;
+  private readonly TABLE_NAME = "entity_owners";
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+  }
+
+  private databaseError(method: string, message: string, error: unknown): AppError {
+    if (error instanceof AppError) return error;
+    console.error(`EntityOwnerService.${method} error:`, error);
+    return new AppError(message, 500, true, "DatabaseError", "DATABASE_ERROR");
+  }
+
+  private mapDbToApp(row: DbEntityOwner): EntityOwner {
+    return {
+      id: row.id,
+      entityId: row.entity_id,
+      name: row.name,
+      ownerType: row.owner_type,
+      ownershipPercentage: row.ownership_basis_points / 100,
+      capitalAccountId: row.capital_account_id,
+      distributionAccountId: row.distribution_account_id,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  /**
+   * The entity's owners, largest share first. Empty when no ownership is
+   * configured.
+   */
+  async getOwners(entityId: string): Promise<EntityOwner[]> {
+    try {
+      const rows = await this.db.query<DbEntityOwner>(
+        `SELECT * FROM ${this.TABLE_NAME}
+         WHERE entity_id = ?1
+         ORDER BY ownership_basis_points DESC, name`,
+        [entityId]
+      );
+      return rows.map((row) => this.mapDbToApp(row));
+    } catch (error: unknown) {
+      throw this.databaseError("getOwners", "Failed to retrieve entity owners.", error);
+    }
+  }
+
+  /**
+   * Replace the entity's owners. Percentages must total 100 (or the list be
+   * empty), and an equity account can belong to one owner only.
+   */
+  async setOwners(entityId: string, owners: EntityOwnerInput[]): Promise<EntityOwner[]> {
+    await this.validateOwners(entityId, owners);
+
+    const d1 = this.db.d1Instance;
+    const now = Math.floor(Date.now() / 1000);
+    try {
+      const results = await this.db.batch([
+        d1.prepare(`DELETE FROM ${this.TABLE_NAME} WHERE entity_id = ?1`).bind(entityId),
+        ...owners.map((owner) =>
+          d1.prepare(
+            `INSERT INTO ${this.TABLE_NAME} (id, entity_id, name, owner_type, ownership_basis_points, capital_account_id, distribution_account_id, created_at, updated_at)
+             VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?8)`
+          ).bind(
+            crypto.randomUUID(),
+            entityId,
+            owner.name,
+            owner.ownerType,
+            Math.round(owner.ownershipPercentage * 100),
+            owner.capitalAccountId ?? null,
+            owner.distributionAccountId ?? null,
+            now
+          )
+        ),
+      ]);
+      if (!results.every((r) => r.success)) {
+        throw new AppError("Failed to save entity owners.", 500, true, "DatabaseError", "DATABASE_ERROR");
+      }
+    } catch (error: unknown) {
+      throw this.databaseError("setOwners", "Failed to save entity owners.", error);
+    }
+
+    return this.getOwners(entityId);
+  }
+
+  /**
+   * Check the percentages and that every owner account is one of the
+   * entity's equity accounts, used once.
+   */
+  private async validateOwners(entityId: string, owners: EntityOwnerInput[]): Promise<void> {
+    const basisPoints = owners.reduce(
+      (sum, owner) => sum + Math.round(owner.ownershipPercentage * 100),
+      0
+    );
+    if (owners.length > 0 && basisPoints !== 10000) {
+      throw new ValidationError(
+        `Ownership percentages must total 100; they total ${basisPoints / 100}.`
+      );
+    }
+
+    const accountIds = owners.flatMap((owner) =>
+      [owner.capitalAccountId, owner.distributionAccountId].filter(
+        (id): id is string => typeof id === "string"
+      )
+    );
+    const duplicate = accountIds.find((id, index) => accountIds.indexOf(id) !== index);
+    if (duplicate) {
+      throw new ValidationError(`Account ${duplicate} is assigned to more than one owner.`);
+    }
+    if (accountIds.length === 0) return;
+
+    let equityAccountIds: Set<string>;
+    try {
+      const rows = await this.db.query<{ id: string }>(
+        `SELECT ea.id
+         FROM entity_accounts ea
+         JOIN chart_of_accounts coa ON coa.id = ea.account_id
+         WHERE ea.entity_id = ?1 AND coa.type = 'equity'`,
+        [entityId]
+      );
+      equityAccountIds = new Set(rows.map((row) => row.id));
+    } catch (error: unknown) {
+      throw this.databaseError("validateOwners", "Failed to validate owner accounts.", error);
+    }
+    const invalid = accountIds.filter((id) => !equityAccountIds.has(id));
+    if (invalid.length > 0) {
+      throw new ValidationError(
+        `Owner accounts must be equity accounts of this entity: ${invalid.join(", ")}.`
+      );
+    }
+  }
+}
+
+export function createEntityOwnerService(d1: D1Database): EntityOwnerService {
+  return new EntityOwnerService(d1);
+}
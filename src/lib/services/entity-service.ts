@@ -6,6 +6,8 @@ import type { Entity, EntityInput, EntityWithChildren, EntityQueryFilters, Entit
 import { AppError, ValidationError, NotFoundError } from '../../utils/errors';
 import { createAccountService } from './account-service';
 import { createEntityAccountService } from './entity-account-service';
+import { normalizeCurrencyCode } from '../accounting/core/fx';
+import { DEFAULT_CURRENCY } from '../accounting/core/constants';
 
 // Helper to map DbEntity to application-level Entity type
 function mapDbEntityToAppEntity(dbEntity: DbEntity, path?: string | null): Entity {
@@ -21,12 +23,22 @@ function mapDbEntityToAppEntity(dbEntity: DbEntity, path?: string | null): Entit
     parent_id: dbEntity.parent_id || undefined,
     is_active: dbEntity.is_active === 1,
     // FIXED: Removed allows_sub_entities if it doesn't exist in Entity
+    defaultCurrency: dbEntity.functional_currency,
+    ownershipPercentage: dbEntity.ownership_percentage ?? 100,
     created_at: dbEntity.created_at,
     updated_at: dbEntity.updated_at,
     path: path || dbEntity.name,
   };
 }
 
+// Percentage of an entity held by its parent, used to split consolidated equity
+function validateOwnershipPercentage(value: number): number {
+  if (!Number.isInteger(value) || value < 1 || value > 100) {
+    throw new ValidationError('Ownership percentage must be a whole number between 1 and 100.');
+  }
+  return value;
+}
+
 export class EntityService {
   private db: Database;
 
@@ -72,17 +84,21 @@ export class EntityService {
       is_active: input.is_active !== undefined ? (input.is_active ? 1 : 0) : 1,
       // FIXED: Default allows_sub_entities
       allows_sub_entities: 0, // Default value since it's not in EntityInput
+      // Ledger amounts are kept in this currency; it is fixed once the entity exists
+      functional_currency: normalizeCurrencyCode(input.defaultCurrency || DEFAULT_CURRENCY),
+      ownership_percentage: validateOwnershipPercentage(input.ownershipPercentage ?? 100),
     };
 
     try {
       // FIXED: Changed executeD to execute
       await this.db.execute(
-        `INSERT INTO entities (id, user_id, name, legal_name, ein, address, legal_address, business_type, parent_id, is_active, allows_sub_entities, created_at, updated_at)
-         VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?12)`,
+        `INSERT INTO entities (id, user_id, name, legal_name, ein, address, legal_address, business_type, parent_id, is_active, allows_sub_entities, functional_currency, ownership_percentage, created_at, updated_at)
+         VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?14, ?14)`,
         [
           dbEntityData.id, dbEntityData.user_id, dbEntityData.name, dbEntityData.legal_name, dbEntityData.ein,
           dbEntityData.address, dbEntityData.legal_address, dbEntityData.business_type, dbEntityData.parent_id,
-          dbEntityData.is_active, dbEntityData.allows_sub_entities, now
+          dbEntityData.is_active, dbEntityData.allows_sub_entities, dbEntityData.functional_currency,
+          dbEntityData.ownership_percentage, now
         ]
       );
 
@@ -222,6 +238,9 @@ export class EntityService {
       if (updates.parent_id) { /* TODO: Validate parent & check cycles */ }
       addUpdate('parent_id', updates.parent_id, existingAppEntity.parent_id);
     }
+    if (updates.ownershipPercentage !== undefined) {
+      addUpdate('ownership_percentage', validateOwnershipPercentage(updates.ownershipPercentage), existingAppEntity.ownershipPercentage);
+    }
     if (updates.is_active !== undefined) addUpdate('is_active', updates.is_active ? 1 : 0, existingAppEntity.is_active ? 1: 0);
     // FIXED: Removed allows_sub_entities
 
@@ -0,0 +1,230 @@
+// src/lib/services/exchange-rate-service.ts
+import type { D1Database } from "@cloudflare/workers-types";
+import { createDbClient, type Database } from "@db/db";
+import {
+  AppError,
+  ValidationError,
+  NotFoundError,
+} from "../../utils/errors";
+import {
+  convertToFunctional,
+  findExchangeRate,
+  normalizeCurrencyCode,
+  parseExchangeRatesCsv,
+  type ConvertedLine,
+  type CurrencyLineInput,
+  type ExchangeRate,
+} from "../accounting/core/fx";
+
+export interface DbExchangeRate {
+  id: string;
+  base_currency: string;
+  quote_currency: string;
+  rate: string;
+  rate_date: number; // Unix seconds, midnight UTC
+  source: string;
+  created_at: number;
+}
+
+export interface ExchangeRateFilters {
+  baseCurrency?: string;
+  quoteCurrency?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+/** Line as entered; lines without a currency are in the functional currency */
+export type LineInCurrency = Omit<CurrencyLineInput, "currencyCode"> & {
+  currencyCode?: string | null;
+};
+
+export class ExchangeRateService {
+  private db: Database;
+  private readonly TABLE_NAME = "exchange_rates";
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+  }
+
+  private toUnixDay(dateStr: string): number {
+    const ms = Date.parse(`${dateStr}T00:00:00.000Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr) || Number.isNaN(ms)) {
+      throw new ValidationError(`Invalid date "${dateStr}". Expected YYYY-MM-DD.`);
+    }
+    return Math.floor(ms / 1000);
+  }
+
+  private toRate(row: DbExchangeRate): ExchangeRate {
+    return {
+      baseCurrency: row.base_currency,
+      quoteCurrency: row.quote_currency,
+      rate: row.rate,
+      rateDate: new Date(row.rate_date * 1000).toISOString().slice(0, 10),
+    };
+  }
+
+  private databaseError(method: string, message: string, error: unknown): AppError {
+    if (error instanceof AppError) return error;
+    console.error(`ExchangeRateService.${method} error:`, error);
+    return new AppError(message, 500, true, "DatabaseError", "DATABASE_ERROR");
+  }
+
+  /**
+   * Currency the entity keeps its books in.
+   */
+  async getFunctionalCurrency(entityId: string): Promise<string> {
+    let row: { functional_currency: string } | null;
+    try {
+      row = await this.db.queryOne<{ functional_currency: string }>(
+        `SELECT functional_currency FROM entities WHERE id = ?1`,
+        [entityId]
+      );
+    } catch (error: unknown) {
+      throw this.databaseError("getFunctionalCurrency", "Failed to retrieve the entity currency.", error);
+    }
+    if (!row) {
+      throw new NotFoundError("Entity not found.", "ENTITY_NOT_FOUND");
+    }
+    return row.functional_currency;
+  }
+
+  async getRates(filters: ExchangeRateFilters = {}): Promise<ExchangeRate[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (filters.baseCurrency) {
+      params.push(normalizeCurrencyCode(filters.baseCurrency));
+      conditions.push(`base_currency = ?${params.length}`);
+    }
+    if (filters.quoteCurrency) {
+      params.push(normalizeCurrencyCode(filters.quoteCurrency));
+      conditions.push(`quote_currency = ?${params.length}`);
+    }
+    if (filters.startDate) {
+      params.push(this.toUnixDay(filters.startDate));
+      conditions.push(`rate_date >= ?${params.length}`);
+    }
+    if (filters.endDate) {
+      params.push(this.toUnixDay(filters.endDate));
+      conditions.push(`rate_date <= ?${params.length}`);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    try {
+      const rows = await this.db.query<DbExchangeRate>(
+        `SELECT * FROM ${this.TABLE_NAME} ${where} ORDER BY base_currency, quote_currency, rate_date`,
+        params
+      );
+      return rows.map((row) => this.toRate(row));
+    } catch (error: unknown) {
+      throw this.databaseError("getRates", "Failed to retrieve exchange rates.", error);
+    }
+  }
+
+  /**
+   * Rate to convert `from` into `to` on a date (YYYY-MM-DD), taken from the
+   * latest rate quoted on or before it in either direction.
+   */
+  async getRate(from: string, to: string, date: string): Promise<ExchangeRate> {
+    const base = normalizeCurrencyCode(from);
+    const quote = normalizeCurrencyCode(to);
+    let rows: DbExchangeRate[] = [];
+    if (base !== quote) {
+      try {
+        rows = await this.db.query<DbExchangeRate>(
+          `SELECT * FROM ${this.TABLE_NAME}
+           WHERE ((base_currency = ?1 AND quote_currency = ?2) OR (base_currency = ?2 AND quote_currency = ?1))
+             AND rate_date = (
+               SELECT MAX(rate_date) FROM ${this.TABLE_NAME}
+               WHERE ((base_currency = ?1 AND quote_currency = ?2) OR (base_currency = ?2 AND quote_currency = ?1))
+                 AND rate_date <= ?3
+             )`,
+          [base, quote, this.toUnixDay(date)]
+        );
+      } catch (error: unknown) {
+        throw this.databaseError("getRate", "Failed to retrieve exchange rate.", error);
+      }
+    }
+
+    const rate = findExchangeRate(rows.map((row) => this.toRate(row)), base, quote, date);
+    if (!rate) {
+      throw new ValidationError(`No ${base} to ${quote} exchange rate on or before ${date}.`);
+    }
+    return rate;
+  }
+
+  /**
+   * Insert or replace rates; a rate for the same pair and day is overwritten.
+   */
+  async importRates(rates: ExchangeRate[], source = "manual"): Promise<number> {
+    if (rates.length === 0) return 0;
+    const now = Math.floor(Date.now() / 1000);
+    const statements = rates.map((rate) => {
+      const baseCurrency = normalizeCurrencyCode(rate.baseCurrency);
+      const quoteCurrency = normalizeCurrencyCode(rate.quoteCurrency);
+      if (baseCurrency === quoteCurrency) {
+        throw new ValidationError(`Exchange rate for ${baseCurrency} must quote a different currency.`);
+      }
+      if (!/^\d+(\.\d+)?$/.test(rate.rate) || !(Number(rate.rate) > 0)) {
+        throw new ValidationError(`Invalid exchange rate "${rate.rate}". Expected a positive decimal.`);
+      }
+      return this.db.d1Instance
+        .prepare(
+          `INSERT INTO ${this.TABLE_NAME} (id, base_currency, quote_currency, rate, rate_date, source, created_at)
+           VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7)
+           ON CONFLICT (base_currency, quote_currency, rate_date)
+           DO UPDATE SET rate = excluded.rate, source = excluded.source`
+        )
+        .bind(
+          crypto.randomUUID(),
+          baseCurrency,
+          quoteCurrency,
+          rate.rate,
+          this.toUnixDay(rate.rateDate),
+          source,
+          now
+        );
+    });
+
+    try {
+      const results = await this.db.batch(statements);
+      if (results.some((r) => !r.success)) {
+        throw new Error(results.find((r) => !r.success)?.error);
+      }
+      return statements.length;
+    } catch (error: unknown) {
+      throw this.databaseError("importRates", "Failed to save exchange rates.", error);
+    }
+  }
+
+  async importRatesCsv(csv: string, source = "csv"): Promise<number> {
+    return this.importRates(parseExchangeRatesCsv(csv), source);
+  }
+
+  /**
+   * Convert an entry's lines into the entity's functional currency at the
+   * rates in effect on the transaction date (YYYY-MM-DD).
+   */
+  async convertLines<T extends LineInCurrency>(
+    entityId: string,
+    date: string,
+    lines: T[]
+  ): Promise<ConvertedLine<T & { currencyCode: string }>[]> {
+    const functionalCurrency = await this.getFunctionalCurrency(entityId);
+    const withCurrency = lines.map((line) => ({
+      ...line,
+      currencyCode: normalizeCurrencyCode(line.currencyCode ?? functionalCurrency),
+    }));
+
+    const rates = new Map<string, string>();
+    for (const { currencyCode } of withCurrency) {
+      if (currencyCode !== functionalCurrency && !rates.has(currencyCode)) {
+        rates.set(currencyCode, (await this.getRate(currencyCode, functionalCurrency, date)).rate);
+      }
+    }
+    return convertToFunctional(withCurrency, functionalCurrency, rates);
+  }
+}
+
+export function createExchangeRateService(d1: D1Database): ExchangeRateService {
+  return new ExchangeRateService(d1);
+}
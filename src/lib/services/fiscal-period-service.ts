@@ -0,0 +1,266 @@
+// src/lib/services/fiscal-period-service.ts
+import type { D1Database } from "@cloudflare/workers-types";
+import { createDbClient, type Database } from "@db/db";
+import {
+  AppError,
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+} from "../../utils/errors";
+import {
+  checkPeriodLock,
+  type FiscalPeriodLock,
+  type FiscalPeriodStatus,
+  type PeriodLockContext,
+} from "../accounting/core/fiscal-period";
+
+export interface DbFiscalPeriod {
+  id: string;
+  entity_id: string;
+  name: string;
+  start_date: number; // Unix seconds, midnight UTC of the first day
+  end_date: number; // Unix seconds, midnight UTC of the last day
+  status: FiscalPeriodStatus;
+  closed_by: string | null;
+  closed_at: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface FiscalPeriodInput {
+  name: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+}
+
+const FISCAL_PERIOD_STATUSES: FiscalPeriodStatus[] = [
+  "open",
+  "soft_closed",
+  "hard_closed",
+];
+
+export class FiscalPeriodService {
+  private db: Database;
+  private readonly TABLE_NAME = "fiscal_periods";
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+  }
+
+  private toUnixDay(dateStr: string): number {
+    const ms = Date.parse(`${dateStr}T00:00:00.000Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr) || Number.isNaN(ms)) {
+      throw new ValidationError(`Invalid date "${dateStr}". Expected YYYY-MM-DD.`);
+    }
+    return Math.floor(ms / 1000);
+  }
+
+  private toLock(period: DbFiscalPeriod): FiscalPeriodLock {
+    return {
+      id: period.id,
+      name: period.name,
+      startDate: new Date(period.start_date * 1000),
+      endDate: new Date(period.end_date * 1000),
+      status: period.status,
+    };
+  }
+
+  async getPeriods(entityId: string): Promise<DbFiscalPeriod[]> {
+    const sql = `SELECT * FROM ${this.TABLE_NAME} WHERE entity_id = ?1 ORDER BY start_date`;
+    try {
+      return await this.db.query<DbFiscalPeriod>(sql, [entityId]);
+    } catch (error: unknown) {
+      console.error("FiscalPeriodService.getPeriods error:", error);
+      throw new AppError(
+        "Failed to retrieve fiscal periods.",
+        500,
+        true,
+        "DatabaseError",
+        "DATABASE_ERROR"
+      );
+    }
+  }
+
+  async getPeriodById(id: string): Promise<DbFiscalPeriod | null> {
+    const sql = `SELECT * FROM ${this.TABLE_NAME} WHERE id = ?1`;
+    try {
+      return await this.db.queryOne<DbFiscalPeriod>(sql, [id]);
+    } catch (error: unknown) {
+      console.error("FiscalPeriodService.getPeriodById error:", error);
+      throw new AppError(
+        "Failed to retrieve fiscal period.",
+        500,
+        true,
+        "DatabaseError",
+        "DATABASE_ERROR"
+      );
+    }
+  }
+
+  async createPeriod(
+    entityId: string,
+    input: FiscalPeriodInput
+  ): Promise<DbFiscalPeriod> {
+    if (!input.name?.trim()) {
+      throw new ValidationError("Fiscal period name is required.");
+    }
+    const startDate = this.toUnixDay(input.startDate);
+    const endDate = this.toUnixDay(input.endDate);
+    if (endDate < startDate) {
+      throw new ValidationError("Fiscal period end date must not be before its start date.");
+    }
+
+    let overlapping: { id: string; name: string } | null;
+    try {
+      overlapping = await this.db.queryOne<{ id: string; name: string }>(
+        `SELECT id, name FROM ${this.TABLE_NAME}
+         WHERE entity_id = ?1 AND start_date <= ?3 AND end_date >= ?2
+         LIMIT 1`,
+        [entityId, startDate, endDate]
+      );
+    } catch (error: unknown) {
+      console.error("FiscalPeriodService.createPeriod error:", error);
+      throw new AppError(
+        "Failed to check for overlapping fiscal periods.",
+        500,
+        true,
+        "DatabaseError",
+        "DATABASE_ERROR"
+      );
+    }
+    if (overlapping) {
+      throw new ConflictError(
+        `Fiscal period overlaps existing period "${overlapping.name}".`,
+        "PERIOD_OVERLAP"
+      );
+    }
+
+    const id = crypto.randomUUID();
+    const now = Math.floor(Date.now() / 1000);
+    try {
+      await this.db.execute(
+        `INSERT INTO ${this.TABLE_NAME} (id, entity_id, name, start_date, end_date, status, created_at, updated_at)
+         VALUES (?1, ?2, ?3, ?4, ?5, 'open', ?6, ?6)`,
+        [id, entityId, input.name.trim(), startDate, endDate, now]
+      );
+    } catch (error: unknown) {
+      console.error("FiscalPeriodService.createPeriod error:", error);
+      throw new AppError(
+        "Failed to create fiscal period.",
+        500,
+        true,
+        "DatabaseError",
+        "DATABASE_ERROR"
+      );
+    }
+
+    return {
+      id,
+      entity_id: entityId,
+      name: input.name.trim(),
+      start_date: startDate,
+      end_date: endDate,
+      status: "open",
+      closed_by: null,
+      closed_at: null,
+      created_at: now,
+      updated_at: now,
+    };
+  }
+
+  /**
+   * Move a period between open, soft-closed and hard-closed. Closing records
+   * who closed it and when; reopening clears that. A hard-closed period has
+   * been filed, so moving it back needs `canReopenHardClosed`.
+   */
+  async setPeriodStatus(
+    id: string,
+    status: FiscalPeriodStatus,
+    userId: string,
+    canReopenHardClosed: boolean = false
+  ): Promise<DbFiscalPeriod> {
+    if (!FISCAL_PERIOD_STATUSES.includes(status)) {
+      throw new ValidationError(`Invalid fiscal period status "${status}".`);
+    }
+    const period = await this.getPeriodById(id);
+    if (!period) {
+      throw new NotFoundError("Fiscal period not found.");
+    }
+    if (
+      period.status === "hard_closed" &&
+      status !== "hard_closed" &&
+      !canReopenHardClosed
+    ) {
+      throw new ConflictError(
+        `Fiscal period "${period.name}" is hard-closed and cannot be reopened.`,
+        "PERIOD_HARD_CLOSED"
+      );
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const closedBy = status === "open" ? null : userId;
+    const closedAt = status === "open" ? null : now;
+    try {
+      await this.db.execute(
+        `UPDATE ${this.TABLE_NAME}
+         SET status = ?2, closed_by = ?3, closed_at = ?4, updated_at = ?5
+         WHERE id = ?1`,
+        [id, status, closedBy, closedAt, now]
+      );
+    } catch (error: unknown) {
+      console.error("FiscalPeriodService.setPeriodStatus error:", error);
+      throw new AppError(
+        "Failed to update fiscal period status.",
+        500,
+        true,
+        "DatabaseError",
+        "DATABASE_ERROR"
+      );
+    }
+
+    return {
+      ...period,
+      status,
+      closed_by: closedBy,
+      closed_at: closedAt,
+      updated_at: now,
+    };
+  }
+
+  /**
+   * Build the lock context used by `Transaction.post()`, `void()` and
+   * `createReversal()`.
+   */
+  async getLockContext(
+    entityId: string,
+    canOverrideSoftClose: boolean = false
+  ): Promise<PeriodLockContext> {
+    const periods = await this.getPeriods(entityId);
+    return {
+      periods: periods.map((p) => this.toLock(p)),
+      canOverrideSoftClose,
+    };
+  }
+
+  /**
+   * Throw a ConflictError if ledger changes dated on `date` are not allowed.
+   */
+  async assertDateOpen(
+    entityId: string,
+    date: Date,
+    canOverrideSoftClose: boolean = false
+  ): Promise<void> {
+    const context = await this.getLockContext(entityId, canOverrideSoftClose);
+    const result = checkPeriodLock(context, date);
+    if (!result.allowed) {
+      throw new ConflictError(
+        result.message ?? "Transaction date falls within a closed fiscal period.",
+        result.code ?? "PERIOD_CLOSED"
+      );
+    }
+  }
+}
+
+export function createFiscalPeriodService(d1: D1Database): FiscalPeriodService {
+  return new FiscalPeriodService(d1);
+}
@@ -0,0 +1,242 @@
+// src/lib/services/fx-revaluation-service.ts
+import type { D1Database } from "@cloudflare/workers-types";
+import { createDbClient, type Database } from "@db/db";
+import {
+  AppError,
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+} from "../../utils/errors";
+import { Transaction, type TransactionLine } from "../accounting/core/transaction";
+import type { PeriodLockContext } from "../accounting/core/fiscal-period";
+import {
+  computeRevaluation,
+  fromCents,
+  isMonetaryAccount,
+  FX_GAIN_LOSS_ACCOUNT_CODE,
+  type ForeignCurrencyBalance,
+  type RevaluationAdjustment,
+} from "../accounting/core/fx";
+import { getAccountsByType } from "../accounting/core/accounting-api";
+import {
+  createTransactionService,
+  type AppTransaction,
+  type TransactionService,
+} from "./transaction-service";
+import {
+  createExchangeRateService,
+  type ExchangeRateService,
+} from "./exchange-rate-service";
+
+export interface FxRevaluationInput {
+  entityId: string;
+  /** Period end (YYYY-MM-DD); balances are restated at the rate on this day */
+  revaluationDate: string;
+  /** Entity account for the unrealized gain or loss; defaults to Foreign Exchange Gain (Loss) */
+  gainLossAccountId?: string;
+  /** Closed-period rules to apply to the revaluation entry */
+  periodLock?: PeriodLockContext;
+}
+
+export interface FxRevaluationResult {
+  revaluationDate: string;
+  functionalCurrency: string;
+  adjustments: RevaluationAdjustment[];
+  /** Cents; positive is a gain */
+  netGain: number;
+  /** The posted entry; null for a preview or when nothing changed */
+  transaction: AppTransaction | null;
+}
+
+interface DbForeignBalance {
+  entity_account_id: string;
+  currency_code: string;
+  foreign_balance: number;
+  booked_balance: number;
+}
+
+export class FxRevaluationService {
+  private db: Database;
+  private d1: D1Database;
+  private transactions: TransactionService;
+  private fx: ExchangeRateService;
+
+  constructor(d1: D1Database) {
+    this.d1 = d1;
+    this.db = createDbClient(d1);
+    this.transactions = createTransactionService(d1);
+    this.fx = createExchangeRateService(d1);
+  }
+
+  private toUnixDay(dateStr: string): number {
+    const ms = Date.parse(`${dateStr}T00:00:00.000Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr) || Number.isNaN(ms)) {
+      throw new ValidationError(`Invalid date "${dateStr}". Expected YYYY-MM-DD.`);
+    }
+    return Math.floor(ms / 1000);
+  }
+
+  private reference(revaluationDate: string): string {
+    return `FX-REVAL-${revaluationDate}`;
+  }
+
+  /**
+   * Work out the revaluation without writing anything.
+   */
+  async previewRevaluation(input: FxRevaluationInput): Promise<FxRevaluationResult> {
+    const { functionalCurrency, adjustments } = await this.computeAdjustments(input);
+    return {
+      revaluationDate: input.revaluationDate,
+      functionalCurrency,
+      adjustments,
+      netGain: adjustments.reduce((sum, a) => sum + a.adjustment, 0),
+      transaction: null,
+    };
+  }
+
+  /**
+   * Restate every monetary account's foreign-currency balance at the closing
+   * rate with one posted entry dated on the revaluation date. Adjustment
+   * lines keep the account's currency with a zero foreign amount, so the
+   * next revaluation starts from the restated balance and the entry never
+   * needs reversing.
+   */
+  async revalue(input: FxRevaluationInput, userId: string): Promise<FxRevaluationResult> {
+    const reference = this.reference(input.revaluationDate);
+    // Each revaluation restates the balances left by the one before it, so
+    // one dated on or before the latest would count its adjustments twice
+    const latest = await this.db.queryOne<{ date: number }>(
+      `SELECT t.date FROM transactions t
+       WHERE t.entity_id = ?1 AND t.reference LIKE 'FX-REVAL-%' AND t.status = 'posted'
+         AND NOT EXISTS (SELECT 1 FROM transactions r WHERE r.reversal_of_transaction_id = t.id)
+       ORDER BY t.date DESC
+       LIMIT 1`,
+      [input.entityId]
+    );
+    if (latest && latest.date >= this.toUnixDay(input.revaluationDate)) {
+      const latestDate = new Date(latest.date * 1000).toISOString().slice(0, 10);
+      throw new ConflictError(
+        `Foreign currency balances were already revalued at ${latestDate}. Revalue at a later date, or reverse that revaluation first.`,
+        "FX_REVALUATION_EXISTS"
+      );
+    }
+
+    const preview = await this.previewRevaluation(input);
+    if (preview.adjustments.length === 0) {
+      return preview;
+    }
+
+    const accounts = await getAccountsByType({ entityId: input.entityId, types: [], db: this.d1 });
+    const gainLoss = input.gainLossAccountId
+      ? accounts.find((a) => a.entityAccountId === input.gainLossAccountId)
+      : accounts.find((a) => a.code === FX_GAIN_LOSS_ACCOUNT_CODE);
+    if (!gainLoss || (gainLoss.systemType !== "income" && gainLoss.systemType !== "expense")) {
+      throw new NotFoundError(
+        "Foreign exchange gain/loss income or expense account not found for this entity.",
+        "FX_GAIN_LOSS_ACCOUNT_NOT_FOUND"
+      );
+    }
+
+    const lines: TransactionLine[] = preview.adjustments.map((adjustment) => ({
+      id: crypto.randomUUID(),
+      accountId: adjustment.entityAccountId,
+      amount: fromCents(Math.abs(adjustment.adjustment)),
+      isDebit: adjustment.adjustment > 0,
+      description: `Revalue ${adjustment.currencyCode} balance at ${adjustment.closingRate}`,
+      metadata: {
+        currencyCode: adjustment.currencyCode,
+        foreignAmount: fromCents(0),
+        exchangeRate: adjustment.closingRate,
+      },
+    }));
+    if (preview.netGain !== 0) {
+      lines.push({
+        id: crypto.randomUUID(),
+        accountId: gainLoss.entityAccountId,
+        amount: fromCents(Math.abs(preview.netGain)),
+        isDebit: preview.netGain < 0,
+        description: `Unrealized foreign exchange ${preview.netGain > 0 ? "gain" : "loss"}`,
+      });
+    }
+
+    const transaction = new Transaction({
+      id: crypto.randomUUID(),
+      date: new Date(`${input.revaluationDate}T00:00:00.000Z`),
+      description: `Unrealized foreign exchange revaluation at ${input.revaluationDate}`,
+      entityId: input.entityId,
+      reference,
+      status: "draft",
+      lines,
+    });
+    if (!transaction.post(input.periodLock)) {
+      throw new AppError(
+        `Revaluation entry at ${input.revaluationDate} could not be posted.`,
+        500,
+        true,
+        "FxRevaluationError",
+        "FX_REVALUATION_INVALID"
+      );
+    }
+
+    await this.transactions.writeTransactions(
+      [{ transaction, journalId: null, eventType: "create" }],
+      userId,
+      "Failed to save foreign exchange revaluation."
+    );
+
+    return {
+      ...preview,
+      transaction: await this.transactions.getTransactionById(transaction.id, userId),
+    };
+  }
+
+  private async computeAdjustments(
+    input: FxRevaluationInput
+  ): Promise<{ functionalCurrency: string; adjustments: RevaluationAdjustment[] }> {
+    const functionalCurrency = await this.fx.getFunctionalCurrency(input.entityId);
+    const accounts = await getAccountsByType({ entityId: input.entityId, types: [], db: this.d1 });
+    const monetary = new Set(
+      accounts.filter((a) => isMonetaryAccount(a)).map((a) => a.entityAccountId)
+    );
+
+    let rows: DbForeignBalance[];
+    try {
+      rows = await this.db.query<DbForeignBalance>(
+        `SELECT tl.entity_account_id, tl.currency_code,
+                SUM(CASE WHEN tl.is_debit = 1 THEN COALESCE(tl.foreign_amount, 0) ELSE -COALESCE(tl.foreign_amount, 0) END) AS foreign_balance,
+                SUM(CASE WHEN tl.is_debit = 1 THEN tl.amount ELSE -tl.amount END) AS booked_balance
+         FROM transaction_lines tl
+         JOIN transactions t ON t.id = tl.transaction_id
+         WHERE t.entity_id = ?1 AND t.status = 'posted' AND t.date <= ?2 AND tl.currency_code != ?3
+         GROUP BY tl.entity_account_id, tl.currency_code`,
+        [input.entityId, this.toUnixDay(input.revaluationDate), functionalCurrency]
+      );
+    } catch (error: unknown) {
+      console.error("FxRevaluationService.computeAdjustments error:", error);
+      throw new AppError("Failed to retrieve foreign currency balances.", 500, true, "DatabaseError", "DATABASE_ERROR");
+    }
+
+    const balances: ForeignCurrencyBalance[] = rows
+      .filter((row) => monetary.has(row.entity_account_id))
+      .map((row) => ({
+        entityAccountId: row.entity_account_id,
+        currencyCode: row.currency_code,
+        foreignBalance: row.foreign_balance,
+        bookedBalance: row.booked_balance,
+      }));
+
+    const closingRates = new Map<string, string>();
+    for (const { currencyCode } of balances) {
+      if (!closingRates.has(currencyCode)) {
+        const rate = await this.fx.getRate(currencyCode, functionalCurrency, input.revaluationDate);
+        closingRates.set(currencyCode, rate.rate);
+      }
+    }
+
+    return { functionalCurrency, adjustments: computeRevaluation(balances, closingRates) };
+  }
+}
+
+export function createFxRevaluationService(d1: D1Database): FxRevaluationService {
+  return new FxRevaluationService(d1);
+}
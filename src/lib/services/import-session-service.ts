@@ -0,0 +1,1086 @@
+// src/lib/services/import-session-service.ts
+import type {
+  D1Database,
+  D1PreparedStatement,
+  R2Bucket,
+} from "@cloudflare/workers-types";
+import { createDbClient, type Database } from "@db/db";
+import {
+  AppError,
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+} from "../../utils/errors";
+import { R2Client } from "../cloudflare/r2";
+import { Transaction } from "../accounting/core/transaction";
+import type {
+  AppliedValidationRule,
+  ImportColumnMappingConfig,
+  ImportedRowData,
+  ImportErrorReportSummary,
+  ImportFileType,
+  ImportProcessingOptions,
+  ImportProcessingStage,
+  ImportSession,
+  ImportSessionHistoryLog,
+  ImportStatus,
+  ImportTargetEntityType,
+} from "../../types/import";
+import type { BankStatement } from "../../types/reconciliation";
+import { decodeText } from "../import/encoding";
+import { parseCsvImport, readCsv, type NumberFormat } from "../import/parser.csv";
+import { parseOfxFile } from "../import/parser.ofx";
+import { parseQifFile } from "../import/parser.qif";
+import { parsePdfStatement } from "../import/parser.pdf";
+import {
+  buildImportEntry,
+  stageQifRows,
+  stageStatementRows,
+  summarizeImportErrors,
+  tallyImportRows,
+  validateImportRow,
+  type ImportRowCheckContext,
+} from "../import/import-rows";
+import {
+  createTransactionService,
+  type LedgerWrite,
+  type TransactionService,
+} from "./transaction-service";
+import type {
+  AppliedValidationRuleInput,
+  ImportColumnMappingInput,
+  ImportProcessingOptionsInput,
+  ImportRowUpdateInput,
+} from "../validation/schemas/import";
+
+/** File types an import session can read */
+export type SupportedImportFileType = Extract<ImportFileType, "csv" | "ofx" | "qfx" | "qif" | "pdf_statement">;
+
+export interface DbImportSession {
+  id: string;
+  user_id: string;
+  entity_id: string;
+  name: string | null;
+  file_type: ImportFileType;
+  original_file_name: string;
+  file_size_bytes: number;
+  storage_key: string;
+  target_entity_type: ImportTargetEntityType;
+  bank_account_id: string | null;
+  counter_account_id: string | null;
+  status: ImportStatus;
+  current_processing_stage: ImportProcessingStage;
+  total_rows_detected: number | null;
+  processed_rows_count: number | null;
+  successfully_imported_rows_count: number | null;
+  failed_rows_count: number | null;
+  skipped_rows_count: number | null;
+  column_mapping_config: string | null; // JSON
+  applied_validation_rules: string | null; // JSON
+  import_processing_options: string | null; // JSON
+  error_summary_report: string | null; // JSON
+  metadata: string | null; // JSON
+  template_id: string | null;
+  is_rollback_possible: number; // 0 or 1
+  rollback_deadline: number | null;
+  created_at: number;
+  started_at: number | null;
+  completed_at: number | null;
+  updated_at: number;
+}
+
+export interface DbImportSessionRow {
+  id: string;
+  session_id: string;
+  source_row_number: number;
+  raw_row_data: string; // JSON
+  mapped_data: string | null; // JSON
+  validation_results: string | null; // JSON
+  determined_import_action: ImportedRowData["determined_import_action"] | null;
+  processing_status: ImportedRowData["processing_status"];
+  error_messages: string | null; // JSON
+  warning_messages: string | null; // JSON
+  imported_record_id: string | null;
+}
+
+interface DbImportHistory {
+  import_session_id: string;
+  entity_id: string;
+  imported_items_count: number;
+  target_entity_type: ImportTargetEntityType;
+  imported_by_user_id: string;
+  imported_at: number;
+  can_be_undone: number;
+  undo_possible_until: number | null;
+  source_file_name: string | null;
+  rolled_back_at: number | null;
+}
+
+export interface CreateImportSessionInput {
+  entityId: string;
+  userId: string;
+  name?: string | null;
+  fileType: SupportedImportFileType;
+  fileName: string;
+  file: ArrayBuffer;
+  /** Entity account (bank or card) the transactions are booked against */
+  bankAccountId: string;
+  /** Entity account for rows that name no account of their own */
+  counterAccountId?: string | null;
+  processingOptions?: ImportProcessingOptionsInput | null;
+  /** OFX account number (or its last digits) or QIF account name, for files with several accounts */
+  sourceAccount?: string | null;
+  /** QIF: chart of accounts code by category name */
+  categoryAccountCodes?: Record<string, string> | null;
+  /** QIF: chart of accounts code by the name of an account transferred to */
+  transferAccountCodes?: Record<string, string> | null;
+}
+
+/** A correction made while reviewing a staged row */
+export interface ImportRowFilters {
+  processingStatus?: ImportedRowData["processing_status"];
+  page?: number;
+  limit?: number;
+}
+
+/** How long after a commit an import can still be rolled back */
+export const IMPORT_ROLLBACK_WINDOW_SECONDS = 30 * 86400;
+
+const CSV_SAMPLE_ROWS = 5;
+/** Rows booked per batch, keeping each batch well under D1's statement limits */
+const COMMIT_CHUNK_ROWS = 50;
+const OPEN_STATUSES: ImportStatus[] = [
+  "uploaded_pending_parse",
+  "parsed_pending_mapping",
+  "validation_complete_needs_review",
+  "ready_for_import",
+];
+const COMPLETED_STATUSES: ImportStatus[] = [
+  "import_completed_successfully",
+  "import_completed_with_warnings",
+];
+
+function parseJson<T>(value: string | null): T | null {
+  return value === null ? null : (JSON.parse(value) as T);
+}
+
+function mapDbSession(row: DbImportSession): ImportSession {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    entity_id: row.entity_id,
+    name: row.name,
+    file_type: row.file_type,
+    original_file_name: row.original_file_name,
+    file_size_bytes: row.file_size_bytes,
+    processing_file_url: null,
+    target_entity_type: row.target_entity_type,
+    bank_account_id: row.bank_account_id,
+    counter_account_id: row.counter_account_id,
+    status: row.status,
+    current_processing_stage: row.current_processing_stage,
+    total_rows_detected: row.total_rows_detected,
+    processed_rows_count: row.processed_rows_count,
+    successfully_imported_rows_count: row.successfully_imported_rows_count,
+    failed_rows_count: row.failed_rows_count,
+    skipped_rows_count: row.skipped_rows_count,
+    column_mapping_config: parseJson<ImportColumnMappingConfig>(row.column_mapping_config),
+    applied_validation_rules: parseJson<AppliedValidationRule[]>(row.applied_validation_rules),
+    import_processing_options: parseJson<ImportProcessingOptions>(row.import_processing_options),
+    error_summary_report: parseJson<ImportErrorReportSummary>(row.error_summary_report),
+    created_at: row.created_at,
+    started_at: row.started_at,
+    completed_at: row.completed_at,
+    metadata: parseJson<Record<string, any>>(row.metadata),
+    template_id: row.template_id,
+    is_rollback_possible: Boolean(row.is_rollback_possible),
+    rollback_deadline: row.rollback_deadline,
+  };
+}
+
+function mapDbRow(row: DbImportSessionRow): ImportedRowData {
+  return {
+    source_row_number: row.source_row_number,
+    raw_row_data: JSON.parse(row.raw_row_data) as Record<string, any>,
+    mapped_data: parseJson<Record<string, unknown>>(row.mapped_data),
+    validation_results: parseJson(row.validation_results),
+    ...(row.determined_import_action ? { determined_import_action: row.determined_import_action } : {}),
+    processing_status: row.processing_status,
+    error_messages: parseJson<string[]>(row.error_messages),
+    warning_messages: parseJson<string[]>(row.warning_messages),
+    imported_record_id: row.imported_record_id,
+  };
+}
+
+function mapDbHistory(row: DbImportHistory): ImportSessionHistoryLog {
+  return {
+    import_session_id: row.import_session_id,
+    imported_items_count: row.imported_items_count,
+    target_entity_type: row.target_entity_type,
+    imported_by_user_id: row.imported_by_user_id,
+    imported_at: row.imported_at,
+    can_be_undone: Boolean(row.can_be_undone),
+    undo_possible_until: row.undo_possible_until,
+    ...(row.source_file_name !== null ? { source_file_name: row.source_file_name } : {}),
+    rolled_back_at: row.rolled_back_at,
+  };
+}
+
+/**
+ * Bank-file import sessions. The uploaded file is kept in R2
+ * (DOCUMENTS_BUCKET) and the session and its staged rows in D1, so an
+ * import can be left at any stage and resumed:
+ *
+ *   file_upload → column_mapping (CSV only) → user_review_fix
+ *     → final_import → post_import_actions
+ *
+ * Committing books every row set to be imported as a draft transaction,
+ * in batches that each record on the rows the transactions they created.
+ * Until the rollback deadline, and as long as all of them are still drafts,
+ * the import can be undone, which deletes exactly those transactions.
+ */
+export class ImportSessionService {
+  private db: Database;
+  private storage: R2Client;
+  private transactions: TransactionService;
+  private readonly TABLE_NAME = "import_sessions";
+  private readonly ROWS_TABLE_NAME = "import_session_rows";
+  private readonly HISTORY_TABLE_NAME = "import_history";
+
+  constructor(d1: D1Database, bucket: R2Bucket) {
+    this.db = createDbClient(d1);
+    this.storage = new R2Client(bucket);
+    this.transactions = createTransactionService(d1);
+  }
+
+  private databaseError(method: string, message: string, error: unknown): AppError {
+    if (error instanceof AppError) return error;
+    console.error(`ImportSessionService.${method} error:`, error);
+    return new AppError(message, 500, true, "DatabaseError", "DATABASE_ERROR");
+  }
+
+  private storageError(method: string, message: string, error: unknown): AppError {
+    console.error(`ImportSessionService.${method} error:`, error);
+    return new AppError(message, 500, true, "StorageError", "STORAGE_ERROR");
+  }
+
+  private storageKey(entityId: string, sessionId: string, fileName: string): string {
+    return `imports/${entityId}/${sessionId}/${fileName.replace(/[^\w.-]+/g, "_")}`;
+  }
+
+  private now(): number {
+    return Math.floor(Date.now() / 1000);
+  }
+
+  /**
+   * Store an uploaded file and read it. A CSV file is read as far as its
+   * columns and waits for a column mapping; statements and QIF files are
+   * staged for review straight away. A file that cannot be read leaves the
+   * session failed and throws.
+   */
+  async createSession(input: CreateImportSessionInput): Promise<ImportSession> {
+    const id = crypto.randomUUID();
+    const storageKey = this.storageKey(input.entityId, id, input.fileName);
+
+    let sizeBytes: number;
+    try {
+      const object = await this.storage.upload(storageKey, input.file, {
+        contentType: "application/octet-stream",
+        customMetadata: { entityId: input.entityId, importSessionId: id },
+      });
+      sizeBytes = object.size;
+    } catch (error: unknown) {
+      throw this.storageError("createSession", "Failed to store the uploaded file.", error);
+    }
+
+    const now = this.now();
+    try {
+      await this.db.execute(
+        `INSERT INTO ${this.TABLE_NAME} (id, user_id, entity_id, name, file_type, original_file_name, file_size_bytes,
+           storage_key, target_entity_type, bank_account_id, counter_account_id, status, current_processing_stage,
+           import_processing_options, metadata, created_at, started_at, updated_at)
+         VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, 'transactions', ?9, ?10, 'uploaded_pending_parse', 'file_upload',
+           ?11, ?12, ?13, ?13, ?13)`,
+        [
+          id,
+          input.userId,
+          input.entityId,
+          input.name ?? null,
+          input.fileType,
+          input.fileName,
+          sizeBytes,
+          storageKey,
+          input.bankAccountId,
+          input.counterAccountId ?? null,
+          JSON.stringify(input.processingOptions ?? { duplicate_handling_strategy: "skip_duplicates" }),
+          JSON.stringify({
+            ...(input.sourceAccount ? { source_account: input.sourceAccount } : {}),
+            ...(input.categoryAccountCodes ? { category_account_codes: input.categoryAccountCodes } : {}),
+            ...(input.transferAccountCodes ? { transfer_account_codes: input.transferAccountCodes } : {}),
+          }),
+          now,
+        ]
+      );
+    } catch (error: unknown) {
+      throw this.databaseError("createSession", "Failed to create import session.", error);
+    }
+
+    const session = await this.getRequiredSession(id);
+    try {
+      await this.analyzeFile(session, new Uint8Array(input.file));
+    } catch (error: unknown) {
+      if (error instanceof ValidationError) {
+        await this.fail(session, error.message);
+      }
+      throw error;
+    }
+    return this.getRequiredSession(id);
+  }
+
+  async getSession(id: string): Promise<ImportSession | null> {
+    try {
+      const row = await this.db.queryOne<DbImportSession>(
+        `SELECT * FROM ${this.TABLE_NAME} WHERE id = ?1`,
+        [id]
+      );
+      return row ? mapDbSession(row) : null;
+    } catch (error: unknown) {
+      throw this.databaseError("getSession", "Failed to retrieve import session.", error);
+    }
+  }
+
+  /**
+   * An entity's import sessions, newest first.
+   */
+  async getSessions(entityId: string): Promise<ImportSession[]> {
+    try {
+      const rows = await this.db.query<DbImportSession>(
+        `SELECT * FROM ${this.TABLE_NAME} WHERE entity_id = ?1 ORDER BY created_at DESC`,
+        [entityId]
+      );
+      return rows.map(mapDbSession);
+    } catch (error: unknown) {
+      throw this.databaseError("getSessions", "Failed to retrieve import sessions.", error);
+    }
+  }
+
+  async getRows(
+    sessionId: string,
+    filters: ImportRowFilters = {}
+  ): Promise<{ rows: ImportedRowData[]; total: number; totalPages: number }> {
+    const page = filters.page ?? 1;
+    const limit = filters.limit ?? 100;
+    const where = filters.processingStatus
+      ? "WHERE session_id = ?1 AND processing_status = ?2"
+      : "WHERE session_id = ?1";
+    const params = filters.processingStatus ? [sessionId, filters.processingStatus] : [sessionId];
+    try {
+      const count = await this.db.queryOne<{ total: number }>(
+        `SELECT COUNT(*) AS total FROM ${this.ROWS_TABLE_NAME} ${where}`,
+        params
+      );
+      const rows = await this.db.query<DbImportSessionRow>(
+        `SELECT * FROM ${this.ROWS_TABLE_NAME} ${where}
+         ORDER BY source_row_number LIMIT ${limit} OFFSET ${(page - 1) * limit}`,
+        params
+      );
+      const total = count?.total ?? 0;
+      return { rows: rows.map(mapDbRow), total, totalPages: Math.ceil(total / limit) };
+    } catch (error: unknown) {
+      throw this.databaseError("getRows", "Failed to retrieve import rows.", error);
+    }
+  }
+
+  /**
+   * Committed imports of an entity, newest first, including those rolled back.
+   */
+  async getHistory(entityId: string): Promise<ImportSessionHistoryLog[]> {
+    try {
+      const rows = await this.db.query<DbImportHistory>(
+        `SELECT * FROM ${this.HISTORY_TABLE_NAME} WHERE entity_id = ?1 ORDER BY imported_at DESC`,
+        [entityId]
+      );
+      return rows.map(mapDbHistory);
+    } catch (error: unknown) {
+      throw this.databaseError("getHistory", "Failed to retrieve import history.", error);
+    }
+  }
+
+  /**
+   * Read a CSV session's file with a column mapping and stage its rows for
+   * review. The mapping can be changed and applied again until the import
+   * is committed, or a commit has booked some of its rows.
+   */
+  async applyColumnMapping(
+    sessionId: string,
+    mapping: ImportColumnMappingInput,
+    validationRules: AppliedValidationRuleInput[] = []
+  ): Promise<ImportSession> {
+    const session = await this.getRequiredSession(sessionId);
+    if (session.file_type !== "csv") {
+      throw new ValidationError("Only CSV imports are mapped by column.");
+    }
+    this.assertOpen(session);
+    this.assertNothingBooked(session);
+
+    // Read the mapping and rules back as they are saved, without the keys
+    // left undefined
+    const storedMapping = JSON.stringify(mapping);
+    const storedRules = JSON.stringify(validationRules);
+    const file = await this.getFile(session);
+    const { rows } = parseCsvImport(file, {
+      mapping: JSON.parse(storedMapping) as ImportColumnMappingConfig,
+      processingOptions: session.import_processing_options,
+      validationRules: JSON.parse(storedRules) as AppliedValidationRule[],
+    });
+    const d1 = this.db.d1Instance;
+    await this.stageRows(session, rows, [
+      d1
+        .prepare(
+          `UPDATE ${this.TABLE_NAME} SET column_mapping_config = ?2, applied_validation_rules = ?3 WHERE id = ?1`
+        )
+        .bind(session.id, storedMapping, storedRules),
+    ]);
+    return this.getRequiredSession(sessionId);
+  }
+
+  /**
+   * Apply corrections made in review and check the corrected rows again.
+   * Edited fields replace the file's values, together with any check of
+   * them that failed.
+   */
+  async updateRows(sessionId: string, updates: ImportRowUpdateInput[]): Promise<ImportSession> {
+    const session = await this.getRequiredSession(sessionId);
+    this.assertOpen(session);
+    if (session.current_processing_stage !== "user_review_fix") {
+      throw new ValidationError("The import has no rows to review yet.");
+    }
+
+    const rows = await this.getAllRows(session.id);
+    const byNumber = new Map(rows.map((row) => [row.source_row_number, row]));
+    const context = await this.checkContext(session);
+    const changed: ImportedRowData[] = [];
+    for (const update of updates) {
+      const row = byNumber.get(update.sourceRowNumber);
+      if (!row) {
+        throw new NotFoundError(`The import has no row ${update.sourceRowNumber}.`, "IMPORT_ROW_NOT_FOUND");
+      }
+
+      const edited = Object.keys(update.mappedData ?? {});
+      const isEdited = (path: string) =>
+        edited.some((field) => path === field || path.startsWith(`${field}.`));
+      const { determined_import_action: action, ...rest } = row;
+      const next: ImportedRowData = {
+        ...rest,
+        mapped_data: { ...(row.mapped_data ?? {}), ...(update.mappedData ?? {}) },
+        validation_results: (row.validation_results ?? []).filter(
+          (outcome) => !isEdited(outcome.target_field_path)
+        ),
+        ...(update.action ? { determined_import_action: update.action } : action === "skip_row" ? { determined_import_action: action } : {}),
+      };
+      // Importing a row on purpose overrides the duplicate check
+      const validated = validateImportRow(
+        next,
+        update.action === "create_new" ? { ...context, duplicateStrategy: "create_new_with_suffix" } : context
+      );
+      byNumber.set(update.sourceRowNumber, validated);
+      changed.push(validated);
+    }
+
+    const d1 = this.db.d1Instance;
+    await this.runBatch(
+      [
+        ...changed.map((row) =>
+          d1
+            .prepare(
+              `UPDATE ${this.ROWS_TABLE_NAME}
+               SET mapped_data = ?3, validation_results = ?4, determined_import_action = ?5,
+                   processing_status = ?6, error_messages = ?7, warning_messages = ?8
+               WHERE session_id = ?1 AND source_row_number = ?2`
+            )
+            .bind(
+              session.id,
+              row.source_row_number,
+              JSON.stringify(row.mapped_data ?? null),
+              JSON.stringify(row.validation_results ?? []),
+              row.determined_import_action ?? null,
+              row.processing_status,
+              JSON.stringify(row.error_messages ?? []),
+              JSON.stringify(row.warning_messages ?? [])
+            )
+        ),
+        this.reviewStatement(session.id, [...byNumber.values()]),
+      ],
+      "updateRows",
+      "Failed to save the corrected rows."
+    );
+    return this.getRequiredSession(sessionId);
+  }
+
+  /**
+   * Book the rows set to be imported as draft transactions against the
+   * session's bank account, in batches of COMMIT_CHUNK_ROWS rows. Each batch
+   * marks its rows with the transactions it created and adds them to the
+   * session's imported count; the last one completes the session and records
+   * its history. A failed commit leaves the session ready to try again, and
+   * the next commit books only the rows not yet imported.
+   */
+  async commit(sessionId: string, userId: string): Promise<ImportSession> {
+    const session = await this.getRequiredSession(sessionId);
+    if (session.status !== "ready_for_import") {
+      if (session.status === "validation_complete_needs_review") {
+        throw new ValidationError(
+          `${session.failed_rows_count ?? 0} row(s) still have errors. Correct or skip them before importing.`
+        );
+      }
+      throw new ConflictError(`The import cannot be committed while it is "${session.status}".`, "IMPORT_SESSION_NOT_READY");
+    }
+    if (!session.bank_account_id) {
+      throw new ValidationError("The import has no bank account to book its transactions against.");
+    }
+
+    const rows = (await this.getAllRows(session.id)).filter(
+      (row) => row.determined_import_action === "create_new" && row.processing_status !== "validated_with_errors"
+    );
+    const pending = rows.filter((row) => !row.imported_record_id);
+    if (pending.length === 0) {
+      throw new ValidationError("There are no rows to import.");
+    }
+
+    const accounts = {
+      bankAccountId: session.bank_account_id,
+      counterAccountId: session.counter_account_id ?? null,
+      accountIdsByCode: await this.getAccountIdsByCode(session.entity_id),
+    };
+    // Rows carry no currency of their own; amounts in another currency are
+    // converted at the rate for each transaction date
+    const currencyCode = session.import_processing_options?.default_currency_code ?? null;
+    const writes: LedgerWrite[] = [];
+    for (const row of pending) {
+      const entry = buildImportEntry(row, session.entity_id, accounts);
+      const lines = currencyCode
+        ? await this.transactions.convertLines(
+            session.entity_id,
+            entry.date,
+            entry.lines.map((line) => ({
+              id: line.id,
+              accountId: line.accountId,
+              amount: String(line.amount),
+              isDebit: line.isDebit,
+              memo: line.description ?? null,
+              currencyCode,
+              className: line.dimensions?.className ?? null,
+            }))
+          )
+        : entry.lines;
+      const transaction = new Transaction({ ...entry, lines });
+      if (!transaction.isBalanced()) {
+        throw new ValidationError(`Row ${row.source_row_number} does not balance.`);
+      }
+      writes.push({ transaction, journalId: null, eventType: "create" });
+    }
+
+    // Claim the session so a second commit cannot book the rows again
+    await this.transition(session.id, "ready_for_import", "importing_data", "final_import");
+
+    const now = this.now();
+    const deadline = now + IMPORT_ROLLBACK_WINDOW_SECONDS;
+    const status: ImportStatus = rows.some((row) => row.warning_messages?.length)
+      ? "import_completed_with_warnings"
+      : "import_completed_successfully";
+    const d1 = this.db.d1Instance;
+    try {
+      for (let i = 0; i < pending.length; i += COMMIT_CHUNK_ROWS) {
+        const chunk = pending.slice(i, i + COMMIT_CHUNK_ROWS);
+        const chunkWrites = writes.slice(i, i + COMMIT_CHUNK_ROWS);
+        const isLast = i + COMMIT_CHUNK_ROWS >= pending.length;
+        await this.transactions.writeTransactions(chunkWrites, userId, "Failed to import the transactions.", [
+          ...chunk.map((row, index) =>
+            d1
+              .prepare(
+                `UPDATE ${this.ROWS_TABLE_NAME} SET processing_status = 'imported_successfully', imported_record_id = ?3
+                 WHERE session_id = ?1 AND source_row_number = ?2`
+              )
+              .bind(session.id, row.source_row_number, chunkWrites[index]!.transaction.id)
+          ),
+          isLast
+            ? d1
+                .prepare(
+                  `UPDATE ${this.TABLE_NAME}
+                   SET status = ?2, current_processing_stage = 'post_import_actions', processed_rows_count = total_rows_detected,
+                       successfully_imported_rows_count = ?3, is_rollback_possible = 1, rollback_deadline = ?4,
+                       completed_at = ?5, updated_at = ?5
+                   WHERE id = ?1`
+                )
+                .bind(session.id, status, rows.length, deadline, now)
+            : d1
+                .prepare(
+                  `UPDATE ${this.TABLE_NAME}
+                   SET successfully_imported_rows_count = COALESCE(successfully_imported_rows_count, 0) + ?2, updated_at = ?3
+                   WHERE id = ?1`
+                )
+                .bind(session.id, chunk.length, now),
+          ...(isLast
+            ? [
+                d1
+                  .prepare(
+                    `INSERT INTO ${this.HISTORY_TABLE_NAME} (import_session_id, entity_id, imported_items_count, target_entity_type,
+                       imported_by_user_id, imported_at, can_be_undone, undo_possible_until, source_file_name)
+                     VALUES (?1, ?2, ?3, ?4, ?5, ?6, 1, ?7, ?8)`
+                  )
+                  .bind(session.id, session.entity_id, rows.length, session.target_entity_type, userId, now, deadline, session.original_file_name),
+              ]
+            : []),
+        ]);
+      }
+    } catch (error: unknown) {
+      await this.transition(session.id, "importing_data", "ready_for_import", "user_review_fix");
+      throw error;
+    }
+    return this.getRequiredSession(sessionId);
+  }
+
+  /**
+   * Undo a committed import: delete the transactions it created, in batches
+   * of COMMIT_CHUNK_ROWS that each reset their rows, and complete the
+   * session and history updates with the last one. Possible until the
+   * rollback deadline while none of the transactions has been posted;
+   * transactions deleted by hand since are passed over.
+   */
+  async rollback(sessionId: string, userId: string): Promise<ImportSession> {
+    const session = await this.getRequiredSession(sessionId);
+    if (!COMPLETED_STATUSES.includes(session.status) || !session.is_rollback_possible) {
+      throw new ConflictError("This import cannot be rolled back.", "IMPORT_ROLLBACK_NOT_POSSIBLE");
+    }
+    const now = this.now();
+    if (session.rollback_deadline !== null && session.rollback_deadline !== undefined && now > session.rollback_deadline) {
+      throw new ConflictError("The time to roll back this import has passed.", "IMPORT_ROLLBACK_EXPIRED");
+    }
+
+    let transactionIds: string[];
+    try {
+      const rows = await this.db.query<{ imported_record_id: string }>(
+        `SELECT imported_record_id FROM ${this.ROWS_TABLE_NAME}
+         WHERE session_id = ?1 AND imported_record_id IS NOT NULL`,
+        [session.id]
+      );
+      transactionIds = rows.map((row) => row.imported_record_id);
+    } catch (error: unknown) {
+      throw this.databaseError("rollback", "Failed to retrieve the imported transactions.", error);
+    }
+
+    const d1 = this.db.d1Instance;
+    try {
+      // Check them all up front so a posted transaction stops the rollback
+      // before any batch has run
+      await this.transactions.assertDraftTransactions(transactionIds);
+      const chunks: string[][] = [];
+      for (let i = 0; i < transactionIds.length; i += COMMIT_CHUNK_ROWS) {
+        chunks.push(transactionIds.slice(i, i + COMMIT_CHUNK_ROWS));
+      }
+      if (chunks.length === 0) {
+        // Every transaction was deleted by hand; the session is still rolled back
+        chunks.push([]);
+      }
+      for (const [index, chunk] of chunks.entries()) {
+        const isLast = index === chunks.length - 1;
+        const placeholders = chunk.map((_, j) => `?${j + 2}`).join(", ");
+        await this.transactions.deleteDraftTransactions(chunk, userId, "Failed to roll back the import.", [
+          ...(chunk.length > 0
+            ? [
+                d1
+                  .prepare(
+                    `UPDATE ${this.ROWS_TABLE_NAME} SET processing_status = 'ready_to_import', imported_record_id = NULL
+                     WHERE session_id = ?1 AND imported_record_id IN (${placeholders})`
+                  )
+                  .bind(session.id, ...chunk),
+              ]
+            : []),
+          isLast
+            ? d1
+                .prepare(
+                  `UPDATE ${this.TABLE_NAME}
+                   SET status = 'rolled_back', successfully_imported_rows_count = 0, is_rollback_possible = 0, updated_at = ?2
+                   WHERE id = ?1`
+                )
+                .bind(session.id, now)
+            : d1
+                .prepare(
+                  `UPDATE ${this.TABLE_NAME}
+                   SET successfully_imported_rows_count = MAX(COALESCE(successfully_imported_rows_count, 0) - ?2, 0),
+                       updated_at = ?3
+                   WHERE id = ?1`
+                )
+                .bind(session.id, chunk.length, now),
+          ...(isLast
+            ? [
+                d1
+                  .prepare(
+                    `UPDATE ${this.HISTORY_TABLE_NAME} SET can_be_undone = 0, rolled_back_at = ?2 WHERE import_session_id = ?1`
+                  )
+                  .bind(session.id, now),
+              ]
+            : []),
+        ]);
+      }
+    } catch (error: unknown) {
+      if (error instanceof ConflictError && error.code === "TRANSACTION_NOT_DRAFT") {
+        throw new ConflictError(
+          `This import cannot be rolled back: ${error.message.charAt(0).toLowerCase()}${error.message.slice(1)}`,
+          "IMPORT_ROLLBACK_NOT_POSSIBLE"
+        );
+      }
+      throw error;
+    }
+    return this.getRequiredSession(sessionId);
+  }
+
+  /**
+   * Abandon an import before it is committed. An import a failed commit
+   * booked some rows of is committed again and rolled back instead, so its
+   * drafts are not left behind.
+   */
+  async cancel(sessionId: string): Promise<ImportSession> {
+    const session = await this.getRequiredSession(sessionId);
+    this.assertOpen(session);
+    this.assertNothingBooked(session);
+    const now = this.now();
+    let changes: number;
+    try {
+      // A commit claiming the session meanwhile changes its status
+      const result = await this.db.execute(
+        `UPDATE ${this.TABLE_NAME} SET status = 'import_cancelled_by_user', completed_at = ?2, updated_at = ?2
+         WHERE id = ?1 AND status = ?3`,
+        [session.id, now, session.status]
+      );
+      changes = result.meta?.changes ?? 0;
+    } catch (error: unknown) {
+      throw this.databaseError("cancel", "Failed to cancel the import.", error);
+    }
+    if (changes === 0) {
+      throw new ConflictError("The import was changed by someone else. Reload it and try again.", "IMPORT_SESSION_CHANGED");
+    }
+    return this.getRequiredSession(sessionId);
+  }
+
+  private async getRequiredSession(id: string): Promise<ImportSession> {
+    const session = await this.getSession(id);
+    if (!session) {
+      throw new NotFoundError("Import session not found.", "IMPORT_SESSION_NOT_FOUND");
+    }
+    return session;
+  }
+
+  private assertOpen(session: ImportSession): void {
+    if (!OPEN_STATUSES.includes(session.status)) {
+      throw new ConflictError(`The import can no longer be changed: it is "${session.status}".`, "IMPORT_SESSION_CLOSED");
+    }
+  }
+
+  /** Rows a failed commit booked keep their drafts only while they stay staged */
+  private assertNothingBooked(session: ImportSession): void {
+    if ((session.successfully_imported_rows_count ?? 0) > 0) {
+      throw new ConflictError(
+        `${session.successfully_imported_rows_count} row(s) of this import are already booked. Commit it again to import the rest, then roll it back if needed.`,
+        "IMPORT_PARTIALLY_COMMITTED"
+      );
+    }
+  }
+
+  private async getFile(session: ImportSession): Promise<Uint8Array> {
+    const row = await this.db.queryOne<{ storage_key: string }>(
+      `SELECT storage_key FROM ${this.TABLE_NAME} WHERE id = ?1`,
+      [session.id]
+    );
+    let object: Awaited<ReturnType<R2Client["download"]>>;
+    try {
+      object = row ? await this.storage.download(row.storage_key) : null;
+    } catch (error: unknown) {
+      throw this.storageError("getFile", "Failed to read the uploaded file.", error);
+    }
+    if (!object) {
+      throw new NotFoundError("The uploaded file is no longer available.", "IMPORT_FILE_NOT_FOUND");
+    }
+    return new Uint8Array(await object.arrayBuffer());
+  }
+
+  private async getAllRows(sessionId: string): Promise<ImportedRowData[]> {
+    try {
+      const rows = await this.db.query<DbImportSessionRow>(
+        `SELECT * FROM ${this.ROWS_TABLE_NAME} WHERE session_id = ?1 ORDER BY source_row_number`,
+        [sessionId]
+      );
+      return rows.map(mapDbRow);
+    } catch (error: unknown) {
+      throw this.databaseError("getAllRows", "Failed to retrieve import rows.", error);
+    }
+  }
+
+  /** The entity's active accounts by chart of accounts code */
+  private async getAccountIdsByCode(entityId: string): Promise<Map<string, string>> {
+    try {
+      const accounts = await this.db.query<{ id: string; code: string }>(
+        `SELECT ea.id, coa.code FROM entity_accounts ea
+         JOIN chart_of_accounts coa ON coa.id = ea.account_id
+         WHERE ea.entity_id = ?1 AND ea.is_active = 1`,
+        [entityId]
+      );
+      return new Map(accounts.map((a) => [a.code, a.id]));
+    } catch (error: unknown) {
+      throw this.databaseError("getAccountIdsByCode", "Failed to retrieve the entity's accounts.", error);
+    }
+  }
+
+  private async checkContext(session: ImportSession): Promise<ImportRowCheckContext> {
+    let references: Array<{ reference: string }> = [];
+    try {
+      // Bank references of rows other imports into the same account booked
+      references = await this.db.query<{ reference: string }>(
+        `SELECT DISTINCT json_extract(r.mapped_data, '$.bank_reference') AS reference
+         FROM ${this.ROWS_TABLE_NAME} r
+         JOIN ${this.TABLE_NAME} s ON s.id = r.session_id
+         WHERE s.entity_id = ?1 AND s.bank_account_id = ?2 AND s.id != ?3
+           AND r.imported_record_id IS NOT NULL
+           AND json_extract(r.mapped_data, '$.bank_reference') IS NOT NULL`,
+        [session.entity_id, session.bank_account_id ?? null, session.id]
+      );
+    } catch (error: unknown) {
+      throw this.databaseError("checkContext", "Failed to look up earlier imports.", error);
+    }
+    return {
+      accountIdsByCode: await this.getAccountIdsByCode(session.entity_id),
+      counterAccountId: session.counter_account_id ?? null,
+      importedReferences: new Set(references.map((r) => r.reference)),
+      duplicateStrategy: session.import_processing_options?.duplicate_handling_strategy ?? "skip_duplicates",
+    };
+  }
+
+  private numberFormat(session: ImportSession): NumberFormat | undefined {
+    const options = session.import_processing_options;
+    if (!options?.decimal_separator_character) return undefined;
+    return {
+      decimalSeparator: options.decimal_separator_character,
+      thousandsSeparator:
+        options.thousands_separator_character ?? (options.decimal_separator_character === "," ? "." : ","),
+    };
+  }
+
+  /**
+   * Read a newly uploaded file: its columns for a CSV file, its
+   * transactions for the others.
+   */
+  private async analyzeFile(session: ImportSession, bytes: Uint8Array): Promise<void> {
+    const metadata = session.metadata ?? {};
+    const sourceAccount: string | null = metadata.source_account ?? null;
+
+    if (session.file_type === "csv") {
+      const table = readCsv(decodeText(bytes));
+      await this.updateSession(session.id, {
+        status: "parsed_pending_mapping",
+        stage: "column_mapping",
+        totalRows: table.records.length,
+        metadata: {
+          ...metadata,
+          csv_headers: table.headers,
+          csv_delimiter: table.delimiter,
+          csv_sample_rows: table.records.slice(0, CSV_SAMPLE_ROWS).map((record) => record.cells),
+        },
+      });
+      return;
+    }
+
+    if (session.file_type === "qif") {
+      const result = parseQifFile(bytes, {
+        dateOrder: "auto",
+        numberFormat: this.numberFormat(session),
+        categoryAccountCodes: metadata.category_account_codes,
+        transferAccountCodes: metadata.transfer_account_codes,
+      });
+      const sections = result.accounts.filter((section) => section.transactions.length > 0);
+      const section =
+        (sourceAccount && sections.find((s) => s.accountName?.toLowerCase() === sourceAccount.toLowerCase())) ||
+        sections[0];
+      if (!section) {
+        throw new ValidationError("The file contains no transactions.");
+      }
+      await this.stageRows(session, stageQifRows(section), [], {
+        ...metadata,
+        source_accounts: sections.map((s) => s.accountName),
+        source_account: section.accountName,
+        date_order: result.dateOrder,
+        date_order_ambiguous: result.dateOrderAmbiguous,
+        unmapped_categories: result.unmappedCategories,
+        parsing_error_messages: result.errors,
+      });
+      return;
+    }
+
+    const statements: BankStatement[] =
+      session.file_type === "pdf_statement"
+        ? [await parsePdfStatement(bytes, { userId: session.user_id, numberFormat: this.numberFormat(session) })]
+        : parseOfxFile(bytes, { userId: session.user_id });
+    const lastDigits = sourceAccount?.replace(/\D/g, "").slice(-4);
+    const statement =
+      (lastDigits && statements.find((s) => s.account_number_masked?.endsWith(lastDigits))) || statements[0]!;
+    await this.stageRows(session, stageStatementRows(statement), [], {
+      ...metadata,
+      source_accounts: statements.map((s) => s.account_number_masked ?? null),
+      source_account: statement.account_number_masked ?? null,
+      bank_name: statement.bank_name,
+      statement_period_start_date: statement.statement_period_start_date,
+      statement_period_end_date: statement.statement_period_end_date,
+      opening_balance_from_statement: statement.opening_balance_from_statement,
+      closing_balance_from_statement: statement.closing_balance_from_statement,
+      parsing_error_messages: statement.parsing_error_messages ?? [],
+    });
+  }
+
+  /**
+   * Replace the session's staged rows with newly parsed ones, checked
+   * against the entity's accounts and earlier imports, and move the
+   * session to review.
+   */
+  private async stageRows(
+    session: ImportSession,
+    parsedRows: ImportedRowData[],
+    extraStatements: D1PreparedStatement[],
+    metadata?: Record<string, any>
+  ): Promise<void> {
+    const context = await this.checkContext(session);
+    const rows = parsedRows.map((row) => validateImportRow(row, context));
+    const d1 = this.db.d1Instance;
+    await this.runBatch(
+      [
+        d1.prepare(`DELETE FROM ${this.ROWS_TABLE_NAME} WHERE session_id = ?1`).bind(session.id),
+        ...rows.map((row) =>
+          d1
+            .prepare(
+              `INSERT INTO ${this.ROWS_TABLE_NAME} (id, session_id, source_row_number, raw_row_data, mapped_data,
+                 validation_results, determined_import_action, processing_status, error_messages, warning_messages)
+               VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10)`
+            )
+            .bind(
+              crypto.randomUUID(),
+              session.id,
+              row.source_row_number,
+              JSON.stringify(row.raw_row_data),
+              JSON.stringify(row.mapped_data ?? null),
+              JSON.stringify(row.validation_results ?? []),
+              row.determined_import_action ?? null,
+              row.processing_status,
+              JSON.stringify(row.error_messages ?? []),
+              JSON.stringify(row.warning_messages ?? [])
+            )
+        ),
+        ...extraStatements,
+        this.reviewStatement(session.id, rows, metadata),
+      ],
+      "stageRows",
+      "Failed to save the import rows."
+    );
+  }
+
+  /** Counts, error summary and review status of a session from all its rows */
+  private reviewStatement(
+    sessionId: string,
+    rows: ImportedRowData[],
+    metadata?: Record<string, any>
+  ): D1PreparedStatement {
+    const tally = tallyImportRows(rows);
+    const summary = summarizeImportErrors(rows);
+    return this.db.d1Instance
+      .prepare(
+        `UPDATE ${this.TABLE_NAME}
+         SET status = ?2, current_processing_stage = 'user_review_fix', total_rows_detected = ?3,
+             processed_rows_count = ?3, failed_rows_count = ?4, skipped_rows_count = ?5,
+             error_summary_report = ?6, metadata = COALESCE(?7, metadata), updated_at = ?8
+         WHERE id = ?1`
+      )
+      .bind(
+        sessionId,
+        tally.failed > 0 ? "validation_complete_needs_review" : "ready_for_import",
+        tally.total,
+        tally.failed,
+        tally.skipped,
+        summary ? JSON.stringify(summary) : null,
+        metadata ? JSON.stringify(metadata) : null,
+        this.now()
+      );
+  }
+
+  private async updateSession(
+    id: string,
+    changes: { status: ImportStatus; stage: ImportProcessingStage; totalRows?: number; metadata?: Record<string, any> }
+  ): Promise<void> {
+    try {
+      await this.db.execute(
+        `UPDATE ${this.TABLE_NAME}
+         SET status = ?2, current_processing_stage = ?3, total_rows_detected = COALESCE(?4, total_rows_detected),
+             metadata = COALESCE(?5, metadata), updated_at = ?6
+         WHERE id = ?1`,
+        [
+          id,
+          changes.status,
+          changes.stage,
+          changes.totalRows ?? null,
+          changes.metadata ? JSON.stringify(changes.metadata) : null,
+          this.now(),
+        ]
+      );
+    } catch (error: unknown) {
+      throw this.databaseError("updateSession", "Failed to update import session.", error);
+    }
+  }
+
+  /** Move a session from one status to another; fails if it has moved on */
+  private async transition(
+    id: string,
+    from: ImportStatus,
+    to: ImportStatus,
+    stage: ImportProcessingStage
+  ): Promise<void> {
+    let changes: number;
+    try {
+      const result = await this.db.execute(
+        `UPDATE ${this.TABLE_NAME} SET status = ?3, current_processing_stage = ?4, updated_at = ?5
+         WHERE id = ?1 AND status = ?2`,
+        [id, from, to, stage, this.now()]
+      );
+      changes = result.meta?.changes ?? 0;
+    } catch (error: unknown) {
+      throw this.databaseError("transition", "Failed to update import session.", error);
+    }
+    if (changes === 0) {
+      throw new ConflictError("The import was changed by someone else. Reload it and try again.", "IMPORT_SESSION_CHANGED");
+    }
+  }
+
+  private async fail(session: ImportSession, message: string): Promise<void> {
+    const now = this.now();
+    try {
+      await this.db.execute(
+        `UPDATE ${this.TABLE_NAME} SET status = 'import_failed', metadata = ?2, completed_at = ?3, updated_at = ?3
+         WHERE id = ?1`,
+        [session.id, JSON.stringify({ ...(session.metadata ?? {}), failure_message: message }), now]
+      );
+    } catch (error: unknown) {
+      // The original error is the one worth reporting
+      console.error("ImportSessionService.fail error:", error);
+    }
+  }
+
+  private async runBatch(statements: D1PreparedStatement[], method: string, message: string): Promise<void> {
+    try {
+      const results = await this.db.batch(statements);
+      if (results.some((r) => !r.success)) {
+        throw new Error(results.find((r) => !r.success)?.error);
+      }
+    } catch (error: unknown) {
+      throw this.databaseError(method, message, error);
+    }
+  }
+}
+
+export function createImportSessionService(d1: D1Database, bucket: R2Bucket): ImportSessionService {
+  return new ImportSessionService(d1, bucket);
+}
@@ -0,0 +1,109 @@
+// src/lib/services/journal-service.ts
+import type { D1Database } from "@cloudflare/workers-types";
+import { createDbClient, type Database } from "@db/db";
+import { AppError, ValidationError } from "../../utils/errors";
+
+export type JournalType = "general" | "adjusting" | "closing";
+
+export interface DbJournal {
+  id: string;
+  user_id: string;
+  entity_id: string;
+  name: string;
+  description: string | null;
+  type: JournalType;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface JournalInput {
+  name: string;
+  description?: string | null | undefined;
+  /** Closing journals are created by the year-end close */
+  type?: Exclude<JournalType, "closing"> | undefined;
+}
+
+export class JournalService {
+  private db: Database;
+  private readonly TABLE_NAME = "journals";
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+  }
+
+  async getJournals(entityId: string, type?: JournalType): Promise<DbJournal[]> {
+    const params: unknown[] = [entityId];
+    let sql = `SELECT * FROM ${this.TABLE_NAME} WHERE entity_id = ?1`;
+    if (type) {
+      params.push(type);
+      sql += ` AND type = ?${params.length}`;
+    }
+    sql += ` ORDER BY name`;
+    try {
+      return await this.db.query<DbJournal>(sql, params);
+    } catch (error: unknown) {
+      console.error("JournalService.getJournals error:", error);
+      throw new AppError(
+        "Failed to retrieve journals.",
+        500,
+        true,
+        "DatabaseError",
+        "DATABASE_ERROR"
+      );
+    }
+  }
+
+  async createJournal(
+    entityId: string,
+    input: JournalInput,
+    userId: string
+  ): Promise<DbJournal> {
+    if (!input.name?.trim()) {
+      throw new ValidationError("Journal name is required.");
+    }
+    const type = input.type ?? "general";
+    if (type !== "general" && type !== "adjusting") {
+      throw new ValidationError(`Invalid journal type "${type}".`);
+    }
+
+    const journal: DbJournal = {
+      id: crypto.randomUUID(),
+      user_id: userId,
+      entity_id: entityId,
+      name: input.name.trim(),
+      description: input.description ?? null,
+      type,
+      created_at: Math.floor(Date.now() / 1000),
+      updated_at: Math.floor(Date.now() / 1000),
+    };
+    try {
+      await this.db.execute(
+        `INSERT INTO ${this.TABLE_NAME} (id, user_id, entity_id, name, description, type, created_at, updated_at)
+         VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?7)`,
+        [
+          journal.id,
+          journal.user_id,
+          journal.entity_id,
+          journal.name,
+          journal.description,
+          journal.type,
+          journal.created_at,
+        ]
+      );
+    } catch (error: unknown) {
+      console.error("JournalService.createJournal error:", error);
+      throw new AppError(
+        "Failed to create journal.",
+        500,
+        true,
+        "DatabaseError",
+        "DATABASE_ERROR"
+      );
+    }
+    return journal;
+  }
+}
+
+export function createJournalService(d1: D1Database): JournalService {
+  return new JournalService(d1);
+}
@@ -0,0 +1,331 @@
+// src/lib/services/ledger-audit-service.ts
+import type {
+  D1Database,
+  D1PreparedStatement,
+} from "@cloudflare/workers-types";
+import { createDbClient, type Database } from "@db/db";
+import { AppError } from "../../utils/errors";
+import {
+  canonicalJson,
+  chainAuditEvents,
+  computeBaselineHash,
+  verifyAuditChain,
+  type AuditChainVerification,
+  type LedgerAuditEvent,
+  type LedgerAuditEventType,
+  type LedgerSnapshot,
+} from "../accounting/core/audit-chain";
+import { fromDimensionColumns, hasDimensions } from "../accounting/core/dimensions";
+
+export interface DbLedgerAuditEvent {
+  id: string;
+  entity_id: string;
+  sequence: number;
+  event_type: LedgerAuditEventType;
+  transaction_id: string;
+  user_id: string | null;
+  snapshot: string | null; // Canonical JSON
+  previous_hash: string;
+  hash: string;
+  created_at: number;
+  baseline_hash: string | null;
+}
+
+export interface LedgerAuditEventInput {
+  eventType: LedgerAuditEventType;
+  transactionId: string;
+  userId: string;
+  snapshot: LedgerSnapshot | null;
+}
+
+interface DbSnapshotTransaction {
+  id: string;
+  entity_id: string;
+  journal_id: string | null;
+  date: number;
+  description: string;
+  reference: string | null;
+  status: string;
+  reversal_of_transaction_id: string | null;
+  correction_of_transaction_id: string | null;
+  intercompany_of_transaction_id: string | null;
+}
+
+interface DbSnapshotLine {
+  id: string;
+  transaction_id: string;
+  entity_account_id: string;
+  amount: number;
+  is_debit: number;
+  memo: string | null;
+  currency_code: string;
+  foreign_amount: number | null;
+  exchange_rate: string | null;
+  property_id: string | null;
+  unit_id: string | null;
+  class_name: string | null;
+  tags: string | null;
+}
+
+/**
+ * Build the audited snapshot of a transaction from its stored rows.
+ */
+export function toLedgerSnapshot(
+  row: DbSnapshotTransaction,
+  lines: DbSnapshotLine[]
+): LedgerSnapshot {
+  return {
+    id: row.id,
+    entityId: row.entity_id,
+    journalId: row.journal_id,
+    date: row.date,
+    description: row.description,
+    reference: row.reference,
+    status: row.status,
+    reversalOfTransactionId: row.reversal_of_transaction_id,
+    correctionOfTransactionId: row.correction_of_transaction_id,
+    ...(row.intercompany_of_transaction_id
+      ? { intercompanyOfTransactionId: row.intercompany_of_transaction_id }
+      : {}),
+    lines: lines.map((line) => {
+      const dimensions = fromDimensionColumns(line);
+      return {
+        id: line.id,
+        entityAccountId: line.entity_account_id,
+        amount: line.amount,
+        isDebit: Boolean(line.is_debit),
+        memo: line.memo,
+        ...(line.foreign_amount !== null
+          ? {
+              currency: {
+                code: line.currency_code,
+                foreignAmount: line.foreign_amount,
+                exchangeRate: line.exchange_rate ?? "",
+              },
+            }
+          : {}),
+        ...(hasDimensions(dimensions) ? { dimensions } : {}),
+      };
+    }),
+  };
+}
+
+function mapDbEvent(row: DbLedgerAuditEvent): LedgerAuditEvent {
+  return {
+    id: row.id,
+    entityId: row.entity_id,
+    sequence: row.sequence,
+    eventType: row.event_type,
+    transactionId: row.transaction_id,
+    userId: row.user_id,
+    snapshot: row.snapshot ? (JSON.parse(row.snapshot) as LedgerSnapshot) : null,
+    previousHash: row.previous_hash,
+    hash: row.hash,
+    createdAt: row.created_at,
+    ...(row.baseline_hash ? { baselineHash: row.baseline_hash } : {}),
+  };
+}
+
+export class LedgerAuditService {
+  private db: Database;
+  private readonly TABLE_NAME = "ledger_audit_events";
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+  }
+
+  /**
+   * Build insert statements that append events to the entity's chain. Run
+   * them in the same batch as the ledger write they describe; the unique
+   * (entity_id, sequence) index makes a concurrent append fail the whole
+   * batch instead of forking the chain. The first event of a chain records
+   * the baseline: the transactions already in the entity's ledger.
+   */
+  async appendStatements(
+    entityId: string,
+    events: LedgerAuditEventInput[]
+  ): Promise<D1PreparedStatement[]> {
+    if (events.length === 0) return [];
+
+    let last: { sequence: number; hash: string } | null;
+    let baselineHash: string | null = null;
+    try {
+      last = await this.db.queryOne<{ sequence: number; hash: string }>(
+        `SELECT sequence, hash FROM ${this.TABLE_NAME} WHERE entity_id = ?1 ORDER BY sequence DESC LIMIT 1`,
+        [entityId]
+      );
+      if (!last) {
+        const existing = await this.db.query<{ id: string }>(
+          `SELECT id FROM transactions WHERE entity_id = ?1`,
+          [entityId]
+        );
+        baselineHash = await computeBaselineHash(existing.map((row) => row.id));
+      }
+    } catch (error: unknown) {
+      console.error("LedgerAuditService.appendStatements error:", error);
+      throw new AppError("Failed to read the audit trail.", 500, true, "DatabaseError", "DATABASE_ERROR");
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const chained = await chainAuditEvents(
+      last,
+      events.map((event, i) => ({
+        id: crypto.randomUUID(),
+        entityId,
+        eventType: event.eventType,
+        transactionId: event.transactionId,
+        userId: event.userId,
+        snapshot: event.snapshot,
+        createdAt: now,
+        ...(i === 0 && baselineHash ? { baselineHash } : {}),
+      }))
+    );
+
+    return chained.map((event) =>
+      this.db.d1Instance
+        .prepare(
+          `INSERT INTO ${this.TABLE_NAME} (id, entity_id, sequence, event_type, transaction_id, user_id, snapshot, previous_hash, hash, created_at, baseline_hash)
+           VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11)`
+        )
+        .bind(
+          event.id,
+          event.entityId,
+          event.sequence,
+          event.eventType,
+          event.transactionId,
+          event.userId,
+          event.snapshot ? canonicalJson(event.snapshot) : null,
+          event.previousHash,
+          event.hash,
+          event.createdAt,
+          event.baselineHash ?? null
+        )
+    );
+  }
+
+  /**
+   * Ledger version of each entity: the sequence of the last event in its
+   * chain. Every ledger write (post, void, reversal, correction, close)
+   * appends to the chain in the same batch, so the version changes exactly
+   * when the ledger does. Entities without events are at version 0.
+   */
+  async getLedgerVersions(entityIds: string[]): Promise<Map<string, number>> {
+    const versions = new Map(entityIds.map((entityId) => [entityId, 0]));
+    if (entityIds.length === 0) return versions;
+
+    try {
+      const rows = await this.db.query<{ entity_id: string; version: number }>(
+        `SELECT entity_id, MAX(sequence) AS version FROM ${this.TABLE_NAME}
+         WHERE entity_id IN (${entityIds.map((_, i) => `?${i + 1}`).join(", ")})
+         GROUP BY entity_id`,
+        entityIds
+      );
+      rows.forEach((row) => versions.set(row.entity_id, row.version));
+      return versions;
+    } catch (error: unknown) {
+      console.error("LedgerAuditService.getLedgerVersions error:", error);
+      throw new AppError("Failed to read the ledger version.", 500, true, "DatabaseError", "DATABASE_ERROR");
+    }
+  }
+
+  /**
+   * Head of each entity's chain: its ledger version and the hash of the
+   * last event, which commits to every ledger write before it. Entities
+   * without events have version 0 and no hash.
+   */
+  async getLedgerHeads(
+    entityIds: string[]
+  ): Promise<Map<string, { version: number; hash: string | null }>> {
+    const heads = new Map<string, { version: number; hash: string | null }>(
+      entityIds.map((entityId) => [entityId, { version: 0, hash: null }])
+    );
+    if (entityIds.length === 0) return heads;
+
+    try {
+      const rows = await this.db.query<{ entity_id: string; sequence: number; hash: string }>(
+        `SELECT e.entity_id, e.sequence, e.hash FROM ${this.TABLE_NAME} e
+         WHERE e.entity_id IN (${entityIds.map((_, i) => `?${i + 1}`).join(", ")})
+           AND e.sequence = (SELECT MAX(sequence) FROM ${this.TABLE_NAME} WHERE entity_id = e.entity_id)`,
+        entityIds
+      );
+      rows.forEach((row) => heads.set(row.entity_id, { version: row.sequence, hash: row.hash }));
+      return heads;
+    } catch (error: unknown) {
+      console.error("LedgerAuditService.getLedgerHeads error:", error);
+      throw new AppError("Failed to read the ledger state.", 500, true, "DatabaseError", "DATABASE_ERROR");
+    }
+  }
+
+  async getEvents(
+    entityId: string,
+    transactionId?: string
+  ): Promise<LedgerAuditEvent[]> {
+    try {
+      const rows = transactionId
+        ? await this.db.query<DbLedgerAuditEvent>(
+            `SELECT * FROM ${this.TABLE_NAME} WHERE entity_id = ?1 AND transaction_id = ?2 ORDER BY sequence`,
+            [entityId, transactionId]
+          )
+        : await this.db.query<DbLedgerAuditEvent>(
+            `SELECT * FROM ${this.TABLE_NAME} WHERE entity_id = ?1 ORDER BY sequence`,
+            [entityId]
+          );
+      return rows.map(mapDbEvent);
+    } catch (error: unknown) {
+      console.error("LedgerAuditService.getEvents error:", error);
+      throw new AppError("Failed to retrieve audit events.", 500, true, "DatabaseError", "DATABASE_ERROR");
+    }
+  }
+
+  /**
+   * Replay the entity's chain and compare each transaction's last audited
+   * state with what is in the ledger now. Transactions recorded before the
+   * chain started are not expected to have events, but must match the
+   * baseline its first event recorded.
+   */
+  async verifyChain(entityId: string): Promise<AuditChainVerification> {
+    const events = await this.getEvents(entityId);
+    if (events.length === 0) {
+      return verifyAuditChain([]);
+    }
+
+    try {
+      const transactions = await this.db.query<DbSnapshotTransaction>(
+        `SELECT id, entity_id, journal_id, date, description, reference, status,
+                reversal_of_transaction_id, correction_of_transaction_id, intercompany_of_transaction_id
+         FROM transactions WHERE entity_id = ?1`,
+        [entityId]
+      );
+      const lines = await this.db.query<DbSnapshotLine>(
+        `SELECT tl.id, tl.transaction_id, tl.entity_account_id, tl.amount, tl.is_debit, tl.memo,
+                tl.currency_code, tl.foreign_amount, tl.exchange_rate,
+                tl.property_id, tl.unit_id, tl.class_name, tl.tags
+         FROM transaction_lines tl JOIN transactions t ON t.id = tl.transaction_id
+         WHERE t.entity_id = ?1`,
+        [entityId]
+      );
+
+      const linesByTransaction = new Map<string, DbSnapshotLine[]>();
+      for (const line of lines) {
+        const list = linesByTransaction.get(line.transaction_id) ?? [];
+        list.push(line);
+        linesByTransaction.set(line.transaction_id, list);
+      }
+
+      const currentLedger = new Map<string, LedgerSnapshot>();
+      for (const row of transactions) {
+        currentLedger.set(row.id, toLedgerSnapshot(row, linesByTransaction.get(row.id) ?? []));
+      }
+
+      return await verifyAuditChain(events, currentLedger);
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error("LedgerAuditService.verifyChain error:", error);
+      throw new AppError("Failed to verify the audit trail.", 500, true, "DatabaseError", "DATABASE_ERROR");
+    }
+  }
+}
+
+export function createLedgerAuditService(d1: D1Database): LedgerAuditService {
+  return new LedgerAuditService(d1);
+}
@@ -0,0 +1,502 @@
+// src/lib/services/recurring-schedule-service.ts
+import type { D1Database } from "@cloudflare/workers-types";
+import { createDbClient, type Database } from "@db/db";
+import {
+  AppError,
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+} from "../../utils/errors";
+import { Transaction, TransactionError } from "../accounting/core/transaction";
+import {
+  getDueOccurrences,
+  getNextOccurrence,
+  resolveLineAmount,
+  validateRecurrenceRule,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type RecurringLineAmount,
+} from "../accounting/core/recurrence";
+import {
+  createTransactionService,
+  type TransactionService,
+} from "./transaction-service";
+import {
+  createFiscalPeriodService,
+  type FiscalPeriodService,
+} from "./fiscal-period-service";
+
+export type RecurringScheduleStatus = "active" | "paused" | "completed";
+
+export interface RecurringLine extends RecurringLineAmount {
+  accountId: string; // entity_accounts.id
+  isDebit: boolean;
+  memo?: string | null;
+}
+
+/** Line of an entry in the transaction-templates content collection */
+export interface TransactionTemplateLine {
+  accountCode: string;
+  description: string;
+  isDebit: boolean;
+  amount?: string;
+}
+
+export interface DbRecurringSchedule {
+  id: string;
+  entity_id: string;
+  user_id: string;
+  template_id: string | null;
+  journal_id: string | null;
+  name: string;
+  description: string;
+  frequency: RecurrenceFrequency;
+  cron_expression: string | null;
+  start_date: number; // Unix seconds, midnight UTC
+  end_date: number | null;
+  next_run_date: number | null;
+  last_run_date: number | null;
+  occurrence_count: number;
+  post_automatically: number; // 0 or 1
+  lines: string; // JSON RecurringLine[]
+  status: RecurringScheduleStatus;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface AppRecurringSchedule
+  extends Omit<DbRecurringSchedule, "post_automatically" | "lines"> {
+  post_automatically: boolean;
+  lines: RecurringLine[];
+}
+
+export interface RecurringScheduleInput {
+  entityId: string;
+  name: string;
+  description: string;
+  frequency: RecurrenceFrequency;
+  cronExpression?: string | null;
+  startDate: string; // YYYY-MM-DD
+  endDate?: string | null;
+  postAutomatically?: boolean;
+  journalId?: string | null;
+  templateId?: string | null;
+  lines: RecurringLine[];
+}
+
+export interface RecurringScheduleUpdate {
+  name?: string;
+  description?: string;
+  endDate?: string | null;
+  status?: Exclude<RecurringScheduleStatus, "completed">;
+  postAutomatically?: boolean;
+  lines?: RecurringLine[];
+}
+
+export interface RecurringRunResult {
+  schedulesProcessed: number;
+  transactionsCreated: number;
+  errors: Array<{ scheduleId: string; message: string }>;
+}
+
+function mapDbSchedule(row: DbRecurringSchedule): AppRecurringSchedule {
+  return {
+    ...row,
+    post_automatically: Boolean(row.post_automatically),
+    lines: JSON.parse(row.lines) as RecurringLine[],
+  };
+}
+
+export class RecurringScheduleService {
+  private db: Database;
+  private transactions: TransactionService;
+  private fiscalPeriods: FiscalPeriodService;
+  private readonly TABLE_NAME = "recurring_schedules";
+  private readonly RUNS_TABLE_NAME = "recurring_schedule_runs";
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+    this.transactions = createTransactionService(d1);
+    this.fiscalPeriods = createFiscalPeriodService(d1);
+  }
+
+  private toUnixDay(dateStr: string): number {
+    return Math.floor(Date.parse(`${dateStr}T00:00:00.000Z`) / 1000);
+  }
+
+  private fromUnixDay(unix: number): string {
+    return new Date(unix * 1000).toISOString().slice(0, 10);
+  }
+
+  private toCents(amount: string): number {
+    return Math.round(parseFloat(amount) * 100);
+  }
+
+  private ruleOf(schedule: AppRecurringSchedule): RecurrenceRule {
+    return {
+      frequency: schedule.frequency,
+      startDate: this.fromUnixDay(schedule.start_date),
+      endDate: schedule.end_date !== null ? this.fromUnixDay(schedule.end_date) : null,
+      cronExpression: schedule.cron_expression,
+    };
+  }
+
+  async getSchedules(entityId: string): Promise<AppRecurringSchedule[]> {
+    try {
+      const rows = await this.db.query<DbRecurringSchedule>(
+        `SELECT * FROM ${this.TABLE_NAME} WHERE entity_id = ?1 ORDER BY name`,
+        [entityId]
+      );
+      return rows.map(mapDbSchedule);
+    } catch (error: unknown) {
+      console.error("RecurringScheduleService.getSchedules error:", error);
+      throw new AppError("Failed to retrieve recurring schedules.", 500, true, "DatabaseError", "DATABASE_ERROR");
+    }
+  }
+
+  async getScheduleById(id: string): Promise<AppRecurringSchedule | null> {
+    try {
+      const row = await this.db.queryOne<DbRecurringSchedule>(
+        `SELECT * FROM ${this.TABLE_NAME} WHERE id = ?1`,
+        [id]
+      );
+      return row ? mapDbSchedule(row) : null;
+    } catch (error: unknown) {
+      console.error("RecurringScheduleService.getScheduleById error:", error);
+      throw new AppError("Failed to retrieve recurring schedule.", 500, true, "DatabaseError", "DATABASE_ERROR");
+    }
+  }
+
+  /**
+   * Map template lines (chart-of-accounts codes) to the entity's accounts.
+   * `amounts` overrides the template amounts by line position.
+   */
+  async resolveTemplateLines(
+    entityId: string,
+    templateLines: TransactionTemplateLine[],
+    amounts: Array<string | undefined> = []
+  ): Promise<RecurringLine[]> {
+    const accounts = await this.db.query<{ id: string; code: string }>(
+      `SELECT ea.id, coa.code FROM entity_accounts ea
+       JOIN chart_of_accounts coa ON coa.id = ea.account_id
+       WHERE ea.entity_id = ?1 AND ea.is_active = 1`,
+      [entityId]
+    );
+    const accountByCode = new Map(accounts.map((a) => [a.code, a.id]));
+
+    const missingCodes = templateLines
+      .map((line) => line.accountCode)
+      .filter((code) => !accountByCode.has(code));
+    if (missingCodes.length > 0) {
+      throw new ValidationError(
+        `The entity has no active account for template account code(s): ${missingCodes.join(", ")}.`
+      );
+    }
+
+    return templateLines.map((line, index) => {
+      const amount = amounts[index] ?? line.amount;
+      if (!amount) {
+        throw new ValidationError(`An amount is required for template line ${index + 1} (${line.description}).`);
+      }
+      return {
+        accountId: accountByCode.get(line.accountCode)!,
+        isDebit: line.isDebit,
+        memo: line.description,
+        amount,
+      };
+    });
+  }
+
+  async createSchedule(
+    input: RecurringScheduleInput,
+    userId: string
+  ): Promise<AppRecurringSchedule> {
+    const rule: RecurrenceRule = {
+      frequency: input.frequency,
+      startDate: input.startDate,
+      endDate: input.endDate ?? null,
+      cronExpression: input.frequency === "custom" ? input.cronExpression ?? null : null,
+    };
+    validateRecurrenceRule(rule);
+    await this.validateLines(input.entityId, input.lines, input.startDate, userId);
+
+    const nextRun = getNextOccurrence(rule, null);
+    const now = Math.floor(Date.now() / 1000);
+    const row: DbRecurringSchedule = {
+      id: crypto.randomUUID(),
+      entity_id: input.entityId,
+      user_id: userId,
+      template_id: input.templateId ?? null,
+      journal_id: input.journalId ?? null,
+      name: input.name,
+      description: input.description,
+      frequency: rule.frequency,
+      cron_expression: rule.cronExpression ?? null,
+      start_date: this.toUnixDay(rule.startDate),
+      end_date: rule.endDate ? this.toUnixDay(rule.endDate) : null,
+      next_run_date: nextRun ? this.toUnixDay(nextRun) : null,
+      last_run_date: null,
+      occurrence_count: 0,
+      post_automatically: input.postAutomatically ? 1 : 0,
+      lines: JSON.stringify(input.lines),
+      status: nextRun ? "active" : "completed",
+      created_at: now,
+      updated_at: now,
+    };
+
+    const result = await this.db.execute(
+      `INSERT INTO ${this.TABLE_NAME} (id, entity_id, user_id, template_id, journal_id, name, description, frequency,
+         cron_expression, start_date, end_date, next_run_date, last_run_date, occurrence_count, post_automatically,
+         lines, status, created_at, updated_at)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?14, ?15, ?16, ?17, ?18, ?19)`,
+      [
+        row.id, row.entity_id, row.user_id, row.template_id, row.journal_id, row.name, row.description,
+        row.frequency, row.cron_expression, row.start_date, row.end_date, row.next_run_date,
+        row.last_run_date, row.occurrence_count, row.post_automatically, row.lines, row.status,
+        row.created_at, row.updated_at,
+      ]
+    );
+    if (!result.success) {
+      console.error("RecurringScheduleService.createSchedule error:", result.error);
+      throw new AppError("Failed to create recurring schedule.", 500, true, "DatabaseError", "DATABASE_ERROR");
+    }
+    return mapDbSchedule(row);
+  }
+
+  async updateSchedule(
+    id: string,
+    updates: RecurringScheduleUpdate,
+    userId: string
+  ): Promise<AppRecurringSchedule> {
+    const schedule = await this.getScheduleById(id);
+    if (!schedule) {
+      throw new NotFoundError("Recurring schedule not found.", "SCHEDULE_NOT_FOUND");
+    }
+
+    const rule = this.ruleOf(schedule);
+    if (updates.endDate !== undefined) {
+      rule.endDate = updates.endDate;
+      validateRecurrenceRule(rule);
+    }
+    if (updates.lines) {
+      await this.validateLines(schedule.entity_id, updates.lines, rule.startDate, userId);
+    }
+
+    const lastRun = schedule.last_run_date !== null ? this.fromUnixDay(schedule.last_run_date) : null;
+    const nextRun = getNextOccurrence(rule, lastRun);
+    if (updates.status === "active" && !nextRun) {
+      throw new ConflictError(
+        "The schedule has no occurrences left. Extend its end date to reactivate it.",
+        "SCHEDULE_COMPLETED"
+      );
+    }
+    const status: RecurringScheduleStatus = !nextRun
+      ? "completed"
+      : updates.status ?? (schedule.status === "completed" ? "active" : schedule.status);
+
+    const updated: AppRecurringSchedule = {
+      ...schedule,
+      name: updates.name ?? schedule.name,
+      description: updates.description ?? schedule.description,
+      end_date: rule.endDate ? this.toUnixDay(rule.endDate) : null,
+      next_run_date: nextRun ? this.toUnixDay(nextRun) : null,
+      post_automatically: updates.postAutomatically ?? schedule.post_automatically,
+      lines: updates.lines ?? schedule.lines,
+      status,
+      updated_at: Math.floor(Date.now() / 1000),
+    };
+
+    const result = await this.db.execute(
+      `UPDATE ${this.TABLE_NAME}
+       SET name = ?2, description = ?3, end_date = ?4, next_run_date = ?5, post_automatically = ?6,
+           lines = ?7, status = ?8, updated_at = ?9
+       WHERE id = ?1`,
+      [
+        id, updated.name, updated.description, updated.end_date, updated.next_run_date,
+        updated.post_automatically ? 1 : 0, JSON.stringify(updated.lines), updated.status, updated.updated_at,
+      ]
+    );
+    if (!result.success) {
+      console.error("RecurringScheduleService.updateSchedule error:", result.error);
+      throw new AppError("Failed to update recurring schedule.", 500, true, "DatabaseError", "DATABASE_ERROR");
+    }
+    return updated;
+  }
+
+  /**
+   * Delete a schedule. Transactions it already generated are kept.
+   */
+  async deleteSchedule(id: string): Promise<boolean> {
+    const d1 = this.db.d1Instance;
+    try {
+      const results = await this.db.batch([
+        d1.prepare(`DELETE FROM ${this.RUNS_TABLE_NAME} WHERE schedule_id = ?1`).bind(id),
+        d1.prepare(`DELETE FROM ${this.TABLE_NAME} WHERE id = ?1`).bind(id),
+      ]);
+      return results.every((r) => r.success);
+    } catch (error: unknown) {
+      console.error("RecurringScheduleService.deleteSchedule error:", error);
+      throw new AppError("Failed to delete recurring schedule.", 500, true, "DatabaseError", "DATABASE_ERROR");
+    }
+  }
+
+  /**
+   * Generate the transactions of every active schedule that is due on or
+   * before `asOf`. A failing schedule is reported and does not stop the rest.
+   */
+  async runDueSchedules(asOf: Date = new Date()): Promise<RecurringRunResult> {
+    const asOfDay = asOf.toISOString().slice(0, 10);
+    let due: DbRecurringSchedule[];
+    try {
+      due = await this.db.query<DbRecurringSchedule>(
+        `SELECT * FROM ${this.TABLE_NAME}
+         WHERE status = 'active' AND next_run_date IS NOT NULL AND next_run_date <= ?1
+         ORDER BY next_run_date`,
+        [this.toUnixDay(asOfDay)]
+      );
+    } catch (error: unknown) {
+      console.error("RecurringScheduleService.runDueSchedules error:", error);
+      throw new AppError("Failed to load due recurring schedules.", 500, true, "DatabaseError", "DATABASE_ERROR");
+    }
+
+    const result: RecurringRunResult = { schedulesProcessed: 0, transactionsCreated: 0, errors: [] };
+    for (const row of due) {
+      try {
+        result.transactionsCreated += await this.runSchedule(mapDbSchedule(row), asOfDay);
+        result.schedulesProcessed++;
+      } catch (error: unknown) {
+        console.error(`RecurringScheduleService: schedule ${row.id} failed`, error);
+        result.errors.push({
+          scheduleId: row.id,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Generate the schedule's due occurrences in date order. Each occurrence is
+   * written together with its run record and the schedule's new position, so
+   * a retry resumes where the last successful occurrence left off.
+   */
+  private async runSchedule(schedule: AppRecurringSchedule, asOfDay: string): Promise<number> {
+    const rule = this.ruleOf(schedule);
+    const lastRun = schedule.last_run_date !== null ? this.fromUnixDay(schedule.last_run_date) : null;
+    const occurrences = getDueOccurrences(rule, lastRun, asOfDay);
+    const periodLock = schedule.post_automatically
+      ? await this.fiscalPeriods.getLockContext(schedule.entity_id, false)
+      : undefined;
+
+    let created = 0;
+    for (const occurrence of occurrences) {
+      const transaction = new Transaction({
+        id: crypto.randomUUID(),
+        date: new Date(`${occurrence}T00:00:00.000Z`),
+        description: schedule.description,
+        entityId: schedule.entity_id,
+        status: "draft",
+        reference: `RECURRING-${occurrence}`,
+        lines: schedule.lines.map((line) => ({
+          id: crypto.randomUUID(),
+          accountId: line.accountId,
+          amount: resolveLineAmount(line, occurrence),
+          isDebit: line.isDebit,
+          ...(line.memo ? { description: line.memo } : {}),
+        })),
+      });
+      if (!transaction.isBalanced()) {
+        throw new ValidationError(
+          `Recurring entry "${schedule.name}" is not balanced for ${occurrence}.`
+        );
+      }
+
+      if (schedule.post_automatically) {
+        try {
+          transaction.post(periodLock);
+        } catch (error: unknown) {
+          // Entries dated in a closed period are kept as drafts for review
+          if (!(error instanceof TransactionError && error.code.startsWith("PERIOD_"))) throw error;
+          console.warn(`Recurring entry ${schedule.id} for ${occurrence} left as draft: ${error.message}`);
+        }
+      }
+
+      const nextRun = getNextOccurrence(rule, occurrence);
+      const d1 = this.db.d1Instance;
+      const now = Math.floor(Date.now() / 1000);
+      await this.transactions.writeTransactions(
+        [{ transaction, journalId: schedule.journal_id, eventType: "create" }],
+        schedule.user_id,
+        `Failed to generate recurring entry "${schedule.name}" for ${occurrence}.`,
+        [
+          d1
+            .prepare(
+              `INSERT INTO ${this.RUNS_TABLE_NAME} (id, schedule_id, occurrence_date, transaction_id, created_at)
+               VALUES (?1, ?2, ?3, ?4, ?5)`
+            )
+            .bind(crypto.randomUUID(), schedule.id, this.toUnixDay(occurrence), transaction.id, now),
+          d1
+            .prepare(
+              `UPDATE ${this.TABLE_NAME}
+               SET last_run_date = ?2, next_run_date = ?3, occurrence_count = occurrence_count + 1,
+                   status = ?4, updated_at = ?5
+               WHERE id = ?1`
+            )
+            .bind(
+              schedule.id,
+              this.toUnixDay(occurrence),
+              nextRun ? this.toUnixDay(nextRun) : null,
+              nextRun ? schedule.status : "completed",
+              now
+            ),
+        ]
+      );
+      created++;
+    }
+    return created;
+  }
+
+  private async validateLines(
+    entityId: string,
+    lines: RecurringLine[],
+    firstOccurrence: string,
+    userId: string
+  ): Promise<void> {
+    if (lines.length < 2) {
+      throw new ValidationError("A recurring entry needs at least two lines.");
+    }
+
+    const accounts = await this.transactions.validateEntityAccounts(
+      entityId,
+      lines.map((line) => line.accountId),
+      userId
+    );
+    if (!accounts.success) {
+      throw new ValidationError(
+        `${accounts.error ?? "Invalid accounts"}${accounts.invalidAccounts?.length ? `: ${accounts.invalidAccounts.join(", ")}` : ""}`
+      );
+    }
+
+    // Every date an amount changes on must still balance
+    const checkDates = new Set([
+      firstOccurrence,
+      ...lines.flatMap((line) => (line.amountSchedule ?? []).map((s) => s.effectiveDate)),
+    ]);
+    for (const date of checkDates) {
+      let net = 0;
+      for (const line of lines) {
+        const cents = this.toCents(resolveLineAmount(line, date));
+        net += line.isDebit ? cents : -cents;
+      }
+      if (net !== 0) {
+        throw new ValidationError(
+          `Recurring entry is not balanced for amounts effective ${date}. Total debits must equal total credits.`
+        );
+      }
+    }
+  }
+}
+
+export function createRecurringScheduleService(d1: D1Database): RecurringScheduleService {
+  return new RecurringScheduleService(d1);
+}
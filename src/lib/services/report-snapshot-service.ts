@@ -0,0 +1,239 @@
+// src/lib/services/report-snapshot-service.ts
+import type { D1Database, R2Bucket } from "@cloudflare/workers-types";
+import { createDbClient, type Database } from "@db/db";
+import { AppError, ConflictError } from "../../utils/errors";
+import { R2Client } from "../cloudflare/r2";
+import { canonicalJson, sha256Hex } from "../accounting/core/audit-chain";
+import type { ReportSnapshot, ReportSnapshotType } from "../../types/report";
+
+export interface DbReportSnapshot {
+  id: string;
+  entity_id: string;
+  report_type: ReportSnapshotType;
+  title: string;
+  version: number;
+  parameters: string; // Canonical JSON
+  parameters_hash: string;
+  entity_ids: string; // JSON array
+  generator_version: string;
+  ledger_version: string;
+  ledger_hash: string;
+  content_hash: string;
+  storage_key: string;
+  size_bytes: number;
+  finalized_by: string;
+  finalized_at: number;
+}
+
+export interface ReportSnapshotInput {
+  entityId: string;
+  reportType: ReportSnapshotType;
+  title: string;
+  /** Report options, without the connections and the requesting user */
+  parameters: Record<string, unknown>;
+  /** Entities the report read */
+  entityIds: string[];
+  generatorVersion: string;
+  ledgerVersion: string;
+  ledgerHash: string;
+  report: unknown;
+  userId: string;
+}
+
+/**
+ * Finalized reports: the report in R2 (DOCUMENTS_BUCKET), what it was
+ * generated from in D1. Snapshots are never updated or deleted; finalizing
+ * the same report again adds a version.
+ */
+export class ReportSnapshotService {
+  private db: Database;
+  private storage: R2Client;
+  private readonly TABLE_NAME = "report_snapshots";
+
+  constructor(d1: D1Database, bucket: R2Bucket) {
+    this.db = createDbClient(d1);
+    this.storage = new R2Client(bucket);
+  }
+
+  private toAppSnapshot(row: DbReportSnapshot): ReportSnapshot {
+    return {
+      id: row.id,
+      entityId: row.entity_id,
+      reportType: row.report_type,
+      title: row.title,
+      version: row.version,
+      parameters: JSON.parse(row.parameters) as Record<string, unknown>,
+      parametersHash: row.parameters_hash,
+      entityIds: JSON.parse(row.entity_ids) as string[],
+      generatorVersion: row.generator_version,
+      ledgerVersion: row.ledger_version,
+      ledgerHash: row.ledger_hash,
+      contentHash: row.content_hash,
+      sizeBytes: row.size_bytes,
+      finalizedByUserId: row.finalized_by,
+      finalizedAt: row.finalized_at,
+    };
+  }
+
+  private databaseError(method: string, message: string, error: unknown): AppError {
+    if (error instanceof AppError) return error;
+    console.error(`ReportSnapshotService.${method} error:`, error);
+    return new AppError(message, 500, true, "DatabaseError", "DATABASE_ERROR");
+  }
+
+  private storageKey(entityId: string, reportType: ReportSnapshotType, id: string): string {
+    return `report-snapshots/${entityId}/${reportType}/${id}.json`;
+  }
+
+  private storageError(method: string, message: string, error: unknown): AppError {
+    console.error(`ReportSnapshotService.${method} error:`, error);
+    return new AppError(message, 500, true, "StorageError", "STORAGE_ERROR");
+  }
+
+  /**
+   * Store a finalized report. The report is written to R2 before its row,
+   * so a snapshot never points at a missing report.
+   */
+  async createSnapshot(input: ReportSnapshotInput): Promise<ReportSnapshot> {
+    const id = crypto.randomUUID();
+    const parameters = canonicalJson(input.parameters);
+    const parametersHash = await sha256Hex(parameters);
+    const content = canonicalJson(input.report);
+    const contentHash = await sha256Hex(content);
+    const storageKey = this.storageKey(input.entityId, input.reportType, id);
+
+    let sizeBytes: number;
+    try {
+      const object = await this.storage.upload(storageKey, content, {
+        contentType: "application/json",
+        customMetadata: {
+          entityId: input.entityId,
+          reportType: input.reportType,
+          ledgerHash: input.ledgerHash,
+        },
+        checksum: { algorithm: "sha256", value: contentHash },
+      });
+      sizeBytes = object.size;
+    } catch (error: unknown) {
+      throw this.storageError("createSnapshot", "Failed to store the finalized report.", error);
+    }
+
+    try {
+      // The next version of these parameters; the unique index rejects a
+      // concurrent finalization that read the same one
+      await this.db.execute(
+        `INSERT INTO ${this.TABLE_NAME} (id, entity_id, report_type, title, version, parameters, parameters_hash,
+           generator_version, ledger_version, ledger_hash, content_hash, storage_key, size_bytes, finalized_by, finalized_at,
+           entity_ids)
+         SELECT ?1, ?2, ?3, ?4, COALESCE(MAX(version), 0) + 1, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?14, ?15
+         FROM ${this.TABLE_NAME} WHERE entity_id = ?2 AND report_type = ?3 AND parameters_hash = ?6`,
+        [
+          id,
+          input.entityId,
+          input.reportType,
+          input.title,
+          parameters,
+          parametersHash,
+          input.generatorVersion,
+          input.ledgerVersion,
+          input.ledgerHash,
+          contentHash,
+          storageKey,
+          sizeBytes,
+          input.userId,
+          Math.floor(Date.now() / 1000),
+          JSON.stringify(input.entityIds),
+        ]
+      );
+      const row = await this.db.queryOne<DbReportSnapshot>(
+        `SELECT * FROM ${this.TABLE_NAME} WHERE id = ?1`,
+        [id]
+      );
+      if (!row) {
+        throw new AppError("Failed to retrieve report snapshot after creation.", 500);
+      }
+      return this.toAppSnapshot(row);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "";
+      if (message.toUpperCase().includes("UNIQUE CONSTRAINT FAILED")) {
+        throw new ConflictError(
+          "This report was finalized by someone else at the same time. Try again.",
+          "SNAPSHOT_VERSION_CONFLICT"
+        );
+      }
+      throw this.databaseError("createSnapshot", "Failed to save report snapshot.", error);
+    }
+  }
+
+  /**
+   * An entity's snapshots, newest first.
+   */
+  async getSnapshots(
+    entityId: string,
+    reportType?: ReportSnapshotType
+  ): Promise<ReportSnapshot[]> {
+    try {
+      const rows = reportType
+        ? await this.db.query<DbReportSnapshot>(
+            `SELECT * FROM ${this.TABLE_NAME} WHERE entity_id = ?1 AND report_type = ?2
+             ORDER BY finalized_at DESC, version DESC`,
+            [entityId, reportType]
+          )
+        : await this.db.query<DbReportSnapshot>(
+            `SELECT * FROM ${this.TABLE_NAME} WHERE entity_id = ?1
+             ORDER BY finalized_at DESC, version DESC`,
+            [entityId]
+          );
+      return rows.map((row) => this.toAppSnapshot(row));
+    } catch (error: unknown) {
+      throw this.databaseError("getSnapshots", "Failed to retrieve report snapshots.", error);
+    }
+  }
+
+  async getSnapshotById(id: string): Promise<ReportSnapshot | null> {
+    try {
+      const row = await this.db.queryOne<DbReportSnapshot>(
+        `SELECT * FROM ${this.TABLE_NAME} WHERE id = ?1`,
+        [id]
+      );
+      return row ? this.toAppSnapshot(row) : null;
+    } catch (error: unknown) {
+      throw this.databaseError("getSnapshotById", "Failed to retrieve report snapshot.", error);
+    }
+  }
+
+  /**
+   * The report as finalized. Fails if what is stored no longer matches the
+   * hash recorded when it was finalized.
+   */
+  async getSnapshotReport<T = unknown>(snapshot: ReportSnapshot): Promise<T> {
+    let content: string | null;
+    try {
+      const object = await this.storage.download(
+        this.storageKey(snapshot.entityId, snapshot.reportType, snapshot.id)
+      );
+      content = object ? await object.text() : null;
+    } catch (error: unknown) {
+      throw this.storageError("getSnapshotReport", "Failed to read the finalized report.", error);
+    }
+
+    if (content === null || (await sha256Hex(content)) !== snapshot.contentHash) {
+      console.error(`ReportSnapshotService.getSnapshotReport: snapshot ${snapshot.id} is missing or altered`);
+      throw new AppError(
+        "The finalized report is missing or does not match its recorded hash.",
+        500,
+        true,
+        "StorageError",
+        "SNAPSHOT_INTEGRITY_ERROR"
+      );
+    }
+    return JSON.parse(content) as T;
+  }
+}
+
+export function createReportSnapshotService(
+  d1: D1Database,
+  bucket: R2Bucket
+): ReportSnapshotService {
+  return new ReportSnapshotService(d1, bucket);
+}
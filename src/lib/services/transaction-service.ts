@@ -0,0 +1,1454 @@
+// src/lib/services/transaction-service.ts
+import type {
+  D1Database,
+  D1PreparedStatement,
+} from "@cloudflare/workers-types";
+import { createDbClient, type Database } from "@db/db";
+import {
+  AppError,
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+} from "../../utils/errors";
+import { Transaction, type TransactionLine } from "../accounting/core/transaction";
+import type { PeriodLockContext } from "../accounting/core/fiscal-period";
+import {
+  DUE_FROM_ACCOUNT_CODE,
+  DUE_TO_ACCOUNT_CODE,
+  type IntercompanyAccounts,
+} from "../accounting/core/intercompany";
+import {
+  dimensionConditions,
+  fromDimensionColumns,
+  hasDimensions,
+  normalizeDimensions,
+  toDimensionColumns,
+  type DimensionFilter,
+  type LineDimensions,
+} from "../accounting/core/dimensions";
+import type {
+  LedgerAuditEventType,
+  LedgerSnapshot,
+  LedgerSnapshotLine,
+} from "../accounting/core/audit-chain";
+import {
+  createLedgerAuditService,
+  type LedgerAuditService,
+} from "./ledger-audit-service";
+import {
+  createExchangeRateService,
+  type ExchangeRateService,
+} from "./exchange-rate-service";
+import type { DbJournal } from "./journal-service";
+
+type DbTransactionStatus = "pending" | "posted" | "voided";
+export type AppTransactionStatus = "draft" | "posted" | "void";
+
+export interface DbTransaction {
+  id: string;
+  user_id: string;
+  entity_id: string;
+  journal_id: string | null;
+  date: number; // Unix seconds
+  description: string;
+  reference: string | null;
+  status: DbTransactionStatus;
+  is_reconciled: number;
+  document_url: string | null;
+  reversal_of_transaction_id: string | null;
+  correction_of_transaction_id: string | null;
+  intercompany_of_transaction_id: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface DbTransactionLine {
+  id: string;
+  transaction_id: string;
+  entity_account_id: string;
+  amount: number; // Cents, functional currency
+  is_debit: number;
+  memo: string | null;
+  currency_code: string;
+  foreign_amount: number | null; // Cents, in currency_code
+  exchange_rate: string | null;
+  property_id: string | null;
+  unit_id: string | null;
+  class_name: string | null;
+  tags: string | null; // JSON array
+  created_at: number;
+}
+
+export interface AppTransactionLine {
+  id: string;
+  accountId: string; // entity_accounts.id
+  /** Amount in the entity's functional currency */
+  amount: string;
+  isDebit: boolean;
+  memo: string | null;
+  currencyCode: string;
+  /** Amount in currencyCode; null when that is the functional currency */
+  foreignAmount: string | null;
+  exchangeRate: string | null;
+  propertyId: string | null;
+  unitId: string | null;
+  className: string | null;
+  tags: string[];
+}
+
+export interface AppTransaction {
+  id: string;
+  entityId: string;
+  journalId: string | null;
+  date: Date;
+  description: string;
+  reference: string | null;
+  status: AppTransactionStatus;
+  isReconciled: boolean;
+  documentUrl: string | null;
+  /** Set on reversing entries: the posted transaction being reversed */
+  reversalOfTransactionId: string | null;
+  /** Set on replacement entries: the posted transaction being corrected */
+  correctionOfTransactionId: string | null;
+  /** Set on the counterparty's mirror of an intercompany entry: the originating transaction */
+  intercompanyOfTransactionId: string | null;
+  lines: AppTransactionLine[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TransactionFilters {
+  entityId: string;
+  userId: string;
+  page?: number;
+  limit?: number;
+  status?: AppTransactionStatus;
+  accountId?: string;
+  startDate?: string;
+  endDate?: string;
+  /** Only transactions with at least one line matching these dimensions */
+  dimensions?: DimensionFilter;
+}
+
+export interface TransactionLineInput {
+  id?: string;
+  accountId: string;
+  /** Amount in currencyCode */
+  amount: string;
+  isDebit: boolean;
+  memo?: string | null;
+  /** Defaults to the entity's functional currency */
+  currencyCode?: string | null;
+  /** Intercompany: entity the account belongs to; defaults to the transaction's entity */
+  entityId?: string | null;
+  /** Reporting dimensions */
+  propertyId?: string | null;
+  unitId?: string | null;
+  className?: string | null;
+  tags?: string[] | null;
+}
+
+export interface UpdateTransactionInput {
+  date?: string;
+  description?: string;
+  reference?: string | null;
+  journalId?: string | null;
+  lines?: TransactionLineInput[] | null;
+}
+
+export interface TransactionCorrection {
+  original: AppTransaction;
+  reversal: AppTransaction;
+  correction: AppTransaction;
+}
+
+/** A new transaction to insert, together with the audit event it produces */
+export interface LedgerWrite {
+  transaction: Transaction;
+  journalId: string | null;
+  eventType: Extract<LedgerAuditEventType, "create" | "reverse">;
+  reversalOfTransactionId?: string;
+  correctionOfTransactionId?: string;
+  intercompanyOfTransactionId?: string;
+}
+
+export interface EntityAccountValidationResult {
+  success: boolean;
+  error?: string;
+  invalidAccounts?: string[];
+}
+
+interface DbIntercompanyParty {
+  name: string;
+  functional_currency: string;
+  root_id: string;
+  due_from_account_id: string | null;
+  due_to_account_id: string | null;
+}
+
+const STATUS_TO_DB: Record<AppTransactionStatus, DbTransactionStatus> = {
+  draft: "pending",
+  posted: "posted",
+  void: "voided",
+};
+
+const STATUS_FROM_DB: Record<DbTransactionStatus, AppTransactionStatus> = {
+  pending: "draft",
+  posted: "posted",
+  voided: "void",
+};
+
+function mapDbTransaction(
+  row: DbTransaction,
+  lines: DbTransactionLine[]
+): AppTransaction {
+  return {
+    id: row.id,
+    entityId: row.entity_id,
+    journalId: row.journal_id,
+    date: new Date(row.date * 1000),
+    description: row.description,
+    reference: row.reference,
+    status: STATUS_FROM_DB[row.status],
+    isReconciled: Boolean(row.is_reconciled),
+    documentUrl: row.document_url,
+    reversalOfTransactionId: row.reversal_of_transaction_id,
+    correctionOfTransactionId: row.correction_of_transaction_id,
+    intercompanyOfTransactionId: row.intercompany_of_transaction_id,
+    lines: lines.map((line) => ({
+      id: line.id,
+      accountId: line.entity_account_id,
+      amount: (line.amount / 100).toFixed(2),
+      isDebit: Boolean(line.is_debit),
+      memo: line.memo,
+      currencyCode: line.currency_code,
+      foreignAmount: line.foreign_amount !== null ? (line.foreign_amount / 100).toFixed(2) : null,
+      exchangeRate: line.exchange_rate,
+      ...toAppDimensions(fromDimensionColumns(line)),
+    })),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toAppDimensions(
+  dimensions: LineDimensions
+): Pick<AppTransactionLine, "propertyId" | "unitId" | "className" | "tags"> {
+  return {
+    propertyId: dimensions.propertyId ?? null,
+    unitId: dimensions.unitId ?? null,
+    className: dimensions.className ?? null,
+    tags: dimensions.tags ?? [],
+  };
+}
+
+/**
+ * Domain line for an application line. The currency travels in the line
+ * metadata, which reversals copy over.
+ */
+function toDomainLine(line: AppTransactionLine): TransactionLine {
+  const dimensions = normalizeDimensions(line);
+  return {
+    id: line.id,
+    accountId: line.accountId,
+    amount: line.amount,
+    isDebit: line.isDebit,
+    ...(line.memo ? { description: line.memo } : {}),
+    metadata: {
+      currencyCode: line.currencyCode,
+      foreignAmount: line.foreignAmount,
+      exchangeRate: line.exchangeRate,
+    },
+    ...(hasDimensions(dimensions) ? { dimensions } : {}),
+  };
+}
+
+function fromDomainLine(line: TransactionLine, functionalCurrency: string): AppTransactionLine {
+  return {
+    id: line.id,
+    accountId: line.accountId,
+    amount: String(line.amount),
+    isDebit: line.isDebit,
+    memo: line.description ?? null,
+    currencyCode: line.metadata?.currencyCode ?? functionalCurrency,
+    foreignAmount: line.metadata?.foreignAmount ?? null,
+    exchangeRate: line.metadata?.exchangeRate ?? null,
+    ...toAppDimensions(line.dimensions ?? {}),
+  };
+}
+
+/** The line as originally entered, for converting it again */
+function toLineInput(line: AppTransactionLine): TransactionLineInput {
+  return {
+    id: line.id,
+    accountId: line.accountId,
+    amount: line.foreignAmount ?? line.amount,
+    isDebit: line.isDebit,
+    memo: line.memo,
+    currencyCode: line.currencyCode,
+    propertyId: line.propertyId,
+    unitId: line.unitId,
+    className: line.className,
+    tags: line.tags,
+  };
+}
+
+export class TransactionService {
+  private db: Database;
+  private audit: LedgerAuditService;
+  private fx: ExchangeRateService;
+  private readonly TABLE_NAME = "transactions";
+  private readonly LINES_TABLE_NAME = "transaction_lines";
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+    this.audit = createLedgerAuditService(d1);
+    this.fx = createExchangeRateService(d1);
+  }
+
+  private toCents(amount: string | number): number {
+    return Math.round(parseFloat(String(amount)) * 100);
+  }
+
+  private toUnix(date: Date): number {
+    return Math.floor(date.getTime() / 1000);
+  }
+
+  private toUnixDay(dateStr: string, endOfDay = false): number {
+    const time = endOfDay ? "T23:59:59.000Z" : "T00:00:00.000Z";
+    const unix = Math.floor(Date.parse(`${dateStr}${time}`) / 1000);
+    if (Number.isNaN(unix)) {
+      throw new ValidationError(`Invalid date "${dateStr}". Expected YYYY-MM-DD.`);
+    }
+    return unix;
+  }
+
+  private databaseError(method: string, message: string, error: unknown): AppError {
+    if (error instanceof AppError) return error;
+    console.error(`TransactionService.${method} error:`, error);
+    return new AppError(message, 500, true, "DatabaseError", "DATABASE_ERROR");
+  }
+
+  /**
+   * Whether the user owns the entity or has been granted access to it.
+   */
+  async hasEntityAccess(entityId: string, userId: string): Promise<boolean> {
+    try {
+      const row = await this.db.queryOne<{ id: string }>(
+        `SELECT e.id FROM entities e
+         WHERE e.id = ?1
+           AND (e.user_id = ?2 OR EXISTS (
+             SELECT 1 FROM entity_access ea WHERE ea.entity_id = e.id AND ea.user_id = ?2
+           ))`,
+        [entityId, userId]
+      );
+      return row !== null;
+    } catch (error: unknown) {
+      throw this.databaseError("hasEntityAccess", "Failed to check entity access.", error);
+    }
+  }
+
+  /**
+   * Check that every entity account ID belongs to the entity and is active.
+   */
+  async validateEntityAccounts(
+    entityId: string,
+    accountIds: string[],
+    userId: string
+  ): Promise<EntityAccountValidationResult> {
+    if (!(await this.hasEntityAccess(entityId, userId))) {
+      return { success: false, error: "Access denied to this entity" };
+    }
+
+    const uniqueIds = [...new Set(accountIds)];
+    if (uniqueIds.length === 0) {
+      return { success: false, error: "No accounts provided", invalidAccounts: [] };
+    }
+
+    try {
+      const placeholders = uniqueIds.map((_, i) => `?${i + 2}`).join(", ");
+      const rows = await this.db.query<{ id: string }>(
+        `SELECT id FROM entity_accounts WHERE entity_id = ?1 AND is_active = 1 AND id IN (${placeholders})`,
+        [entityId, ...uniqueIds]
+      );
+      const found = new Set(rows.map((r) => r.id));
+      const invalidAccounts = uniqueIds.filter((id) => !found.has(id));
+      if (invalidAccounts.length > 0) {
+        return {
+          success: false,
+          error: "One or more accounts do not belong to this entity or are inactive",
+          invalidAccounts,
+        };
+      }
+      return { success: true };
+    } catch (error: unknown) {
+      throw this.databaseError("validateEntityAccounts", "Failed to validate accounts.", error);
+    }
+  }
+
+  async getTransactions(filters: TransactionFilters): Promise<{
+    transactions: AppTransaction[];
+    total: number;
+    totalPages: number;
+  }> {
+    const page = Math.max(1, filters.page ?? 1);
+    const limit = Math.min(Math.max(1, filters.limit ?? 25), 100);
+
+    const conditions = ["t.entity_id = ?1"];
+    const params: unknown[] = [filters.entityId];
+    if (filters.status) {
+      params.push(STATUS_TO_DB[filters.status]);
+      conditions.push(`t.status = ?${params.length}`);
+    }
+    if (filters.startDate) {
+      params.push(this.toUnixDay(filters.startDate));
+      conditions.push(`t.date >= ?${params.length}`);
+    }
+    if (filters.endDate) {
+      params.push(this.toUnixDay(filters.endDate, true));
+      conditions.push(`t.date <= ?${params.length}`);
+    }
+    if (filters.accountId) {
+      params.push(filters.accountId);
+      conditions.push(
+        `EXISTS (SELECT 1 FROM ${this.LINES_TABLE_NAME} tl WHERE tl.transaction_id = t.id AND tl.entity_account_id = ?${params.length})`
+      );
+    }
+    if (hasDimensions(filters.dimensions)) {
+      const lineConditions = dimensionConditions(filters.dimensions, "tl", params);
+      conditions.push(
+        `EXISTS (SELECT 1 FROM ${this.LINES_TABLE_NAME} tl WHERE tl.transaction_id = t.id AND ${lineConditions.join(" AND ")})`
+      );
+    }
+    const where = conditions.join(" AND ");
+
+    try {
+      const countRow = await this.db.queryOne<{ total: number }>(
+        `SELECT COUNT(*) AS total FROM ${this.TABLE_NAME} t WHERE ${where}`,
+        params
+      );
+      const total = countRow?.total ?? 0;
+
+      const rows = await this.db.query<DbTransaction>(
+        `SELECT t.* FROM ${this.TABLE_NAME} t WHERE ${where}
+         ORDER BY t.date DESC, t.created_at DESC
+         LIMIT ?${params.length + 1} OFFSET ?${params.length + 2}`,
+        [...params, limit, (page - 1) * limit]
+      );
+      const linesByTransaction = await this.getLines(rows.map((r) => r.id));
+
+      return {
+        transactions: rows.map((row) =>
+          mapDbTransaction(row, linesByTransaction.get(row.id) ?? [])
+        ),
+        total,
+        totalPages: Math.ceil(total / limit),
+      };
+    } catch (error: unknown) {
+      throw this.databaseError("getTransactions", "Failed to retrieve transactions.", error);
+    }
+  }
+
+  async getTransactionById(id: string, userId: string): Promise<AppTransaction | null> {
+    let row: DbTransaction | null;
+    try {
+      row = await this.db.queryOne<DbTransaction>(
+        `SELECT * FROM ${this.TABLE_NAME} WHERE id = ?1`,
+        [id]
+      );
+    } catch (error: unknown) {
+      throw this.databaseError("getTransactionById", "Failed to retrieve transaction.", error);
+    }
+    if (!row || !(await this.hasEntityAccess(row.entity_id, userId))) {
+      return null;
+    }
+    const lines = await this.getLines([row.id]);
+    return mapDbTransaction(row, lines.get(row.id) ?? []);
+  }
+
+  /**
+   * Persist a new transaction. Its status (draft or posted) is taken from the
+   * Transaction object, so callers post it first when appropriate. An
+   * intercompany transaction is saved as the originating entity's side, under
+   * the transaction's ID, plus a linked mirror in the counterparty entity.
+   */
+  async createTransaction(transaction: Transaction, userId: string): Promise<AppTransaction> {
+    if (transaction.status === "void") {
+      throw new ValidationError("A voided transaction cannot be created.");
+    }
+    const journalId: string | null = transaction.metadata?.journalId ?? null;
+    await this.assertJournalTakesEntries(transaction.entityId, journalId);
+    const writes: LedgerWrite[] = transaction.isIntercompany()
+      ? await this.splitIntercompany(transaction, journalId, userId)
+      : [{ transaction, journalId, eventType: "create" }];
+    await this.writeTransactions(writes, userId, "Failed to create transaction.");
+    return this.getRequiredTransaction(transaction.id, userId);
+  }
+
+  /**
+   * The other side of an intercompany entry: the mirror of an originating
+   * transaction, or the origin of a mirror. Empty for other transactions.
+   */
+  async getIntercompanyCounterparts(
+    transaction: AppTransaction,
+    userId: string
+  ): Promise<AppTransaction[]> {
+    let rows: DbTransaction[];
+    try {
+      rows = await this.db.query<DbTransaction>(
+        `SELECT * FROM ${this.TABLE_NAME} WHERE intercompany_of_transaction_id = ?1 OR id = ?2`,
+        [transaction.id, transaction.intercompanyOfTransactionId]
+      );
+    } catch (error: unknown) {
+      throw this.databaseError("getIntercompanyCounterparts", "Failed to retrieve intercompany entries.", error);
+    }
+    for (const row of rows) {
+      if (!(await this.hasEntityAccess(row.entity_id, userId))) {
+        throw new NotFoundError(
+          "Intercompany counterpart not found or access denied.",
+          "TRANSACTION_NOT_FOUND"
+        );
+      }
+    }
+    const lines = await this.getLines(rows.map((r) => r.id));
+    return rows.map((row) => mapDbTransaction(row, lines.get(row.id) ?? []));
+  }
+
+  /**
+   * Convert lines entered in any currency into the entity's functional
+   * currency at the rates in effect on the transaction date. The returned
+   * domain lines keep their original currency, amount and rate.
+   */
+  async convertLines(
+    entityId: string,
+    date: Date,
+    lines: TransactionLineInput[]
+  ): Promise<TransactionLine[]> {
+    const converted = await this.convertAppLines(entityId, date, lines);
+    return converted.map((line, i) => {
+      const lineEntityId = lines[i]?.entityId;
+      return {
+        ...toDomainLine(line),
+        ...(lineEntityId && lineEntityId !== entityId ? { entityId: lineEntityId } : {}),
+      };
+    });
+  }
+
+  /**
+   * Update a draft transaction in place. Posted transactions are immutable;
+   * use correctPostedTransaction() for them.
+   */
+  async updateTransaction(
+    id: string,
+    updates: UpdateTransactionInput,
+    userId: string
+  ): Promise<AppTransaction> {
+    const existing = await this.getRequiredTransaction(id, userId);
+    if (existing.status !== "draft") {
+      throw new ConflictError(
+        `Cannot modify a transaction with status "${existing.status}".`,
+        "TRANSACTION_NOT_DRAFT"
+      );
+    }
+    if (updates.journalId !== undefined) {
+      await this.assertJournalTakesEntries(existing.entityId, updates.journalId);
+    }
+
+    const d1 = this.db.d1Instance;
+    const now = Math.floor(Date.now() / 1000);
+    const date = updates.date ? new Date(`${updates.date}T00:00:00.000Z`) : existing.date;
+    // Foreign-currency lines are converted again when the date moves
+    const lineInputs =
+      updates.lines ??
+      (updates.date && existing.lines.some((line) => line.foreignAmount !== null)
+        ? existing.lines.map(toLineInput)
+        : undefined);
+    const lines = lineInputs
+      ? await this.convertAppLines(existing.entityId, date, lineInputs)
+      : undefined;
+    const snapshot: LedgerSnapshot = {
+      ...this.snapshotOf(existing),
+      date: updates.date ? this.toUnixDay(updates.date) : this.toUnix(existing.date),
+      description: updates.description ?? existing.description,
+      reference: updates.reference !== undefined ? updates.reference : existing.reference,
+      journalId: updates.journalId !== undefined ? updates.journalId : existing.journalId,
+    };
+    if (lines) {
+      snapshot.lines = lines.map((line) => this.snapshotLine(line));
+    }
+
+    const statements: D1PreparedStatement[] = [
+      d1
+        .prepare(
+          `UPDATE ${this.TABLE_NAME}
+           SET date = ?2, description = ?3, reference = ?4, journal_id = ?5, updated_at = ?6
+           WHERE id = ?1 AND status = 'pending'`
+        )
+        .bind(
+          id,
+          snapshot.date,
+          snapshot.description,
+          snapshot.reference,
+          snapshot.journalId,
+          now
+        ),
+    ];
+
+    if (lines) {
+      statements.push(
+        d1.prepare(`DELETE FROM ${this.LINES_TABLE_NAME} WHERE transaction_id = ?1`).bind(id),
+        ...lines.map((line) => this.lineStatement(id, line, now))
+      );
+    }
+
+    statements.push(
+      ...(await this.audit.appendStatements(existing.entityId, [
+        { eventType: "update", transactionId: id, userId, snapshot },
+      ]))
+    );
+    await this.runBatch(statements, "Failed to update transaction.");
+    return this.getRequiredTransaction(id, userId);
+  }
+
+  /**
+   * Replace a posted transaction without rewriting it: post a reversing entry
+   * dated on the original date that cancels it, then post the corrected entry.
+   * The original stays untouched; both new entries point back to it. An entry
+   * can be reversed only once, and reversing or correcting entries are not
+   * corrected themselves.
+   */
+  async correctPostedTransaction(
+    id: string,
+    updates: UpdateTransactionInput,
+    userId: string,
+    periodLock?: PeriodLockContext
+  ): Promise<TransactionCorrection> {
+    const existing = await this.getRequiredTransaction(id, userId);
+    if (existing.status !== "posted") {
+      throw new ConflictError(
+        `Only posted transactions can be corrected. Current status: "${existing.status}".`,
+        "TRANSACTION_NOT_POSTED"
+      );
+    }
+    if (existing.reversalOfTransactionId || existing.correctionOfTransactionId) {
+      throw new ConflictError(
+        "Reversing and correcting entries cannot be corrected themselves.",
+        "TRANSACTION_NOT_CORRECTABLE"
+      );
+    }
+    await this.assertNotClosingEntry(existing);
+    await this.assertNotReversed(existing);
+    if ((await this.getIntercompanyCounterparts(existing, userId)).length > 0) {
+      throw new ConflictError(
+        "An intercompany entry cannot be corrected one side at a time. Void it and enter it again.",
+        "INTERCOMPANY_LINKED"
+      );
+    }
+
+    const original = this.toDomainTransaction(existing);
+    const reversal = original.createReversal(
+      crypto.randomUUID(),
+      original.date,
+      `Reversal of "${existing.description}" (corrected)`,
+      periodLock
+    );
+
+    const reference = updates.reference !== undefined ? updates.reference : existing.reference;
+    const date = updates.date ? new Date(`${updates.date}T00:00:00.000Z`) : existing.date;
+    const correction = new Transaction({
+      id: crypto.randomUUID(),
+      date,
+      description: updates.description ?? existing.description,
+      entityId: existing.entityId,
+      status: "draft",
+      ...(reference ? { reference } : {}),
+      lines: await this.convertLines(
+        existing.entityId,
+        date,
+        (updates.lines ?? existing.lines.map(toLineInput)).map((line) => ({
+          ...line,
+          id: crypto.randomUUID(),
+        }))
+      ),
+    });
+
+    if (!reversal.post(periodLock) || !correction.post(periodLock)) {
+      throw new ValidationError(
+        "Corrected transaction is not balanced. Total debits must equal total credits."
+      );
+    }
+
+    const journalId = updates.journalId !== undefined ? updates.journalId : existing.journalId;
+    if (updates.journalId !== undefined) {
+      await this.assertJournalTakesEntries(existing.entityId, updates.journalId);
+    }
+    await this.writeTransactions(
+      [
+        {
+          transaction: reversal,
+          journalId: existing.journalId,
+          eventType: "reverse",
+          reversalOfTransactionId: existing.id,
+        },
+        {
+          transaction: correction,
+          journalId,
+          eventType: "create",
+          correctionOfTransactionId: existing.id,
+        },
+      ],
+      userId,
+      "Failed to save transaction correction."
+    );
+
+    return {
+      original: existing,
+      reversal: await this.getRequiredTransaction(reversal.id, userId),
+      correction: await this.getRequiredTransaction(correction.id, userId),
+    };
+  }
+
+  /**
+   * Post a draft transaction. Both sides of an intercompany entry are posted
+   * together: `periodLock` applies to the side being posted and
+   * `counterpartLocks`, by entity ID, to the other side.
+   */
+  async postTransaction(
+    id: string,
+    userId: string,
+    periodLock?: PeriodLockContext,
+    counterpartLocks: Map<string, PeriodLockContext> = new Map()
+  ): Promise<AppTransaction> {
+    const existing = await this.getRequiredTransaction(id, userId);
+    await this.assertNotClosingEntry(existing);
+    const counterparts = await this.getIntercompanyCounterparts(existing, userId);
+
+    const prepared = [await this.prepareToPost(existing, periodLock)];
+    for (const counterpart of counterparts) {
+      prepared.push(await this.prepareToPost(counterpart, counterpartLocks.get(counterpart.entityId)));
+    }
+    await this.setStatus(
+      prepared.map((p) => p.transaction),
+      "post",
+      userId,
+      "Failed to post transaction.",
+      prepared.flatMap((p) => p.rateUpdates)
+    );
+    return this.getRequiredTransaction(id, userId);
+  }
+
+  /**
+   * Check that a draft can be posted. Foreign-currency lines are converted
+   * at the rate for the transaction date as it stands when posting, not when
+   * the draft was saved; the statements returned store the new amounts.
+   */
+  private async prepareToPost(
+    existing: AppTransaction,
+    periodLock?: PeriodLockContext
+  ): Promise<{ transaction: AppTransaction; rateUpdates: D1PreparedStatement[] }> {
+    let toPost = existing;
+    const rateUpdates: D1PreparedStatement[] = [];
+    if (existing.lines.some((line) => line.foreignAmount !== null)) {
+      const lines = await this.convertAppLines(
+        existing.entityId,
+        existing.date,
+        existing.lines.map(toLineInput)
+      );
+      toPost = { ...existing, lines };
+      for (const line of lines) {
+        rateUpdates.push(
+          this.db.d1Instance
+            .prepare(`UPDATE ${this.LINES_TABLE_NAME} SET amount = ?2, exchange_rate = ?3 WHERE id = ?1`)
+            .bind(line.id, this.toCents(line.amount), line.exchangeRate)
+        );
+      }
+    }
+
+    if (!this.toDomainTransaction(toPost).post(periodLock)) {
+      throw new ValidationError(
+        "Transaction must have at least two lines and be balanced to be posted."
+      );
+    }
+    return { transaction: toPost, rateUpdates };
+  }
+
+  /**
+   * Void a posted transaction. Both sides of an intercompany entry are voided
+   * together; `periodLock` applies to the side being voided, so callers check
+   * the counterparty's periods themselves. Reversing and correcting entries
+   * are not voided: that would bring back the entry they cancel next to its
+   * replacement.
+   */
+  async voidTransaction(
+    id: string,
+    userId: string,
+    periodLock?: PeriodLockContext
+  ): Promise<AppTransaction> {
+    const existing = await this.getRequiredTransaction(id, userId);
+    if (existing.reversalOfTransactionId || existing.correctionOfTransactionId) {
+      throw new ConflictError(
+        "Reversing and correcting entries cannot be voided.",
+        "TRANSACTION_NOT_VOIDABLE"
+      );
+    }
+    await this.assertNotClosingEntry(existing);
+    this.toDomainTransaction(existing).void(periodLock);
+    await this.assertNotReversed(existing);
+    const counterparts = await this.getIntercompanyCounterparts(existing, userId);
+    for (const counterpart of counterparts) {
+      this.toDomainTransaction(counterpart).void();
+    }
+    await this.setStatus([existing, ...counterparts], "void", userId, "Failed to void transaction.");
+    return this.getRequiredTransaction(id, userId);
+  }
+
+  /**
+   * Delete a draft transaction. Both sides of an intercompany entry are
+   * deleted together.
+   */
+  async deleteTransaction(id: string, userId: string): Promise<boolean> {
+    const existing = await this.getRequiredTransaction(id, userId);
+    if (existing.status !== "draft") {
+      throw new ConflictError(
+        `Cannot delete a transaction with status "${existing.status}".`,
+        "TRANSACTION_NOT_DRAFT"
+      );
+    }
+    const counterparts = await this.getIntercompanyCounterparts(existing, userId);
+    const deleted = await this.deleteDraftTransactions(
+      [existing.id, ...counterparts.map((counterpart) => counterpart.id)],
+      userId,
+      "Failed to delete transaction."
+    );
+    return deleted > 0;
+  }
+
+  /**
+   * Posted balance of a chart-of-accounts account within an entity, signed by
+   * the account's normal balance.
+   */
+  async getAccountBalance(
+    accountId: string,
+    entityId: string,
+    userId: string,
+    asOf?: Date
+  ): Promise<number> {
+    return this.sumAccountLines(accountId, entityId, userId, {
+      ...(asOf ? { asOf } : {}),
+      unreconciledOnly: false,
+    });
+  }
+
+  async getUnreconciledBalance(
+    accountId: string,
+    entityId: string,
+    userId: string
+  ): Promise<number> {
+    return this.sumAccountLines(accountId, entityId, userId, { unreconciledOnly: true });
+  }
+
+  private async sumAccountLines(
+    accountId: string,
+    entityId: string,
+    userId: string,
+    options: { asOf?: Date; unreconciledOnly: boolean }
+  ): Promise<number> {
+    if (!(await this.hasEntityAccess(entityId, userId))) {
+      throw new NotFoundError("Entity not found or access denied.", "ENTITY_NOT_FOUND");
+    }
+    const params: unknown[] = [entityId, accountId];
+    let extra = "";
+    if (options.asOf) {
+      params.push(this.toUnix(options.asOf));
+      extra += ` AND t.date <= ?${params.length}`;
+    }
+    if (options.unreconciledOnly) {
+      extra += " AND t.is_reconciled = 0";
+    }
+
+    try {
+      const row = await this.db.queryOne<{ debits: number | null; credits: number | null; type: string }>(
+        `SELECT coa.type AS type,
+                SUM(CASE WHEN tl.is_debit = 1 THEN tl.amount ELSE 0 END) AS debits,
+                SUM(CASE WHEN tl.is_debit = 0 THEN tl.amount ELSE 0 END) AS credits
+         FROM entity_accounts ea
+         JOIN chart_of_accounts coa ON coa.id = ea.account_id
+         LEFT JOIN ${this.LINES_TABLE_NAME} tl ON tl.entity_account_id = ea.id
+           AND tl.transaction_id IN (
+             SELECT t.id FROM ${this.TABLE_NAME} t
+             WHERE t.entity_id = ?1 AND t.status = 'posted'${extra}
+           )
+         WHERE ea.entity_id = ?1 AND ea.account_id = ?2
+         GROUP BY coa.type`,
+        params
+      );
+      if (!row) return 0;
+      const net = (row.debits ?? 0) - (row.credits ?? 0);
+      const debitNormal = row.type === "asset" || row.type === "expense";
+      return (debitNormal ? net : -net) / 100;
+    } catch (error: unknown) {
+      throw this.databaseError("getAccountBalance", "Failed to calculate account balance.", error);
+    }
+  }
+
+  private async getRequiredTransaction(id: string, userId: string): Promise<AppTransaction> {
+    const transaction = await this.getTransactionById(id, userId);
+    if (!transaction) {
+      throw new NotFoundError("Transaction not found or access denied.", "TRANSACTION_NOT_FOUND");
+    }
+    return transaction;
+  }
+
+  /**
+   * Throw a ConflictError if a posted entry already reverses the transaction.
+   * Correcting or voiding it again would leave that reversal in the ledger.
+   */
+  private async assertNotReversed(transaction: AppTransaction): Promise<void> {
+    let reversal: { id: string } | null;
+    try {
+      reversal = await this.db.queryOne<{ id: string }>(
+        `SELECT id FROM ${this.TABLE_NAME} WHERE reversal_of_transaction_id = ?1 AND status = 'posted' LIMIT 1`,
+        [transaction.id]
+      );
+    } catch (error: unknown) {
+      throw this.databaseError("assertNotReversed", "Failed to check for reversing entries.", error);
+    }
+    if (reversal) {
+      throw new ConflictError(
+        `Transaction "${transaction.description}" has already been reversed by ${reversal.id}.`,
+        "TRANSACTION_ALREADY_REVERSED"
+      );
+    }
+  }
+
+  private async getJournal(journalId: string): Promise<Pick<DbJournal, "entity_id" | "type"> | null> {
+    try {
+      return await this.db.queryOne<Pick<DbJournal, "entity_id" | "type">>(
+        `SELECT entity_id, type FROM journals WHERE id = ?1`,
+        [journalId]
+      );
+    } catch (error: unknown) {
+      throw this.databaseError("getJournal", "Failed to retrieve journal.", error);
+    }
+  }
+
+  /**
+   * Throw a ConflictError for entries in the year-end closing journal. The
+   * year's close record refers to them, so they change only by reopening
+   * the year.
+   */
+  private async assertNotClosingEntry(transaction: AppTransaction): Promise<void> {
+    if (!transaction.journalId) return;
+    const journal = await this.getJournal(transaction.journalId);
+    if (journal?.type === "closing") {
+      throw new ConflictError(
+        "Year-end closing entries cannot be changed. Reopen the fiscal year through POST /api/fiscal-periods/year-end-close instead.",
+        "TRANSACTION_IS_CLOSING_ENTRY"
+      );
+    }
+  }
+
+  /**
+   * Throw a ValidationError unless the journal belongs to the entity and
+   * takes ordinary entries. The year-end closing journal holds closing
+   * entries only, which the income statement leaves out.
+   */
+  private async assertJournalTakesEntries(entityId: string, journalId: string | null): Promise<void> {
+    if (!journalId) return;
+    const journal = await this.getJournal(journalId);
+    if (!journal || journal.entity_id !== entityId) {
+      throw new ValidationError("Journal not found for this entity.");
+    }
+    if (journal.type === "closing") {
+      throw new ValidationError("Entries cannot be added to the year-end closing journal.");
+    }
+  }
+
+  private async getLines(transactionIds: string[]): Promise<Map<string, DbTransactionLine[]>> {
+    const byTransaction = new Map<string, DbTransactionLine[]>();
+    if (transactionIds.length === 0) return byTransaction;
+
+    const placeholders = transactionIds.map((_, i) => `?${i + 1}`).join(", ");
+    const lines = await this.db.query<DbTransactionLine>(
+      `SELECT * FROM ${this.LINES_TABLE_NAME} WHERE transaction_id IN (${placeholders}) ORDER BY created_at, id`,
+      transactionIds
+    );
+    for (const line of lines) {
+      const list = byTransaction.get(line.transaction_id) ?? [];
+      list.push(line);
+      byTransaction.set(line.transaction_id, list);
+    }
+    return byTransaction;
+  }
+
+  private toDomainTransaction(transaction: AppTransaction): Transaction {
+    return new Transaction({
+      id: transaction.id,
+      date: transaction.date,
+      description: transaction.description,
+      entityId: transaction.entityId,
+      status: transaction.status,
+      ...(transaction.reference ? { reference: transaction.reference } : {}),
+      lines: transaction.lines.map(toDomainLine),
+    });
+  }
+
+  private async convertAppLines(
+    entityId: string,
+    date: Date,
+    lines: TransactionLineInput[]
+  ): Promise<AppTransactionLine[]> {
+    const converted = await this.fx.convertLines(entityId, date.toISOString().slice(0, 10), lines);
+    return converted.map((line) => ({
+      id: line.id ?? crypto.randomUUID(),
+      accountId: line.accountId,
+      amount: line.amount,
+      isDebit: line.isDebit,
+      memo: line.memo ?? null,
+      currencyCode: line.currencyCode,
+      foreignAmount: line.foreignAmount,
+      exchangeRate: line.exchangeRate,
+      ...toAppDimensions(normalizeDimensions(line)),
+    }));
+  }
+
+  private async setStatus(
+    transactions: AppTransaction[],
+    eventType: "post" | "void",
+    userId: string,
+    failureMessage: string,
+    extraStatements: D1PreparedStatement[] = []
+  ): Promise<void> {
+    const [status, expected]: [DbTransactionStatus, DbTransactionStatus] =
+      eventType === "post" ? ["posted", "pending"] : ["voided", "posted"];
+    const now = Math.floor(Date.now() / 1000);
+    const statements = transactions.map((transaction) =>
+      this.db.d1Instance
+        .prepare(
+          `UPDATE ${this.TABLE_NAME} SET status = ?2, updated_at = ?3 WHERE id = ?1 AND status = ?4`
+        )
+        .bind(transaction.id, status, now, expected)
+    );
+
+    const auditStatements: D1PreparedStatement[] = [];
+    for (const entityId of new Set(transactions.map((t) => t.entityId))) {
+      auditStatements.push(
+        ...(await this.audit.appendStatements(
+          entityId,
+          transactions
+            .filter((t) => t.entityId === entityId)
+            .map((transaction) => ({
+              eventType,
+              transactionId: transaction.id,
+              userId,
+              snapshot: { ...this.snapshotOf(transaction), status },
+            }))
+        ))
+      );
+    }
+
+    await this.runBatch([...statements, ...extraStatements, ...auditStatements], failureMessage);
+  }
+
+  /**
+   * Insert new transactions and their audit events in one batch, together
+   * with any statements the caller needs to commit atomically with them.
+   * Transactions are inserted in order; each entity's audit events extend
+   * that entity's chain.
+   */
+  async writeTransactions(
+    writes: LedgerWrite[],
+    userId: string,
+    failureMessage: string,
+    extraStatements: D1PreparedStatement[] = []
+  ): Promise<void> {
+    if (writes.length === 0) return;
+
+    const now = Math.floor(Date.now() / 1000);
+    const entityIds = [...new Set(writes.map((w) => w.transaction.entityId))];
+    const currencies = new Map<string, string>();
+    for (const entityId of entityIds) {
+      currencies.set(entityId, await this.fx.getFunctionalCurrency(entityId));
+    }
+
+    const statements = writes.flatMap((write) =>
+      this.insertStatements(write, userId, now, currencies.get(write.transaction.entityId)!)
+    );
+    const auditStatements: D1PreparedStatement[] = [];
+    for (const entityId of entityIds) {
+      auditStatements.push(
+        ...(await this.audit.appendStatements(
+          entityId,
+          writes
+            .filter((write) => write.transaction.entityId === entityId)
+            .map((write) => ({
+              eventType: write.eventType,
+              transactionId: write.transaction.id,
+              userId,
+              snapshot: this.snapshotOfWrite(write, currencies.get(entityId)!),
+            }))
+        ))
+      );
+    }
+
+    await this.runBatch([...statements, ...extraStatements, ...auditStatements], failureMessage);
+  }
+
+  /**
+   * Delete draft transactions and record their audit events in one batch,
+   * together with any statements the caller needs to commit atomically with
+   * them. Nothing is deleted if any of them has been posted or voided; IDs
+   * of transactions that no longer exist are passed over.
+   *
+   * A transaction posted between the status check and the batch keeps its
+   * lines and fails the batch, so nothing is deleted or audited then either.
+   *
+   * @returns The number of transactions deleted
+   */
+  async deleteDraftTransactions(
+    ids: string[],
+    userId: string,
+    failureMessage: string,
+    extraStatements: D1PreparedStatement[] = []
+  ): Promise<number> {
+    const rows = await this.getStatuses(ids);
+
+    const entityIds = [...new Set(rows.map((row) => row.entity_id))];
+    for (const entityId of entityIds) {
+      if (!(await this.hasEntityAccess(entityId, userId))) {
+        throw new NotFoundError("Transaction not found or access denied.", "TRANSACTION_NOT_FOUND");
+      }
+    }
+    this.assertDrafts(rows);
+
+    const d1 = this.db.d1Instance;
+    const statements = rows.flatMap((row) => [
+      d1
+        .prepare(
+          `DELETE FROM ${this.LINES_TABLE_NAME} WHERE transaction_id = ?1
+             AND EXISTS (SELECT 1 FROM ${this.TABLE_NAME} WHERE id = ?1 AND status = 'pending')`
+        )
+        .bind(row.id),
+      d1.prepare(`DELETE FROM ${this.TABLE_NAME} WHERE id = ?1 AND status = 'pending'`).bind(row.id),
+      // SQLite has no RAISE outside triggers: json() rejects the text below,
+      // failing the batch when the transaction was not deleted.
+      d1
+        .prepare(
+          `SELECT json(CASE WHEN EXISTS (SELECT 1 FROM ${this.TABLE_NAME} WHERE id = ?1)
+             THEN 'transaction ' || ?1 || ' is no longer a draft' ELSE 'null' END)`
+        )
+        .bind(row.id),
+    ]);
+    const auditStatements: D1PreparedStatement[] = [];
+    for (const entityId of entityIds) {
+      auditStatements.push(
+        ...(await this.audit.appendStatements(
+          entityId,
+          rows
+            .filter((row) => row.entity_id === entityId)
+            .map((row) => ({ eventType: "delete" as const, transactionId: row.id, userId, snapshot: null }))
+        ))
+      );
+    }
+
+    try {
+      await this.runBatch([...statements, ...extraStatements, ...auditStatements], failureMessage);
+    } catch (error: unknown) {
+      // Report a transaction posted in the meantime as the conflict it is
+      await this.assertDraftTransactions(ids);
+      throw error;
+    }
+    return rows.length;
+  }
+
+  /**
+   * Check that none of the transactions has been posted or voided, for
+   * callers deleting them over several batches.
+   */
+  async assertDraftTransactions(ids: string[]): Promise<void> {
+    this.assertDrafts(await this.getStatuses(ids));
+  }
+
+  private async getStatuses(
+    ids: string[]
+  ): Promise<Array<Pick<DbTransaction, "id" | "entity_id" | "status">>> {
+    const rows: Array<Pick<DbTransaction, "id" | "entity_id" | "status">> = [];
+    try {
+      // D1 binds at most 100 parameters per statement
+      for (let i = 0; i < ids.length; i += 100) {
+        const chunk = ids.slice(i, i + 100);
+        const placeholders = chunk.map((_, j) => `?${j + 1}`).join(", ");
+        rows.push(
+          ...(await this.db.query<Pick<DbTransaction, "id" | "entity_id" | "status">>(
+            `SELECT id, entity_id, status FROM ${this.TABLE_NAME} WHERE id IN (${placeholders})`,
+            chunk
+          ))
+        );
+      }
+    } catch (error: unknown) {
+      throw this.databaseError("deleteDraftTransactions", "Failed to retrieve transactions.", error);
+    }
+    return rows;
+  }
+
+  private assertDrafts(rows: Array<Pick<DbTransaction, "status">>): void {
+    const notDrafts = rows.filter((row) => row.status !== "pending");
+    if (notDrafts.length > 0) {
+      throw new ConflictError(
+        `${notDrafts.length} of the transactions have been posted or voided and cannot be deleted.`,
+        "TRANSACTION_NOT_DRAFT"
+      );
+    }
+  }
+
+  /**
+   * Split an intercompany transaction into the entries each entity books:
+   * the originating side, which keeps the transaction's ID, and the
+   * counterparty's mirror linked back to it. Both entities must sit in the
+   * same hierarchy, share a functional currency and have due-from/due-to
+   * accounts set up.
+   */
+  private async splitIntercompany(
+    transaction: Transaction,
+    journalId: string | null,
+    userId: string
+  ): Promise<LedgerWrite[]> {
+    const [counterpartyId, ...others] = transaction.getIntercompanyEntityIds();
+    if (!counterpartyId || others.length > 0) {
+      throw new ValidationError("An intercompany entry can only span two entities.");
+    }
+    if (transaction.status !== "posted") {
+      throw new ValidationError("Intercompany entries must be posted when they are created.");
+    }
+    if (!(await this.hasEntityAccess(counterpartyId, userId))) {
+      throw new NotFoundError("Counterparty entity not found or access denied.", "ENTITY_NOT_FOUND");
+    }
+
+    const origin = await this.getIntercompanyParty(transaction.entityId);
+    const counterparty = await this.getIntercompanyParty(counterpartyId);
+    if (origin.rootId !== counterparty.rootId) {
+      throw new ValidationError("Intercompany entries must be between entities in the same hierarchy.");
+    }
+    if (origin.functionalCurrency !== counterparty.functionalCurrency) {
+      throw new ValidationError(
+        `Intercompany entries need both entities to use the same functional currency (${origin.functionalCurrency} and ${counterparty.functionalCurrency}).`
+      );
+    }
+
+    return [
+      {
+        transaction: transaction.createIntercompanySide(
+          transaction.entityId,
+          origin.accounts,
+          transaction.id,
+          counterparty.name
+        ),
+        journalId,
+        eventType: "create",
+      },
+      {
+        transaction: transaction.createIntercompanySide(
+          counterpartyId,
+          counterparty.accounts,
+          crypto.randomUUID(),
+          origin.name
+        ),
+        journalId: null,
+        eventType: "create",
+        intercompanyOfTransactionId: transaction.id,
+      },
+    ];
+  }
+
+  private async getIntercompanyParty(entityId: string): Promise<{
+    name: string;
+    functionalCurrency: string;
+    rootId: string;
+    accounts: IntercompanyAccounts;
+  }> {
+    let row: DbIntercompanyParty | null;
+    try {
+      row = await this.db.queryOne<DbIntercompanyParty>(
+        `WITH RECURSIVE ancestors(id, parent_id, depth) AS (
+           SELECT id, parent_id, 0 FROM entities WHERE id = ?1
+           UNION ALL
+           SELECT e.id, e.parent_id, a.depth + 1 FROM entities e
+           JOIN ancestors a ON e.id = a.parent_id
+           WHERE a.depth < 32
+         )
+         SELECT e.name, e.functional_currency,
+                (SELECT id FROM ancestors ORDER BY depth DESC LIMIT 1) AS root_id,
+                (SELECT ea.id FROM entity_accounts ea JOIN chart_of_accounts coa ON coa.id = ea.account_id
+                 WHERE ea.entity_id = e.id AND ea.is_active = 1 AND coa.code = ?2 LIMIT 1) AS due_from_account_id,
+                (SELECT ea.id FROM entity_accounts ea JOIN chart_of_accounts coa ON coa.id = ea.account_id
+                 WHERE ea.entity_id = e.id AND ea.is_active = 1 AND coa.code = ?3 LIMIT 1) AS due_to_account_id
+         FROM entities e WHERE e.id = ?1`,
+        [entityId, DUE_FROM_ACCOUNT_CODE, DUE_TO_ACCOUNT_CODE]
+      );
+    } catch (error: unknown) {
+      throw this.databaseError("getIntercompanyParty", "Failed to retrieve intercompany entity.", error);
+    }
+    if (!row) {
+      throw new NotFoundError("Entity not found.", "ENTITY_NOT_FOUND");
+    }
+    if (!row.due_from_account_id || !row.due_to_account_id) {
+      throw new NotFoundError(
+        `Entity "${row.name}" needs active due-from (${DUE_FROM_ACCOUNT_CODE}) and due-to (${DUE_TO_ACCOUNT_CODE}) accounts for intercompany entries.`,
+        "INTERCOMPANY_ACCOUNT_NOT_FOUND"
+      );
+    }
+    return {
+      name: row.name,
+      functionalCurrency: row.functional_currency,
+      rootId: row.root_id,
+      accounts: {
+        dueFromAccountId: row.due_from_account_id,
+        dueToAccountId: row.due_to_account_id,
+      },
+    };
+  }
+
+  private snapshotOf(transaction: AppTransaction): LedgerSnapshot {
+    return {
+      id: transaction.id,
+      entityId: transaction.entityId,
+      journalId: transaction.journalId,
+      date: this.toUnix(transaction.date),
+      description: transaction.description,
+      reference: transaction.reference,
+      status: STATUS_TO_DB[transaction.status],
+      reversalOfTransactionId: transaction.reversalOfTransactionId,
+      correctionOfTransactionId: transaction.correctionOfTransactionId,
+      ...(transaction.intercompanyOfTransactionId
+        ? { intercompanyOfTransactionId: transaction.intercompanyOfTransactionId }
+        : {}),
+      lines: transaction.lines.map((line) => this.snapshotLine(line)),
+    };
+  }
+
+  private snapshotOfWrite(write: LedgerWrite, functionalCurrency: string): LedgerSnapshot {
+    const { transaction } = write;
+    return {
+      id: transaction.id,
+      entityId: transaction.entityId,
+      journalId: write.journalId,
+      date: this.toUnix(transaction.date),
+      description: transaction.description,
+      reference: transaction.reference ?? null,
+      status: STATUS_TO_DB[transaction.status],
+      reversalOfTransactionId: write.reversalOfTransactionId ?? null,
+      correctionOfTransactionId: write.correctionOfTransactionId ?? null,
+      ...(write.intercompanyOfTransactionId
+        ? { intercompanyOfTransactionId: write.intercompanyOfTransactionId }
+        : {}),
+      lines: transaction.lines.map((line) =>
+        this.snapshotLine(fromDomainLine(line, functionalCurrency))
+      ),
+    };
+  }
+
+  /** Foreign-currency details are recorded only for converted lines */
+  private snapshotLine(line: AppTransactionLine): LedgerSnapshotLine {
+    const dimensions = normalizeDimensions(line);
+    return {
+      id: line.id,
+      entityAccountId: line.accountId,
+      amount: this.toCents(line.amount),
+      isDebit: line.isDebit,
+      memo: line.memo,
+      ...(line.foreignAmount !== null
+        ? {
+            currency: {
+              code: line.currencyCode,
+              foreignAmount: this.toCents(line.foreignAmount),
+              exchangeRate: line.exchangeRate ?? "",
+            },
+          }
+        : {}),
+      ...(hasDimensions(dimensions) ? { dimensions } : {}),
+    };
+  }
+
+  private insertStatements(
+    write: LedgerWrite,
+    userId: string,
+    now: number,
+    functionalCurrency: string
+  ): D1PreparedStatement[] {
+    const { transaction } = write;
+    return [
+      this.db.d1Instance
+        .prepare(
+          `INSERT INTO ${this.TABLE_NAME} (id, user_id, entity_id, journal_id, date, description, reference, status,
+             reversal_of_transaction_id, correction_of_transaction_id, intercompany_of_transaction_id, created_at, updated_at)
+           VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?12)`
+        )
+        .bind(
+          transaction.id,
+          userId,
+          transaction.entityId,
+          write.journalId,
+          this.toUnix(transaction.date),
+          transaction.description,
+          transaction.reference ?? null,
+          STATUS_TO_DB[transaction.status],
+          write.reversalOfTransactionId ?? null,
+          write.correctionOfTransactionId ?? null,
+          write.intercompanyOfTransactionId ?? null,
+          now
+        ),
+      ...transaction.lines.map((line) =>
+        this.lineStatement(transaction.id, fromDomainLine(line, functionalCurrency), now)
+      ),
+    ];
+  }
+
+  private lineStatement(
+    transactionId: string,
+    line: AppTransactionLine,
+    now: number
+  ): D1PreparedStatement {
+    const dimensions = toDimensionColumns(normalizeDimensions(line));
+    return this.db.d1Instance
+      .prepare(
+        `INSERT INTO ${this.LINES_TABLE_NAME} (id, transaction_id, entity_account_id, amount, is_debit, memo,
+           currency_code, foreign_amount, exchange_rate, property_id, unit_id, class_name, tags, created_at)
+         VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?14)`
+      )
+      .bind(
+        line.id,
+        transactionId,
+        line.accountId,
+        this.toCents(line.amount),
+        line.isDebit ? 1 : 0,
+        line.memo,
+        line.currencyCode,
+        line.foreignAmount !== null ? this.toCents(line.foreignAmount) : null,
+        line.exchangeRate,
+        dimensions.property_id,
+        dimensions.unit_id,
+        dimensions.class_name,
+        dimensions.tags,
+        now
+      );
+  }
+
+  private async runBatch(
+    statements: D1PreparedStatement[],
+    failureMessage: string
+  ): Promise<void> {
+    try {
+      const results = await this.db.batch(statements);
+      if (results.some((r) => !r.success)) {
+        throw new Error(results.find((r) => !r.success)?.error);
+      }
+    } catch (error: unknown) {
+      console.error(`TransactionService: ${failureMessage}`, error);
+      throw new AppError(failureMessage, 500, true, "DatabaseError", "DATABASE_ERROR");
+    }
+  }
+}
+
+export function createTransactionService(d1: D1Database): TransactionService {
+  return new TransactionService(d1);
+}
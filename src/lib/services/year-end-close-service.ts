@@ -0,0 +1,411 @@
+// src/lib/services/year-end-close-service.ts
+import type { D1Database } from "@cloudflare/workers-types";
+import { createDbClient, type Database } from "@db/db";
+import {
+  AppError,
+  NotFoundError,
+  ConflictError,
+} from "../../utils/errors";
+import { getFiscalYearRange } from "../../utils/date";
+import { Account } from "../accounting/core/account";
+import { Ledger } from "../accounting/core/ledger";
+import { Journal } from "../accounting/core/journal";
+import { Transaction } from "../accounting/core/transaction";
+import type { PeriodLockContext } from "../accounting/core/fiscal-period";
+import {
+  buildClosingTransaction,
+  RETAINED_EARNINGS_ACCOUNT_CODE,
+} from "../accounting/core/year-end-close";
+import {
+  getAccountsByType,
+  getTransactionTotals,
+} from "../accounting/core/accounting-api";
+import {
+  createTransactionService,
+  type TransactionService,
+} from "./transaction-service";
+
+export interface DbYearEndClose {
+  id: string;
+  entity_id: string;
+  fiscal_year: number;
+  start_date: number;
+  end_date: number;
+  retained_earnings_account_id: string;
+  closing_transaction_id: string;
+  reversal_transaction_id: string | null;
+  net_income: number; // Cents
+  status: "closed" | "reopened";
+  closed_by: string;
+  closed_at: number;
+  reopened_by: string | null;
+  reopened_at: number | null;
+}
+
+export interface YearEndCloseInput {
+  entityId: string;
+  fiscalYear: number;
+  /** Month the entity's fiscal year starts (0-11, default: 0 = January) */
+  fiscalYearStartMonth?: number;
+  /** Entity account to close into; defaults to the Retained Earnings account */
+  retainedEarningsAccountId?: string;
+  /** Closed-period rules to apply to the closing (or reversing) entry */
+  periodLock?: PeriodLockContext;
+}
+
+const CLOSING_JOURNAL_NAME = "Year-End Closing";
+
+export class YearEndCloseService {
+  private db: Database;
+  private d1: D1Database;
+  private transactions: TransactionService;
+  private readonly TABLE_NAME = "year_end_closes";
+
+  constructor(d1: D1Database) {
+    this.d1 = d1;
+    this.db = createDbClient(d1);
+    this.transactions = createTransactionService(d1);
+  }
+
+  private toCents(amount: string): number {
+    return Math.round(parseFloat(amount) * 100);
+  }
+
+  private toUnixDay(dateStr: string): number {
+    return Math.floor(Date.parse(`${dateStr}T00:00:00.000Z`) / 1000);
+  }
+
+  async getCloses(entityId: string): Promise<DbYearEndClose[]> {
+    try {
+      return await this.db.query<DbYearEndClose>(
+        `SELECT * FROM ${this.TABLE_NAME} WHERE entity_id = ?1 ORDER BY fiscal_year DESC, closed_at DESC`,
+        [entityId]
+      );
+    } catch (error: unknown) {
+      console.error("YearEndCloseService.getCloses error:", error);
+      throw new AppError(
+        "Failed to retrieve year-end closes.",
+        500,
+        true,
+        "DatabaseError",
+        "DATABASE_ERROR"
+      );
+    }
+  }
+
+  async getActiveClose(
+    entityId: string,
+    fiscalYear: number
+  ): Promise<DbYearEndClose | null> {
+    try {
+      return await this.db.queryOne<DbYearEndClose>(
+        `SELECT * FROM ${this.TABLE_NAME} WHERE entity_id = ?1 AND fiscal_year = ?2 AND status = 'closed'`,
+        [entityId, fiscalYear]
+      );
+    } catch (error: unknown) {
+      console.error("YearEndCloseService.getActiveClose error:", error);
+      throw new AppError(
+        "Failed to retrieve year-end close.",
+        500,
+        true,
+        "DatabaseError",
+        "DATABASE_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Close a fiscal year: zero every income and expense account's activity for
+   * the year into retained earnings with a single posted closing entry.
+   */
+  async closeYear(
+    input: YearEndCloseInput,
+    userId: string
+  ): Promise<DbYearEndClose> {
+    const { entityId, fiscalYear, fiscalYearStartMonth = 0 } = input;
+
+    if (await this.getActiveClose(entityId, fiscalYear)) {
+      throw new ConflictError(
+        `Fiscal year ${fiscalYear} is already closed. Reopen it before closing again.`,
+        "YEAR_ALREADY_CLOSED"
+      );
+    }
+
+    const { startDate, endDate } = getFiscalYearRange(
+      fiscalYear,
+      fiscalYearStartMonth
+    );
+
+    const accounts = await getAccountsByType({ entityId, types: [], db: this.d1 });
+    const retainedEarnings = input.retainedEarningsAccountId
+      ? accounts.find((a) => a.entityAccountId === input.retainedEarningsAccountId)
+      : accounts.find((a) => a.code === RETAINED_EARNINGS_ACCOUNT_CODE);
+    if (!retainedEarnings || retainedEarnings.systemType !== "equity") {
+      throw new NotFoundError(
+        "Retained earnings equity account not found for this entity.",
+        "RETAINED_EARNINGS_NOT_FOUND"
+      );
+    }
+
+    const totals = await getTransactionTotals({
+      entityId,
+      startDate,
+      endDate,
+      accountTypes: ["INCOME", "EXPENSE"],
+      db: this.d1,
+    });
+    const totalsByAccount = new Map(totals.map((t) => [t.accountId, t.total]));
+
+    // Ledger accounts are keyed by entity account ID so the closing lines can
+    // be written straight to transaction_lines.
+    const ledger = new Ledger(entityId);
+    for (const account of accounts) {
+      const isClosingTarget = account.id === retainedEarnings.id;
+      const isNominal =
+        account.systemType === "income" || account.systemType === "expense";
+      if (!isClosingTarget && !(isNominal && totalsByAccount.has(account.id))) {
+        continue;
+      }
+      const ledgerAccount = new Account({
+        id: account.entityAccountId,
+        code: account.code,
+        name: account.name,
+        type: account.systemType,
+        isActive: true,
+        normalBalance: account.normalBalance,
+      });
+      ledgerAccount.setBalance(totalsByAccount.get(account.id) ?? 0);
+      ledger.addAccount(ledgerAccount);
+    }
+
+    const journalId = await this.getOrCreateClosingJournal(entityId, userId);
+    ledger.addJournal(
+      new Journal({ id: journalId, name: CLOSING_JOURNAL_NAME, entityId })
+    );
+
+    const closingTransaction = buildClosingTransaction(ledger, {
+      transactionId: crypto.randomUUID(),
+      fiscalYear,
+      closeDate: new Date(`${endDate}T00:00:00.000Z`),
+      retainedEarningsAccountId: retainedEarnings.entityAccountId,
+    });
+    if (!closingTransaction.post(input.periodLock)) {
+      throw new AppError(
+        `Closing entry for fiscal year ${fiscalYear} could not be posted.`,
+        500,
+        true,
+        "YearEndCloseError",
+        "CLOSING_ENTRY_INVALID"
+      );
+    }
+    // Recording against the ledger proves the entry leaves every nominal
+    // account at zero before anything is written.
+    if (!ledger.recordTransaction(closingTransaction)) {
+      throw new AppError(
+        `Closing entry for fiscal year ${fiscalYear} was rejected by the ledger.`,
+        500,
+        true,
+        "YearEndCloseError",
+        "CLOSING_ENTRY_INVALID"
+      );
+    }
+
+    const retainedEarningsLine = closingTransaction.lines.find(
+      (l) => l.accountId === retainedEarnings.entityAccountId
+    );
+    const netIncome = retainedEarningsLine
+      ? this.toCents(retainedEarningsLine.amount) * (retainedEarningsLine.isDebit ? -1 : 1)
+      : 0;
+
+    const now = Math.floor(Date.now() / 1000);
+    const record: DbYearEndClose = {
+      id: crypto.randomUUID(),
+      entity_id: entityId,
+      fiscal_year: fiscalYear,
+      start_date: this.toUnixDay(startDate),
+      end_date: this.toUnixDay(endDate),
+      retained_earnings_account_id: retainedEarnings.entityAccountId,
+      closing_transaction_id: closingTransaction.id,
+      reversal_transaction_id: null,
+      net_income: netIncome,
+      status: "closed",
+      closed_by: userId,
+      closed_at: now,
+      reopened_by: null,
+      reopened_at: null,
+    };
+
+    await this.transactions.writeTransactions(
+      [{ transaction: closingTransaction, journalId, eventType: "create" }],
+      userId,
+      "Failed to save year-end close.",
+      [
+        this.db.d1Instance
+          .prepare(
+            `INSERT INTO ${this.TABLE_NAME} (id, entity_id, fiscal_year, start_date, end_date, retained_earnings_account_id,
+               closing_transaction_id, net_income, status, closed_by, closed_at)
+             VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, 'closed', ?9, ?10)`
+          )
+          .bind(
+            record.id,
+            record.entity_id,
+            record.fiscal_year,
+            record.start_date,
+            record.end_date,
+            record.retained_earnings_account_id,
+            record.closing_transaction_id,
+            record.net_income,
+            record.closed_by,
+            record.closed_at
+          ),
+      ]
+    );
+
+    return record;
+  }
+
+  /**
+   * Reopen a closed fiscal year by posting a reversal of its closing entry,
+   * dated on the same day, which restores the income and expense balances.
+   */
+  async reopenYear(
+    input: Pick<YearEndCloseInput, "entityId" | "fiscalYear" | "periodLock">,
+    userId: string
+  ): Promise<DbYearEndClose> {
+    const close = await this.getActiveClose(input.entityId, input.fiscalYear);
+    if (!close) {
+      throw new NotFoundError(
+        `Fiscal year ${input.fiscalYear} is not closed.`,
+        "YEAR_NOT_CLOSED"
+      );
+    }
+
+    const closingTransaction = await this.loadPostedTransaction(
+      close.closing_transaction_id,
+      input.entityId
+    );
+    const reversal = closingTransaction.createReversal(
+      crypto.randomUUID(),
+      closingTransaction.date,
+      `Reopen fiscal year ${input.fiscalYear}: reversal of year-end close`,
+      input.periodLock
+    );
+    if (!reversal.post(input.periodLock)) {
+      throw new AppError(
+        `Reversal of the fiscal year ${input.fiscalYear} close could not be posted.`,
+        500,
+        true,
+        "YearEndCloseError",
+        "CLOSING_ENTRY_INVALID"
+      );
+    }
+
+    const journalId = await this.getOrCreateClosingJournal(input.entityId, userId);
+    const now = Math.floor(Date.now() / 1000);
+
+    await this.transactions.writeTransactions(
+      [
+        {
+          transaction: reversal,
+          journalId,
+          eventType: "reverse",
+          reversalOfTransactionId: closingTransaction.id,
+        },
+      ],
+      userId,
+      "Failed to reopen fiscal year.",
+      [
+        this.db.d1Instance
+          .prepare(
+            `UPDATE ${this.TABLE_NAME}
+             SET status = 'reopened', reversal_transaction_id = ?2, reopened_by = ?3, reopened_at = ?4
+             WHERE id = ?1`
+          )
+          .bind(close.id, reversal.id, userId, now),
+      ]
+    );
+
+    return {
+      ...close,
+      status: "reopened",
+      reversal_transaction_id: reversal.id,
+      reopened_by: userId,
+      reopened_at: now,
+    };
+  }
+
+  private async getOrCreateClosingJournal(
+    entityId: string,
+    userId: string
+  ): Promise<string> {
+    const existing = await this.db.queryOne<{ id: string }>(
+      `SELECT id FROM journals WHERE entity_id = ?1 AND name = ?2`,
+      [entityId, CLOSING_JOURNAL_NAME]
+    );
+    if (existing) return existing.id;
+
+    const id = crypto.randomUUID();
+    const result = await this.db.execute(
+      `INSERT INTO journals (id, user_id, entity_id, name, description, type) VALUES (?1, ?2, ?3, ?4, ?5, 'closing')`,
+      [id, userId, entityId, CLOSING_JOURNAL_NAME, "System journal for year-end closing entries."]
+    );
+    if (!result.success) {
+      throw new AppError(
+        "Failed to create year-end closing journal.",
+        500,
+        true,
+        "DatabaseError",
+        "DATABASE_ERROR"
+      );
+    }
+    return id;
+  }
+
+  private async loadPostedTransaction(
+    transactionId: string,
+    entityId: string
+  ): Promise<Transaction> {
+    const header = await this.db.queryOne<{
+      id: string;
+      date: number;
+      description: string;
+      reference: string | null;
+    }>(
+      `SELECT id, date, description, reference FROM transactions WHERE id = ?1 AND entity_id = ?2 AND status = 'posted'`,
+      [transactionId, entityId]
+    );
+    if (!header) {
+      throw new NotFoundError("Closing transaction not found.", "TRANSACTION_NOT_FOUND");
+    }
+    const lines = await this.db.query<{
+      id: string;
+      entity_account_id: string;
+      amount: number;
+      is_debit: number;
+      memo: string | null;
+    }>(
+      `SELECT id, entity_account_id, amount, is_debit, memo FROM transaction_lines WHERE transaction_id = ?1`,
+      [transactionId]
+    );
+
+    return new Transaction({
+      id: header.id,
+      date: new Date(header.date * 1000),
+      description: header.description,
+      entityId,
+      status: "posted",
+      ...(header.reference ? { reference: header.reference } : {}),
+      lines: lines.map((line) => ({
+        id: line.id,
+        accountId: line.entity_account_id,
+        amount: (line.amount / 100).toFixed(2),
+        isDebit: Boolean(line.is_debit),
+        ...(line.memo ? { description: line.memo } : {}),
+      })),
+    });
+  }
+}
+
+export function createYearEndCloseService(d1: D1Database): YearEndCloseService {
+  return new YearEndCloseService(d1);
+}
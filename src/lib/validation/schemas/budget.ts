@@ -0,0 +1,53 @@
+// src/lib/validation/schemas/budget.ts
+/**
+ * Budget Validation Schemas
+ *
+ * Zod schemas for creating and updating budgets (the D1 'budgets' and
+ * 'budget_lines' tables).
+ */
+
+import { z } from 'zod';
+
+const monthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be in YYYY-MM format');
+
+/**
+ * Budgeted amount of an income or expense account for one month, on the
+ * account's normal-balance side.
+ */
+export const budgetLineSchema = z.object({
+  accountId: z.string().uuid('Account ID must be a valid UUID'),
+  month: monthSchema,
+  amount: z.string().regex(/^-?\d+(\.\d{1,2})?$/, 'Amount must be a valid decimal with up to 2 decimal places'),
+});
+
+/**
+ * Schema for creating a budget. Lines are given, copied from another budget
+ * of the entity, or seeded from the prior year's actuals.
+ */
+export const createBudgetSchema = z.object({
+  entityId: z.string().uuid('Entity ID must be a valid UUID'),
+  name: z.string().min(1, 'Name is required'),
+  fiscalYear: z.number().int().min(1900).max(9999),
+  version: z.enum(['original', 'revised', 'forecast']).optional().default('original'),
+  startDate: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])-01$/, 'Start date must be the first day of a month (YYYY-MM-01)'),
+  basedOnBudgetId: z.string().uuid('Budget ID must be a valid UUID').optional().nullable(),
+  seedFromPriorYear: z.object({
+    growthPercent: z.number().gt(-100, 'Growth must be greater than -100%').optional().default(0),
+  }).optional().nullable(),
+  lines: z.array(budgetLineSchema).optional(),
+}).refine(data => [data.basedOnBudgetId, data.seedFromPriorYear, data.lines].filter(Boolean).length <= 1, {
+  message: 'Give lines, a budget to copy or a prior-year seed, not more than one',
+  path: ['lines'],
+});
+
+/**
+ * Schema for updating a budget. Listed lines are added or replace the amount
+ * of the same account and month; other lines are kept.
+ */
+export const updateBudgetSchema = z.object({
+  name: z.string().min(1, 'Name is required').optional(),
+  lines: z.array(budgetLineSchema).optional(),
+});
+
+export type CreateBudgetInput = z.infer<typeof createBudgetSchema>;
+export type UpdateBudgetInput = z.infer<typeof updateBudgetSchema>;
@@ -0,0 +1,49 @@
+// src/lib/validation/schemas/cash-flow.ts
+/**
+ * Cash Flow Classification Validation Schemas
+ *
+ * Zod schemas for classifying accounts on the direct-method cash flow
+ * statement (the D1 'cash_flow_classifications' table).
+ * Ref: src/types/accounting.d.ts (CashFlowClassification type)
+ */
+
+import { z } from 'zod';
+
+export const cashFlowCategoryEnum = z.enum(['operating', 'investing', 'financing']);
+
+export const cashFlowClassificationEnum = z.enum([
+  'rental_receipts',
+  'other_operating_income',
+  'operating_expenses_paid',
+  'interest_paid_operating',
+  'taxes_paid_operating',
+  'property_acquisition_disposition',
+  'capital_expenditures',
+  'proceeds_from_debt',
+  'repayment_of_debt_principal',
+  'interest_paid_financing',
+  'distributions_dividends_paid',
+  'equity_contributions_received',
+  'other_investing',
+  'other_financing',
+]);
+
+/**
+ * Classification of one of the entity's non-cash accounts. The category
+ * must be the one the classification belongs to.
+ */
+export const cashFlowClassificationSchema = z.object({
+  accountId: z.string().uuid('Account ID must be a valid UUID'),
+  category: cashFlowCategoryEnum,
+  classification: cashFlowClassificationEnum,
+});
+
+/**
+ * Schema for saving classifications. Listed accounts are (re)classified;
+ * others keep theirs.
+ */
+export const setCashFlowClassificationsSchema = z.object({
+  classifications: z.array(cashFlowClassificationSchema).min(1, 'At least one classification is required'),
+});
+
+export type SetCashFlowClassificationsInput = z.infer<typeof setCashFlowClassificationsSchema>;
@@ -0,0 +1,92 @@
+// src/lib/validation/schemas/custom-report.ts
+/**
+ * Custom Report Validation Schemas
+ *
+ * Zod schemas for custom report configurations (CustomReportConfiguration)
+ * and the saved reports in the D1 'custom_reports' table. The shape is
+ * checked here; what the columns, filters and formulas refer to is checked
+ * when the report builder compiles the configuration.
+ */
+
+import { z } from 'zod';
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+export const reportTimeFrameSchema = z.object({
+  period: z.enum(['month', 'quarter', 'year', 'custom_range', 'year_to_date']),
+  startDate: dateSchema,
+  endDate: dateSchema,
+});
+
+export const customReportColumnSchema = z.object({
+  id: z.string().regex(/^[A-Za-z]\w*$/, 'Column ID must start with a letter and contain only letters, digits and underscores'),
+  headerName: z.string().min(1, 'Column header is required'),
+  valueSourceType: z.enum(['account_balance', 'account_activity', 'calculated_formula', 'static_text', 'metadata_field']),
+  valueSourceField: z.string().optional(),
+  formulaExpression: z.string().max(500).nullable().optional(),
+  displayFormat: z.enum(['currency', 'number', 'percentage', 'date', 'text']).optional(),
+  columnWidth: z.string().nullable().optional(),
+  textAlignment: z.enum(['left', 'center', 'right']).optional(),
+  isSummable: z.boolean().optional(),
+});
+
+export const customReportConfigurationSchema = z.object({
+  reportName: z.string().min(1, 'Report name is required').max(200),
+  descriptionText: z.string().max(1000).nullable().optional(),
+  accountSelectionCriteria: z.object({
+    includeAccountIds: z.array(z.string()).nullable().optional(),
+    includeAccountTypes: z.array(z.enum(['asset', 'liability', 'equity', 'income', 'expense'])).nullable().optional(),
+    excludeAccountIds: z.array(z.string()).nullable().optional(),
+    accountTags: z.array(z.string().max(100)).max(10).nullable().optional(),
+  }),
+  reportColumns: z.array(customReportColumnSchema).min(1, 'At least one column is required').max(50),
+  rowGroupingOptions: z.object({
+    groupByField: z.string().min(1),
+    showGroupSubtotals: z.boolean().optional(),
+  }).nullable().optional(),
+  sortingOptions: z.object({
+    sortByField: z.string().min(1),
+    sortDirection: z.enum(['asc', 'desc']),
+  }).nullable().optional(),
+  reportFilters: z.array(z.object({
+    filterField: z.string().min(1),
+    filterOperator: z.enum(['equals', 'contains', 'greater_than', 'less_than', 'between_dates', 'in_list']),
+    filterValue: z.any(),
+    filterValue2: z.any().optional(),
+  })).max(20).nullable().optional(),
+  showComparisonColumn: z.boolean().optional(),
+  comparisonPeriod: reportTimeFrameSchema.optional(),
+});
+
+/**
+ * Schema for saving a custom report. Shared reports can be run by everyone
+ * with access to the entity; only their creator can change them.
+ */
+export const createCustomReportSchema = z.object({
+  entityId: z.string().uuid('Entity ID must be a valid UUID'),
+  configuration: customReportConfigurationSchema,
+  isShared: z.boolean().optional().default(false),
+});
+
+export const updateCustomReportSchema = z.object({
+  configuration: customReportConfigurationSchema.optional(),
+  isShared: z.boolean().optional(),
+});
+
+/**
+ * Schema for running a custom report: a saved one, or a configuration as
+ * edited in the builder.
+ */
+export const runCustomReportSchema = z.object({
+  entityId: z.string().uuid('Entity ID must be a valid UUID'),
+  reportId: z.string().uuid('Report ID must be a valid UUID').optional(),
+  configuration: customReportConfigurationSchema.optional(),
+  timeFrame: reportTimeFrameSchema,
+}).refine(data => Boolean(data.reportId) !== Boolean(data.configuration), {
+  message: 'Give either a saved report or a configuration',
+  path: ['configuration'],
+});
+
+export type CreateCustomReportInput = z.infer<typeof createCustomReportSchema>;
+export type UpdateCustomReportInput = z.infer<typeof updateCustomReportSchema>;
+export type RunCustomReportInput = z.infer<typeof runCustomReportSchema>;
@@ -195,4 +195,38 @@ export default {
   contactInfoSchema,
   taxIdentifierSchema,
   // ... other exported schemas if kept
-};
\ No newline at end of file
+};
+// ----------------
+// Entity Owners (partners/members) Schemas
+// ----------------
+
+/**
+ * Validation schema for a partner, member or shareholder of an entity.
+ * Percentages are kept to two decimals (basis points in D1).
+ */
+export const entityOwnerSchema = z.object({
+  name: z.string().min(1, 'Owner name is required').max(191, 'Owner name is too long.'),
+  ownerType: z.enum(['partner', 'member', 'shareholder']).default('member'),
+  ownershipPercentage: z.number()
+    .gt(0, 'Ownership percentage must be greater than 0')
+    .max(100, 'Ownership percentage cannot exceed 100')
+    .multipleOf(0.01, 'Ownership percentage can have at most two decimals'),
+  capitalAccountId: z.string().uuid('Capital account ID must be a valid UUID').optional().nullable(),
+  distributionAccountId: z.string().uuid('Distribution account ID must be a valid UUID').optional().nullable(),
+});
+
+/**
+ * Schema for replacing an entity's owners. The percentages must total 100;
+ * an empty list removes them.
+ */
+export const setEntityOwnersSchema = z.object({
+  owners: z.array(entityOwnerSchema).max(100, 'An entity can have at most 100 owners'),
+}).refine(
+  (data) =>
+    data.owners.length === 0 ||
+    Math.round(data.owners.reduce((sum, owner) => sum + owner.ownershipPercentage, 0) * 100) === 10000,
+  { message: 'Ownership percentages must total 100', path: ['owners'] }
+);
+
+export type EntityOwnerInput = z.infer<typeof entityOwnerSchema>;
+export type SetEntityOwnersInput = z.infer<typeof setEntityOwnersSchema>;
@@ -0,0 +1,193 @@
+// src/lib/validation/schemas/import.ts
+/**
+ * Import Session Validation Schemas
+ *
+ * Zod schemas for bank-file import sessions (the D1 'import_sessions' and
+ * 'import_session_rows' tables): the upload, the CSV column mapping, the
+ * corrections made in review, and the steps that move a session on.
+ */
+
+import { z } from 'zod';
+
+const uuidSchema = (label: string) => z.string().uuid(`${label} must be a valid UUID`);
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+const columnSchema = z.union([z.string().min(1), z.number().int().min(0)]);
+
+/** Form fields arrive as text; objects are sent as JSON */
+const jsonField = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => {
+    if (value === '') return undefined;
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }, schema);
+
+const optionalText = z.preprocess((value) => (value === '' ? undefined : value), z.string().optional());
+
+export const importFileTypeSchema = z.enum(['csv', 'ofx', 'qfx', 'qif', 'pdf_statement']);
+
+export const importProcessingOptionsSchema = z.object({
+  duplicate_handling_strategy: z.enum(['skip_duplicates', 'update_existing', 'create_new_with_suffix', 'fail_on_duplicate']),
+  date_format_interpretation: z.string().optional().nullable(),
+  decimal_separator_character: z.enum(['.', ',']).optional(),
+  thousands_separator_character: z.enum([',', '.', ' ', '']).optional(),
+  default_currency_code: z.string().length(3).optional().nullable(),
+});
+
+/**
+ * Schema for the fields sent with an uploaded file.
+ */
+export const importUploadSchema = z.object({
+  entityId: uuidSchema('Entity ID'),
+  bankAccountId: uuidSchema('Bank account ID'),
+  counterAccountId: z.preprocess((value) => (value === '' ? undefined : value), uuidSchema('Counter account ID').optional()),
+  fileType: importFileTypeSchema,
+  name: optionalText,
+  sourceAccount: optionalText,
+  processingOptions: jsonField(importProcessingOptionsSchema.optional()),
+  categoryAccountCodes: jsonField(z.record(z.string()).optional()),
+  transferAccountCodes: jsonField(z.record(z.string()).optional()),
+});
+
+const sourceColumnSchema = z.object({
+  source_column_header_or_index: columnSchema,
+  expected_data_type: z.enum(['string', 'number', 'date', 'boolean', 'currency_decimal']),
+  date_format_if_string: z.string().optional().nullable(),
+  is_required_for_import: z.boolean().optional(),
+  data_cleaning_transforms: z.array(z.object({
+    type: z.enum([
+      'to_uppercase', 'to_lowercase', 'trim_whitespace', 'replace_text', 'regex_extract_replace',
+      'parse_date_from_string', 'parse_number_from_string', 'split_column', 'custom_script',
+    ]),
+    config: z.record(z.any()).optional().nullable(),
+  })).optional().nullable(),
+});
+
+/**
+ * Schema for a CSV column mapping (ImportColumnMappingConfig).
+ */
+export const importColumnMappingSchema = z.object({
+  transaction_date_column: sourceColumnSchema.optional(),
+  transaction_amount_column: sourceColumnSchema.optional(),
+  transaction_description_column: sourceColumnSchema.optional(),
+  target_account_column: sourceColumnSchema.optional(),
+  debit_amount_column: sourceColumnSchema.optional(),
+  credit_amount_column: sourceColumnSchema.optional(),
+  transaction_reference_column: sourceColumnSchema.optional(),
+  payee_or_payer_column: sourceColumnSchema.optional(),
+  category_or_memo_column: sourceColumnSchema.optional(),
+  custom_field_mappings: z.record(sourceColumnSchema).optional().nullable(),
+  value_transformation_rules: z.record(z.array(z.object({
+    source_input_values: z.array(z.string()),
+    mapped_target_value: z.any(),
+    match_is_case_sensitive: z.boolean().optional(),
+  }))).optional().nullable(),
+  default_field_values: z.record(z.any()).optional().nullable(),
+  row_skip_conditions: z.array(z.object({
+    source_column_header_or_index: columnSchema,
+    condition_operator: z.enum([
+      'is_empty', 'is_not_empty', 'equals_value', 'not_equals_value',
+      'contains_text', 'does_not_contain_text', 'matches_regex',
+    ]),
+    comparison_value: z.any().optional(),
+    is_case_sensitive: z.boolean().optional(),
+  })).optional().nullable(),
+  header_row_index: z.number().int().optional(),
+  data_start_row_index: z.number().int().min(0).optional(),
+  file_encoding: z.enum(['utf-8', 'iso-8859-1', 'windows-1252']).optional(),
+  delimiter_character: z.enum([',', ';', '\t', '|']).optional(),
+}).refine(
+  (mapping) => mapping.transaction_date_column
+    && (mapping.transaction_amount_column || mapping.debit_amount_column || mapping.credit_amount_column),
+  { message: 'A date column and an amount (or debit/credit) column must be mapped' }
+);
+
+export const appliedValidationRuleSchema = z.object({
+  target_field_path: z.string().min(1),
+  rule_type: z.enum([
+    'required_field', 'data_type_check', 'value_range', 'max_length', 'pattern_match',
+    'unique_value_in_column', 'foreign_key_exists', 'custom_business_rule',
+  ]),
+  config_params: z.record(z.any()).optional().nullable(),
+  severity_level: z.enum(['error_halts_import', 'warning_allows_import', 'info_only']),
+  custom_error_message: z.string().optional().nullable(),
+});
+
+const accountCodeSchema = z.union([z.string(), z.number()]).nullable();
+
+/**
+ * A correction made in review: new values for a row's fields, and whether
+ * to import or skip it.
+ */
+export const importRowUpdateSchema = z.object({
+  sourceRowNumber: z.number().int().positive(),
+  action: z.enum(['create_new', 'skip_row']).optional(),
+  mappedData: z.object({
+    transaction_date: dateSchema.nullable(),
+    transaction_amount: z.number().finite().nullable(),
+    transaction_description: z.string().nullable(),
+    transaction_reference: z.string().nullable(),
+    payee_or_payer: z.string().nullable(),
+    category_or_memo: z.string().nullable(),
+    target_account: accountCodeSchema,
+    class_name: z.string().nullable(),
+    splits: z.array(z.object({
+      target_account: z.string().nullable(),
+      amount: z.number().finite(),
+      memo: z.string().nullable(),
+      class_name: z.string().nullable(),
+    })).nullable(),
+  }).partial().strict().optional(),
+});
+
+/**
+ * Schema for moving a session on. `map` applies a CSV column mapping;
+ * `update_rows` saves corrections made in review.
+ */
+export const processImportSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('map'),
+    sessionId: uuidSchema('Session ID'),
+    mapping: importColumnMappingSchema,
+    validationRules: z.array(appliedValidationRuleSchema).optional(),
+  }),
+  z.object({
+    action: z.literal('update_rows'),
+    sessionId: uuidSchema('Session ID'),
+    updates: z.array(importRowUpdateSchema).min(1).max(500),
+  }),
+  z.object({ action: z.literal('commit'), sessionId: uuidSchema('Session ID') }),
+  z.object({ action: z.literal('rollback'), sessionId: uuidSchema('Session ID') }),
+  z.object({ action: z.literal('cancel'), sessionId: uuidSchema('Session ID') }),
+]);
+
+/**
+ * Schema for looking up sessions: an entity's sessions, or one session and
+ * a page of its rows to resume it.
+ */
+export const importSessionQuerySchema = z.object({
+  entityId: uuidSchema('Entity ID').optional(),
+  sessionId: uuidSchema('Session ID').optional(),
+  processingStatus: z.enum([
+    'pending_validation', 'validated_ok', 'validated_with_errors', 'validated_with_warnings',
+    'ready_to_import', 'imported_successfully', 'import_failed', 'skipped_by_rule',
+  ]).optional(),
+  page: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().positive().max(500).optional(),
+}).refine((query) => query.entityId || query.sessionId, {
+  message: 'entityId or sessionId is required',
+});
+
+export const importHistoryQuerySchema = z.object({
+  entityId: uuidSchema('Entity ID'),
+});
+
+export type ImportProcessingOptionsInput = z.infer<typeof importProcessingOptionsSchema>;
+export type ImportUploadInput = z.infer<typeof importUploadSchema>;
+export type ImportColumnMappingInput = z.infer<typeof importColumnMappingSchema>;
+export type AppliedValidationRuleInput = z.infer<typeof appliedValidationRuleSchema>;
+export type ImportRowUpdateInput = z.infer<typeof importRowUpdateSchema>;
+export type ProcessImportInput = z.infer<typeof processImportSchema>;
@@ -0,0 +1,65 @@
+// src/lib/validation/schemas/recurring.ts
+/**
+ * Recurring Schedule Validation Schemas
+ *
+ * Zod schemas for creating and updating recurring transaction schedules
+ * (the D1 'recurring_schedules' table).
+ */
+
+import { z } from 'zod';
+
+const amountSchema = z.string().regex(/^\d+(\.\d{1,2})?$/, 'Amount must be a valid decimal with up to 2 decimal places');
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+/**
+ * A line of a recurring entry. Its amount may change over time, e.g. the
+ * principal/interest split of a mortgage payment.
+ */
+export const recurringLineSchema = z.object({
+  accountId: z.string().uuid('Account ID must be a valid UUID'),
+  isDebit: z.boolean(),
+  memo: z.string().optional().nullable(),
+  amount: amountSchema,
+  amountSchedule: z.array(z.object({
+    effectiveDate: dateSchema,
+    amount: amountSchema,
+  })).optional(),
+});
+
+/**
+ * Schema for creating a schedule. Lines come either from the request or from
+ * a transaction template, whose amounts can be supplied by line position.
+ */
+export const createRecurringScheduleSchema = z.object({
+  entityId: z.string().uuid('Entity ID must be a valid UUID'),
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().min(3, 'Description must be at least 3 characters'),
+  frequency: z.enum(['monthly', 'quarterly', 'annual', 'custom']).optional(),
+  cronExpression: z.string().optional().nullable(),
+  startDate: dateSchema,
+  endDate: dateSchema.optional().nullable(),
+  postAutomatically: z.boolean().optional().default(false),
+  journalId: z.string().uuid('Journal ID must be a valid UUID').optional().nullable(),
+  templateId: z.string().optional(),
+  templateAmounts: z.array(amountSchema.optional()).optional(),
+  lines: z.array(recurringLineSchema).min(2, 'A recurring entry must have at least 2 lines').optional(),
+}).refine(data => data.templateId || data.lines, {
+  message: 'Either lines or a templateId is required',
+  path: ['lines'],
+});
+
+/**
+ * Schema for updating a schedule. Changes apply from the next occurrence;
+ * entries already generated are not touched.
+ */
+export const updateRecurringScheduleSchema = z.object({
+  name: z.string().min(1, 'Name is required').optional(),
+  description: z.string().min(3, 'Description must be at least 3 characters').optional(),
+  endDate: dateSchema.optional().nullable(),
+  status: z.enum(['active', 'paused']).optional(),
+  postAutomatically: z.boolean().optional(),
+  lines: z.array(recurringLineSchema).min(2, 'A recurring entry must have at least 2 lines').optional(),
+});
+
+export type CreateRecurringScheduleInput = z.infer<typeof createRecurringScheduleSchema>;
+export type UpdateRecurringScheduleInput = z.infer<typeof updateRecurringScheduleSchema>;
@@ -0,0 +1,84 @@
+// src/lib/validation/schemas/report-snapshot.ts
+/**
+ * Report Snapshot Validation Schemas
+ *
+ * Zod schemas for finalizing reports into the D1 'report_snapshots' table.
+ * Only the options each report understands are kept, so the same report
+ * always has the same parameters (and the next version) when finalized
+ * again.
+ */
+
+import { z } from 'zod';
+import { customReportConfigurationSchema, reportTimeFrameSchema } from './custom-report';
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+const entityIdSchema = z.string().uuid('Entity ID must be a valid UUID');
+const periodIntervalSchema = z.enum(['month', 'quarter', 'year']);
+
+export const reportSnapshotTypeSchema = z.enum(['balance-sheet', 'income-statement', 'cash-flow', 'custom']);
+
+/**
+ * Schema for finalizing a report. A custom report is either a saved one
+ * (customReportId) or a configuration as edited in the builder.
+ */
+export const finalizeReportSchema = z.discriminatedUnion('reportType', [
+  z.object({
+    reportType: z.literal('balance-sheet'),
+    entityId: entityIdSchema,
+    parameters: z.object({
+      timeFrame: reportTimeFrameSchema,
+      asOfDate: dateSchema,
+      previousDate: dateSchema.optional(),
+      includeComparison: z.boolean().optional(),
+      includeAccountDetails: z.boolean().optional(),
+      consolidate: z.boolean().optional(),
+      periodInterval: periodIntervalSchema.optional(),
+      includePeriodVariance: z.boolean().optional(),
+    }),
+  }),
+  z.object({
+    reportType: z.literal('income-statement'),
+    entityId: entityIdSchema,
+    parameters: z.object({
+      timeFrame: reportTimeFrameSchema,
+      startDate: dateSchema,
+      endDate: dateSchema,
+      previousStartDate: dateSchema.optional(),
+      previousEndDate: dateSchema.optional(),
+      includeComparison: z.boolean().optional(),
+      showPercentOfRevenue: z.boolean().optional(),
+      includeOperatingSubtotals: z.boolean().optional(),
+      consolidate: z.boolean().optional(),
+      periodInterval: periodIntervalSchema.optional(),
+      includePeriodVariance: z.boolean().optional(),
+    }),
+  }),
+  z.object({
+    reportType: z.literal('cash-flow'),
+    entityId: entityIdSchema,
+    parameters: z.object({
+      timeFrame: reportTimeFrameSchema,
+      startDate: dateSchema,
+      endDate: dateSchema,
+      previousStartDate: dateSchema.optional(),
+      previousEndDate: dateSchema.optional(),
+      method: z.enum(['DIRECT', 'INDIRECT']).optional(),
+    }),
+  }),
+  z.object({
+    reportType: z.literal('custom'),
+    entityId: entityIdSchema,
+    customReportId: z.string().uuid('Report ID must be a valid UUID').optional(),
+    parameters: z.object({
+      timeFrame: reportTimeFrameSchema,
+      configuration: customReportConfigurationSchema.optional(),
+    }),
+  }),
+]);
+
+export const reportSnapshotQuerySchema = z.object({
+  entityId: entityIdSchema,
+  reportType: reportSnapshotTypeSchema.optional(),
+});
+
+export type FinalizeReportInput = z.infer<typeof finalizeReportSchema>;
@@ -94,6 +94,14 @@ export const transactionLineSchema = z.object({
   }),
   description: z.string().max(255, "Line description is too long.").optional().nullable(),
   tax_code_id: z.string().max(50, "Tax code is too long.").optional().nullable(),
+  // Reporting dimensions
+  property_id: z.string().max(100, "Property ID is too long.").optional().nullable(),
+  unit_id: z.string().max(100, "Unit ID is too long.").optional().nullable(),
+  class_name: z.string().max(100, "Class is too long.").optional().nullable(),
+  tags: z.array(z.string().max(100, "Tag is too long.")).max(10, "Maximum 10 tags per line.").optional().nullable(),
+}).refine(line => !line.unit_id || line.property_id, {
+  message: "A line tagged with a unit must also be tagged with its property.",
+  path: ["property_id"],
 });
 export type TransactionLineInput = z.infer<typeof transactionLineSchema>;
 
@@ -0,0 +1,146 @@
+// src/pages/api/accounts/cash-flow-classifications.js
+import { AppError } from '../../../utils/errors.js';
+import { createCashFlowClassificationService } from '../../../lib/services/cash-flow-classification-service.js';
+import { createTransactionService } from '../../../lib/services/transaction-service.js';
+import { setCashFlowClassificationsSchema } from '../../../lib/validation/schemas/cash-flow.js';
+
+export const onRequest = async ({ request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+  const url = new URL(request.url);
+  const entityId = url.searchParams.get('entityId');
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (!entityId) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Entity ID is required',
+    }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const classificationService = createCashFlowClassificationService(env.DATABASE);
+  const transactionService = createTransactionService(env.DATABASE);
+
+  try {
+    const hasAccess = await transactionService.hasEntityAccess(entityId, user.id);
+    if (!hasAccess) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Access denied to this entity',
+      }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // GET - List the entity's cash flow classifications
+    if (request.method === 'GET') {
+      const classifications = await classificationService.getClassifications(entityId);
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: classifications,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // PUT - Classify accounts for the direct-method cash flow statement
+    else if (request.method === 'PUT') {
+      const data = await request.json();
+
+      const validationResult = setCashFlowClassificationsSchema.safeParse(data);
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const classifications = await classificationService.setClassifications(
+        entityId,
+        validationResult.data.classifications
+      );
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: classifications,
+        message: 'Cash flow classifications saved successfully',
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // DELETE - Return an account to its default classification
+    else if (request.method === 'DELETE') {
+      const accountId = url.searchParams.get('accountId');
+      if (!accountId) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Account ID is required',
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      await classificationService.deleteClassification(entityId, accountId);
+
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'Cash flow classification removed successfully',
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Method not allowed
+    else {
+      return new Response(JSON.stringify({
+        success: false,
+        error: `Method ${request.method} not allowed`,
+      }), {
+        status: 405,
+        headers: {
+          'Content-Type': 'application/json',
+          'Allow': 'GET, PUT, DELETE'
+        }
+      });
+    }
+  } catch (error) {
+    console.error('Error processing cash flow classifications:', error);
+
+    const statusCode = error instanceof AppError ? error.statusCode : 500;
+    const errorMessage = error instanceof AppError
+      ? error.message
+      : 'An unexpected error occurred while processing cash flow classifications';
+
+    return new Response(JSON.stringify({
+      success: false,
+      error: errorMessage,
+    }), {
+      status: statusCode,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
@@ -0,0 +1,92 @@
+// src/pages/api/audit/verify.js
+import { AppError } from '../../../utils/errors.js';
+import { createLedgerAuditService } from '../../../lib/services/ledger-audit-service.js';
+import { createTransactionService } from '../../../lib/services/transaction-service.js';
+import { userHasPermission } from '../../../lib/auth/permissions.js';
+import { Permission } from '../../../types/auth';
+
+export const onRequest = async ({ request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (request.method !== 'GET') {
+    return new Response(JSON.stringify({
+      success: false,
+      error: `Method ${request.method} not allowed`,
+    }), {
+      status: 405,
+      headers: {
+        'Content-Type': 'application/json',
+        'Allow': 'GET'
+      }
+    });
+  }
+
+  // GET - Replay an entity's ledger audit chain and report any breaks
+  try {
+    const url = new URL(request.url);
+    const entityId = url.searchParams.get('entityId');
+
+    if (!entityId) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Entity ID is required',
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const hasAccess = await createTransactionService(env.DATABASE).hasEntityAccess(entityId, user.id);
+    const canView = hasAccess && await userHasPermission(user, Permission.ViewLedgerAudit, entityId, env);
+    if (!canView) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'You do not have permission to view the audit trail for this entity',
+      }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const verification = await createLedgerAuditService(env.DATABASE).verifyChain(entityId);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: {
+        entityId,
+        verifiedAt: new Date().toISOString(),
+        ...verification,
+      },
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    console.error('Error verifying ledger audit trail:', error);
+
+    const statusCode = error instanceof AppError ? error.statusCode : 500;
+    const errorMessage = error instanceof AppError
+      ? error.message
+      : 'An unexpected error occurred while verifying the audit trail';
+
+    return new Response(JSON.stringify({
+      success: false,
+      error: errorMessage,
+    }), {
+      status: statusCode,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
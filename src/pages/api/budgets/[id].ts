@@ -0,0 +1,141 @@
+// src/pages/api/budgets/[id].js
+import { AppError } from '../../../utils/errors.js';
+import { createBudgetService } from '../../../lib/services/budget-service.js';
+import { createTransactionService } from '../../../lib/services/transaction-service.js';
+import { updateBudgetSchema } from '../../../lib/validation/schemas/budget.js';
+
+export const onRequest = async ({ params, request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+  const budgetId = params.id;
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (!budgetId) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Budget ID is required',
+    }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const budgetService = createBudgetService(env.DATABASE);
+  const transactionService = createTransactionService(env.DATABASE);
+
+  try {
+    const budget = await budgetService.getBudgetById(budgetId);
+    const hasAccess = budget && await transactionService.hasEntityAccess(budget.entity_id, user.id);
+
+    if (!budget || !hasAccess) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Budget not found or access denied',
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // GET - Fetch a budget with its monthly lines
+    if (request.method === 'GET') {
+      return new Response(JSON.stringify({
+        success: true,
+        data: budget,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // PATCH - Rename a budget or change its amounts
+    else if (request.method === 'PATCH') {
+      const data = await request.json();
+
+      const validationResult = updateBudgetSchema.safeParse(data);
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const updated = await budgetService.updateBudget(budgetId, validationResult.data);
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: updated,
+        message: 'Budget updated successfully',
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // DELETE - Delete a budget and its lines
+    else if (request.method === 'DELETE') {
+      const result = await budgetService.deleteBudget(budgetId);
+
+      if (!result) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Failed to delete budget',
+        }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'Budget deleted successfully',
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Method not allowed
+    else {
+      return new Response(JSON.stringify({
+        success: false,
+        error: `Method ${request.method} not allowed`,
+      }), {
+        status: 405,
+        headers: {
+          'Content-Type': 'application/json',
+          'Allow': 'GET, PATCH, DELETE'
+        }
+      });
+    }
+  } catch (error) {
+    console.error('Error processing budget:', error);
+
+    const statusCode = error instanceof AppError ? error.statusCode : 500;
+    const errorMessage = error instanceof AppError
+      ? error.message
+      : 'An unexpected error occurred while processing the budget';
+
+    return new Response(JSON.stringify({
+      success: false,
+      error: errorMessage,
+    }), {
+      status: statusCode,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
@@ -0,0 +1,150 @@
+// src/pages/api/budgets/index.js
+import { AppError } from '../../../utils/errors.js';
+import { createBudgetService } from '../../../lib/services/budget-service.js';
+import { createTransactionService } from '../../../lib/services/transaction-service.js';
+import { createBudgetSchema } from '../../../lib/validation/schemas/budget.js';
+
+export const onRequest = async ({ request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const budgetService = createBudgetService(env.DATABASE);
+  const transactionService = createTransactionService(env.DATABASE);
+
+  // GET - List the budgets of an entity
+  if (request.method === 'GET') {
+    try {
+      const url = new URL(request.url);
+      const entityId = url.searchParams.get('entityId');
+
+      if (!entityId) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Entity ID is required',
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const hasAccess = await transactionService.hasEntityAccess(entityId, user.id);
+      if (!hasAccess) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Access denied to this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const budgets = await budgetService.getBudgets(entityId);
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: budgets,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error fetching budgets:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while fetching budgets';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // POST - Create a budget, optionally seeded from the prior year's actuals
+  else if (request.method === 'POST') {
+    try {
+      const data = await request.json();
+
+      const validationResult = createBudgetSchema.safeParse(data);
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const budgetData = validationResult.data;
+
+      const hasAccess = await transactionService.hasEntityAccess(budgetData.entityId, user.id);
+      if (!hasAccess) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Access denied to this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const budget = await budgetService.createBudget(budgetData, user.id);
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: budget,
+        message: 'Budget created successfully',
+      }), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error creating budget:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while creating the budget';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // Method not allowed
+  else {
+    return new Response(JSON.stringify({
+      success: false,
+      error: `Method ${request.method} not allowed`,
+    }), {
+      status: 405,
+      headers: {
+        'Content-Type': 'application/json',
+        'Allow': 'GET, POST'
+      }
+    });
+  }
+};
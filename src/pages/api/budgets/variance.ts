@@ -0,0 +1,115 @@
+// src/pages/api/budgets/variance.js
+import { z } from 'zod';
+import { AppError } from '../../../utils/errors.js';
+import { createBudgetService } from '../../../lib/services/budget-service.js';
+import { createTransactionService } from '../../../lib/services/transaction-service.js';
+import { generateBudgetVsActualReport } from '../../../lib/reports/report-api.js';
+import { getBudgetVarianceAlerts } from '../../../lib/reports/budget-vs-actual.js';
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+const varianceQuerySchema = z.object({
+  budgetId: z.string().uuid('Budget ID must be a valid UUID'),
+  startDate: dateSchema,
+  endDate: dateSchema,
+  thresholdPercent: z.coerce.number().min(0).optional().default(10),
+});
+
+export const onRequest = async ({ request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  // GET - Budget vs. actual report for a period, with the accounts that are
+  // over (or, for income, under) budget by more than the threshold
+  if (request.method === 'GET') {
+    try {
+      const url = new URL(request.url);
+      const validationResult = varianceQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const { budgetId, startDate, endDate, thresholdPercent } = validationResult.data;
+
+      const budget = await createBudgetService(env.DATABASE).getBudgetById(budgetId);
+      const hasAccess = budget && await createTransactionService(env.DATABASE).hasEntityAccess(budget.entity_id, user.id);
+      if (!budget || !hasAccess) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Budget not found or access denied',
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const report = await generateBudgetVsActualReport({
+        entityId: budget.entity_id,
+        budgetId,
+        startDate,
+        endDate,
+        timeFrame: { period: 'custom_range', startDate, endDate },
+        db: env.DATABASE,
+        userId: user.id,
+      });
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: {
+          report,
+          alerts: getBudgetVarianceAlerts(report, thresholdPercent),
+        },
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error generating budget vs. actual report:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while generating the budget vs. actual report';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // Method not allowed
+  else {
+    return new Response(JSON.stringify({
+      success: false,
+      error: `Method ${request.method} not allowed`,
+    }), {
+      status: 405,
+      headers: {
+        'Content-Type': 'application/json',
+        'Allow': 'GET'
+      }
+    });
+  }
+};
@@ -0,0 +1,119 @@
+// src/pages/api/entities/owners.js
+import { AppError } from '../../../utils/errors.js';
+import { createEntityOwnerService } from '../../../lib/services/entity-owner-service.js';
+import { createTransactionService } from '../../../lib/services/transaction-service.js';
+import { setEntityOwnersSchema } from '../../../lib/validation/schemas/entity.js';
+
+export const onRequest = async ({ request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+  const url = new URL(request.url);
+  const entityId = url.searchParams.get('entityId');
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (!entityId) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Entity ID is required',
+    }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const ownerService = createEntityOwnerService(env.DATABASE);
+  const transactionService = createTransactionService(env.DATABASE);
+
+  try {
+    const hasAccess = await transactionService.hasEntityAccess(entityId, user.id);
+    if (!hasAccess) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Access denied to this entity',
+      }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // GET - List the entity's partners/members and their ownership
+    if (request.method === 'GET') {
+      const owners = await ownerService.getOwners(entityId);
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: owners,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // PUT - Replace the entity's owners; percentages must total 100
+    else if (request.method === 'PUT') {
+      const data = await request.json();
+
+      const validationResult = setEntityOwnersSchema.safeParse(data);
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const owners = await ownerService.setOwners(entityId, validationResult.data.owners);
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: owners,
+        message: 'Entity owners saved successfully',
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Method not allowed
+    else {
+      return new Response(JSON.stringify({
+        success: false,
+        error: `Method ${request.method} not allowed`,
+      }), {
+        status: 405,
+        headers: {
+          'Content-Type': 'application/json',
+          'Allow': 'GET, PUT'
+        }
+      });
+    }
+  } catch (error) {
+    console.error('Error processing entity owners:', error);
+
+    const statusCode = error instanceof AppError ? error.statusCode : 500;
+    const errorMessage = error instanceof AppError
+      ? error.message
+      : 'An unexpected error occurred while processing entity owners';
+
+    return new Response(JSON.stringify({
+      success: false,
+      error: errorMessage,
+    }), {
+      status: statusCode,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
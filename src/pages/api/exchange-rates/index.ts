@@ -0,0 +1,150 @@
+// src/pages/api/exchange-rates/index.js
+import { z } from 'zod';
+import { AppError } from '../../../utils/errors.js';
+import { createExchangeRateService } from '../../../lib/services/exchange-rate-service.js';
+import { userHasPermission } from '../../../lib/auth/permissions.js';
+import { Permission } from '../../../types/auth';
+
+// Validation schema for loading rates as JSON (CSV bodies are parsed by the service)
+const importRatesSchema = z.object({
+  source: z.string().min(1).max(50).optional(),
+  rates: z.array(z.object({
+    baseCurrency: z.string().regex(/^[A-Za-z]{3}$/, "Currency code must be 3 letters (ISO 4217)"),
+    quoteCurrency: z.string().regex(/^[A-Za-z]{3}$/, "Currency code must be 3 letters (ISO 4217)"),
+    rate: z.string().regex(/^\d+(\.\d+)?$/, "Rate must be a positive decimal"),
+    rateDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  })).min(1, "At least one rate is required"),
+});
+
+export const onRequest = async ({ request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const exchangeRateService = createExchangeRateService(env.DATABASE);
+
+  // GET - List rates, optionally for one pair and date range
+  if (request.method === 'GET') {
+    try {
+      const url = new URL(request.url);
+      const baseCurrency = url.searchParams.get('base');
+      const quoteCurrency = url.searchParams.get('quote');
+      const startDate = url.searchParams.get('startDate');
+      const endDate = url.searchParams.get('endDate');
+      const rates = await exchangeRateService.getRates({
+        ...(baseCurrency ? { baseCurrency } : {}),
+        ...(quoteCurrency ? { quoteCurrency } : {}),
+        ...(startDate ? { startDate } : {}),
+        ...(endDate ? { endDate } : {}),
+      });
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: rates,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error fetching exchange rates:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while fetching exchange rates';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // POST - Load rates from a CSV body (date,base_currency,quote_currency,rate) or JSON
+  else if (request.method === 'POST') {
+    try {
+      const canManage = await userHasPermission(user, Permission.ManageExchangeRates);
+      if (!canManage) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'You do not have permission to manage exchange rates',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      let imported;
+      if ((request.headers.get('Content-Type') || '').includes('text/csv')) {
+        imported = await exchangeRateService.importRatesCsv(await request.text());
+      } else {
+        const validationResult = importRatesSchema.safeParse(await request.json());
+        if (!validationResult.success) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: 'Validation failed',
+            errors: validationResult.error.errors,
+          }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+        imported = await exchangeRateService.importRates(
+          validationResult.data.rates,
+          validationResult.data.source
+        );
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: { imported },
+        message: `${imported} exchange rate(s) saved`,
+      }), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error saving exchange rates:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while saving exchange rates';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // Method not allowed
+  else {
+    return new Response(JSON.stringify({
+      success: false,
+      error: `Method ${request.method} not allowed`,
+    }), {
+      status: 405,
+      headers: {
+        'Content-Type': 'application/json',
+        'Allow': 'GET, POST'
+      }
+    });
+  }
+};
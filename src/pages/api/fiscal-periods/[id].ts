@@ -0,0 +1,132 @@
+// src/pages/api/fiscal-periods/[id].js
+import { z } from 'zod';
+import { AppError } from '../../../utils/errors.js';
+import { createFiscalPeriodService } from '../../../lib/services/fiscal-period-service.js';
+import { createTransactionService } from '../../../lib/services/transaction-service.js';
+import { userHasPermission } from '../../../lib/auth/permissions.js';
+import { Permission } from '../../../types/auth';
+
+// Validation schema for opening, soft-closing or hard-closing a period
+const fiscalPeriodStatusSchema = z.object({
+  status: z.enum(['open', 'soft_closed', 'hard_closed']),
+});
+
+export const onRequest = async ({ params, request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+  const periodId = params.id;
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (!periodId) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Fiscal period ID is required',
+    }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const fiscalPeriodService = createFiscalPeriodService(env.DATABASE);
+  const transactionService = createTransactionService(env.DATABASE);
+
+  // PATCH - Change the lock status of a period
+  if (request.method === 'PATCH') {
+    try {
+      const data = await request.json();
+
+      const validationResult = fiscalPeriodStatusSchema.safeParse(data);
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Invalid status',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const period = await fiscalPeriodService.getPeriodById(periodId);
+      const hasAccess = period && await transactionService.hasEntityAccess(period.entity_id, user.id);
+      if (!period || !hasAccess) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Fiscal period not found or access denied',
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const canManage = await userHasPermission(user, Permission.ManageFiscalPeriods, period.entity_id, env);
+      if (!canManage) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'You do not have permission to manage fiscal periods for this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const canReopenHardClosed = period.status === 'hard_closed'
+        && await userHasPermission(user, Permission.ReopenHardClosedPeriods, period.entity_id, env);
+
+      const updatedPeriod = await fiscalPeriodService.setPeriodStatus(
+        periodId,
+        validationResult.data.status,
+        user.id,
+        canReopenHardClosed
+      );
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: updatedPeriod,
+        message: `Fiscal period "${updatedPeriod.name}" is now ${updatedPeriod.status.replace('_', '-')}`,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error updating fiscal period:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while updating the fiscal period';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // Method not allowed
+  else {
+    return new Response(JSON.stringify({
+      success: false,
+      error: `Method ${request.method} not allowed`,
+    }), {
+      status: 405,
+      headers: {
+        'Content-Type': 'application/json',
+        'Allow': 'PATCH'
+      }
+    });
+  }
+};
@@ -0,0 +1,197 @@
+// src/pages/api/fiscal-periods/fx-revaluation.js
+import { z } from 'zod';
+import { AppError } from '../../../utils/errors.js';
+import { TransactionError } from '../../../lib/accounting/core/transaction.js';
+import { createFxRevaluationService } from '../../../lib/services/fx-revaluation-service.js';
+import { createFiscalPeriodService } from '../../../lib/services/fiscal-period-service.js';
+import { createTransactionService } from '../../../lib/services/transaction-service.js';
+import { userHasPermission } from '../../../lib/auth/permissions.js';
+import { Permission } from '../../../types/auth';
+
+// Validation schema for running a period-end revaluation
+const fxRevaluationSchema = z.object({
+  entityId: z.string().uuid("Entity ID must be a valid UUID"),
+  revaluationDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  gainLossAccountId: z.string().uuid("Gain/loss account ID must be a valid UUID").optional(),
+});
+
+export const onRequest = async ({ request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const fxRevaluationService = createFxRevaluationService(env.DATABASE);
+  const transactionService = createTransactionService(env.DATABASE);
+
+  // GET - Preview the unrealized gains and losses at a date
+  if (request.method === 'GET') {
+    try {
+      const url = new URL(request.url);
+      const validationResult = fxRevaluationSchema.safeParse({
+        entityId: url.searchParams.get('entityId') || undefined,
+        revaluationDate: url.searchParams.get('date') || undefined,
+      });
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const hasAccess = await transactionService.hasEntityAccess(validationResult.data.entityId, user.id);
+      if (!hasAccess) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Access denied to this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const { entityId, revaluationDate, gainLossAccountId } = validationResult.data;
+      const preview = await fxRevaluationService.previewRevaluation({
+        entityId,
+        revaluationDate,
+        ...(gainLossAccountId ? { gainLossAccountId } : {}),
+      });
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: preview,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error previewing FX revaluation:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while previewing the revaluation';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // POST - Post the period-end revaluation entry
+  else if (request.method === 'POST') {
+    try {
+      const data = await request.json();
+
+      const validationResult = fxRevaluationSchema.safeParse(data);
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const input = validationResult.data;
+
+      const hasAccess = await transactionService.hasEntityAccess(input.entityId, user.id);
+      const canManage = hasAccess && await userHasPermission(user, Permission.ManageFiscalPeriods, input.entityId, env);
+      if (!canManage) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'You do not have permission to revalue foreign currency balances for this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const canOverrideSoftClose = await userHasPermission(
+        user,
+        Permission.PostToSoftClosedPeriods,
+        input.entityId,
+        env
+      );
+      const periodLock = await createFiscalPeriodService(env.DATABASE)
+        .getLockContext(input.entityId, canOverrideSoftClose);
+
+      const result = await fxRevaluationService.revalue({
+        entityId: input.entityId,
+        revaluationDate: input.revaluationDate,
+        ...(input.gainLossAccountId ? { gainLossAccountId: input.gainLossAccountId } : {}),
+        periodLock,
+      }, user.id);
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: result,
+        message: result.transaction
+          ? `Foreign currency balances revalued at ${input.revaluationDate}`
+          : 'No foreign currency balances needed revaluing',
+      }), {
+        status: result.transaction ? 201 : 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error processing FX revaluation:', error);
+
+      if (error instanceof TransactionError) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: error.message,
+          code: error.code,
+        }), {
+          status: error.code.startsWith('PERIOD_') ? 409 : 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while processing the revaluation';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // Method not allowed
+  else {
+    return new Response(JSON.stringify({
+      success: false,
+      error: `Method ${request.method} not allowed`,
+    }), {
+      status: 405,
+      headers: {
+        'Content-Type': 'application/json',
+        'Allow': 'GET, POST'
+      }
+    });
+  }
+};
@@ -0,0 +1,161 @@
+// src/pages/api/fiscal-periods/index.js
+import { z } from 'zod';
+import { AppError } from '../../../utils/errors.js';
+import { createFiscalPeriodService } from '../../../lib/services/fiscal-period-service.js';
+import { createTransactionService } from '../../../lib/services/transaction-service.js';
+import { userHasPermission } from '../../../lib/auth/permissions.js';
+import { Permission } from '../../../types/auth';
+
+// Input validation schema for creating fiscal periods
+const createFiscalPeriodSchema = z.object({
+  entityId: z.string().uuid("Entity ID must be a valid UUID"),
+  name: z.string().min(1, "Period name is required"),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be in YYYY-MM-DD format"),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "End date must be in YYYY-MM-DD format"),
+});
+
+export const onRequest = async ({ request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const fiscalPeriodService = createFiscalPeriodService(env.DATABASE);
+  const transactionService = createTransactionService(env.DATABASE);
+
+  // GET - List the fiscal periods of an entity
+  if (request.method === 'GET') {
+    try {
+      const url = new URL(request.url);
+      const entityId = url.searchParams.get('entityId');
+
+      if (!entityId) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Entity ID is required',
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const hasAccess = await transactionService.hasEntityAccess(entityId, user.id);
+      if (!hasAccess) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Access denied to this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const periods = await fiscalPeriodService.getPeriods(entityId);
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: periods,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error fetching fiscal periods:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while fetching fiscal periods';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // POST - Create a new (open) fiscal period
+  else if (request.method === 'POST') {
+    try {
+      const data = await request.json();
+
+      const validationResult = createFiscalPeriodSchema.safeParse(data);
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const { entityId, ...periodInput } = validationResult.data;
+
+      const hasAccess = await transactionService.hasEntityAccess(entityId, user.id);
+      const canManage = hasAccess && await userHasPermission(user, Permission.ManageFiscalPeriods, entityId, env);
+      if (!canManage) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'You do not have permission to manage fiscal periods for this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const period = await fiscalPeriodService.createPeriod(entityId, periodInput);
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: period,
+        message: 'Fiscal period created successfully',
+      }), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error creating fiscal period:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while creating the fiscal period';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // Method not allowed
+  else {
+    return new Response(JSON.stringify({
+      success: false,
+      error: `Method ${request.method} not allowed`,
+    }), {
+      status: 405,
+      headers: {
+        'Content-Type': 'application/json',
+        'Allow': 'GET, POST'
+      }
+    });
+  }
+};
@@ -0,0 +1,193 @@
+// src/pages/api/fiscal-periods/year-end-close.js
+import { z } from 'zod';
+import { AppError } from '../../../utils/errors.js';
+import { TransactionError } from '../../../lib/accounting/core/transaction.js';
+import { createYearEndCloseService } from '../../../lib/services/year-end-close-service.js';
+import { createFiscalPeriodService } from '../../../lib/services/fiscal-period-service.js';
+import { createTransactionService } from '../../../lib/services/transaction-service.js';
+import { userHasPermission } from '../../../lib/auth/permissions.js';
+import { Permission } from '../../../types/auth';
+
+// Validation schema for closing or reopening a fiscal year
+const yearEndCloseSchema = z.object({
+  action: z.enum(['close', 'reopen']),
+  entityId: z.string().uuid("Entity ID must be a valid UUID"),
+  fiscalYear: z.number().int().min(1900).max(9999),
+  fiscalYearStartMonth: z.number().int().min(0).max(11).optional(),
+  retainedEarningsAccountId: z.string().uuid("Retained earnings account ID must be a valid UUID").optional(),
+});
+
+export const onRequest = async ({ request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const yearEndCloseService = createYearEndCloseService(env.DATABASE);
+  const transactionService = createTransactionService(env.DATABASE);
+
+  // GET - Close history for an entity
+  if (request.method === 'GET') {
+    try {
+      const url = new URL(request.url);
+      const entityId = url.searchParams.get('entityId');
+
+      if (!entityId) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Entity ID is required',
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const hasAccess = await transactionService.hasEntityAccess(entityId, user.id);
+      if (!hasAccess) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Access denied to this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const closes = await yearEndCloseService.getCloses(entityId);
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: closes,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error fetching year-end closes:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while fetching year-end closes';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // POST - Close or reopen a fiscal year
+  else if (request.method === 'POST') {
+    try {
+      const data = await request.json();
+
+      const validationResult = yearEndCloseSchema.safeParse(data);
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const { action, ...input } = validationResult.data;
+
+      const hasAccess = await transactionService.hasEntityAccess(input.entityId, user.id);
+      const canManage = hasAccess && await userHasPermission(user, Permission.ManageFiscalPeriods, input.entityId, env);
+      if (!canManage) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'You do not have permission to close fiscal years for this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const canOverrideSoftClose = await userHasPermission(
+        user,
+        Permission.PostToSoftClosedPeriods,
+        input.entityId,
+        env
+      );
+      const periodLock = await createFiscalPeriodService(env.DATABASE)
+        .getLockContext(input.entityId, canOverrideSoftClose);
+
+      const closeInput = {
+        entityId: input.entityId,
+        fiscalYear: input.fiscalYear,
+        ...(input.fiscalYearStartMonth !== undefined ? { fiscalYearStartMonth: input.fiscalYearStartMonth } : {}),
+        ...(input.retainedEarningsAccountId ? { retainedEarningsAccountId: input.retainedEarningsAccountId } : {}),
+        periodLock,
+      };
+      const result = action === 'close'
+        ? await yearEndCloseService.closeYear(closeInput, user.id)
+        : await yearEndCloseService.reopenYear(closeInput, user.id);
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: result,
+        message: `Fiscal year ${input.fiscalYear} ${action === 'close' ? 'closed' : 'reopened'} successfully`,
+      }), {
+        status: action === 'close' ? 201 : 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error processing year-end close:', error);
+
+      if (error instanceof TransactionError) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: error.message,
+          code: error.code,
+        }), {
+          status: error.code.startsWith('PERIOD_') ? 409 : 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while processing the year-end close';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // Method not allowed
+  else {
+    return new Response(JSON.stringify({
+      success: false,
+      error: `Method ${request.method} not allowed`,
+    }), {
+      status: 405,
+      headers: {
+        'Content-Type': 'application/json',
+        'Allow': 'GET, POST'
+      }
+    });
+  }
+};
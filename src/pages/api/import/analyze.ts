@@ -0,0 +1,220 @@
+// src/pages/api/import/analyze.js
+import { AppError } from '../../../utils/errors.js';
+import { createTransactionService } from '../../../lib/services/transaction-service.js';
+import { createImportSessionService } from '../../../lib/services/import-session-service.js';
+import { importSessionQuerySchema, importUploadSchema } from '../../../lib/validation/schemas/import.js';
+
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+export const onRequest = async ({ request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  // GET - An entity's import sessions, or one session with a page of its rows to resume it
+  if (request.method === 'GET') {
+    try {
+      const url = new URL(request.url);
+      const validationResult = importSessionQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const { entityId, sessionId, processingStatus, page, limit } = validationResult.data;
+      const imports = createImportSessionService(env.DATABASE, env.DOCUMENTS_BUCKET);
+
+      const session = sessionId ? await imports.getSession(sessionId) : null;
+      if (sessionId && !session) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Import session not found',
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const scopeEntityId = session ? session.entity_id : entityId;
+      if (!scopeEntityId) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'entityId or sessionId is required',
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const hasAccess = await createTransactionService(env.DATABASE).hasEntityAccess(scopeEntityId, user.id);
+      if (!hasAccess) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Access denied to this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const data = session
+        ? {
+            session,
+            rows: await imports.getRows(session.id, {
+              ...(processingStatus ? { processingStatus } : {}),
+              page: page || 1,
+              limit: limit || 100,
+            }),
+          }
+        : await imports.getSessions(scopeEntityId);
+
+      return new Response(JSON.stringify({
+        success: true,
+        data,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error fetching import sessions:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while fetching import sessions';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // POST - Upload a bank file (multipart form) and start an import session
+  else if (request.method === 'POST') {
+    try {
+      const form = await request.formData();
+      const file = form.get('file');
+      if (!file || typeof file === 'string') {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'A file is required',
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      if (file.size > MAX_FILE_BYTES) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: `The file is larger than ${MAX_FILE_BYTES / (1024 * 1024)} MB`,
+        }), {
+          status: 413,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const fields = Object.fromEntries([...form.entries()].filter(([, value]) => typeof value === 'string'));
+      const validationResult = importUploadSchema.safeParse(fields);
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const data = validationResult.data;
+      const accountCheck = await createTransactionService(env.DATABASE).validateEntityAccounts(
+        data.entityId,
+        [data.bankAccountId, ...(data.counterAccountId ? [data.counterAccountId] : [])],
+        user.id
+      );
+      if (!accountCheck.success) {
+        const denied = accountCheck.error === 'Access denied to this entity';
+        return new Response(JSON.stringify({
+          success: false,
+          error: accountCheck.error,
+          ...(accountCheck.invalidAccounts ? { invalidAccounts: accountCheck.invalidAccounts } : {}),
+        }), {
+          status: denied ? 403 : 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const session = await createImportSessionService(env.DATABASE, env.DOCUMENTS_BUCKET).createSession({
+        entityId: data.entityId,
+        userId: user.id,
+        name: data.name || null,
+        fileType: data.fileType,
+        fileName: file.name,
+        file: await file.arrayBuffer(),
+        bankAccountId: data.bankAccountId,
+        counterAccountId: data.counterAccountId || null,
+        processingOptions: data.processingOptions || null,
+        sourceAccount: data.sourceAccount || null,
+        categoryAccountCodes: data.categoryAccountCodes || null,
+        transferAccountCodes: data.transferAccountCodes || null,
+      });
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: session,
+      }), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error analyzing import file:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while reading the import file';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // Method not allowed
+  else {
+    return new Response(JSON.stringify({
+      success: false,
+      error: `Method ${request.method} not allowed`,
+    }), {
+      status: 405,
+      headers: {
+        'Content-Type': 'application/json',
+        'Allow': 'GET, POST'
+      }
+    });
+  }
+};
@@ -0,0 +1,189 @@
+// src/pages/api/import/process.js
+import { AppError } from '../../../utils/errors.js';
+import { createTransactionService } from '../../../lib/services/transaction-service.js';
+import { createImportSessionService } from '../../../lib/services/import-session-service.js';
+import { warmReportCache } from '../../../lib/reports/report-api.js';
+import { LARGE_IMPORT_THRESHOLD } from '../../../lib/reports/report-cache.js';
+import { importHistoryQuerySchema, processImportSchema } from '../../../lib/validation/schemas/import.js';
+
+export const onRequest = async ({ request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  // GET - Committed imports of an entity, including those rolled back
+  if (request.method === 'GET') {
+    try {
+      const url = new URL(request.url);
+      const validationResult = importHistoryQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const { entityId } = validationResult.data;
+
+      const hasAccess = await createTransactionService(env.DATABASE).hasEntityAccess(entityId, user.id);
+      if (!hasAccess) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Access denied to this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const history = await createImportSessionService(env.DATABASE, env.DOCUMENTS_BUCKET).getHistory(entityId);
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: history,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error fetching import history:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while fetching import history';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // POST - Move an import session on: map columns, correct rows, commit, roll back or cancel
+  else if (request.method === 'POST') {
+    try {
+      const data = await request.json();
+
+      const validationResult = processImportSchema.safeParse(data);
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const input = validationResult.data;
+      const imports = createImportSessionService(env.DATABASE, env.DOCUMENTS_BUCKET);
+
+      const existing = await imports.getSession(input.sessionId);
+      if (!existing) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Import session not found',
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const hasAccess = await createTransactionService(env.DATABASE).hasEntityAccess(existing.entity_id, user.id);
+      if (!hasAccess) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Access denied to this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      let session;
+      switch (input.action) {
+        case 'map':
+          session = await imports.applyColumnMapping(input.sessionId, input.mapping, input.validationRules || []);
+          break;
+        case 'update_rows':
+          session = await imports.updateRows(input.sessionId, input.updates);
+          break;
+        case 'commit':
+          session = await imports.commit(input.sessionId, user.id);
+          // A large import leaves the entity's cached reports stale; rebuild
+          // the most-requested ones after responding
+          if ((session.successfully_imported_rows_count ?? 0) >= LARGE_IMPORT_THRESHOLD && env.REPORT_CACHE_KV) {
+            locals.runtime.waitUntil?.(warmReportCache({
+              entityId: session.entity_id,
+              db: env.DATABASE,
+              reportCache: env.REPORT_CACHE_KV,
+              userId: user.id,
+            }));
+          }
+          break;
+        case 'rollback':
+          session = await imports.rollback(input.sessionId, user.id);
+          break;
+        case 'cancel':
+          session = await imports.cancel(input.sessionId);
+          break;
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: session,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error processing import:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while processing the import';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // Method not allowed
+  else {
+    return new Response(JSON.stringify({
+      success: false,
+      error: `Method ${request.method} not allowed`,
+    }), {
+      status: 405,
+      headers: {
+        'Content-Type': 'application/json',
+        'Allow': 'GET, POST'
+      }
+    });
+  }
+};
@@ -0,0 +1,172 @@
+// src/pages/api/journals/index.js
+import { z } from 'zod';
+import { AppError } from '../../../utils/errors.js';
+import { createJournalService } from '../../../lib/services/journal-service.js';
+import { createTransactionService } from '../../../lib/services/transaction-service.js';
+
+const journalTypeSchema = z.enum(['general', 'adjusting', 'closing']);
+
+// Input validation schema for creating journals
+const createJournalSchema = z.object({
+  entityId: z.string().uuid("Entity ID must be a valid UUID"),
+  name: z.string().min(1, "Journal name is required"),
+  description: z.string().nullable().optional(),
+  type: z.enum(['general', 'adjusting']).optional(),
+});
+
+export const onRequest = async ({ request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const journalService = createJournalService(env.DATABASE);
+  const transactionService = createTransactionService(env.DATABASE);
+
+  // GET - List the journals of an entity, optionally of one type
+  if (request.method === 'GET') {
+    try {
+      const url = new URL(request.url);
+      const entityId = url.searchParams.get('entityId');
+      const typeResult = journalTypeSchema.optional().safeParse(url.searchParams.get('type') ?? undefined);
+
+      if (!entityId) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Entity ID is required',
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      if (!typeResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Journal type must be general, adjusting or closing',
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const hasAccess = await transactionService.hasEntityAccess(entityId, user.id);
+      if (!hasAccess) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Access denied to this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const journals = await journalService.getJournals(entityId, typeResult.data);
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: journals,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error fetching journals:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while fetching journals';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // POST - Create a journal. Transactions posted to an adjusting journal
+  // make up the adjustments column of the trial balance.
+  else if (request.method === 'POST') {
+    try {
+      const data = await request.json();
+
+      const validationResult = createJournalSchema.safeParse(data);
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const { entityId, ...journalInput } = validationResult.data;
+
+      const hasAccess = await transactionService.hasEntityAccess(entityId, user.id);
+      if (!hasAccess) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Access denied to this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const journal = await journalService.createJournal(entityId, journalInput, user.id);
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: journal,
+        message: 'Journal created successfully',
+      }), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error creating journal:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while creating the journal';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // Method not allowed
+  else {
+    return new Response(JSON.stringify({
+      success: false,
+      error: `Method ${request.method} not allowed`,
+    }), {
+      status: 405,
+      headers: {
+        'Content-Type': 'application/json',
+        'Allow': 'GET, POST'
+      }
+    });
+  }
+};
@@ -0,0 +1,157 @@
+// src/pages/api/recurring/[id].js
+import { AppError } from '../../../utils/errors.js';
+import { createRecurringScheduleService } from '../../../lib/services/recurring-schedule-service.js';
+import { createTransactionService } from '../../../lib/services/transaction-service.js';
+import { updateRecurringScheduleSchema } from '../../../lib/validation/schemas/recurring.js';
+
+export const onRequest = async ({ params, request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+  const scheduleId = params.id;
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (!scheduleId) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Schedule ID is required',
+    }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const scheduleService = createRecurringScheduleService(env.DATABASE);
+  const transactionService = createTransactionService(env.DATABASE);
+
+  try {
+    const schedule = await scheduleService.getScheduleById(scheduleId);
+    const hasAccess = schedule && await transactionService.hasEntityAccess(schedule.entity_id, user.id);
+
+    if (!schedule || !hasAccess) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Recurring schedule not found or access denied',
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // GET - Fetch a recurring schedule
+    if (request.method === 'GET') {
+      return new Response(JSON.stringify({
+        success: true,
+        data: schedule,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // PATCH - Pause, resume or change a recurring schedule
+    else if (request.method === 'PATCH') {
+      const data = await request.json();
+
+      const validationResult = updateRecurringScheduleSchema.safeParse(data);
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const { name, description, endDate, status, postAutomatically, lines } = validationResult.data;
+      const updated = await scheduleService.updateSchedule(scheduleId, {
+        ...(name !== undefined ? { name } : {}),
+        ...(description !== undefined ? { description } : {}),
+        ...(endDate !== undefined ? { endDate } : {}),
+        ...(status ? { status } : {}),
+        ...(postAutomatically !== undefined ? { postAutomatically } : {}),
+        ...(lines
+          ? {
+              lines: lines.map(({ memo, amountSchedule, ...line }) => ({
+                ...line,
+                ...(memo !== undefined ? { memo } : {}),
+                ...(amountSchedule ? { amountSchedule } : {}),
+              })),
+            }
+          : {}),
+      }, user.id);
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: updated,
+        message: 'Recurring schedule updated successfully',
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // DELETE - Delete a recurring schedule (generated transactions are kept)
+    else if (request.method === 'DELETE') {
+      const result = await scheduleService.deleteSchedule(scheduleId);
+
+      if (!result) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Failed to delete recurring schedule',
+        }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'Recurring schedule deleted successfully',
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Method not allowed
+    else {
+      return new Response(JSON.stringify({
+        success: false,
+        error: `Method ${request.method} not allowed`,
+      }), {
+        status: 405,
+        headers: {
+          'Content-Type': 'application/json',
+          'Allow': 'GET, PATCH, DELETE'
+        }
+      });
+    }
+  } catch (error) {
+    console.error('Error processing recurring schedule:', error);
+
+    const statusCode = error instanceof AppError ? error.statusCode : 500;
+    const errorMessage = error instanceof AppError
+      ? error.message
+      : 'An unexpected error occurred while processing the recurring schedule';
+
+    return new Response(JSON.stringify({
+      success: false,
+      error: errorMessage,
+    }), {
+      status: statusCode,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
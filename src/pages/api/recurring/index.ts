@@ -0,0 +1,197 @@
+// src/pages/api/recurring/index.js
+import { getEntry } from 'astro:content';
+import { AppError } from '../../../utils/errors.js';
+import { createRecurringScheduleService } from '../../../lib/services/recurring-schedule-service.js';
+import { createTransactionService } from '../../../lib/services/transaction-service.js';
+import { createRecurringScheduleSchema } from '../../../lib/validation/schemas/recurring.js';
+
+export const onRequest = async ({ request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const scheduleService = createRecurringScheduleService(env.DATABASE);
+  const transactionService = createTransactionService(env.DATABASE);
+
+  // GET - List the recurring schedules of an entity
+  if (request.method === 'GET') {
+    try {
+      const url = new URL(request.url);
+      const entityId = url.searchParams.get('entityId');
+
+      if (!entityId) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Entity ID is required',
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const hasAccess = await transactionService.hasEntityAccess(entityId, user.id);
+      if (!hasAccess) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Access denied to this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const schedules = await scheduleService.getSchedules(entityId);
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: schedules,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error fetching recurring schedules:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while fetching recurring schedules';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // POST - Create a recurring schedule
+  else if (request.method === 'POST') {
+    try {
+      const data = await request.json();
+
+      const validationResult = createRecurringScheduleSchema.safeParse(data);
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const { templateId, templateAmounts, lines, frequency, cronExpression, ...scheduleData } = validationResult.data;
+
+      const hasAccess = await transactionService.hasEntityAccess(scheduleData.entityId, user.id);
+      if (!hasAccess) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Access denied to this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      let template = null;
+      if (templateId) {
+        template = await getEntry('transaction-templates', templateId);
+        if (!template) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: `Transaction template "${templateId}" not found`,
+          }), {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+
+      // Explicit settings win over the template's defaults
+      const scheduleFrequency = frequency ?? template?.data.recurrence?.frequency;
+      if (!scheduleFrequency) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Frequency is required',
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const scheduleLines = lines
+        ? lines.map(({ memo, amountSchedule, ...line }) => ({
+            ...line,
+            ...(memo !== undefined ? { memo } : {}),
+            ...(amountSchedule ? { amountSchedule } : {}),
+          }))
+        : await scheduleService.resolveTemplateLines(
+            scheduleData.entityId,
+            template.data.lines,
+            templateAmounts
+          );
+
+      const schedule = await scheduleService.createSchedule({
+        ...scheduleData,
+        endDate: scheduleData.endDate ?? null,
+        journalId: scheduleData.journalId ?? null,
+        frequency: scheduleFrequency,
+        cronExpression: cronExpression ?? template?.data.recurrence?.cronExpression ?? null,
+        templateId: templateId ?? null,
+        lines: scheduleLines,
+      }, user.id);
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: schedule,
+        message: 'Recurring schedule created successfully',
+      }), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error creating recurring schedule:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while creating the recurring schedule';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // Method not allowed
+  else {
+    return new Response(JSON.stringify({
+      success: false,
+      error: `Method ${request.method} not allowed`,
+    }), {
+      status: 405,
+      headers: {
+        'Content-Type': 'application/json',
+        'Allow': 'GET, POST'
+      }
+    });
+  }
+};
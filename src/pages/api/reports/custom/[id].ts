@@ -0,0 +1,141 @@
+// src/pages/api/reports/custom/[id].js
+import { AppError } from '../../../../utils/errors.js';
+import { createCustomReportService } from '../../../../lib/services/custom-report-service.js';
+import { createTransactionService } from '../../../../lib/services/transaction-service.js';
+import { updateCustomReportSchema } from '../../../../lib/validation/schemas/custom-report.js';
+
+export const onRequest = async ({ params, request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+  const reportId = params.id;
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (!reportId) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Report ID is required',
+    }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const customReportService = createCustomReportService(env.DATABASE);
+  const transactionService = createTransactionService(env.DATABASE);
+
+  try {
+    const report = await customReportService.getReportById(reportId, user.id);
+    const hasAccess = report && await transactionService.hasEntityAccess(report.entityId, user.id);
+
+    if (!report || !hasAccess) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Custom report not found or access denied',
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // GET - Fetch a saved report configuration
+    if (request.method === 'GET') {
+      return new Response(JSON.stringify({
+        success: true,
+        data: report,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // PATCH - Change the configuration or sharing (creator only)
+    else if (request.method === 'PATCH') {
+      const data = await request.json();
+
+      const validationResult = updateCustomReportSchema.safeParse(data);
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const updated = await customReportService.updateReport(reportId, validationResult.data, user.id);
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: updated,
+        message: 'Custom report updated successfully',
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // DELETE - Delete a saved report (creator only)
+    else if (request.method === 'DELETE') {
+      const result = await customReportService.deleteReport(reportId, user.id);
+
+      if (!result) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Failed to delete custom report',
+        }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'Custom report deleted successfully',
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Method not allowed
+    else {
+      return new Response(JSON.stringify({
+        success: false,
+        error: `Method ${request.method} not allowed`,
+      }), {
+        status: 405,
+        headers: {
+          'Content-Type': 'application/json',
+          'Allow': 'GET, PATCH, DELETE'
+        }
+      });
+    }
+  } catch (error) {
+    console.error('Error processing custom report:', error);
+
+    const statusCode = error instanceof AppError ? error.statusCode : 500;
+    const errorMessage = error instanceof AppError
+      ? error.message
+      : 'An unexpected error occurred while processing the custom report';
+
+    return new Response(JSON.stringify({
+      success: false,
+      error: errorMessage,
+    }), {
+      status: statusCode,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
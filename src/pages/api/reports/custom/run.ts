@@ -0,0 +1,128 @@
+// src/pages/api/reports/custom/run.js
+import { AppError } from '../../../../utils/errors.js';
+import { createCustomReportService } from '../../../../lib/services/custom-report-service.js';
+import { createTransactionService } from '../../../../lib/services/transaction-service.js';
+import { runCustomReportSchema } from '../../../../lib/validation/schemas/custom-report.js';
+import { compileCustomReport } from '../../../../lib/reports/builder.js';
+import { generateCustomReport } from '../../../../lib/reports/report-api.js';
+
+export const onRequest = async ({ request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  // POST - Run a saved report, or a configuration as edited in the builder
+  if (request.method === 'POST') {
+    try {
+      const data = await request.json();
+
+      const validationResult = runCustomReportSchema.safeParse(data);
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const { entityId, reportId, timeFrame } = validationResult.data;
+
+      const hasAccess = await createTransactionService(env.DATABASE).hasEntityAccess(entityId, user.id);
+      if (!hasAccess) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Access denied to this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const saved = reportId
+        ? await createCustomReportService(env.DATABASE).getReportById(reportId, user.id)
+        : null;
+      if (reportId && (!saved || saved.entityId !== entityId)) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Custom report not found or access denied',
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const configuration = saved ? saved.configuration : validationResult.data.configuration;
+      if (!configuration) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'A saved report or a configuration is required',
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // Surface configuration errors as such before running the report
+      compileCustomReport(configuration);
+
+      const report = await generateCustomReport({
+        entityId,
+        configuration,
+        timeFrame,
+        db: env.DATABASE,
+        reportCache: env.REPORT_CACHE_KV,
+        userId: user.id,
+      });
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: report,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error running custom report:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while running the custom report';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // Method not allowed
+  else {
+    return new Response(JSON.stringify({
+      success: false,
+      error: `Method ${request.method} not allowed`,
+    }), {
+      status: 405,
+      headers: {
+        'Content-Type': 'application/json',
+        'Allow': 'POST'
+      }
+    });
+  }
+};
@@ -0,0 +1,138 @@
+// src/pages/api/reports/general-ledger.js
+import { z } from 'zod';
+import { AppError } from '../../../utils/errors.js';
+import { createTransactionService } from '../../../lib/services/transaction-service.js';
+import { generateGeneralLedgerReport } from '../../../lib/reports/report-api.js';
+import { MAX_LEDGER_PAGE_SIZE } from '../../../lib/reports/general-ledger.js';
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+const booleanParam = z.enum(['true', 'false']).optional().transform((value) => value === 'true');
+
+const generalLedgerQuerySchema = z.object({
+  entityId: z.string().uuid('Entity ID must be a valid UUID'),
+  startDate: dateSchema.optional(),
+  endDate: dateSchema,
+  accountIds: z.array(z.string().min(1)).optional(),
+  includeZeroBalances: booleanParam,
+  includeInactiveAccounts: booleanParam,
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(MAX_LEDGER_PAGE_SIZE).optional(),
+  propertyId: z.string().max(100).optional(),
+  unitId: z.string().max(100).optional(),
+  className: z.string().max(100).optional(),
+  tags: z.array(z.string().max(100)).max(10).optional(),
+  currencyCode: z.string().length(3).optional(),
+});
+
+export const onRequest = async ({ request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  // GET - Posted lines per account with opening and running balances. Report
+  // line items link here through their drillDown filters; accountId and tag
+  // may be repeated.
+  if (request.method === 'GET') {
+    try {
+      const url = new URL(request.url);
+      const query = Object.fromEntries(url.searchParams);
+      const accountIds = url.searchParams.getAll('accountId');
+      const tags = url.searchParams.getAll('tag');
+      const validationResult = generalLedgerQuerySchema.safeParse({
+        ...query,
+        accountIds: accountIds.length > 0 ? accountIds : undefined,
+        tags: tags.length > 0 ? tags : undefined,
+      });
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const { entityId, startDate, endDate, propertyId, unitId, className, tags: tagFilter, currencyCode, ...options } = validationResult.data;
+
+      const hasAccess = await createTransactionService(env.DATABASE).hasEntityAccess(entityId, user.id);
+      if (!hasAccess) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Access denied to this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const dimensions = {
+        ...(propertyId ? { propertyId } : {}),
+        ...(unitId ? { unitId } : {}),
+        ...(className ? { className } : {}),
+        ...(tagFilter ? { tags: tagFilter } : {}),
+      };
+
+      const report = await generateGeneralLedgerReport({
+        ...options,
+        entityId,
+        ...(startDate ? { startDate } : {}),
+        endDate,
+        dimensions,
+        ...(currencyCode ? { currencyCode } : {}),
+        timeFrame: { period: 'custom_range', startDate: startDate ?? endDate, endDate },
+        db: env.DATABASE,
+        reportCache: env.REPORT_CACHE_KV,
+        userId: user.id,
+      });
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: report,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error generating general ledger:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while generating the general ledger';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // Method not allowed
+  else {
+    return new Response(JSON.stringify({
+      success: false,
+      error: `Method ${request.method} not allowed`,
+    }), {
+      status: 405,
+      headers: {
+        'Content-Type': 'application/json',
+        'Allow': 'GET'
+      }
+    });
+  }
+};
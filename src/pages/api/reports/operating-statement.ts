@@ -0,0 +1,111 @@
+// src/pages/api/reports/operating-statement.js
+import { z } from 'zod';
+import { AppError } from '../../../utils/errors.js';
+import { createTransactionService } from '../../../lib/services/transaction-service.js';
+import { generatePropertyOperatingStatementReport } from '../../../lib/reports/report-api.js';
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+const operatingStatementQuerySchema = z.object({
+  entityId: z.string().uuid('Entity ID must be a valid UUID'),
+  startDate: dateSchema,
+  endDate: dateSchema,
+  propertyId: z.string().min(1).max(100).optional(),
+  currencyCode: z.string().length(3).optional(),
+});
+
+export const onRequest = async ({ request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  // GET - Operating statement (NOI) by property for a period
+  if (request.method === 'GET') {
+    try {
+      const url = new URL(request.url);
+      const validationResult = operatingStatementQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const { entityId, startDate, endDate, propertyId, currencyCode } = validationResult.data;
+
+      const hasAccess = await createTransactionService(env.DATABASE).hasEntityAccess(entityId, user.id);
+      if (!hasAccess) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Access denied to this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const report = await generatePropertyOperatingStatementReport({
+        entityId,
+        startDate,
+        endDate,
+        ...(propertyId ? { propertyId } : {}),
+        ...(currencyCode ? { currencyCode } : {}),
+        timeFrame: { period: 'custom_range', startDate, endDate },
+        db: env.DATABASE,
+        reportCache: env.REPORT_CACHE_KV,
+        userId: user.id,
+      });
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: report,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error generating operating statement:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while generating the operating statement';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // Method not allowed
+  else {
+    return new Response(JSON.stringify({
+      success: false,
+      error: `Method ${request.method} not allowed`,
+    }), {
+      status: 405,
+      headers: {
+        'Content-Type': 'application/json',
+        'Allow': 'GET'
+      }
+    });
+  }
+};
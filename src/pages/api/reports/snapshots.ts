@@ -0,0 +1,194 @@
+// src/pages/api/reports/snapshots.js
+import { AppError } from '../../../utils/errors.js';
+import { createTransactionService } from '../../../lib/services/transaction-service.js';
+import { createCustomReportService } from '../../../lib/services/custom-report-service.js';
+import { createReportSnapshotService } from '../../../lib/services/report-snapshot-service.js';
+import { finalizeReportSchema, reportSnapshotQuerySchema } from '../../../lib/validation/schemas/report-snapshot.js';
+import { compileCustomReport } from '../../../lib/reports/builder.js';
+import { finalizeReport } from '../../../lib/reports/report-snapshots.js';
+
+export const onRequest = async ({ request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  // GET - Finalized reports of an entity, newest first
+  if (request.method === 'GET') {
+    try {
+      const url = new URL(request.url);
+      const validationResult = reportSnapshotQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const { entityId, reportType } = validationResult.data;
+
+      const hasAccess = await createTransactionService(env.DATABASE).hasEntityAccess(entityId, user.id);
+      if (!hasAccess) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Access denied to this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const snapshots = await createReportSnapshotService(env.DATABASE, env.DOCUMENTS_BUCKET)
+        .getSnapshots(entityId, reportType);
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: snapshots,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error fetching report snapshots:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while fetching report snapshots';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // POST - Finalize a report into an immutable snapshot
+  else if (request.method === 'POST') {
+    try {
+      const data = await request.json();
+
+      const validationResult = finalizeReportSchema.safeParse(data);
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const { reportType, entityId } = validationResult.data;
+
+      const hasAccess = await createTransactionService(env.DATABASE).hasEntityAccess(entityId, user.id);
+      if (!hasAccess) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Access denied to this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // A saved custom report is finalized with its configuration as it is now
+      let configuration = null;
+      if (validationResult.data.reportType === 'custom') {
+        const { customReportId } = validationResult.data;
+        const saved = customReportId
+          ? await createCustomReportService(env.DATABASE).getReportById(customReportId, user.id)
+          : null;
+        if (customReportId && (!saved || saved.entityId !== entityId)) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: 'Custom report not found or access denied',
+          }), {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        configuration = saved ? saved.configuration : validationResult.data.parameters.configuration;
+        if (!configuration) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: 'A saved report or a configuration is required',
+          }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        // Surface configuration errors as such before running the report
+        compileCustomReport(configuration);
+      }
+
+      const snapshot = await finalizeReport({
+        reportType,
+        parameters: {
+          ...validationResult.data.parameters,
+          ...(configuration ? { configuration } : {}),
+          entityId,
+        },
+        db: env.DATABASE,
+        bucket: env.DOCUMENTS_BUCKET,
+        userId: user.id,
+      });
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: snapshot,
+      }), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error finalizing report:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while finalizing the report';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // Method not allowed
+  else {
+    return new Response(JSON.stringify({
+      success: false,
+      error: `Method ${request.method} not allowed`,
+    }), {
+      status: 405,
+      headers: {
+        'Content-Type': 'application/json',
+        'Allow': 'GET, POST'
+      }
+    });
+  }
+};
@@ -0,0 +1,109 @@
+// src/pages/api/reports/snapshots/[id].js
+import { AppError } from '../../../../utils/errors.js';
+import { createReportSnapshotService } from '../../../../lib/services/report-snapshot-service.js';
+import { createTransactionService } from '../../../../lib/services/transaction-service.js';
+import { compareWithSnapshot } from '../../../../lib/reports/report-snapshots.js';
+
+export const onRequest = async ({ params, request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+  const snapshotId = params.id;
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (!snapshotId) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Snapshot ID is required',
+    }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  // GET - A finalized report; with ?compare=true, also what has changed since
+  if (request.method === 'GET') {
+    try {
+      const snapshotService = createReportSnapshotService(env.DATABASE, env.DOCUMENTS_BUCKET);
+      const snapshot = await snapshotService.getSnapshotById(snapshotId);
+      const hasAccess = snapshot &&
+        await createTransactionService(env.DATABASE).hasEntityAccess(snapshot.entityId, user.id);
+
+      if (!snapshot || !hasAccess) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Report snapshot not found or access denied',
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const report = await snapshotService.getSnapshotReport(snapshot);
+
+      const url = new URL(request.url);
+      const comparison = url.searchParams.get('compare') === 'true'
+        ? await compareWithSnapshot({
+            snapshot,
+            report,
+            db: env.DATABASE,
+            reportCache: env.REPORT_CACHE_KV,
+          })
+        : null;
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: {
+          snapshot,
+          report,
+          ...(comparison ? {
+            booksChanged: comparison.booksChanged,
+            generatorChanged: comparison.generatorChanged,
+            differences: comparison.differences,
+          } : {}),
+        },
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error fetching report snapshot:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while fetching the report snapshot';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // Method not allowed
+  else {
+    return new Response(JSON.stringify({
+      success: false,
+      error: `Method ${request.method} not allowed`,
+    }), {
+      status: 405,
+      headers: {
+        'Content-Type': 'application/json',
+        'Allow': 'GET'
+      }
+    });
+  }
+};
@@ -0,0 +1,111 @@
+// src/pages/api/reports/trial-balance.js
+import { z } from 'zod';
+import { AppError } from '../../../utils/errors.js';
+import { createTransactionService } from '../../../lib/services/transaction-service.js';
+import { generateTrialBalanceReport } from '../../../lib/reports/report-api.js';
+
+const booleanParam = z.enum(['true', 'false']).optional().transform((value) => value === 'true');
+
+const trialBalanceQuerySchema = z.object({
+  entityId: z.string().uuid('Entity ID must be a valid UUID'),
+  asOfDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  includeZeroBalances: booleanParam,
+  includeClosingEntries: booleanParam,
+  currencyCode: z.string().length(3).optional(),
+});
+
+export const onRequest = async ({ request, locals }) => {
+  const user = locals.user;
+  const env = locals.runtime.env;
+
+  // Check if user is authenticated
+  if (!user || !user.id) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Authentication required',
+    }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  // GET - Trial balance worksheet as of a date
+  if (request.method === 'GET') {
+    try {
+      const url = new URL(request.url);
+      const validationResult = trialBalanceQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+      if (!validationResult.success) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Validation failed',
+          errors: validationResult.error.errors,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const { entityId, asOfDate, includeZeroBalances, includeClosingEntries, currencyCode } = validationResult.data;
+
+      const hasAccess = await createTransactionService(env.DATABASE).hasEntityAccess(entityId, user.id);
+      if (!hasAccess) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Access denied to this entity',
+        }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const report = await generateTrialBalanceReport({
+        entityId,
+        asOfDate,
+        includeZeroBalances,
+        includeClosingEntries,
+        ...(currencyCode ? { currencyCode } : {}),
+        timeFrame: { period: 'custom_range', startDate: asOfDate, endDate: asOfDate },
+        db: env.DATABASE,
+        reportCache: env.REPORT_CACHE_KV,
+        userId: user.id,
+      });
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: report,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error generating trial balance:', error);
+
+      const statusCode = error instanceof AppError ? error.statusCode : 500;
+      const errorMessage = error instanceof AppError
+        ? error.message
+        : 'An unexpected error occurred while generating the trial balance';
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }), {
+        status: statusCode,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // Method not allowed
+  else {
+    return new Response(JSON.stringify({
+      success: false,
+      error: `Method ${request.method} not allowed`,
+    }), {
+      status: 405,
+      headers: {
+        'Content-Type': 'application/json',
+        'Allow': 'GET'
+      }
+    });
+  }
+};
@@ -1,8 +1,15 @@
 // src/pages/api/transactions/[id].js
 import { z } from 'zod';
 import { AppError, ErrorCode } from '../../../utils/errors.js';
-import { Transaction } from '../../../lib/accounting/transaction.js';
-import { createTransactionService } from '../../../lib/services/transaction-service.js';
+import { Transaction, TransactionError } from '../../../lib/accounting/core/transaction.js';
+import {
+  createTransactionService,
+  type TransactionLineInput,
+  type UpdateTransactionInput,
+} from '../../../lib/services/transaction-service.js';
+import { createFiscalPeriodService } from '../../../lib/services/fiscal-period-service.js';
+import { userHasPermission } from '../../../lib/auth/permissions.js';
+import { Permission } from '../../../types/auth';
 
 // Validation schema for updating transaction metadata (not lines)
 const updateTransactionMetadataSchema = z.object({
@@ -20,9 +27,29 @@ const updateTransactionLinesSchema = z.object({
     amount: z.string().regex(/^\d+(\.\d{1,2})?$/, "Amount must be a valid decimal with up to 2 decimal places"),
     isDebit: z.boolean(),
     memo: z.string().optional().nullable(),
+    currencyCode: z.string().regex(/^[A-Za-z]{3}$/, "Currency code must be 3 letters (ISO 4217)").optional().nullable(),
+    // Reporting dimensions
+    propertyId: z.string().max(100, "Property ID is too long").optional().nullable(),
+    unitId: z.string().max(100, "Unit ID is too long").optional().nullable(),
+    className: z.string().max(100, "Class is too long").optional().nullable(),
+    tags: z.array(z.string().max(100, "Tag is too long")).max(10, "A line can carry at most 10 tags").optional().nullable(),
   })).min(2, "Transaction must have at least 2 lines"),
 });
 
+// Line as the service takes it: the keys the request left out are left out
+const toLineInput = (line: z.infer<typeof updateTransactionLinesSchema>['lines'][number]): TransactionLineInput => ({
+  accountId: line.accountId,
+  amount: line.amount,
+  isDebit: line.isDebit,
+  ...(line.id !== undefined ? { id: line.id } : {}),
+  ...(line.memo !== undefined ? { memo: line.memo } : {}),
+  ...(line.currencyCode !== undefined ? { currencyCode: line.currencyCode } : {}),
+  ...(line.propertyId !== undefined ? { propertyId: line.propertyId } : {}),
+  ...(line.unitId !== undefined ? { unitId: line.unitId } : {}),
+  ...(line.className !== undefined ? { className: line.className } : {}),
+  ...(line.tags !== undefined ? { tags: line.tags } : {}),
+});
+
 // Validation schema for action-based operations
 const transactionActionSchema = z.object({
   action: z.enum(['post', 'void']),
@@ -55,6 +82,29 @@ export const onRequest = async ({ params, request, locals }) => {
   }
 
   const transactionService = createTransactionService(env.DATABASE);
+  const fiscalPeriodService = createFiscalPeriodService(env.DATABASE);
+  
+  // Rejects changes dated inside a closed fiscal period (throws ConflictError)
+  const assertPeriodOpen = async (entityId: string, date: Date | string) => {
+    const canOverrideSoftClose = await userHasPermission(
+      user,
+      Permission.PostToSoftClosedPeriods,
+      entityId,
+      env
+    );
+    await fiscalPeriodService.assertDateOpen(entityId, new Date(date), canOverrideSoftClose);
+  };
+  
+  // The entity's closed periods, for the service to check entries against
+  const getPeriodLock = async (entityId: string) => {
+    const canOverrideSoftClose = await userHasPermission(
+      user,
+      Permission.PostToSoftClosedPeriods,
+      entityId,
+      env
+    );
+    return fiscalPeriodService.getLockContext(entityId, canOverrideSoftClose);
+  };
 
   // GET - Fetch a specific transaction by ID
   if (request.method === 'GET') {
@@ -112,11 +162,12 @@ export const onRequest = async ({ params, request, locals }) => {
         });
       }
       
-      // Check if transaction is in draft status - only drafts can be updated
-      if (existingTransaction.status !== 'draft') {
+      // Drafts are edited in place; posted transactions are corrected through a
+      // reversing entry plus a replacement entry. Voided ones cannot change.
+      if (existingTransaction.status !== 'draft' && existingTransaction.status !== 'posted') {
         return new Response(JSON.stringify({
           success: false,
-          error: `Cannot update a transaction with status "${existingTransaction.status}". Only draft transactions can be modified.`,
+          error: `Cannot update a transaction with status "${existingTransaction.status}". Only draft or posted transactions can be modified.`,
         }), { 
           status: 400,
           headers: { 'Content-Type': 'application/json' } 
@@ -126,8 +177,8 @@ export const onRequest = async ({ params, request, locals }) => {
       const data = await request.json();
       
       // Validate input data - metadata and lines are validated separately
-      let validatedMetadata = {};
-      let validatedLines = null;
+      let validatedMetadata: UpdateTransactionInput = {};
+      let validatedLines: TransactionLineInput[] | null = null;
       let metadataValidationError = null;
       let linesValidationError = null;
       
@@ -135,7 +186,13 @@ export const onRequest = async ({ params, request, locals }) => {
       if (data.date || data.description || data.reference !== undefined || data.journalId !== undefined) {
         const metadataResult = updateTransactionMetadataSchema.safeParse(data);
         if (metadataResult.success) {
-          validatedMetadata = metadataResult.data;
+          const { date, description, reference, journalId } = metadataResult.data;
+          validatedMetadata = {
+            ...(date !== undefined ? { date } : {}),
+            ...(description !== undefined ? { description } : {}),
+            ...(reference !== undefined ? { reference } : {}),
+            ...(journalId !== undefined ? { journalId } : {}),
+          };
         } else {
           metadataValidationError = metadataResult.error;
         }
@@ -145,7 +202,7 @@ export const onRequest = async ({ params, request, locals }) => {
       if (data.lines) {
         const linesResult = updateTransactionLinesSchema.safeParse({ lines: data.lines });
         if (linesResult.success) {
-          validatedLines = linesResult.data.lines;
+          validatedLines = linesResult.data.lines.map(toLineInput);
         } else {
           linesValidationError = linesResult.error;
         }
@@ -166,6 +223,12 @@ export const onRequest = async ({ params, request, locals }) => {
         });
       }
       
+      // Neither the current nor the new date may fall in a closed period
+      await assertPeriodOpen(existingTransaction.entityId, existingTransaction.date);
+      if (validatedMetadata.date) {
+        await assertPeriodOpen(existingTransaction.entityId, validatedMetadata.date);
+      }
+      
       // When lines are updated, verify all accounts belong to the entity
       if (validatedLines) {
         const lineAccountIds = validatedLines.map(line => line.accountId);
@@ -186,21 +249,17 @@ export const onRequest = async ({ params, request, locals }) => {
           });
         }
         
-        // Rebuild the transaction object to validate balance
+        // Rebuild the transaction object to validate balance in the functional currency
+        const date = validatedMetadata.date ? new Date(validatedMetadata.date) : existingTransaction.date;
+        const reference = validatedMetadata.reference !== undefined ? validatedMetadata.reference : existingTransaction.reference;
         const updatedTransaction = new Transaction({
           id: existingTransaction.id,
-          date: validatedMetadata.date ? new Date(validatedMetadata.date) : existingTransaction.date,
+          date,
           description: validatedMetadata.description || existingTransaction.description,
           entityId: existingTransaction.entityId,
-          lines: validatedLines.map(line => ({
-            id: line.id || crypto.randomUUID(),
-            accountId: line.accountId,
-            amount: line.amount,
-            isDebit: line.isDebit,
-            description: line.memo,
-          })),
+          lines: await transactionService.convertLines(existingTransaction.entityId, date, validatedLines),
           status: 'draft',
-          reference: validatedMetadata.reference !== undefined ? validatedMetadata.reference : existingTransaction.reference,
+          ...(reference ? { reference } : {}),
         });
         
         if (!updatedTransaction.isBalanced()) {
@@ -214,6 +273,40 @@ export const onRequest = async ({ params, request, locals }) => {
         }
       }
       
+      // Posted transactions are never rewritten. The original stays in the books
+      // and is cancelled by a reversal, followed by the corrected entry.
+      if (existingTransaction.status === 'posted') {
+        if (!validatedLines && Object.keys(validatedMetadata).length === 0) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: 'No changes provided',
+          }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' } 
+          });
+        }
+        
+        const periodLock = await getPeriodLock(existingTransaction.entityId);
+        const correction = await transactionService.correctPostedTransaction(
+          transactionId,
+          {
+            ...validatedMetadata,
+            lines: validatedLines,
+          },
+          user.id,
+          periodLock
+        );
+        
+        return new Response(JSON.stringify({
+          success: true,
+          data: correction,
+          message: 'Posted transaction corrected with a reversing entry and a replacement entry',
+        }), { 
+          status: 201,
+          headers: { 'Content-Type': 'application/json' } 
+        });
+      }
+      
       // Update the transaction
       const updatedTransaction = await transactionService.updateTransaction(
         transactionId,
@@ -235,6 +328,17 @@ export const onRequest = async ({ params, request, locals }) => {
     } catch (error) {
       console.error('Error updating transaction:', error);
       
+      if (error instanceof TransactionError) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: error.message,
+          code: error.code,
+        }), { 
+          status: error.code.startsWith('PERIOD_') ? 409 : 400,
+          headers: { 'Content-Type': 'application/json' } 
+        });
+      }
+      
       const statusCode = error instanceof AppError ? error.statusCode : 500;
       const errorMessage = error instanceof AppError 
         ? error.message 
@@ -283,6 +387,14 @@ export const onRequest = async ({ params, request, locals }) => {
         });
       }
       
+      await assertPeriodOpen(existingTransaction.entityId, existingTransaction.date);
+      
+      // Both sides of an intercompany entry change status together
+      const counterparts = await transactionService.getIntercompanyCounterparts(existingTransaction, user.id);
+      for (const counterpart of counterparts) {
+        await assertPeriodOpen(counterpart.entityId, counterpart.date);
+      }
+      
       let result;
       
       if (action === 'post') {
@@ -297,7 +409,16 @@ export const onRequest = async ({ params, request, locals }) => {
           });
         }
         
-        result = await transactionService.postTransaction(transactionId, user.id);
+        const counterpartLocks = new Map();
+        for (const counterpart of counterparts) {
+          counterpartLocks.set(counterpart.entityId, await getPeriodLock(counterpart.entityId));
+        }
+        result = await transactionService.postTransaction(
+          transactionId,
+          user.id,
+          await getPeriodLock(existingTransaction.entityId),
+          counterpartLocks
+        );
       } else if (action === 'void') {
         // Only posted transactions can be voided
         if (existingTransaction.status !== 'posted') {
@@ -316,7 +437,7 @@ export const onRequest = async ({ params, request, locals }) => {
       return new Response(JSON.stringify({
         success: true,
         data: result,
-        message: `Transaction ${action === 'post' ? 'posted' : 'voided'} successfully`,
+        message: `Transaction ${action === 'post' ? 'posted' : 'voided'} successfully${counterparts.length > 0 ? ' with its intercompany counterpart' : ''}`,
       }), { 
         status: 200,
         headers: { 'Content-Type': 'application/json' } 
@@ -324,6 +445,17 @@ export const onRequest = async ({ params, request, locals }) => {
     } catch (error) {
       console.error(`Error ${error.action} transaction:`, error);
       
+      if (error instanceof TransactionError) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: error.message,
+          code: error.code,
+        }), { 
+          status: error.code.startsWith('PERIOD_') ? 409 : 400,
+          headers: { 'Content-Type': 'application/json' } 
+        });
+      }
+      
       const statusCode = error instanceof AppError ? error.statusCode : 500;
       const errorMessage = error instanceof AppError 
         ? error.message 
@@ -366,6 +498,7 @@ export const onRequest = async ({ params, request, locals }) => {
         });
       }
       
+      // Both sides of an intercompany entry are deleted together
       const result = await transactionService.deleteTransaction(transactionId, user.id);
       
       if (!result) {
@@ -1,8 +1,16 @@
 // src/pages/api/transactions/index.js
 import { z } from 'zod';
 import { AppError, ErrorCode } from '../../../utils/errors.js';
-import { Transaction } from '../../../lib/accounting/transaction.js';
-import { createTransactionService } from '../../../lib/services/transaction-service.js';
+import { Transaction, TransactionError } from '../../../lib/accounting/core/transaction.js';
+import {
+  createTransactionService,
+  type AppTransactionStatus,
+  type TransactionFilters,
+  type TransactionLineInput,
+} from '../../../lib/services/transaction-service.js';
+import { createFiscalPeriodService } from '../../../lib/services/fiscal-period-service.js';
+import { userHasPermission } from '../../../lib/auth/permissions.js';
+import { Permission } from '../../../types/auth';
 
 // Input validation schema for creating transactions
 const createTransactionSchema = z.object({
@@ -12,14 +20,45 @@ const createTransactionSchema = z.object({
   reference: z.string().optional(),
   journalId: z.string().uuid("Journal ID must be a valid UUID").optional(),
   status: z.enum(['draft', 'posted']).optional().default('draft'),
+  // Transaction currency for lines that don't set their own; defaults to the entity's functional currency
+  currencyCode: z.string().regex(/^[A-Za-z]{3}$/, "Currency code must be 3 letters (ISO 4217)").optional(),
   lines: z.array(z.object({
     accountId: z.string().uuid("Account ID must be a valid UUID"),
     amount: z.string().regex(/^\d+(\.\d{1,2})?$/, "Amount must be a valid decimal with up to 2 decimal places"),
     isDebit: z.boolean(),
     memo: z.string().optional(),
+    currencyCode: z.string().regex(/^[A-Za-z]{3}$/, "Currency code must be 3 letters (ISO 4217)").optional(),
+    // Intercompany: another entity in the same hierarchy that the line's account belongs to
+    entityId: z.string().uuid("Entity ID must be a valid UUID").optional(),
+    // Reporting dimensions
+    propertyId: z.string().max(100, "Property ID is too long").optional(),
+    unitId: z.string().max(100, "Unit ID is too long").optional(),
+    className: z.string().max(100, "Class is too long").optional(),
+    tags: z.array(z.string().max(100, "Tag is too long")).max(10, "A line can carry at most 10 tags").optional(),
   })).min(2, "Transaction must have at least 2 lines"),
 });
 
+// Line as the service takes it, in the transaction currency unless it sets
+// its own: the keys the request left out are left out
+const toLineInput = (
+  line: z.infer<typeof createTransactionSchema>['lines'][number],
+  transactionCurrencyCode: string | undefined
+): TransactionLineInput => {
+  const currencyCode = line.currencyCode ?? transactionCurrencyCode;
+  return {
+    accountId: line.accountId,
+    amount: line.amount,
+    isDebit: line.isDebit,
+    ...(line.memo !== undefined ? { memo: line.memo } : {}),
+    ...(currencyCode !== undefined ? { currencyCode } : {}),
+    ...(line.entityId !== undefined ? { entityId: line.entityId } : {}),
+    ...(line.propertyId !== undefined ? { propertyId: line.propertyId } : {}),
+    ...(line.unitId !== undefined ? { unitId: line.unitId } : {}),
+    ...(line.className !== undefined ? { className: line.className } : {}),
+    ...(line.tags !== undefined ? { tags: line.tags } : {}),
+  };
+};
+
 export const onRequest = async ({ request, locals }) => {
   const user = locals.user;
   const env = locals.runtime.env;
@@ -48,6 +87,10 @@ export const onRequest = async ({ request, locals }) => {
       const endDate = url.searchParams.get('endDate');
       const status = url.searchParams.get('status');
       const accountId = url.searchParams.get('accountId');
+      const propertyId = url.searchParams.get('propertyId');
+      const unitId = url.searchParams.get('unitId');
+      const className = url.searchParams.get('className');
+      const tags = url.searchParams.getAll('tag');
       
       // Entity ID is required for security - prevents accessing transactions from other entities
       if (!entityId) {
@@ -73,15 +116,22 @@ export const onRequest = async ({ request, locals }) => {
       }
 
       // Build filter criteria from query parameters
-      const filters = {
+      const filters: TransactionFilters = {
         entityId,
         userId: user.id,
         page,
         limit,
-        status: status || undefined,
-        accountId: accountId || undefined,
-        startDate: startDate || undefined,
-        endDate: endDate || undefined,
+        ...(status ? { status: status as AppTransactionStatus } : {}),
+        ...(accountId ? { accountId } : {}),
+        ...(startDate ? { startDate } : {}),
+        ...(endDate ? { endDate } : {}),
+        // Only transactions with a line tagged with these dimensions
+        dimensions: {
+          ...(propertyId ? { propertyId } : {}),
+          ...(unitId ? { unitId } : {}),
+          ...(className ? { className } : {}),
+          ...(tags.length > 0 ? { tags } : {}),
+        },
       };
 
       const { transactions, total, totalPages } = await transactionService.getTransactions(filters);
@@ -151,44 +201,54 @@ export const onRequest = async ({ request, locals }) => {
         });
       }
       
-      // Verify all accounts in the transaction belong to the specified entity
-      const lineAccountIds = transactionData.lines.map(line => line.accountId);
-      const validAccounts = await transactionService.validateEntityAccounts(
-        transactionData.entityId, 
-        lineAccountIds, 
-        user.id
-      );
-      
-      if (!validAccounts.success) {
-        return new Response(JSON.stringify({
-          success: false,
-          error: validAccounts.error || 'Invalid accounts in transaction',
-          invalidAccounts: validAccounts.invalidAccounts,
-        }), { 
-          status: 400,
-          headers: { 'Content-Type': 'application/json' } 
-        });
+      // Verify every line's account belongs to the line's entity. Lines of an
+      // intercompany entry may name the counterparty entity.
+      const lineEntityIds = [...new Set(transactionData.lines.map(line => line.entityId ?? transactionData.entityId))];
+      for (const lineEntityId of lineEntityIds) {
+        const lineAccountIds = transactionData.lines
+          .filter(line => (line.entityId ?? transactionData.entityId) === lineEntityId)
+          .map(line => line.accountId);
+        const validAccounts = await transactionService.validateEntityAccounts(
+          lineEntityId,
+          lineAccountIds,
+          user.id
+        );
+
+        if (!validAccounts.success) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: validAccounts.error || 'Invalid accounts in transaction',
+            invalidAccounts: validAccounts.invalidAccounts,
+          }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' } 
+          });
+        }
       }
       
       // Create transaction object for validation
       const transactionId = crypto.randomUUID();
       const txDate = new Date(transactionData.date);
+
+      // Amounts are entered in the transaction currency and kept in the
+      // entity's functional currency at the rate for the transaction date
+      const lines = await transactionService.convertLines(
+        transactionData.entityId,
+        txDate,
+        transactionData.lines.map(line => toLineInput(line, transactionData.currencyCode))
+      );
       
-      // Prepare transaction for validation
+      // Prepare transaction for validation. It starts as a draft and is posted
+      // below so closed-period rules are applied.
       const transaction = new Transaction({
         id: transactionId,
         date: txDate,
         description: transactionData.description,
         entityId: transactionData.entityId,
-        lines: transactionData.lines.map(line => ({
-          id: crypto.randomUUID(),
-          accountId: line.accountId,
-          amount: line.amount,
-          isDebit: line.isDebit,
-          description: line.memo
-        })),
-        status: transactionData.status,
-        reference: transactionData.reference,
+        lines,
+        status: 'draft',
+        ...(transactionData.reference ? { reference: transactionData.reference } : {}),
+        ...(transactionData.journalId ? { metadata: { journalId: transactionData.journalId } } : {}),
       });
       
       // Verify transaction is balanced
@@ -202,6 +262,32 @@ export const onRequest = async ({ request, locals }) => {
         });
       }
       
+      if (transactionData.status === 'posted') {
+        const fiscalPeriodService = createFiscalPeriodService(env.DATABASE);
+        const canOverrideSoftClose = await userHasPermission(
+          user,
+          Permission.PostToSoftClosedPeriods,
+          transactionData.entityId,
+          env
+        );
+        const periodLock = await fiscalPeriodService
+          .getLockContext(transactionData.entityId, canOverrideSoftClose);
+        transaction.post(periodLock);
+
+        // The counterparty's mirror entry lands on the same date in its books
+        for (const counterpartyId of transaction.getIntercompanyEntityIds()) {
+          const canOverrideCounterparty = await userHasPermission(
+            user,
+            Permission.PostToSoftClosedPeriods,
+            counterpartyId,
+            env
+          );
+          transaction.assertPeriodOpen(
+            await fiscalPeriodService.getLockContext(counterpartyId, canOverrideCounterparty)
+          );
+        }
+      }
+      
       // Save the transaction
       const result = await transactionService.createTransaction(transaction, user.id);
       
@@ -216,6 +302,17 @@ export const onRequest = async ({ request, locals }) => {
     } catch (error) {
       console.error('Error creating transaction:', error);
       
+      if (error instanceof TransactionError && error.code.startsWith('PERIOD_')) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: error.message,
+          code: error.code,
+        }), { 
+          status: 409,
+          headers: { 'Content-Type': 'application/json' } 
+        });
+      }
+      
       const statusCode = error instanceof AppError ? error.statusCode : 500;
       const errorMessage = error instanceof AppError 
         ? error.message 
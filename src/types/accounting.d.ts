@@ -45,7 +45,11 @@ export type IncomeSubtype =
   | 'parking_income'
   | 'laundry_income'
   | 'utility_reimbursement'
-  | 'other_income'; // Generic 'other' for income
+  | 'other_income' // Generic 'other' for income
+  // Contra-revenue, debited: rent lost to vacancy, concessions and uncollectible rent
+  | 'vacancy_loss'
+  | 'concessions'
+  | 'bad_debt';
 
 export type ExpenseSubtype =
   | 'recoverable'
@@ -62,6 +66,13 @@ export type ExpenseSubtype =
   | 'professional_fees'
   | 'other'; // Generic 'other' for expenses
 
+export type EquitySubtype =
+  | 'owner_capital' // Partner/member capital; credits are contributions, debits distributions
+  | 'contributions'
+  | 'distributions' // Draws and dividends (contra-equity)
+  | 'retained_earnings'
+  | 'other_equity';
+
 /**
  * Tax categories specific to real estate.
  * Consider adding an 'other_tax' or similar if custom string categories were intended.
@@ -93,7 +104,7 @@ export interface ChartOfAccount {
   type: AccountSystemType;
 
   /** More specific subtype based on account type. For custom subtypes, consider a separate 'custom_subtype?: string;' field or extend the enums. */
-  subtype?: AssetSubtype | LiabilitySubtype | IncomeSubtype | ExpenseSubtype | null;
+  subtype?: AssetSubtype | LiabilitySubtype | EquitySubtype | IncomeSubtype | ExpenseSubtype | null;
 
   description?: string | null;
   is_recoverable: boolean; // Primarily for expense accounts
@@ -142,7 +153,7 @@ export interface ChartOfAccountInput {
   code: string;
   name: string;
   type: AccountSystemType;
-  subtype?: AssetSubtype | LiabilitySubtype | IncomeSubtype | ExpenseSubtype | null; // Enforce known subtypes
+  subtype?: AssetSubtype | LiabilitySubtype | EquitySubtype | IncomeSubtype | ExpenseSubtype | null; // Enforce known subtypes
   description?: string | null;
   is_recoverable?: boolean;
   recovery_percentage?: number | null;
@@ -165,36 +176,10 @@ export interface ChartOfAccountsTemplate {
   accounts: ChartOfAccountInput[]; // Uses the input type for template accounts
 }
 
-/**
- * Common real estate account codes for quick reference or template generation.
- * Using `as const` makes the values and keys strongly typed.
- */
-export const REAL_ESTATE_ACCOUNT_CODES = {
-  // Assets
-  OPERATING_CASH: '1010',
-  SECURITY_DEPOSITS_HELD_ASSET: '1020', // Clarified asset context
-  TENANT_RECEIVABLES: '1200',
-  LAND: '1510',
-  BUILDING: '1520',
-  IMPROVEMENTS: '1530',
-  ACCUMULATED_DEPRECIATION: '1590',
-  // Liabilities
-  SECURITY_DEPOSITS_LIABILITY: '2100',
-  PREPAID_RENT_LIABILITY: '2200', // Clarified liability context
-  MORTGAGE_PAYABLE: '2510',
-  // Income
-  RENTAL_INCOME: '4100',
-  LATE_FEES_INCOME: '4200', // Clarified income context
-  OTHER_INCOME: '4900',
-  // Expenses
-  REPAIRS_MAINTENANCE_EXPENSE: '5100', // Clarified expense context
-  PROPERTY_MANAGEMENT_EXPENSE: '5200',
-  UTILITIES_EXPENSE: '5300',
-  INSURANCE_EXPENSE: '5400',
-  PROPERTY_TAX_EXPENSE: '5500',
-  MORTGAGE_INTEREST_EXPENSE: '5600',
-  DEPRECIATION_EXPENSE: '5700',
-} as const;
+/*
+NOTE: REAL_ESTATE_ACCOUNT_CODES, the common real estate account codes, is a
+runtime value and lives in src/lib/accounting/core/chart-of-accounts.ts.
+*/
 
 /**
  * Standard structure for representing an account's balance.
@@ -489,6 +489,8 @@ export interface ReportRequest {
     | 'balance-sheet'
     | 'income-statement' // Profit & Loss
     | 'cash-flow'
+    | 'property-operating-statement' // NOI by property
+    | 'equity-roll-forward' // Statement of changes in equity / partner capital
     | 'rent-roll'
     | 'vacancy-report'
     | 'tenant-aging-summary'
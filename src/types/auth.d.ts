@@ -41,6 +41,11 @@ export enum Permission {
   ApproveTransactions = 'transactions:approve', // For workflows requiring approval
   ExportTransactions = 'transactions:export',
   ReconcileTransactions = 'transactions:reconcile',
+  ManageFiscalPeriods = 'periods:manage', // Create periods, soft/hard close and reopen soft-closed ones
+  ReopenHardClosedPeriods = 'periods:hard_closed:reopen', // Reopen a filed (hard-closed) period
+  PostToSoftClosedPeriods = 'periods:soft_closed:post', // Post adjustments dated in a soft-closed period
+  ViewLedgerAudit = 'transactions:audit:view', // Read and verify the hash-chained ledger audit trail
+  ManageExchangeRates = 'fx:rates:manage', // Load and correct the exchange-rate table shared by all entities (admins only)
 
   // --- Reporting ---
   ViewFinancialReports = 'reports:financial:view', // P&L, Balance Sheet, Cash Flow
@@ -280,6 +285,7 @@ export const DEFAULT_ROLE_PERMISSIONS: Readonly<Record<UserRole, ReadonlyArray<P
     Permission.ViewEntityDetails,
     Permission.ViewChartOfAccounts, Permission.EditChartOfAccounts,
     Permission.ViewTransactions, Permission.CreateTransactions, Permission.EditTransactions, Permission.ApproveTransactions, Permission.ReconcileTransactions,
+    Permission.ManageFiscalPeriods, Permission.PostToSoftClosedPeriods, Permission.ViewLedgerAudit,
     Permission.ViewFinancialReports, Permission.ExportReports,
     Permission.ViewRentRoll, Permission.ManageSecurityDeposits,
     Permission.ViewLoans, Permission.ManageLoanPayments,
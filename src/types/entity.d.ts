@@ -227,6 +227,8 @@ export interface Entity {
   tags?: string[] | null; // For categorization and filtering
   defaultCurrency?: string | null; // ISO 4217 code, e.g., "USD"
   defaultLanguage?: string | null; // e.g., "en-US"
+  /** Percentage of this entity held by its parent (1-100), used when consolidating. */
+  ownershipPercentage?: number;
 }
 
 /**
@@ -255,6 +257,7 @@ export interface EntityInput {
   tags?: string[] | null;
   defaultCurrency?: string | null;
   defaultLanguage?: string | null;
+  ownershipPercentage?: number;
 }
 
 /**
@@ -287,6 +290,25 @@ export interface EntityRelationship {
   isActive?: boolean; // Is the relationship currently active
 }
 
+/**
+ * A partner, member or shareholder of an entity. Net income and pooled
+ * capital are allocated to owners by their percentage on the equity
+ * roll-forward (partner capital accounts, K-1 preparation).
+ */
+export interface EntityOwner {
+  readonly id: string;
+  entityId: string;
+  name: string;
+  ownerType: 'partner' | 'member' | 'shareholder';
+  /** Share of income, loss and capital as a percentage (e.g. 33.33). An entity's owners total 100. */
+  ownershipPercentage: number;
+  /** Entity account ID of an equity account holding only this owner's capital. */
+  capitalAccountId?: string | null;
+  /** Entity account ID of an equity account holding only this owner's draws/distributions. */
+  distributionAccountId?: string | null;
+  updatedAt: number; // Unix timestamp (seconds)
+}
+
 /**
  * Filters for querying a list of entities.
  */
@@ -47,7 +47,8 @@ export type ImportStatus =
   | 'import_completed_with_warnings'
   | 'import_failed'            // Critical failure during import process
   | 'import_cancelled_by_user'
-  | 'partially_imported';      // Some data imported, but process interrupted or had critical errors
+  | 'partially_imported'       // Some data imported, but process interrupted or had critical errors
+  | 'rolled_back';             // Imported records were removed again by undoing the import
 
 /**
  * Type of entity being imported (e.g., transactions, chart of accounts).
@@ -81,6 +82,10 @@ export interface ImportSession {
   /** URL to the uploaded file in temporary storage (e.g., R2 presigned URL for processing). */
   processing_file_url?: string | null; // Renamed from file_url
   target_entity_type: ImportTargetEntityType; // Renamed from entity_type
+  /** ID of the entity account (bank or card) that imported transactions are booked against. */
+  bank_account_id?: string | null;
+  /** ID of the entity account for the other side of rows that name no account of their own. */
+  counter_account_id?: string | null;
   status: ImportStatus;
   current_processing_stage?: ImportProcessingStage; // Renamed from stage
   total_rows_detected?: number | null; // Renamed from total_rows
@@ -212,7 +217,7 @@ export interface ImportProcessingOptions { // Renamed from ImportOptions
   default_timezone_for_dates?: string | null; // e.g., "America/New_York"
   decimal_separator_character?: '.' | ',';
   thousands_separator_character?: ',' | '.' | ' ' | '';
-  default_currency_code?: string | null; // e.g., "USD"
+  default_currency_code?: string | null; // Transaction currency of imported lines that carry none, e.g. "CAD"; defaults to the entity's functional currency
 
   // Transaction-specific options
   auto_categorize_transactions?: boolean;
@@ -373,4 +378,6 @@ export interface ImportSessionHistoryLog { // Renamed from ImportHistory
   /** Unix timestamp (seconds) until when this import can be undone. */
   undo_possible_until?: number | null; // Renamed from undo_expires_at
   source_file_name?: string; // For reference
+  /** Unix timestamp (seconds) when the import was undone, if it was. */
+  rolled_back_at?: number | null;
 }
\ No newline at end of file
@@ -6,6 +6,9 @@
  */
 
 import type { AccountSystemType } from './accounting'; // For consistent account typing
+import type { PropertyOperatingMetrics } from './calculations';
+import type { PropertyFinancialSummary } from './index';
+import type { EntityOwner } from './entity';
 
 // ----------------
 // Time Period and General Report Types
@@ -45,6 +48,51 @@ export interface ReportBase {
   notes?: string | null;
   isFinalized: boolean; // Renamed from finalized
   currencyCode: string; // ISO 4217 currency code, e.g., "USD"
+  /** Dimension filter the report is restricted to, if any. */
+  dimensions?: ReportDimensionFilter;
+}
+
+// ----------------
+// Dimensions
+// ----------------
+
+/** Transaction-line dimension a report can be filtered on or grouped by. */
+export type ReportDimension = 'property' | 'unit' | 'class' | 'tag';
+
+/** Restricts a report to matching lines; null selects lines without the dimension. */
+export interface ReportDimensionFilter {
+  propertyId?: string | null;
+  unitId?: string | null;
+  className?: string | null;
+  /** Lines carrying every listed tag, or (when null) untagged lines. */
+  tags?: string[] | null;
+}
+
+/** The report restricted to one value of the dimension it is grouped by. */
+export interface ReportSegment<R> {
+  dimension: ReportDimension;
+  /** Null for lines without a value, e.g. costs not assigned to a property. */
+  value: string | null;
+  report: R;
+}
+
+/**
+ * One column of a multi-period statement. Income statements cover
+ * startDate..endDate; balance sheets are as of endDate.
+ */
+export interface ReportPeriodColumn {
+  label: string;
+  /** ISO 8601 string: YYYY-MM-DD. Omitted for balance sheet columns. */
+  startDate?: string | undefined;
+  /** ISO 8601 string: YYYY-MM-DD */
+  endDate: string;
+}
+
+/** Change of a line item from the previous period column. */
+export interface ReportPeriodVariance {
+  amount: number;
+  /** As a decimal; null when the previous period is zero. */
+  changePercentage: number | null;
 }
 
 /** Represents a single line item within a financial report. */
@@ -80,6 +128,30 @@ export interface ReportLineItem {
   formattedPercentageOfRevenue?: string | null; // Renamed from formattedPercentOfRevenue
   notes?: string | null; // Line-item specific notes
   indentLevel?: number; // For hierarchical display
+  /** General ledger filters that list the postings behind this amount */
+  drillDown?: ReportDrillDown;
+  /** Amount in each of the report's `periodColumns`, in order. */
+  periodAmounts?: number[];
+  /** Change from the previous column; the first column has none (null). */
+  periodVariances?: (ReportPeriodVariance | null)[];
+  formattedPeriodAmounts?: string[];
+  // Earlier names the balance sheet and income statement generators still set
+  code?: string;
+  previousAmount?: number;
+  percentChange?: number;
+  isCalculated?: boolean;
+}
+
+/** Opens the general ledger at one account's postings in a period. */
+export interface ReportDrillDown {
+  reportType: 'general-ledger';
+  entityId: string;
+  accountId: string;
+  /** ISO 8601 string: YYYY-MM-DD. Omitted for balances, which include every posting up to endDate. */
+  startDate?: string;
+  /** ISO 8601 string: YYYY-MM-DD */
+  endDate: string;
+  dimensions?: ReportDimensionFilter;
 }
 
 /**
@@ -109,24 +181,32 @@ export interface BalanceSheetSection {
 export interface BalanceSheetReport extends ReportBase {
   type: 'balance-sheet';
   assets: {
-    currentAssets: BalanceSheetSection; // Renamed from current
-    longTermAssets: BalanceSheetSection; // Renamed from longTerm (or fixedAssets)
-    totalAssets: number; // Renamed from total
+    current: ReportLineItem[];
+    longTerm: ReportLineItem[]; // Or fixed assets
+    total: number;
     formattedTotalAssets?: string;
   };
   liabilities: {
-    currentLiabilities: BalanceSheetSection; // Renamed from current
-    longTermLiabilities: BalanceSheetSection; // Renamed from longTerm
-    totalLiabilities: number; // Renamed from total
+    current: ReportLineItem[];
+    longTerm: ReportLineItem[];
+    total: number;
     formattedTotalLiabilities?: string;
   };
   equity: {
     items: ReportLineItem[]; // Detailed equity accounts
-    totalEquity: number; // Renamed from total
+    total: number;
     formattedTotalEquity?: string;
   };
   // Verification: totalAssets should equal totalLiabilities + totalEquity
   isBalanced?: boolean; // Calculated: abs(totalAssets - (totalLiabilities + totalEquity)) < tolerance
+  /** Entities rolled up into a consolidated balance sheet, parent first. */
+  consolidatedEntityIds?: string[];
+  /** Per-value breakdown when the report is grouped by a dimension. */
+  segments?: ReportSegment<BalanceSheetReport>[];
+  /** Side-by-side periods; each line item carries its `periodAmounts`. */
+  periodColumns?: ReportPeriodColumn[];
+  /** Section totals per period column, e.g. `netIncome` or `totalAssets`. */
+  periodTotals?: Record<string, number[]>;
   // accountBalancesSnapshot?: ReportAccountContextEntry[]; // Balances used to generate this BS
 }
 
@@ -135,7 +215,7 @@ export interface BalanceSheetReport extends ReportBase {
 // ----------------
 export interface IncomeStatementSection {
   items: ReportLineItem[];
-  totalAmount: number; // Renamed from total
+  total: number;
   formattedTotalAmount?: string;
 }
 export interface IncomeStatementReport extends ReportBase {
@@ -159,10 +239,143 @@ export interface IncomeStatementReport extends ReportBase {
   // netIncomePercentChange?: number;
   // netIncomePercentOfTotalRevenue?: number; // Renamed from netIncomePercentOfRevenue
   showPercentageOfTotalRevenueColumn?: boolean; // Renamed from showPercentOfRevenue
+  /** Entities rolled up into a consolidated income statement, parent first. */
+  consolidatedEntityIds?: string[];
+  /** Per-value breakdown when the report is grouped by a dimension. */
+  segments?: ReportSegment<IncomeStatementReport>[];
+  /** Side-by-side periods; each line item carries its `periodAmounts`. */
+  periodColumns?: ReportPeriodColumn[];
+  /** Section totals per period column, e.g. `netIncome` or `totalAssets`. */
+  periodTotals?: Record<string, number[]>;
   // Supporting details or transaction summaries are usually separate or drill-downs
   // transactionsSummary?: TransactionSummary[]; // Renamed from transactions
 }
 
+// ----------------
+// Budget vs. Actual Report
+// ----------------
+export interface BudgetVarianceLineItem {
+  /** ID of the ChartOfAccount entry. */
+  accountId: string;
+  accountCode: string;
+  lineItemName: string;
+  budgetAmount: number;
+  actualAmount: number;
+  /** Actual minus budget. */
+  varianceAmount: number;
+  /** Variance as a percentage of the budget (12.5 for 12.5%); null when nothing was budgeted. */
+  variancePercentage: number | null;
+  /** More income or less expense than budgeted. */
+  isFavorable: boolean;
+  displayOrder: number;
+  formattedBudgetAmount?: string;
+  formattedActualAmount?: string;
+  formattedVarianceAmount?: string;
+}
+export interface BudgetVarianceTotals {
+  budgetAmount: number;
+  actualAmount: number;
+  varianceAmount: number;
+  variancePercentage: number | null;
+  isFavorable: boolean;
+  formattedBudgetAmount?: string;
+  formattedActualAmount?: string;
+  formattedVarianceAmount?: string;
+}
+export interface BudgetVsActualSection {
+  items: BudgetVarianceLineItem[];
+  totals: BudgetVarianceTotals;
+}
+export interface BudgetVsActualReport extends ReportBase {
+  type: 'budget-vs-actual';
+  budgetId: string;
+  budgetName: string;
+  budgetVersion: 'original' | 'revised' | 'forecast';
+  revenue: BudgetVsActualSection;
+  expenses: BudgetVsActualSection;
+  netIncome: BudgetVarianceTotals;
+}
+
+// ----------------
+// Property Operating Statement (NOI) Report
+// ----------------
+export interface OperatingStatementTotals {
+  grossPotentialRent: number;
+  /** Positive; subtracted from Gross Potential Rent. */
+  vacancyAndCreditLoss: number;
+  effectiveGrossIncome: number;
+  otherIncome: number;
+  totalRevenue: number;
+  operatingExpenses: number;
+  netOperatingIncome: number;
+  debtServiceInterest: number;
+  /** Principal paid down in the period. */
+  debtServicePrincipal: number;
+  debtService: number;
+  cashFlowAfterDebtService: number;
+  /** Spending on improvements; not part of NOI or cash flow after debt service. */
+  capitalExpenditures: number;
+  /** NOI / debt service; null without debt service. */
+  debtServiceCoverageRatio: number | null;
+}
+export interface OperatingStatement {
+  items: ReportLineItem[];
+  totals: OperatingStatementTotals;
+}
+export interface PropertyOperatingStatement extends OperatingStatement {
+  /** Null for lines not assigned to a property, e.g. entity-level overhead. */
+  propertyId: string | null;
+  propertyName: string;
+  /** Omitted for lines not assigned to a property. */
+  metrics?: PropertyOperatingMetrics;
+  /** Present when the property's record was supplied. */
+  summary?: PropertyFinancialSummary;
+}
+export interface PropertyOperatingStatementReport extends ReportBase {
+  type: 'property-operating-statement';
+  /** All of the report's lines together: the entity's, or the requested property's. */
+  total: OperatingStatement;
+  properties: PropertyOperatingStatement[];
+}
+
+// ----------------
+// Statement of Changes in Equity (Equity Roll-Forward) Report
+// ----------------
+export interface EquityRollForwardAmounts {
+  openingCapital: number;
+  contributions: number;
+  /** Net income (negative for a loss), allocated by ownership on owner accounts. */
+  netIncome: number;
+  /** Positive; subtracted from capital. */
+  distributions: number;
+  /** Other movements, e.g. adjustments posted to retained earnings. */
+  otherChanges: number;
+  closingCapital: number;
+}
+export interface EquityRollForwardAccount extends EquityRollForwardAmounts {
+  accountId: string; // UUID of the ChartOfAccount entry
+  accountCode: string;
+  accountName: string;
+  /** How the account's movements are presented; from its subtype. */
+  component: 'capital' | 'contributions' | 'distributions' | 'retained_earnings' | 'other';
+}
+/** A partner's or member's capital account for the period. */
+export interface OwnerCapitalAccount extends EquityRollForwardAmounts {
+  ownerId: string; // UUID
+  ownerName: string;
+  ownerType: EntityOwner['ownerType'];
+  ownershipPercentage: number;
+}
+export interface EquityRollForwardReport extends ReportBase {
+  type: 'equity-roll-forward';
+  /** Statement lines, from opening to closing capital. */
+  items: ReportLineItem[];
+  accounts: EquityRollForwardAccount[];
+  total: EquityRollForwardAmounts;
+  /** One capital account per owner; empty when the entity has no ownership configured. */
+  owners: OwnerCapitalAccount[];
+}
+
 // Example of TransactionSummary (if needed directly in P&L, though often a drill-down)
 export interface TransactionSummaryForReport { // Renamed from TransactionSummary
   transactionCount: number; // Renamed from count
@@ -179,6 +392,32 @@ export interface CashFlowActivitySection {
   netCashFlowAmount: number; // Renamed from netCash
   formattedNetCashFlowAmount?: string;
 }
+
+/**
+ * Reconciliation of a direct-method statement to the indirect method. The
+ * indirect method derives each activity from balance changes by account
+ * type, so a difference points at an account whose classification differs
+ * from its type (interest paid presented as financing, say) or a type the
+ * indirect method does not cover.
+ */
+export interface CashFlowReconciliation {
+  netIncome: number;
+  adjustments: ReportLineItem[];
+  changesInWorkingCapital: ReportLineItem[];
+  /** Net cash from operating activities by the indirect method */
+  netCashFromOperationsIndirect: number;
+  netCashFromOperationsDirect: number;
+  /** Direct minus indirect net cash of each activity */
+  differences: {
+    operating: number;
+    investing: number;
+    financing: number;
+  };
+  isReconciled: boolean;
+  formattedNetIncome?: string;
+  formattedNetCashFromOperationsIndirect?: string;
+  formattedNetCashFromOperationsDirect?: string;
+}
 export interface CashFlowReport extends ReportBase {
   type: 'cash-flow';
   operatingActivities: {
@@ -202,6 +441,14 @@ export interface CashFlowReport extends ReportBase {
     cashPaidForTaxes?: number;
     significantNonCashActivities?: ReportLineItem[];
   } | null;
+  /** How operating cash flow was presented. */
+  method?: 'DIRECT' | 'INDIRECT';
+  /** Direct method only: the statement reconciled to the indirect method. */
+  reconciliation?: CashFlowReconciliation;
+  /** Calculated minus actual ending cash, when the statement does not reconcile. */
+  reconcileDifference?: number;
+  /** Per-value breakdown when the report is grouped by a dimension. */
+  segments?: ReportSegment<CashFlowReport>[];
 }
 
 // ----------------
@@ -277,6 +524,30 @@ export interface TrialBalanceReportEntry { // New interface for clarity
   netBalanceAmount?: number; // Usually not shown directly in TB, but can be derived
   parentAccountId?: string | null;
   displayOrder: number; // Renamed from order
+  /** Worksheet columns; debitBalanceAmount/creditBalanceAmount hold the adjusted balance */
+  unadjustedBalance?: TrialBalanceColumn;
+  adjustments?: TrialBalanceColumn;
+  /** Adjusted balance on the opposite side of the account's normal balance */
+  hasAbnormalBalance?: boolean;
+}
+export interface TrialBalanceColumn {
+  debitAmount: number;
+  creditAmount: number;
+}
+export interface TrialBalanceDiagnostics {
+  /** Debits minus credits of each column pair; zero when balanced */
+  unadjustedDifference: number;
+  adjustmentsDifference: number;
+  adjustedDifference: number;
+  /** Posted transactions whose own debits and credits differ */
+  unbalancedTransactions: Array<{
+    transactionId: string;
+    /** ISO 8601 string: YYYY-MM-DD */
+    date: string;
+    description: string;
+    difference: number;
+  }>;
+  abnormalBalanceAccountIds: string[];
 }
 export interface TrialBalanceReport extends ReportBase {
   type: 'trial-balance';
@@ -285,6 +556,11 @@ export interface TrialBalanceReport extends ReportBase {
   totalCreditBalances: number; // Renamed from totalCredits
   isReportBalanced: boolean; // Renamed from isBalanced (true if totals match)
   differenceAmountIfUnbalanced?: number; // Renamed from difference
+  /** ISO 8601 string: YYYY-MM-DD */
+  asOfDate?: string;
+  unadjustedTotals?: TrialBalanceColumn;
+  adjustmentTotals?: TrialBalanceColumn;
+  diagnostics?: TrialBalanceDiagnostics;
 }
 
 // ----------------
@@ -299,6 +575,7 @@ export interface GeneralLedgerAccountDetail { // New interface
   };
   openingPeriodBalance: number; // Renamed from openingBalance
   transactionsInPeriod: Array<{ // Renamed from transactions
+    lineId?: string; // UUID of the transaction line
     transactionId: string; // UUID
     /** Transaction date (ISO 8601 string: YYYY-MM-DD). */
     transactionDate: string; // Renamed from date
@@ -313,6 +590,13 @@ export interface GeneralLedgerAccountDetail { // New interface
   closingPeriodBalance: number; // Renamed from closingBalance
   totalDebitsInPeriod: number; // Renamed from periodDebits
   totalCreditsInPeriod: number; // Renamed from periodCredits
+  /** Which lines of the period transactionsInPeriod holds, for large accounts */
+  pagination?: {
+    page: number; // 1-based
+    pageSize: number;
+    totalLines: number;
+    totalPages: number;
+  };
 }
 export interface GeneralLedgerReport extends ReportBase {
   type: 'general-ledger';
@@ -328,39 +612,39 @@ export interface CustomReportColumnDefinition { // New interface
   id: string; // Unique ID for the column definition
   headerName: string; // Renamed from name
   valueSourceType: 'account_balance' | 'account_activity' | 'calculated_formula' | 'static_text' | 'metadata_field'; // Renamed from type
-  valueSourceField?: string; // e.g., accountId for balance, transaction field for activity
-  formulaExpression?: string | null; // For calculated_formula
-  displayFormat?: 'currency' | 'number' | 'percentage' | 'date' | 'text';
-  columnWidth?: string | null; // e.g., "150px", "20%"
-  textAlignment?: 'left' | 'center' | 'right';
-  isSummable?: boolean; // If this column should be totaled
+  valueSourceField?: string | undefined; // e.g., accountId for balance, transaction field for activity
+  formulaExpression?: string | null | undefined; // For calculated_formula
+  displayFormat?: 'currency' | 'number' | 'percentage' | 'date' | 'text' | undefined;
+  columnWidth?: string | null | undefined; // e.g., "150px", "20%"
+  textAlignment?: 'left' | 'center' | 'right' | undefined;
+  isSummable?: boolean | undefined; // If this column should be totaled
 }
 export interface CustomReportConfiguration { // Renamed from CustomReportConfig
   reportName: string; // Renamed from name
-  descriptionText?: string | null; // Renamed from description
+  descriptionText?: string | null | undefined; // Renamed from description
   accountSelectionCriteria: { // Renamed from accountSelection
-    includeAccountIds?: string[] | null;
-    includeAccountTypes?: AccountSystemType[] | null;
-    excludeAccountIds?: string[] | null;
-    accountTags?: string[] | null; // Filter by accounts having specific tags
+    includeAccountIds?: string[] | null | undefined;
+    includeAccountTypes?: AccountSystemType[] | null | undefined;
+    excludeAccountIds?: string[] | null | undefined;
+    accountTags?: string[] | null | undefined; // Filter by accounts having specific tags
   };
   reportColumns: CustomReportColumnDefinition[]; // Renamed from columns
   rowGroupingOptions?: { // Renamed from groupBy
     groupByField: string; // e.g., "account.type", "property.name"
-    showGroupSubtotals?: boolean;
-  } | null;
+    showGroupSubtotals?: boolean | undefined;
+  } | null | undefined;
   sortingOptions?: { // Renamed from sortBy
     sortByField: string;
     sortDirection: 'asc' | 'desc';
-  } | null;
+  } | null | undefined;
   reportFilters?: Array<{ // Renamed from filters
     filterField: string;
     filterOperator: 'equals' | 'contains' | 'greater_than' | 'less_than' | 'between_dates' | 'in_list';
-    filterValue: any;
+    filterValue?: any;
     filterValue2?: any; // For 'between_dates'
-  }> | null;
-  showComparisonColumn?: boolean;
-  comparisonPeriod?: ReportTimeFrame;
+  }> | null | undefined;
+  showComparisonColumn?: boolean | undefined;
+  comparisonPeriod?: ReportTimeFrame | undefined;
 }
 export interface CustomGeneratedReport extends ReportBase { // Renamed from CustomReport
   type: 'custom_generated'; // Renamed from custom
@@ -375,6 +659,57 @@ export interface CustomGeneratedReport extends ReportBase { // Renamed from Cust
   } | null;
 }
 
+// ----------------
+// Finalized Report Snapshots
+// ----------------
+export type ReportSnapshotType = 'balance-sheet' | 'income-statement' | 'cash-flow' | 'custom';
+
+/** A finalized report, stored unchanged as it was when finalized. */
+export interface ReportSnapshot {
+  id: string;
+  entityId: string;
+  reportType: ReportSnapshotType;
+  title: string;
+  /** 1 for the first finalization of these parameters, counting up */
+  version: number;
+  /** Report options the report was generated with */
+  parameters: Record<string, unknown>;
+  parametersHash: string;
+  /** Entities the report read: the entity, or its consolidation group as finalized */
+  entityIds: string[];
+  /** Version of the report generators that produced it */
+  generatorVersion: string;
+  /** Version of the books it was generated from, as in the report cache */
+  ledgerVersion: string;
+  /** Hash of the heads of the ledger audit chains it read */
+  ledgerHash: string;
+  /** SHA-256 of the stored report */
+  contentHash: string;
+  sizeBytes: number;
+  finalizedByUserId: string;
+  finalizedAt: number;
+}
+
+/** An amount that differs between a snapshot and the report regenerated now */
+export interface ReportSnapshotDifference {
+  /** Where the amount is in the report, e.g. "items/4010 Rental Income/amount" */
+  path: string;
+  /** null when the amount is only in the current report */
+  snapshotValue: number | null;
+  /** null when the amount is no longer in the report */
+  currentValue: number | null;
+  difference: number;
+}
+
+export interface ReportSnapshotComparison {
+  snapshot: ReportSnapshot;
+  /** The ledger or the accounts have changed since the report was finalized */
+  booksChanged: boolean;
+  /** The report generators have changed since the report was finalized */
+  generatorChanged: boolean;
+  differences: ReportSnapshotDifference[];
+}
+
 // ----------------
 // Report Formatting & Export Options (can be part of ReportRequestParams)
 // ----------------
@@ -442,6 +777,9 @@ export interface GeneratedReportResponse { // Renamed from ReportResponse
 export type AnyReportData = // Renamed from Report
   | BalanceSheetReport
   | IncomeStatementReport
+  | BudgetVsActualReport
+  | PropertyOperatingStatementReport
+  | EquityRollForwardReport
   | CashFlowReport
   | DashboardSummaryReport
   | TrialBalanceReport
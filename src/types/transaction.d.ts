@@ -4,6 +4,8 @@
  * transaction lines, journals, and associated data structures.
  */
 
+import type { PropertyId, UnitId } from './index';
+
 /**
  * Status of a financial transaction.
  */
@@ -122,6 +124,8 @@ export interface TransactionLine {
   readonly amount: number;
   /** True if this line represents a debit to the account_id, false if a credit. */
   readonly is_debit: boolean;
+  /** Intercompany only: entity whose books the line is posted to, when not the transaction's entity. */
+  readonly entity_id?: string | null;
   /** Optional line-specific description or memo. */
   readonly memo?: string | null;
   /** Unix timestamp (seconds) when this line item was created (usually same as transaction_id.created_at). */
@@ -130,8 +134,14 @@ export interface TransactionLine {
   readonly tax_code_or_category?: string | null; // Renamed from tax_code
   /** Optional JSONB or serialized string for custom metadata specific to this line. */
   readonly custom_metadata?: Record<string, unknown> | null; // Renamed from metadata
-  /** Optional: ID of a property or sub-entity this line item specifically relates to (for granular P&L). */
-  property_or_segment_id?: string | null; // Renamed from property_id
+  /** Optional: property this line item relates to (for per-building P&L). */
+  property_id?: PropertyId | null;
+  /** Optional: unit within `property_id` this line item relates to. */
+  unit_id?: UnitId | null;
+  /** Optional: department or class label. */
+  class_name?: string | null;
+  /** Optional: free-form reporting tags. */
+  tags?: string[] | null;
   /** Optional: Link to a specific document line item if applicable (e.g. invoice line). */
   document_line_item_ref?: string | null;
   is_line_reconciled?: boolean; // If reconciliation is done at line level
@@ -148,7 +158,10 @@ export interface TransactionLineItemInput { // Renamed from TransactionLineInput
   memo?: string | null;
   tax_code_or_category?: string | null;
   custom_metadata?: Record<string, unknown> | null;
-  property_or_segment_id?: string | null;
+  property_id?: PropertyId | null;
+  unit_id?: UnitId | null;
+  class_name?: string | null;
+  tags?: string[] | null;
 }
 
 /**
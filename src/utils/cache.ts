@@ -131,6 +131,8 @@ export const apiCache = new Cache<any>();
  * Global in-memory cache for report data.
  * See Cache class documentation for important context on its behavior in client-side vs. server-side (Cloudflare Workers) environments.
  * For shared/distributed server-side report caching, consider Cloudflare KV (like your REPORT_CACHE_KV).
+ * Keys must include the ledger version the report was generated at (see src/lib/reports/report-cache.ts);
+ * the TTL alone would keep serving a report after new postings.
  */
 export const reportCache = new Cache<any>();
 
@@ -215,4 +215,26 @@ export function getFiscalYear(date: Date, fiscalYearStartMonth: number = 0): num
   // If the current month is before the fiscal year start month,
   // it means we are in the fiscal year that started in the previous calendar year.
   return (month < normalizedFiscalStartMonth) ? year -1 : year;
-}
\ No newline at end of file
+}
+/**
+ * Gets the first and last day of a fiscal year as YYYY-MM-DD strings (UTC).
+ * Uses the same convention as getFiscalYear: fiscal year N starts in
+ * fiscalYearStartMonth of calendar year N.
+ * * @param fiscalYear - The fiscal year.
+ * @param fiscalYearStartMonth - The month when the fiscal year starts (0-11, default: 0 = January).
+ * @returns An object with the start and end dates of the fiscal year.
+ */
+export function getFiscalYearRange(
+  fiscalYear: number,
+  fiscalYearStartMonth: number = 0
+): { startDate: string; endDate: string } {
+  const normalizedFiscalStartMonth = (fiscalYearStartMonth % 12 + 12) % 12;
+
+  const start = new Date(Date.UTC(fiscalYear, normalizedFiscalStartMonth, 1));
+  // Day 0 of the start month one year later is the last day of the fiscal year
+  const end = new Date(Date.UTC(fiscalYear + 1, normalizedFiscalStartMonth, 0));
+  return {
+    startDate: formatDateForInput(start),
+    endDate: formatDateForInput(end),
+  };
+}
@@ -0,0 +1,179 @@
+// tests/unit/accounting-api.test.ts
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { D1Database } from "@cloudflare/workers-types";
+import {
+  getAccountBalances,
+  getReportAccountType,
+  getTransactionTotals,
+} from "../../src/lib/accounting/core/accounting-api";
+
+const mockDbQuery = vi.fn();
+
+vi.mock("@db/db", () => ({
+  createDbClient: vi.fn(() => ({
+    query: mockDbQuery,
+    queryOne: vi.fn(),
+    execute: vi.fn(),
+    batch: vi.fn(),
+    d1Instance: {},
+  })),
+}));
+
+vi.mock("../../src/lib/accounting/core/ledger", () => ({
+  Ledger: vi.fn(),
+}));
+
+const mockD1Instance = {} as D1Database;
+const entityId = "entity-1";
+
+const activityRow = (overrides: Record<string, unknown>) => ({
+  id: "acc-1",
+  code: "1020",
+  name: "Checking Account",
+  type: "asset",
+  subtype: null,
+  parent_id: null,
+  is_active: 1,
+  entity_account_id: "ea-1",
+  debit_total: 0,
+  credit_total: 0,
+  transaction_count: 1,
+  ...overrides,
+});
+
+describe("accounting-api", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("getReportAccountType", () => {
+    it("prefers the account subtype", () => {
+      expect(
+        getReportAccountType({ type: "liability", subtype: "mortgage_long_term", code: "2010" })
+      ).toBe("LOAN");
+    });
+
+    it("falls back to the default chart-of-accounts code ranges", () => {
+      expect(getReportAccountType({ type: "asset", code: "1020" })).toBe("BANK");
+      expect(getReportAccountType({ type: "asset", code: "1525" })).toBe("FIXED_ASSET");
+      expect(getReportAccountType({ type: "equity", code: "3030" })).toBe("RETAINED_EARNINGS");
+      expect(getReportAccountType({ type: "expense", code: "5810" })).toBe("INTEREST_EXPENSE");
+      expect(getReportAccountType({ type: "income", code: "4010" })).toBe("INCOME");
+    });
+  });
+
+  describe("getAccountBalances", () => {
+    it("signs balances by normal balance and converts cents", async () => {
+      mockDbQuery.mockResolvedValue([
+        activityRow({ debit_total: 150000, credit_total: 25050 }),
+        activityRow({
+          id: "acc-2",
+          code: "1525",
+          name: "Accumulated Depreciation",
+          entity_account_id: "ea-2",
+          credit_total: 10000,
+        }),
+        activityRow({
+          id: "acc-3",
+          code: "2510",
+          name: "Mortgage Payable",
+          type: "liability",
+          entity_account_id: "ea-3",
+          debit_total: 5000,
+          credit_total: 200000,
+        }),
+        activityRow({ id: "acc-4", code: "1030", entity_account_id: "ea-4", transaction_count: 0 }),
+      ]);
+
+      const balances = await getAccountBalances({
+        entityId,
+        asOfDate: "2024-12-31",
+        accountTypes: ["ASSET", "LIABILITY"],
+        db: mockD1Instance,
+      });
+
+      expect(balances.map((b) => [b.accountId, b.accountType, b.balance])).toEqual([
+        ["acc-1", "BANK", 1249.5],
+        ["acc-2", "FIXED_ASSET", -100],
+        ["acc-3", "LOAN", 1950],
+      ]);
+      const params = mockDbQuery.mock.calls[0]?.[1];
+      expect(params).toEqual([entityId, 0, Date.UTC(2024, 11, 31, 23, 59, 59) / 1000]);
+    });
+
+    it("filters by report category", async () => {
+      mockDbQuery.mockResolvedValue([
+        activityRow({ debit_total: 1000 }),
+        activityRow({ id: "acc-2", code: "1510", entity_account_id: "ea-2", debit_total: 5000 }),
+      ]);
+
+      const balances = await getAccountBalances({
+        entityId,
+        asOfDate: "2024-12-31",
+        accountTypes: ["BANK", "CASH"],
+        db: mockD1Instance,
+      });
+
+      expect(balances).toHaveLength(1);
+      expect(balances[0]?.accountId).toBe("acc-1");
+    });
+  });
+
+  describe("getTransactionTotals", () => {
+    it("returns period activity for accounts with postings only", async () => {
+      mockDbQuery.mockResolvedValue([
+        activityRow({
+          id: "inc-1",
+          code: "4010",
+          name: "Rental Income",
+          type: "income",
+          credit_total: 300000,
+          transaction_count: 3,
+        }),
+        activityRow({ id: "exp-1", code: "5010", type: "expense", transaction_count: 0 }),
+      ]);
+
+      const totals = await getTransactionTotals({
+        entityId,
+        startDate: "2024-01-01",
+        endDate: "2024-03-31",
+        accountTypes: ["INCOME", "EXPENSE"],
+        db: mockD1Instance,
+      });
+
+      expect(totals).toEqual([
+        {
+          accountId: "inc-1",
+          count: 3,
+          total: 3000,
+          debitTotal: 0,
+          creditTotal: 3000,
+          type: "INCOME",
+          systemType: "income",
+        },
+      ]);
+    });
+
+    it("leaves out year-end closing entries, which balances keep", async () => {
+      mockDbQuery.mockResolvedValue([]);
+
+      await getTransactionTotals({
+        entityId,
+        startDate: "2024-01-01",
+        endDate: "2024-12-31",
+        accountTypes: ["INCOME", "EXPENSE"],
+        db: mockD1Instance,
+      });
+      await getAccountBalances({
+        entityId,
+        asOfDate: "2024-12-31",
+        accountTypes: ["EQUITY"],
+        db: mockD1Instance,
+      });
+
+      const [totalsSql, balancesSql] = mockDbQuery.mock.calls.map(([sql]) => sql as string);
+      expect(totalsSql).toContain("j.type IS NOT 'closing'");
+      expect(balancesSql).not.toContain("j.type IS NOT 'closing'");
+    });
+  });
+});
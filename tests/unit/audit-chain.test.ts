@@ -0,0 +1,103 @@
+// tests/unit/audit-chain.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  chainAuditEvents,
+  verifyAuditChain,
+  canonicalJson,
+  computeBaselineHash,
+  GENESIS_HASH,
+  type LedgerSnapshot,
+} from "../../src/lib/accounting/core/audit-chain";
+
+const snapshot = (overrides: Partial<LedgerSnapshot> = {}): LedgerSnapshot => ({
+  id: "tx-1",
+  entityId: "entity-1",
+  journalId: null,
+  date: 1704067200,
+  description: "Rent received",
+  reference: null,
+  status: "posted",
+  reversalOfTransactionId: null,
+  correctionOfTransactionId: null,
+  lines: [
+    { id: "l-1", entityAccountId: "ea-cash", amount: 150000, isDebit: true, memo: null },
+    { id: "l-2", entityAccountId: "ea-rent", amount: 150000, isDebit: false, memo: null },
+  ],
+  ...overrides,
+});
+
+const buildChain = () =>
+  chainAuditEvents(null, [
+    { id: "e-1", entityId: "entity-1", eventType: "create", transactionId: "tx-1", userId: "u-1", snapshot: snapshot({ status: "pending" }), createdAt: 100 },
+    { id: "e-2", entityId: "entity-1", eventType: "post", transactionId: "tx-1", userId: "u-1", snapshot: snapshot(), createdAt: 200 },
+  ]);
+
+describe("ledger audit chain", () => {
+  it("serializes objects with sorted keys", () => {
+    expect(canonicalJson({ b: 1, a: { d: null, c: [2, 1] } })).toBe('{"a":{"c":[2,1],"d":null},"b":1}');
+  });
+
+  it("links each event to the previous hash", async () => {
+    const [first, second] = await buildChain();
+    expect(first?.previousHash).toBe(GENESIS_HASH);
+    expect(first?.hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(second?.previousHash).toBe(first?.hash);
+    expect(second?.sequence).toBe(2);
+  });
+
+  it("verifies an untouched chain against the current ledger", async () => {
+    const events = await buildChain();
+    const result = await verifyAuditChain(events, new Map([["tx-1", snapshot()]]));
+    expect(result).toMatchObject({ valid: true, eventCount: 2, breaks: [] });
+  });
+
+  it("detects an altered event and a missing one", async () => {
+    const [first, second] = await buildChain();
+    const altered = { ...first!, snapshot: snapshot({ status: "pending", description: "Edited" }) };
+
+    const tampered = await verifyAuditChain([altered, second!]);
+    expect(tampered.breaks.map((b) => b.reason)).toEqual(["HASH_MISMATCH"]);
+
+    const truncated = await verifyAuditChain([second!]);
+    expect(truncated.breaks.map((b) => b.reason)).toEqual([
+      "SEQUENCE_GAP",
+      "PREVIOUS_HASH_MISMATCH",
+    ]);
+  });
+
+  it("detects ledger rows changed outside the audited write path", async () => {
+    const events = await buildChain();
+    const edited = snapshot({
+      lines: [
+        { id: "l-1", entityAccountId: "ea-cash", amount: 100000, isDebit: true, memo: null },
+        { id: "l-2", entityAccountId: "ea-rent", amount: 100000, isDebit: false, memo: null },
+      ],
+    });
+    const result = await verifyAuditChain(events, new Map([["tx-1", edited]]));
+    expect(result.valid).toBe(false);
+    expect(result.breaks[0]).toMatchObject({ reason: "LEDGER_MISMATCH", transactionId: "tx-1" });
+  });
+
+  it("accepts unaudited transactions only if they are in the recorded baseline", async () => {
+    const events = await chainAuditEvents(null, [
+      {
+        id: "e-1", entityId: "entity-1", eventType: "void", transactionId: "tx-old", userId: "u-1",
+        snapshot: snapshot({ id: "tx-old", status: "voided" }), createdAt: 100,
+        baselineHash: await computeBaselineHash(["tx-older", "tx-old"]),
+      },
+    ]);
+    const ledger = new Map([
+      ["tx-old", snapshot({ id: "tx-old", status: "voided" })],
+      ["tx-older", snapshot({ id: "tx-older" })],
+    ]);
+    expect((await verifyAuditChain(events, ledger)).valid).toBe(true);
+
+    ledger.set("tx-forged", snapshot({ id: "tx-forged" }));
+    const forged = await verifyAuditChain(events, ledger);
+    expect(forged.breaks.map((b) => b.reason)).toEqual([
+      "BASELINE_MISMATCH",
+      "MISSING_AUDIT_TRAIL",
+      "MISSING_AUDIT_TRAIL",
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+// tests/unit/budget.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  calculateVariance,
+  getBudgetForRange,
+  getBudgetMonths,
+  seedFromActuals,
+} from "../../src/lib/accounting/core/budget";
+
+describe("budgets", () => {
+  it("covers twelve months from the first of a month", () => {
+    const months = getBudgetMonths("2024-07-01");
+    expect(months).toHaveLength(12);
+    expect([months[0], months[11]]).toEqual(["2024-07", "2025-06"]);
+    expect(() => getBudgetMonths("2024-07-15")).toThrow(/first day/);
+  });
+
+  it("seeds next year's months from actuals with growth", () => {
+    const actuals = [
+      { accountId: "rent", month: "2023-01", amount: 100_000 },
+      { accountId: "rent", month: "2023-12", amount: 100_050 },
+      { accountId: "rent", month: "2022-12", amount: 90_000 }, // too old
+    ];
+    expect(seedFromActuals(actuals, "2024-01-01", 5)).toEqual([
+      { accountId: "rent", month: "2024-01", amount: 105_000 },
+      { accountId: "rent", month: "2024-12", amount: 105_053 },
+    ]);
+  });
+
+  it("prorates months partly inside a range", () => {
+    const amounts = [
+      { accountId: "repairs", month: "2024-01", amount: 31_000 },
+      { accountId: "repairs", month: "2024-02", amount: 29_000 },
+    ];
+    expect(getBudgetForRange(amounts, "2024-01-01", "2024-01-31").get("repairs")).toBe(31_000);
+    expect(getBudgetForRange(amounts, "2024-01-17", "2024-02-10").get("repairs")).toBe(15_000 + 10_000);
+  });
+
+  it("treats overspending and underearning as unfavorable", () => {
+    expect(calculateVariance(1000, 1250, "expense")).toEqual({
+      budget: 1000,
+      actual: 1250,
+      variance: 250,
+      variancePercent: 25,
+      favorable: false,
+    });
+    expect(calculateVariance(1000, 900, "income")).toMatchObject({ variance: -100, favorable: false });
+    expect(calculateVariance(0, 50, "expense").variancePercent).toBeNull();
+  });
+});
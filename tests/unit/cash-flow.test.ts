@@ -0,0 +1,40 @@
+// tests/unit/cash-flow.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  assertClassificationCategory,
+  classifyCashMovements,
+  getDefaultCashFlowClassification,
+  type ClassifiableAccount,
+} from "../../src/lib/accounting/core/cash-flow";
+
+const rent: ClassifiableAccount = { type: "INCOME", systemType: "income", subtype: "rental_income" };
+const interest: ClassifiableAccount = { type: "INTEREST_EXPENSE", systemType: "expense", subtype: "mortgage_interest" };
+const mortgage: ClassifiableAccount = { type: "LOAN", systemType: "liability", subtype: "mortgage_long_term" };
+const roof: ClassifiableAccount = { type: "FIXED_ASSET", systemType: "asset", subtype: "property_improvements" };
+
+describe("cash flow classification", () => {
+  it("defaults by account type and, for debt and equity, by direction of the cash", () => {
+    expect(getDefaultCashFlowClassification(rent, "inflow")).toBe("rental_receipts");
+    expect(getDefaultCashFlowClassification(interest, "outflow")).toBe("interest_paid_operating");
+    expect(getDefaultCashFlowClassification(roof, "outflow")).toBe("capital_expenditures");
+    expect(getDefaultCashFlowClassification(mortgage, "inflow")).toBe("proceeds_from_debt");
+    expect(getDefaultCashFlowClassification(mortgage, "outflow")).toBe("repayment_of_debt_principal");
+    expect(() => assertClassificationCategory("capital_expenditures", "operating")).toThrow(/investing/);
+  });
+
+  it("shows a loan drawn and repaid gross, and nets a classified account", () => {
+    const flows = classifyCashMovements([
+      { account: rent, inflow: 12000, outflow: 250, classification: null },
+      { account: mortgage, inflow: 50000, outflow: 1800, classification: null },
+      { account: interest, inflow: 0, outflow: 2200, classification: "interest_paid_financing" },
+      { account: roof, inflow: 0, outflow: 0, classification: null },
+    ]);
+
+    expect(flows.map((flow) => [flow.classification, flow.category, flow.amount])).toEqual([
+      ["rental_receipts", "operating", 11750],
+      ["proceeds_from_debt", "financing", 50000],
+      ["repayment_of_debt_principal", "financing", -1800],
+      ["interest_paid_financing", "financing", -2200],
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+// tests/unit/consolidation.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  getConsolidationMembers,
+  getIntercompanyEliminations,
+  getInvestmentEliminations,
+  splitByOwnership,
+} from "../../src/lib/accounting/core/consolidation";
+
+const hierarchy = [
+  {
+    id: "holding",
+    name: "Holding Co",
+    defaultCurrency: "USD",
+    children: [
+      {
+        id: "jv",
+        name: "Joint Venture LLC",
+        ownershipPercentage: 60,
+        defaultCurrency: "USD",
+        children: [{ id: "property", name: "Property LLC", ownershipPercentage: 50, defaultCurrency: "USD" }],
+      },
+    ],
+  },
+  { id: "other", name: "Other Co", defaultCurrency: "USD" },
+];
+
+describe("consolidation", () => {
+  it("collects descendants with the share the parent ultimately owns", () => {
+    expect(getConsolidationMembers(hierarchy, "holding")).toEqual([
+      { entityId: "holding", name: "Holding Co", parentEntityId: null, groupShare: 1 },
+      { entityId: "jv", name: "Joint Venture LLC", parentEntityId: "holding", groupShare: 0.6 },
+      { entityId: "property", name: "Property LLC", parentEntityId: "jv", groupShare: 0.3 },
+    ]);
+    expect(getConsolidationMembers(hierarchy, "jv").map((m) => m.groupShare)).toEqual([1, 0.5]);
+    expect(splitByOwnership(100.01, 0.3)).toEqual({ group: 30, minority: 70.01 });
+  });
+
+  it("eliminates intercompany balances and matched income inside the group only", () => {
+    const activity = [
+      // Holding charges the property a 100.00 management fee
+      { pairId: "fee", entityId: "holding", counterpartyEntityId: "property", accountCode: "1400", systemType: "asset" as const, amount: 100 },
+      { pairId: "fee", entityId: "holding", counterpartyEntityId: "property", accountCode: "4100", systemType: "income" as const, amount: 100 },
+      { pairId: "fee", entityId: "property", counterpartyEntityId: "holding", accountCode: "6100", systemType: "expense" as const, amount: 100 },
+      { pairId: "fee", entityId: "property", counterpartyEntityId: "holding", accountCode: "2050", systemType: "liability" as const, amount: 100 },
+      // Holding pays a property repair bill: no intercompany profit
+      { pairId: "repair", entityId: "holding", counterpartyEntityId: "property", accountCode: "1000", systemType: "asset" as const, amount: -40 },
+      { pairId: "repair", entityId: "holding", counterpartyEntityId: "property", accountCode: "1400", systemType: "asset" as const, amount: 40 },
+      { pairId: "repair", entityId: "property", counterpartyEntityId: "holding", accountCode: "6200", systemType: "expense" as const, amount: 40 },
+      { pairId: "repair", entityId: "property", counterpartyEntityId: "holding", accountCode: "2050", systemType: "liability" as const, amount: 40 },
+    ];
+
+    expect(getIntercompanyEliminations(activity, ["holding", "jv", "property"])).toEqual([
+      { entityId: "holding", accountCode: "1400", amount: 100 },
+      { entityId: "property", accountCode: "2050", amount: 100 },
+      { entityId: "holding", accountCode: "1400", amount: 40 },
+      { entityId: "property", accountCode: "2050", amount: 40 },
+      { entityId: "holding", accountCode: "4100", amount: 100 },
+      { entityId: "property", accountCode: "6100", amount: 100 },
+    ]);
+    expect(getIntercompanyEliminations(activity, ["jv", "property"])).toEqual([]);
+  });
+
+  it("eliminates each holder's investment against the subsidiary capital it acquired", () => {
+    const members = getConsolidationMembers(hierarchy, "holding");
+    const balances = [
+      // Holding paid 700.00 for 60% of 1,000.00 of capital; 100.00 stays as goodwill
+      { entityId: "holding", investment: 700, capital: 5000 },
+      // The JV paid 250.00 for half of the property's 500.00
+      { entityId: "jv", investment: 250, capital: 1000 },
+      { entityId: "property", investment: 0, capital: 500 },
+    ];
+
+    expect(getInvestmentEliminations(members, balances)).toEqual([
+      { holderEntityId: "holding", subsidiaryEntityId: "jv", amount: 600, groupAmount: 600 },
+      // 60% of what the JV acquired is the group's; the rest belongs to its other owners
+      { holderEntityId: "jv", subsidiaryEntityId: "property", amount: 250, groupAmount: 150 },
+    ]);
+    expect(getInvestmentEliminations(getConsolidationMembers(hierarchy, "jv"), balances)).toEqual([
+      { holderEntityId: "jv", subsidiaryEntityId: "property", amount: 250, groupAmount: 250 },
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+// tests/unit/csv-import.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  parseAmount,
+  parseCsvImport,
+  parseDateString,
+} from "../../src/lib/import/parser.csv";
+import { decodeText } from "../../src/lib/import/encoding";
+
+describe("CSV bank-file import", () => {
+  it("reads dates and amounts the way banks write them", () => {
+    expect(parseDateString("3/7/2024", "MM/DD/YYYY")).toBe("2024-03-07");
+    expect(parseDateString("07.03.24", "DD.MM.YY")).toBe("2024-03-07");
+    expect(parseDateString("20240307", "YYYYMMDD")).toBe("2024-03-07");
+    expect(parseDateString("07-Mar-2024", "DD-MMM-YYYY")).toBe("2024-03-07");
+    expect(parseDateString("2024-03-07T10:15:00Z", "ISO8601")).toBe("2024-03-07");
+    expect(parseDateString("31/02/2024", "DD/MM/YYYY")).toBeNull();
+
+    const us = { decimalSeparator: ".", thousandsSeparator: "," } as const;
+    const eu = { decimalSeparator: ",", thousandsSeparator: "." } as const;
+    expect(parseAmount("$1,234.56", us)).toBe(1234.56);
+    expect(parseAmount("(45.00)", us)).toBe(-45);
+    expect(parseAmount("12.50-", us)).toBe(-12.5);
+    expect(parseAmount("-1.234,56 €", eu)).toBe(-1234.56);
+    expect(parseAmount("", us)).toBeNull();
+  });
+
+  it("maps a European export with split debit/credit columns, skip rules and a windows-1252 encoding", () => {
+    const csv = [
+      "Kontoauszug Girokonto",
+      "Buchungstag;Verwendungszweck;Soll;Haben;Referenz",
+      "02.01.2024;Miete Januar – Whg 3;;1.250,00;R-1",
+      "03.01.2024;Hausgeld;-320,50;;R-2",
+      "04.01.2024;Kaution;;abc;R-3",
+      ";Summe;320,50;1.250,00;",
+      "",
+    ].join("\r\n");
+    const bytes = Uint8Array.from(csv, (char) => (char === "–" ? 0x96 : char.charCodeAt(0)));
+
+    const result = parseCsvImport(bytes, {
+      mapping: {
+        header_row_index: 1,
+        file_encoding: "windows-1252",
+        transaction_date_column: {
+          source_column_header_or_index: "buchungstag",
+          expected_data_type: "date",
+          date_format_if_string: "DD.MM.YYYY",
+          is_required_for_import: true,
+        },
+        transaction_description_column: {
+          source_column_header_or_index: "Verwendungszweck",
+          expected_data_type: "string",
+          data_cleaning_transforms: [{ type: "trim_whitespace" }],
+        },
+        debit_amount_column: { source_column_header_or_index: "Soll", expected_data_type: "currency_decimal" },
+        credit_amount_column: { source_column_header_or_index: "Haben", expected_data_type: "currency_decimal" },
+        transaction_reference_column: { source_column_header_or_index: 4, expected_data_type: "string" },
+        row_skip_conditions: [{ source_column_header_or_index: "Verwendungszweck", condition_operator: "equals_value", comparison_value: "summe" }],
+      },
+      processingOptions: { duplicate_handling_strategy: "skip_duplicates", decimal_separator_character: "," },
+      validationRules: [
+        { target_field_path: "transaction_reference", rule_type: "unique_value_in_column", severity_level: "warning_allows_import" },
+      ],
+    });
+
+    expect(result.delimiter).toBe(";");
+    expect(result.rows.map((row) => row.processing_status)).toEqual([
+      "validated_ok",
+      "validated_ok",
+      "validated_with_errors",
+      "skipped_by_rule",
+    ]);
+    expect(result.rows[0]!.mapped_data).toEqual({
+      transaction_date: "2024-01-02",
+      transaction_description: "Miete Januar – Whg 3",
+      transaction_amount: 1250,
+      transaction_reference: "R-1",
+    });
+    expect(result.rows[1]!.mapped_data.transaction_amount).toBe(-320.5);
+    expect(result.rows[1]!.source_row_number).toBe(4);
+    expect(result.rows[2]!.error_messages).toEqual(['transaction_amount: "abc" is not an amount']);
+    expect(decodeText(Uint8Array.of(0xef, 0xbb, 0xbf, 0x41))).toBe("A");
+  });
+});
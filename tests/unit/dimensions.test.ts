@@ -0,0 +1,39 @@
+// tests/unit/dimensions.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  dimensionConditions,
+  filterForDimensionValue,
+  matchesDimensionFilter,
+  normalizeDimensions,
+} from "../../src/lib/accounting/core/dimensions";
+
+describe("line dimensions", () => {
+  it("normalizes input and requires a property for a unit", () => {
+    expect(
+      normalizeDimensions({ propertyId: " elm-st ", unitId: "2B", className: "", tags: ["roof", "roof", " "] })
+    ).toEqual({ propertyId: "elm-st", unitId: "2B", tags: ["roof"] });
+    expect(normalizeDimensions({ propertyId: null, tags: null })).toEqual({});
+    expect(() => normalizeDimensions({ unitId: "2B" })).toThrow(/property/);
+  });
+
+  it("matches lines against filters built for a dimension value", () => {
+    const line = { propertyId: "elm-st", tags: ["roof", "capex"] };
+    expect(matchesDimensionFilter(line, filterForDimensionValue("property", "elm-st"))).toBe(true);
+    expect(matchesDimensionFilter(line, filterForDimensionValue("property", null))).toBe(false);
+    expect(matchesDimensionFilter(line, filterForDimensionValue("tag", "roof", { tags: ["capex"] }))).toBe(true);
+    expect(matchesDimensionFilter(line, filterForDimensionValue("class", null))).toBe(true);
+    expect(matchesDimensionFilter({}, filterForDimensionValue("tag", null))).toBe(true);
+  });
+
+  it("builds SQL conditions with positional parameters", () => {
+    const params: unknown[] = ["entity"];
+    expect(
+      dimensionConditions({ propertyId: "elm-st", className: null, tags: ["roof"] }, "tl", params)
+    ).toEqual([
+      "tl.property_id = ?2",
+      "tl.class_name IS NULL",
+      "EXISTS (SELECT 1 FROM json_each(tl.tags) WHERE json_each.value = ?3)",
+    ]);
+    expect(params).toEqual(["entity", "elm-st", "roof"]);
+  });
+});
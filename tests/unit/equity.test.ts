@@ -0,0 +1,59 @@
+// tests/unit/equity.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  allocateEquityToOwners,
+  getEquityComponent,
+  rollForwardEquityAccount,
+  sumEquityRollForwards,
+} from "../../src/lib/accounting/core/equity";
+
+const capital = { type: "EQUITY", subtype: "owner_capital" };
+const draws = { type: "EQUITY", subtype: "distributions" };
+const retainedEarnings = { type: "RETAINED_EARNINGS", subtype: null };
+
+describe("equity roll-forward", () => {
+  it("reads each account's movements by its subtype", () => {
+    expect(getEquityComponent(retainedEarnings)).toBe("retained_earnings");
+    expect(getEquityComponent({ type: "EQUITY", subtype: null })).toBe("capital");
+
+    expect(
+      rollForwardEquityAccount({ account: capital, openingBalance: 100000, debitTotal: 5000, creditTotal: 20000 })
+    ).toEqual({
+      openingCapital: 100000,
+      contributions: 20000,
+      netIncome: 0,
+      distributions: 5000,
+      otherChanges: 0,
+      closingCapital: 115000,
+    });
+    expect(
+      rollForwardEquityAccount({ account: draws, openingBalance: -8000, debitTotal: 12000, creditTotal: 0 })
+    ).toMatchObject({ distributions: 12000, closingCapital: -20000 });
+  });
+
+  it("allocates pooled equity by ownership and keeps an owner's own accounts theirs", () => {
+    const partnerA = rollForwardEquityAccount({ account: capital, openingBalance: 60000, debitTotal: 0, creditTotal: 10000 });
+    const partnerB = rollForwardEquityAccount({ account: capital, openingBalance: 40000, debitTotal: 0, creditTotal: 0 });
+    const pooled = rollForwardEquityAccount({ account: retainedEarnings, openingBalance: 30000, debitTotal: 0, creditTotal: 0 });
+    const total = sumEquityRollForwards([partnerA, partnerB, pooled], { openingEarnings: 0, netIncome: 10000 });
+
+    const owners = allocateEquityToOwners(
+      [
+        { id: "a", ownershipPercentage: 66.67, capitalAccountId: "ea-a", distributionAccountId: null },
+        { id: "b", ownershipPercentage: 33.33, capitalAccountId: "ea-b", distributionAccountId: null },
+      ],
+      [
+        { entityAccountId: "ea-a", amounts: partnerA },
+        { entityAccountId: "ea-b", amounts: partnerB },
+        { entityAccountId: "ea-re", amounts: pooled },
+      ],
+      total
+    );
+
+    expect(owners.map(({ amounts }) => amounts)).toEqual([
+      { openingCapital: 80001, contributions: 10000, netIncome: 6667, distributions: 0, otherChanges: 0, closingCapital: 96668 },
+      { openingCapital: 49999, contributions: 0, netIncome: 3333, distributions: 0, otherChanges: 0, closingCapital: 53332 },
+    ]);
+    expect(owners.reduce((sum, { amounts }) => sum + amounts.closingCapital, 0)).toBe(total.closingCapital);
+  });
+});
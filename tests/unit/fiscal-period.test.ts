@@ -0,0 +1,58 @@
+// tests/unit/fiscal-period.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  checkPeriodLock,
+  findPeriodForDate,
+  type FiscalPeriodLock,
+} from "../../src/lib/accounting/core/fiscal-period";
+
+const periods: FiscalPeriodLock[] = [
+  {
+    id: "p-jan",
+    name: "January 2024",
+    startDate: new Date("2024-01-01T00:00:00Z"),
+    endDate: new Date("2024-01-31T00:00:00Z"),
+    status: "hard_closed",
+  },
+  {
+    id: "p-feb",
+    name: "February 2024",
+    startDate: new Date("2024-02-01T00:00:00Z"),
+    endDate: new Date("2024-02-29T00:00:00Z"),
+    status: "soft_closed",
+  },
+  {
+    id: "p-mar",
+    name: "March 2024",
+    startDate: new Date("2024-03-01T00:00:00Z"),
+    endDate: new Date("2024-03-31T00:00:00Z"),
+    status: "open",
+  },
+];
+
+describe("fiscal period locking", () => {
+  it("matches the period by whole day, inclusive of the last day", () => {
+    expect(findPeriodForDate(periods, new Date("2024-01-31T18:30:00Z"))?.id).toBe("p-jan");
+    expect(findPeriodForDate(periods, new Date("2024-04-01T00:00:00Z"))).toBeUndefined();
+  });
+
+  it("allows open periods and dates outside any period", () => {
+    expect(checkPeriodLock({ periods }, new Date("2024-03-15")).allowed).toBe(true);
+    expect(checkPeriodLock({ periods }, new Date("2023-12-31")).allowed).toBe(true);
+  });
+
+  it("blocks soft-closed periods unless the user may override", () => {
+    const date = new Date("2024-02-10");
+    expect(checkPeriodLock({ periods }, date)).toMatchObject({
+      allowed: false,
+      code: "PERIOD_SOFT_CLOSED",
+    });
+    expect(checkPeriodLock({ periods, canOverrideSoftClose: true }, date).allowed).toBe(true);
+  });
+
+  it("always blocks hard-closed periods", () => {
+    expect(
+      checkPeriodLock({ periods, canOverrideSoftClose: true }, new Date("2024-01-15"))
+    ).toMatchObject({ allowed: false, code: "PERIOD_HARD_CLOSED" });
+  });
+});
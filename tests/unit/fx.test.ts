@@ -0,0 +1,81 @@
+// tests/unit/fx.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  computeRevaluation,
+  convertToFunctional,
+  findExchangeRate,
+  isMonetaryAccount,
+  parseExchangeRatesCsv,
+} from "../../src/lib/accounting/core/fx";
+
+const rates = parseExchangeRatesCsv(`
+# month-end rates
+date,base_currency,quote_currency,rate
+2024-01-31,USD,CAD,1.3436
+2024-02-29,usd,cad,1.3570
+`);
+
+describe("foreign currency", () => {
+  it("parses rate CSV and rejects malformed rows", () => {
+    expect(rates).toEqual([
+      { baseCurrency: "USD", quoteCurrency: "CAD", rate: "1.3436", rateDate: "2024-01-31" },
+      { baseCurrency: "USD", quoteCurrency: "CAD", rate: "1.3570", rateDate: "2024-02-29" },
+    ]);
+    expect(() => parseExchangeRatesCsv("date,rate\n2024-01-01,1.2")).toThrow(/columns/);
+    expect(() =>
+      parseExchangeRatesCsv("date,base_currency,quote_currency,rate\n2024-01-01,USD,CAD,-1")
+    ).toThrow(/Invalid exchange rate/);
+  });
+
+  it("uses the latest rate on or before the date, in either direction", () => {
+    expect(findExchangeRate(rates, "USD", "CAD", "2024-02-15")?.rate).toBe("1.3436");
+    expect(findExchangeRate(rates, "USD", "CAD", "2024-03-01")?.rate).toBe("1.3570");
+    expect(findExchangeRate(rates, "CAD", "USD", "2024-02-29")?.rate).toBe("0.7369196758");
+    expect(findExchangeRate(rates, "USD", "CAD", "2024-01-30")).toBeNull();
+    expect(findExchangeRate(rates, "CAD", "CAD", "2024-01-30")?.rate).toBe("1");
+  });
+
+  it("converts lines into the functional currency and absorbs rounding", () => {
+    const lines = convertToFunctional(
+      [
+        { amount: "0.01", isDebit: true, currencyCode: "cad" },
+        { amount: "0.01", isDebit: true, currencyCode: "CAD" },
+        { amount: "0.02", isDebit: false, currencyCode: "CAD" },
+      ],
+      "USD",
+      new Map([["CAD", "1.5"]])
+    );
+    // Each debit rounds 1.5 cents up to 2, the credit is exactly 3 cents
+    expect(lines.map((l) => l.amount)).toEqual(["0.02", "0.02", "0.04"]);
+    expect(lines[0]).toMatchObject({ currencyCode: "CAD", foreignAmount: "0.01", exchangeRate: "1.5" });
+
+    const functional = convertToFunctional(
+      [{ amount: "50.00", isDebit: true, currencyCode: "USD" }],
+      "USD",
+      new Map()
+    );
+    expect(functional[0]).toMatchObject({ amount: "50.00", foreignAmount: null, exchangeRate: null });
+    expect(() =>
+      convertToFunctional([{ amount: "1.00", isDebit: true, currencyCode: "EUR" }], "USD", new Map())
+    ).toThrow(/No EUR to USD exchange rate/);
+  });
+
+  it("revalues monetary balances at the closing rate", () => {
+    const adjustments = computeRevaluation(
+      [
+        // CAD 10,000 cash booked at 0.74, CAD 4,000 payable booked at 0.75
+        { entityAccountId: "cash", currencyCode: "CAD", foreignBalance: 1_000_000, bookedBalance: 740_000 },
+        { entityAccountId: "payable", currencyCode: "CAD", foreignBalance: -400_000, bookedBalance: -300_000 },
+        { entityAccountId: "settled", currencyCode: "CAD", foreignBalance: 0, bookedBalance: 0 },
+      ],
+      new Map([["CAD", "0.73"]])
+    );
+    expect(adjustments.map(({ entityAccountId, adjustment }) => ({ entityAccountId, adjustment }))).toEqual([
+      { entityAccountId: "cash", adjustment: -10_000 },
+      { entityAccountId: "payable", adjustment: 8_000 },
+    ]);
+    expect(isMonetaryAccount({ code: "1020", systemType: "asset" })).toBe(true);
+    expect(isMonetaryAccount({ code: "1520", systemType: "asset" })).toBe(false);
+    expect(isMonetaryAccount({ code: "4000", systemType: "income" })).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+// tests/unit/general-ledger.test.ts
+import { describe, it, expect, vi } from "vitest";
+import type { ReportLineItem } from "../../src/types/report";
+import {
+  addGeneralLedgerDrillDowns,
+  getGeneralLedgerUrl,
+} from "../../src/lib/reports/general-ledger";
+
+vi.mock("../../src/lib/accounting/core/accounting-api", () => ({
+  getGeneralLedgerActivity: vi.fn(),
+  getGeneralLedgerLines: vi.fn(),
+}));
+
+describe("general ledger drill-down", () => {
+  it("links account lines but not totals to the ledger", () => {
+    const items: ReportLineItem[] = [
+      {
+        accountId: "rent",
+        lineItemName: "Rental Income",
+        amount: 1200,
+        displayOrder: 1,
+        children: [{ accountId: "rent-parking", lineItemName: "Parking", amount: 200, displayOrder: 2 }],
+      },
+      { lineItemName: "Total Revenue", amount: 1200, isCalculatedTotal: true, displayOrder: 3 },
+    ];
+
+    addGeneralLedgerDrillDowns(items, {
+      entityId: "entity-1",
+      startDate: "2024-01-01",
+      endDate: "2024-03-31",
+      dimensions: { propertyId: "maple-court" },
+    });
+
+    expect(items[0]!.drillDown).toEqual({
+      reportType: "general-ledger",
+      entityId: "entity-1",
+      accountId: "rent",
+      startDate: "2024-01-01",
+      endDate: "2024-03-31",
+      dimensions: { propertyId: "maple-court" },
+    });
+    expect(items[0]!.children![0]!.drillDown?.accountId).toBe("rent-parking");
+    expect(items[1]!.drillDown).toBeUndefined();
+    expect(getGeneralLedgerUrl(items[0]!.drillDown!)).toBe(
+      "/api/reports/general-ledger?entityId=entity-1&accountId=rent&endDate=2024-03-31&startDate=2024-01-01&propertyId=maple-court"
+    );
+  });
+});
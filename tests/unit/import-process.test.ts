@@ -0,0 +1,71 @@
+// tests/unit/import-process.test.ts
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { mockCommit, mockWarmReportCache } = vi.hoisted(() => ({
+  mockCommit: vi.fn(),
+  mockWarmReportCache: vi.fn(async () => 5),
+}));
+
+vi.mock("../../src/lib/services/transaction-service", () => ({
+  createTransactionService: () => ({ hasEntityAccess: async () => true }),
+}));
+vi.mock("../../src/lib/services/import-session-service", () => ({
+  createImportSessionService: () => ({
+    getSession: async (id: string) => ({ id, entity_id: "entity-1" }),
+    commit: mockCommit,
+  }),
+}));
+vi.mock("../../src/lib/reports/report-api", () => ({
+  warmReportCache: mockWarmReportCache,
+}));
+vi.mock("../../src/lib/reports/report-cache", () => ({
+  LARGE_IMPORT_THRESHOLD: 100,
+}));
+
+import { onRequest } from "../../src/pages/api/import/process";
+
+const sessionId = "5b0f4c1e-8d2a-4f6b-9c3d-2e1a0b9c8d7e";
+
+async function commitImport(importedRows: number) {
+  mockCommit.mockResolvedValueOnce({
+    id: sessionId,
+    entity_id: "entity-1",
+    successfully_imported_rows_count: importedRows,
+  });
+  const waitUntil = vi.fn();
+  const response = await onRequest({
+    request: new Request("https://app.test/api/import/process", {
+      method: "POST",
+      body: JSON.stringify({ action: "commit", sessionId }),
+    }),
+    locals: {
+      user: { id: "user-1" },
+      runtime: { env: { DATABASE: {}, DOCUMENTS_BUCKET: {}, REPORT_CACHE_KV: {} }, waitUntil },
+    },
+  });
+  return { response, waitUntil };
+}
+
+describe("import commit", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("warms the report cache in the background after a large import only", async () => {
+    const small = await commitImport(99);
+    expect(small.response.status).toBe(200);
+    expect(small.waitUntil).not.toHaveBeenCalled();
+    expect(mockWarmReportCache).not.toHaveBeenCalled();
+
+    const large = await commitImport(100);
+    expect(large.response.status).toBe(200);
+    expect(mockWarmReportCache).toHaveBeenCalledWith({
+      entityId: "entity-1",
+      db: {},
+      reportCache: {},
+      userId: "user-1",
+    });
+    expect(large.waitUntil).toHaveBeenCalledTimes(1);
+    await expect(large.waitUntil.mock.calls[0]![0]).resolves.toBe(5);
+  });
+});
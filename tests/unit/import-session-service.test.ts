@@ -0,0 +1,242 @@
+// tests/unit/import-session-service.test.ts
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { D1Database, R2Bucket } from "@cloudflare/workers-types";
+import {
+  createImportSessionService,
+  type DbImportSession,
+  type DbImportSessionRow,
+} from "../../src/lib/services/import-session-service";
+
+const mockDbQuery = vi.fn();
+const mockDbQueryOne = vi.fn();
+const mockDbExecute = vi.fn();
+const mockDbBatch = vi.fn();
+
+interface MockStatement {
+  sql: string;
+  params: unknown[];
+  bind(...params: unknown[]): MockStatement;
+}
+
+vi.mock("@db/db", () => ({
+  createDbClient: vi.fn(() => ({
+    query: mockDbQuery,
+    queryOne: mockDbQueryOne,
+    execute: mockDbExecute,
+    batch: mockDbBatch,
+    d1Instance: {
+      prepare: vi.fn(
+        (sql: string): MockStatement => ({
+          sql,
+          params: [],
+          bind(...params: unknown[]) {
+            this.params = params;
+            return this;
+          },
+        })
+      ),
+    },
+  })),
+}));
+
+vi.mock("../../src/lib/accounting/core/transaction", () => ({
+  Transaction: class {
+    constructor(data: object) {
+      Object.assign(this, data);
+    }
+    isBalanced() {
+      return true;
+    }
+  },
+}));
+
+vi.mock("../../src/lib/services/ledger-audit-service", () => ({
+  createLedgerAuditService: vi.fn(() => ({ appendStatements: vi.fn(async () => []) })),
+}));
+
+vi.mock("../../src/lib/services/exchange-rate-service", () => ({
+  createExchangeRateService: vi.fn(() => ({
+    getFunctionalCurrency: vi.fn(async () => "USD"),
+  })),
+}));
+
+const userId = "user-1";
+const now = Math.floor(Date.now() / 1000);
+
+const sessionRow = (overrides: Partial<DbImportSession>): DbImportSession => ({
+  id: "session-1",
+  user_id: userId,
+  entity_id: "entity-1",
+  name: null,
+  file_type: "csv",
+  original_file_name: "january.csv",
+  file_size_bytes: 1024,
+  storage_key: "imports/entity-1/session-1/january.csv",
+  target_entity_type: "transactions",
+  bank_account_id: "ea-bank",
+  counter_account_id: "ea-rent",
+  status: "ready_for_import",
+  current_processing_stage: "user_review_fix",
+  total_rows_detected: null,
+  processed_rows_count: null,
+  successfully_imported_rows_count: null,
+  failed_rows_count: 0,
+  skipped_rows_count: 0,
+  column_mapping_config: null,
+  applied_validation_rules: null,
+  import_processing_options: null,
+  error_summary_report: null,
+  metadata: null,
+  template_id: null,
+  is_rollback_possible: 0,
+  rollback_deadline: null,
+  created_at: now,
+  started_at: now,
+  completed_at: null,
+  updated_at: now,
+  ...overrides,
+});
+
+const stagedRow = (sourceRowNumber: number, importedRecordId: string | null = null): DbImportSessionRow => ({
+  id: `row-${sourceRowNumber}`,
+  session_id: "session-1",
+  source_row_number: sourceRowNumber,
+  raw_row_data: "{}",
+  mapped_data: JSON.stringify({
+    transaction_date: "2024-01-02",
+    transaction_amount: 100,
+    transaction_description: `Rent ${sourceRowNumber}`,
+  }),
+  validation_results: null,
+  determined_import_action: "create_new",
+  processing_status: importedRecordId ? "imported_successfully" : "ready_to_import",
+  error_messages: null,
+  warning_messages: null,
+  imported_record_id: importedRecordId,
+});
+
+/**
+ * Serve an import session with `rows`, the transactions they created with
+ * `transactionStatuses`, and a session update claiming it `changes` rows.
+ */
+function mockImport(
+  session: DbImportSession,
+  rows: DbImportSessionRow[],
+  { changes = 1, transactionStatuses = {} as Record<string, string> } = {}
+) {
+  mockDbQueryOne.mockImplementation(async (sql: string, params: unknown[]) => {
+    if (sql.includes("FROM entities")) return { id: params[0] };
+    if (sql.includes("FROM import_sessions")) return session;
+    return null;
+  });
+  mockDbQuery.mockImplementation(async (sql: string, params: unknown[]) => {
+    if (sql.includes("SELECT imported_record_id")) {
+      return rows.filter((row) => row.imported_record_id).map((row) => ({ imported_record_id: row.imported_record_id }));
+    }
+    if (sql.includes("FROM import_session_rows")) return rows;
+    if (sql.includes("FROM entity_accounts")) return [];
+    if (sql.includes("SELECT id, entity_id, status FROM transactions")) {
+      return (params as string[]).map((id) => ({
+        id,
+        entity_id: session.entity_id,
+        status: transactionStatuses[id] ?? "pending",
+      }));
+    }
+    return [];
+  });
+  mockDbExecute.mockResolvedValue({ success: true, meta: { changes } });
+  mockDbBatch.mockImplementation(async (statements: MockStatement[]) => statements.map(() => ({ success: true })));
+}
+
+const batchSql = (call: number): string[] =>
+  (mockDbBatch.mock.calls[call]![0] as MockStatement[]).map((statement) => statement.sql);
+
+describe("ImportSessionService commit and rollback", () => {
+  const service = createImportSessionService({} as D1Database, {} as R2Bucket);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("books the rows in bounded batches and completes the session with the last one", async () => {
+    mockImport(
+      sessionRow({}),
+      Array.from({ length: 120 }, (_, i) => stagedRow(i + 1))
+    );
+
+    await service.commit("session-1", userId);
+
+    expect(mockDbExecute.mock.calls[0]![1]).toEqual(expect.arrayContaining(["ready_for_import", "importing_data"]));
+    expect(mockDbBatch).toHaveBeenCalledTimes(3);
+    const rowUpdates = [0, 1, 2].map(
+      (call) => batchSql(call).filter((sql) => sql.includes("UPDATE import_session_rows")).length
+    );
+    expect(rowUpdates).toEqual([50, 50, 20]);
+    expect(batchSql(0).some((sql) => sql.includes("COALESCE(successfully_imported_rows_count, 0) + ?2"))).toBe(true);
+    expect(batchSql(1).some((sql) => sql.includes("INSERT INTO import_history"))).toBe(false);
+    expect(batchSql(2).some((sql) => sql.includes("INSERT INTO import_history"))).toBe(true);
+  });
+
+  it("books only the rows a failed commit left behind", async () => {
+    mockImport(sessionRow({}), [stagedRow(1, "tx-1"), stagedRow(2), stagedRow(3)]);
+
+    await service.commit("session-1", userId);
+
+    expect(mockDbBatch).toHaveBeenCalledTimes(1);
+    const rowUpdates = (mockDbBatch.mock.calls[0]![0] as MockStatement[]).filter((statement) =>
+      statement.sql.includes("UPDATE import_session_rows")
+    );
+    expect(rowUpdates.map((statement) => statement.params[1])).toEqual([2, 3]);
+    const completion = (mockDbBatch.mock.calls[0]![0] as MockStatement[]).find((statement) =>
+      statement.sql.includes("rollback_deadline = ?4")
+    );
+    expect(completion?.params[2]).toBe(3);
+  });
+
+  it("keeps an import a failed commit booked rows of from being remapped or cancelled", async () => {
+    mockImport(sessionRow({ successfully_imported_rows_count: 50 }), [stagedRow(1, "tx-1"), stagedRow(2)]);
+
+    await expect(
+      service.applyColumnMapping("session-1", {
+        transaction_date_column: { source_column_header_or_index: 0, expected_data_type: "date" },
+        transaction_amount_column: { source_column_header_or_index: 1, expected_data_type: "currency_decimal" },
+      })
+    ).rejects.toMatchObject({ code: "IMPORT_PARTIALLY_COMMITTED" });
+    await expect(service.cancel("session-1")).rejects.toMatchObject({ code: "IMPORT_PARTIALLY_COMMITTED" });
+    expect(mockDbExecute).not.toHaveBeenCalled();
+    expect(mockDbBatch).not.toHaveBeenCalled();
+  });
+
+  it("refuses to commit an import twice", async () => {
+    mockImport(sessionRow({ status: "import_completed_successfully" }), [stagedRow(1, "tx-1")]);
+    await expect(service.commit("session-1", userId)).rejects.toMatchObject({ code: "IMPORT_SESSION_NOT_READY" });
+
+    // A second commit that lost the race to claim the session
+    mockImport(sessionRow({}), [stagedRow(1)], { changes: 0 });
+    await expect(service.commit("session-1", userId)).rejects.toMatchObject({ code: "IMPORT_SESSION_CHANGED" });
+    expect(mockDbBatch).not.toHaveBeenCalled();
+  });
+
+  it("refuses to roll back once one of the transactions has been posted", async () => {
+    mockImport(
+      sessionRow({ status: "import_completed_successfully", is_rollback_possible: 1, rollback_deadline: now + 3600 }),
+      [stagedRow(1, "tx-1"), stagedRow(2, "tx-2")],
+      { transactionStatuses: { "tx-2": "posted" } }
+    );
+
+    await expect(service.rollback("session-1", userId)).rejects.toMatchObject({
+      code: "IMPORT_ROLLBACK_NOT_POSSIBLE",
+    });
+    expect(mockDbBatch).not.toHaveBeenCalled();
+  });
+
+  it("refuses to roll back after the deadline", async () => {
+    mockImport(
+      sessionRow({ status: "import_completed_successfully", is_rollback_possible: 1, rollback_deadline: now - 1 }),
+      [stagedRow(1, "tx-1")]
+    );
+
+    await expect(service.rollback("session-1", userId)).rejects.toMatchObject({ code: "IMPORT_ROLLBACK_EXPIRED" });
+    expect(mockDbBatch).not.toHaveBeenCalled();
+  });
+});
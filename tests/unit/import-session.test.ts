@@ -0,0 +1,144 @@
+// tests/unit/import-session.test.ts
+import { describe, it, expect } from "vitest";
+import type { ImportedRowData } from "../../src/types/import";
+import type { BankStatement } from "../../src/types/reconciliation";
+import type { QifAccountSection } from "../../src/lib/import/parser.qif";
+import {
+  buildImportEntry,
+  stageQifRows,
+  stageStatementRows,
+  summarizeImportErrors,
+  tallyImportRows,
+  validateImportRow,
+  type ImportRowCheckContext,
+} from "../../src/lib/import/import-rows";
+
+const day = (date: string) => Date.parse(`${date}T00:00:00Z`) / 1000;
+
+function statement(transactions: Array<[date: string, amount: number, description: string, fitId: string]>): BankStatement {
+  return {
+    id: "statement-1",
+    account_id: "",
+    statement_date: day("2024-01-31"),
+    statement_period_start_date: day("2024-01-01"),
+    statement_period_end_date: day("2024-01-31"),
+    opening_balance_from_statement: 0,
+    closing_balance_from_statement: 0,
+    bank_name: "First Community Bank",
+    transactions: transactions.map(([date, amount, description, fitId], i) => ({
+      id: `t${i}`,
+      bank_statement_id: "statement-1",
+      transaction_date: day(date),
+      description_original: description,
+      amount,
+      bank_reference_code: fitId,
+      is_matched_in_reconciliation: false,
+    })),
+    imported_at: 0,
+    imported_by_user_id: "user-1",
+    is_fully_processed_for_reconciliation: false,
+  };
+}
+
+const accountIdsByCode = new Map([
+  ["4000", "ea-rent"],
+  ["6100", "ea-utilities"],
+]);
+
+describe("Import session rows", () => {
+  it("checks staged statement rows for accounts and earlier imports", () => {
+    const context: ImportRowCheckContext = {
+      accountIdsByCode,
+      counterAccountId: null,
+      importedReferences: new Set(["FIT-1"]),
+      duplicateStrategy: "skip_duplicates",
+    };
+    const rows = stageStatementRows(
+      statement([
+        ["2024-01-02", 1250, "Rent Unit 3", "FIT-1"],
+        ["2024-01-05", -320.5, "Plumbing", "FIT-2"],
+        ["2024-01-31", 0, "Balance inquiry", "FIT-3"],
+      ])
+    ).map((row) => validateImportRow(row, context));
+
+    expect(rows.map((row) => [row.determined_import_action, row.processing_status])).toEqual([
+      ["skip_row", "skipped_by_rule"],
+      [undefined, "validated_with_errors"],
+      [undefined, "validated_with_errors"],
+    ]);
+    expect(rows[0]!.warning_messages).toEqual(['bank_reference "FIT-1" was imported before; the row is skipped']);
+    expect(rows[2]!.error_messages).toEqual([
+      "transaction_amount is zero",
+      "target_account is required when no default account is chosen",
+    ]);
+    expect(tallyImportRows(rows)).toEqual({ total: 3, ready: 0, failed: 2, skipped: 1 });
+
+    const summary = summarizeImportErrors(rows);
+    expect(summary?.total_errors_found).toBe(3);
+    expect(summary?.errors_by_type_count).toEqual({ REQUIRED_FIELD: 2, CUSTOM_BUSINESS_RULE: 1 });
+    expect(summary?.most_common_errors[0]).toEqual({
+      error_message_template: "target_account is required when no default account is chosen",
+      occurrence_count: 2,
+      sample_affected_row_numbers: [2, 3],
+    });
+
+    // Choosing a default account and fixing the amount clears the row's errors
+    const fixed = validateImportRow(
+      { ...rows[2]!, mapped_data: { ...rows[2]!.mapped_data, transaction_amount: -5 } },
+      { ...context, counterAccountId: "ea-suspense" }
+    );
+    expect(fixed.processing_status).toBe("validated_ok");
+    expect(fixed.determined_import_action).toBe("create_new");
+    expect(fixed.validation_results).toEqual([]);
+  });
+
+  it("books a QIF split transaction against the mapped accounts", () => {
+    const section: QifAccountSection = {
+      accountName: "Operating",
+      accountType: "bank",
+      transactions: [
+        {
+          lineNumber: 12,
+          date: "2021-01-20",
+          amount: -412.4,
+          payee: "City Utilities",
+          memo: null,
+          address: [],
+          checkNumber: "1042",
+          reference: null,
+          clearedStatus: null,
+          category: null,
+          transferAccount: null,
+          className: null,
+          accountCode: null,
+          splits: [
+            { category: "Utilities:Water", transferAccount: null, className: "Oak St", accountCode: "6100", memo: "January water", amount: -300 },
+            { category: "Repairs", transferAccount: null, className: null, accountCode: null, memo: null, amount: -112.4 },
+          ],
+        },
+      ],
+    };
+    const [staged] = stageQifRows(section);
+    expect(staged!.warning_messages).toEqual(['"Repairs" has no account code; the default account is used.']);
+
+    const row: ImportedRowData = validateImportRow(staged!, {
+      accountIdsByCode,
+      counterAccountId: "ea-suspense",
+      importedReferences: new Set(),
+      duplicateStrategy: "skip_duplicates",
+    });
+    expect(row.processing_status).toBe("validated_with_warnings");
+
+    const entry = buildImportEntry(row, "entity-1", {
+      bankAccountId: "ea-checking",
+      counterAccountId: "ea-suspense",
+      accountIdsByCode,
+    });
+    expect(entry).toMatchObject({ date: new Date("2021-01-20T00:00:00Z"), description: "City Utilities", status: "draft", reference: "1042" });
+    expect(entry.lines.map(({ accountId, amount, isDebit, description, dimensions }) => ({ accountId, amount, isDebit, description, dimensions }))).toEqual([
+      { accountId: "ea-checking", amount: "412.40", isDebit: false, description: "City Utilities", dimensions: undefined },
+      { accountId: "ea-utilities", amount: "300.00", isDebit: true, description: "January water", dimensions: { className: "Oak St" } },
+      { accountId: "ea-suspense", amount: "112.40", isDebit: true, description: undefined, dimensions: undefined },
+    ]);
+  });
+});
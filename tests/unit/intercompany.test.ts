@@ -0,0 +1,51 @@
+// tests/unit/intercompany.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  buildIntercompanySideLines,
+  getIntercompanyEntityIds,
+} from "../../src/lib/accounting/core/intercompany";
+
+const HOLDING = "holding";
+const PROPERTY = "property";
+
+// The holding company pays a property company's repair bill
+const lines = [
+  { id: "l1", accountId: "property-repairs", amount: "250.00", isDebit: true, entityId: PROPERTY },
+  { id: "l2", accountId: "holding-cash", amount: "250.00", isDebit: false },
+];
+
+describe("intercompany entries", () => {
+  it("books a receivable for the payer and a payable for the counterparty", () => {
+    expect(getIntercompanyEntityIds(HOLDING, lines)).toEqual([PROPERTY]);
+
+    const holdingSide = buildIntercompanySideLines(HOLDING, lines, HOLDING, {
+      dueFromAccountId: "holding-due-from",
+      dueToAccountId: "holding-due-to",
+    }, "Property LLC");
+    expect(holdingSide.map(({ accountId, amount, isDebit }) => ({ accountId, amount, isDebit }))).toEqual([
+      { accountId: "holding-cash", amount: "250.00", isDebit: false },
+      { accountId: "holding-due-from", amount: "250.00", isDebit: true },
+    ]);
+    expect(holdingSide[1]).toMatchObject({
+      description: "Due from Property LLC",
+      metadata: { intercompanyEntityId: PROPERTY },
+    });
+
+    const propertySide = buildIntercompanySideLines(HOLDING, lines, PROPERTY, {
+      dueFromAccountId: "property-due-from",
+      dueToAccountId: "property-due-to",
+    });
+    expect(propertySide.map(({ accountId, amount, isDebit }) => ({ accountId, amount, isDebit }))).toEqual([
+      { accountId: "property-repairs", amount: "250.00", isDebit: true },
+      { accountId: "property-due-to", amount: "250.00", isDebit: false },
+    ]);
+    expect(propertySide.some((line) => "entityId" in line)).toBe(false);
+  });
+
+  it("rejects entries spanning more than two entities or another entity", () => {
+    const accounts = { dueFromAccountId: "a", dueToAccountId: "b" };
+    const threeWay = [...lines, { id: "l3", accountId: "x", amount: "1.00", isDebit: true, entityId: "other" }];
+    expect(() => buildIntercompanySideLines(HOLDING, threeWay, HOLDING, accounts)).toThrow(/two entities/);
+    expect(() => buildIntercompanySideLines(HOLDING, lines, "stranger", accounts)).toThrow(/not a party/);
+  });
+});
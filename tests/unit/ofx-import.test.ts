@@ -0,0 +1,140 @@
+// tests/unit/ofx-import.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  excludeImportedTransactions,
+  parseOfxFile,
+} from "../../src/lib/import/parser.ofx";
+
+describe("OFX / QFX statement import", () => {
+  it("reads an SGML OFX 1.x bank statement with unclosed elements", () => {
+    const ofx = [
+      "OFXHEADER:100",
+      "DATA:OFXSGML",
+      "VERSION:102",
+      "ENCODING:USASCII",
+      "CHARSET:1252",
+      "",
+      "<OFX>",
+      "<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+      "<DTSERVER>20240201120000<LANGUAGE>ENG<FI><ORG>First Bank<FID>1001</FI>",
+      "<INTU.BID>1001</SONRS></SIGNONMSGSRSV1>",
+      "<BANKMSGSRSV1><STMTTRNRS><TRNUID>1<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+      "<STMTRS><CURDEF>USD<BANKACCTFROM><BANKID>121000248<ACCTID>000123456789<ACCTTYPE>CHECKING</BANKACCTFROM>",
+      "<BANKTRANLIST><DTSTART>20240101<DTEND>20240131235959.000[-5:EST]",
+      "<STMTTRN><TRNTYPE>DEP<DTPOSTED>20240102<TRNAMT>1250.00<FITID>A1<NAME>Rent Unit 3 &amp; 4</STMTTRN>",
+      "<STMTTRN><TRNTYPE>CHECK<DTPOSTED>20240105<TRNAMT>-320.50<FITID>A2<CHECKNUM>1042<NAME>Plumber<MEMO>Repair</STMTTRN>",
+      "<STMTTRN><TRNTYPE>CHECK<DTPOSTED>20240105<TRNAMT>-320.50<FITID>A2<CHECKNUM>1042<NAME>Plumber</STMTTRN>",
+      "<STMTTRN><TRNTYPE>FEE<DTPOSTED>2024013<TRNAMT>-5.00<FITID>A3</STMTTRN>",
+      "</BANKTRANLIST>",
+      "<LEDGERBAL><BALAMT>10929.50<DTASOF>20240131</LEDGERBAL>",
+      "</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>",
+    ].join("\r\n");
+
+    const [statement, ...others] = parseOfxFile(ofx, { userId: "user-1" });
+
+    expect(others).toHaveLength(0);
+    expect(statement!.source_file_type).toBe("qfx");
+    expect(statement!.bank_name).toBe("First Bank");
+    expect(statement!.account_number_masked).toBe("****6789");
+    expect(statement!.statement_period_start_date).toBe(Date.UTC(2024, 0, 1) / 1000);
+    expect(statement!.statement_period_end_date).toBe(Date.UTC(2024, 0, 31) / 1000);
+    expect(statement!.closing_balance_from_statement).toBe(10929.5);
+    expect(statement!.opening_balance_from_statement).toBe(10000);
+
+    expect(statement!.transactions.map((t) => [t.bank_reference_code, t.amount])).toEqual([
+      ["A1", 1250],
+      ["A2", -320.5],
+    ]);
+    const [rent, check] = statement!.transactions;
+    expect(rent!.description_original).toBe("Rent Unit 3 & 4");
+    expect(rent!.transaction_type_by_bank).toBe("direct_deposit");
+    expect(check!.check_number_if_any).toBe("1042");
+    expect(check!.description_original).toBe("Plumber Repair");
+    expect(statement!.parsing_error_messages).toEqual([
+      "Transaction A2 appears more than once; only the first was kept.",
+      "Transaction A3 was skipped: it has no valid posted date.",
+    ]);
+
+    const { newTransactions, duplicates } = excludeImportedTransactions(statement!.transactions, ["A1"]);
+    expect(newTransactions.map((t) => t.bank_reference_code)).toEqual(["A2"]);
+    expect(duplicates.map((t) => t.bank_reference_code)).toEqual(["A1"]);
+  });
+
+  it("ends empty SGML elements at the next tag", () => {
+    const ofx = [
+      "<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>USD",
+      "<BANKACCTFROM><BANKID>121000248<ACCTID>000123456789<ACCTTYPE>CHECKING</BANKACCTFROM>",
+      "<BANKTRANLIST>",
+      "<STMTTRN><TRNTYPE>POS<DTPOSTED>20240103<TRNAMT>-4.50<FITID>B1<MEMO>",
+      "<NAME>Corner Cafe</STMTTRN>",
+      "<STMTTRN><TRNTYPE>POS<DTPOSTED>20240104<TRNAMT>-12.00<FITID>B2<NAME>Hardware Store<MEMO>",
+      "</STMTTRN>",
+      "</BANKTRANLIST>",
+      "<LEDGERBAL><BALAMT>983.50<DTASOF>20240131</LEDGERBAL>",
+      "</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>",
+    ].join("\r\n");
+
+    const [statement] = parseOfxFile(ofx, { userId: "user-1" });
+
+    expect(
+      statement!.transactions.map((t) => [t.bank_reference_code, t.description_original])
+    ).toEqual([
+      ["B1", "Corner Cafe"],
+      ["B2", "Hardware Store"],
+    ]);
+    expect(statement!.parsing_error_messages).toBeNull();
+  });
+
+  it("reads an XML OFX 2.x credit card statement", () => {
+    const ofx = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX>
+  <CREDITCARDMSGSRSV1>
+    <CCSTMTTRNRS>
+      <TRNUID>0</TRNUID>
+      <CCSTMTRS>
+        <CURDEF>USD</CURDEF>
+        <CCACCTFROM><ACCTID>4111111111111111</ACCTID></CCACCTFROM>
+        <BANKTRANLIST>
+          <DTSTART>20240301</DTSTART>
+          <DTEND>20240331</DTEND>
+          <STMTTRN>
+            <TRNTYPE>DEBIT</TRNTYPE>
+            <DTPOSTED>20240310</DTPOSTED>
+            <DTUSER>20240308</DTUSER>
+            <TRNAMT>-89.99</TRNAMT>
+            <FITID>CC-1</FITID>
+            <NAME>Hardware Store</NAME>
+            <MEMO></MEMO>
+          </STMTTRN>
+        </BANKTRANLIST>
+        <LEDGERBAL><BALAMT>-589.99</BALAMT><DTASOF>20240331</DTASOF></LEDGERBAL>
+      </CCSTMTRS>
+    </CCSTMTTRNRS>
+  </CREDITCARDMSGSRSV1>
+</OFX>`;
+
+    const [statement] = parseOfxFile(new TextEncoder().encode(ofx), {
+      userId: "user-1",
+      accountId: "acct-card",
+      bankName: "Card Co",
+    });
+
+    expect(statement!.source_file_type).toBe("ofx");
+    expect(statement!.account_id).toBe("acct-card");
+    expect(statement!.bank_name).toBe("Card Co");
+    expect(statement!.opening_balance_from_statement).toBe(-500);
+    expect(statement!.closing_balance_from_statement).toBe(-589.99);
+    expect(statement!.parsing_error_messages).toBeNull();
+
+    const [purchase] = statement!.transactions;
+    expect(purchase!.transaction_date).toBe(Date.UTC(2024, 2, 8) / 1000);
+    expect(purchase!.posted_date).toBe(Date.UTC(2024, 2, 10) / 1000);
+    expect(purchase!.description_original).toBe("Hardware Store");
+    expect(purchase!.transaction_type_by_bank).toBe("debit");
+  });
+
+  it("rejects files that are not OFX", () => {
+    expect(() => parseOfxFile("Date,Amount\n2024-01-01,5", { userId: "user-1" })).toThrow(/not an OFX/);
+  });
+});
@@ -0,0 +1,60 @@
+// tests/unit/operating-statement.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  getOperatingStatementAmounts,
+  getOperatingStatementLine,
+  getOperatingStatementTotals,
+  type OperatingStatementAccount,
+} from "../../src/lib/accounting/core/operating-statement";
+
+const rent: OperatingStatementAccount = { code: "4010", type: "INCOME", systemType: "income", subtype: "rental_income" };
+const vacancy: OperatingStatementAccount = { code: "4050", type: "INCOME", systemType: "income", subtype: "vacancy_loss" };
+const lateFees: OperatingStatementAccount = { code: "4020", type: "INCOME", systemType: "income", subtype: "late_fees" };
+const repairs: OperatingStatementAccount = { code: "5200", type: "EXPENSE", systemType: "expense", subtype: "repairs_maintenance" };
+const interest: OperatingStatementAccount = { code: "5600", type: "INTEREST_EXPENSE", systemType: "expense", subtype: "mortgage_interest" };
+const depreciation: OperatingStatementAccount = { code: "5700", type: "DEPRECIATION", systemType: "expense", subtype: "depreciation" };
+const mortgage: OperatingStatementAccount = { code: "2510", type: "LOAN", systemType: "liability", subtype: "mortgage_long_term" };
+const bank: OperatingStatementAccount = { code: "1010", type: "BANK", systemType: "asset", subtype: "cash_operating" };
+
+describe("property operating statement", () => {
+  it("places accounts by subtype, then account code, then category", () => {
+    expect(getOperatingStatementLine(rent)).toBe("gross_potential_rent");
+    expect(getOperatingStatementLine({ ...rent, subtype: null, code: "4100" })).toBe("gross_potential_rent");
+    expect(getOperatingStatementLine(vacancy)).toBe("vacancy_credit_loss");
+    expect(getOperatingStatementLine(lateFees)).toBe("other_income");
+    expect(getOperatingStatementLine(repairs)).toBe("operating_expenses");
+    expect(getOperatingStatementLine(interest)).toBe("debt_service_interest");
+    expect(getOperatingStatementLine(mortgage)).toBe("debt_service_principal");
+    expect(getOperatingStatementLine(depreciation)).toBeNull();
+    expect(getOperatingStatementLine(bank)).toBeNull();
+  });
+
+  it("works down from gross potential rent to cash flow after debt service", () => {
+    const amounts = getOperatingStatementAmounts([
+      { account: rent, total: 24000, debitTotal: 0, creditTotal: 24000 },
+      { account: vacancy, total: -1200, debitTotal: 1200, creditTotal: 0 },
+      { account: lateFees, total: 300, debitTotal: 0, creditTotal: 300 },
+      { account: repairs, total: 6300, debitTotal: 6300, creditTotal: 0 },
+      { account: interest, total: 7200, debitTotal: 7200, creditTotal: 0 },
+      { account: depreciation, total: 4000, debitTotal: 4000, creditTotal: 0 },
+      // New borrowing does not offset the principal paid down
+      { account: mortgage, total: 48600, debitTotal: 2400, creditTotal: 51000 },
+    ]);
+
+    expect(getOperatingStatementTotals(amounts)).toEqual({
+      grossPotentialRent: 24000,
+      vacancyAndCreditLoss: 1200,
+      effectiveGrossIncome: 22800,
+      otherIncome: 300,
+      totalRevenue: 23100,
+      operatingExpenses: 6300,
+      netOperatingIncome: 16800,
+      debtServiceInterest: 7200,
+      debtServicePrincipal: 2400,
+      debtService: 9600,
+      cashFlowAfterDebtService: 7200,
+      capitalExpenditures: 0,
+      debtServiceCoverageRatio: 1.75,
+    });
+  });
+});
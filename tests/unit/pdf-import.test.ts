@@ -0,0 +1,103 @@
+// tests/unit/pdf-import.test.ts
+import { describe, it, expect } from "vitest";
+import { parsePdfStatement } from "../../src/lib/import/parser.pdf";
+
+type TextRun = [x: number, y: number, text: string];
+
+function content(runs: TextRun[]): string {
+  return runs
+    .map(([x, y, text]) => `BT /F1 10 Tf 1 0 0 1 ${x} ${y} Tm (${text.replace(/[()\\]/g, "\\$&")}) Tj ET`)
+    .join("\n");
+}
+
+async function deflate(data: string): Promise<string> {
+  const bytes = Uint8Array.from(data, (char) => char.charCodeAt(0));
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream("deflate"));
+  const compressed = new Uint8Array(await new Response(stream).arrayBuffer());
+  return String.fromCharCode(...compressed);
+}
+
+/** A two-page PDF in Helvetica; the second page's content is compressed */
+async function buildPdf(page1: TextRun[], page2: TextRun[]): Promise<Uint8Array> {
+  const compressed = await deflate(content(page2));
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R 5 0 R] /Count 2 /Resources << /Font << /F1 7 0 R >> >> >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R >>",
+    `<< /Length ${content(page1).length} >>\nstream\n${content(page1)}\nendstream`,
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 6 0 R >>",
+    `<< /Length ${compressed.length} /Filter /FlateDecode >>\nstream\n${compressed}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+  const pdf = `%PDF-1.4\n${objects.map((body, i) => `${i + 1} 0 obj\n${body}\nendobj\n`).join("")}trailer\n<< /Root 1 0 R >>\n%%EOF\n`;
+  return Uint8Array.from(pdf, (char) => char.charCodeAt(0));
+}
+
+// Helvetica without widths is laid out at 5pt a character, so amounts
+// placed at (right edge - 5 * length) are right-aligned under their header
+const header = (y: number): TextRun[] => [
+  [50, y, "Date"],
+  [100, y, "Description"],
+  [300, y, "Withdrawals"],
+  [400, y, "Deposits"],
+  [490, y, "Balance"],
+];
+
+describe("PDF bank statement import", () => {
+  it("reads the transaction table across pages by column and checks the running balance", async () => {
+    const pdf = await buildPdf(
+      [
+        [50, 750, "First Community Bank"],
+        [50, 735, "Account Number: 1234567890"],
+        [50, 720, "Statement Period: January 1, 2024 to January 31, 2024"],
+        [50, 700, "Beginning Balance"],
+        [450, 700, "$10,000.00"],
+        [50, 685, "Ending Balance"],
+        [450, 685, "$10,919.50"],
+        ...header(650),
+        [50, 635, "01/02"],
+        [100, 635, "Rent Unit 3"],
+        [400, 635, "1,250.00"],
+        [480, 635, "11,250.00"],
+        [50, 620, "01/05"],
+        [100, 620, "Check 1042 Plumbing"],
+        [325, 620, "320.50"],
+        [480, 620, "10,929.50"],
+        [100, 608, "Repair of water heater"],
+        [280, 50, "Page 1 of 2"],
+      ],
+      [
+        ...header(750),
+        [50, 735, "01/31"],
+        [100, 735, "Service fee"],
+        [330, 735, "10.00"],
+        [480, 735, "10,909.50"],
+      ]
+    );
+
+    const statement = await parsePdfStatement(pdf, { userId: "user-1", bankName: "First Community Bank" });
+
+    expect(statement.source_file_type).toBe("pdf");
+    expect(statement.account_number_masked).toBe("****7890");
+    expect(statement.statement_period_start_date).toBe(Date.UTC(2024, 0, 1) / 1000);
+    expect(statement.statement_period_end_date).toBe(Date.UTC(2024, 0, 31) / 1000);
+    expect(statement.opening_balance_from_statement).toBe(10000);
+    expect(statement.closing_balance_from_statement).toBe(10919.5);
+    expect(
+      statement.transactions.map((t) => [t.description_original, t.amount, t.running_balance_after_txn])
+    ).toEqual([
+      ["Rent Unit 3", 1250, 11250],
+      ["Check 1042 Plumbing Repair of water heater", -320.5, 10929.5],
+      ["Service fee", -10, 10909.5],
+    ]);
+    expect(statement.transactions[2]!.transaction_date).toBe(Date.UTC(2024, 0, 31) / 1000);
+    expect(statement.parsing_error_messages).toEqual([
+      'Page 2: the balance of 10909.50 after "Service fee" on 2024-01-31 does not follow from the balance of 10929.50 before it and the amount of -10.00.',
+    ]);
+  });
+
+  it("rejects a PDF without a text layer", async () => {
+    const pdf = await buildPdf([], []);
+    await expect(parsePdfStatement(pdf, { userId: "user-1" })).rejects.toThrow(/no text layer/);
+  });
+});
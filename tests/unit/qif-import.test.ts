@@ -0,0 +1,128 @@
+// tests/unit/qif-import.test.ts
+import { describe, it, expect } from "vitest";
+import { parseQifDate, parseQifFile } from "../../src/lib/import/parser.qif";
+
+describe("QIF import", () => {
+  it("reads Quicken dates in either day/month order, with the apostrophe year syntax", () => {
+    expect(parseQifDate("1/15/98", "MDY")).toBe("1998-01-15");
+    expect(parseQifDate("1/15'04", "MDY")).toBe("2004-01-15");
+    expect(parseQifDate(" 1/ 5' 4", "MDY")).toBe("2004-01-05");
+    expect(parseQifDate("15/01/2004", "DMY")).toBe("2004-01-15");
+    expect(parseQifDate("05.01'12", "DMY")).toBe("2012-01-05");
+    expect(parseQifDate("2004-01-15", "DMY")).toBe("2004-01-15");
+    expect(parseQifDate("15/01/2004", "MDY")).toBeNull();
+  });
+
+  it("reads bank and credit card sections with splits, transfers and mapped categories", () => {
+    const qif = [
+      "!Type:Cat",
+      "NRent Income",
+      "DRents received",
+      "I",
+      "^",
+      "NUtilities:Water",
+      "E",
+      "^",
+      "!Account",
+      "NOperating",
+      "TBank",
+      "^",
+      "!Type:Bank",
+      "D1/15'21",
+      "T1,250.00",
+      "CX",
+      "PTenant A",
+      "LRent Income/Oak St",
+      "^",
+      "D1/20'21",
+      "T-412.40",
+      "N1042",
+      "PCity Utilities",
+      "LUtilities",
+      "SUtilities:Water",
+      "EJanuary water",
+      "$-300.00",
+      "SUtilities:Sewer/Oak St",
+      "$-112.40",
+      "^",
+      "D1/31'21",
+      "T-500.00",
+      "NTXFR",
+      "L[Reserve]",
+      "^",
+      "D2/30'21",
+      "T-10.00",
+      "^",
+      "!Type:Invst",
+      "D1/31'21",
+      "NBuy",
+      "^",
+      "!Account",
+      "NVisa",
+      "TCCard",
+      "^",
+      "!Type:CCard",
+      "D1/25'21",
+      "U-45.00",
+      "T-45.00",
+      "PHardware",
+      "LRepairs",
+      "^",
+    ].join("\r\n");
+
+    const result = parseQifFile(qif, {
+      dateOrder: "auto",
+      categoryAccountCodes: { "rent income": "4000", Utilities: "6100" },
+      transferAccountCodes: { Reserve: "1020" },
+    });
+
+    expect(result.dateOrder).toBe("MDY");
+    expect(result.dateOrderAmbiguous).toBe(false);
+    expect(result.skippedSections).toEqual(["Type:Invst"]);
+    expect(result.categories).toEqual([
+      { name: "Rent Income", description: "Rents received", kind: "income", accountCode: "4000" },
+      { name: "Utilities:Water", description: null, kind: "expense", accountCode: "6100" },
+    ]);
+    expect(result.unmappedCategories).toEqual(["Repairs"]);
+    expect(result.errors).toEqual([
+      'Line 36: the transaction was skipped: "2/30\'21" is not a valid date.',
+    ]);
+
+    const [bank, card] = result.accounts;
+    expect(bank!.accountName).toBe("Operating");
+    expect(bank!.accountType).toBe("bank");
+    expect(bank!.transactions).toHaveLength(3);
+
+    const [rent, utilities, transfer] = bank!.transactions;
+    expect(rent).toMatchObject({
+      date: "2021-01-15",
+      amount: 1250,
+      clearedStatus: "reconciled",
+      category: "Rent Income",
+      className: "Oak St",
+      accountCode: "4000",
+    });
+    expect(utilities!.checkNumber).toBe("1042");
+    expect(utilities!.accountCode).toBeNull();
+    expect(utilities!.splits).toEqual([
+      { category: "Utilities:Water", transferAccount: null, className: null, accountCode: "6100", memo: "January water", amount: -300 },
+      { category: "Utilities:Sewer", transferAccount: null, className: "Oak St", accountCode: "6100", memo: null, amount: -112.4 },
+    ]);
+    expect(transfer).toMatchObject({ reference: "TXFR", transferAccount: "Reserve", accountCode: "1020" });
+
+    expect(card!.accountName).toBe("Visa");
+    expect(card!.accountType).toBe("credit_card");
+    expect(card!.transactions[0]).toMatchObject({ amount: -45, payee: "Hardware", accountCode: null });
+  });
+
+  it("reports splits that do not add up to the transaction", () => {
+    const qif = "!Type:Bank\nD15/01/2021\nT-100.00\nSA\n$-60.00\nSB\n$-30.00\n^\n";
+    const result = parseQifFile(qif);
+
+    expect(result.dateOrder).toBe("DMY");
+    expect(result.accounts[0]!.transactions[0]!.date).toBe("2021-01-15");
+    expect(result.errors).toEqual([
+      "Line 2: the splits of the transaction add up to -90.00, not its amount of -100.00.",
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+// tests/unit/recurrence.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  getDueOccurrences,
+  getNextOccurrence,
+  parseCronExpression,
+  resolveLineAmount,
+  validateRecurrenceRule,
+} from "../../src/lib/accounting/core/recurrence";
+
+describe("recurrence rules", () => {
+  it("repeats monthly on the start day, clamped to short months", () => {
+    const rule = { frequency: "monthly" as const, startDate: "2024-01-31" };
+    expect(getDueOccurrences(rule, null, "2024-04-30")).toEqual([
+      "2024-01-31",
+      "2024-02-29",
+      "2024-03-31",
+      "2024-04-30",
+    ]);
+  });
+
+  it("resumes after the last generated occurrence and stops at the end date", () => {
+    const rule = { frequency: "quarterly" as const, startDate: "2024-01-15", endDate: "2024-12-31" };
+    expect(getNextOccurrence(rule, "2024-04-15")).toBe("2024-07-15");
+    expect(getNextOccurrence(rule, "2024-10-15")).toBeNull();
+    expect(getNextOccurrence({ frequency: "annual", startDate: "2024-02-29" }, "2024-02-29")).toBe("2025-02-28");
+  });
+
+  it("matches custom cron expressions by day", () => {
+    // 1st and 15th of every month
+    const rule = { frequency: "custom" as const, startDate: "2024-03-10", cronExpression: "0 6 1,15 * *" };
+    expect(getDueOccurrences(rule, null, "2024-04-20")).toEqual(["2024-03-15", "2024-04-01", "2024-04-15"]);
+
+    // Every Monday in June
+    const mondays = { frequency: "custom" as const, startDate: "2024-06-01", cronExpression: "0 0 * 6 1" };
+    expect(getDueOccurrences(mondays, null, "2024-12-31")).toEqual([
+      "2024-06-03",
+      "2024-06-10",
+      "2024-06-17",
+      "2024-06-24",
+    ]);
+  });
+
+  it("rejects invalid rules", () => {
+    expect(() => parseCronExpression("0 0 * *")).toThrow(/five fields/);
+    expect(() => parseCronExpression("0 0 32 * *")).toThrow(/out of range/);
+    expect(() =>
+      validateRecurrenceRule({ frequency: "custom", startDate: "2024-01-01" })
+    ).toThrow(/cron expression is required/);
+    expect(() =>
+      validateRecurrenceRule({ frequency: "monthly", startDate: "2024-05-01", endDate: "2024-04-01" })
+    ).toThrow(/End date/);
+  });
+
+  it("applies the latest scheduled amount in effect", () => {
+    const line = {
+      amount: "1000.00",
+      amountSchedule: [
+        { effectiveDate: "2024-07-01", amount: "1050.00" },
+        { effectiveDate: "2025-01-01", amount: "1100.00" },
+      ],
+    };
+    expect(resolveLineAmount(line, "2024-06-30")).toBe("1000.00");
+    expect(resolveLineAmount(line, "2024-07-01")).toBe("1050.00");
+    expect(resolveLineAmount(line, "2025-03-01")).toBe("1100.00");
+  });
+});
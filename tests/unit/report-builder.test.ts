@@ -0,0 +1,100 @@
+// tests/unit/report-builder.test.ts
+import { describe, it, expect, vi } from "vitest";
+import type { CustomReportConfiguration } from "../../src/types/report";
+import {
+  buildCustomReportRows,
+  compileCustomReport,
+  evaluateFormula,
+  parseFormula,
+  type CustomReportAccountActivity,
+} from "../../src/lib/reports/builder";
+
+vi.mock("../../src/lib/accounting/core/accounting-api", () => ({
+  getGeneralLedgerActivity: vi.fn(),
+}));
+
+function activity(
+  id: string,
+  systemType: "income" | "expense",
+  periodDebits: number,
+  periodCredits: number
+): CustomReportAccountActivity {
+  return {
+    account: {
+      id,
+      code: id,
+      name: `Account ${id}`,
+      type: systemType.toUpperCase(),
+      systemType,
+      subtype: null,
+      normalBalance: systemType === "income" ? "credit" : "debit",
+      parentAccountId: null,
+      isActive: true,
+      displayOrder: 0,
+      entityAccountId: `ea-${id}`,
+    },
+    openingBalance: 0,
+    periodDebits,
+    periodCredits,
+    lineCount: 1,
+  };
+}
+
+describe("custom report builder", () => {
+  it("evaluates formulas with precedence and guards division by zero", () => {
+    const values: Record<string, number> = { a: 10, b: 4, zero: 0 };
+    expect(evaluateFormula(parseFormula("{a} - b * 2"), (id) => values[id])).toBe(2);
+    expect(evaluateFormula(parseFormula("-(a + b) / 2"), (id) => values[id])).toBe(-7);
+    expect(evaluateFormula(parseFormula("a / zero"), (id) => values[id])).toBeNull();
+    expect(() => parseFormula("a +")).toThrow(/not a valid expression/);
+  });
+
+  it("rejects formulas that refer to themselves or to text columns", () => {
+    const base: CustomReportConfiguration = {
+      reportName: "Bad",
+      accountSelectionCriteria: {},
+      reportColumns: [
+        { id: "name", headerName: "Name", valueSourceType: "metadata_field", valueSourceField: "account.name" },
+        { id: "x", headerName: "X", valueSourceType: "calculated_formula", formulaExpression: "y + 1" },
+        { id: "y", headerName: "Y", valueSourceType: "calculated_formula", formulaExpression: "x" },
+      ],
+    };
+    expect(() => compileCustomReport(base)).toThrow(/refers to itself/);
+    base.reportColumns[2]!.formulaExpression = "name";
+    expect(() => compileCustomReport(base)).toThrow(/not an amount column/);
+  });
+
+  it("groups rows with subtotals and recomputes unsummed formulas", () => {
+    const compiled = compileCustomReport({
+      reportName: "Margins",
+      accountSelectionCriteria: { excludeAccountIds: ["4900"] },
+      reportColumns: [
+        { id: "name", headerName: "Account", valueSourceType: "metadata_field", valueSourceField: "account.name" },
+        { id: "net", headerName: "Net", valueSourceType: "account_activity" },
+        { id: "share", headerName: "Share", valueSourceType: "calculated_formula", formulaExpression: "net / 100" },
+      ],
+      rowGroupingOptions: { groupByField: "account.type", showGroupSubtotals: true },
+      sortingOptions: { sortByField: "net", sortDirection: "desc" },
+      reportFilters: [{ filterField: "net", filterOperator: "greater_than", filterValue: 0 }],
+    });
+
+    const { rows, columnTotals, accountsEvaluated } = buildCustomReportRows(compiled, [
+      activity("4000", "income", 0, 500),
+      activity("4100", "income", 0, 300),
+      activity("4900", "income", 0, 999),
+      activity("5000", "expense", 200, 0),
+      activity("5100", "expense", 0, 50), // negative net, filtered out
+    ]);
+
+    expect(accountsEvaluated).toBe(4);
+    expect(rows.map((row) => row._rowType === "account" ? row._accountId : `subtotal:${row._group}`)).toEqual([
+      "5000",
+      "subtotal:expense",
+      "4000",
+      "4100",
+      "subtotal:income",
+    ]);
+    expect(rows[4]).toMatchObject({ net: 800, share: 8 });
+    expect(columnTotals).toEqual({ net: 1000, share: 10 });
+  });
+});
@@ -0,0 +1,93 @@
+// tests/unit/report-cache.test.ts
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const ledgerVersions = new Map<string, number>();
+const ownership = new Map<string, { parentId: string | null; ownershipPercentage: number }>();
+
+vi.mock("../../src/lib/accounting/core/accounting-api", () => ({
+  getAccountsUpdatedAt: vi.fn(async () => 1700000000),
+  getEntityOwnership: vi.fn(async () => new Map(ownership)),
+}));
+vi.mock("../../src/lib/services/ledger-audit-service", () => ({
+  createLedgerAuditService: () => ({
+    getLedgerVersions: async (entityIds: string[]) =>
+      new Map(entityIds.map((id) => [id, ledgerVersions.get(id) ?? 0])),
+  }),
+}));
+
+import {
+  getOrGenerateReport,
+  getReportCacheVersion,
+  getReportUsage,
+} from "../../src/lib/reports/report-cache";
+import { reportCache } from "../../src/utils/cache";
+
+function createKV() {
+  const store = new Map<string, string>();
+  return {
+    store,
+    get: vi.fn(async (key: string, options?: { type?: string }) => {
+      const value = store.get(key);
+      if (value === undefined) return null;
+      return options?.type === "json" ? JSON.parse(value) : value;
+    }),
+    put: vi.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+  };
+}
+
+describe("report cache", () => {
+  beforeEach(() => {
+    ledgerVersions.clear();
+    ownership.clear();
+    reportCache.clear();
+  });
+
+  it("serves a cached report until the ledger version changes", async () => {
+    const kv = createKV();
+    const generate = vi.fn(async () => ({ netIncome: generate.mock.calls.length * 100 }));
+    const request = () =>
+      getOrGenerateReport({
+        kv: kv as any,
+        db: {} as any,
+        entityId: "entity-1",
+        reportType: "income-statement",
+        params: { entityId: "entity-1", startDate: "2026-01-01", endDate: "2026-06-30" },
+        generate,
+      });
+
+    ledgerVersions.set("entity-1", 7);
+    expect(await request()).toEqual({ netIncome: 100 });
+    expect(await request()).toEqual({ netIncome: 100 });
+    expect(generate).toHaveBeenCalledTimes(1);
+
+    // A cold isolate still finds it in KV
+    reportCache.clear();
+    expect(await request()).toEqual({ netIncome: 100 });
+    expect(generate).toHaveBeenCalledTimes(1);
+
+    // A posting bumps the version; the old entry is never served again
+    ledgerVersions.set("entity-1", 8);
+    expect(await request()).toEqual({ netIncome: 200 });
+    expect(generate).toHaveBeenCalledTimes(2);
+
+    const [usage] = await getReportUsage(kv as any, "entity-1");
+    expect(usage).toMatchObject({ reportType: "income-statement", hits: 4 });
+  });
+
+  it("moves a consolidated report's version when a member's ownership changes", async () => {
+    const group = ["entity-1", "entity-2"];
+    ownership.set("entity-1", { parentId: null, ownershipPercentage: 100 });
+    ownership.set("entity-2", { parentId: "entity-1", ownershipPercentage: 80 });
+    const before = await getReportCacheVersion({} as any, group);
+    expect(await getReportCacheVersion({} as any, group)).toBe(before);
+
+    ownership.set("entity-2", { parentId: "entity-1", ownershipPercentage: 60 });
+    const afterSale = await getReportCacheVersion({} as any, group);
+    expect(afterSale).not.toBe(before);
+
+    ownership.set("entity-2", { parentId: null, ownershipPercentage: 60 });
+    expect(await getReportCacheVersion({} as any, group)).not.toBe(afterSale);
+  });
+});
@@ -0,0 +1,45 @@
+// tests/unit/report-diff.test.ts
+import { describe, it, expect } from "vitest";
+import { diffReports } from "../../src/lib/reports/report-diff";
+
+const report = (rent: number, accounts: Array<{ accountCode: string; lineItemName: string; amount: number }>) => ({
+  id: crypto.randomUUID(),
+  title: "Income Statement",
+  generatedAt: Math.floor(Date.now() / 1000),
+  items: [
+    {
+      lineItemName: "Revenue",
+      amount: rent,
+      formattedAmount: `$${rent}`,
+      displayOrder: 1,
+      children: accounts.map((account, index) => ({ ...account, displayOrder: index + 2 })),
+    },
+  ],
+  netIncome: rent - 100,
+});
+
+describe("report differences", () => {
+  it("finds no differences between two generations of the same books", () => {
+    const accounts = [{ accountCode: "4010", lineItemName: "Rental Income", amount: 1000 }];
+    expect(diffReports(report(1000, accounts), report(1000, accounts))).toEqual([]);
+  });
+
+  it("matches rows by account rather than position and lists added and removed amounts", () => {
+    const snapshot = report(1000, [
+      { accountCode: "4010", lineItemName: "Rental Income", amount: 900 },
+      { accountCode: "4090", lineItemName: "Other Income", amount: 100 },
+    ]);
+    const current = report(1250.5, [
+      { accountCode: "4000", lineItemName: "Late Fees", amount: 50.5 },
+      { accountCode: "4010", lineItemName: "Rental Income", amount: 1200 },
+    ]);
+
+    expect(diffReports(snapshot, current)).toEqual([
+      { path: "items/Revenue/amount", snapshotValue: 1000, currentValue: 1250.5, difference: 250.5 },
+      { path: "items/Revenue/children/4010 Rental Income/amount", snapshotValue: 900, currentValue: 1200, difference: 300 },
+      { path: "items/Revenue/children/4090 Other Income/amount", snapshotValue: 100, currentValue: null, difference: -100 },
+      { path: "netIncome", snapshotValue: 900, currentValue: 1150.5, difference: 250.5 },
+      { path: "items/Revenue/children/4000 Late Fees/amount", snapshotValue: null, currentValue: 50.5, difference: 50.5 },
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+// tests/unit/report-periods.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  addPeriodColumns,
+  assertPeriodsWithin,
+  buildReportPeriods,
+} from "../../src/lib/reports/periods";
+import type { ReportLineItem } from "../../src/types/report";
+
+describe("multi-period reports", () => {
+  it("splits a trailing twelve months into calendar months, cutting partial ones", () => {
+    const months = buildReportPeriods({ startDate: "2025-10-15", endDate: "2026-09-30", interval: "month" });
+    expect(months).toHaveLength(12);
+    expect(months[0]).toEqual({ label: "Oct 2025", startDate: "2025-10-15", endDate: "2025-10-31" });
+    expect(months[4]).toMatchObject({ startDate: "2026-02-01", endDate: "2026-02-28" });
+
+    const quarters = buildReportPeriods({ startDate: "2026-01-01", endDate: "2026-08-31", interval: "quarter" });
+    expect(quarters.map((q) => [q.label, q.endDate])).toEqual([
+      ["Q1 2026", "2026-03-31"],
+      ["Q2 2026", "2026-06-30"],
+      ["Q3 2026", "2026-08-31"],
+    ]);
+  });
+
+  it("rejects periods outside the report's range", () => {
+    expect(() =>
+      assertPeriodsWithin([{ label: "Dec", startDate: "2025-12-01", endDate: "2025-12-31" }], {
+        startDate: "2026-01-01",
+        endDate: "2026-12-31",
+      })
+    ).toThrow(/must start within/);
+    expect(() => assertPeriodsWithin([{ label: "Q4", endDate: "2027-01-01" }], { endDate: "2026-12-31" }))
+      .toThrow(/ends after/);
+  });
+
+  it("fills period amounts and variances, with zero where a period has no line", () => {
+    const line = (accountId: string, amount: number) =>
+      ({ accountId, amount, lineItemName: accountId, displayOrder: 0 }) as ReportLineItem;
+    const items = [line("rent", 300), line("repairs", 50)];
+
+    addPeriodColumns(items, [[line("rent", 100)], [line("rent", 100), line("repairs", 50)], [line("rent", 100)]],
+      (item) => item.accountId ?? "", true);
+
+    expect(items[0]?.periodAmounts).toEqual([100, 100, 100]);
+    expect(items[1]?.periodAmounts).toEqual([0, 50, 0]);
+    expect(items[1]?.periodVariances).toEqual([
+      null,
+      { amount: 50, changePercentage: null },
+      { amount: -50, changePercentage: -1 },
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+// tests/unit/scheduled-jobs.test.ts
+import { describe, it, expect, vi } from "vitest";
+import { readFileSync } from "node:fs";
+import type { ExecutionContext, ScheduledEvent } from "@cloudflare/workers-types";
+import type { CloudflareEnv } from "../../src/env";
+import { CronPresets } from "../../src/lib/cloudflare/cron";
+import scheduledWorker from "../../cloudflare/workers/scheduled";
+
+const mockRunDueSchedules = vi.fn(async () => ({
+  schedulesProcessed: 1,
+  transactionsCreated: 2,
+  errors: [],
+}));
+
+vi.mock("../../src/lib/services/recurring-schedule-service", () => ({
+  createRecurringScheduleService: vi.fn(() => ({ runDueSchedules: mockRunDueSchedules })),
+}));
+
+vi.mock("../../src/lib/accounting/core/financial", () => ({
+  initMojoFinancialEngine: vi.fn(async () => undefined),
+}));
+
+describe("scheduled worker", () => {
+  it("runs the due recurring schedules on the daily cron trigger", async () => {
+    const scheduledTime = Date.UTC(2024, 4, 1);
+    const pending: Promise<unknown>[] = [];
+    const ctx = {
+      waitUntil: (promise: Promise<unknown>) => pending.push(promise),
+      passThroughOnException: () => undefined,
+    } as unknown as ExecutionContext;
+    const env = { CONFIG_KV: { put: vi.fn(async () => undefined) } } as unknown as CloudflareEnv;
+
+    await scheduledWorker.scheduled(
+      { cron: CronPresets.EVERY_DAY_MIDNIGHT, scheduledTime } as ScheduledEvent,
+      env,
+      ctx
+    );
+    await Promise.all(pending);
+
+    expect(mockRunDueSchedules).toHaveBeenCalledWith(new Date(scheduledTime));
+  });
+
+  it("is triggered by its own wrangler config on the registered schedule", () => {
+    const config = readFileSync(new URL("../../wrangler.scheduled.toml", import.meta.url), "utf8");
+    expect(config).toMatch(/^main = "cloudflare\/workers\/scheduled\.ts"$/m);
+    expect(config).toMatch(/\[triggers\]\s*\ncrons = \["0 0 \* \* \*"\]/);
+
+    // Pages projects ignore cron triggers, so the Pages config declares none
+    const pagesConfig = readFileSync(new URL("../../wrangler.toml", import.meta.url), "utf8");
+    expect(pagesConfig).not.toMatch(/^\[triggers\]/m);
+  });
+});
@@ -0,0 +1,238 @@
+// tests/unit/transaction-service.test.ts
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { D1Database } from "@cloudflare/workers-types";
+import { createTransactionService } from "../../src/lib/services/transaction-service";
+import type {
+  DbTransaction,
+  DbTransactionLine,
+} from "../../src/lib/services/transaction-service";
+
+const mockDbQuery = vi.fn();
+const mockDbQueryOne = vi.fn();
+const mockDbBatch = vi.fn();
+
+vi.mock("@db/db", () => ({
+  createDbClient: vi.fn(() => ({
+    query: mockDbQuery,
+    queryOne: mockDbQueryOne,
+    execute: vi.fn(),
+    batch: mockDbBatch,
+    d1Instance: {
+      prepare: vi.fn((sql: string) => ({ sql, bind: vi.fn().mockReturnThis() })),
+    },
+  })),
+}));
+
+vi.mock("../../src/lib/accounting/core/transaction", () => ({
+  Transaction: class {
+    constructor(data: object) {
+      Object.assign(this, data);
+    }
+    post() {
+      return true;
+    }
+    void() {
+      return true;
+    }
+  },
+}));
+
+vi.mock("../../src/lib/services/ledger-audit-service", () => ({
+  createLedgerAuditService: vi.fn(() => ({ appendStatements: vi.fn(async () => []) })),
+}));
+
+vi.mock("../../src/lib/services/exchange-rate-service", () => ({
+  createExchangeRateService: vi.fn(() => ({
+    getFunctionalCurrency: vi.fn(async () => "USD"),
+    convertLines: vi.fn(async (_entityId: string, _date: string, lines: unknown[]) => lines),
+  })),
+}));
+
+const mockD1Instance = {} as D1Database;
+const userId = "user-1";
+
+const transactionRow = (overrides: Partial<DbTransaction>): DbTransaction => ({
+  id: "tx-original",
+  user_id: userId,
+  entity_id: "entity-1",
+  journal_id: null,
+  date: Date.UTC(2024, 2, 1) / 1000,
+  description: "March rent",
+  reference: null,
+  status: "posted",
+  is_reconciled: 0,
+  document_url: null,
+  reversal_of_transaction_id: null,
+  correction_of_transaction_id: null,
+  intercompany_of_transaction_id: null,
+  created_at: 0,
+  updated_at: 0,
+  ...overrides,
+});
+
+const lineRow = (id: string, transactionId: string, isDebit: boolean): DbTransactionLine => ({
+  id,
+  transaction_id: transactionId,
+  entity_account_id: isDebit ? "ea-bank" : "ea-rent",
+  amount: 150000,
+  is_debit: isDebit ? 1 : 0,
+  memo: null,
+  currency_code: "USD",
+  foreign_amount: null,
+  exchange_rate: null,
+  property_id: null,
+  unit_id: null,
+  class_name: null,
+  tags: null,
+  created_at: 0,
+});
+
+/**
+ * Serve a ledger holding `transactions`, where `reversals` maps a
+ * transaction ID to the ID of the posted entry that reverses it.
+ */
+function mockLedger(transactions: DbTransaction[], reversals: Record<string, string> = {}) {
+  mockDbQueryOne.mockImplementation(async (sql: string, params: unknown[]) => {
+    if (sql.includes("FROM entities")) return { id: params[0] };
+    if (sql.includes("FROM journals")) {
+      return params[0] === "journal-closing" ? { entity_id: "entity-1", type: "closing" } : null;
+    }
+    if (sql.includes("reversal_of_transaction_id = ?1")) {
+      const reversalId = reversals[params[0] as string];
+      return reversalId ? { id: reversalId } : null;
+    }
+    return transactions.find((t) => t.id === params[0]) ?? null;
+  });
+  mockDbQuery.mockImplementation(async (sql: string, params: unknown[]) => {
+    if (sql.includes("intercompany_of_transaction_id = ?1")) {
+      return transactions.filter((t) => t.intercompany_of_transaction_id === params[0] || t.id === params[1]);
+    }
+    if (sql.includes("SELECT id, entity_id, status")) {
+      return transactions.filter((t) => (params as string[]).includes(t.id));
+    }
+    if (sql.includes("FROM transaction_lines")) {
+      return (params as string[]).flatMap((id) => [
+        lineRow(`${id}-dr`, id, true),
+        lineRow(`${id}-cr`, id, false),
+      ]);
+    }
+    return [];
+  });
+}
+
+describe("TransactionService corrections", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("refuses to correct or void an entry that has already been reversed", async () => {
+    mockLedger(
+      [
+        transactionRow({}),
+        transactionRow({ id: "tx-reversal", reversal_of_transaction_id: "tx-original" }),
+        transactionRow({ id: "tx-correction", correction_of_transaction_id: "tx-original" }),
+      ],
+      { "tx-original": "tx-reversal" }
+    );
+    const service = createTransactionService(mockD1Instance);
+
+    await expect(
+      service.correctPostedTransaction("tx-original", { description: "March rent (again)" }, userId)
+    ).rejects.toMatchObject({ code: "TRANSACTION_ALREADY_REVERSED" });
+    await expect(service.voidTransaction("tx-original", userId)).rejects.toMatchObject({
+      code: "TRANSACTION_ALREADY_REVERSED",
+    });
+    expect(mockDbBatch).not.toHaveBeenCalled();
+  });
+
+  it("refuses to correct reversing and correcting entries", async () => {
+    mockLedger([
+      transactionRow({ id: "tx-reversal", reversal_of_transaction_id: "tx-original" }),
+      transactionRow({ id: "tx-correction", correction_of_transaction_id: "tx-original" }),
+    ]);
+    const service = createTransactionService(mockD1Instance);
+
+    for (const id of ["tx-reversal", "tx-correction"]) {
+      await expect(
+        service.correctPostedTransaction(id, { description: "Edited" }, userId)
+      ).rejects.toMatchObject({ code: "TRANSACTION_NOT_CORRECTABLE" });
+    }
+    expect(mockDbBatch).not.toHaveBeenCalled();
+  });
+
+  it("refuses to void reversing and correcting entries", async () => {
+    mockLedger([
+      transactionRow({ id: "tx-reversal", reversal_of_transaction_id: "tx-original" }),
+      transactionRow({ id: "tx-correction", correction_of_transaction_id: "tx-original" }),
+    ]);
+    const service = createTransactionService(mockD1Instance);
+
+    for (const id of ["tx-reversal", "tx-correction"]) {
+      await expect(service.voidTransaction(id, userId)).rejects.toMatchObject({
+        code: "TRANSACTION_NOT_VOIDABLE",
+      });
+    }
+    expect(mockDbBatch).not.toHaveBeenCalled();
+  });
+});
+
+describe("TransactionService year-end closing entries", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("refuses to void or correct the closing entry", async () => {
+    mockLedger([transactionRow({ id: "tx-closing", journal_id: "journal-closing" })]);
+    const service = createTransactionService(mockD1Instance);
+
+    await expect(service.voidTransaction("tx-closing", userId)).rejects.toMatchObject({
+      code: "TRANSACTION_IS_CLOSING_ENTRY",
+    });
+    await expect(
+      service.correctPostedTransaction("tx-closing", { description: "Edited" }, userId)
+    ).rejects.toMatchObject({ code: "TRANSACTION_IS_CLOSING_ENTRY" });
+    expect(mockDbBatch).not.toHaveBeenCalled();
+  });
+});
+
+describe("TransactionService intercompany entries", () => {
+  const intercompanyDrafts = () => [
+    transactionRow({ id: "tx-origin", status: "pending" }),
+    transactionRow({
+      id: "tx-mirror",
+      entity_id: "entity-2",
+      status: "pending",
+      intercompany_of_transaction_id: "tx-origin",
+    }),
+  ];
+  const batchedIds = (sqlPrefix: string): unknown[] =>
+    (mockDbBatch.mock.calls[0]![0] as Array<{ sql: string; bind: ReturnType<typeof vi.fn> }>)
+      .filter((statement) => statement.sql.startsWith(sqlPrefix))
+      .map((statement) => statement.bind.mock.calls[0]![0]);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDbBatch.mockResolvedValue([{ success: true }]);
+  });
+
+  it("posts both sides of a draft intercompany entry in one batch", async () => {
+    mockLedger(intercompanyDrafts());
+    const service = createTransactionService(mockD1Instance);
+
+    // Posting the mirror posts the originating side too
+    await service.postTransaction("tx-mirror", userId);
+
+    expect(mockDbBatch).toHaveBeenCalledTimes(1);
+    expect(batchedIds("UPDATE transactions SET status")).toEqual(["tx-mirror", "tx-origin"]);
+  });
+
+  it("deletes both sides of a draft intercompany entry in one batch", async () => {
+    mockLedger(intercompanyDrafts());
+    const service = createTransactionService(mockD1Instance);
+
+    await expect(service.deleteTransaction("tx-origin", userId)).resolves.toBe(true);
+
+    expect(mockDbBatch).toHaveBeenCalledTimes(1);
+    expect(batchedIds("DELETE FROM transactions")).toEqual(["tx-origin", "tx-mirror"]);
+  });
+});
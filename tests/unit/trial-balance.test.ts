@@ -0,0 +1,39 @@
+// tests/unit/trial-balance.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  buildTrialBalanceWorksheet,
+  getDifference,
+} from "../../src/lib/accounting/core/trial-balance";
+
+describe("trial balance worksheet", () => {
+  const activity = [
+    { accountId: "cash", systemType: "asset" as const, unadjustedNetDebit: 1000, adjustingDebit: 0, adjustingCredit: 0 },
+    { accountId: "prepaid", systemType: "asset" as const, unadjustedNetDebit: 600, adjustingDebit: 0, adjustingCredit: 200 },
+    { accountId: "revenue", systemType: "income" as const, unadjustedNetDebit: -1600, adjustingDebit: 0, adjustingCredit: 0 },
+    { accountId: "insurance", systemType: "expense" as const, unadjustedNetDebit: 0, adjustingDebit: 200, adjustingCredit: 0 },
+    { accountId: "unused", systemType: "liability" as const, unadjustedNetDebit: 0, adjustingDebit: 0, adjustingCredit: 0 },
+  ];
+
+  it("lays out unadjusted, adjusting and adjusted columns that balance", () => {
+    const { rows, totals } = buildTrialBalanceWorksheet(activity);
+    expect(rows.map((r) => r.accountId)).toEqual(["cash", "prepaid", "revenue", "insurance"]);
+    expect(rows[1]).toMatchObject({
+      unadjusted: { debit: 600, credit: 0 },
+      adjustments: { debit: 0, credit: 200 },
+      adjusted: { debit: 400, credit: 0 },
+    });
+    expect(totals.unadjusted).toEqual({ debit: 1600, credit: 1600 });
+    expect(totals.adjustments).toEqual({ debit: 200, credit: 200 });
+    expect(totals.adjusted).toEqual({ debit: 1600, credit: 1600 });
+    expect(getDifference(totals.adjusted)).toBe(0);
+  });
+
+  it("keeps zero balances on request and flags abnormal balances", () => {
+    const overdrawn = [{ ...activity[0]!, unadjustedNetDebit: -50.1 }];
+    const { rows, totals } = buildTrialBalanceWorksheet([...overdrawn, activity[4]!], true);
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({ adjusted: { debit: 0, credit: 50.1 }, abnormalBalance: true });
+    expect(rows[1]!.abnormalBalance).toBe(false);
+    expect(getDifference(totals.adjusted)).toBe(-50.1);
+  });
+});
@@ -0,0 +1,101 @@
+// tests/unit/year-end-close.test.ts
+import { describe, it, expect, vi, beforeAll } from "vitest";
+import { Account, type AccountDefinition } from "../../src/lib/accounting/core/account";
+import { initMojoFinancialEngine } from "../../src/lib/accounting/core/financial";
+import { Ledger } from "../../src/lib/accounting/core/ledger";
+import { buildClosingTransaction } from "../../src/lib/accounting/core/year-end-close";
+
+// The ledger's journals are not used here, and their validation schema
+// does not load under the test build of zod
+vi.mock("../../src/lib/accounting/core/journal", () => ({ Journal: class {} }));
+
+vi.mock("../../src/lib/accounting/core/transaction", () => ({
+  Transaction: class {
+    constructor(data: object) {
+      Object.assign(this, data);
+    }
+  },
+  TransactionError: class extends Error {
+    constructor(message: string, public code: string) {
+      super(message);
+    }
+  },
+}));
+
+const options = {
+  transactionId: "close-2024",
+  fiscalYear: 2024,
+  closeDate: new Date("2024-12-31"),
+  retainedEarningsAccountId: "retained-earnings",
+};
+
+function ledgerWith(balances: Array<[AccountDefinition["type"], string, string]>): Ledger {
+  const ledger = new Ledger("entity-1");
+  for (const [type, id, balance] of balances) {
+    const account = new Account({ id, code: id.toUpperCase(), name: id, type, isActive: true });
+    account.setBalance(balance);
+    ledger.addAccount(account);
+  }
+  return ledger;
+}
+
+const sides = (ledger: Ledger) =>
+  buildClosingTransaction(ledger, options).lines.map(({ accountId, amount, isDebit }) => ({
+    accountId,
+    amount,
+    isDebit,
+  }));
+
+describe("year-end close", () => {
+  beforeAll(async () => {
+    await initMojoFinancialEngine();
+  });
+
+  it("zeroes income and expense accounts into retained earnings", () => {
+    const ledger = ledgerWith([
+      ["equity", "retained-earnings", "5000"],
+      ["asset", "cash", "12000"],
+      ["income", "rent", "10000"],
+      ["expense", "repairs", "3000"],
+      ["expense", "insurance", "0"],
+    ]);
+
+    const closing = buildClosingTransaction(ledger, options);
+
+    expect(sides(ledger)).toEqual([
+      { accountId: "rent", amount: "10000", isDebit: true },
+      { accountId: "repairs", amount: "3000", isDebit: false },
+      { accountId: "retained-earnings", amount: "7000", isDebit: false },
+    ]);
+    expect(closing).toMatchObject({
+      date: options.closeDate,
+      reference: "YEAR-END-CLOSE-2024",
+      metadata: { isClosingEntry: true, fiscalYear: 2024 },
+    });
+  });
+
+  it("debits retained earnings with a net loss", () => {
+    const ledger = ledgerWith([
+      ["equity", "retained-earnings", "5000"],
+      ["income", "rent", "2000"],
+      ["expense", "repairs", "3500"],
+    ]);
+
+    expect(sides(ledger)).toEqual([
+      { accountId: "rent", amount: "2000", isDebit: true },
+      { accountId: "repairs", amount: "3500", isDebit: false },
+      { accountId: "retained-earnings", amount: "1500", isDebit: true },
+    ]);
+  });
+
+  it("needs a retained earnings account in the ledger", () => {
+    const ledger = ledgerWith([
+      ["income", "rent", "2000"],
+      ["expense", "repairs", "500"],
+    ]);
+
+    expect(() => buildClosingTransaction(ledger, options)).toThrow(
+      expect.objectContaining({ code: "INVALID_CLOSING_ACCOUNT" })
+    );
+  });
+});